@@ -23,6 +23,7 @@ import {
   resolveDiscordGroupRequireMention,
   resolveDiscordGroupToolPolicy,
   setAccountEnabledInConfigSection,
+  type ChannelCollaborationAdapter,
   type ChannelMessageActionAdapter,
   type ChannelPlugin,
   type ResolvedDiscordAccount,
@@ -45,6 +46,25 @@ const discordMessageActions: ChannelMessageActionAdapter = {
   },
 };
 
+const discordCollaboration: ChannelCollaborationAdapter = {
+  resolveAgentIdentity: (params) =>
+    getDiscordRuntime().channel.discord.collaboration.resolveAgentIdentity(params),
+  formatMention: (identity) =>
+    getDiscordRuntime().channel.discord.collaboration.formatMention(identity),
+  createThread: (params) => getDiscordRuntime().channel.discord.collaboration.createThread(params),
+  sendToThread: (params) => getDiscordRuntime().channel.discord.collaboration.sendToThread(params),
+  registerParticipants: (params) =>
+    getDiscordRuntime().channel.discord.collaboration.registerParticipants?.(params),
+  trackMention: async (params) =>
+    await getDiscordRuntime().channel.discord.collaboration.trackMention?.(params),
+  listChannels: async (params) =>
+    (await getDiscordRuntime().channel.discord.collaboration.listChannels?.(params)) ?? [],
+  listThreads: async (params) =>
+    (await getDiscordRuntime().channel.discord.collaboration.listThreads?.(params)) ?? [],
+  readMessages: async (params) =>
+    (await getDiscordRuntime().channel.discord.collaboration.readMessages?.(params)) ?? [],
+};
+
 export const discordPlugin: ChannelPlugin<ResolvedDiscordAccount> = {
   id: "discord",
   meta: {
@@ -222,6 +242,7 @@ export const discordPlugin: ChannelPlugin<ResolvedDiscordAccount> = {
     },
   },
   actions: discordMessageActions,
+  collaboration: discordCollaboration,
   setup: {
     resolveAccountId: ({ accountId }) => normalizeAccountId(accountId),
     applyAccountName: ({ cfg, accountId, name }) =>
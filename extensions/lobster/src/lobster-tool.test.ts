@@ -37,6 +37,8 @@ function fakeApi(overrides: Partial<OpenClawPluginApi> = {}): OpenClawPluginApi
     registerHook() {},
     registerHttpRoute() {},
     registerCommand() {},
+    registerConversationSink() {},
+    registerTtsProvider() {},
     on() {},
     resolvePath: (p) => p,
     ...overrides,
@@ -0,0 +1,157 @@
+import type { MatrixClient } from "@vector-im/matrix-bot-sdk";
+import { appendCollaborationCard, type ChannelCollaborationAdapter } from "openclaw/plugin-sdk";
+import { listMatrixAccountIds, resolveMatrixAccount } from "./matrix/accounts.js";
+import { resolveActionClient } from "./matrix/actions/client.js";
+import type { MatrixRawEvent } from "./matrix/actions/types.js";
+import { resolveMatrixRoomId, sendMessageMatrix } from "./matrix/send.js";
+import { getMatrixRuntime } from "./runtime.js";
+import type { CoreConfig } from "./types.js";
+
+const THREAD_LIST_LIMIT = 25;
+const THREAD_NAME_MAX = 100;
+
+type MatrixThreadRoot = MatrixRawEvent & {
+  unsigned?: MatrixRawEvent["unsigned"] & {
+    "m.relations"?: { "m.thread"?: { count?: number } };
+  };
+};
+
+function requireRoomId(channelId: string | undefined): string {
+  if (!channelId) {
+    throw new Error("Matrix threads need channelId (the room holding the thread root)");
+  }
+  return channelId;
+}
+
+function bodyOf(event: MatrixRawEvent): string {
+  const body = event.content?.body;
+  return typeof body === "string" ? body : "";
+}
+
+async function withRoomClient<T>(
+  channelId: string,
+  accountId: string | null | undefined,
+  run: (client: MatrixClient, roomId: string) => Promise<T>,
+): Promise<T> {
+  const { client, stopOnDone } = await resolveActionClient({ accountId });
+  try {
+    return await run(client, await resolveMatrixRoomId(client, channelId));
+  } finally {
+    if (stopOnDone) {
+      client.stop();
+    }
+  }
+}
+
+export const matrixCollaborationAdapter: ChannelCollaborationAdapter = {
+  resolveAgentIdentity: async ({ cfg, agentId }) => {
+    const core = getMatrixRuntime();
+    for (const accountId of listMatrixAccountIds(cfg as CoreConfig)) {
+      const route = core.channel.routing.resolveAgentRoute({ cfg, channel: "matrix", accountId });
+      if (route.agentId !== agentId) {
+        continue;
+      }
+      const userId = resolveMatrixAccount({ cfg: cfg as CoreConfig, accountId }).userId;
+      if (userId) {
+        return userId;
+      }
+    }
+    return undefined;
+  },
+  // Matrix clients highlight a full MXID in the body.
+  formatMention: (identity) => identity,
+  createThread: async ({ channelId, name, accountId }) => {
+    // A Matrix thread is rooted at a regular event; post the thread name as that root.
+    const root = await sendMessageMatrix(`room:${channelId}`, name, {
+      accountId: accountId ?? undefined,
+    });
+    return { threadId: root.messageId, channelId: root.roomId };
+  },
+  sendToThread: async ({ channelId, threadId, text, card, accountId }) => {
+    const body = appendCollaborationCard(text, card, (title) => `**${title}**`);
+    const result = await sendMessageMatrix(`room:${requireRoomId(channelId)}`, body, {
+      accountId: accountId ?? undefined,
+      threadId,
+    });
+    return { messageId: result.messageId };
+  },
+  registerParticipants: async ({ channelId, threadId, participantIds }) => {
+    await getMatrixRuntime().channel.collaboration.registerParticipants({
+      channel: "matrix",
+      channelId: requireRoomId(channelId),
+      threadId,
+      participantIds,
+    });
+  },
+  trackMention: async (params) => {
+    await getMatrixRuntime().channel.collaboration.trackMention({
+      messageId: params.messageId,
+      channel: "matrix",
+      channelId: requireRoomId(params.channelId),
+      threadId: params.threadId,
+      fromAgentId: params.fromAgentId,
+      targetAgentId: params.targetAgentId,
+      targetBotId: params.targetIdentity,
+      originalText: params.text,
+    });
+  },
+  listChannels: async ({ accountId }) => {
+    const { client, stopOnDone } = await resolveActionClient({ accountId });
+    try {
+      const roomIds = await client.getJoinedRooms();
+      const channels = [];
+      for (const roomId of roomIds) {
+        const name = await client
+          .getRoomStateEvent(roomId, "m.room.name", "")
+          .then((state: { name?: string }) => state?.name?.trim() ?? "")
+          .catch(() => "");
+        const topic = await client
+          .getRoomStateEvent(roomId, "m.room.topic", "")
+          .then((state: { topic?: string }) => state?.topic?.trim() || null)
+          .catch(() => null);
+        // Unnamed rooms are usually DMs, which are no place for a collaboration thread.
+        if (name) {
+          channels.push({ id: roomId, name, topic, category: null });
+        }
+      }
+      return channels;
+    } finally {
+      if (stopOnDone) {
+        client.stop();
+      }
+    }
+  },
+  listThreads: async ({ channelId, accountId }) => {
+    if (!channelId) {
+      return [];
+    }
+    return await withRoomClient(channelId, accountId, async (client, roomId) => {
+      const res = (await client.doRequest(
+        "GET",
+        `/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/threads`,
+        { limit: THREAD_LIST_LIMIT },
+      )) as { chunk?: MatrixThreadRoot[] };
+      return (res.chunk ?? []).map((event) => ({
+        id: event.event_id,
+        name: bodyOf(event).replace(/\s+/g, " ").trim().slice(0, THREAD_NAME_MAX),
+        channelId: roomId,
+        messageCount: event.unsigned?.["m.relations"]?.["m.thread"]?.count ?? null,
+      }));
+    });
+  },
+  readMessages: async ({ channelId, threadId, limit, accountId }) =>
+    await withRoomClient(requireRoomId(channelId), accountId, async (client, roomId) => {
+      const res = (await client.doRequest(
+        "GET",
+        `/_matrix/client/v1/rooms/${encodeURIComponent(roomId)}/relations/${encodeURIComponent(threadId)}/m.thread`,
+        { limit, dir: "b" },
+      )) as { chunk?: MatrixRawEvent[] };
+      return (res.chunk ?? [])
+        .filter((event) => event.type === "m.room.message" && !event.unsigned?.redacted_because)
+        .map((event) => ({
+          author: event.sender,
+          content: bodyOf(event),
+          timestamp: event.origin_server_ts,
+        }));
+    }),
+};
@@ -407,14 +407,59 @@ export function createMatrixRoomMessageHandler(params: MatrixMonitorHandlerParam
         commandAuthorized &&
         hasControlCommandInMessage;
       const canDetectMention = mentionRegexes.length > 0 || hasExplicitMention;
-      if (isRoom && shouldRequireMention && !wasMentioned && !shouldBypassMention) {
+      const threadRootId = resolveMatrixThreadRootId({ event, content });
+      // Bots registered in a collaboration thread answer each other there
+      // without a fresh mention (see collaborate-tool).
+      const collaborationParticipants =
+        isRoom && threadRootId
+          ? await core.channel.collaboration
+              .getParticipants({ channel: "matrix", channelId: roomId, threadId: threadRootId })
+              .catch((err) => {
+                logVerboseMessage(
+                  `matrix: collaboration participant lookup failed: ${String(err)}`,
+                );
+                return [] as string[];
+              })
+          : [];
+      const isCollaborationParticipant = collaborationParticipants.includes(selfUserId);
+      if (
+        isCollaborationParticipant &&
+        threadRootId &&
+        collaborationParticipants.includes(senderId)
+      ) {
+        // Rate-limit agent-to-agent messages to prevent infinite ping-pong loops
+        const blocked = core.channel.collaboration.checkRateLimit(senderId, selfUserId, {
+          maxMessagesPerWindow: 6,
+          windowMs: 60_000,
+        });
+        if (blocked) {
+          logVerboseMessage(
+            `matrix: drop collaboration message (A2A rate limit exceeded: ${senderId} <-> ${selfUserId})`,
+          );
+          return;
+        }
+        // Only mentions sent before this reply count as answered (FIFO).
+        core.channel.collaboration
+          .markMentionRespondedByIdentity(threadRootId, senderId, {
+            beforeTimestamp: typeof eventTs === "number" ? eventTs : undefined,
+          })
+          .catch((err) => {
+            logVerboseMessage(`matrix: a2a-retry mark responded failed: ${String(err)}`);
+          });
+      }
+      if (
+        isRoom &&
+        shouldRequireMention &&
+        !wasMentioned &&
+        !isCollaborationParticipant &&
+        !shouldBypassMention
+      ) {
         logger.info("skipping room message", { roomId, reason: "no-mention" });
         return;
       }
 
       const messageId = event.event_id ?? "";
       const replyToEventId = content["m.relates_to"]?.["m.in_reply_to"]?.event_id;
-      const threadRootId = resolveMatrixThreadRootId({ event, content });
       const threadTarget = resolveMatrixThreadTarget({
         threadReplies,
         messageId,
@@ -579,7 +624,7 @@ export function createMatrixRoomMessageHandler(params: MatrixMonitorHandlerParam
             isMentionableGroup: isRoom,
             requireMention: Boolean(shouldRequireMention),
             canDetectMention,
-            effectiveWasMentioned: wasMentioned || shouldBypassMention,
+            effectiveWasMentioned: wasMentioned || isCollaborationParticipant || shouldBypassMention,
             shouldBypassMention,
           }),
         );
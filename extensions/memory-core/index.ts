@@ -21,9 +21,15 @@ const memoryCorePlugin = {
         if (!memorySearchTool || !memoryGetTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        const teamMemoryWriteTool = api.runtime.tools.createTeamMemoryWriteTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        return teamMemoryWriteTool
+          ? [memorySearchTool, memoryGetTool, teamMemoryWriteTool]
+          : [memorySearchTool, memoryGetTool];
       },
-      { names: ["memory_search", "memory_get"] },
+      { names: ["memory_search", "memory_get", "team_memory_write"] },
     );
 
     api.registerCli(
@@ -25,6 +25,7 @@ import {
   setAccountEnabledInConfigSection,
   slackOnboardingAdapter,
   SlackConfigSchema,
+  type ChannelCollaborationAdapter,
   type ChannelPlugin,
   type ResolvedSlackAccount,
 } from "openclaw/plugin-sdk";
@@ -49,6 +50,25 @@ function getTokenForOperation(
   return botToken ?? userToken;
 }
 
+const slackCollaboration: ChannelCollaborationAdapter = {
+  resolveAgentIdentity: (params) =>
+    getSlackRuntime().channel.slack.collaboration.resolveAgentIdentity(params),
+  formatMention: (identity) =>
+    getSlackRuntime().channel.slack.collaboration.formatMention(identity),
+  createThread: (params) => getSlackRuntime().channel.slack.collaboration.createThread(params),
+  sendToThread: (params) => getSlackRuntime().channel.slack.collaboration.sendToThread(params),
+  registerParticipants: async (params) =>
+    await getSlackRuntime().channel.slack.collaboration.registerParticipants?.(params),
+  trackMention: async (params) =>
+    await getSlackRuntime().channel.slack.collaboration.trackMention?.(params),
+  listChannels: async (params) =>
+    (await getSlackRuntime().channel.slack.collaboration.listChannels?.(params)) ?? [],
+  listThreads: async (params) =>
+    (await getSlackRuntime().channel.slack.collaboration.listThreads?.(params)) ?? [],
+  readMessages: async (params) =>
+    (await getSlackRuntime().channel.slack.collaboration.readMessages?.(params)) ?? [],
+};
+
 export const slackPlugin: ChannelPlugin<ResolvedSlackAccount> = {
   id: "slack",
   meta: {
@@ -241,6 +261,7 @@ export const slackPlugin: ChannelPlugin<ResolvedSlackAccount> = {
           await getSlackRuntime().channel.slack.handleSlackAction(action, cfg, toolContext),
       }),
   },
+  collaboration: slackCollaboration,
   setup: {
     resolveAccountId: ({ accountId }) => normalizeAccountId(accountId),
     applyAccountName: ({ cfg, accountId, name }) =>
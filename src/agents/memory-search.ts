@@ -7,7 +7,7 @@ import { resolveAgentConfig } from "./agent-scope.js";
 
 export type ResolvedMemorySearchConfig = {
   enabled: boolean;
-  sources: Array<"memory" | "sessions">;
+  sources: Array<AgentMemorySource | "team">;
   extraPaths: string[];
   provider: "openai" | "local" | "gemini" | "voyage" | "mistral" | "auto";
   remote?: {
@@ -98,17 +98,21 @@ const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
 const DEFAULT_CACHE_ENABLED = true;
-const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
+
+type AgentMemorySource = "memory" | "sessions" | "tasks" | "a2a";
+
+const DEFAULT_SOURCES: AgentMemorySource[] = ["memory"];
+const TEAM_STORE_ID = "_team";
 
 function normalizeSources(
-  sources: Array<"memory" | "sessions"> | undefined,
+  sources: AgentMemorySource[] | undefined,
   sessionMemoryEnabled: boolean,
-): Array<"memory" | "sessions"> {
-  const normalized = new Set<"memory" | "sessions">();
+): AgentMemorySource[] {
+  const normalized = new Set<AgentMemorySource>();
   const input = sources?.length ? sources : DEFAULT_SOURCES;
   for (const source of input) {
-    if (source === "memory") {
-      normalized.add("memory");
+    if (source === "memory" || source === "tasks" || source === "a2a") {
+      normalized.add(source);
     }
     if (source === "sessions" && sessionMemoryEnabled) {
       normalized.add("sessions");
@@ -359,3 +363,27 @@ export function resolveMemorySearchConfig(
   }
   return resolved;
 }
+
+/**
+ * Settings for the shared team index: the agent defaults, indexing only the
+ * team directory into its own store so every reader shares one index.
+ */
+export function resolveTeamMemorySearchConfig(
+  cfg: OpenClawConfig,
+): ResolvedMemorySearchConfig | null {
+  const defaults = cfg.agents?.defaults?.memorySearch;
+  const resolved = mergeConfig(defaults, undefined, TEAM_STORE_ID);
+  if (!resolved.enabled) {
+    return null;
+  }
+  // A store path without {agentId} would point the team index at an agent's database.
+  const storePath = defaults?.store?.path?.includes("{agentId}")
+    ? resolved.store.path
+    : resolveStorePath(TEAM_STORE_ID);
+  return {
+    ...resolved,
+    sources: ["team"],
+    extraPaths: [],
+    store: { ...resolved.store, path: storePath },
+  };
+}
@@ -0,0 +1,231 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { closeStateStores, openStateNamespace } from "../infra/state-store.js";
+import {
+  clearObserverContext,
+  isObserverSummarizeEnabled,
+  type ObserverSummarizer,
+  readObservedMessages,
+  readObserverContext,
+  recordObservedMessage,
+  resolveObserverConfig,
+  resolveObserverNamespace,
+} from "./observer-context.js";
+
+const SESSION_KEY = "agent:ops:discord:channel:thread-1";
+
+let stateDir = "";
+
+function makeConfig(observer: Record<string, unknown> = {}): OpenClawConfig {
+  return {
+    agents: {
+      defaults: { observer: { mode: "summarize", summarizeEvery: 3, bufferMessages: 5 } },
+      list: [{ id: "ops", observer }],
+    },
+  } as OpenClawConfig;
+}
+
+async function record(
+  cfg: OpenClawConfig,
+  summarize: ObserverSummarizer,
+  bodies: string[],
+): Promise<void> {
+  for (const body of bodies) {
+    await recordObservedMessage({
+      cfg,
+      agentId: "ops",
+      sessionKey: SESSION_KEY,
+      stateDir,
+      summarize,
+      message: { sender: "alice", body, timestamp: Date.now() },
+    });
+  }
+}
+
+async function readRecord(sessionKey = SESSION_KEY) {
+  const ns = openStateNamespace<{ summary?: string; buffer: unknown[]; droppedCount: number }>(
+    resolveObserverNamespace(sessionKey),
+    { stateDir },
+  );
+  return ns.get(sessionKey);
+}
+
+describe("observer context", () => {
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "observer-context-"));
+  });
+
+  afterEach(async () => {
+    closeStateStores();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("merges per-agent overrides over defaults", () => {
+    expect(resolveObserverConfig({} as OpenClawConfig, "ops")).toEqual({
+      mode: "history",
+      bufferMessages: 100,
+      summarizeEvery: 30,
+      model: undefined,
+    });
+    expect(
+      resolveObserverConfig(makeConfig({ summarizeEvery: 10, model: " fast " }), "ops"),
+    ).toEqual({ mode: "summarize", bufferMessages: 10, summarizeEvery: 10, model: "fast" });
+    expect(isObserverSummarizeEnabled(makeConfig({ mode: "history" }), "ops")).toBe(false);
+    expect(isObserverSummarizeEnabled(makeConfig(), "other")).toBe(true);
+  });
+
+  it("folds the buffer into a summary once summarizeEvery messages are waiting", async () => {
+    const summarize = vi.fn<ObserverSummarizer>(async ({ messages, previousSummary }) =>
+      [previousSummary, ...messages.map((message) => message.body)].filter(Boolean).join("+"),
+    );
+    await record(makeConfig(), summarize, ["a", "b"]);
+    expect(summarize).not.toHaveBeenCalled();
+
+    await record(makeConfig(), summarize, ["c"]);
+    await vi.waitFor(async () => expect((await readRecord())?.summary).toBe("a+b+c"));
+    expect((await readRecord())?.buffer).toEqual([]);
+
+    await record(makeConfig(), summarize, ["d"]);
+    const context = await readObserverContext({
+      cfg: makeConfig(),
+      agentId: "ops",
+      sessionKey: SESSION_KEY,
+      stateDir,
+      summarize,
+    });
+    expect(context?.text).toContain("4 messages while another agent was handling the thread");
+    expect(context?.text).toContain("a+b+c+d");
+    expect(summarize).toHaveBeenLastCalledWith(
+      expect.objectContaining({ previousSummary: "a+b+c" }),
+    );
+    // Nothing is dropped until the Handler turn is dispatched.
+    expect((await readRecord())?.summary).toBe("a+b+c+d");
+
+    await clearObserverContext({ sessionKey: SESSION_KEY, stateDir, context: context! });
+    expect(await readRecord()).toBeUndefined();
+    expect(
+      await readObserverContext({
+        cfg: makeConfig(),
+        agentId: "ops",
+        sessionKey: SESSION_KEY,
+        stateDir,
+      }),
+    ).toBeUndefined();
+  });
+
+  it("keeps messages observed after the read when clearing", async () => {
+    const summarize = vi.fn<ObserverSummarizer>(async () => "summary");
+    const cfg = makeConfig({ summarizeEvery: 50 });
+    await record(cfg, summarize, ["one", "two"]);
+    const context = await readObserverContext({
+      cfg,
+      agentId: "ops",
+      sessionKey: SESSION_KEY,
+      stateDir,
+      summarize,
+    });
+    await record(cfg, summarize, ["three"]);
+
+    await clearObserverContext({ sessionKey: SESSION_KEY, stateDir, context: context! });
+    const next = await readObserverContext({
+      cfg,
+      agentId: "ops",
+      sessionKey: SESSION_KEY,
+      stateDir,
+      summarize,
+    });
+    expect(next?.text).toContain("1 message while another agent was handling the thread");
+    expect(summarize).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        messages: [expect.objectContaining({ body: "three" })],
+        previousSummary: undefined,
+      }),
+    );
+  });
+
+  it("falls back to the raw buffer when the final fold fails", async () => {
+    const summarize = vi.fn<ObserverSummarizer>(async () => {
+      throw new Error("model down");
+    });
+    await record(makeConfig({ summarizeEvery: 50 }), summarize, ["one", "two"]);
+
+    const context = await readObserverContext({
+      cfg: makeConfig({ summarizeEvery: 50 }),
+      agentId: "ops",
+      sessionKey: SESSION_KEY,
+      stateDir,
+      summarize,
+    });
+    expect(context?.text.split("\n").slice(1)).toEqual([
+      "Recent observed messages:",
+      "alice: one",
+      "alice: two",
+    ]);
+  });
+
+  it("does not hold the Handler turn for a slow final fold", async () => {
+    let finishFold: (summary: string) => void = () => {};
+    const summarize = vi.fn<ObserverSummarizer>(
+      () => new Promise<string>((resolve) => (finishFold = resolve)),
+    );
+    const cfg = makeConfig({ summarizeEvery: 50 });
+    await record(cfg, summarize, ["one"]);
+
+    const context = await readObserverContext({
+      cfg,
+      agentId: "ops",
+      sessionKey: SESSION_KEY,
+      stateDir,
+      summarize,
+      timeoutMs: 20,
+    });
+    expect(context?.text.split("\n").slice(1)).toEqual(["Recent observed messages:", "alice: one"]);
+
+    finishFold("late summary");
+    await vi.waitFor(async () => expect((await readRecord())?.summary).toBe("late summary"));
+  });
+
+  it("keeps each session in its own namespace", async () => {
+    const otherKey = "agent:ops:discord:channel:thread-2";
+    expect(resolveObserverNamespace(otherKey)).not.toBe(resolveObserverNamespace(SESSION_KEY));
+    const summarize = vi.fn<ObserverSummarizer>(async () => "never");
+    await recordObservedMessage({
+      cfg: makeConfig({ summarizeEvery: 50 }),
+      agentId: "ops",
+      sessionKey: otherKey,
+      stateDir,
+      summarize,
+      message: { sender: "bob", body: "elsewhere", timestamp: Date.now() },
+    });
+
+    expect((await readRecord(otherKey))?.buffer).toHaveLength(1);
+    expect(await readRecord()).toBeUndefined();
+  });
+
+  it("caps the buffer but keeps every message in the raw archive", async () => {
+    const summarize = vi.fn<ObserverSummarizer>(async () => "never");
+    const cfg = makeConfig({ summarizeEvery: 100, bufferMessages: 2 });
+    await record(cfg, summarize, ["1", "2", "3", "4"]);
+    // bufferMessages is raised to summarizeEvery, so nothing is dropped yet.
+    expect((await readRecord())?.buffer).toHaveLength(4);
+
+    const tight = makeConfig({ summarizeEvery: 2, bufferMessages: 2 });
+    const failing = vi.fn<ObserverSummarizer>(async () => {
+      throw new Error("model down");
+    });
+    await record(tight, failing, ["5"]);
+    expect((await readRecord())?.buffer).toHaveLength(2);
+    expect((await readRecord())?.droppedCount).toBe(3);
+
+    const archived = await readObservedMessages({ sessionKey: SESSION_KEY, stateDir });
+    expect(archived.map((message) => message.body)).toEqual(["1", "2", "3", "4", "5"]);
+    expect(
+      (await readObservedMessages({ sessionKey: SESSION_KEY, stateDir, limit: 2 })).map(
+        (message) => message.body,
+      ),
+    ).toEqual(["4", "5"]);
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * Observer-mode context.
+ *
+ * In a multi-agent thread only the Handler runs the model; every other
+ * participant observes. With `observer.mode: "summarize"` observed messages
+ * also go to a bounded rolling buffer per session (in its own state-store
+ * namespace, so threads never wait on each other's lock), which is folded into one
+ * running summary (compaction's `summarizeInStages`) every `summarizeEvery`
+ * messages and once more when the agent becomes the Handler. The Handler turn
+ * receives the summary as a single untrusted context block, so what was said
+ * before the channel history limit is not lost.
+ *
+ * Every observed message is also appended to a raw archive
+ * (`<stateDir>/observer/<session>.jsonl`) that `sessions_history` returns with
+ * `includeObserved: true`.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { AgentObserverMode } from "../config/types.agent-defaults.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import { openStateNamespace, type StateNamespace } from "../infra/state-store.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import {
+  BASE_CHUNK_RATIO,
+  resolveContextWindowTokens,
+  SUMMARIZATION_OVERHEAD_TOKENS,
+  summarizeInStages,
+} from "./compaction.js";
+import { DEFAULT_PROVIDER } from "./defaults.js";
+import { getApiKeyForModel, requireApiKey } from "./model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "./model-selection.js";
+import { resolveModel } from "./pi-embedded-runner/model.js";
+
+const log = createSubsystemLogger("agents/observer");
+
+const DEFAULT_BUFFER_MESSAGES = 100;
+const DEFAULT_SUMMARIZE_EVERY = 30;
+/** Each session gets its own namespace, so busy threads do not share one file lock. */
+const STATE_NAMESPACE_PREFIX = "agents.observer";
+/** Buffers of threads nobody touched for a week are not worth summarizing. */
+const RECORD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const ARCHIVE_DIRNAME = "observer";
+const ARCHIVE_MAX_MESSAGES = 1000;
+const SUMMARY_RESERVE_TOKENS = 2048;
+/** How long a Handler turn waits for the final fold before using the raw buffer. */
+const DEFAULT_READ_TIMEOUT_MS = 3_000;
+const FALLBACK_RAW_MESSAGES = 20;
+
+export type ResolvedObserverConfig = {
+  mode: AgentObserverMode;
+  bufferMessages: number;
+  summarizeEvery: number;
+  model?: string;
+};
+
+export type ObservedMessage = {
+  sender: string;
+  body: string;
+  timestamp: number;
+  messageId?: string;
+};
+
+type BufferedMessage = ObservedMessage & { seq: number };
+
+type ObserverRecord = {
+  agentId: string;
+  sessionKey: string;
+  /** Identifies this buffer generation; a fold started before a take never lands in a newer one. */
+  createdAt: number;
+  nextSeq: number;
+  summary?: string;
+  summarizedCount: number;
+  /** Unsummarized messages dropped from the full buffer (still in the archive). */
+  droppedCount: number;
+  buffer: BufferedMessage[];
+  archivedCount: number;
+};
+
+export type ObserverSummarizer = (params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  model?: string;
+  messages: ObservedMessage[];
+  previousSummary?: string;
+}) => Promise<string>;
+
+export type ObserverContextOptions = {
+  cfg: OpenClawConfig;
+  agentId: string;
+  sessionKey: string;
+  stateDir?: string;
+  summarize?: ObserverSummarizer;
+};
+
+export function resolveObserverConfig(
+  cfg: OpenClawConfig,
+  agentId: string,
+): ResolvedObserverConfig {
+  const defaults = cfg.agents?.defaults?.observer;
+  const overrides = resolveAgentConfig(cfg, agentId)?.observer;
+  const summarizeEvery =
+    overrides?.summarizeEvery ?? defaults?.summarizeEvery ?? DEFAULT_SUMMARIZE_EVERY;
+  const bufferMessages =
+    overrides?.bufferMessages ?? defaults?.bufferMessages ?? DEFAULT_BUFFER_MESSAGES;
+  return {
+    mode: overrides?.mode ?? defaults?.mode ?? "history",
+    // A buffer smaller than the fold threshold would drop messages before they are summarized.
+    bufferMessages: Math.max(bufferMessages, summarizeEvery),
+    summarizeEvery,
+    model: (overrides?.model ?? defaults?.model)?.trim() || undefined,
+  };
+}
+
+export function isObserverSummarizeEnabled(cfg: OpenClawConfig, agentId: string): boolean {
+  return resolveObserverConfig(cfg, agentId).mode === "summarize";
+}
+
+function hashSessionKey(sessionKey: string): string {
+  return crypto.createHash("sha256").update(sessionKey).digest("hex").slice(0, 10);
+}
+
+/** State-store namespace holding the buffer of one session. */
+export function resolveObserverNamespace(sessionKey: string): string {
+  return `${STATE_NAMESPACE_PREFIX}.${hashSessionKey(sessionKey)}`;
+}
+
+function openObserverNamespace(
+  sessionKey: string,
+  stateDir?: string,
+): StateNamespace<ObserverRecord> {
+  return openStateNamespace<ObserverRecord>(resolveObserverNamespace(sessionKey), {
+    stateDir,
+    defaultTtlMs: RECORD_TTL_MS,
+  });
+}
+
+function resolveArchivePath(sessionKey: string, stateDir?: string): string {
+  const slug = sessionKey.replace(/[^a-zA-Z0-9._-]+/g, "_").slice(0, 80);
+  return path.join(
+    stateDir ?? resolveStateDir(),
+    ARCHIVE_DIRNAME,
+    `${slug}-${hashSessionKey(sessionKey)}.jsonl`,
+  );
+}
+
+async function appendToArchive(archivePath: string, message: ObservedMessage, count: number) {
+  await fs.promises.mkdir(path.dirname(archivePath), { recursive: true });
+  await fs.promises.appendFile(archivePath, `${JSON.stringify(message)}\n`, "utf-8");
+  // Trim in batches so the archive is rewritten once per ~200 messages, not on every append.
+  if (count > ARCHIVE_MAX_MESSAGES * 1.2) {
+    const kept = (await readArchive(archivePath)).slice(-ARCHIVE_MAX_MESSAGES);
+    const tmp = `${archivePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(
+      tmp,
+      kept.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+      "utf-8",
+    );
+    await fs.promises.rename(tmp, archivePath);
+    return kept.length;
+  }
+  return count;
+}
+
+async function readArchive(archivePath: string): Promise<ObservedMessage[]> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(archivePath, "utf-8");
+  } catch {
+    return [];
+  }
+  const messages: ObservedMessage[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      messages.push(JSON.parse(line) as ObservedMessage);
+    } catch {
+      // skip torn lines
+    }
+  }
+  return messages;
+}
+
+/** Raw observed messages for a session, oldest first (the tail when `limit` is set). */
+export async function readObservedMessages(params: {
+  sessionKey: string;
+  limit?: number;
+  stateDir?: string;
+}): Promise<ObservedMessage[]> {
+  const messages = await readArchive(resolveArchivePath(params.sessionKey, params.stateDir));
+  return params.limit && params.limit > 0 ? messages.slice(-params.limit) : messages;
+}
+
+const SUMMARY_INSTRUCTIONS =
+  "These are chat messages from a thread the agent only observed; other agents or people were " +
+  "handling it. Summarize what the agent needs to take over: decisions made, work in progress and " +
+  "who owns it, open questions, and anything asked of the agent. Keep names, ids and numbers exact.";
+
+async function summarizeWithModel(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  model?: string;
+  messages: ObservedMessage[];
+  previousSummary?: string;
+}): Promise<string> {
+  let ref = resolveDefaultModelForAgent({ cfg: params.cfg, agentId: params.agentId });
+  if (params.model) {
+    const resolvedRef = resolveModelRefFromString({
+      raw: params.model,
+      defaultProvider: DEFAULT_PROVIDER,
+      aliasIndex: buildModelAliasIndex({ cfg: params.cfg, defaultProvider: DEFAULT_PROVIDER }),
+    });
+    if (!resolvedRef) {
+      throw new Error(`Invalid observer summary model: ${params.model}`);
+    }
+    ref = resolvedRef.ref;
+  }
+  const resolved = resolveModel(ref.provider, ref.model, undefined, params.cfg);
+  if (!resolved.model) {
+    throw new Error(
+      resolved.error ?? `Unknown observer summary model: ${ref.provider}/${ref.model}`,
+    );
+  }
+  const apiKey = requireApiKey(
+    await getApiKeyForModel({ model: resolved.model, cfg: params.cfg }),
+    ref.provider,
+  );
+  const contextWindow = resolveContextWindowTokens(resolved.model);
+  const messages: AgentMessage[] = params.messages.map((message) => ({
+    role: "user",
+    content: `${message.sender}: ${message.body}`,
+    timestamp: message.timestamp,
+  }));
+  return summarizeInStages({
+    messages,
+    model: resolved.model,
+    apiKey,
+    signal: new AbortController().signal,
+    reserveTokens: SUMMARY_RESERVE_TOKENS,
+    maxChunkTokens: Math.max(
+      1,
+      Math.floor(contextWindow * BASE_CHUNK_RATIO) - SUMMARIZATION_OVERHEAD_TOKENS,
+    ),
+    contextWindow,
+    customInstructions: SUMMARY_INSTRUCTIONS,
+    previousSummary: params.previousSummary,
+  });
+}
+
+const runningFolds = new Map<string, Promise<void>>();
+
+async function foldBuffer(opts: ObserverContextOptions): Promise<void> {
+  const ns = openObserverNamespace(opts.sessionKey, opts.stateDir);
+  const record = await ns.get(opts.sessionKey);
+  if (!record || record.buffer.length === 0) {
+    return;
+  }
+  const config = resolveObserverConfig(opts.cfg, opts.agentId);
+  const folded = record.buffer;
+  const lastSeq = folded[folded.length - 1].seq;
+  const summary = await (opts.summarize ?? summarizeWithModel)({
+    cfg: opts.cfg,
+    agentId: opts.agentId,
+    model: config.model,
+    messages: folded.map(({ seq: _seq, ...message }) => message),
+    previousSummary: record.summary,
+  });
+  await ns.update(opts.sessionKey, (current) => {
+    if (!current || current.createdAt !== record.createdAt) {
+      return current;
+    }
+    return {
+      ...current,
+      summary,
+      summarizedCount: current.summarizedCount + folded.length,
+      buffer: current.buffer.filter((message) => message.seq > lastSeq),
+    };
+  });
+}
+
+/** Runs at most one fold per session at a time; callers share the running one. */
+function runFold(opts: ObserverContextOptions): Promise<void> {
+  const running = runningFolds.get(opts.sessionKey);
+  if (running) {
+    return running;
+  }
+  const fold = foldBuffer(opts).finally(() => {
+    runningFolds.delete(opts.sessionKey);
+  });
+  runningFolds.set(opts.sessionKey, fold);
+  return fold;
+}
+
+/**
+ * Record a message the agent observed without handling it. Appends to the raw
+ * archive and the rolling buffer, and starts a background fold once
+ * `summarizeEvery` messages are waiting.
+ */
+export async function recordObservedMessage(
+  opts: ObserverContextOptions & { message: ObservedMessage },
+): Promise<void> {
+  const config = resolveObserverConfig(opts.cfg, opts.agentId);
+  const ns = openObserverNamespace(opts.sessionKey, opts.stateDir);
+  const now = Date.now();
+  const record = await ns.update(opts.sessionKey, (current) => {
+    const next: ObserverRecord = current ?? {
+      agentId: opts.agentId,
+      sessionKey: opts.sessionKey,
+      createdAt: now,
+      nextSeq: 0,
+      summarizedCount: 0,
+      droppedCount: 0,
+      buffer: [],
+      archivedCount: 0,
+    };
+    const buffer = [...next.buffer, { ...opts.message, seq: next.nextSeq }];
+    const overflow = Math.max(0, buffer.length - config.bufferMessages);
+    return {
+      ...next,
+      nextSeq: next.nextSeq + 1,
+      buffer: buffer.slice(overflow),
+      droppedCount: next.droppedCount + overflow,
+      archivedCount: next.archivedCount + 1,
+    };
+  });
+  const archivePath = resolveArchivePath(opts.sessionKey, opts.stateDir);
+  const archivedCount = await appendToArchive(
+    archivePath,
+    opts.message,
+    record?.archivedCount ?? 0,
+  );
+  if (record && archivedCount !== record.archivedCount) {
+    await ns.update(opts.sessionKey, (current) =>
+      current ? { ...current, archivedCount } : current,
+    );
+  }
+  if (record && record.buffer.length >= config.summarizeEvery) {
+    void runFold(opts).catch((err) => {
+      log.warn(`observer fold failed for ${opts.sessionKey}: ${formatErrorMessage(err)}`);
+    });
+  }
+}
+
+function formatObserverBlock(record: ObserverRecord): string | undefined {
+  const observed = record.summarizedCount + record.droppedCount + record.buffer.length;
+  if (observed === 0) {
+    return undefined;
+  }
+  const lines = [
+    `[Observed thread context — ${observed} message${observed === 1 ? "" : "s"} while another agent was handling the thread; raw messages: sessions_history includeObserved]`,
+  ];
+  if (record.summary) {
+    lines.push(record.summary.trim());
+  }
+  // Leftovers exist only when the final fold failed or timed out.
+  const raw = record.buffer.slice(-FALLBACK_RAW_MESSAGES);
+  if (raw.length > 0) {
+    const omitted = record.buffer.length - raw.length + record.droppedCount;
+    lines.push(
+      record.summary ? "Not yet summarized:" : "Recent observed messages:",
+      ...(omitted > 0 ? [`(${omitted} earlier messages omitted)`] : []),
+      ...raw.map((message) => `${message.sender}: ${message.body}`),
+    );
+  }
+  return lines.join("\n");
+}
+
+export type ObserverContext = {
+  /** Context block for the Handler turn. */
+  text: string;
+  /** Buffer generation and sequence the block covers; see `clearObserverContext`. */
+  createdAt: number;
+  nextSeq: number;
+};
+
+/**
+ * Called when the agent becomes the Handler: folds what is left in the buffer
+ * (waiting at most `timeoutMs`, then using the raw messages) and returns the
+ * summary block for the inbound context. The record stays in
+ * place until `clearObserverContext` confirms the turn was dispatched.
+ * Never throws; returns undefined when nothing was observed.
+ */
+export async function readObserverContext(
+  opts: ObserverContextOptions & { timeoutMs?: number },
+): Promise<ObserverContext | undefined> {
+  const ns = openObserverNamespace(opts.sessionKey, opts.stateDir);
+  try {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, opts.timeoutMs ?? DEFAULT_READ_TIMEOUT_MS);
+    });
+    try {
+      await Promise.race([runFold(opts), timedOut]);
+    } catch (err) {
+      log.warn(`observer fold failed for ${opts.sessionKey}: ${formatErrorMessage(err)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+    const record = await ns.get(opts.sessionKey);
+    const text = record ? formatObserverBlock(record) : undefined;
+    return record && text
+      ? { text, createdAt: record.createdAt, nextSeq: record.nextSeq }
+      : undefined;
+  } catch (err) {
+    log.warn(`observer context unavailable for ${opts.sessionKey}: ${formatErrorMessage(err)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Drops what `context` covered once the Handler turn is dispatched. Messages
+ * observed after the read stay buffered in a new generation, so a fold still
+ * running over the old one cannot land in it. Never throws.
+ */
+export async function clearObserverContext(params: {
+  sessionKey: string;
+  context: ObserverContext;
+  stateDir?: string;
+}): Promise<void> {
+  const ns = openObserverNamespace(params.sessionKey, params.stateDir);
+  try {
+    await ns.update(params.sessionKey, (current) => {
+      if (!current || current.createdAt !== params.context.createdAt) {
+        return current;
+      }
+      const buffer = current.buffer.filter((message) => message.seq >= params.context.nextSeq);
+      if (buffer.length === 0) {
+        return undefined;
+      }
+      return {
+        ...current,
+        createdAt: Math.max(Date.now(), current.createdAt + 1),
+        summary: undefined,
+        summarizedCount: 0,
+        droppedCount: 0,
+        buffer,
+      };
+    });
+  } catch (err) {
+    log.warn(`observer context clear failed for ${params.sessionKey}: ${formatErrorMessage(err)}`);
+  }
+}
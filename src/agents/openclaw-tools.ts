@@ -14,12 +14,21 @@ import { createImageTool } from "./tools/image-tool.js";
 import { createMessageTool } from "./tools/message-tool.js";
 import { createMilestoneTools } from "./tools/milestone-tool.js";
 import { createNodesTool } from "./tools/nodes-tool.js";
+import {
+  createPlanApproveTool,
+  createPlanRejectTool,
+  createPlanReviewTool,
+  createPlanSubmitTool,
+} from "./tools/plan-tool.js";
 import { createSessionStatusTool } from "./tools/session-status-tool.js";
 import { createSessionsHistoryTool } from "./tools/sessions-history-tool.js";
 import { createSessionsListTool } from "./tools/sessions-list-tool.js";
 import { createSessionsSendTool } from "./tools/sessions-send-tool.js";
 import { createSessionsSpawnTool } from "./tools/sessions-spawn-tool.js";
+import { createSkillLoadTool } from "./tools/skill-load-tool.js";
 import { createSubagentsTool } from "./tools/subagents-tool.js";
+import { createTaskGraphTool } from "./tools/task-graph-tool.js";
+import { createTaskStartFromTemplateTool } from "./tools/task-template-tool.js";
 import {
   createTaskApproveTool,
   createTaskBlockTool,
@@ -262,6 +271,13 @@ export function createOpenClawTools(options?: {
   if (taskPickBacklog) {
     tools.push(taskPickBacklog);
   }
+  const taskStartFromTemplate = createTaskStartFromTemplateTool({
+    config: options?.config,
+    agentSessionKey: options?.agentSessionKey,
+  });
+  if (taskStartFromTemplate) {
+    tools.push(taskStartFromTemplate);
+  }
   const taskVerify = createTaskVerifyTool({
     config: options?.config,
     agentSessionKey: options?.agentSessionKey,
@@ -269,11 +285,42 @@ export function createOpenClawTools(options?: {
   if (taskVerify) {
     tools.push(taskVerify);
   }
+  const taskGraph = createTaskGraphTool({
+    config: options?.config,
+    agentSessionKey: options?.agentSessionKey,
+  });
+  if (taskGraph) {
+    tools.push(taskGraph);
+  }
+  const skillLoad = createSkillLoadTool({
+    config: options?.config,
+    agentSessionKey: options?.agentSessionKey,
+  });
+  if (skillLoad) {
+    tools.push(skillLoad);
+  }
+  const planTools = [
+    createPlanSubmitTool,
+    createPlanReviewTool,
+    createPlanApproveTool,
+    createPlanRejectTool,
+  ].map((createTool) =>
+    createTool({
+      config: options?.config,
+      agentSessionKey: options?.agentSessionKey,
+    }),
+  );
+  for (const planTool of planTools) {
+    if (planTool) {
+      tools.push(planTool);
+    }
+  }
 
   // Collaborate tool — Discord-native peer-to-peer agent collaboration
   const collaborateTool = createCollaborateTool({
     agentSessionKey: options?.agentSessionKey,
     agentAccountId: options?.agentAccountId,
+    agentChannel: options?.agentChannel,
     currentChannelId: options?.currentChannelId,
   });
   tools.push(collaborateTool);
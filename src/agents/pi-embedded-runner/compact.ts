@@ -53,7 +53,9 @@ import { detectRuntimeShell } from "../shell-utils.js";
 import {
   applySkillEnvOverrides,
   applySkillEnvOverridesFromSnapshot,
+  listKnownSkillGroups,
   loadWorkspaceSkillEntries,
+  resolveActiveSkillGroups,
   resolveSkillsPromptForRun,
   type SkillSnapshot,
 } from "../skills.js";
@@ -346,12 +348,6 @@ export async function compactEmbeddedPiSessionDirect(
           skills: skillEntries ?? [],
           config: params.config,
         });
-    const skillsPrompt = resolveSkillsPromptForRun({
-      skillsSnapshot: params.skillsSnapshot,
-      entries: shouldLoadSkillEntries ? skillEntries : undefined,
-      config: params.config,
-      workspaceDir: effectiveWorkspace,
-    });
 
     const sessionLabel = params.sessionKey ?? params.sessionId;
     const { contextFiles } = await resolveBootstrapContextForRun({
@@ -469,6 +465,20 @@ export async function compactEmbeddedPiSessionDirect(
       sessionKey: params.sessionKey,
       config: params.config,
     });
+    const skillsPrompt = resolveSkillsPromptForRun({
+      skillsSnapshot: params.skillsSnapshot,
+      entries: shouldLoadSkillEntries ? skillEntries : undefined,
+      config: params.config,
+      workspaceDir: effectiveWorkspace,
+      activeSkillGroups: await resolveActiveSkillGroups({
+        cfg: params.config,
+        agentId: sessionAgentId,
+        knownGroups: listKnownSkillGroups({
+          snapshot: params.skillsSnapshot,
+          entries: skillEntries,
+        }),
+      }),
+    });
     const isDefaultAgent = sessionAgentId === defaultAgentId;
     const promptMode =
       isSubagentSessionKey(params.sessionKey) || isCronSessionKey(params.sessionKey)
@@ -4,6 +4,7 @@ import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { toClientToolDefinitions, toToolDefinitions } from "./pi-tool-definition-adapter.js";
 import { wrapToolWithAbortSignal } from "./pi-tools.abort.js";
 import { wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
+import { approveSessionTools, gateSessionTools, resetAllGates } from "./session-tool-gate.js";
 
 vi.mock("../plugins/hook-runner-global.js");
 
@@ -96,6 +97,29 @@ describe("before_tool_call hook integration", () => {
     expect(execute).not.toHaveBeenCalled();
   });
 
+  it("blocks tools gated for the session until they are approved", async () => {
+    hookRunner.hasHooks.mockReturnValue(false);
+    resetAllGates();
+    gateSessionTools("agent:worker:main", ["exec"]);
+    const execute = vi.fn().mockResolvedValue({ content: [], details: { ok: true } });
+    // oxlint-disable-next-line typescript/no-explicit-any
+    const tool = wrapToolWithBeforeToolCallHook({ name: "Exec", execute } as any, {
+      agentId: "worker",
+      sessionKey: "agent:worker:main",
+    });
+    const extensionContext = {} as Parameters<typeof tool.execute>[3];
+
+    await expect(
+      tool.execute("call-gated", { cmd: "ls" }, undefined, extensionContext),
+    ).rejects.toThrow("gated");
+    expect(execute).not.toHaveBeenCalled();
+
+    approveSessionTools("agent:worker:main", ["exec"]);
+    await tool.execute("call-approved", { cmd: "ls" }, undefined, extensionContext);
+    expect(execute).toHaveBeenCalledTimes(1);
+    resetAllGates();
+  });
+
   it("continues execution when hook throws", async () => {
     hookRunner.hasHooks.mockReturnValue(true);
     hookRunner.runBeforeToolCall.mockRejectedValue(new Error("boom"));
@@ -3,6 +3,8 @@ import type { SessionState } from "../logging/diagnostic-session-state.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { isPlainObject } from "../utils.js";
+import { isToolGated } from "./session-tool-gate.js";
+import { noteSkillReadToolCall } from "./skills/usage.js";
 import { normalizeToolName } from "./tool-policy.js";
 import type { AnyAgentTool } from "./tools/common.js";
 
@@ -80,6 +82,13 @@ export async function runBeforeToolCallHook(args: {
   const toolName = normalizeToolName(args.toolName || "tool");
   const params = args.params;
 
+  if (args.ctx?.sessionKey && isToolGated(args.ctx.sessionKey, toolName)) {
+    return {
+      blocked: true,
+      reason: `Tool "${toolName}" is gated for this session until the submitted plan is approved (see plan_review).`,
+    };
+  }
+
   if (args.ctx?.sessionKey) {
     const { getDiagnosticSessionState } = await import("../logging/diagnostic-session-state.js");
     const { logToolLoopAction } = await import("../logging/diagnostic.js");
@@ -205,6 +214,7 @@ export function wrapToolWithBeforeToolCallHook(
       const normalizedToolName = normalizeToolName(toolName || "tool");
       try {
         const result = await execute(toolCallId, outcome.params, signal, onUpdate);
+        noteSkillReadToolCall(ctx?.agentId, normalizedToolName, outcome.params);
         await recordLoopOutcome({
           ctx,
           toolName: normalizedToolName,
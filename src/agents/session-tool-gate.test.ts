@@ -1,3 +1,6 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { describe, it, expect, beforeEach } from "vitest";
 import {
   gateSessionTools,
@@ -6,6 +9,8 @@ import {
   isToolGated,
   listGatedTools,
   clearSessionGates,
+  flushSessionToolGates,
+  loadSessionToolGates,
   resetAllGates,
 } from "./session-tool-gate.js";
 
@@ -67,4 +72,22 @@ describe("session-tool-gate", () => {
     // Internal: gate map should not have a leftover empty set
     expect(listGatedTools("ses:1")).toEqual([]);
   });
+
+  it("restores gates persisted before a restart", async () => {
+    const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "tool-gate-"));
+    try {
+      await loadSessionToolGates({ stateDir });
+      gateSessionTools("ses:1", ["exec", "write"]);
+      gateSessionTools("ses:2", ["exec"]);
+      approveSessionTools("ses:2", ["exec"]);
+      await flushSessionToolGates();
+
+      resetAllGates();
+      expect(await loadSessionToolGates({ stateDir })).toBe(1);
+      expect(listGatedTools("ses:1").toSorted()).toEqual(["exec", "write"]);
+      expect(isToolGated("ses:2", "exec")).toBe(false);
+    } finally {
+      await fs.rm(stateDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -11,11 +11,53 @@
  *   revokeSessionTools(sessionKey, ["write", "exec"]); // re-block both
  *   isToolGated(sessionKey, "exec")                    // → true/false
  *   clearSessionGates(sessionKey);                     // remove all gates
+ *
+ * Persistence: lookups stay synchronous against an in-memory map; every change
+ * is written through to the `agents.tool-gates` state-store namespace, and
+ * `loadSessionToolGates()` restores it on gateway startup so an approval-pending
+ * tool stays blocked across restarts.
  */
 
+import { openStateNamespace } from "../infra/state-store.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+
 type GateSet = Set<string>;
 
+const STATE_NAMESPACE = "agents.tool-gates";
+/** A plan left pending for a week is abandoned; its session is long gone. */
+const GATE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const log = createSubsystemLogger("session-tool-gate");
+
 const gates = new Map<string, GateSet>();
+let stateDir: string | undefined;
+let gateWrites: Promise<void> = Promise.resolve();
+
+function openGateNamespace(dir: string | undefined) {
+  return openStateNamespace<string[]>(STATE_NAMESPACE, {
+    stateDir: dir,
+    defaultTtlMs: GATE_TTL_MS,
+  });
+}
+
+/** Queue a write of the session's current gates; the snapshot is taken synchronously. */
+function persistSessionGates(sessionKey: string): void {
+  const set = gates.get(sessionKey);
+  const tools = set && set.size > 0 ? [...set] : undefined;
+  const dir = stateDir;
+  gateWrites = gateWrites
+    .then(async () => {
+      const ns = openGateNamespace(dir);
+      if (tools) {
+        await ns.set(sessionKey, tools);
+      } else {
+        await ns.delete(sessionKey);
+      }
+    })
+    .catch((err) => {
+      log.warn(`tool gate write failed for ${sessionKey}: ${String(err)}`);
+    });
+}
 
 /** Block a set of tools for a session. */
 export function gateSessionTools(sessionKey: string, tools: string[]): void {
@@ -27,6 +69,7 @@ export function gateSessionTools(sessionKey: string, tools: string[]): void {
   for (const tool of tools) {
     set.add(tool);
   }
+  persistSessionGates(sessionKey);
 }
 
 /** Unblock (approve) specific tools for a session. */
@@ -41,6 +84,7 @@ export function approveSessionTools(sessionKey: string, tools: string[]): void {
   if (set.size === 0) {
     gates.delete(sessionKey);
   }
+  persistSessionGates(sessionKey);
 }
 
 /** Re-block specific tools for a session. */
@@ -62,10 +106,31 @@ export function listGatedTools(sessionKey: string): string[] {
 
 /** Remove all gates for a session (cleanup on session end). */
 export function clearSessionGates(sessionKey: string): void {
-  gates.delete(sessionKey);
+  if (gates.delete(sessionKey)) {
+    persistSessionGates(sessionKey);
+  }
+}
+
+/** Restore persisted gates into memory (gateway startup). */
+export async function loadSessionToolGates(opts: { stateDir?: string } = {}): Promise<number> {
+  stateDir = opts.stateDir;
+  await gateWrites;
+  let restored = 0;
+  for (const { key, value } of await openGateNamespace(stateDir).entries()) {
+    if (Array.isArray(value) && value.length > 0) {
+      gates.set(key, new Set(value));
+      restored++;
+    }
+  }
+  return restored;
+}
+
+/** Resolves once every queued gate write has landed. */
+export function flushSessionToolGates(): Promise<void> {
+  return gateWrites;
 }
 
-/** Reset all gates (for tests). */
+/** Reset all in-memory gates (for tests); persisted gates are left alone. */
 export function resetAllGates(): void {
   gates.clear();
 }
@@ -2,6 +2,21 @@ import { describe, expect, it } from "vitest";
 import { resolveSkillsPromptForRun } from "./skills.js";
 import type { SkillEntry } from "./skills/types.js";
 
+function makeEntry(name: string, groups?: string[]): SkillEntry {
+  return {
+    skill: {
+      name,
+      description: name,
+      filePath: `/app/skills/${name}/SKILL.md`,
+      baseDir: `/app/skills/${name}`,
+      source: "openclaw-bundled",
+      disableModelInvocation: false,
+    },
+    frontmatter: {},
+    groups,
+  };
+}
+
 describe("resolveSkillsPromptForRun", () => {
   it("prefers snapshot prompt when available", () => {
     const prompt = resolveSkillsPromptForRun({
@@ -29,4 +44,40 @@ describe("resolveSkillsPromptForRun", () => {
     expect(prompt).toContain("<available_skills>");
     expect(prompt).toContain("/app/skills/demo-skill/SKILL.md");
   });
+  it("lists only active groups and names the deferred ones", () => {
+    const entries = [
+      makeEntry("plain"),
+      makeEntry("git-flow", ["git"]),
+      makeEntry("ffmpeg", ["media"]),
+    ];
+    const prompt = resolveSkillsPromptForRun({
+      entries,
+      workspaceDir: "/tmp/openclaw",
+      activeSkillGroups: ["git"],
+    });
+    expect(prompt).toContain("/app/skills/plain/SKILL.md");
+    expect(prompt).toContain("/app/skills/git-flow/SKILL.md");
+    expect(prompt).not.toContain("/app/skills/ffmpeg/SKILL.md");
+    expect(prompt).toContain("media (1)");
+    expect(prompt).toContain("skill_load");
+
+    expect(resolveSkillsPromptForRun({ entries, workspaceDir: "/tmp/openclaw" })).toContain(
+      "/app/skills/ffmpeg/SKILL.md",
+    );
+  });
+  it("rebuilds a cached snapshot prompt for the run's groups", () => {
+    const entries = [makeEntry("plain"), makeEntry("ffmpeg", ["media"])];
+    const prompt = resolveSkillsPromptForRun({
+      skillsSnapshot: {
+        prompt: "SNAPSHOT",
+        skills: [{ name: "plain" }, { name: "ffmpeg", groups: ["media"] }],
+        resolvedSkills: entries.map((entry) => entry.skill),
+      },
+      workspaceDir: "/tmp/openclaw",
+      activeSkillGroups: [],
+    });
+    expect(prompt).not.toContain("SNAPSHOT");
+    expect(prompt).toContain("/app/skills/plain/SKILL.md");
+    expect(prompt).not.toContain("/app/skills/ffmpeg/SKILL.md");
+  });
 });
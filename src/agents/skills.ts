@@ -14,6 +14,7 @@ export {
   applySkillEnvOverrides,
   applySkillEnvOverridesFromSnapshot,
 } from "./skills/env-overrides.js";
+export { listKnownSkillGroups, resolveActiveSkillGroups } from "./skills/groups.js";
 export type {
   OpenClawSkillMetadata,
   SkillEligibilityContext,
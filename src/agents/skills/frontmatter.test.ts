@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { resolveSkillInvocationPolicy } from "./frontmatter.js";
+import { resolveSkillGroups, resolveSkillInvocationPolicy } from "./frontmatter.js";
 
 describe("resolveSkillInvocationPolicy", () => {
   it("defaults to enabled behaviors", () => {
@@ -17,3 +17,12 @@ describe("resolveSkillInvocationPolicy", () => {
     expect(policy.disableModelInvocation).toBe(true);
   });
 });
+
+describe("resolveSkillGroups", () => {
+  it("accepts lists, inline lists and comma strings", () => {
+    expect(resolveSkillGroups({ groups: '["Git", "deploy"]' })).toEqual(["git", "deploy"]);
+    expect(resolveSkillGroups({ groups: "[git, 'deploy']" })).toEqual(["git", "deploy"]);
+    expect(resolveSkillGroups({ group: "git, git ,media" })).toEqual(["git", "media"]);
+    expect(resolveSkillGroups({})).toEqual([]);
+  });
+});
@@ -112,6 +112,31 @@ export function resolveSkillInvocationPolicy(
   };
 }
 
+/**
+ * Skill groups from the `groups` (or `group`) frontmatter key: a YAML list, a
+ * `[a, b]` inline list or a comma-separated string. Names are lowercased.
+ */
+export function resolveSkillGroups(frontmatter: ParsedSkillFrontmatter): string[] {
+  const raw =
+    getFrontmatterString(frontmatter, "groups") ?? getFrontmatterString(frontmatter, "group");
+  if (!raw?.trim()) {
+    return [];
+  }
+  let list: unknown = raw;
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+    try {
+      list = JSON.parse(trimmed);
+    } catch {
+      list = trimmed.slice(1, -1);
+    }
+  }
+  const groups = normalizeStringList(list).map((group) =>
+    group.replace(/^["']|["']$/g, "").toLowerCase(),
+  );
+  return Array.from(new Set(groups.filter(Boolean)));
+}
+
 export function resolveSkillKey(skill: Skill, entry?: SkillEntry): string {
   return entry?.metadata?.skillKey ?? skill.name;
 }
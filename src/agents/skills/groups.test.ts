@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+
+const findActiveTaskMock = vi.fn();
+
+vi.mock("../tools/task-file-io.js", () => ({
+  findActiveTask: findActiveTaskMock,
+}));
+
+const { resolveActiveSkillGroups, resolveAgentSkillGroups } = await import("./groups.js");
+
+const cfg = {
+  agents: {
+    defaults: { skillGroups: ["Git"] },
+    list: [{ id: "ops", skillGroups: ["deploy"] }, { id: "main" }],
+  },
+} as OpenClawConfig;
+
+describe("skill groups", () => {
+  beforeEach(() => {
+    findActiveTaskMock.mockReset();
+    findActiveTaskMock.mockResolvedValue(null);
+  });
+
+  it("prefers the agent's groups over the defaults", () => {
+    expect(resolveAgentSkillGroups(cfg, "ops")).toEqual(["deploy"]);
+    expect(resolveAgentSkillGroups(cfg, "main")).toEqual(["git"]);
+    expect(resolveAgentSkillGroups({} as OpenClawConfig, "main")).toBeUndefined();
+  });
+
+  it("preselects groups from the active task template and description", async () => {
+    findActiveTaskMock.mockResolvedValue({
+      description: "Transcode the media backlog",
+      template: { name: "release", skillGroups: ["Release"], criteria: [] },
+    });
+    const groups = await resolveActiveSkillGroups({
+      cfg,
+      agentId: "main",
+      knownGroups: ["media", "deploy"],
+    });
+    expect(groups).toEqual(["git", "release", "media"]);
+  });
+
+  it("stays off when no skill groups are configured", async () => {
+    const groups = await resolveActiveSkillGroups({
+      cfg: {} as OpenClawConfig,
+      agentId: "main",
+      knownGroups: ["media"],
+    });
+    expect(groups).toBeUndefined();
+    expect(findActiveTaskMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import type { Skill } from "@mariozechner/pi-coding-agent";
+import type { OpenClawConfig } from "../../config/config.js";
+import { resolveAgentConfig, resolveAgentWorkspaceDir } from "../agent-scope.js";
+import { findActiveTask } from "../tools/task-file-io.js";
+import type { SkillEntry, SkillSnapshot } from "./types.js";
+
+export type SkillGroupPartition = {
+  /** Ungrouped skills plus skills in an active group, in input order. */
+  listed: Skill[];
+  /** Inactive group name → skill names, sorted by group. */
+  deferred: Map<string, string[]>;
+};
+
+function normalizeGroupList(groups: ReadonlyArray<unknown> | undefined): string[] {
+  if (!groups) {
+    return [];
+  }
+  const normalized = groups.map((group) => String(group).trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Configured default groups for an agent: the agent entry wins over
+ * `agents.defaults.skillGroups`. Undefined means grouping is off and every
+ * skill is listed.
+ */
+export function resolveAgentSkillGroups(
+  cfg: OpenClawConfig | undefined,
+  agentId: string | undefined,
+): string[] | undefined {
+  const agentGroups = cfg && agentId ? resolveAgentConfig(cfg, agentId)?.skillGroups : undefined;
+  const groups = agentGroups ?? cfg?.agents?.defaults?.skillGroups;
+  return groups === undefined ? undefined : normalizeGroupList(groups);
+}
+
+/** Every group declared by the skills of a snapshot or entry list. */
+export function listKnownSkillGroups(params: {
+  snapshot?: SkillSnapshot;
+  entries?: SkillEntry[];
+}): string[] {
+  const groups = new Set<string>();
+  for (const skill of [...(params.snapshot?.skills ?? []), ...(params.entries ?? [])]) {
+    for (const group of skill.groups ?? []) {
+      groups.add(group);
+    }
+  }
+  return [...groups].toSorted((a, b) => a.localeCompare(b));
+}
+
+function mentionsGroup(text: string, group: string): boolean {
+  const escaped = group.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9_-])${escaped}($|[^a-z0-9_-])`, "i").test(text);
+}
+
+/**
+ * Groups listed in the prompt for this run: the agent's configured groups,
+ * the active task template's `skillGroups`, and any known group named in the
+ * active task's description.
+ */
+export async function resolveActiveSkillGroups(params: {
+  cfg?: OpenClawConfig;
+  agentId?: string;
+  knownGroups: Iterable<string>;
+}): Promise<string[] | undefined> {
+  const configured = resolveAgentSkillGroups(params.cfg, params.agentId);
+  if (configured === undefined) {
+    return undefined;
+  }
+  const active = new Set(configured);
+  if (!params.cfg || !params.agentId) {
+    return [...active];
+  }
+  const task = await findActiveTask(resolveAgentWorkspaceDir(params.cfg, params.agentId)).catch(
+    () => null,
+  );
+  if (task) {
+    for (const group of normalizeGroupList(task.template?.skillGroups)) {
+      active.add(group);
+    }
+    for (const group of params.knownGroups) {
+      if (mentionsGroup(task.description, group)) {
+        active.add(group);
+      }
+    }
+  }
+  return [...active];
+}
+
+/**
+ * Split prompt skills by group. Without active groups (grouping off) every
+ * skill is listed; otherwise a grouped skill is listed only when one of its
+ * groups is active.
+ */
+export function partitionSkillsByGroup(
+  skills: Skill[],
+  groupsOf: (skill: Skill) => string[] | undefined,
+  activeGroups: string[] | undefined,
+): SkillGroupPartition {
+  if (activeGroups === undefined) {
+    return { listed: skills, deferred: new Map() };
+  }
+  const active = new Set(normalizeGroupList(activeGroups));
+  const listed: Skill[] = [];
+  const deferred = new Map<string, string[]>();
+  for (const skill of skills) {
+    const groups = groupsOf(skill) ?? [];
+    if (groups.length === 0 || groups.some((group) => active.has(group))) {
+      listed.push(skill);
+      continue;
+    }
+    for (const group of groups) {
+      deferred.set(group, [...(deferred.get(group) ?? []), skill.name]);
+    }
+  }
+  const sorted = new Map([...deferred.entries()].toSorted(([a], [b]) => a.localeCompare(b)));
+  return { listed, deferred: sorted };
+}
+
+/** One-line pointer to the groups left out of the prompt. */
+export function formatDeferredSkillGroupsNote(deferred: Map<string, string[]>): string {
+  if (deferred.size === 0) {
+    return "";
+  }
+  const groups = [...deferred.entries()]
+    .map(([group, names]) => `${group} (${names.length})`)
+    .join(", ");
+  return `More skills are available on demand: ${groups}. Call skill_load with a group or skill name to read them.`;
+}
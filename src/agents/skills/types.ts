@@ -68,6 +68,8 @@ export type SkillEntry = {
   frontmatter: ParsedSkillFrontmatter;
   metadata?: OpenClawSkillMetadata;
   invocation?: SkillInvocationPolicy;
+  /** Skill groups from frontmatter; empty/undefined means always listed. */
+  groups?: string[];
 };
 
 export type SkillEligibilityContext = {
@@ -81,7 +83,7 @@ export type SkillEligibilityContext = {
 
 export type SkillSnapshot = {
   prompt: string;
-  skills: Array<{ name: string; primaryEnv?: string; requiredEnv?: string[] }>;
+  skills: Array<{ name: string; primaryEnv?: string; requiredEnv?: string[]; groups?: string[] }>;
   /** Normalized agent-level filter used to build this snapshot; undefined means unrestricted. */
   skillFilter?: string[];
   resolvedSkills?: Skill[];
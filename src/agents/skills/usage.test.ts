@@ -0,0 +1,50 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { closeStateStores } from "../../infra/state-store.js";
+import { listSkillUsage, recordSkillUsage, resolveSkillFromReadPath } from "./usage.js";
+
+let stateDir = "";
+let now = 1_000;
+
+describe("skill usage", () => {
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "skill-usage-"));
+    now = 1_000;
+  });
+
+  afterEach(async () => {
+    closeStateStores();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("counts uses per agent and source", async () => {
+    const opts = { stateDir, nowMs: () => now };
+    await recordSkillUsage({ agentId: "main", skill: "git-flow", source: "skill_load" }, opts);
+    now = 2_000;
+    await recordSkillUsage({ agentId: "main", skill: "git-flow", source: "read" }, opts);
+    await recordSkillUsage({ agentId: "ops", skill: "deploy", source: "read" }, opts);
+
+    expect(await listSkillUsage({ agentId: "main" }, opts)).toEqual([
+      {
+        agentId: "main",
+        skill: "git-flow",
+        count: 2,
+        firstUsedAt: 1_000,
+        lastUsedAt: 2_000,
+        sources: { skill_load: 1, read: 1 },
+      },
+    ]);
+    expect((await listSkillUsage({}, opts)).map((record) => record.skill)).toEqual([
+      "git-flow",
+      "deploy",
+    ]);
+  });
+
+  it("maps SKILL.md reads to the skill directory", () => {
+    expect(resolveSkillFromReadPath("~/skills/git-flow/SKILL.md")).toBe("git-flow");
+    expect(resolveSkillFromReadPath("/app/skills/git-flow/README.md")).toBeUndefined();
+    expect(resolveSkillFromReadPath(42)).toBeUndefined();
+  });
+});
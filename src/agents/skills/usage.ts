@@ -0,0 +1,86 @@
+import path from "node:path";
+import { openStateNamespace } from "../../infra/state-store.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+
+/** How a skill reached the model: via skill_load or a direct read of its SKILL.md. */
+export type SkillUsageSource = "skill_load" | "read";
+
+export type SkillUsageRecord = {
+  agentId: string;
+  skill: string;
+  count: number;
+  firstUsedAt: number;
+  lastUsedAt: number;
+  sources: Partial<Record<SkillUsageSource, number>>;
+};
+
+export const SKILL_USAGE_NAMESPACE = "skills.usage";
+
+const log = createSubsystemLogger("skills");
+
+type UsageStoreOptions = { stateDir?: string; nowMs?: () => number };
+
+function openUsageNamespace(opts: UsageStoreOptions) {
+  return openStateNamespace<SkillUsageRecord>(SKILL_USAGE_NAMESPACE, opts);
+}
+
+export async function recordSkillUsage(
+  params: { agentId: string; skill: string; source: SkillUsageSource },
+  opts: UsageStoreOptions = {},
+): Promise<SkillUsageRecord | undefined> {
+  const now = (opts.nowMs ?? Date.now)();
+  return openUsageNamespace(opts).update(`${params.agentId}:${params.skill}`, (current) => ({
+    agentId: params.agentId,
+    skill: params.skill,
+    count: (current?.count ?? 0) + 1,
+    firstUsedAt: current?.firstUsedAt ?? now,
+    lastUsedAt: now,
+    sources: {
+      ...current?.sources,
+      [params.source]: (current?.sources[params.source] ?? 0) + 1,
+    },
+  }));
+}
+
+/** Usage records, most used first; optionally for one agent. */
+export async function listSkillUsage(
+  params: { agentId?: string } = {},
+  opts: UsageStoreOptions = {},
+): Promise<SkillUsageRecord[]> {
+  const entries = await openUsageNamespace(opts).entries();
+  return entries
+    .map((entry) => entry.value)
+    .filter((record) => !params.agentId || record.agentId === params.agentId)
+    .toSorted((a, b) => b.count - a.count || b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * Skill name for a `read` of a SKILL.md file (the skill's directory name), or
+ * undefined when the path is not a skill file.
+ */
+export function resolveSkillFromReadPath(filePath: unknown): string | undefined {
+  if (typeof filePath !== "string" || path.basename(filePath) !== "SKILL.md") {
+    return undefined;
+  }
+  const dirName = path.basename(path.dirname(filePath));
+  return dirName && dirName !== "." && dirName !== path.sep ? dirName : undefined;
+}
+
+/** Fire-and-forget usage record for a successful `read` tool call on a SKILL.md. */
+export function noteSkillReadToolCall(
+  agentId: string | undefined,
+  toolName: string,
+  params: unknown,
+) {
+  if (!agentId || toolName !== "read" || !params || typeof params !== "object") {
+    return;
+  }
+  const record = params as Record<string, unknown>;
+  const skill = resolveSkillFromReadPath(record.path ?? record.file_path);
+  if (!skill) {
+    return;
+  }
+  void recordSkillUsage({ agentId, skill, source: "read" }).catch((err) => {
+    log.warn(`skill usage record failed for ${skill}: ${String(err)}`);
+  });
+}
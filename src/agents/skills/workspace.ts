@@ -16,8 +16,10 @@ import { normalizeSkillFilter } from "./filter.js";
 import {
   parseFrontmatter,
   resolveOpenClawMetadata,
+  resolveSkillGroups,
   resolveSkillInvocationPolicy,
 } from "./frontmatter.js";
+import { formatDeferredSkillGroupsNote, partitionSkillsByGroup } from "./groups.js";
 import { resolvePluginSkillDirs } from "./plugin-skills.js";
 import { serializeByKey } from "./serialize.js";
 import type {
@@ -400,6 +402,7 @@ function loadSkillEntries(
       frontmatter,
       metadata: resolveOpenClawMetadata(frontmatter),
       invocation: resolveSkillInvocationPolicy(frontmatter),
+      groups: resolveSkillGroups(frontmatter),
     };
   });
   return skillEntries;
@@ -455,6 +458,7 @@ export function buildWorkspaceSkillSnapshot(
       name: entry.skill.name,
       primaryEnv: entry.metadata?.primaryEnv,
       requiredEnv: entry.metadata?.requires?.env?.slice(),
+      ...(entry.groups && entry.groups.length > 0 ? { groups: entry.groups.slice() } : {}),
     })),
     ...(skillFilter === undefined ? {} : { skillFilter }),
     resolvedSkills,
@@ -477,6 +481,8 @@ type WorkspaceSkillBuildOptions = {
   /** If provided, only include skills with these names */
   skillFilter?: string[];
   eligibility?: SkillEligibilityContext;
+  /** Groups to list; undefined lists every skill (see ./groups.ts). */
+  activeSkillGroups?: string[];
 };
 
 function resolveWorkspaceSkillPromptState(
@@ -499,21 +505,44 @@ function resolveWorkspaceSkillPromptState(
   );
   const remoteNote = opts?.eligibility?.remote?.note?.trim();
   const resolvedSkills = promptEntries.map((entry) => entry.skill);
-  const { skillsForPrompt, truncated } = applySkillsPromptLimits({
+  const groupsBySkill = new Map(promptEntries.map((entry) => [entry.skill, entry.groups]));
+  const prompt = formatSkillsPromptBlock({
     skills: resolvedSkills,
     config: opts?.config,
+    remoteNote,
+    groupsOf: (skill) => groupsBySkill.get(skill),
+    activeSkillGroups: opts?.activeSkillGroups,
+  });
+  return { eligible, prompt, resolvedSkills };
+}
+
+function formatSkillsPromptBlock(params: {
+  skills: Skill[];
+  config?: OpenClawConfig;
+  remoteNote?: string;
+  groupsOf: (skill: Skill) => string[] | undefined;
+  activeSkillGroups?: string[];
+}): string {
+  const { listed, deferred } = partitionSkillsByGroup(
+    params.skills,
+    params.groupsOf,
+    params.activeSkillGroups,
+  );
+  const { skillsForPrompt, truncated } = applySkillsPromptLimits({
+    skills: listed,
+    config: params.config,
   });
   const truncationNote = truncated
-    ? `⚠️ Skills truncated: included ${skillsForPrompt.length} of ${resolvedSkills.length}. Run \`openclaw skills check\` to audit.`
+    ? `⚠️ Skills truncated: included ${skillsForPrompt.length} of ${listed.length}. Run \`openclaw skills check\` to audit.`
     : "";
-  const prompt = [
-    remoteNote,
+  return [
+    params.remoteNote,
     truncationNote,
     formatSkillsForPrompt(compactSkillPaths(skillsForPrompt)),
+    formatDeferredSkillGroupsNote(deferred),
   ]
     .filter(Boolean)
     .join("\n");
-  return { eligible, prompt, resolvedSkills };
 }
 
 export function resolveSkillsPromptForRun(params: {
@@ -521,8 +550,26 @@ export function resolveSkillsPromptForRun(params: {
   entries?: SkillEntry[];
   config?: OpenClawConfig;
   workspaceDir: string;
+  /** Groups listed for this run (see resolveActiveSkillGroups); undefined lists every skill. */
+  activeSkillGroups?: string[];
 }): string {
-  const snapshotPrompt = params.skillsSnapshot?.prompt?.trim();
+  const snapshot = params.skillsSnapshot;
+  const snapshotGroups = new Map(
+    (snapshot?.skills ?? [])
+      .filter((skill) => skill.groups && skill.groups.length > 0)
+      .map((skill) => [skill.name, skill.groups]),
+  );
+  if (params.activeSkillGroups && snapshot?.resolvedSkills && snapshotGroups.size > 0) {
+    // Cached snapshot prompts list every skill; rebuild with this run's groups.
+    const prompt = formatSkillsPromptBlock({
+      skills: snapshot.resolvedSkills,
+      config: params.config,
+      groupsOf: (skill) => snapshotGroups.get(skill.name),
+      activeSkillGroups: params.activeSkillGroups,
+    });
+    return prompt.trim() ? prompt : "";
+  }
+  const snapshotPrompt = snapshot?.prompt?.trim();
   if (snapshotPrompt) {
     return snapshotPrompt;
   }
@@ -530,6 +577,7 @@ export function resolveSkillsPromptForRun(params: {
     const prompt = buildWorkspaceSkillsPrompt(params.workspaceDir, {
       entries: params.entries,
       config: params.config,
+      activeSkillGroups: params.activeSkillGroups,
     });
     return prompt.trim() ? prompt : "";
   }
@@ -35,6 +35,7 @@ const CORE_TOOL_SECTION_ORDER: Array<{ id: string; label: string }> = [
   { id: "automation", label: "Automation" },
   { id: "nodes", label: "Nodes" },
   { id: "agents", label: "Agents" },
+  { id: "task", label: "Tasks" },
   { id: "media", label: "Media" },
 ];
 
@@ -113,6 +114,14 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding"],
     includeInOpenClawGroup: true,
   },
+  {
+    id: "team_memory_write",
+    label: "team_memory_write",
+    description: "Share notes with teammates",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
   {
     id: "sessions_list",
     label: "sessions_list",
@@ -217,6 +226,158 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: [],
     includeInOpenClawGroup: true,
   },
+  {
+    id: "skill_load",
+    label: "skill_load",
+    description: "Load skill groups on demand",
+    sectionId: "agents",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_start",
+    label: "task_start",
+    description: "Start a tracked task",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_start_from_template",
+    label: "task_start_from_template",
+    description: "Start a task from a template",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_update",
+    label: "task_update",
+    description: "Update task progress",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_complete",
+    label: "task_complete",
+    description: "Complete a task",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_status",
+    label: "task_status",
+    description: "Task status",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_list",
+    label: "task_list",
+    description: "List tasks",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_cancel",
+    label: "task_cancel",
+    description: "Cancel a task",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_block",
+    label: "task_block",
+    description: "Block a task",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_resume",
+    label: "task_resume",
+    description: "Resume a blocked task",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_approve",
+    label: "task_approve",
+    description: "Approve a pending task",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_backlog_add",
+    label: "task_backlog_add",
+    description: "Add to backlog",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_pick_backlog",
+    label: "task_pick_backlog",
+    description: "Pick from backlog",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_verify",
+    label: "task_verify",
+    description: "Verify delegated work or template criteria",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "task_graph",
+    label: "task_graph",
+    description: "Task dependency graph",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "plan_submit",
+    label: "plan_submit",
+    description: "Submit a plan for approval",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "plan_review",
+    label: "plan_review",
+    description: "Review submitted plans",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "plan_approve",
+    label: "plan_approve",
+    description: "Approve a plan",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
+  {
+    id: "plan_reject",
+    label: "plan_reject",
+    description: "Reject a plan",
+    sectionId: "task",
+    profiles: [],
+    includeInOpenClawGroup: true,
+  },
   {
     id: "image",
     label: "image",
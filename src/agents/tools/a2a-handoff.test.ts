@@ -0,0 +1,191 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { captureEnv } from "../../test-utils/env.js";
+import {
+  acceptA2AHandoff,
+  listA2AHandoffs,
+  recordOutgoingHandoff,
+  resolveDelegationTaskSource,
+  revertA2AHandoff,
+} from "./a2a-handoff.js";
+import type { TaskDelegationPayload } from "./a2a-payload-types.js";
+import { listTasks } from "./task-file-io.js";
+
+let rootDir = "";
+let cfg: OpenClawConfig;
+let env: ReturnType<typeof captureEnv>;
+
+const delegation: TaskDelegationPayload = {
+  type: "task_delegation",
+  taskId: "task_release_notes",
+  taskTitle: "Write the release notes",
+  taskDescription: "Summarize the changes since v1.4",
+  priority: "critical",
+  acceptanceCriteria: ["Mentions the migration"],
+};
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "a2a-handoff-"));
+  env = captureEnv(["OPENCLAW_STATE_DIR"]);
+  process.env.OPENCLAW_STATE_DIR = path.join(rootDir, "state");
+  cfg = {
+    agents: {
+      list: ["ruda", "eden"].map((id) => ({ id, workspace: path.join(rootDir, id) })),
+    },
+  } as OpenClawConfig;
+});
+
+afterEach(async () => {
+  env.restore();
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe("acceptA2AHandoff", () => {
+  it("adds a delegation to the receiver backlog once", async () => {
+    const first = await acceptA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+    });
+    expect(first.receipt).toMatchObject({
+      type: "receipt",
+      receiptFor: "task_delegation",
+      ref: "task_release_notes",
+      status: "accepted",
+      localTaskId: first.localTaskId,
+    });
+
+    const tasks = await listTasks(path.join(rootDir, "eden"), "all");
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({
+      id: first.localTaskId,
+      status: "backlog",
+      priority: "urgent",
+      description: "Write the release notes",
+      source: resolveDelegationTaskSource("ruda", "task_release_notes"),
+      createdBy: "ruda",
+      assignee: "eden",
+    });
+    expect(tasks[0]?.context).toContain("Mentions the migration");
+
+    const again = await acceptA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+    });
+    expect(again.receipt).toMatchObject({ status: "duplicate", localTaskId: first.localTaskId });
+    expect(await listTasks(path.join(rootDir, "eden"), "all")).toHaveLength(1);
+  });
+
+  it("updates the sender record from the receipt", async () => {
+    await recordOutgoingHandoff({ payload: delegation, fromAgent: "ruda", toAgent: "eden" });
+    const { receipt } = await acceptA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+    });
+    expect(receipt).toBeDefined();
+    await acceptA2AHandoff({ cfg, agentId: "ruda", fromAgent: "eden", payload: receipt! });
+
+    const [record] = await listA2AHandoffs();
+    expect(record).toMatchObject({
+      key: "task_delegation:task_release_notes",
+      status: "accepted",
+      localTaskId: receipt?.localTaskId,
+    });
+  });
+
+  it("matches answers to questions by questionId and sender", async () => {
+    await recordOutgoingHandoff({
+      payload: { type: "question", questionId: "q-42", question: "Which region?" },
+      fromAgent: "ruda",
+      toAgent: "eden",
+    });
+
+    const stranger = await acceptA2AHandoff({
+      cfg,
+      agentId: "ruda",
+      fromAgent: "seum",
+      payload: { type: "answer", questionId: "q-42", answer: "eu-west" },
+    });
+    expect(stranger.note).toContain("no matching question");
+
+    const answered = await acceptA2AHandoff({
+      cfg,
+      agentId: "ruda",
+      fromAgent: "eden",
+      payload: { type: "answer", questionId: "q-42", answer: "us-east" },
+    });
+    expect(answered.receipt).toBeUndefined();
+    expect(answered.note).toContain("q-42");
+    expect((await listA2AHandoffs())[0]).toMatchObject({ status: "answered", answer: "us-east" });
+  });
+});
+
+describe("revertA2AHandoff", () => {
+  it("drops the backlog task of an undelivered delegation but keeps duplicates", async () => {
+    const first = await acceptA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+    });
+    const duplicate = await acceptA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+    });
+
+    await revertA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+      acceptance: duplicate,
+    });
+    expect(await listTasks(path.join(rootDir, "eden"), "all")).toHaveLength(1);
+
+    await revertA2AHandoff({
+      cfg,
+      agentId: "eden",
+      fromAgent: "ruda",
+      payload: delegation,
+      acceptance: first,
+    });
+    expect(await listTasks(path.join(rootDir, "eden"), "all")).toHaveLength(0);
+  });
+
+  it("puts an undelivered answer back to unanswered", async () => {
+    await recordOutgoingHandoff({
+      payload: { type: "question", questionId: "q-7", question: "Which branch?" },
+      fromAgent: "ruda",
+      toAgent: "eden",
+    });
+    const answer = { type: "answer" as const, questionId: "q-7", answer: "main" };
+    const acceptance = await acceptA2AHandoff({
+      cfg,
+      agentId: "ruda",
+      fromAgent: "eden",
+      payload: answer,
+    });
+
+    await revertA2AHandoff({
+      cfg,
+      agentId: "ruda",
+      fromAgent: "eden",
+      payload: answer,
+      acceptance,
+    });
+
+    const [record] = await listA2AHandoffs();
+    expect(record).toMatchObject({ status: "sent" });
+    expect(record?.answer).toBeUndefined();
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Structured A2A handoffs — what happens to a typed payload once it is sent
+ * and once it arrives.
+ *
+ * Senders record each outgoing handoff so receipts and answers can be matched
+ * back to it (`<stateDir>/a2a-handoffs.json`). Receivers accept a payload with
+ * `acceptA2AHandoff()`: a `task_delegation` becomes a linked backlog task
+ * (once — redelivery is answered with a "duplicate" receipt), an `answer` is
+ * matched to the question by `questionId`, and a receipt updates the sender's
+ * record.
+ */
+
+import path from "node:path";
+import type { OpenClawConfig } from "../../config/config.js";
+import { resolveStateDir } from "../../config/paths.js";
+import { emit } from "../../infra/events/bus.js";
+import { EVENT_TYPES } from "../../infra/events/schemas.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "../../infra/json-files.js";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agent-scope.js";
+import type {
+  A2APayload,
+  A2APayloadType,
+  DeliveryReceiptPayload,
+  TaskDelegationPayload,
+} from "./a2a-payload-types.js";
+import {
+  deleteTask,
+  generateTaskId,
+  generateWorkSessionId,
+  listTasks,
+  writeTask,
+  type TaskFile,
+  type TaskPriority,
+} from "./task-file-io.js";
+
+const STORE_FILENAME = "a2a-handoffs.json";
+const STORE_VERSION = 1;
+const MAX_RECORDS = 1000;
+
+export type A2AHandoffStatus = "sent" | "accepted" | "duplicate" | "rejected" | "answered";
+
+export interface A2AHandoffRecord {
+  /** `<type>:<ref>` */
+  key: string;
+  type: Exclude<A2APayloadType, "receipt">;
+  /** taskId or questionId. */
+  ref: string;
+  fromAgent: string;
+  toAgent: string;
+  channel?: string;
+  sentAt: number;
+  status: A2AHandoffStatus;
+  receiptAt?: number;
+  /** Backlog task the receiver created for a task_delegation. */
+  localTaskId?: string;
+  errors?: string[];
+  answer?: string;
+  answeredAt?: number;
+}
+
+interface A2AHandoffStore {
+  version: number;
+  records: Record<string, A2AHandoffRecord>;
+}
+
+export type A2AHandoffAcceptance = {
+  /** Receipt to send back to the sender; absent for answers and receipts. */
+  receipt?: DeliveryReceiptPayload;
+  /** What happened, phrased for the receiving agent. */
+  note: string;
+  localTaskId?: string;
+};
+
+const withStoreLock = createAsyncLock();
+// Serializes the duplicate check and task write so a redelivered delegation cannot race itself.
+const withDelegationLock = createAsyncLock();
+
+function resolveStorePath(): string {
+  return path.join(resolveStateDir(), STORE_FILENAME);
+}
+
+async function loadStore(): Promise<A2AHandoffStore> {
+  const store = await readJsonFile<A2AHandoffStore>(resolveStorePath());
+  if (!store || store.version !== STORE_VERSION || typeof store.records !== "object") {
+    return { version: STORE_VERSION, records: {} };
+  }
+  return store;
+}
+
+async function updateStore(mutate: (store: A2AHandoffStore) => void): Promise<void> {
+  await withStoreLock(async () => {
+    const store = await loadStore();
+    mutate(store);
+    const records = Object.values(store.records);
+    if (records.length > MAX_RECORDS) {
+      for (const record of records
+        .toSorted((a, b) => a.sentAt - b.sentAt)
+        .slice(0, records.length - MAX_RECORDS)) {
+        delete store.records[record.key];
+      }
+    }
+    await writeJsonAtomic(resolveStorePath(), store);
+  });
+}
+
+/** taskId or questionId identifying a payload across retries. */
+export function resolvePayloadRef(payload: A2APayload): string | undefined {
+  switch (payload.type) {
+    case "task_delegation":
+    case "status_report":
+      return payload.taskId;
+    case "question":
+    case "answer":
+      return payload.questionId;
+    case "receipt":
+      return payload.ref;
+  }
+}
+
+function recordKey(type: A2APayloadType, ref: string): string {
+  return `${type}:${ref}`;
+}
+
+/** Remember an outgoing handoff so its receipt (or answer) can be matched later. */
+export async function recordOutgoingHandoff(params: {
+  payload: A2APayload;
+  fromAgent: string;
+  toAgent: string;
+  channel?: string;
+  nowMs?: number;
+}): Promise<void> {
+  const { payload } = params;
+  const ref = resolvePayloadRef(payload);
+  if (payload.type === "receipt" || !ref) {
+    return;
+  }
+  const key = recordKey(payload.type, ref);
+  await updateStore((store) => {
+    // Re-sending the same handoff keeps the original receipt state.
+    store.records[key] ??= {
+      key,
+      type: payload.type,
+      ref,
+      fromAgent: params.fromAgent,
+      toAgent: params.toAgent,
+      channel: params.channel,
+      sentAt: params.nowMs ?? Date.now(),
+      status: "sent",
+    };
+  });
+}
+
+export async function listA2AHandoffs(): Promise<A2AHandoffRecord[]> {
+  const store = await loadStore();
+  return Object.values(store.records).toSorted((a, b) => b.sentAt - a.sentAt);
+}
+
+/** Receipt telling the sender its payload was refused. */
+export function buildRejectedReceipt(
+  errors: string[],
+  receiptFor?: DeliveryReceiptPayload["receiptFor"],
+  ref?: string,
+): DeliveryReceiptPayload {
+  return { type: "receipt", receiptFor, ref, status: "rejected", errors };
+}
+
+function mapDelegationPriority(priority: TaskDelegationPayload["priority"]): TaskPriority {
+  return priority === "critical" ? "urgent" : (priority ?? "medium");
+}
+
+/** Task `source` marker linking a backlog task to the delegation it came from. */
+export function resolveDelegationTaskSource(fromAgent: string, taskId: string): string {
+  return `a2a:${fromAgent}:${taskId}`;
+}
+
+async function acceptDelegation(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  fromAgent: string;
+  payload: TaskDelegationPayload;
+  nowMs: number;
+}): Promise<A2AHandoffAcceptance> {
+  const { payload, agentId, fromAgent } = params;
+  const workspaceDir = resolveAgentWorkspaceDir(params.cfg, agentId);
+  const source = resolveDelegationTaskSource(fromAgent, payload.taskId);
+  const existing = (await listTasks(workspaceDir, "all")).find((task) => task.source === source);
+  if (existing) {
+    return {
+      receipt: {
+        type: "receipt",
+        receiptFor: "task_delegation",
+        ref: payload.taskId,
+        status: "duplicate",
+        localTaskId: existing.id,
+      },
+      note: `This delegation was already accepted as ${existing.id} (${existing.status}).`,
+      localTaskId: existing.id,
+    };
+  }
+
+  const now = new Date(params.nowMs).toISOString();
+  const context = [
+    payload.taskDescription,
+    payload.context,
+    payload.acceptanceCriteria?.length
+      ? `Acceptance criteria:\n${payload.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}`
+      : undefined,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  const task: TaskFile = {
+    id: generateTaskId(),
+    status: "backlog",
+    priority: mapDelegationPriority(payload.priority),
+    description: payload.taskTitle,
+    context,
+    source,
+    created: now,
+    lastActivity: now,
+    workSessionId: generateWorkSessionId(),
+    progress: [`Delegated by ${fromAgent} (their task ${payload.taskId})`],
+    createdBy: fromAgent,
+    assignee: agentId,
+    dueDate: payload.deadline,
+  };
+  await writeTask(workspaceDir, task);
+  emit({
+    type: EVENT_TYPES.TASK_BACKLOG_ADDED,
+    agentId,
+    ts: params.nowMs,
+    data: {
+      taskId: task.id,
+      assignee: agentId,
+      isCrossAgent: true,
+      workSessionId: task.workSessionId,
+      delegatedBy: fromAgent,
+      delegatedTaskId: payload.taskId,
+    },
+  });
+  return {
+    receipt: {
+      type: "receipt",
+      receiptFor: "task_delegation",
+      ref: payload.taskId,
+      status: "accepted",
+      localTaskId: task.id,
+    },
+    note: `Added to your backlog as ${task.id}.`,
+    localTaskId: task.id,
+  };
+}
+
+/**
+ * Accept a validated payload on behalf of the receiving agent. Idempotent for
+ * delegations; never throws for an unknown questionId or receipt.
+ */
+export async function acceptA2AHandoff(params: {
+  cfg: OpenClawConfig;
+  /** Receiving agent. */
+  agentId: string;
+  fromAgent: string;
+  payload: A2APayload;
+  nowMs?: number;
+}): Promise<A2AHandoffAcceptance> {
+  const { payload } = params;
+  const nowMs = params.nowMs ?? Date.now();
+  switch (payload.type) {
+    case "task_delegation":
+      if (!listAgentIds(params.cfg).includes(params.agentId)) {
+        return {
+          receipt: buildRejectedReceipt(
+            [`unknown agent ${params.agentId}`],
+            "task_delegation",
+            payload.taskId,
+          ),
+          note: `Delegation ${payload.taskId} could not be added: unknown agent.`,
+        };
+      }
+      return await withDelegationLock(() => acceptDelegation({ ...params, payload, nowMs }));
+
+    case "question":
+      return {
+        receipt: {
+          type: "receipt",
+          receiptFor: "question",
+          ref: payload.questionId,
+          status: "accepted",
+        },
+        note: `Reply with an "answer" payload carrying questionId "${payload.questionId}".`,
+      };
+
+    case "status_report":
+      return {
+        receipt: {
+          type: "receipt",
+          receiptFor: "status_report",
+          ref: payload.taskId,
+          status: "accepted",
+        },
+        note: `Status report for ${payload.taskId}.`,
+      };
+
+    case "answer": {
+      let matched = false;
+      await updateStore((store) => {
+        const record = store.records[recordKey("question", payload.questionId)];
+        if (record && record.toAgent === params.fromAgent) {
+          record.status = "answered";
+          record.answer = payload.answer;
+          record.answeredAt = nowMs;
+          matched = true;
+        }
+      });
+      return {
+        note: matched
+          ? `Answers your question ${payload.questionId}.`
+          : `Answer to question ${payload.questionId} (no matching question on record).`,
+      };
+    }
+
+    case "receipt": {
+      const { ref, receiptFor } = payload;
+      if (ref && receiptFor) {
+        await updateStore((store) => {
+          const record = store.records[recordKey(receiptFor, ref)];
+          if (record && record.toAgent === params.fromAgent) {
+            record.status = payload.status;
+            record.receiptAt = nowMs;
+            record.localTaskId = payload.localTaskId ?? record.localTaskId;
+            record.errors = payload.errors;
+          }
+        });
+      }
+      return { note: `Delivery receipt: ${payload.status}.` };
+    }
+  }
+}
+
+/**
+ * Undo `acceptA2AHandoff()` when the message carrying the payload never reached
+ * the receiver: a delegation it accepted loses its backlog task and a matched
+ * answer goes back to unanswered. Duplicates and receipts are left alone.
+ */
+export async function revertA2AHandoff(params: {
+  cfg: OpenClawConfig;
+  /** Receiving agent. */
+  agentId: string;
+  fromAgent: string;
+  payload: A2APayload;
+  acceptance: A2AHandoffAcceptance;
+}): Promise<void> {
+  const { payload, acceptance } = params;
+  if (payload.type === "task_delegation") {
+    if (acceptance.receipt?.status === "accepted" && acceptance.localTaskId) {
+      const workspaceDir = resolveAgentWorkspaceDir(params.cfg, params.agentId);
+      await deleteTask(workspaceDir, acceptance.localTaskId);
+    }
+    return;
+  }
+  if (payload.type === "answer") {
+    await updateStore((store) => {
+      const record = store.records[recordKey("question", payload.questionId)];
+      if (
+        record &&
+        record.toAgent === params.fromAgent &&
+        record.status === "answered" &&
+        record.answer === payload.answer
+      ) {
+        record.status = record.receiptAt ? "accepted" : "sent";
+        delete record.answer;
+        delete record.answeredAt;
+      }
+    });
+  }
+}
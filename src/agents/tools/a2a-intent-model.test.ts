@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+
+const completeSimple = vi.fn();
+vi.mock("@mariozechner/pi-ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@mariozechner/pi-ai")>()),
+  completeSimple: (...args: unknown[]) => completeSimple(...args),
+}));
+
+vi.mock("../pi-embedded-runner/model.js", () => ({
+  resolveModel: (provider: string, id: string) => ({ model: { provider, id } }),
+}));
+
+vi.mock("../model-auth.js", () => ({
+  getApiKeyForModel: async () => ({ apiKey: "test-key", source: "test", mode: "api-key" }),
+  requireApiKey: (auth: { apiKey: string }) => auth.apiKey,
+}));
+
+import {
+  classifyA2AIntent,
+  parseIntentResponse,
+  resetA2AIntentCacheForTest,
+} from "./a2a-intent-model.js";
+
+function cfgWith(intentClassifier?: Record<string, unknown>): OpenClawConfig {
+  return { session: { agentToAgent: { intentClassifier } } } as OpenClawConfig;
+}
+
+function reply(text: string) {
+  return { content: [{ type: "text", text }] };
+}
+
+const CLASSIFIER = { model: "anthropic/claude-haiku-4-5" };
+
+beforeEach(() => {
+  completeSimple.mockReset();
+  resetA2AIntentCacheForTest();
+});
+
+describe("classifyA2AIntent", () => {
+  it("uses the regex classifier when no model is configured", async () => {
+    const decision = await classifyA2AIntent({
+      message: "[NOTIFICATION] deploy finished",
+      cfg: cfgWith(),
+      conversationId: "conv-1",
+    });
+    expect(decision).toMatchObject({
+      source: "regex",
+      fallbackReason: "disabled",
+      chosen: { intent: "notification", suggestedTurns: 0 },
+    });
+    expect(completeSimple).not.toHaveBeenCalled();
+  });
+
+  it("prefers the model answer and caches it per conversation", async () => {
+    completeSimple.mockResolvedValue(
+      reply('{"intent":"question","suggestedTurns":1,"confidence":0.9}'),
+    );
+    const first = await classifyA2AIntent({
+      message: "Is the staging database still on v14?",
+      cfg: cfgWith(CLASSIFIER),
+      conversationId: "conv-1",
+    });
+    expect(first).toMatchObject({
+      source: "model",
+      chosen: { intent: "question", suggestedTurns: 1, confidence: 0.9 },
+      model: { intent: "question" },
+      regex: { intent: "question" },
+    });
+    expect(completeSimple.mock.calls[0]?.[2]).toMatchObject({ temperature: 0 });
+
+    const second = await classifyA2AIntent({
+      message: "Follow-up in the same conversation",
+      cfg: cfgWith(CLASSIFIER),
+      conversationId: "conv-1",
+    });
+    expect(second).toMatchObject({ source: "cache", chosen: { intent: "question" } });
+    expect(completeSimple).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the regex result on output outside the schema", async () => {
+    completeSimple.mockResolvedValue(
+      reply('{"intent":"question","suggestedTurns":1,"confidence":0.9,"reason":"short"}'),
+    );
+    const decision = await classifyA2AIntent({
+      message: "Release notes are ready, 작업 완료",
+      cfg: cfgWith(CLASSIFIER),
+      conversationId: "conv-2",
+    });
+    expect(decision).toMatchObject({
+      source: "regex",
+      fallbackReason: "invalid",
+      chosen: { intent: "result_report" },
+    });
+    expect(decision.model).toBeUndefined();
+  });
+
+  it("falls back to the regex result when the model is too slow", async () => {
+    completeSimple.mockReturnValue(new Promise(() => {}));
+    const decision = await classifyA2AIntent({
+      message: "Let's discuss the rollout plan",
+      cfg: cfgWith({ ...CLASSIFIER, timeoutMs: 20 }),
+      conversationId: "conv-3",
+    });
+    expect(decision).toMatchObject({
+      source: "regex",
+      fallbackReason: "timeout",
+      chosen: { intent: "collaboration" },
+    });
+  });
+});
+
+describe("parseIntentResponse", () => {
+  it("accepts fenced JSON and rejects out-of-range values", () => {
+    expect(
+      parseIntentResponse('```json\n{"intent":"request","suggestedTurns":3,"confidence":0.7}\n```'),
+    ).toEqual({ intent: "request", suggestedTurns: 3, confidence: 0.7 });
+    expect(
+      parseIntentResponse('{"intent":"request","suggestedTurns":9,"confidence":0.7}'),
+    ).toBeNull();
+    expect(parseIntentResponse('{"intent":"chat","suggestedTurns":1,"confidence":1}')).toBeNull();
+    expect(parseIntentResponse("request")).toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Model-backed A2A intent classification.
+ *
+ * The regex classifier in a2a-intent-classifier.ts only recognizes the phrasings
+ * it was written for; anything else lands on "collaboration" at 0.5 confidence.
+ * When `session.agentToAgent.intentClassifier.model` is configured, a cheap model
+ * is asked for the same `{intent, suggestedTurns, confidence}` triple instead.
+ * Its answer must match a strict schema, is cached per conversation, and the
+ * regex result stays in charge whenever the model is disabled, slow or wrong.
+ */
+
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import { Type, type Static } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import type { OpenClawConfig } from "../../config/config.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { DEFAULT_PROVIDER } from "../defaults.js";
+import { getApiKeyForModel, requireApiKey } from "../model-auth.js";
+import { buildModelAliasIndex, resolveModelRefFromString } from "../model-selection.js";
+import { resolveModel } from "../pi-embedded-runner/model.js";
+import { classifyMessageIntent, type IntentClassification } from "./a2a-intent-classifier.js";
+
+const log = createSubsystemLogger("agents/a2a-intent");
+
+const DEFAULT_TIMEOUT_MS = 3_000;
+const MAX_MESSAGE_CHARS = 4_000;
+const MAX_CACHED_CONVERSATIONS = 500;
+
+const IntentResponseSchema = Type.Object(
+  {
+    intent: Type.Union([
+      Type.Literal("notification"),
+      Type.Literal("question"),
+      Type.Literal("request"),
+      Type.Literal("collaboration"),
+      Type.Literal("escalation"),
+      Type.Literal("result_report"),
+    ]),
+    suggestedTurns: Type.Integer({ minimum: -1, maximum: 5 }),
+    confidence: Type.Number({ minimum: 0, maximum: 1 }),
+  },
+  { additionalProperties: false },
+);
+
+type IntentResponse = Static<typeof IntentResponseSchema>;
+
+export type A2AIntentSource = "model" | "cache" | "regex";
+
+export type A2AIntentDecision = {
+  /** The classification the flow acts on. */
+  chosen: IntentClassification;
+  regex: IntentClassification;
+  /** Present when the model answered for this conversation (now or earlier). */
+  model?: IntentClassification;
+  source: A2AIntentSource;
+  /** Why the regex result was used: "disabled", "timeout", "error" or "invalid". */
+  fallbackReason?: string;
+};
+
+const decisionCache = new Map<string, IntentClassification>();
+
+export function resetA2AIntentCacheForTest() {
+  decisionCache.clear();
+}
+
+function rememberDecision(conversationId: string, classification: IntentClassification) {
+  decisionCache.delete(conversationId);
+  decisionCache.set(conversationId, classification);
+  if (decisionCache.size > MAX_CACHED_CONVERSATIONS) {
+    const oldest = decisionCache.keys().next().value;
+    if (oldest !== undefined) {
+      decisionCache.delete(oldest);
+    }
+  }
+}
+
+function buildPrompt(message: string): string {
+  return [
+    "Classify the intent of a message one agent sent to another agent.",
+    "Intents:",
+    "- notification: an FYI or alert; no reply needed (suggestedTurns 0)",
+    "- escalation: urgent; surface it to a human right away (suggestedTurns 0)",
+    "- result_report: reports finished work; one turn of feedback (suggestedTurns 1)",
+    "- question: a simple question; one or two turns (suggestedTurns 1-2)",
+    "- request: asks the other agent to do something (suggestedTurns 1-3)",
+    "- collaboration: open discussion that needs back-and-forth (suggestedTurns -1 = configured maximum)",
+    "suggestedTurns is the number of reply turns the agents should exchange: -1 for the configured maximum, otherwise 0-5.",
+    "confidence is your certainty between 0 and 1.",
+    `Reply with ONLY a JSON object matching this schema, no prose or code fences:\n${JSON.stringify(IntentResponseSchema)}`,
+    "",
+    "<message>",
+    message.slice(0, MAX_MESSAGE_CHARS),
+    "</message>",
+  ].join("\n");
+}
+
+/** Parse and strictly validate a model reply. Returns null when it does not match the schema. */
+export function parseIntentResponse(text: string): IntentClassification | null {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (!Value.Check(IntentResponseSchema, parsed)) {
+    return null;
+  }
+  const response: IntentResponse = parsed;
+  return {
+    intent: response.intent,
+    suggestedTurns: response.suggestedTurns,
+    confidence: response.confidence,
+  };
+}
+
+async function askModel(params: {
+  cfg: OpenClawConfig;
+  modelRef: string;
+  message: string;
+  signal: AbortSignal;
+}): Promise<string> {
+  const aliasIndex = buildModelAliasIndex({ cfg: params.cfg, defaultProvider: DEFAULT_PROVIDER });
+  const resolvedRef = resolveModelRefFromString({
+    raw: params.modelRef,
+    defaultProvider: DEFAULT_PROVIDER,
+    aliasIndex,
+  });
+  if (!resolvedRef) {
+    throw new Error(`Invalid intent classifier model: ${params.modelRef}`);
+  }
+  const { provider, model: modelId } = resolvedRef.ref;
+  const resolved = resolveModel(provider, modelId, undefined, params.cfg);
+  if (!resolved.model) {
+    throw new Error(resolved.error ?? `Unknown intent classifier model: ${provider}/${modelId}`);
+  }
+  const apiKey = requireApiKey(
+    await getApiKeyForModel({ model: resolved.model, cfg: params.cfg }),
+    provider,
+  );
+  const res = await completeSimple(
+    resolved.model,
+    {
+      messages: [{ role: "user", content: buildPrompt(params.message), timestamp: Date.now() }],
+    },
+    {
+      apiKey,
+      maxTokens: 128,
+      // Codex models reject an explicit temperature.
+      ...(provider === "openai-codex" ? {} : { temperature: 0 }),
+      signal: params.signal,
+    },
+  );
+  return res.content
+    .filter((block): block is TextContent => block.type === "text")
+    .map((block) => block.text)
+    .join("")
+    .trim();
+}
+
+/**
+ * Classify an A2A message, preferring the configured model and falling back to
+ * the regex classifier. Never throws.
+ */
+export async function classifyA2AIntent(params: {
+  message: string;
+  cfg: OpenClawConfig;
+  conversationId?: string;
+}): Promise<A2AIntentDecision> {
+  const regex = classifyMessageIntent(params.message);
+  const config = params.cfg.session?.agentToAgent?.intentClassifier;
+  const modelRef = config?.model?.trim();
+  if (!modelRef || config?.enabled === false) {
+    return { chosen: regex, regex, source: "regex", fallbackReason: "disabled" };
+  }
+
+  const cached = params.conversationId ? decisionCache.get(params.conversationId) : undefined;
+  if (cached) {
+    return { chosen: cached, regex, model: cached, source: "cache" };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config?.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    // Providers that ignore the abort signal must not hold the A2A flow past the budget.
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(new Error("timed out")), {
+        once: true,
+      });
+    });
+    const text = await Promise.race([
+      askModel({ cfg: params.cfg, modelRef, message: params.message, signal: controller.signal }),
+      aborted,
+    ]);
+    const classification = parseIntentResponse(text);
+    if (!classification) {
+      log.warn("intent classifier returned invalid output, using regex", {
+        model: modelRef,
+        output: text.slice(0, 200),
+      });
+      return { chosen: regex, regex, source: "regex", fallbackReason: "invalid" };
+    }
+    if (params.conversationId) {
+      rememberDecision(params.conversationId, classification);
+    }
+    return { chosen: classification, regex, model: classification, source: "model" };
+  } catch (err) {
+    const timedOut = controller.signal.aborted;
+    log.warn(`intent classifier ${timedOut ? "timed out" : "failed"}, using regex`, {
+      model: modelRef,
+      error: formatErrorMessage(err),
+    });
+    return {
+      chosen: regex,
+      regex,
+      source: "regex",
+      fallbackReason: timedOut ? "timeout" : "error",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
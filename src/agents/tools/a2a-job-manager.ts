@@ -3,19 +3,30 @@
  *
  * Provides file-based storage for A2A job records, enabling:
  * - Survival across gateway restarts
- * - Status tracking (PENDING → RUNNING → COMPLETED/FAILED/ABANDONED)
+ * - Status tracking (PENDING → RUNNING → COMPLETED/FAILED/ABANDONED/CANCELLED)
  * - Stale job detection and cleanup
  */
 
 import fs from "node:fs/promises";
 import path from "node:path";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
+import type { A2AMessageIntent } from "./a2a-intent-classifier.js";
 
 const log = createSubsystemLogger("a2a-job-manager");
 
 // ─── Types ───
 
-export type A2AJobStatus = "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "ABANDONED";
+export type A2AJobStatus =
+  | "PENDING"
+  | "RUNNING"
+  | "COMPLETED"
+  | "FAILED"
+  | "ABANDONED"
+  | "CANCELLED";
+
+export function isA2AJobFinished(status: A2AJobStatus): boolean {
+  return status !== "PENDING" && status !== "RUNNING";
+}
 
 export interface A2AJobRecord {
   /** Job ID (same as runId) */
@@ -45,14 +56,20 @@ export interface A2AJobRecord {
   depth?: number;
   hop?: number;
   skipPingPong?: boolean;
+  /** Intent classified when the flow first ran; resumes reuse it instead of re-classifying */
+  intent?: A2AMessageIntent;
+  /** Turn budget derived from `intent` (at most maxPingPongTurns) */
+  effectiveMaxPingPongTurns?: number;
   /** Timing */
   createdAt: number;
   updatedAt: number;
   finishedAt?: number;
   /** Resume tracking */
   resumeCount: number;
-  /** Last error message */
+  /** Last error message (or the cancel reason) */
   lastError?: string;
+  /** Manual retries from turn 0 */
+  retryCount?: number;
 }
 
 // ─── Constants ───
@@ -142,6 +159,22 @@ export class A2AJobManager {
     await this.persistJob(job);
   }
 
+  /** Record the classified intent and turn budget so a resumed flow keeps them */
+  async recordIntent(
+    jobId: string,
+    intent: A2AMessageIntent,
+    maxPingPongTurns: number,
+  ): Promise<void> {
+    const job = await this.readJob(jobId);
+    if (!job) {
+      return;
+    }
+    job.intent = intent;
+    job.effectiveMaxPingPongTurns = maxPingPongTurns;
+    job.updatedAt = Date.now();
+    await this.persistJob(job);
+  }
+
   /** Mark job as completed */
   async completeJob(jobId: string): Promise<void> {
     await this.updateStatus(jobId, "COMPLETED", { finishedAt: Date.now() });
@@ -160,6 +193,40 @@ export class A2AJobManager {
     log.info("A2A job abandoned (stale)", { jobId });
   }
 
+  /** Mark job as cancelled by an operator */
+  async cancelJob(jobId: string, reason: string): Promise<A2AJobRecord | null> {
+    const job = await this.updateStatus(jobId, "CANCELLED", {
+      lastError: reason,
+      finishedAt: Date.now(),
+    });
+    log.info("A2A job cancelled", { jobId, reason });
+    return job;
+  }
+
+  /**
+   * Put a finished job back to PENDING so it can run again: from turn 0 for a
+   * retry, from its last completed turn for a resume.
+   */
+  async requeueJob(jobId: string, mode: "retry" | "resume"): Promise<A2AJobRecord | null> {
+    const job = await this.readJob(jobId);
+    if (!job) {
+      return null;
+    }
+    job.status = "PENDING";
+    job.updatedAt = Date.now();
+    delete job.finishedAt;
+    delete job.lastError;
+    if (mode === "retry") {
+      job.currentTurn = 0;
+      job.retryCount = (job.retryCount ?? 0) + 1;
+    } else {
+      job.resumeCount += 1;
+    }
+    await this.persistJob(job);
+    log.info("A2A job requeued", { jobId, mode, currentTurn: job.currentTurn });
+    return job;
+  }
+
   /** Read a single job */
   async readJob(jobId: string): Promise<A2AJobRecord | null> {
     const filePath = path.join(this.jobsDir, `${JOB_FILE_PREFIX}${jobId}${JOB_FILE_SUFFIX}`);
@@ -208,7 +275,7 @@ export class A2AJobManager {
     for (const file of files) {
       const job = await this.readJobFromFile(path.join(this.jobsDir, file));
       if (!job) continue;
-      const isFinished = job.status === "COMPLETED" || job.status === "FAILED" || job.status === "ABANDONED";
+      const isFinished = isA2AJobFinished(job.status);
       if (isFinished && job.finishedAt && now - job.finishedAt > FINISHED_JOB_TTL_MS) {
         await this.deleteJob(job.jobId);
         cleaned++;
@@ -25,7 +25,14 @@ vi.mock("../../infra/events/bus.js", () => ({
 
 import { emit } from "../../infra/events/bus.js";
 import { EVENT_TYPES } from "../../infra/events/schemas.js";
-import { createAndStartFlow, resumeFlows } from "./a2a-job-orchestrator.js";
+import {
+  cancelA2AJob,
+  createAndStartFlow,
+  isA2AJobActive,
+  resumeA2AJob,
+  resumeFlows,
+  retryA2AJob,
+} from "./a2a-job-orchestrator.js";
 import { runSessionsSendA2AFlow } from "./sessions-send-tool.a2a.js";
 
 const mockedRunFlow = vi.mocked(runSessionsSendA2AFlow);
@@ -286,4 +293,135 @@ describe("A2A Job Orchestrator", () => {
       expect(mockedRunFlow).not.toHaveBeenCalled();
     });
   });
+
+  describe("manual control", () => {
+    it("cancels a running flow and keeps it CANCELLED when the flow returns", async () => {
+      let release!: () => void;
+      mockedRunFlow.mockImplementationOnce(
+        (params) =>
+          new Promise<void>((resolve) => {
+            release = resolve;
+            params.signal?.addEventListener("abort", () => resolve(), { once: true });
+          }),
+      );
+      await createAndStartFlow({
+        jobId: "loop-1",
+        targetSessionKey: "agent:worker:main",
+        displayKey: "worker",
+        message: "Ping",
+        announceTimeoutMs: 60000,
+        maxPingPongTurns: 5,
+        requesterSessionKey: "agent:main:main",
+        conversationId: "conv-loop",
+      });
+      await new Promise((r) => setTimeout(r, 50));
+      expect(isA2AJobActive("loop-1")).toBe(true);
+
+      const result = await cancelA2AJob("loop-1", { reason: "agents looping" });
+      expect(result).toMatchObject({ ok: true, job: { status: "CANCELLED" } });
+      expect(mockedRunFlow.mock.calls[0][0].signal?.aborted).toBe(true);
+      release();
+      await new Promise((r) => setTimeout(r, 50));
+
+      const job = await getA2AJobManager()!.readJob("loop-1");
+      expect(job).toMatchObject({ status: "CANCELLED", lastError: "agents looping" });
+      expect(isA2AJobActive("loop-1")).toBe(false);
+      expect(mockedEmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: EVENT_TYPES.A2A_JOB_CANCELLED,
+          agentId: "main",
+          data: expect.objectContaining({
+            jobId: "loop-1",
+            toAgent: "worker",
+            conversationId: "conv-loop",
+            reason: "agents looping",
+          }),
+        }),
+      );
+
+      expect(await cancelA2AJob("loop-1")).toMatchObject({
+        ok: false,
+        code: "invalid_state",
+      });
+    });
+
+    it("respects a cancel written by another process", async () => {
+      let finishTurn!: () => Promise<void>;
+      mockedRunFlow.mockImplementationOnce(
+        (params) =>
+          new Promise<void>((resolve) => {
+            finishTurn = async () => {
+              await params.onTurnComplete?.(1);
+              resolve();
+            };
+          }),
+      );
+      await createAndStartFlow({
+        jobId: "remote-1",
+        targetSessionKey: "agent:worker:main",
+        displayKey: "worker",
+        message: "Ping",
+        announceTimeoutMs: 60000,
+        maxPingPongTurns: 5,
+        requesterSessionKey: "agent:main:main",
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      // Only the record changes; this process has no abort handle for the other gateway.
+      await getA2AJobManager()!.cancelJob("remote-1", "cancelled elsewhere");
+      await finishTurn();
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(mockedRunFlow.mock.calls[0][0].signal?.aborted).toBe(true);
+      const job = await getA2AJobManager()!.readJob("remote-1");
+      expect(job).toMatchObject({
+        status: "CANCELLED",
+        currentTurn: 0,
+        lastError: "cancelled elsewhere",
+      });
+    });
+
+    it("retries from turn 0 and resumes from the last turn", async () => {
+      const manager = getA2AJobManager()!;
+      await manager.createJob({
+        jobId: "failed-1",
+        targetSessionKey: "agent:worker:main",
+        displayKey: "worker",
+        message: "Try again",
+        conversationId: "conv-failed",
+        maxPingPongTurns: 4,
+        announceTimeoutMs: 60000,
+      });
+      await manager.recordIntent("failed-1", "collaboration", 3);
+      await manager.recordTurnProgress("failed-1", 2);
+      await manager.failJob("failed-1", "Connection lost");
+
+      const resumed = await resumeA2AJob("failed-1");
+      expect(resumed).toMatchObject({ ok: true, job: { status: "PENDING", currentTurn: 2 } });
+      await new Promise((r) => setTimeout(r, 50));
+      expect(mockedRunFlow.mock.calls[0][0]).toMatchObject({
+        startTurn: 2,
+        restarted: true,
+        resolvedIntent: { intent: "collaboration", maxPingPongTurns: 3 },
+      });
+      expect((await manager.readJob("failed-1"))!.status).toBe("COMPLETED");
+      expect(await retryA2AJob("failed-1")).toMatchObject({ ok: false, code: "invalid_state" });
+
+      await manager.abandonJob("failed-1");
+      const retried = await retryA2AJob("failed-1");
+      expect(retried).toMatchObject({ ok: true, job: { currentTurn: 0, retryCount: 1 } });
+      await new Promise((r) => setTimeout(r, 50));
+      expect(mockedRunFlow.mock.calls[1][0]).toMatchObject({ startTurn: 0, restarted: true });
+      expect(mockedEmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: EVENT_TYPES.A2A_JOB_RETRIED,
+          data: expect.objectContaining({ jobId: "failed-1", previousStatus: "ABANDONED" }),
+        }),
+      );
+    });
+
+    it("reports unknown jobs", async () => {
+      expect(await cancelA2AJob("missing")).toMatchObject({ ok: false, code: "not_found" });
+    });
+  });
 });
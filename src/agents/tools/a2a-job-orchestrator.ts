@@ -8,19 +8,29 @@
  * It provides two entry points:
  * 1. createAndStartFlow() — replace fire-and-forget `void runSessionsSendA2AFlow()`
  * 2. resumeFlows() — called by reaper on gateway restart to resume PENDING jobs
+ *
+ * plus manual control for operators (gateway `a2a.jobs.*`): cancelA2AJob(),
+ * retryA2AJob() and resumeA2AJob().
  */
 
 import { emit } from "../../infra/events/bus.js";
 import { EVENT_TYPES } from "../../infra/events/schemas.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
-import { getA2AJobManager } from "./a2a-job-manager.js";
+import { getA2AJobManager, isA2AJobFinished } from "./a2a-job-manager.js";
 import type { A2AJobRecord } from "./a2a-job-manager.js";
 import type { A2APayloadType } from "./a2a-payload-types.js";
 import { runSessionsSendA2AFlow } from "./sessions-send-tool.a2a.js";
 
 const log = createSubsystemLogger("a2a-job-orchestrator");
 
+/** Abort handles of flows running in this process, by jobId. */
+const activeFlows = new Map<string, AbortController>();
+
+export type A2AJobControlResult =
+  | { ok: true; job: A2AJobRecord }
+  | { ok: false; code: "unavailable" | "not_found" | "invalid_state"; error: string };
+
 /** Parameters matching the subset of runSessionsSendA2AFlow params we persist */
 export interface CreateA2AJobFlowParams {
   jobId: string;
@@ -119,6 +129,46 @@ export async function resumeFlows(jobs: A2AJobRecord[]): Promise<number> {
   return resumed;
 }
 
+export function isA2AJobActive(jobId: string): boolean {
+  return activeFlows.has(jobId);
+}
+
+/**
+ * Stop a PENDING or RUNNING job. The agent step already in flight finishes,
+ * but no further ping-pong turn or announce runs.
+ */
+export async function cancelA2AJob(
+  jobId: string,
+  opts?: { reason?: string },
+): Promise<A2AJobControlResult> {
+  const lookup = await lookupJob(jobId);
+  if (!lookup.ok) {
+    return lookup;
+  }
+  if (isA2AJobFinished(lookup.job.status)) {
+    return {
+      ok: false,
+      code: "invalid_state",
+      error: `job ${jobId} is already ${lookup.job.status}`,
+    };
+  }
+  const reason = opts?.reason?.trim() || "cancelled by operator";
+  activeFlows.get(jobId)?.abort();
+  const job = (await lookup.manager.cancelJob(jobId, reason)) ?? lookup.job;
+  emitJobEvent(EVENT_TYPES.A2A_JOB_CANCELLED, job, { reason });
+  return { ok: true, job };
+}
+
+/** Run a finished (failed, abandoned or cancelled) job again from turn 0. */
+export async function retryA2AJob(jobId: string): Promise<A2AJobControlResult> {
+  return await restartJob(jobId, "retry");
+}
+
+/** Continue a stopped job from its last completed ping-pong turn. */
+export async function resumeA2AJob(jobId: string): Promise<A2AJobControlResult> {
+  return await restartJob(jobId, "resume");
+}
+
 // ─── Internal ───
 
 async function startJobFlow(
@@ -136,6 +186,7 @@ async function startJobFlow(
   }
 
   const abort = new AbortController();
+  activeFlows.set(job.jobId, abort);
 
   // Transition to RUNNING
   await manager.updateStatus(job.jobId, "RUNNING");
@@ -159,18 +210,33 @@ async function startJobFlow(
       hop: job.hop,
       skipPingPong: job.skipPingPong,
       startTurn: job.currentTurn,
+      restarted: roundOneReply === undefined && waitRunId === undefined,
+      resolvedIntent:
+        job.intent && job.effectiveMaxPingPongTurns !== undefined
+          ? { intent: job.intent, maxPingPongTurns: job.effectiveMaxPingPongTurns }
+          : undefined,
+      onIntentResolved: async ({ intent, maxPingPongTurns }) => {
+        await manager.recordIntent(job.jobId, intent, maxPingPongTurns);
+      },
       payloadType,
       payloadJson,
       topicId,
       signal: abort.signal,
       onTurnComplete: async (turn: number) => {
-        await manager.recordTurnProgress(job.jobId, turn);
+        if (!(await syncCancellation(manager, job.jobId, abort))) {
+          await manager.recordTurnProgress(job.jobId, turn);
+        }
       },
     });
 
-    // Flow completed successfully
-    await manager.completeJob(job.jobId);
+    // A cancelled job keeps its CANCELLED status.
+    if (!(await syncCancellation(manager, job.jobId, abort))) {
+      await manager.completeJob(job.jobId);
+    }
   } catch (err) {
+    if (await syncCancellation(manager, job.jobId, abort)) {
+      return;
+    }
     const errorMsg = err instanceof Error ? err.message : String(err);
     await manager.failJob(job.jobId, errorMsg);
     log.warn("A2A job flow failed", { jobId: job.jobId, error: errorMsg });
@@ -193,7 +259,92 @@ async function startJobFlow(
         workSessionId: job.workSessionId,
       },
     });
+  } finally {
+    if (activeFlows.get(job.jobId) === abort) {
+      activeFlows.delete(job.jobId);
+    }
+  }
+}
+
+/**
+ * Re-read the job before writing to it: a cancel issued through another
+ * gateway process only changes the record, so abort the local flow to match.
+ */
+async function syncCancellation(
+  manager: NonNullable<ReturnType<typeof getA2AJobManager>>,
+  jobId: string,
+  abort: AbortController,
+): Promise<boolean> {
+  if (!abort.signal.aborted && (await manager.readJob(jobId))?.status === "CANCELLED") {
+    abort.abort();
   }
+  return abort.signal.aborted;
+}
+
+async function lookupJob(
+  jobId: string,
+): Promise<
+  | { ok: true; job: A2AJobRecord; manager: NonNullable<ReturnType<typeof getA2AJobManager>> }
+  | Extract<A2AJobControlResult, { ok: false }>
+> {
+  const manager = getA2AJobManager();
+  if (!manager) {
+    return { ok: false, code: "unavailable", error: "A2A job manager is not running" };
+  }
+  const job = await manager.readJob(jobId);
+  if (!job) {
+    return { ok: false, code: "not_found", error: `unknown A2A job: ${jobId}` };
+  }
+  return { ok: true, job, manager };
+}
+
+async function restartJob(jobId: string, mode: "retry" | "resume"): Promise<A2AJobControlResult> {
+  const lookup = await lookupJob(jobId);
+  if (!lookup.ok) {
+    return lookup;
+  }
+  const { job: current, manager } = lookup;
+  // A PENDING job that is not running here was left behind by a restart; resume may pick it up.
+  const resumable = mode === "resume" && current.status === "PENDING";
+  if (activeFlows.has(jobId) || (!isA2AJobFinished(current.status) && !resumable)) {
+    return { ok: false, code: "invalid_state", error: `job ${jobId} is still ${current.status}` };
+  }
+  if (current.status === "COMPLETED") {
+    return { ok: false, code: "invalid_state", error: `job ${jobId} already completed` };
+  }
+  const job = (await manager.requeueJob(jobId, mode)) ?? current;
+  emitJobEvent(mode === "retry" ? EVENT_TYPES.A2A_JOB_RETRIED : EVENT_TYPES.A2A_JOB_RESUMED, job, {
+    previousStatus: current.status,
+    fromTurn: job.currentTurn,
+  });
+  void startJobFlow(job);
+  return { ok: true, job };
+}
+
+function emitJobEvent(
+  type:
+    | typeof EVENT_TYPES.A2A_JOB_CANCELLED
+    | typeof EVENT_TYPES.A2A_JOB_RETRIED
+    | typeof EVENT_TYPES.A2A_JOB_RESUMED,
+  job: A2AJobRecord,
+  extra: Record<string, unknown>,
+) {
+  const fromAgent = resolveAgentIdFromSessionKey(job.requesterSessionKey);
+  emit({
+    type,
+    agentId: fromAgent,
+    ts: Date.now(),
+    data: {
+      jobId: job.jobId,
+      fromAgent,
+      toAgent: resolveAgentIdFromSessionKey(job.targetSessionKey),
+      conversationId: job.conversationId,
+      currentTurn: job.currentTurn,
+      taskId: job.taskId,
+      workSessionId: job.workSessionId,
+      ...extra,
+    },
+  });
 }
 
 /** Direct flow execution without job tracking (fallback when manager not initialized) */
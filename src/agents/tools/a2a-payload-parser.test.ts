@@ -4,9 +4,11 @@ import {
   validateA2APayload,
   buildPayloadSummary,
   mapPayloadTypeToMessageIntent,
+  coerceA2APayload,
+  extractA2APayload,
+  formatA2APayloadBlock,
 } from "./a2a-payload-parser.js";
 import type {
-  A2APayload,
   TaskDelegationPayload,
   StatusReportPayload,
   QuestionPayload,
@@ -480,3 +482,57 @@ describe("mapPayloadTypeToMessageIntent", () => {
     expect(mapPayloadTypeToMessageIntent("answer")).toBe("notification");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Embedded payload blocks
+// ---------------------------------------------------------------------------
+
+describe("extractA2APayload", () => {
+  const delegation: TaskDelegationPayload = {
+    type: "task_delegation",
+    taskId: "task-001",
+    taskTitle: "Write API docs",
+    taskDescription: "Document the payload parameter",
+  };
+
+  it("round-trips a payload block and strips it from the text", () => {
+    const text = `<@111>\n\nPlease take this\n\n${formatA2APayloadBlock(delegation)}`;
+    expect(extractA2APayload(text)).toEqual({
+      text: "<@111>\n\nPlease take this",
+      payload: delegation,
+    });
+  });
+
+  it("returns null without a block and errors for an invalid one", () => {
+    expect(extractA2APayload("plain message")).toBeNull();
+    const result = extractA2APayload('```a2a-payload\n{"type":"question"}\n```');
+    expect(result?.payload).toBeUndefined();
+    expect(result?.errors).toContain("questionId is required and must be a string");
+  });
+});
+
+describe("coerceA2APayload", () => {
+  it("accepts objects and JSON strings", () => {
+    const answer = { type: "answer", questionId: "q-1", answer: "yes" };
+    expect(coerceA2APayload(answer)).toEqual({ payload: answer });
+    expect(coerceA2APayload(JSON.stringify(answer))).toEqual({ payload: answer });
+  });
+
+  it("explains why a payload was refused", () => {
+    expect(coerceA2APayload("{nope")).toEqual({ errors: ["payload is not valid JSON"] });
+    expect(coerceA2APayload([1])).toEqual({ errors: ["payload must be an object"] });
+    expect(coerceA2APayload({ type: "memo" }).errors?.[0]).toMatch(/^type must be one of/);
+  });
+
+  it("validates receipts", () => {
+    expect(
+      coerceA2APayload({ type: "receipt", receiptFor: "question", ref: "q-1", status: "accepted" }),
+    ).toHaveProperty("payload");
+    expect(
+      coerceA2APayload({ type: "receipt", receiptFor: "receipt", status: "done" }).errors,
+    ).toEqual([
+      "receiptFor must name the acknowledged payload type",
+      "status must be one of: accepted, duplicate, rejected",
+    ]);
+  });
+});
@@ -12,6 +12,7 @@ import type {
   A2APayload,
   A2APayloadType,
   AnswerPayload,
+  DeliveryReceiptPayload,
   PayloadValidationResult,
   QuestionPayload,
   StatusReportPayload,
@@ -27,11 +28,18 @@ const VALID_PAYLOAD_TYPES = new Set<string>([
   "status_report",
   "question",
   "answer",
+  "receipt",
 ]);
 
 const VALID_PRIORITIES = new Set(["critical", "high", "medium", "low"]);
 const VALID_STATUSES = new Set(["in_progress", "completed", "blocked", "failed"]);
 const VALID_URGENCIES = new Set(["urgent", "normal", "low"]);
+const VALID_RECEIPT_STATUSES = new Set(["accepted", "duplicate", "rejected"]);
+
+/** Info string of the fenced block that carries the machine payload inside a chat message. */
+export const A2A_PAYLOAD_FENCE = "a2a-payload";
+
+const PAYLOAD_BLOCK_RE = /```a2a-payload[ \t]*\n([\s\S]*?)\n?```/;
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -87,6 +95,9 @@ export function validateA2APayload(payload: A2APayload): PayloadValidationResult
     case "answer":
       validateAnswer(payload, errors);
       break;
+    case "receipt":
+      validateReceipt(payload, errors);
+      break;
     default:
       errors.push(`Unknown payload type: ${(payload as { type: string }).type}`);
   }
@@ -121,17 +132,11 @@ export function buildPayloadSummary(payload: A2APayload): string {
       return [
         `Task ID: ${payload.taskId}`,
         `Status: ${payload.status}`,
-        payload.progressPercent !== undefined
-          ? `Progress: ${payload.progressPercent}%`
-          : undefined,
+        payload.progressPercent !== undefined ? `Progress: ${payload.progressPercent}%` : undefined,
         payload.completedWork ? `Completed: ${payload.completedWork}` : undefined,
         payload.remainingWork ? `Remaining: ${payload.remainingWork}` : undefined,
-        payload.blockers?.length
-          ? `Blockers: ${payload.blockers.join(", ")}`
-          : undefined,
-        payload.artifacts?.length
-          ? `Artifacts: ${payload.artifacts.join(", ")}`
-          : undefined,
+        payload.blockers?.length ? `Blockers: ${payload.blockers.join(", ")}` : undefined,
+        payload.artifacts?.length ? `Artifacts: ${payload.artifacts.join(", ")}` : undefined,
       ]
         .filter(Boolean)
         .join("\n");
@@ -156,13 +161,89 @@ export function buildPayloadSummary(payload: A2APayload): string {
         payload.confidence !== undefined
           ? `Confidence: ${Math.round(payload.confidence * 100)}%`
           : undefined,
-        payload.references?.length
-          ? `References: ${payload.references.join(", ")}`
-          : undefined,
+        payload.references?.length ? `References: ${payload.references.join(", ")}` : undefined,
       ]
         .filter(Boolean)
         .join("\n");
+
+    case "receipt":
+      return [
+        `Receipt for: ${payload.receiptFor ?? "unreadable payload"}${payload.ref ? ` ${payload.ref}` : ""}`,
+        `Status: ${payload.status}`,
+        payload.localTaskId ? `Backlog task: ${payload.localTaskId}` : undefined,
+        payload.errors?.length ? `Errors: ${payload.errors.join("; ")}` : undefined,
+      ]
+        .filter(Boolean)
+        .join("\n");
+  }
+}
+
+/** One-line title for rendering a payload as a card/embed. */
+export function buildPayloadTitle(payload: A2APayload): string {
+  switch (payload.type) {
+    case "task_delegation":
+      return `Task delegation: ${payload.taskTitle}`;
+    case "status_report":
+      return `Status report: ${payload.taskId} (${payload.status})`;
+    case "question":
+      return `Question ${payload.questionId}`;
+    case "answer":
+      return `Answer to ${payload.questionId}`;
+    case "receipt":
+      return `Receipt: ${payload.receiptFor ?? "payload"}${payload.ref ? ` ${payload.ref}` : ""} ${payload.status}`;
+  }
+}
+
+/**
+ * Read a payload passed as a tool argument, either as an object or a JSON string.
+ * Unlike parseA2APayload this reports why the payload was refused, so the
+ * calling agent can fix it.
+ */
+export function coerceA2APayload(
+  raw: unknown,
+): { payload: A2APayload; errors?: undefined } | { payload?: undefined; errors: string[] } {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return { errors: ["payload is not valid JSON"] };
+    }
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["payload must be an object"] };
+  }
+  const type = (value as { type?: unknown }).type;
+  if (typeof type !== "string" || !VALID_PAYLOAD_TYPES.has(type)) {
+    return { errors: [`type must be one of: ${[...VALID_PAYLOAD_TYPES].join(", ")}`] };
   }
+  const payload = value as A2APayload;
+  const result = validateA2APayload(payload);
+  return result.valid ? { payload } : { errors: result.errors ?? [] };
+}
+
+/** Fenced block embedding the machine payload in a chat message. */
+export function formatA2APayloadBlock(payload: A2APayload): string {
+  return `\`\`\`${A2A_PAYLOAD_FENCE}\n${JSON.stringify(payload)}\n\`\`\``;
+}
+
+/**
+ * Find an embedded payload block in a chat message. Returns null when the
+ * message carries none; otherwise the message text without the block plus
+ * either the validated payload or the reasons it was refused.
+ */
+export function extractA2APayload(
+  text: string,
+): { text: string; payload?: A2APayload; errors?: string[] } | null {
+  const match = PAYLOAD_BLOCK_RE.exec(text);
+  if (!match) {
+    return null;
+  }
+  const rest = (text.slice(0, match.index) + text.slice(match.index + match[0].length)).trim();
+  const coerced = coerceA2APayload(match[1] ?? "");
+  return coerced.payload
+    ? { text: rest, payload: coerced.payload }
+    : { text: rest, errors: coerced.errors };
 }
 
 /**
@@ -181,6 +262,7 @@ export function mapPayloadTypeToMessageIntent(
     case "question":
       return "question";
     case "answer":
+    case "receipt":
       return "notification";
   }
 }
@@ -275,6 +357,35 @@ function validateQuestion(p: QuestionPayload, errors: string[]): void {
   }
 }
 
+function validateReceipt(p: DeliveryReceiptPayload, errors: string[]): void {
+  // A receipt is never itself acknowledged.
+  const receiptFor: unknown = p.receiptFor;
+  if (
+    receiptFor !== undefined &&
+    (typeof receiptFor !== "string" ||
+      receiptFor === "receipt" ||
+      !VALID_PAYLOAD_TYPES.has(receiptFor))
+  ) {
+    errors.push("receiptFor must name the acknowledged payload type");
+  }
+  if (!p.status || !VALID_RECEIPT_STATUSES.has(p.status)) {
+    errors.push(`status must be one of: ${[...VALID_RECEIPT_STATUSES].join(", ")}`);
+  }
+  if (p.ref !== undefined && typeof p.ref !== "string") {
+    errors.push("ref must be a string");
+  }
+  if (p.localTaskId !== undefined && typeof p.localTaskId !== "string") {
+    errors.push("localTaskId must be a string");
+  }
+  if (p.errors !== undefined) {
+    if (!Array.isArray(p.errors)) {
+      errors.push("errors must be an array of strings");
+    } else if (p.errors.some((e) => typeof e !== "string")) {
+      errors.push("errors items must be strings");
+    }
+  }
+}
+
 function validateAnswer(p: AnswerPayload, errors: string[]): void {
   if (!p.questionId || typeof p.questionId !== "string") {
     errors.push("questionId is required and must be a string");
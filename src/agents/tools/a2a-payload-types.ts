@@ -17,7 +17,8 @@ export type A2APayloadType =
   | "task_delegation"
   | "status_report"
   | "question"
-  | "answer";
+  | "answer"
+  | "receipt";
 
 /** Agent A delegates a task to Agent B. */
 export interface TaskDelegationPayload {
@@ -85,12 +86,31 @@ export interface AnswerPayload {
   references?: string[];
 }
 
+/**
+ * Receiver acknowledges a handoff. Sent automatically on receipt; agents do
+ * not send these themselves.
+ */
+export interface DeliveryReceiptPayload {
+  type: "receipt";
+  /** Payload type being acknowledged (absent when it was unreadable). */
+  receiptFor?: Exclude<A2APayloadType, "receipt">;
+  /** taskId or questionId of the acknowledged payload (absent when it was unreadable). */
+  ref?: string;
+  /** "duplicate" when the same handoff was already accepted earlier. */
+  status: "accepted" | "duplicate" | "rejected";
+  /** Backlog task created on the receiver for a task_delegation. */
+  localTaskId?: string;
+  /** Validation errors when rejected. */
+  errors?: string[];
+}
+
 /** Discriminated union of all payload types. */
 export type A2APayload =
   | TaskDelegationPayload
   | StatusReportPayload
   | QuestionPayload
-  | AnswerPayload;
+  | AnswerPayload
+  | DeliveryReceiptPayload;
 
 /** Validation result returned by validateA2APayload. */
 export interface PayloadValidationResult {
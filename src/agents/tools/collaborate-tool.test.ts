@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChannelCollaborationAdapter, ChannelPlugin } from "../../channels/plugins/types.js";
+import { setActivePluginRegistry } from "../../plugins/runtime.js";
+import {
+  createChannelTestPluginBase,
+  createTestRegistry,
+} from "../../test-utils/channel-plugins.js";
+
+vi.mock("../../config/config.js", () => ({
+  loadConfig: () => ({}),
+}));
+
+const recordOutgoingHandoff = vi.fn(async (_params: unknown) => {});
+vi.mock("./a2a-handoff.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./a2a-handoff.js")>()),
+  recordOutgoingHandoff: (params: unknown) => recordOutgoingHandoff(params),
+}));
+
+import { handleCollaborate, resetCollaborateRoutersForTest } from "./collaborate-tool.js";
+
+function createTransport(identities: Record<string, string>) {
+  return {
+    resolveAgentIdentity: vi.fn(async ({ agentId }: { agentId: string }) => identities[agentId]),
+    formatMention: (identity: string) => `<@${identity}>`,
+    createThread: vi.fn(async ({ channelId }: { channelId: string }) => ({
+      threadId: "1700000000.000100",
+      channelId,
+    })),
+    sendToThread: vi.fn(async () => ({ messageId: "1700000000.000200" })),
+    registerParticipants: vi.fn(),
+    trackMention: vi.fn(async () => {}),
+  } satisfies ChannelCollaborationAdapter;
+}
+
+function registerChannels(channels: Record<string, ChannelCollaborationAdapter | undefined>) {
+  setActivePluginRegistry(
+    createTestRegistry(
+      Object.entries(channels).map(([id, collaboration]) => ({
+        pluginId: id,
+        source: "test",
+        plugin: { ...createChannelTestPluginBase({ id }), collaboration } as ChannelPlugin,
+      })),
+    ),
+  );
+}
+
+let slack: ReturnType<typeof createTransport>;
+let discord: ReturnType<typeof createTransport>;
+
+beforeEach(() => {
+  slack = createTransport({ eden: "U0EDEN", ruda: "U0RUDA" });
+  discord = createTransport({ eden: "111", ruda: "222" });
+  registerChannels({ slack, discord, telegram: undefined });
+  resetCollaborateRoutersForTest();
+  recordOutgoingHandoff.mockClear();
+});
+
+afterEach(() => {
+  setActivePluginRegistry(createTestRegistry([]));
+});
+
+describe("collaborate", () => {
+  it("opens a thread on the requested transport and mentions the target agent", async () => {
+    const result = await handleCollaborate({
+      targetAgent: "eden",
+      message: "Can you review the release notes?",
+      channel: "slack",
+      channelId: "C0RELEASE",
+      fromAgentId: "ruda",
+      accountId: "ruda",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      channel: "slack",
+      channelId: "C0RELEASE",
+      threadId: "1700000000.000100",
+      messageId: "1700000000.000200",
+    });
+    expect(slack.createThread).toHaveBeenCalledWith(
+      expect.objectContaining({ channelId: "C0RELEASE", accountId: "ruda" }),
+    );
+    expect(slack.sendToThread).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channelId: "C0RELEASE",
+        threadId: "1700000000.000100",
+        text: "<@U0EDEN>\n\nCan you review the release notes?",
+      }),
+    );
+    expect(slack.registerParticipants).toHaveBeenCalledWith({
+      channelId: "C0RELEASE",
+      threadId: "1700000000.000100",
+      participantIds: ["U0RUDA", "U0EDEN"],
+    });
+    expect(slack.trackMention).toHaveBeenCalledWith(
+      expect.objectContaining({ targetAgentId: "eden", targetIdentity: "U0EDEN" }),
+    );
+    expect(discord.sendToThread).not.toHaveBeenCalled();
+  });
+
+  it("stays on the session channel and falls back to discord when it has no transport", async () => {
+    await handleCollaborate({
+      targetAgent: "eden",
+      message: "Existing thread",
+      threadId: "1699999999.000001",
+      fromAgentId: "ruda",
+      currentChannel: "slack",
+      currentChannelId: "C0SESSION",
+    });
+    expect(slack.sendToThread).toHaveBeenCalledWith(
+      expect.objectContaining({ channelId: "C0SESSION", threadId: "1699999999.000001" }),
+    );
+    expect(slack.createThread).not.toHaveBeenCalled();
+
+    const result = await handleCollaborate({
+      targetAgent: "eden",
+      message: "From telegram",
+      threadId: "333",
+      fromAgentId: "seum",
+      currentChannel: "telegram",
+      currentChannelId: "telegram-chat",
+    });
+    expect(result).toMatchObject({ success: true, channel: "discord", threadId: "333" });
+    expect(discord.sendToThread).toHaveBeenCalledWith(
+      expect.objectContaining({ channelId: undefined, threadId: "333", text: expect.any(String) }),
+    );
+  });
+
+  it("reports unsupported channels and unmapped agents", async () => {
+    expect(
+      await handleCollaborate({ targetAgent: "eden", message: "hi", channel: "telegram" }),
+    ).toMatchObject({ success: false, error: expect.stringContaining("'telegram'") });
+
+    expect(
+      await handleCollaborate({ targetAgent: "dajim", message: "hi", channel: "slack" }),
+    ).toMatchObject({ success: false, error: expect.stringContaining("slack 봇 매핑") });
+  });
+
+  it("needs a channel when no router is configured", async () => {
+    const result = await handleCollaborate({
+      targetAgent: "eden",
+      message: "No channel",
+      channel: "slack",
+      fromAgentId: "dajim",
+    });
+    expect(result).toMatchObject({ success: false });
+    expect(slack.createThread).not.toHaveBeenCalled();
+  });
+
+  it("attaches a validated handoff payload as a card and a machine-readable block", async () => {
+    const result = await handleCollaborate({
+      targetAgent: "eden",
+      message: "Taking this off my plate",
+      channel: "slack",
+      channelId: "C0RELEASE",
+      fromAgentId: "ruda",
+      payload: {
+        type: "task_delegation",
+        taskId: "task_release_notes",
+        taskTitle: "Write the release notes",
+        taskDescription: "Summarize the changes since v1.4",
+      },
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      handoff: { type: "task_delegation", ref: "task_release_notes" },
+    });
+    expect(slack.sendToThread).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: expect.stringContaining("```a2a-payload\n"),
+        card: expect.objectContaining({
+          title: expect.stringContaining("Write the release notes"),
+        }),
+      }),
+    );
+    expect(recordOutgoingHandoff).toHaveBeenCalledWith(
+      expect.objectContaining({ fromAgent: "ruda", toAgent: "eden", channel: "slack" }),
+    );
+  });
+
+  it("rejects an invalid payload before sending", async () => {
+    const result = await handleCollaborate({
+      targetAgent: "eden",
+      message: "Broken",
+      channel: "slack",
+      channelId: "C0RELEASE",
+      fromAgentId: "ruda",
+      payload: { type: "task_delegation", taskId: "task_x" },
+    });
+    expect(result).toMatchObject({ success: false });
+    expect(slack.createThread).not.toHaveBeenCalled();
+    expect(recordOutgoingHandoff).not.toHaveBeenCalled();
+  });
+});
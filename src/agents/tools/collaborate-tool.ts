@@ -1,30 +1,40 @@
 import { Type } from "@sinclair/typebox";
 import { resolveAgentIdentity } from "../../agents/identity.js";
-import { loadConfig } from "../../config/config.js";
-import { trackOutboundMention } from "../../discord/a2a-retry/index.js";
+import { getChannelPlugin } from "../../channels/plugins/index.js";
+import type { ChannelCollaborationAdapter } from "../../channels/plugins/types.js";
+import { loadConfig, type OpenClawConfig } from "../../config/config.js";
 import { checkCollaborateRateLimit } from "../../discord/loop-guard.js";
-import { getBotUserIdForAgent, resolveAgentBotUserId } from "../../discord/monitor/sibling-bots.js";
-import { registerThreadParticipants } from "../../discord/monitor/thread-participants.js";
-import { sendMessageDiscord, createThreadDiscord } from "../../discord/send.js";
 import { logVerbose } from "../../globals.js";
 import {
   ChannelRouter,
   type RouteContext,
   type RouteResult,
 } from "../../infra/events/sinks/channel-router.js";
-import { resolveAgentRoute } from "../../routing/resolve-route.js";
 import { resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
+import { recordOutgoingHandoff, resolvePayloadRef } from "./a2a-handoff.js";
+import {
+  buildPayloadSummary,
+  buildPayloadTitle,
+  coerceA2APayload,
+  formatA2APayloadBlock,
+} from "./a2a-payload-parser.js";
+import type { A2APayload } from "./a2a-payload-types.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
 
+const DEFAULT_COLLABORATION_CHANNEL = "discord";
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface CollaborateOutput {
   success: boolean;
+  channel?: string;
   threadId?: string;
   threadName?: string;
   channelId?: string;
   messageId?: string;
+  /** Structured payload that went along with the message. */
+  handoff?: { type: A2APayload["type"]; ref?: string };
   note?: string;
   error?: string;
 }
@@ -34,7 +44,16 @@ export interface CollaborateOutput {
 const CollaborateToolSchema = Type.Object({
   targetAgent: Type.String({ description: "대상 에이전트 ID (예: eden, ruda, seum, dajim)" }),
   message: Type.String({ description: "전달할 메시지" }),
-  threadId: Type.Optional(Type.String({ description: "기존 스레드에 이어쓰기 (선택)" })),
+  channel: Type.Optional(
+    Type.String({
+      description: "협업할 채널 (discord, slack, matrix). 미지정 시 현재 세션 채널, 없으면 discord",
+    }),
+  ),
+  threadId: Type.Optional(
+    Type.String({
+      description: "기존 스레드에 이어쓰기 (선택, Slack/Matrix는 channelId도 함께 지정)",
+    }),
+  ),
   channelId: Type.Optional(
     Type.String({
       description:
@@ -42,69 +61,99 @@ const CollaborateToolSchema = Type.Object({
     }),
   ),
   threadName: Type.Optional(Type.String({ description: "새 스레드 이름 (선택)" })),
+  payload: Type.Optional(
+    Type.Object(
+      {},
+      {
+        additionalProperties: true,
+        description:
+          "구조화된 핸드오프 (선택). type: task_delegation {taskId, taskTitle, taskDescription, priority?, deadline?, acceptanceCriteria?} | status_report {taskId, status, ...} | question {questionId, question, ...} | answer {questionId, answer, ...}. 수신 측에서 검증 후 수신 확인을 보냅니다.",
+      },
+    ),
+  ),
 });
 
-// ── Channel Router Singleton ────────────────────────────────────────
+// ── Channel Router Cache ────────────────────────────────────────────
 
-let cachedRouter: ChannelRouter | null = null;
-let routerConfigChecked = false;
+// Per channel: the router, or null once config was checked and none is available.
+const routerCache = new Map<string, ChannelRouter | null>();
 
-interface SinkOptions {
-  guildId?: string;
+interface RouterSettings {
+  scopeId?: string;
   defaultChannelId?: string;
-  routerAccountId?: string;
-  routerModel?: string;
+  accountId?: string;
+  model?: string;
 }
 
-function getOrCreateRouter(): ChannelRouter | null {
-  if (cachedRouter) {
-    return cachedRouter;
+/**
+ * Router settings for a channel: `gateway.collaboration.routers.<channel>`, with
+ * Discord falling back to the discord-conversation sink options.
+ */
+function resolveRouterSettings(cfg: OpenClawConfig, channel: string): RouterSettings | null {
+  const configured = cfg.gateway?.collaboration?.routers?.[channel];
+  if (configured) {
+    return configured;
+  }
+  if (channel !== "discord") {
+    return null;
   }
-  if (routerConfigChecked) {
-    return null; // Already checked, no config available
+  const sinks = cfg.gateway?.conversationSinks;
+  const discordSink = Array.isArray(sinks)
+    ? sinks.find(
+        (s: Record<string, unknown>) =>
+          s.id === "discord-conversation" || s.type === "discord-conversation",
+      )
+    : undefined;
+  if (!discordSink) {
+    return null;
   }
-  routerConfigChecked = true;
-
-  try {
-    const cfg = loadConfig();
-    const sinks = cfg.gateway?.conversationSinks;
-    if (!Array.isArray(sinks) || sinks.length === 0) {
-      logVerbose("collaborate: no conversationSinks configured, router unavailable");
-      return null;
-    }
-
-    // Find the discord-conversation sink
-    const discordSink = sinks.find(
-      (s: Record<string, unknown>) =>
-        s.id === "discord-conversation" || s.type === "discord-conversation",
-    );
-    if (!discordSink) {
-      logVerbose("collaborate: no discord-conversation sink found");
-      return null;
-    }
-
-    const opts = (discordSink.options ?? discordSink) as SinkOptions;
-    const guildId = opts.guildId;
-    const defaultChannelId = opts.defaultChannelId;
-
-    if (!guildId || !defaultChannelId) {
-      logVerbose("collaborate: sink missing guildId or defaultChannelId");
-      return null;
-    }
+  const opts = (discordSink.options ?? discordSink) as Record<string, string | undefined>;
+  return {
+    scopeId: opts.guildId,
+    defaultChannelId: opts.defaultChannelId,
+    accountId: opts.routerAccountId ?? "ruda",
+    model: opts.routerModel,
+  };
+}
 
-    cachedRouter = new ChannelRouter({
-      guildId,
-      defaultChannelId,
-      accountId: opts.routerAccountId ?? "ruda",
-      routerModel: opts.routerModel,
-    });
+function getOrCreateRouter(
+  cfg: OpenClawConfig,
+  channel: string,
+  transport: ChannelCollaborationAdapter,
+): ChannelRouter | null {
+  const cached = routerCache.get(channel);
+  if (cached !== undefined) {
+    return cached;
+  }
 
-    logVerbose("collaborate: ChannelRouter initialized from conversationSinks config");
-    return cachedRouter;
-  } catch (err) {
-    logVerbose("collaborate: failed to initialize ChannelRouter: " + String(err));
+  const settings = resolveRouterSettings(cfg, channel);
+  if (!settings?.defaultChannelId || (channel === "discord" && !settings.scopeId)) {
+    logVerbose(`collaborate: no ${channel} router configured, router unavailable`);
+    routerCache.set(channel, null);
     return null;
   }
+  if (!transport.listChannels) {
+    logVerbose(`collaborate: ${channel} transport cannot list channels, router unavailable`);
+    routerCache.set(channel, null);
+    return null;
+  }
+
+  const router = new ChannelRouter({
+    transport,
+    channel,
+    scopeId: settings.scopeId,
+    defaultChannelId: settings.defaultChannelId,
+    accountId: settings.accountId ?? "default",
+    routerModel: settings.model,
+  });
+  routerCache.set(channel, router);
+  logVerbose(`collaborate: ChannelRouter initialized for ${channel}`);
+  return router;
+}
+
+/** Test helper: drop cached routers so config changes are picked up. */
+export function resetCollaborateRoutersForTest(): void {
+  routerCache.clear();
 }
 
 // ── Helpers ─────────────────────────────────────────────────────────
@@ -116,86 +165,53 @@ function truncateText(text: string, maxLength: number): string {
   return text.slice(0, maxLength);
 }
 
-/**
- * Resolve target bot's Discord user ID with config-based fallback.
- * Stage 1: direct reverse map lookup via resolveAgentBotUserId
- * Stage 2: iterate discord account bindings from config
- */
-function resolveTargetBotId(targetAgent: string): string | undefined {
-  // Stage 1: direct lookup (covers dual-registered agentId + accountId)
-  const direct = resolveAgentBotUserId(targetAgent);
-  if (direct) {
-    return direct;
-  }
-
-  // Stage 2: load config and build bindings for fallback
-  try {
-    const cfg = loadConfig();
-    const discordAccounts = (cfg.channels as Record<string, unknown>)?.discord;
-    if (!discordAccounts || typeof discordAccounts !== "object") {
-      return undefined;
-    }
-
-    const accounts = (discordAccounts as Record<string, unknown>).accounts;
-    if (!accounts || typeof accounts !== "object") {
-      return undefined;
-    }
-
-    for (const accountId of Object.keys(accounts)) {
-      try {
-        const route = resolveAgentRoute({ cfg, channel: "discord", accountId });
-        if (route.agentId === targetAgent) {
-          const botId = getBotUserIdForAgent(accountId);
-          if (botId) {
-            return botId;
-          }
-        }
-      } catch {
-        continue;
-      }
-    }
-  } catch {
-    // Config load failure — non-critical
-  }
-
-  return undefined;
-}
-
 /**
  * Register thread participants + track outbound mention.
  * Shared by both "existing thread" and "new thread" code paths.
  */
 function registerAndTrack(params: {
+  transport: ChannelCollaborationAdapter;
+  channelId?: string;
   threadId: string;
   messageId: string;
-  fromBotUserId: string | undefined;
-  targetBotId: string;
+  fromIdentity: string | undefined;
+  targetIdentity: string;
   fromAgentId: string;
   targetAgent: string;
   message: string;
 }): void {
+  const { transport } = params;
+
   // Register both sender and target as thread participants
-  const participantIds = [params.fromBotUserId, params.targetBotId].filter(Boolean) as string[];
-  if (participantIds.length > 0) {
-    try {
-      registerThreadParticipants(params.threadId, participantIds);
+  const participantIds = [params.fromIdentity, params.targetIdentity].filter(Boolean) as string[];
+  const registerParticipants = transport.registerParticipants;
+  if (registerParticipants && participantIds.length > 0) {
+    void (async () => {
+      await registerParticipants({
+        channelId: params.channelId,
+        threadId: params.threadId,
+        participantIds,
+      });
       logVerbose("collaborate: registered thread participants for thread " + params.threadId);
-    } catch (regErr) {
+    })().catch((regErr) => {
       logVerbose("collaborate: failed to register thread participants: " + String(regErr));
-    }
+    });
   }
 
   // Track outbound mention for a2a-retry
-  trackOutboundMention({
-    messageId: params.messageId,
-    threadId: params.threadId,
-    fromAgentId: params.fromAgentId,
-    targetAgentId: params.targetAgent,
-    targetBotId: params.targetBotId,
-    originalText: truncateText(params.message, 500),
-  }).catch((trackErr) => {
-    logVerbose("collaborate: failed to track outbound mention: " + String(trackErr));
-  });
+  transport
+    .trackMention?.({
+      messageId: params.messageId,
+      channelId: params.channelId,
+      threadId: params.threadId,
+      fromAgentId: params.fromAgentId,
+      targetAgentId: params.targetAgent,
+      targetIdentity: params.targetIdentity,
+      text: truncateText(params.message, 500),
+    })
+    .catch((trackErr) => {
+      logVerbose("collaborate: failed to track outbound mention: " + String(trackErr));
+    });
 }
 
 /**
@@ -203,19 +219,21 @@ function registerAndTrack(params: {
  * Returns null if router is unavailable or fails.
  */
 async function routeViaLLM(params: {
+  cfg: OpenClawConfig;
+  channel: string;
+  transport: ChannelCollaborationAdapter;
   fromAgentId: string;
   targetAgent: string;
   message: string;
 }): Promise<RouteResult | null> {
-  const router = getOrCreateRouter();
+  const router = getOrCreateRouter(params.cfg, params.channel, params.transport);
   if (!router) {
     return null;
   }
 
   try {
-    const cfg = loadConfig();
-    const fromIdentity = resolveAgentIdentity(cfg, params.fromAgentId);
-    const toIdentity = resolveAgentIdentity(cfg, params.targetAgent);
+    const fromIdentity = resolveAgentIdentity(params.cfg, params.fromAgentId);
+    const toIdentity = resolveAgentIdentity(params.cfg, params.targetAgent);
 
     const routeCtx: RouteContext = {
       message: truncateText(params.message, 500),
@@ -226,7 +244,7 @@ async function routeViaLLM(params: {
       conversationId: `collaborate_${[params.fromAgentId, params.targetAgent].toSorted().join("-")}`,
     };
 
-    logVerbose("collaborate: routing via ChannelRouter");
+    logVerbose(`collaborate: routing via ${params.channel} ChannelRouter`);
     const result = await router.route(routeCtx);
     logVerbose(
       `collaborate: router result — channel:${result.channelId} thread:${result.threadId ?? "new"} name:"${result.threadName}"`,
@@ -243,23 +261,54 @@ async function routeViaLLM(params: {
 export async function handleCollaborate(params: {
   targetAgent: string;
   message: string;
+  channel?: string;
   threadId?: string;
   channelId?: string;
   threadName?: string;
   fromAgentId?: string;
   fromBotUserId?: string;
   accountId?: string;
+  currentChannel?: string;
   currentChannelId?: string;
+  /** Structured handoff payload (object or JSON string). */
+  payload?: unknown;
 }): Promise<CollaborateOutput> {
   const { targetAgent, message, threadId, fromAgentId } = params;
+  const cfg = loadConfig();
+
+  let payload: A2APayload | undefined;
+  if (params.payload !== undefined) {
+    const coerced = coerceA2APayload(params.payload);
+    if (!coerced.payload) {
+      return { success: false, error: `payload가 올바르지 않습니다: ${coerced.errors.join("; ")}` };
+    }
+    if (coerced.payload.type === "receipt") {
+      return { success: false, error: "receipt payload는 수신 측에서 자동으로 전송됩니다." };
+    }
+    payload = coerced.payload;
+  }
+
+  // Explicit channel wins; otherwise stay on the session's channel when it supports threads.
+  const channel =
+    params.channel ??
+    (params.currentChannel && getChannelPlugin(params.currentChannel)?.collaboration
+      ? params.currentChannel
+      : DEFAULT_COLLABORATION_CHANNEL);
+  const transport = getChannelPlugin(channel)?.collaboration;
+  if (!transport) {
+    return {
+      success: false,
+      error: `'${channel}' 채널은 collaborate를 지원하지 않습니다. discord, slack, matrix 중 하나를 지정하세요.`,
+    };
+  }
 
-  logVerbose("collaborate: resolving bot id for agent " + targetAgent);
+  logVerbose(`collaborate: resolving ${channel} identity for agent ${targetAgent}`);
 
-  const targetBotId = resolveTargetBotId(targetAgent);
-  if (!targetBotId) {
+  const targetIdentity = await transport.resolveAgentIdentity({ cfg, agentId: targetAgent });
+  if (!targetIdentity) {
     return {
       success: false,
-      error: `'${targetAgent}'에 대한 Discord 봇 매핑을 찾을 수 없습니다. config에서 agentId '${targetAgent}'의 Discord accountId/봇 바인딩을 확인하세요.`,
+      error: `'${targetAgent}'에 대한 ${channel} 봇 매핑을 찾을 수 없습니다. config에서 agentId '${targetAgent}'의 ${channel} accountId/봇 바인딩을 확인하세요.`,
     };
   }
 
@@ -283,37 +332,77 @@ export async function handleCollaborate(params: {
     }
   }
 
-  const mention = `<@${targetBotId}>`;
-  const fullContent = `${mention}\n\n${message}`;
-
-  const fromBotUserId =
-    params.fromBotUserId ?? (fromAgentId ? getBotUserIdForAgent(fromAgentId) : undefined);
+  const mentionedText = `${transport.formatMention(targetIdentity)}\n\n${message}`;
+  // The fenced block carries the machine payload; the card is its readable rendering.
+  const fullContent = payload
+    ? `${mentionedText}\n\n${formatA2APayloadBlock(payload)}`
+    : mentionedText;
+  const card = payload
+    ? { title: buildPayloadTitle(payload), body: buildPayloadSummary(payload) }
+    : undefined;
+  const handoff = payload ? { type: payload.type, ref: resolvePayloadRef(payload) } : undefined;
+
+  const fromIdentity =
+    params.fromBotUserId ??
+    (fromAgentId ? await transport.resolveAgentIdentity({ cfg, agentId: fromAgentId }) : undefined);
+
+  // Resolve which account should send messages (the calling agent's account)
+  const sendAccountId =
+    params.accountId ?? (resolvedFromAgent !== "unknown" ? resolvedFromAgent : undefined);
+
+  const deliver = async (target: { channelId?: string; threadId: string }) => {
+    const { messageId } = await transport.sendToThread({
+      cfg,
+      accountId: sendAccountId,
+      channelId: target.channelId,
+      threadId: target.threadId,
+      text: fullContent,
+      card,
+    });
+    if (payload) {
+      await recordOutgoingHandoff({
+        payload,
+        fromAgent: resolvedFromAgent,
+        toAgent: targetAgent,
+        channel,
+      }).catch((err) => {
+        logVerbose("collaborate: failed to record outgoing handoff: " + String(err));
+      });
+    }
+    registerAndTrack({
+      transport,
+      channelId: target.channelId,
+      threadId: target.threadId,
+      messageId,
+      fromIdentity,
+      targetIdentity,
+      fromAgentId: resolvedFromAgent,
+      targetAgent,
+      message,
+    });
+    return messageId;
+  };
 
-  // Resolve which Discord account should send messages (the calling agent's account)
-  const sendAccountId = params.accountId ?? resolvedFromAgent;
-  const sendOpts = sendAccountId !== "unknown" ? { accountId: sendAccountId } : {};
+  // The session's channel id only makes sense on the session's own transport.
+  const currentChannelId =
+    !params.currentChannel || params.currentChannel === channel
+      ? params.currentChannelId
+      : undefined;
 
   try {
     // ── Path A: Send to existing thread (explicit) ──
     if (threadId) {
       logVerbose("collaborate: sending to existing thread " + threadId);
-      const result = await sendMessageDiscord(`channel:${threadId}`, fullContent, sendOpts);
-      const messageId = result.messageId;
-
-      registerAndTrack({
-        threadId,
-        messageId,
-        fromBotUserId,
-        targetBotId,
-        fromAgentId: resolvedFromAgent,
-        targetAgent,
-        message,
-      });
+      const channelId = params.channelId ?? currentChannelId;
+      const messageId = await deliver({ channelId, threadId });
 
       return {
         success: true,
+        channel,
         messageId,
+        handoff,
         threadId,
+        channelId,
         note: `${targetAgent}에게 메시지를 전달했습니다. 스레드에서 응답을 기다리세요.`,
       };
     }
@@ -325,6 +414,9 @@ export async function handleCollaborate(params: {
 
     if (!resolvedChannelId && resolvedFromAgent !== "unknown") {
       const routeResult = await routeViaLLM({
+        cfg,
+        channel,
+        transport,
         fromAgentId: resolvedFromAgent,
         targetAgent,
         message,
@@ -343,28 +435,19 @@ export async function handleCollaborate(params: {
 
     // Fallback to currentChannelId if router didn't provide one
     if (!resolvedChannelId) {
-      resolvedChannelId = params.currentChannelId;
+      resolvedChannelId = currentChannelId;
     }
 
     // ── Path B-1: Router found an existing thread ──
     if (routerThreadId) {
       logVerbose("collaborate: router matched existing thread " + routerThreadId);
-      const result = await sendMessageDiscord(`channel:${routerThreadId}`, fullContent, sendOpts);
-      const messageId = result.messageId;
-
-      registerAndTrack({
-        threadId: routerThreadId,
-        messageId,
-        fromBotUserId,
-        targetBotId,
-        fromAgentId: resolvedFromAgent,
-        targetAgent,
-        message,
-      });
+      const messageId = await deliver({ channelId: resolvedChannelId, threadId: routerThreadId });
 
       return {
         success: true,
+        channel,
         messageId,
+        handoff,
         threadId: routerThreadId,
         threadName: resolvedThreadName,
         channelId: resolvedChannelId,
@@ -381,31 +464,25 @@ export async function handleCollaborate(params: {
       };
     }
 
-    logVerbose("collaborate: creating thread in channel " + resolvedChannelId);
+    logVerbose(`collaborate: creating ${channel} thread in channel ${resolvedChannelId}`);
     const name = resolvedThreadName ?? `[협업] ${resolvedFromAgent} · ${targetAgent}`.slice(0, 100);
 
-    const thread = await createThreadDiscord(resolvedChannelId, { name }, sendOpts);
-    const newThreadId = thread.id;
-
-    const sendResult = await sendMessageDiscord(`channel:${newThreadId}`, fullContent, sendOpts);
-    const messageId = sendResult.messageId;
-
-    registerAndTrack({
-      threadId: newThreadId,
-      messageId,
-      fromBotUserId,
-      targetBotId,
-      fromAgentId: resolvedFromAgent,
-      targetAgent,
-      message,
+    const thread = await transport.createThread({
+      cfg,
+      accountId: sendAccountId,
+      channelId: resolvedChannelId,
+      name,
     });
+    const messageId = await deliver({ channelId: thread.channelId, threadId: thread.threadId });
 
     return {
       success: true,
+      channel,
       messageId,
-      threadId: newThreadId,
+      handoff,
+      threadId: thread.threadId,
       threadName: name,
-      channelId: resolvedChannelId,
+      channelId: thread.channelId,
       note: `${targetAgent}에게 메시지를 전달했습니다. 스레드에서 응답을 기다리세요.`,
     };
   } catch (err) {
@@ -420,18 +497,20 @@ export async function handleCollaborate(params: {
 export function createCollaborateTool(opts?: {
   agentSessionKey?: string;
   agentAccountId?: string;
+  agentChannel?: string;
   currentChannelId?: string;
 }): AnyAgentTool {
   return {
     label: "Collaborate",
     name: "collaborate",
     description:
-      "다른 에이전트와 Discord 스레드를 통해 협업합니다. LLM Router가 자동으로 적절한 채널과 스레드를 선택합니다.",
+      "다른 에이전트와 Discord, Slack 또는 Matrix 스레드를 통해 협업합니다. LLM Router가 자동으로 적절한 채널과 스레드를 선택합니다.",
     parameters: CollaborateToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const targetAgent = readStringParam(params, "targetAgent", { required: true });
       const message = readStringParam(params, "message", { required: true });
+      const channel = readStringParam(params, "channel")?.toLowerCase() || undefined;
       const threadId = readStringParam(params, "threadId") ?? undefined;
       const channelId = readStringParam(params, "channelId") ?? undefined;
       const threadName = readStringParam(params, "threadName") ?? undefined;
@@ -443,12 +522,15 @@ export function createCollaborateTool(opts?: {
       const result = await handleCollaborate({
         targetAgent,
         message,
+        channel,
         threadId,
         channelId,
         threadName,
         fromAgentId,
         accountId: opts?.agentAccountId,
+        currentChannel: opts?.agentChannel,
         currentChannelId: opts?.currentChannelId,
+        payload: params.payload,
       });
 
       return jsonResult(result);
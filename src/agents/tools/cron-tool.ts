@@ -247,6 +247,8 @@ PAYLOAD TYPES (payload.kind):
   { "kind": "systemEvent", "text": "<message>" }
 - "agentTurn": Runs agent with message (isolated sessions only)
   { "kind": "agentTurn", "message": "<prompt>", "model": "<optional>", "thinking": "<optional>", "timeoutSeconds": <optional, 0 means no timeout> }
+- "taskBacklog": Adds a backlog task for an agent on every run (main sessions only; skipped while the previous run's task is still open)
+  { "kind": "taskBacklog", "description": "<task>", "context": "<optional>", "priority": "low|medium|high|urgent", "steps": ["<optional>"], "assignee": "<optional agent id>", "estimatedEffort": "small|medium|large", "dueInMs": <optional> }
 
 DELIVERY (top-level):
   { "mode": "none|announce|webhook", "channel": "<optional>", "to": "<optional>", "bestEffort": <optional-bool> }
@@ -256,7 +258,7 @@ DELIVERY (top-level):
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
 
 CRITICAL CONSTRAINTS:
-- sessionTarget="main" REQUIRES payload.kind="systemEvent"
+- sessionTarget="main" REQUIRES payload.kind="systemEvent" or "taskBacklog"
 - sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
 - For webhook callbacks, use delivery.mode="webhook" with delivery.to set to a URL.
 Default: prefer isolated agentTurn jobs unless the user explicitly wants a main-session system event.
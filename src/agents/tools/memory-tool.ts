@@ -2,18 +2,43 @@ import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
-import { getMemorySearchManager } from "../../memory/index.js";
-import type { MemorySearchResult } from "../../memory/types.js";
+import { getMemorySearchManager, getTeamMemorySearchManager } from "../../memory/index.js";
+import {
+  canReadTeamMemory,
+  canWriteTeamMemory,
+  TEAM_MEMORY_PATH_PREFIX,
+  writeTeamNote,
+} from "../../memory/team-memory.js";
+import type { MemorySearchFilter, MemorySearchResult, MemorySource } from "../../memory/types.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
-import { resolveSessionAgentId } from "../agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
+import { stringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import { jsonResult, readNumberParam, readStringArrayParam, readStringParam } from "./common.js";
+import { findActiveTask } from "./task-file-io.js";
+
+const MEMORY_SEARCH_SOURCES = ["memory", "sessions", "tasks", "a2a", "team"] as const;
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
   maxResults: Type.Optional(Type.Number()),
   minScore: Type.Optional(Type.Number()),
+  sources: Type.Optional(
+    Type.Array(stringEnum(MEMORY_SEARCH_SOURCES), {
+      description: "Only search these sources (default: every indexed source)",
+    }),
+  ),
+  taskId: Type.Optional(Type.String({ description: "Only entries about this task" })),
+  workSessionId: Type.Optional(Type.String({ description: "Only entries from this work session" })),
+  agent: Type.Optional(
+    Type.String({ description: "Only entries involving this agent (participant or author)" }),
+  ),
+  outcome: Type.Optional(
+    Type.String({
+      description: "Only entries with this outcome (e.g. completed, cancelled, blocked, failed)",
+    }),
+  ),
 });
 
 const MemoryGetSchema = Type.Object({
@@ -22,6 +47,14 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+const TeamMemoryWriteSchema = Type.Object({
+  title: Type.String({ description: "Short headline teammates will see in search results" }),
+  content: Type.String({ description: "Markdown body of the note" }),
+  taskId: Type.Optional(
+    Type.String({ description: "Task this note came from (default: your in-progress task)" }),
+  ),
+});
+
 function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessionKey?: string }) {
   const cfg = options.config;
   if (!cfg) {
@@ -50,12 +83,13 @@ export function createMemorySearchTool(options: {
     label: "Memory Search",
     name: "memory_search",
     description:
-      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
+      'Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. When indexed, past tasks and task history (source "tasks") and agent-to-agent conversations (source "a2a") are searched too; narrow with sources, taskId, workSessionId, agent or outcome (e.g. "how did we handle this last time" → sources ["tasks","a2a"], outcome "completed"). When team memory is enabled, teammates\' shared notes are searched too: they come back with source "team", a team/ path and provenance (author agent and task) — credit the author when you use one. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.',
     parameters: MemorySearchSchema,
     execute: async (_toolCallId, params) => {
       const query = readStringParam(params, "query", { required: true });
       const maxResults = readNumberParam(params, "maxResults");
       const minScore = readNumberParam(params, "minScore");
+      const filter = readMemorySearchFilter(params);
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
@@ -69,10 +103,20 @@ export function createMemorySearchTool(options: {
           mode: citationsMode,
           sessionKey: options.agentSessionKey,
         });
-        const rawResults = await manager.search(query, {
+        const ownResults = await manager.search(query, {
           maxResults,
           minScore,
           sessionKey: options.agentSessionKey,
+          filter,
+        });
+        const rawResults = await mergeTeamResults({
+          cfg,
+          agentId,
+          query,
+          filter,
+          results: ownResults,
+          maxResults: maxResults ?? resolveMemorySearchConfig(cfg, agentId)?.query.maxResults,
+          minScore,
         });
         const status = manager.status();
         const decorated = decorateCitations(rawResults, includeCitations);
@@ -111,12 +155,23 @@ export function createMemoryGetTool(options: {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
+      "Safe snippet read from MEMORY.md, memory/*.md, a team/ note or an indexed task, task-history or a2a/ conversation path with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
     parameters: MemoryGetSchema,
     execute: async (_toolCallId, params) => {
       const relPath = readStringParam(params, "path", { required: true });
       const from = readNumberParam(params, "from", { integer: true });
       const lines = readNumberParam(params, "lines", { integer: true });
+      if (relPath.startsWith(TEAM_MEMORY_PATH_PREFIX)) {
+        return jsonResult(
+          await readTeamNote({
+            cfg,
+            agentId,
+            relPath,
+            from: from ?? undefined,
+            lines: lines ?? undefined,
+          }),
+        );
+      }
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
@@ -139,6 +194,117 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createTeamMemoryWriteTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx || !canWriteTeamMemory(ctx.cfg, ctx.agentId)) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Team Memory Write",
+    name: "team_memory_write",
+    description:
+      'Share a finding, decision or how-to with every teammate agent: writes a markdown note into the shared team memory, tagged with you as author and your current task. Teammates find it through memory_search (source "team"). Write notes others can act on without asking you; keep private scratch work in memory/.',
+    parameters: TeamMemoryWriteSchema,
+    execute: async (_toolCallId, params) => {
+      const title = readStringParam(params, "title", { required: true });
+      const content = readStringParam(params, "content", { required: true });
+      const taskId =
+        readStringParam(params, "taskId") ??
+        (await findActiveTask(resolveAgentWorkspaceDir(cfg, agentId)))?.id;
+      const note = await writeTeamNote({ cfg, agentId, title, content, taskId });
+      return jsonResult({ ok: true, path: note.path, author: agentId, taskId });
+    },
+  };
+}
+
+function readMemorySearchFilter(params: Record<string, unknown>): MemorySearchFilter | undefined {
+  const sources = readStringArrayParam(params, "sources")?.filter(
+    (source): source is MemorySource =>
+      (MEMORY_SEARCH_SOURCES as readonly string[]).includes(source),
+  );
+  const filter: MemorySearchFilter = {
+    ...(sources?.length ? { sources } : {}),
+    taskId: readStringParam(params, "taskId"),
+    workSessionId: readStringParam(params, "workSessionId"),
+    agentId: readStringParam(params, "agent"),
+    outcome: readStringParam(params, "outcome"),
+  };
+  return Object.values(filter).some(Boolean) ? filter : undefined;
+}
+
+async function mergeTeamResults(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  query: string;
+  filter?: MemorySearchFilter;
+  results: MemorySearchResult[];
+  maxResults?: number;
+  minScore?: number;
+}): Promise<MemorySearchResult[]> {
+  if (!canReadTeamMemory(params.cfg, params.agentId)) {
+    return params.results;
+  }
+  if (params.filter?.sources && !params.filter.sources.includes("team")) {
+    return params.results;
+  }
+  const { manager } = await getTeamMemorySearchManager({ cfg: params.cfg });
+  if (!manager) {
+    return params.results;
+  }
+  // The shared index is best-effort: an agent's own memory must stay searchable without it.
+  const teamResults = await manager
+    .search(params.query, {
+      maxResults: params.maxResults,
+      minScore: params.minScore,
+      filter: params.filter ? { ...params.filter, sources: undefined } : undefined,
+    })
+    .catch(() => []);
+  if (teamResults.length === 0) {
+    return params.results;
+  }
+  return [
+    ...params.results,
+    ...teamResults.map((entry) => ({
+      ...entry,
+      path: `${TEAM_MEMORY_PATH_PREFIX}${entry.path}`,
+    })),
+  ]
+    .toSorted((a, b) => b.score - a.score)
+    .slice(0, params.maxResults);
+}
+
+async function readTeamNote(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  relPath: string;
+  from?: number;
+  lines?: number;
+}) {
+  const { relPath } = params;
+  if (!canReadTeamMemory(params.cfg, params.agentId)) {
+    return { path: relPath, text: "", disabled: true, error: "team memory is not readable" };
+  }
+  const { manager, error } = await getTeamMemorySearchManager({ cfg: params.cfg });
+  if (!manager) {
+    return { path: relPath, text: "", disabled: true, error };
+  }
+  try {
+    const result = await manager.readFile({
+      relPath: relPath.slice(TEAM_MEMORY_PATH_PREFIX.length),
+      from: params.from,
+      lines: params.lines,
+    });
+    return { ...result, path: `${TEAM_MEMORY_PATH_PREFIX}${result.path}` };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { path: relPath, text: "", disabled: true, error: message };
+  }
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
@@ -163,7 +329,13 @@ function formatCitation(entry: MemorySearchResult): string {
     entry.startLine === entry.endLine
       ? `#L${entry.startLine}`
       : `#L${entry.startLine}-L${entry.endLine}`;
-  return `${entry.path}${lineRange}`;
+  const author = entry.provenance?.agentId;
+  const taskId = entry.provenance?.taskId;
+  if (!author) {
+    return taskId ? `${entry.path}${lineRange} (task ${taskId})` : `${entry.path}${lineRange}`;
+  }
+  const task = taskId ? `, task ${taskId}` : "";
+  return `${entry.path}${lineRange} (by ${author}${task})`;
 }
 
 function clampResultsByInjectedChars(
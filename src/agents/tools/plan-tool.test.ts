@@ -0,0 +1,186 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { reset as resetBus, subscribe } from "../../infra/events/bus.js";
+import { EVENT_TYPES } from "../../infra/events/schemas.js";
+import { getPlan } from "../../infra/plan-approval.js";
+import { isToolGated, resetAllGates } from "../session-tool-gate.js";
+
+let tmpRoot = "";
+
+vi.mock("../agent-scope.js", () => ({
+  resolveAgentWorkspaceDir: vi.fn((_cfg, agentId: string) => path.join(tmpRoot, agentId)),
+  resolveSessionAgentId: vi.fn(({ sessionKey }: { sessionKey?: string }) =>
+    sessionKey?.startsWith("agent:lead:") ? "lead" : "worker",
+  ),
+  listAgentIds: vi.fn(() => ["lead", "worker"]),
+  resolveDefaultAgentId: vi.fn(() => "main"),
+}));
+
+vi.mock("../../infra/task-tracker.js", () => ({
+  enableAgentManagedMode: vi.fn(),
+  disableAgentManagedMode: vi.fn(),
+}));
+
+import {
+  createPlanApproveTool,
+  createPlanRejectTool,
+  createPlanReviewTool,
+  createPlanSubmitTool,
+} from "./plan-tool.js";
+import { createTaskStartTool } from "./task-tool.js";
+
+const mockConfig = {
+  agents: { defaults: { workspace: "/workspace", taskContinuation: { team: { lead: "lead" } } } },
+} as never;
+const WORKER_SESSION = "agent:worker:main";
+const LEAD_SESSION = "agent:lead:main";
+
+async function startWorkerTask(): Promise<string> {
+  const tool = createTaskStartTool({ config: mockConfig, agentSessionKey: WORKER_SESSION });
+  const result = await tool!.execute("call-start", { description: "Deploy release", simple: true });
+  return (result.details as { taskId: string }).taskId;
+}
+
+async function submitWorkerPlan(params: Record<string, unknown> = {}) {
+  const tool = createPlanSubmitTool({ config: mockConfig, agentSessionKey: WORKER_SESSION });
+  const result = await tool!.execute("call-submit", {
+    title: "Ship it",
+    steps: ["build", "deploy"],
+    tools_requested: ["exec"],
+    ...params,
+  });
+  return result.details as Record<string, unknown>;
+}
+
+describe("plan tools", () => {
+  beforeEach(async () => {
+    tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), "plan-tool-test-"));
+    resetAllGates();
+    resetBus();
+  });
+
+  afterEach(async () => {
+    resetAllGates();
+    resetBus();
+    await fs.rm(tmpRoot, { recursive: true, force: true });
+  });
+
+  it("returns null when config is missing", () => {
+    expect(createPlanSubmitTool({})).toBeNull();
+    expect(createPlanReviewTool({})).toBeNull();
+    expect(createPlanApproveTool({})).toBeNull();
+    expect(createPlanRejectTool({})).toBeNull();
+  });
+
+  it("requires an active task when task_id is omitted", async () => {
+    const result = await submitWorkerPlan();
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("No active task");
+  });
+
+  it("submits a plan, gates requested tools and emits plan.submitted", async () => {
+    const taskId = await startWorkerTask();
+    const events: string[] = [];
+    subscribe(EVENT_TYPES.PLAN_SUBMITTED, (event) => events.push(event.agentId));
+
+    const result = await submitWorkerPlan({ tools_requested: ["exec", "group:fs"] });
+
+    expect(result.success).toBe(true);
+    expect(result.taskId).toBe(taskId);
+    expect(isToolGated(WORKER_SESSION, "exec")).toBe(true);
+    expect(isToolGated(WORKER_SESSION, "write")).toBe(true);
+    expect(isToolGated(WORKER_SESSION, "web_search")).toBe(false);
+    expect(events).toEqual(["worker"]);
+
+    const plan = await getPlan(path.join(tmpRoot, "worker"), result.planId as string);
+    expect(plan?.sessionKey).toBe(WORKER_SESSION);
+  });
+
+  it("lists pending plans across agents for review", async () => {
+    await startWorkerTask();
+    const submitted = await submitWorkerPlan();
+
+    const review = createPlanReviewTool({ config: mockConfig, agentSessionKey: LEAD_SESSION });
+    const listed = (await review!.execute("call-review", {})).details as {
+      count: number;
+      plans: Array<{ id: string }>;
+    };
+    expect(listed.count).toBe(1);
+    expect(listed.plans[0]?.id).toBe(submitted.planId);
+
+    const single = (await review!.execute("call-review", { plan_id: submitted.planId }))
+      .details as { plan: { status: string } };
+    expect(single.plan.status).toBe("pending");
+  });
+
+  it("approves a plan, lifts the gate and emits plan.approved", async () => {
+    await startWorkerTask();
+    const submitted = await submitWorkerPlan();
+    const events: Array<Record<string, unknown>> = [];
+    subscribe(EVENT_TYPES.PLAN_APPROVED, (event) => events.push(event.data));
+
+    const approve = createPlanApproveTool({ config: mockConfig, agentSessionKey: LEAD_SESSION });
+    const result = (await approve!.execute("call-approve", { plan_id: submitted.planId }))
+      .details as Record<string, unknown>;
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe("approved");
+    expect(isToolGated(WORKER_SESSION, "exec")).toBe(false);
+    expect(events[0]).toMatchObject({ planId: submitted.planId, submittedBy: "worker" });
+  });
+
+  it("refuses self-approval", async () => {
+    await startWorkerTask();
+    const submitted = await submitWorkerPlan();
+
+    const approve = createPlanApproveTool({ config: mockConfig, agentSessionKey: WORKER_SESSION });
+    const result = (await approve!.execute("call-approve", { plan_id: submitted.planId }))
+      .details as Record<string, unknown>;
+
+    expect(result.success).toBe(false);
+    expect(isToolGated(WORKER_SESSION, "exec")).toBe(true);
+  });
+
+  it("refuses decisions from agents that are not the team lead", async () => {
+    await startWorkerTask();
+    const submitted = await submitWorkerPlan();
+    const otherLead = { agents: { defaults: { workspace: "/workspace" } } } as never;
+
+    const approve = createPlanApproveTool({ config: otherLead, agentSessionKey: LEAD_SESSION });
+    const result = (await approve!.execute("call-approve", { plan_id: submitted.planId }))
+      .details as Record<string, unknown>;
+    const reject = createPlanRejectTool({ config: otherLead, agentSessionKey: LEAD_SESSION });
+    const rejected = (await reject!.execute("call-reject", { plan_id: submitted.planId }))
+      .details as Record<string, unknown>;
+
+    expect(result).toMatchObject({ success: false });
+    expect(result.error).toContain("Only the team lead");
+    expect(rejected).toMatchObject({ success: false });
+    expect(isToolGated(WORKER_SESSION, "exec")).toBe(true);
+  });
+
+  it("rejects a plan, keeps the gate and emits plan.rejected", async () => {
+    await startWorkerTask();
+    const submitted = await submitWorkerPlan();
+    const events: Array<Record<string, unknown>> = [];
+    subscribe(EVENT_TYPES.PLAN_REJECTED, (event) => events.push(event.data));
+
+    const reject = createPlanRejectTool({ config: mockConfig, agentSessionKey: LEAD_SESSION });
+    const result = (
+      await reject!.execute("call-reject", { plan_id: submitted.planId, reason: "too risky" })
+    ).details as Record<string, unknown>;
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe("rejected");
+    expect(isToolGated(WORKER_SESSION, "exec")).toBe(true);
+    expect(events[0]).toMatchObject({ planId: submitted.planId, reason: "too risky" });
+
+    const approve = createPlanApproveTool({ config: mockConfig, agentSessionKey: LEAD_SESSION });
+    const again = (await approve!.execute("call-approve", { plan_id: submitted.planId }))
+      .details as Record<string, unknown>;
+    expect(again.success).toBe(false);
+    expect(again.error).toContain("not pending");
+  });
+});
@@ -0,0 +1,380 @@
+import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
+import { emit } from "../../infra/events/bus.js";
+import { EVENT_TYPES } from "../../infra/events/schemas.js";
+import {
+  type Plan,
+  approvePlan,
+  getPlan,
+  listPendingPlans,
+  rejectPlan,
+  submitPlan,
+} from "../../infra/plan-approval.js";
+import { resolveTeamConfig } from "../../infra/team-state-tracker.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import {
+  resolveAgentWorkspaceDir,
+  resolveDefaultAgentId,
+  resolveSessionAgentId,
+  listAgentIds,
+} from "../agent-scope.js";
+import { approveSessionTools, gateSessionTools, listGatedTools } from "../session-tool-gate.js";
+import { expandToolGroups } from "../tool-policy.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult, readStringArrayParam, readStringParam } from "./common.js";
+import { findActiveTask, readTask } from "./task-file-io.js";
+
+const PlanSubmitSchema = Type.Object({
+  title: Type.String(),
+  steps: Type.Array(Type.String()),
+  task_id: Type.Optional(Type.String()),
+  tools_requested: Type.Optional(Type.Array(Type.String())),
+});
+
+const PlanReviewSchema = Type.Object({
+  plan_id: Type.Optional(Type.String()),
+  agent_id: Type.Optional(Type.String()),
+});
+
+const PlanApproveSchema = Type.Object({
+  plan_id: Type.String(),
+});
+
+const PlanRejectSchema = Type.Object({
+  plan_id: Type.String(),
+  reason: Type.Optional(Type.String()),
+});
+
+/** Plans live in the submitting agent's workspace; search every agent to find one by id. */
+async function findPlan(
+  cfg: OpenClawConfig,
+  planId: string,
+): Promise<{ plan: Plan; workspaceDir: string } | null> {
+  if (!planId || /[/\\]/.test(planId)) {
+    return null;
+  }
+  for (const agentId of listAgentIds(cfg)) {
+    const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+    const plan = await getPlan(workspaceDir, planId);
+    if (plan) {
+      return { plan, workspaceDir };
+    }
+  }
+  return null;
+}
+
+/**
+ * Plans are decided by the configured team lead(s); without one, by the
+ * default agent. Other agents can review but not decide.
+ */
+function canDecidePlans(cfg: OpenClawConfig, agentId: string): boolean {
+  const leads = Object.entries(resolveTeamConfig(cfg).roles)
+    .filter(([, role]) => role === "lead")
+    .map(([id]) => normalizeAgentId(id));
+  if (leads.length > 0) {
+    return leads.includes(normalizeAgentId(agentId));
+  }
+  return normalizeAgentId(agentId) === normalizeAgentId(resolveDefaultAgentId(cfg));
+}
+
+export function createPlanSubmitTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  const agentId = resolveSessionAgentId({
+    sessionKey: options.agentSessionKey,
+    config: cfg,
+  });
+  const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+
+  return {
+    label: "Plan Submit",
+    name: "plan_submit",
+    description:
+      "Submit an execution plan for lead approval before doing risky work. Tools listed in tools_requested stay blocked for this session until the plan is approved. If task_id is omitted, the plan is linked to the current active task.",
+    parameters: PlanSubmitSchema,
+    execute: async (_toolCallId, params) => {
+      const title = readStringParam(params, "title", { required: true });
+      const steps = readStringArrayParam(params, "steps", { required: true });
+      const taskIdParam = readStringParam(params, "task_id");
+      const rawTools = readStringArrayParam(params, "tools_requested");
+      const toolsRequested = rawTools ? expandToolGroups(rawTools) : [];
+
+      let taskId: string;
+      if (taskIdParam) {
+        const task = await readTask(workspaceDir, taskIdParam);
+        if (!task) {
+          return jsonResult({
+            success: false,
+            error: `Task not found: ${taskIdParam}`,
+          });
+        }
+        taskId = task.id;
+      } else {
+        const activeTask = await findActiveTask(workspaceDir);
+        if (!activeTask) {
+          return jsonResult({
+            success: false,
+            error: "No active task to attach the plan to. Use task_start first or specify task_id.",
+          });
+        }
+        taskId = activeTask.id;
+      }
+
+      const plan = await submitPlan(workspaceDir, {
+        agentId,
+        taskId,
+        title,
+        steps,
+        toolsRequested: toolsRequested.length > 0 ? toolsRequested : undefined,
+        sessionKey: options.agentSessionKey,
+      });
+
+      if (options.agentSessionKey && toolsRequested.length > 0) {
+        gateSessionTools(options.agentSessionKey, toolsRequested);
+      }
+
+      emit({
+        type: EVENT_TYPES.PLAN_SUBMITTED,
+        agentId,
+        ts: Date.now(),
+        data: {
+          planId: plan.id,
+          taskId,
+          title,
+          stepsCount: steps.length,
+          toolsRequested,
+        },
+      });
+
+      return jsonResult({
+        success: true,
+        planId: plan.id,
+        taskId,
+        status: plan.status,
+        gatedTools: options.agentSessionKey ? listGatedTools(options.agentSessionKey) : [],
+        message:
+          toolsRequested.length > 0
+            ? `Plan submitted. ${toolsRequested.join(", ")} will be unlocked once the plan is approved.`
+            : "Plan submitted. Wait for approval before proceeding.",
+      });
+    },
+  };
+}
+
+export function createPlanReviewTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  return {
+    label: "Plan Review",
+    name: "plan_review",
+    description:
+      "Review submitted plans. With plan_id, returns that plan and its current status (use this to check whether your own plan was approved). Otherwise lists pending plans across all agents, optionally filtered by agent_id.",
+    parameters: PlanReviewSchema,
+    execute: async (_toolCallId, params) => {
+      const planId = readStringParam(params, "plan_id");
+      const agentIdFilter = readStringParam(params, "agent_id");
+
+      if (planId) {
+        const found = await findPlan(cfg, planId);
+        if (!found) {
+          return jsonResult({
+            success: false,
+            error: `Plan not found: ${planId}`,
+          });
+        }
+        return jsonResult({ success: true, plan: found.plan });
+      }
+
+      const validAgentIds = listAgentIds(cfg);
+      if (agentIdFilter && !validAgentIds.includes(agentIdFilter)) {
+        return jsonResult({
+          success: false,
+          error: `Invalid agent ID: ${agentIdFilter}. Valid agents: ${validAgentIds.join(", ")}`,
+        });
+      }
+
+      const agentIds = agentIdFilter ? [agentIdFilter] : validAgentIds;
+      const plans: Plan[] = [];
+      for (const id of agentIds) {
+        plans.push(...(await listPendingPlans(resolveAgentWorkspaceDir(cfg, id))));
+      }
+      plans.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+
+      return jsonResult({
+        success: true,
+        count: plans.length,
+        plans,
+      });
+    },
+  };
+}
+
+export function createPlanApproveTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  const agentId = resolveSessionAgentId({
+    sessionKey: options.agentSessionKey,
+    config: cfg,
+  });
+
+  return {
+    label: "Plan Approve",
+    name: "plan_approve",
+    description:
+      "Approve a pending plan submitted by another agent (team lead only). Unlocks the tools the plan requested for the submitting agent's session.",
+    parameters: PlanApproveSchema,
+    execute: async (_toolCallId, params) => {
+      const planId = readStringParam(params, "plan_id", { required: true });
+
+      const found = await findPlan(cfg, planId);
+      if (!found) {
+        return jsonResult({
+          success: false,
+          error: `Plan not found: ${planId}`,
+        });
+      }
+      if (found.plan.agentId === agentId) {
+        return jsonResult({
+          success: false,
+          error: "Agent cannot approve its own plan.",
+        });
+      }
+      if (!canDecidePlans(cfg, agentId)) {
+        return jsonResult({
+          success: false,
+          error: `Only the team lead can approve plans; ${agentId} is not a lead.`,
+        });
+      }
+
+      const plan = await approvePlan(found.workspaceDir, planId, agentId);
+      if (!plan) {
+        return jsonResult({
+          success: false,
+          error: `Plan ${planId} is not pending. Current status: ${found.plan.status}`,
+        });
+      }
+
+      const toolsApproved = plan.toolsRequested ?? [];
+      if (plan.sessionKey && toolsApproved.length > 0) {
+        approveSessionTools(plan.sessionKey, toolsApproved);
+      }
+
+      emit({
+        type: EVENT_TYPES.PLAN_APPROVED,
+        agentId,
+        ts: Date.now(),
+        data: {
+          planId: plan.id,
+          taskId: plan.taskId,
+          submittedBy: plan.agentId,
+          toolsApproved,
+        },
+      });
+
+      return jsonResult({
+        success: true,
+        planId: plan.id,
+        taskId: plan.taskId,
+        status: plan.status,
+        submittedBy: plan.agentId,
+        toolsApproved,
+        decidedAt: plan.decidedAt,
+      });
+    },
+  };
+}
+
+export function createPlanRejectTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  const agentId = resolveSessionAgentId({
+    sessionKey: options.agentSessionKey,
+    config: cfg,
+  });
+
+  return {
+    label: "Plan Reject",
+    name: "plan_reject",
+    description:
+      "Reject a pending plan submitted by another agent (team lead only). The tools the plan requested stay blocked for the submitting agent's session.",
+    parameters: PlanRejectSchema,
+    execute: async (_toolCallId, params) => {
+      const planId = readStringParam(params, "plan_id", { required: true });
+      const reason = readStringParam(params, "reason");
+
+      const found = await findPlan(cfg, planId);
+      if (!found) {
+        return jsonResult({
+          success: false,
+          error: `Plan not found: ${planId}`,
+        });
+      }
+      if (found.plan.agentId === agentId) {
+        return jsonResult({
+          success: false,
+          error: "Agent cannot reject its own plan.",
+        });
+      }
+      if (!canDecidePlans(cfg, agentId)) {
+        return jsonResult({
+          success: false,
+          error: `Only the team lead can reject plans; ${agentId} is not a lead.`,
+        });
+      }
+
+      const plan = await rejectPlan(found.workspaceDir, planId, reason, agentId);
+      if (!plan) {
+        return jsonResult({
+          success: false,
+          error: `Plan ${planId} is not pending. Current status: ${found.plan.status}`,
+        });
+      }
+
+      emit({
+        type: EVENT_TYPES.PLAN_REJECTED,
+        agentId,
+        ts: Date.now(),
+        data: {
+          planId: plan.id,
+          taskId: plan.taskId,
+          submittedBy: plan.agentId,
+          reason,
+        },
+      });
+
+      return jsonResult({
+        success: true,
+        planId: plan.id,
+        taskId: plan.taskId,
+        status: plan.status,
+        submittedBy: plan.agentId,
+        rejectReason: reason || null,
+        decidedAt: plan.decidedAt,
+      });
+    },
+  };
+}
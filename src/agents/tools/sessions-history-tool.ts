@@ -4,6 +4,7 @@ import { callGateway } from "../../gateway/call.js";
 import { capArrayByJsonBytes } from "../../gateway/session-utils.fs.js";
 import { redactSensitiveText } from "../../logging/redact.js";
 import { truncateUtf16Safe } from "../../utils.js";
+import { readObservedMessages } from "../observer-context.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
 import {
@@ -20,11 +21,28 @@ const SessionsHistoryToolSchema = Type.Object({
   sessionKey: Type.String(),
   limit: Type.Optional(Type.Number({ minimum: 1 })),
   includeTools: Type.Optional(Type.Boolean()),
+  includeObserved: Type.Optional(Type.Boolean()),
 });
 
 const SESSIONS_HISTORY_MAX_BYTES = 80 * 1024;
 const SESSIONS_HISTORY_TEXT_MAX_CHARS = 4000;
 
+async function loadObservedMessages(sessionKey: string, limit: number | undefined) {
+  const observed = await readObservedMessages({ sessionKey, limit: limit ?? 50 });
+  const sanitized = observed.map((message) => {
+    const res = truncateHistoryText(message.body);
+    return { message: { ...message, body: res.text }, truncated: res.truncated };
+  });
+  const capped = capArrayByJsonBytes(
+    sanitized.map((entry) => entry.message),
+    SESSIONS_HISTORY_MAX_BYTES,
+  );
+  return {
+    items: capped.items,
+    truncated: capped.items.length < observed.length || sanitized.some((entry) => entry.truncated),
+  };
+}
+
 // sandbox policy handling is shared with sessions-list-tool via sessions-helpers.ts
 
 function truncateHistoryText(text: string): {
@@ -180,7 +198,8 @@ export function createSessionsHistoryTool(opts?: {
   return {
     label: "Session History",
     name: "sessions_history",
-    description: "Fetch message history for a session.",
+    description:
+      "Fetch message history for a session. includeObserved adds the raw thread messages the agent only observed (observer summarize mode).",
     parameters: SessionsHistoryToolSchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
@@ -265,6 +284,9 @@ export function createSessionsHistoryTool(opts?: {
         bytes: cappedMessages.bytes,
         maxBytes: SESSIONS_HISTORY_MAX_BYTES,
       });
+      const observed = params.includeObserved
+        ? await loadObservedMessages(resolvedKey, limit)
+        : undefined;
       return jsonResult({
         sessionKey: displayKey,
         messages: hardened.items,
@@ -273,6 +295,7 @@ export function createSessionsHistoryTool(opts?: {
         contentTruncated,
         contentRedacted,
         bytes: hardened.bytes,
+        ...(observed ? { observed: observed.items, observedTruncated: observed.truncated } : {}),
       });
     },
   };
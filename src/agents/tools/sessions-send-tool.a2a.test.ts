@@ -64,6 +64,7 @@ vi.mock("./sessions-announce-target.js", () => ({
 
 vi.mock("./sessions-send-helpers.js", () => ({
   buildAgentToAgentAnnounceContext: vi.fn().mockReturnValue("announce-prompt"),
+  buildAgentToAgentMessageContext: vi.fn().mockReturnValue("message-prompt"),
   buildAgentToAgentReplyContext: vi.fn().mockReturnValue("reply-prompt"),
   isAnnounceSkip: vi.fn().mockReturnValue(false),
   isReplySkip: vi.fn().mockReturnValue(false),
@@ -202,6 +203,73 @@ describe("M1 - skipPingPong in A2A flow", () => {
     expect(mockRunAgentStep.mock.calls.length).toBe(4);
   });
 
+  it("resumes a restarted job after its last turn and stops once aborted", async () => {
+    mockReadLatestAssistantReply.mockResolvedValue("requester reply from turn 1");
+    mockRunAgentStep.mockResolvedValue("target reply");
+    const abort = new AbortController();
+    const onTurnComplete = vi.fn(async () => abort.abort());
+
+    await runSessionsSendA2AFlow(
+      baseParams({
+        roundOneReply: undefined,
+        restarted: true,
+        startTurn: 1,
+        message: "같이 이 코드 검토해줄래? 피드백 부탁해",
+        signal: abort.signal,
+        onTurnComplete,
+      }),
+    );
+
+    expect(mockReadLatestAssistantReply).toHaveBeenCalledWith({
+      sessionKey: "agent:requester:main",
+    });
+    // Turn 2 belongs to the target; the abort skips turn 3 and the announce step.
+    expect(mockRunAgentStep).toHaveBeenCalledTimes(1);
+    expect(mockRunAgentStep.mock.calls[0][0]).toMatchObject({
+      sessionKey: "agent:target:main",
+      message: "requester reply from turn 1",
+    });
+    expect(onTurnComplete).toHaveBeenCalledWith(2);
+  });
+
+  it("resumes with the persisted intent and emits no second A2A_SEND", async () => {
+    mockReadLatestAssistantReply.mockResolvedValue("requester reply from turn 1");
+    mockRunAgentStep.mockResolvedValue({ reply: "announce result", ok: true });
+    const onIntentResolved = vi.fn(async () => {});
+
+    await runSessionsSendA2AFlow(
+      baseParams({
+        roundOneReply: undefined,
+        restarted: true,
+        startTurn: 1,
+        // Would classify as collaboration (3 turns) if classified again.
+        message: "같이 이 코드 검토해줄래? 피드백 부탁해",
+        resolvedIntent: { intent: "question", maxPingPongTurns: 1 },
+        onIntentResolved,
+      }),
+    );
+
+    const types = mockEmit.mock.calls.map((c: unknown[]) => eventFromCall(c).type);
+    expect(types).not.toContain("a2a.send");
+    expect(onIntentResolved).not.toHaveBeenCalled();
+    // The single-turn budget is already used up: only the announce step runs.
+    expect(mockRunAgentStep).toHaveBeenCalledTimes(1);
+    expect(mockRunAgentStep.mock.calls[0][0].message).toBe("Agent-to-agent announce step.");
+  });
+
+  it("persists the intent of a fresh flow and classifies a restart without announcing it", async () => {
+    const onIntentResolved = vi.fn(async () => {});
+    await runSessionsSendA2AFlow(baseParams({ skipPingPong: true, onIntentResolved }));
+    expect(onIntentResolved).toHaveBeenCalledWith(expect.objectContaining({ maxPingPongTurns: 0 }));
+
+    mockEmit.mockClear();
+    await runSessionsSendA2AFlow(
+      baseParams({ skipPingPong: true, roundOneReply: undefined, restarted: true }),
+    );
+    const types = mockEmit.mock.calls.map((c: unknown[]) => eventFromCall(c).type);
+    expect(types).not.toContain("a2a.send");
+  });
+
   it("uses per-turn timeout for ping-pong and keeps announce timeout", async () => {
     mockRunAgentStep
       .mockResolvedValueOnce({ reply: "reply-turn-1", ok: true })
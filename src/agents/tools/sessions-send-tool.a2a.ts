@@ -1,13 +1,20 @@
 import crypto from "node:crypto";
+import { loadConfig } from "../../config/config.js";
 import { callGateway } from "../../gateway/call.js";
 import { formatErrorMessage } from "../../infra/errors.js";
+import { emit } from "../../infra/events/bus.js";
+import { EVENT_TYPES } from "../../infra/events/schemas.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
 import type { GatewayMessageChannel } from "../../utils/message-channel.js";
 import { AGENT_LANE_NESTED } from "../lanes.js";
+import { type A2AMessageIntent, resolveEffectivePingPongTurns } from "./a2a-intent-classifier.js";
+import { classifyA2AIntent } from "./a2a-intent-model.js";
 import { readLatestAssistantReply, runAgentStep } from "./agent-step.js";
 import { resolveAnnounceTarget } from "./sessions-announce-target.js";
 import {
   buildAgentToAgentAnnounceContext,
+  buildAgentToAgentMessageContext,
   buildAgentToAgentReplyContext,
   isAnnounceSkip,
   isReplySkip,
@@ -33,6 +40,14 @@ export async function runSessionsSendA2AFlow(params: {
   hop?: number;
   skipPingPong?: boolean;
   startTurn?: number;
+  /** Job restarted from its persisted record (resume or retry); there is no round-one run. */
+  restarted?: boolean;
+  /** Intent and turn budget chosen when the job first ran; skips classification. */
+  resolvedIntent?: { intent: A2AMessageIntent; maxPingPongTurns: number };
+  onIntentResolved?: (resolved: {
+    intent: A2AMessageIntent;
+    maxPingPongTurns: number;
+  }) => Promise<void>;
   payloadType?: string;
   payloadJson?: string;
   topicId?: string;
@@ -41,9 +56,79 @@ export async function runSessionsSendA2AFlow(params: {
 }) {
   const runContextId = params.waitRunId ?? "unknown";
   try {
+    const conversationId = params.conversationId ?? crypto.randomUUID();
+    const fromAgent = resolveAgentIdFromSessionKey(params.requesterSessionKey);
+    const toAgent = resolveAgentIdFromSessionKey(params.targetSessionKey);
+    let maxPingPongTurns: number;
+    if (params.resolvedIntent) {
+      maxPingPongTurns = params.resolvedIntent.maxPingPongTurns;
+    } else {
+      const intent = await classifyA2AIntent({
+        message: params.message,
+        cfg: loadConfig(),
+        conversationId,
+      });
+      maxPingPongTurns = resolveEffectivePingPongTurns({
+        configMaxTurns: params.maxPingPongTurns,
+        classifiedIntent: intent.chosen,
+        explicitSkipPingPong: params.skipPingPong === true,
+      });
+      await params.onIntentResolved?.({ intent: intent.chosen.intent, maxPingPongTurns });
+      // A restarted job already announced its message when it first ran.
+      if (!params.restarted) {
+        emit({
+          type: EVENT_TYPES.A2A_SEND,
+          agentId: fromAgent,
+          ts: Date.now(),
+          data: {
+            fromAgent,
+            toAgent,
+            message: params.message,
+            conversationId,
+            taskId: params.taskId,
+            workSessionId: params.workSessionId,
+            // Both classifications are recorded so regex/model agreement can be measured.
+            intent: intent.chosen.intent,
+            intentSource: intent.source,
+            intentRegex: intent.regex,
+            intentModel: intent.model,
+            intentAgreed: intent.model ? intent.model.intent === intent.regex.intent : undefined,
+            intentFallbackReason: intent.fallbackReason,
+            maxPingPongTurns,
+          },
+        });
+      }
+    }
+
+    const startTurn = Math.max(0, params.startTurn ?? 0);
     let primaryReply = params.roundOneReply;
     let latestReply = params.roundOneReply;
-    if (!primaryReply && params.waitRunId) {
+    if (!primaryReply && params.restarted) {
+      // Nothing to wait on: send the message again, or pick up the last reply
+      // of the turn the job stopped after.
+      if (startTurn === 0) {
+        primaryReply = await runAgentStep({
+          sessionKey: params.targetSessionKey,
+          message: params.message,
+          extraSystemPrompt: buildAgentToAgentMessageContext({
+            requesterSessionKey: params.requesterSessionKey,
+            requesterChannel: params.requesterChannel,
+            targetSessionKey: params.displayKey,
+          }),
+          timeoutMs: params.announceTimeoutMs,
+          lane: AGENT_LANE_NESTED,
+          sourceSessionKey: params.requesterSessionKey,
+          sourceChannel: params.requesterChannel,
+          sourceTool: "sessions_send",
+        });
+        latestReply = primaryReply;
+      } else if (params.requesterSessionKey) {
+        // Odd turns are the requester's.
+        latestReply = await readLatestAssistantReply({
+          sessionKey: startTurn % 2 === 1 ? params.requesterSessionKey : params.targetSessionKey,
+        });
+      }
+    } else if (!primaryReply && params.waitRunId) {
       const waitMs = Math.min(params.announceTimeoutMs, 60_000);
       const wait = await callGateway<{ status: string }>({
         method: "agent.wait",
@@ -71,14 +156,23 @@ export async function runSessionsSendA2AFlow(params: {
     const targetChannel = announceTarget?.channel ?? "unknown";
 
     if (
-      params.maxPingPongTurns > 0 &&
+      maxPingPongTurns > 0 &&
       params.requesterSessionKey &&
       params.requesterSessionKey !== params.targetSessionKey
     ) {
-      let currentSessionKey = params.requesterSessionKey;
-      let nextSessionKey = params.targetSessionKey;
+      const requesterSpeaksFirst = startTurn % 2 === 0;
+      let currentSessionKey = requesterSpeaksFirst
+        ? params.requesterSessionKey
+        : params.targetSessionKey;
+      let nextSessionKey = requesterSpeaksFirst
+        ? params.targetSessionKey
+        : params.requesterSessionKey;
       let incomingMessage = latestReply;
-      for (let turn = 1; turn <= params.maxPingPongTurns; turn += 1) {
+      for (let turn = startTurn + 1; turn <= maxPingPongTurns; turn += 1) {
+        if (params.signal?.aborted) {
+          log.info("sessions_send A2A flow cancelled", { runId: runContextId, turn });
+          return;
+        }
         const currentRole =
           currentSessionKey === params.requesterSessionKey ? "requester" : "target";
         const replyPrompt = buildAgentToAgentReplyContext({
@@ -88,7 +182,7 @@ export async function runSessionsSendA2AFlow(params: {
           targetChannel,
           currentRole,
           turn,
-          maxTurns: params.maxPingPongTurns,
+          maxTurns: maxPingPongTurns,
         });
         const replyText = await runAgentStep({
           sessionKey: currentSessionKey,
@@ -109,8 +203,13 @@ export async function runSessionsSendA2AFlow(params: {
         const swap = currentSessionKey;
         currentSessionKey = nextSessionKey;
         nextSessionKey = swap;
+        await params.onTurnComplete?.(turn);
       }
     }
+    if (params.signal?.aborted) {
+      log.info("sessions_send A2A flow cancelled before announce", { runId: runContextId });
+      return;
+    }
 
     const announcePrompt = buildAgentToAgentAnnounceContext({
       requesterSessionKey: params.requesterSessionKey,
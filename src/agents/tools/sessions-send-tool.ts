@@ -9,6 +9,20 @@ import {
   INTERNAL_MESSAGE_CHANNEL,
 } from "../../utils/message-channel.js";
 import { AGENT_LANE_NESTED } from "../lanes.js";
+import {
+  acceptA2AHandoff,
+  recordOutgoingHandoff,
+  resolvePayloadRef,
+  revertA2AHandoff,
+  type A2AHandoffAcceptance,
+} from "./a2a-handoff.js";
+import {
+  buildPayloadSummary,
+  buildPayloadTitle,
+  coerceA2APayload,
+  formatA2APayloadBlock,
+} from "./a2a-payload-parser.js";
+import type { A2APayload } from "./a2a-payload-types.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
 import {
@@ -30,6 +44,16 @@ const SessionsSendToolSchema = Type.Object({
   agentId: Type.Optional(Type.String({ minLength: 1, maxLength: 64 })),
   message: Type.String(),
   timeoutSeconds: Type.Optional(Type.Number({ minimum: 0 })),
+  payload: Type.Optional(
+    Type.Object(
+      {},
+      {
+        additionalProperties: true,
+        description:
+          "Optional structured handoff: task_delegation {taskId, taskTitle, taskDescription, ...}, status_report {taskId, status, ...}, question {questionId, question, ...} or answer {questionId, answer, ...}. A task_delegation is added to the target agent's backlog once per taskId.",
+      },
+    ),
+  ),
 });
 
 export function createSessionsSendTool(opts?: {
@@ -46,6 +70,20 @@ export function createSessionsSendTool(opts?: {
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const message = readStringParam(params, "message", { required: true });
+      let payload: A2APayload | undefined;
+      if (params.payload !== undefined) {
+        const coerced = coerceA2APayload(params.payload);
+        if (!coerced.payload || coerced.payload.type === "receipt") {
+          return jsonResult({
+            runId: crypto.randomUUID(),
+            status: "error",
+            error: coerced.payload
+              ? "receipt payloads are sent automatically by the receiver"
+              : `Invalid payload: ${coerced.errors.join("; ")}`,
+          });
+        }
+        payload = coerced.payload;
+      }
       const cfg = loadConfig();
       const { mainKey, alias, effectiveRequesterKey, restrictToSpawned } =
         resolveSandboxedSessionToolContext({
@@ -214,13 +252,69 @@ export function createSessionsSendTool(opts?: {
         });
       }
 
+      const requesterAgentId = resolveAgentIdFromSessionKey(effectiveRequesterKey);
+      const targetAgentId = resolveAgentIdFromSessionKey(resolvedKey);
+      let messageWithPayload = message;
+      let handoff:
+        | { type: A2APayload["type"]; ref?: string; status?: string; localTaskId?: string }
+        | undefined;
+      let acceptance: A2AHandoffAcceptance | undefined;
+      if (payload) {
+        // In-process delivery: accept on the target's behalf so the message can
+        // carry the outcome; the receipt is applied once the message is delivered.
+        await recordOutgoingHandoff({
+          payload,
+          fromAgent: requesterAgentId,
+          toAgent: targetAgentId,
+        });
+        acceptance = await acceptA2AHandoff({
+          cfg,
+          agentId: targetAgentId,
+          fromAgent: requesterAgentId,
+          payload,
+        });
+        handoff = {
+          type: payload.type,
+          ref: resolvePayloadRef(payload),
+          status: acceptance.receipt?.status,
+          localTaskId: acceptance.localTaskId,
+        };
+        messageWithPayload = [
+          message,
+          `[${buildPayloadTitle(payload)}]\n${buildPayloadSummary(payload)}\n${acceptance.note}`,
+          formatA2APayloadBlock(payload),
+        ].join("\n\n");
+      }
+
+      const settleHandoff = async (delivered: boolean) => {
+        if (!payload || !acceptance) {
+          return;
+        }
+        if (!delivered) {
+          await revertA2AHandoff({
+            cfg,
+            agentId: targetAgentId,
+            fromAgent: requesterAgentId,
+            payload,
+            acceptance,
+          });
+        } else if (acceptance.receipt) {
+          await acceptA2AHandoff({
+            cfg,
+            agentId: requesterAgentId,
+            fromAgent: targetAgentId,
+            payload: acceptance.receipt,
+          });
+        }
+      };
+
       const agentMessageContext = buildAgentToAgentMessageContext({
         requesterSessionKey: opts?.agentSessionKey,
         requesterChannel: opts?.agentChannel,
         targetSessionKey: displayKey,
       });
       const sendParams = {
-        message,
+        message: messageWithPayload,
         sessionKey: resolvedKey,
         idempotencyKey,
         deliver: false,
@@ -249,6 +343,8 @@ export function createSessionsSendTool(opts?: {
           requesterChannel,
           roundOneReply,
           waitRunId,
+          payloadType: payload?.type,
+          payloadJson: payload ? JSON.stringify(payload) : undefined,
         });
       };
 
@@ -262,14 +358,8 @@ export function createSessionsSendTool(opts?: {
           if (typeof response?.runId === "string" && response.runId) {
             runId = response.runId;
           }
-          startA2AFlow(undefined, runId);
-          return jsonResult({
-            runId,
-            status: "accepted",
-            sessionKey: displayKey,
-            delivery,
-          });
         } catch (err) {
+          await settleHandoff(false);
           const messageText =
             err instanceof Error ? err.message : typeof err === "string" ? err : "error";
           return jsonResult({
@@ -279,6 +369,15 @@ export function createSessionsSendTool(opts?: {
             sessionKey: displayKey,
           });
         }
+        await settleHandoff(true);
+        startA2AFlow(undefined, runId);
+        return jsonResult({
+          runId,
+          status: "accepted",
+          sessionKey: displayKey,
+          delivery,
+          ...(handoff ? { handoff } : {}),
+        });
       }
 
       try {
@@ -291,6 +390,7 @@ export function createSessionsSendTool(opts?: {
           runId = response.runId;
         }
       } catch (err) {
+        await settleHandoff(false);
         const messageText =
           err instanceof Error ? err.message : typeof err === "string" ? err : "error";
         return jsonResult({
@@ -301,6 +401,8 @@ export function createSessionsSendTool(opts?: {
         });
       }
 
+      await settleHandoff(true);
+
       let waitStatus: string | undefined;
       let waitError: string | undefined;
       try {
@@ -357,6 +459,7 @@ export function createSessionsSendTool(opts?: {
         reply,
         sessionKey: displayKey,
         delivery,
+        ...(handoff ? { handoff } : {}),
       });
     },
   };
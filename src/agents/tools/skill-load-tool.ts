@@ -0,0 +1,131 @@
+/**
+ * skill_load tool — Read skills that grouping kept out of the prompt.
+ *
+ * With `agents.*.skillGroups` set, skills of inactive groups are only named
+ * in the system prompt. This tool lists the groups or returns the SKILL.md
+ * contents of one group or one skill, and records the load for
+ * `openclaw skills usage`.
+ */
+
+import fs from "node:fs/promises";
+import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { truncateUtf16Safe } from "../../utils.js";
+import {
+  resolveAgentSkillsFilter,
+  resolveAgentWorkspaceDir,
+  resolveSessionAgentId,
+} from "../agent-scope.js";
+import { filterWorkspaceSkillEntries, loadWorkspaceSkillEntries } from "../skills.js";
+import type { SkillEntry } from "../skills/types.js";
+import { recordSkillUsage } from "../skills/usage.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult, readStringParam } from "./common.js";
+
+const SKILL_LOAD_MAX_CHARS_PER_SKILL = 20_000;
+const SKILL_LOAD_MAX_SKILLS = 10;
+
+const log = createSubsystemLogger("skills");
+
+const SkillLoadSchema = Type.Object({
+  group: Type.Optional(
+    Type.String({ description: "Load every skill in this group (from the skills note)." }),
+  ),
+  skill: Type.Optional(Type.String({ description: "Load a single skill by name." })),
+});
+
+function loadAgentSkillEntries(cfg: OpenClawConfig, agentId: string): SkillEntry[] {
+  const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+  const allowlist = resolveAgentSkillsFilter(cfg, agentId);
+  return filterWorkspaceSkillEntries(loadWorkspaceSkillEntries(workspaceDir, { config: cfg }), cfg)
+    .filter((entry) => entry.invocation?.disableModelInvocation !== true)
+    .filter((entry) => allowlist === undefined || allowlist.includes(entry.skill.name));
+}
+
+function summarizeGroups(entries: SkillEntry[]) {
+  const groups = new Map<string, string[]>();
+  for (const entry of entries) {
+    for (const group of entry.groups ?? []) {
+      groups.set(group, [...(groups.get(group) ?? []), entry.skill.name]);
+    }
+  }
+  return [...groups.entries()]
+    .toSorted(([a], [b]) => a.localeCompare(b))
+    .map(([group, skills]) => ({ group, skills }));
+}
+
+export function createSkillLoadTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  const agentId = resolveSessionAgentId({
+    sessionKey: options.agentSessionKey,
+    config: cfg,
+  });
+
+  return {
+    label: "Skill Load",
+    name: "skill_load",
+    description:
+      "Load skills on demand. Pass `group` to read every skill in a group or `skill` to read one skill; with no arguments, lists the available groups and their skills. Returns each SKILL.md with its base directory.",
+    parameters: SkillLoadSchema,
+    execute: async (_toolCallId, params) => {
+      const group = readStringParam(params, "group")?.toLowerCase();
+      const skillName = readStringParam(params, "skill");
+      const entries = loadAgentSkillEntries(cfg, agentId);
+
+      if (!group && !skillName) {
+        return jsonResult({ success: true, groups: summarizeGroups(entries) });
+      }
+
+      const selected = skillName
+        ? entries.filter((entry) => entry.skill.name === skillName)
+        : entries.filter((entry) => entry.groups?.includes(group ?? ""));
+      if (selected.length === 0) {
+        return jsonResult({
+          success: false,
+          error: skillName ? `Unknown skill: ${skillName}` : `Unknown skill group: ${group}`,
+          groups: summarizeGroups(entries).map((entry) => entry.group),
+        });
+      }
+
+      const skills = [];
+      for (const entry of selected.slice(0, SKILL_LOAD_MAX_SKILLS)) {
+        let content: string;
+        try {
+          content = await fs.readFile(entry.skill.filePath, "utf-8");
+        } catch (err) {
+          skills.push({ name: entry.skill.name, error: `Could not read skill: ${String(err)}` });
+          continue;
+        }
+        const truncated = content.length > SKILL_LOAD_MAX_CHARS_PER_SKILL;
+        skills.push({
+          name: entry.skill.name,
+          baseDir: entry.skill.baseDir,
+          groups: entry.groups,
+          content: truncated ? truncateUtf16Safe(content, SKILL_LOAD_MAX_CHARS_PER_SKILL) : content,
+          ...(truncated ? { truncated: true } : {}),
+        });
+        void recordSkillUsage({ agentId, skill: entry.skill.name, source: "skill_load" }).catch(
+          (err) => log.warn(`skill usage record failed for ${entry.skill.name}: ${String(err)}`),
+        );
+      }
+
+      return jsonResult({
+        success: true,
+        skills,
+        ...(selected.length > SKILL_LOAD_MAX_SKILLS
+          ? {
+              omitted: selected.slice(SKILL_LOAD_MAX_SKILLS).map((entry) => entry.skill.name),
+            }
+          : {}),
+      });
+    },
+  };
+}
@@ -1,16 +1,26 @@
 import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
-import type { AnyAgentTool } from "./common.js";
 import { emit } from "../../infra/events/bus.js";
 import { EVENT_TYPES } from "../../infra/events/schemas.js";
+import { autoAssignTask } from "../../infra/task-assignment.js";
+import { findDependencyCycle } from "../../infra/task-dependency-graph.js";
+import {
+  findUnknownDependencies,
+  loadTaskGraphInputs,
+  resolveTaskWorkspaceDirs,
+} from "../../infra/task-dependency-resolver.js";
 import { acquireTaskLock } from "../../infra/task-lock.js";
 import { disableAgentManagedMode, enableAgentManagedMode } from "../../infra/task-tracker.js";
+import { checkTaskTransition } from "../../plugins/coordination-hooks.js";
+import { invalidateActiveTaskCache } from "../../plugins/core-hooks/task-enforcer.js";
 import { resolveAgentWorkspaceDir, resolveSessionAgentId, listAgentIds } from "../agent-scope.js";
+import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
 import {
   type TaskFile,
   type TaskPriority,
   type EstimatedEffort,
+  type TaskAssignmentDecision,
   generateTaskId,
   generateWorkSessionId,
   readTask,
@@ -46,6 +56,8 @@ const TaskBacklogAddSchema = Type.Object({
   due_date: Type.Optional(Type.String()),
   depends_on: Type.Optional(Type.Array(Type.String())),
   assignee: Type.Optional(Type.String()),
+  required_skills: Type.Optional(Type.Array(Type.String())),
+  required_role: Type.Optional(Type.String()),
   milestone_id: Type.Optional(Type.String()),
   milestone_item_id: Type.Optional(Type.String()),
 });
@@ -57,6 +69,11 @@ const TaskPickBacklogSchema = Type.Object({
 export function createTaskApproveTool(options: {
   config?: OpenClawConfig;
   agentSessionKey?: string;
+  /**
+   * Operator who decided the approval (approval inbox, Discord buttons).
+   * Tasks whose template gates tools can only be approved this way.
+   */
+  approvedBy?: string;
 }): AnyAgentTool | null {
   const cfg = options.config;
   if (!cfg) {
@@ -93,12 +110,40 @@ export function createTaskApproveTool(options: {
         });
       }
 
+      const gatedTools = task.template?.gatedTools ?? [];
+      if (gatedTools.length > 0 && !options.approvedBy) {
+        return jsonResult({
+          success: false,
+          error: `Task ${taskId} gates ${gatedTools.join(", ")} behind approval; an approver has to approve it, not the agent working on it.`,
+        });
+      }
+
+      const transition = await checkTaskTransition(
+        {
+          taskId: task.id,
+          action: "approve",
+          from: task.status,
+          to: "in_progress",
+          description: task.description,
+        },
+        { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+      );
+      if (!transition.allowed) {
+        return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+      }
+
       const now = new Date().toISOString();
       task.status = "in_progress";
       task.lastActivity = now;
-      task.progress.push("Task approved and started");
+      task.progress.push(
+        options.approvedBy
+          ? `Task approved by ${options.approvedBy} and started`
+          : "Task approved and started",
+      );
 
       await writeTask(workspaceDir, task);
+      // Gated tools unlock now, not when the enforcer's cache expires.
+      invalidateActiveTaskCache(agentId);
       emit({
         type: EVENT_TYPES.TASK_APPROVED,
         agentId,
@@ -219,6 +264,21 @@ export function createTaskBlockTool(options: {
       }
 
       try {
+        const transition = await checkTaskTransition(
+          {
+            taskId: task.id,
+            action: "block",
+            from: task.status,
+            to: "blocked",
+            description: task.description,
+            reason,
+          },
+          { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+        );
+        if (!transition.allowed) {
+          return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+        }
+
         const now = new Date().toISOString();
         task.status = "blocked";
         task.lastActivity = now;
@@ -326,6 +386,20 @@ export function createTaskResumeTool(options: {
       }
 
       try {
+        const transition = await checkTaskTransition(
+          {
+            taskId: task.id,
+            action: "resume",
+            from: task.status,
+            to: "in_progress",
+            description: task.description,
+          },
+          { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+        );
+        if (!transition.allowed) {
+          return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+        }
+
         const now = new Date().toISOString();
         task.status = "in_progress";
         task.lastActivity = now;
@@ -381,7 +455,7 @@ export function createTaskBacklogAddTool(options: {
     label: "Task Backlog Add",
     name: "task_backlog_add",
     description:
-      "Add a task to the backlog. Backlog tasks are picked up automatically when no active task exists. Use assignee to add to another agent's backlog. Priority defaults to 'low' for cross-agent requests.",
+      "Add a task to the backlog. Backlog tasks are picked up automatically when no active task exists. Use assignee to add to another agent's backlog, or assignee='auto' to let the assignment engine pick an agent by required_skills, required_role (lead/worker/specialist), current load, failures and estimated_effort. Priority defaults to 'low' for cross-agent requests.",
     parameters: TaskBacklogAddSchema,
     execute: async (_toolCallId, params) => {
       const description = readStringParam(params, "description", { required: true });
@@ -397,10 +471,42 @@ export function createTaskBacklogAddTool(options: {
         ? rawDependsOn.filter((s): s is string => typeof s === "string")
         : undefined;
 
-      const targetAgentId = assigneeRaw || currentAgentId;
+      const estimatedEffort: EstimatedEffort | undefined =
+        estimatedEffortRaw && ["small", "medium", "large"].includes(estimatedEffortRaw)
+          ? (estimatedEffortRaw as EstimatedEffort)
+          : undefined;
+
+      let assignment: TaskAssignmentDecision | undefined;
+      if (assigneeRaw === "auto") {
+        const rawSkills = (params as Record<string, unknown>).required_skills;
+        const requiredRole = readStringParam(params, "required_role");
+        if (requiredRole && !["lead", "worker", "specialist"].includes(requiredRole)) {
+          return jsonResult({
+            success: false,
+            error: `Invalid required_role: ${requiredRole}. Use lead, worker or specialist.`,
+          });
+        }
+        const { decision, summary } = await autoAssignTask(
+          cfg,
+          {
+            requiredSkills: Array.isArray(rawSkills)
+              ? rawSkills.filter((s): s is string => typeof s === "string")
+              : undefined,
+            requiredRole: requiredRole as "lead" | "worker" | "specialist" | undefined,
+            estimatedEffort,
+          },
+          { decidedBy: currentAgentId },
+        );
+        if (!decision) {
+          return jsonResult({ success: false, error: `Auto-assignment failed. ${summary}` });
+        }
+        assignment = decision;
+      }
+
+      const targetAgentId = assignment?.assignedTo ?? (assigneeRaw || currentAgentId);
       const isCrossAgent = targetAgentId !== currentAgentId;
 
-      if (isCrossAgent) {
+      if (isCrossAgent && !assignment) {
         const validAgentIds = listAgentIds(cfg);
         if (!validAgentIds.includes(targetAgentId)) {
           return jsonResult({
@@ -414,16 +520,33 @@ export function createTaskBacklogAddTool(options: {
         ? (priorityRaw as TaskPriority)
         : "medium";
 
-      const estimatedEffort: EstimatedEffort | undefined =
-        estimatedEffortRaw && ["small", "medium", "large"].includes(estimatedEffortRaw)
-          ? (estimatedEffortRaw as EstimatedEffort)
-          : undefined;
-
       const workspaceDir = resolveAgentWorkspaceDir(cfg, targetAgentId);
       const now = new Date().toISOString();
       const taskId = generateTaskId();
       const workSessionId = generateWorkSessionId();
 
+      if (dependsOn && dependsOn.length > 0) {
+        const graphInputs = await loadTaskGraphInputs(cfg);
+        const unknownDependencies = await findUnknownDependencies(cfg, dependsOn, graphInputs);
+        if (unknownDependencies.length > 0) {
+          return jsonResult({
+            success: false,
+            error: `Unknown dependency task id(s): ${unknownDependencies.join(", ")}`,
+            unknownDependencies,
+          });
+        }
+        // A fresh task cannot close a cycle itself, but it must not wait on
+        // tasks that are already stuck in one (e.g. hand-edited task files).
+        const cycle = findDependencyCycle(graphInputs, { id: taskId, dependsOn });
+        if (cycle) {
+          return jsonResult({
+            success: false,
+            error: `Dependency cycle detected: ${cycle.join(" → ")}`,
+            cycle,
+          });
+        }
+      }
+
       const newTask: TaskFile = {
         id: taskId,
         status: "backlog",
@@ -434,7 +557,10 @@ export function createTaskBacklogAddTool(options: {
         created: now,
         lastActivity: now,
         workSessionId,
-        progress: [`Added to backlog${isCrossAgent ? ` by ${currentAgentId}` : ""}`],
+        progress: [
+          `Added to backlog${isCrossAgent ? ` by ${currentAgentId}` : ""}`,
+          ...(assignment ? [`Auto-assigned: ${assignment.summary}`] : []),
+        ],
         createdBy: currentAgentId,
         assignee: targetAgentId,
         dependsOn: dependsOn && dependsOn.length > 0 ? dependsOn : undefined,
@@ -443,6 +569,7 @@ export function createTaskBacklogAddTool(options: {
         dueDate: dueDateRaw,
         milestoneId: readStringParam(params, "milestone_id"),
         milestoneItemId: readStringParam(params, "milestone_item_id"),
+        assignment,
       };
 
       await writeTask(workspaceDir, newTask);
@@ -450,7 +577,13 @@ export function createTaskBacklogAddTool(options: {
         type: EVENT_TYPES.TASK_BACKLOG_ADDED,
         agentId: currentAgentId,
         ts: Date.now(),
-        data: { taskId, assignee: targetAgentId, isCrossAgent, workSessionId },
+        data: {
+          taskId,
+          assignee: targetAgentId,
+          isCrossAgent,
+          workSessionId,
+          ...(assignment ? { autoAssigned: true } : {}),
+        },
       });
 
       const allBacklog = await findAllBacklogTasks(workspaceDir);
@@ -468,6 +601,19 @@ export function createTaskBacklogAddTool(options: {
         dueDate: dueDateRaw || null,
         dependsOn: dependsOn || [],
         totalBacklogItems: allBacklog.length,
+        ...(assignment
+          ? {
+              autoAssigned: true,
+              assignment: {
+                summary: assignment.summary,
+                candidates: assignment.candidates.map(({ agentId, eligible, score }) => ({
+                  agentId,
+                  eligible,
+                  score,
+                })),
+              },
+            }
+          : {}),
       });
     },
   };
@@ -530,7 +676,11 @@ export function createTaskPickBacklogTool(options: {
           });
         }
 
-        const { met, unmetDeps } = await checkDependenciesMet(workspaceDir, task);
+        const { met, unmetDeps } = await checkDependenciesMet(
+          workspaceDir,
+          task,
+          resolveTaskWorkspaceDirs(cfg),
+        );
         if (!met) {
           return jsonResult({
             success: false,
@@ -539,7 +689,7 @@ export function createTaskPickBacklogTool(options: {
           });
         }
       } else {
-        task = await findPickableBacklogTask(workspaceDir);
+        task = await findPickableBacklogTask(workspaceDir, resolveTaskWorkspaceDirs(cfg));
         if (!task) {
           const allBacklog = await findAllBacklogTasks(workspaceDir);
           return jsonResult({
@@ -567,6 +717,20 @@ export function createTaskPickBacklogTool(options: {
           return jsonResult({ success: false, error: `Task ${task.id} is no longer in backlog` });
         }
 
+        const transition = await checkTaskTransition(
+          {
+            taskId: freshTask.id,
+            action: "pick_backlog",
+            from: freshTask.status,
+            to: "in_progress",
+            description: freshTask.description,
+          },
+          { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+        );
+        if (!transition.allowed) {
+          return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+        }
+
         const now = new Date().toISOString();
         freshTask.status = "in_progress";
         freshTask.lastActivity = now;
@@ -3,9 +3,11 @@ import type { OpenClawConfig } from "../../config/config.js";
 import { emit } from "../../infra/events/bus.js";
 import { EVENT_TYPES } from "../../infra/events/schemas.js";
 import { retryAsync } from "../../infra/retry.js";
+import { computeTaskUsage } from "../../infra/task-accounting.js";
 import { acquireTaskLock } from "../../infra/task-lock.js";
 import { disableAgentManagedMode, enableAgentManagedMode } from "../../infra/task-tracker.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { checkTaskTransition } from "../../plugins/coordination-hooks.js";
 import { resolveAgentWorkspaceDir, resolveSessionAgentId, listAgentIds } from "../agent-scope.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
@@ -29,6 +31,9 @@ import {
 import { checkStopGuard } from "./task-stop-guard.js";
 
 const log = createSubsystemLogger("task-tool");
+/** task_status reuses token/cost totals scanned within this window. */
+const TASK_STATUS_USAGE_MAX_AGE_MS = 60_000;
+
 const TaskStartSchema = Type.Object({
   description: Type.String(),
   context: Type.Optional(Type.String()),
@@ -151,6 +156,14 @@ export function createTaskStartTool(options: {
           : undefined,
       };
 
+      const transition = await checkTaskTransition(
+        { taskId, action: "start", to: initialStatus, description },
+        { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+      );
+      if (!transition.allowed) {
+        return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+      }
+
       await writeTask(workspaceDir, newTask);
       emit({
         type: EVENT_TYPES.TASK_STARTED,
@@ -538,9 +551,24 @@ export function createTaskCompleteTool(options: {
         }
         // ─── END STOP GUARD ───
 
+        const transition = await checkTaskTransition(
+          {
+            taskId: freshTask.id,
+            action: "complete",
+            from: freshTask.status,
+            to: "completed",
+            description: freshTask.description,
+          },
+          { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+        );
+        if (!transition.allowed) {
+          return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+        }
+
         freshTask.progress.push("Task completed");
         freshTask.status = "completed";
-        freshTask.outcome = { kind: "completed", summary };
+        const usage = await computeTaskUsage(cfg, freshTask);
+        freshTask.outcome = { kind: "completed", summary, usage };
 
         const historyEntry = formatTaskHistoryEntry(freshTask, summary);
 
@@ -613,6 +641,7 @@ export function createTaskCompleteTool(options: {
           archivedTo,
           completedAt: new Date().toISOString(),
           workSessionId: freshTask.workSessionId,
+          usage,
           remainingTasks: remainingTasks.length,
           nextTaskId: nextTask?.id || null,
         });
@@ -686,6 +715,7 @@ export function createTaskStatusTool(options: {
             progressCount: task.progress.length,
             latestProgress: task.progress[task.progress.length - 1],
             ...(stepsInfo ? stepsInfo : {}),
+            usage: await computeTaskUsage(cfg, task, { maxAgeMs: TASK_STATUS_USAGE_MAX_AGE_MS }),
           },
         });
       }
@@ -871,8 +901,23 @@ export function createTaskCancelTool(options: {
       }
 
       try {
+        const transition = await checkTaskTransition(
+          {
+            taskId: task.id,
+            action: "cancel",
+            from: task.status,
+            to: "cancelled",
+            description: task.description,
+            reason,
+          },
+          { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+        );
+        if (!transition.allowed) {
+          return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+        }
+
         task.status = "cancelled";
-        task.outcome = { kind: "cancelled", reason };
+        task.outcome = { kind: "cancelled", reason, usage: await computeTaskUsage(cfg, task) };
         task.progress.push(`Task cancelled${reason ? `: ${reason}` : ""}`);
 
         await writeTask(workspaceDir, task);
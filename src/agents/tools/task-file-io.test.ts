@@ -168,14 +168,24 @@ describe("task-file-io", () => {
       const md = formatTaskFileMd(task);
       const parsed = parseTaskFileMd(md, "task_abc123.md");
       expect(parsed!.steps).toHaveLength(4);
-      expect(parsed!.steps![0]).toEqual({ id: "s1", content: "Write tests", status: "done", order: 1 });
+      expect(parsed!.steps![0]).toEqual({
+        id: "s1",
+        content: "Write tests",
+        status: "done",
+        order: 1,
+      });
       expect(parsed!.steps![1]).toEqual({
         id: "s2",
         content: "Implement feature",
         status: "in_progress",
         order: 2,
       });
-      expect(parsed!.steps![2]).toEqual({ id: "s3", content: "Deploy", status: "pending", order: 3 });
+      expect(parsed!.steps![2]).toEqual({
+        id: "s3",
+        content: "Deploy",
+        status: "pending",
+        order: 3,
+      });
       expect(parsed!.steps![3]).toEqual({
         id: "s4",
         content: "Skipped item",
@@ -273,7 +283,24 @@ describe("task-file-io", () => {
       });
       const md = formatTaskFileMd(task);
       const parsed = parseTaskFileMd(md, "task_abc123.md");
-      expect(parsed!.outcome).toEqual({ kind: "cancelled", reason: "No longer needed", by: "user1" });
+      expect(parsed!.outcome).toEqual({
+        kind: "cancelled",
+        reason: "No longer needed",
+        by: "user1",
+      });
+    });
+
+    it("roundtrips an auto-assignment decision", () => {
+      const assignment = {
+        assignedTo: "dev",
+        decidedAt: "2026-02-01T00:00:00.000Z",
+        decidedBy: "main",
+        requiredSkills: ["typescript"],
+        summary: "Assigned to dev (score 10)",
+        candidates: [{ agentId: "dev", eligible: true, score: 10, reasons: ["has typescript"] }],
+      };
+      const md = formatTaskFileMd(makeTask({ status: "backlog", assignment }));
+      expect(parseTaskFileMd(md, "task_abc123.md")!.assignment).toEqual(assignment);
     });
   });
 
@@ -1,18 +1,25 @@
 import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { acquireTaskLock } from "../../infra/task-lock.js";
+import { acquireFileTaskLock, acquireTaskLock } from "../../infra/task-lock.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import type {
   TaskDelegation,
   DelegationEvent,
   DelegationSummary,
 } from "./task-delegation-types.js";
+import { openSqliteTaskStore } from "./task-store-sqlite.js";
+import {
+  matchesTaskQuery,
+  resolveTaskStoreBackend,
+  type TaskQuery,
+  type TaskStore,
+} from "./task-store.js";
 
 const _log = createSubsystemLogger("task-file-io");
 
 const TASKS_DIR = "tasks";
-const TASK_HISTORY_DIR = "task-history";
+export const TASK_HISTORY_DIR = "task-history";
 const CURRENT_TASK_FILENAME = "CURRENT_TASK.md";
 
 export function getMonthlyHistoryFilename(): string {
@@ -36,14 +43,86 @@ export type TaskPriority = "low" | "medium" | "high" | "urgent";
 export type EscalationState = "none" | "requesting" | "escalated" | "failed";
 export type EstimatedEffort = "small" | "medium" | "large";
 
+/** Agent runs attributed to a task while it is open (see src/infra/task-accounting.ts). */
+export type TaskRunUsage = {
+  runs: number;
+  activeMs: number;
+  lastRunAt?: string;
+};
+
+/** Time and spend accounting captured when a task ends. */
+export type TaskUsageSummary = {
+  wallClockMs: number;
+  activeMs: number;
+  runs: number;
+  tokens: number;
+  costUsd: number;
+  /** Usage entries without pricing; `costUsd` is a lower bound when non-zero. */
+  missingCostEntries?: number;
+  sessionKeys: string[];
+};
+
 /** Discriminated union describing how a task ended. */
 export type TaskOutcome =
-  | { kind: "completed"; summary?: string }
-  | { kind: "cancelled"; reason?: string; by?: string }
+  | { kind: "completed"; summary?: string; usage?: TaskUsageSummary }
+  | { kind: "cancelled"; reason?: string; by?: string; usage?: TaskUsageSummary }
   | { kind: "error"; error: string; retriable?: boolean }
   | { kind: "interrupted"; by?: string; reason?: string };
 export type TaskStepStatus = "pending" | "in_progress" | "done" | "skipped";
 
+/** One agent considered by the auto-assignment engine. */
+export type TaskAssignmentCandidate = {
+  agentId: string;
+  eligible: boolean;
+  score: number;
+  /** Human-readable factors behind `eligible` and `score`. */
+  reasons: string[];
+};
+
+/** Why a task was auto-assigned to its assignee (see src/infra/task-assignment.ts). */
+export type TaskAssignmentDecision = {
+  assignedTo: string;
+  decidedAt: string;
+  decidedBy?: string;
+  requiredSkills?: string[];
+  requiredRole?: string;
+  summary: string;
+  candidates: TaskAssignmentCandidate[];
+};
+
+/** Machine-checkable completion criterion declared by a task template. */
+export type TaskVerificationCriterion =
+  | { type: "file_exists"; path: string }
+  | { type: "http"; url: string; status?: number; timeoutMs?: number }
+  | { type: "keyword"; keyword: string; path: string }
+  /** Passes when the command exits 0; run as argv in the workspace, never through a shell. */
+  | { type: "command"; command: string; args?: string[]; timeoutMs?: number };
+
+export type TaskVerificationCheck = {
+  criterion: TaskVerificationCriterion;
+  passed: boolean;
+  detail: string;
+};
+
+/** Result of the last `task_verify` criteria run. */
+export type TaskVerificationReport = {
+  checkedAt: string;
+  passed: boolean;
+  checks: TaskVerificationCheck[];
+};
+
+/** Template a task was started from (see task-templates.ts). */
+export type TaskTemplateRef = {
+  name: string;
+  requiredTools?: string[];
+  /** Tools blocked until the task is approved. */
+  gatedTools?: string[];
+  /** Skill groups preloaded while this task is active. */
+  skillGroups?: string[];
+  criteria: TaskVerificationCriterion[];
+  lastVerification?: TaskVerificationReport;
+};
+
 export interface TaskStep {
   id: string;
   content: string;
@@ -84,6 +163,11 @@ export interface TaskFile {
   milestoneItemId?: string; // Linked milestone item ID in Task Hub
   reassignCount?: number; // Zombie recovery: number of times task was auto-reassigned
   createdBySessionKey?: string; // Session key that created this task (for enforcement scope)
+  /** Decision record when the assignee was picked by the auto-assignment engine. */
+  assignment?: TaskAssignmentDecision;
+  template?: TaskTemplateRef;
+  /** Runs and active time attributed to this task so far. */
+  usage?: TaskRunUsage;
   steps?: TaskStep[];
   simple?: boolean;
   /** Terminal outcome when task reaches completed/cancelled/interrupted. */
@@ -221,6 +305,7 @@ export function formatTaskFileMd(task: TaskFile): string {
     task.createdBy ||
     task.assignee ||
     task.dependsOn ||
+    task.estimatedEffort ||
     task.startDate ||
     task.dueDate
   ) {
@@ -238,6 +323,18 @@ export function formatTaskFileMd(task: TaskFile): string {
     lines.push("## Backlog", "```json", JSON.stringify(backlogData), "```", "");
   }
 
+  if (task.assignment) {
+    lines.push("## Assignment", "```json", JSON.stringify(task.assignment), "```", "");
+  }
+
+  if (task.template) {
+    lines.push("## Template", "```json", JSON.stringify(task.template), "```", "");
+  }
+
+  if (task.usage) {
+    lines.push("## Usage", "```json", JSON.stringify(task.usage), "```", "");
+  }
+
   // Serialize outcome if present
   if (task.outcome) {
     lines.push("## Outcome", "```json", JSON.stringify(task.outcome), "```", "");
@@ -271,6 +368,9 @@ export function parseTaskFileMd(content: string, filename: string): TaskFile | n
   let priority: TaskPriority = "medium";
   let description = "";
   let context: string | undefined;
+  // Older task files kept description/context as metadata keys.
+  let legacyDescription: string | undefined;
+  let legacyContext: string | undefined;
   let source: string | undefined;
   let workSessionId: string | undefined;
   let previousWorkSessionId: string | undefined;
@@ -298,6 +398,9 @@ export function parseTaskFileMd(content: string, filename: string): TaskFile | n
   let createdBySessionKey: string | undefined;
   let simple: boolean | undefined;
   let outcome: TaskOutcome | undefined;
+  let assignment: TaskAssignmentDecision | undefined;
+  let template: TaskTemplateRef | undefined;
+  let usage: TaskRunUsage | undefined;
   let delegations: TaskDelegation[] | undefined;
   let delegationEvents: DelegationEvent[] | undefined;
   let delegationSummary: DelegationSummary | undefined;
@@ -367,6 +470,14 @@ export function parseTaskFileMd(content: string, filename: string): TaskFile | n
       if (simpleMatch) {
         simple = simpleMatch[1].trim() === "true";
       }
+      const legacyDescriptionMatch = trimmed.match(/^-?\s*\*\*Description:\*\*\s*(.+)$/i);
+      if (legacyDescriptionMatch) {
+        legacyDescription = legacyDescriptionMatch[1].trim();
+      }
+      const legacyContextMatch = trimmed.match(/^-?\s*\*\*Context:\*\*\s*(.+)$/i);
+      if (legacyContextMatch) {
+        legacyContext = legacyContextMatch[1].trim();
+      }
     } else if (currentSection === "description") {
       description = description ? `${description}\n${trimmed}` : trimmed;
     } else if (currentSection === "context") {
@@ -431,6 +542,39 @@ export function parseTaskFileMd(content: string, filename: string): TaskFile | n
           // Ignore malformed JSON
         }
       }
+    } else if (currentSection === "assignment") {
+      if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
+        try {
+          const assignmentData = JSON.parse(trimmed);
+          if (typeof assignmentData.assignedTo === "string") {
+            assignment = assignmentData as TaskAssignmentDecision;
+          }
+        } catch {
+          // Ignore malformed JSON
+        }
+      }
+    } else if (currentSection === "template") {
+      if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
+        try {
+          const templateData = JSON.parse(trimmed);
+          if (typeof templateData.name === "string" && Array.isArray(templateData.criteria)) {
+            template = templateData as TaskTemplateRef;
+          }
+        } catch {
+          // Ignore malformed JSON
+        }
+      }
+    } else if (currentSection === "usage") {
+      if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
+        try {
+          const usageData = JSON.parse(trimmed);
+          if (typeof usageData.runs === "number" && typeof usageData.activeMs === "number") {
+            usage = usageData as TaskRunUsage;
+          }
+        } catch {
+          // Ignore malformed JSON
+        }
+      }
     } else if (currentSection === "outcome") {
       if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
         try {
@@ -462,6 +606,8 @@ export function parseTaskFileMd(content: string, filename: string): TaskFile | n
     }
   }
 
+  description ||= legacyDescription ?? "";
+  context ??= legacyContext;
   if (!description || !created) {
     return null;
   }
@@ -498,6 +644,9 @@ export function parseTaskFileMd(content: string, filename: string): TaskFile | n
     milestoneItemId,
     reassignCount,
     createdBySessionKey,
+    assignment,
+    template,
+    usage,
     outcome,
     delegations: delegations && delegations.length > 0 ? delegations : undefined,
     delegationEvents:
@@ -512,118 +661,173 @@ export async function getTasksDir(workspaceDir: string): Promise<string> {
   return tasksDir;
 }
 
-export async function readTask(workspaceDir: string, taskId: string): Promise<TaskFile | null> {
+function resolveTaskFilePath(tasksDir: string, taskId: string): string | null {
   if (!taskId || /[/\\]/.test(taskId)) {
     return null;
   }
-  const tasksDir = await getTasksDir(workspaceDir);
   const filePath = path.resolve(tasksDir, `${taskId}.md`);
   if (!filePath.startsWith(path.resolve(tasksDir) + path.sep)) {
     return null;
   }
-  try {
-    const content = await fs.readFile(filePath, "utf-8");
-    return parseTaskFileMd(content, `${taskId}.md`);
-  } catch {
-    return null;
-  }
+  return filePath;
 }
 
 let writeCounter = 0;
 
-export async function writeTask(workspaceDir: string, task: TaskFile): Promise<void> {
-  ensureTaskWorkSessionId(task);
-  const tasksDir = await getTasksDir(workspaceDir);
-  const filePath = path.join(tasksDir, `${task.id}.md`);
-  const tempPath = `${filePath}.tmp.${process.pid}.${Date.now()}.${++writeCounter}`;
-  const content = formatTaskFileMd(task);
-
-  try {
-    await fs.writeFile(tempPath, content, "utf-8");
-    await fs.rename(tempPath, filePath);
-  } catch (error) {
-    // Clean up temp file on failure
-    await fs.unlink(tempPath).catch(() => {});
-    throw error;
+function compareTasks(a: TaskFile, b: TaskFile): number {
+  const priorityOrder = { urgent: 0, high: 1, medium: 2, low: 3 };
+  const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
+  if (priorityDiff !== 0) {
+    return priorityDiff;
   }
-}
 
-export async function deleteTask(workspaceDir: string, taskId: string): Promise<void> {
-  if (!taskId || /[/\\]/.test(taskId)) {
-    return;
-  }
-  const tasksDir = await getTasksDir(workspaceDir);
-  const filePath = path.resolve(tasksDir, `${taskId}.md`);
-  if (!filePath.startsWith(path.resolve(tasksDir) + path.sep)) {
-    return;
+  // For backlog tasks: due_date > start_date > created
+  if (a.dueDate || b.dueDate) {
+    const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+    const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+    if (aDue !== bDue) {
+      return aDue - bDue;
+    }
   }
-  try {
-    await fs.unlink(filePath);
-  } catch {
-    // File doesn't exist, ignore
+
+  if (a.startDate || b.startDate) {
+    const aStart = a.startDate ? new Date(a.startDate).getTime() : Infinity;
+    const bStart = b.startDate ? new Date(b.startDate).getTime() : Infinity;
+    if (aStart !== bStart) {
+      return aStart - bStart;
+    }
   }
+
+  return new Date(a.created).getTime() - new Date(b.created).getTime();
 }
 
-export async function listTasks(
-  workspaceDir: string,
-  statusFilter?: TaskStatus | "all",
-): Promise<TaskFile[]> {
-  const tasksDir = await getTasksDir(workspaceDir);
-  const tasks: TaskFile[] = [];
+/** Markdown backend: one `tasks/task_*.md` file per task. */
+export function createMarkdownTaskStore(workspaceDir: string): TaskStore {
+  return {
+    backend: "markdown",
 
-  let files: string[] = [];
-  try {
-    files = await fs.readdir(tasksDir);
-  } catch {
-    return tasks;
-  }
+    readTask: async (taskId) => {
+      const tasksDir = await getTasksDir(workspaceDir);
+      const filePath = resolveTaskFilePath(tasksDir, taskId);
+      if (!filePath) {
+        return null;
+      }
+      try {
+        const content = await fs.readFile(filePath, "utf-8");
+        return parseTaskFileMd(content, `${taskId}.md`);
+      } catch {
+        return null;
+      }
+    },
+
+    writeTask: async (task) => {
+      const tasksDir = await getTasksDir(workspaceDir);
+      const filePath = path.join(tasksDir, `${task.id}.md`);
+      const tempPath = `${filePath}.tmp.${process.pid}.${Date.now()}.${++writeCounter}`;
+      const content = formatTaskFileMd(task);
+
+      try {
+        await fs.writeFile(tempPath, content, "utf-8");
+        await fs.rename(tempPath, filePath);
+      } catch (error) {
+        // Clean up temp file on failure
+        await fs.unlink(tempPath).catch(() => {});
+        throw error;
+      }
+    },
 
-  for (const file of files) {
-    if (!file.endsWith(".md") || !file.startsWith("task_")) {
-      continue;
-    }
-    try {
-      const filePath = path.join(tasksDir, file);
-      const content = await fs.readFile(filePath, "utf-8");
-      const task = parseTaskFileMd(content, file);
-      if (task) {
-        if (!statusFilter || statusFilter === "all" || task.status === statusFilter) {
-          tasks.push(task);
-        }
+    deleteTask: async (taskId) => {
+      const tasksDir = await getTasksDir(workspaceDir);
+      const filePath = resolveTaskFilePath(tasksDir, taskId);
+      if (!filePath) {
+        return;
       }
-    } catch {
-      // File may have been deleted between readdir and readFile
-    }
-  }
+      try {
+        await fs.unlink(filePath);
+      } catch {
+        // File doesn't exist, ignore
+      }
+    },
 
-  tasks.sort((a, b) => {
-    const priorityOrder = { urgent: 0, high: 1, medium: 2, low: 3 };
-    const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
-    if (priorityDiff !== 0) {
-      return priorityDiff;
-    }
+    queryTasks: async (query) => {
+      const tasksDir = await getTasksDir(workspaceDir);
+      const tasks: TaskFile[] = [];
 
-    // For backlog tasks: due_date > start_date > created
-    if (a.dueDate || b.dueDate) {
-      const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
-      const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
-      if (aDue !== bDue) {
-        return aDue - bDue;
+      let files: string[] = [];
+      try {
+        files = await fs.readdir(tasksDir);
+      } catch {
+        return tasks;
+      }
+
+      for (const file of files) {
+        if (!file.endsWith(".md") || !file.startsWith("task_")) {
+          continue;
+        }
+        try {
+          const filePath = path.join(tasksDir, file);
+          const content = await fs.readFile(filePath, "utf-8");
+          const task = parseTaskFileMd(content, file);
+          if (task && matchesTaskQuery(task, query)) {
+            tasks.push(task);
+          }
+        } catch {
+          // File may have been deleted between readdir and readFile
+        }
       }
-    }
 
-    if (a.startDate || b.startDate) {
-      const aStart = a.startDate ? new Date(a.startDate).getTime() : Infinity;
-      const bStart = b.startDate ? new Date(b.startDate).getTime() : Infinity;
-      if (aStart !== bStart) {
-        return aStart - bStart;
+      return tasks.toSorted(compareTasks);
+    },
+
+    hasTasks: async () => {
+      try {
+        const files = await fs.readdir(path.join(workspaceDir, TASKS_DIR));
+        return files.some((f) => f.startsWith("task_") && f.endsWith(".md"));
+      } catch {
+        return false;
       }
-    }
+    },
 
-    return new Date(a.created).getTime() - new Date(b.created).getTime();
-  });
+    acquireLock: (lockKey) => acquireFileTaskLock(workspaceDir, lockKey),
+  };
+}
+
+/** The task store for a workspace, using the backend selected by `OPENCLAW_TASK_STORE`. */
+export function resolveTaskStore(workspaceDir: string): TaskStore {
+  return resolveTaskStoreBackend() === "sqlite"
+    ? openSqliteTaskStore(workspaceDir)
+    : createMarkdownTaskStore(workspaceDir);
+}
+
+export async function readTask(workspaceDir: string, taskId: string): Promise<TaskFile | null> {
+  if (!taskId || /[/\\]/.test(taskId)) {
+    return null;
+  }
+  return resolveTaskStore(workspaceDir).readTask(taskId);
+}
+
+export async function writeTask(workspaceDir: string, task: TaskFile): Promise<void> {
+  ensureTaskWorkSessionId(task);
+  await resolveTaskStore(workspaceDir).writeTask(task);
+}
+
+export async function deleteTask(workspaceDir: string, taskId: string): Promise<void> {
+  if (!taskId || /[/\\]/.test(taskId)) {
+    return;
+  }
+  await resolveTaskStore(workspaceDir).deleteTask(taskId);
+}
 
-  return tasks;
+export async function listTasks(
+  workspaceDir: string,
+  statusFilter?: TaskStatus | "all",
+): Promise<TaskFile[]> {
+  return resolveTaskStore(workspaceDir).queryTasks({ status: statusFilter });
+}
+
+/** Indexed lookup by status/assignee/work session/milestone on the active task store. */
+export async function queryTasks(workspaceDir: string, query: TaskQuery): Promise<TaskFile[]> {
+  return resolveTaskStore(workspaceDir).queryTasks(query);
 }
 
 export async function findActiveTask(workspaceDir: string): Promise<TaskFile | null> {
@@ -661,17 +865,30 @@ export async function findAllBacklogTasks(workspaceDir: string): Promise<TaskFil
   return listTasks(workspaceDir, "backlog");
 }
 
+/**
+ * Check whether a task's dependencies are completed. Dependencies are looked up
+ * in `workspaceDir` first, then in `dependencyDirs` (other agents' workspaces)
+ * so cross-agent prerequisites are not mistaken for archived tasks.
+ */
 export async function checkDependenciesMet(
   workspaceDir: string,
   task: TaskFile,
+  dependencyDirs: string[] = [],
 ): Promise<{ met: boolean; unmetDeps: string[] }> {
   if (!task.dependsOn || task.dependsOn.length === 0) {
     return { met: true, unmetDeps: [] };
   }
 
+  const lookupDirs = [...new Set([workspaceDir, ...dependencyDirs])];
   const unmetDeps: string[] = [];
   for (const depId of task.dependsOn) {
-    const depTask = await readTask(workspaceDir, depId);
+    let depTask: TaskFile | null = null;
+    for (const dir of lookupDirs) {
+      depTask = await readTask(dir, depId);
+      if (depTask) {
+        break;
+      }
+    }
     if (!depTask) {
       // Task file deleted = completed/cancelled and archived to task-history
       continue;
@@ -684,11 +901,14 @@ export async function checkDependenciesMet(
   return { met: unmetDeps.length === 0, unmetDeps };
 }
 
-export async function findPickableBacklogTask(workspaceDir: string): Promise<TaskFile | null> {
+export async function findPickableBacklogTask(
+  workspaceDir: string,
+  dependencyDirs: string[] = [],
+): Promise<TaskFile | null> {
   const backlogTasks = await findBacklogTasks(workspaceDir);
 
   for (const task of backlogTasks) {
-    const { met } = await checkDependenciesMet(workspaceDir, task);
+    const { met } = await checkDependenciesMet(workspaceDir, task, dependencyDirs);
     if (met) {
       return task;
     }
@@ -782,6 +1002,20 @@ export function formatTaskHistoryEntry(task: TaskFile, summary?: string): string
     lines.push("", "### Summary", summary);
   }
 
+  // Machine-readable line for `openclaw tasks report` (see src/infra/task-accounting.ts)
+  const usage = task.outcome && "usage" in task.outcome ? task.outcome.usage : undefined;
+  if (usage) {
+    const accounting = {
+      outcome: task.outcome?.kind,
+      priority: task.priority,
+      estimatedEffort: task.estimatedEffort,
+      milestoneId: task.milestoneId,
+      workSessionId: task.workSessionId,
+      ...usage,
+    };
+    lines.push("", `**Accounting:** ${JSON.stringify(accounting)}`);
+  }
+
   return lines.join("\n");
 }
 
@@ -855,10 +1089,8 @@ export async function hasActiveTasks(workspaceDir: string): Promise<boolean> {
 }
 
 export async function isAgentUsingTaskTools(workspaceDir: string): Promise<boolean> {
-  const tasksDir = path.join(workspaceDir, TASKS_DIR);
   try {
-    const files = await fs.readdir(tasksDir);
-    return files.some((f) => f.startsWith("task_") && f.endsWith(".md"));
+    return await resolveTaskStore(workspaceDir).hasTasks();
   } catch {
     return false;
   }
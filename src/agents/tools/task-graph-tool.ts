@@ -0,0 +1,96 @@
+/**
+ * task_graph tool — Inspect cross-agent task dependencies.
+ *
+ * Returns the DAG built from every agent workspace, including detected
+ * cycles and the effort-weighted critical path of open tasks.
+ */
+
+import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
+import { loadTaskGraph } from "../../infra/task-dependency-resolver.js";
+import { listAgentIds } from "../agent-scope.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult, readStringParam } from "./common.js";
+
+const TaskGraphSchema = Type.Object({
+  agent_id: Type.Optional(
+    Type.String({
+      description:
+        "Only return nodes owned by this agent (plus the edges touching them). Cycles and the critical path are always computed across all agents.",
+    }),
+  ),
+  task_id: Type.Optional(
+    Type.String({
+      description: "Only return this task together with its direct dependencies and dependents.",
+    }),
+  ),
+});
+
+export function createTaskGraphTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  return {
+    label: "Task Graph",
+    name: "task_graph",
+    description:
+      "Show the task dependency graph across all agents: nodes with unmet dependencies, edges (prerequisite → dependent), dependency cycles, and the critical path of open tasks weighted by estimated effort.",
+    parameters: TaskGraphSchema,
+    execute: async (_toolCallId, params) => {
+      const agentIdFilter = readStringParam(params, "agent_id");
+      const taskIdFilter = readStringParam(params, "task_id");
+
+      if (agentIdFilter) {
+        const validAgentIds = listAgentIds(cfg);
+        if (!validAgentIds.includes(agentIdFilter)) {
+          return jsonResult({
+            success: false,
+            error: `Invalid agent ID: ${agentIdFilter}. Valid agents: ${validAgentIds.join(", ")}`,
+          });
+        }
+      }
+
+      const graph = await loadTaskGraph(cfg);
+      let nodes = graph.nodes;
+
+      if (taskIdFilter) {
+        const target = nodes.find((node) => node.taskId === taskIdFilter);
+        if (!target) {
+          return jsonResult({
+            success: false,
+            error: `Task not found: ${taskIdFilter}`,
+          });
+        }
+        const related = new Set([target.taskId, ...target.dependsOn, ...target.dependents]);
+        nodes = nodes.filter((node) => related.has(node.taskId));
+      }
+      if (agentIdFilter) {
+        nodes = nodes.filter((node) => node.agentId === agentIdFilter);
+      }
+
+      const included = new Set(nodes.map((node) => node.taskId));
+      const edges =
+        nodes.length === graph.nodes.length
+          ? graph.edges
+          : graph.edges.filter((edge) => included.has(edge.from) || included.has(edge.to));
+
+      return jsonResult({
+        success: true,
+        nodeCount: nodes.length,
+        nodes,
+        edges,
+        cycles: graph.cycles,
+        criticalPath: graph.criticalPath,
+        criticalPathEffort: graph.criticalPathEffort,
+        blocked: nodes
+          .filter((node) => node.status !== "completed" && node.unmetDependencies.length > 0)
+          .map((node) => node.taskId),
+      });
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createMarkdownTaskStore, formatTaskFileMd, getTasksDir } from "./task-file-io.js";
+import { openSqliteTaskStore } from "./task-store-sqlite.js";
+
+export type TaskMigrationResult = {
+  workspaceDir: string;
+  migrated: number;
+  /** Tasks already present in the SQLite store (left untouched). */
+  skipped: number;
+  removedMarkdown: number;
+};
+
+export type TaskExportResult = {
+  workspaceDir: string;
+  outDir: string;
+  exported: number;
+};
+
+/**
+ * One-shot copy of every markdown task file in a workspace into its SQLite
+ * store. Re-running is safe: tasks that already exist in SQLite are skipped.
+ * With `removeMarkdown`, only files whose task is now in SQLite are deleted.
+ */
+export async function migrateMarkdownTasksToSqlite(
+  workspaceDir: string,
+  opts: { removeMarkdown?: boolean } = {},
+): Promise<TaskMigrationResult> {
+  const markdown = createMarkdownTaskStore(workspaceDir);
+  const sqlite = openSqliteTaskStore(workspaceDir);
+  const result: TaskMigrationResult = { workspaceDir, migrated: 0, skipped: 0, removedMarkdown: 0 };
+
+  for (const task of await markdown.queryTasks({ status: "all" })) {
+    const existing = await sqlite.readTask(task.id);
+    if (existing) {
+      result.skipped++;
+    } else {
+      await sqlite.writeTask(task);
+      result.migrated++;
+    }
+    // A skipped file is only removed when SQLite already holds the same task,
+    // so a diverged markdown copy is never lost.
+    const imported = !existing || formatTaskFileMd(existing) === formatTaskFileMd(task);
+    if (opts.removeMarkdown && imported) {
+      await markdown.deleteTask(task.id);
+      result.removedMarkdown++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Writes every task in the SQLite store as a `task_*.md` file so agents and
+ * humans can read them. Defaults to the workspace `tasks/` directory, which
+ * also makes switching back to the markdown backend lossless.
+ */
+export async function exportSqliteTasksToMarkdown(
+  workspaceDir: string,
+  opts: { outDir?: string } = {},
+): Promise<TaskExportResult> {
+  const outDir = opts.outDir ? path.resolve(opts.outDir) : await getTasksDir(workspaceDir);
+  await fs.mkdir(outDir, { recursive: true });
+
+  const tasks = await openSqliteTaskStore(workspaceDir).queryTasks({ status: "all" });
+  for (const task of tasks) {
+    await fs.writeFile(path.join(outDir, `${task.id}.md`), formatTaskFileMd(task), "utf-8");
+  }
+
+  return { workspaceDir, outDir, exported: tasks.length };
+}
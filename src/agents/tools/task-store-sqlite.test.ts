@@ -0,0 +1,128 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { acquireTaskLock } from "../../infra/task-lock.js";
+import { listTasks, queryTasks, readTask, writeTask, type TaskFile } from "./task-file-io.js";
+import { exportSqliteTasksToMarkdown, migrateMarkdownTasksToSqlite } from "./task-store-migrate.js";
+import { closeSqliteTaskStores, openSqliteTaskStore } from "./task-store-sqlite.js";
+import { setTaskStoreBackend } from "./task-store.js";
+
+let workspaceDir = "";
+
+function makeTask(overrides: Partial<TaskFile> & { id: string }): TaskFile {
+  return {
+    status: "backlog",
+    priority: "medium",
+    description: `Task ${overrides.id}`,
+    created: "2026-02-01T00:00:00.000Z",
+    lastActivity: "2026-02-01T00:00:00.000Z",
+    workSessionId: "ws_default",
+    progress: [],
+    ...overrides,
+  };
+}
+
+describe("sqlite task store", () => {
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-store-sqlite-"));
+  });
+
+  afterEach(async () => {
+    setTaskStoreBackend(null);
+    closeSqliteTaskStores();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("round-trips tasks and sorts like the markdown store", async () => {
+    const store = openSqliteTaskStore(workspaceDir);
+    await store.writeTask(makeTask({ id: "task_low", priority: "low" }));
+    await store.writeTask(makeTask({ id: "task_late", dueDate: "2026-03-10" }));
+    await store.writeTask(makeTask({ id: "task_soon", dueDate: "2026-03-01" }));
+    await store.writeTask(
+      makeTask({ id: "task_urgent", priority: "urgent", status: "in_progress" }),
+    );
+
+    expect((await store.readTask("task_soon"))?.dueDate).toBe("2026-03-01");
+    expect((await store.queryTasks()).map((t) => t.id)).toEqual([
+      "task_urgent",
+      "task_soon",
+      "task_late",
+      "task_low",
+    ]);
+    expect((await store.queryTasks({ status: "in_progress" })).map((t) => t.id)).toEqual([
+      "task_urgent",
+    ]);
+
+    await store.deleteTask("task_low");
+    expect(await store.readTask("task_low")).toBeNull();
+  });
+
+  it("filters by assignee, work session and milestone", async () => {
+    const store = openSqliteTaskStore(workspaceDir);
+    await store.writeTask(makeTask({ id: "task_a", assignee: "dev", milestoneId: "m1" }));
+    await store.writeTask(makeTask({ id: "task_b", assignee: "qa", workSessionId: "ws_b" }));
+
+    expect((await store.queryTasks({ assignee: "dev" })).map((t) => t.id)).toEqual(["task_a"]);
+    expect((await store.queryTasks({ workSessionId: "ws_b" })).map((t) => t.id)).toEqual([
+      "task_b",
+    ]);
+    expect((await store.queryTasks({ milestoneId: "m1", assignee: "qa" })).length).toBe(0);
+  });
+
+  it("hands out a lock only once until it is released", async () => {
+    const store = openSqliteTaskStore(workspaceDir);
+    const lock = await store.acquireLock("task_a");
+    expect(lock).not.toBeNull();
+    expect(await store.acquireLock("task_a")).toBeNull();
+    await lock?.release();
+    expect(await store.acquireLock("task_a")).not.toBeNull();
+  });
+
+  it("routes task-file-io and task locks through the selected backend", async () => {
+    setTaskStoreBackend("sqlite");
+    await writeTask(workspaceDir, makeTask({ id: "task_x", status: "in_progress" }));
+
+    expect(await fs.readdir(path.join(workspaceDir, "tasks"))).not.toContain("task_x.md");
+    expect((await readTask(workspaceDir, "task_x"))?.status).toBe("in_progress");
+    expect((await listTasks(workspaceDir, "in_progress")).map((t) => t.id)).toEqual(["task_x"]);
+    expect((await queryTasks(workspaceDir, { workSessionId: "ws_default" })).length).toBe(1);
+
+    const lock = await acquireTaskLock(workspaceDir, "task_x");
+    expect(lock).not.toBeNull();
+    expect(await acquireTaskLock(workspaceDir, "task_x")).toBeNull();
+    await lock?.release();
+  });
+
+  it("migrates markdown tasks and exports them back", async () => {
+    await writeTask(workspaceDir, makeTask({ id: "task_md1", priority: "high" }));
+    await writeTask(workspaceDir, makeTask({ id: "task_md2", steps: [] }));
+
+    const first = await migrateMarkdownTasksToSqlite(workspaceDir);
+    expect(first).toMatchObject({ migrated: 2, skipped: 0, removedMarkdown: 0 });
+    const again = await migrateMarkdownTasksToSqlite(workspaceDir, { removeMarkdown: true });
+    expect(again).toMatchObject({ migrated: 0, skipped: 2, removedMarkdown: 2 });
+    expect((await listTasks(workspaceDir)).length).toBe(0);
+
+    setTaskStoreBackend("sqlite");
+    expect((await listTasks(workspaceDir)).map((t) => t.id)).toEqual(["task_md1", "task_md2"]);
+
+    const outDir = path.join(workspaceDir, "export");
+    const exported = await exportSqliteTasksToMarkdown(workspaceDir, { outDir });
+    expect(exported.exported).toBe(2);
+    const content = await fs.readFile(path.join(outDir, "task_md1.md"), "utf-8");
+    expect(content).toContain("Task task_md1");
+  });
+
+  it("keeps markdown files whose task differs from the SQLite copy", async () => {
+    await writeTask(workspaceDir, makeTask({ id: "task_md1", description: "markdown copy" }));
+    await openSqliteTaskStore(workspaceDir).writeTask(
+      makeTask({ id: "task_md1", description: "sqlite copy" }),
+    );
+
+    const result = await migrateMarkdownTasksToSqlite(workspaceDir, { removeMarkdown: true });
+
+    expect(result).toMatchObject({ migrated: 0, skipped: 1, removedMarkdown: 0 });
+    expect((await listTasks(workspaceDir)).map((t) => t.description)).toEqual(["markdown copy"]);
+  });
+});
@@ -0,0 +1,232 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import type { TaskLock } from "../../infra/task-lock.js";
+import { requireNodeSqlite } from "../../memory/sqlite.js";
+import type { TaskFile } from "./task-file-io.js";
+import type { TaskQuery, TaskStore } from "./task-store.js";
+
+export const SQLITE_TASK_STORE_FILENAME = "tasks.sqlite";
+
+const LOCK_STALE_MS = 60_000;
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+const stores = new Map<string, SqliteTaskStore>();
+
+type TaskRow = { data: string };
+type LockRow = { pid: number; acquired_at: number };
+
+function toMs(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function ensureSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tasks (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      priority_rank INTEGER NOT NULL,
+      assignee TEXT,
+      work_session_id TEXT,
+      milestone_id TEXT,
+      due_ms INTEGER,
+      start_ms INTEGER,
+      created_ms INTEGER,
+      data TEXT NOT NULL
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_assignee ON tasks(assignee);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_work_session ON tasks(work_session_id);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_milestone ON tasks(milestone_id);`);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS task_locks (
+      lock_key TEXT PRIMARY KEY,
+      pid INTEGER NOT NULL,
+      acquired_at INTEGER NOT NULL
+    );
+  `);
+}
+
+class SqliteTaskStore implements TaskStore {
+  readonly backend = "sqlite" as const;
+
+  constructor(private readonly db: DatabaseSync) {}
+
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      try {
+        this.db.exec("ROLLBACK");
+      } catch {}
+      throw err;
+    }
+  }
+
+  async readTask(taskId: string): Promise<TaskFile | null> {
+    const row = this.db.prepare(`SELECT data FROM tasks WHERE id = ?`).get(taskId) as
+      | TaskRow
+      | undefined;
+    return row ? (JSON.parse(row.data) as TaskFile) : null;
+  }
+
+  async writeTask(task: TaskFile): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO tasks (id, status, priority_rank, assignee, work_session_id, milestone_id, due_ms, start_ms, created_ms, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           status=excluded.status,
+           priority_rank=excluded.priority_rank,
+           assignee=excluded.assignee,
+           work_session_id=excluded.work_session_id,
+           milestone_id=excluded.milestone_id,
+           due_ms=excluded.due_ms,
+           start_ms=excluded.start_ms,
+           created_ms=excluded.created_ms,
+           data=excluded.data`,
+      )
+      .run(
+        task.id,
+        task.status,
+        PRIORITY_RANK[task.priority] ?? PRIORITY_RANK.medium,
+        task.assignee ?? null,
+        task.workSessionId ?? null,
+        task.milestoneId ?? null,
+        toMs(task.dueDate),
+        toMs(task.startDate),
+        toMs(task.created),
+        JSON.stringify(task),
+      );
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    this.db.prepare(`DELETE FROM tasks WHERE id = ?`).run(taskId);
+  }
+
+  async queryTasks(query: TaskQuery = {}): Promise<TaskFile[]> {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (query.status && query.status !== "all") {
+      where.push("status = ?");
+      params.push(query.status);
+    }
+    if (query.assignee) {
+      where.push("assignee = ?");
+      params.push(query.assignee);
+    }
+    if (query.workSessionId) {
+      where.push("work_session_id = ?");
+      params.push(query.workSessionId);
+    }
+    if (query.milestoneId) {
+      where.push("milestone_id = ?");
+      params.push(query.milestoneId);
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM tasks
+         ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY priority_rank,
+           due_ms IS NULL, due_ms,
+           start_ms IS NULL, start_ms,
+           created_ms`,
+      )
+      .all(...params) as TaskRow[];
+    return rows.map((row) => JSON.parse(row.data) as TaskFile);
+  }
+
+  async hasTasks(): Promise<boolean> {
+    return this.db.prepare(`SELECT 1 FROM tasks LIMIT 1`).get() !== undefined;
+  }
+
+  async acquireLock(lockKey: string): Promise<TaskLock | null> {
+    const acquiredAt = Date.now();
+    const acquired = this.transaction(() => {
+      const existing = this.db
+        .prepare(`SELECT pid, acquired_at FROM task_locks WHERE lock_key = ?`)
+        .get(lockKey) as LockRow | undefined;
+      if (existing) {
+        const stale =
+          acquiredAt - existing.acquired_at > LOCK_STALE_MS || !isProcessAlive(existing.pid);
+        if (!stale) {
+          return false;
+        }
+      }
+      this.db
+        .prepare(
+          `INSERT INTO task_locks (lock_key, pid, acquired_at) VALUES (?, ?, ?)
+           ON CONFLICT(lock_key) DO UPDATE SET pid=excluded.pid, acquired_at=excluded.acquired_at`,
+        )
+        .run(lockKey, process.pid, acquiredAt);
+      return true;
+    });
+    if (!acquired) {
+      return null;
+    }
+
+    let released = false;
+    return {
+      release: async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        // Only drop our own lock; a stale one may have been taken over meanwhile.
+        this.db
+          .prepare(`DELETE FROM task_locks WHERE lock_key = ? AND pid = ? AND acquired_at = ?`)
+          .run(lockKey, process.pid, acquiredAt);
+      },
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export function resolveSqliteTaskStorePath(workspaceDir: string): string {
+  return path.join(workspaceDir, "tasks", SQLITE_TASK_STORE_FILENAME);
+}
+
+/** Returns the (cached) SQLite task store for a workspace, creating the database on first use. */
+export function openSqliteTaskStore(workspaceDir: string): TaskStore {
+  const dbPath = resolveSqliteTaskStorePath(workspaceDir);
+  const cached = stores.get(dbPath);
+  if (cached) {
+    return cached;
+  }
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(dbPath);
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 5000");
+  ensureSchema(db);
+  const store = new SqliteTaskStore(db);
+  stores.set(dbPath, store);
+  return store;
+}
+
+export function closeSqliteTaskStores(): void {
+  for (const store of stores.values()) {
+    store.close();
+  }
+  stores.clear();
+}
@@ -0,0 +1,76 @@
+/**
+ * Task store backends.
+ *
+ * Task state is persisted per agent workspace. The default "markdown" backend
+ * keeps one `tasks/task_*.md` file per task (see task-file-io.ts); the
+ * "sqlite" backend keeps every task of a workspace in `tasks/tasks.sqlite`
+ * with indexed columns for the common lookups and uses transactions instead
+ * of lock files.
+ *
+ * The backend is chosen with `OPENCLAW_TASK_STORE=markdown|sqlite` (default
+ * markdown) or programmatically with `setTaskStoreBackend()`. Callers keep
+ * using the task-file-io helpers; they delegate to the active backend.
+ */
+
+import type { TaskLock } from "../../infra/task-lock.js";
+import type { TaskFile, TaskStatus } from "./task-file-io.js";
+
+export type TaskStoreBackend = "markdown" | "sqlite";
+
+export type TaskQuery = {
+  status?: TaskStatus | "all";
+  assignee?: string;
+  workSessionId?: string;
+  milestoneId?: string;
+};
+
+export interface TaskStore {
+  readonly backend: TaskStoreBackend;
+  readTask(taskId: string): Promise<TaskFile | null>;
+  writeTask(task: TaskFile): Promise<void>;
+  deleteTask(taskId: string): Promise<void>;
+  /** Returns matching tasks sorted by priority, due date, start date, then creation time. */
+  queryTasks(query?: TaskQuery): Promise<TaskFile[]>;
+  hasTasks(): Promise<boolean>;
+  acquireLock(lockKey: string): Promise<TaskLock | null>;
+}
+
+const TASK_STORE_ENV = "OPENCLAW_TASK_STORE";
+
+let backendOverride: TaskStoreBackend | null = null;
+
+export function isTaskStoreBackend(value: unknown): value is TaskStoreBackend {
+  return value === "markdown" || value === "sqlite";
+}
+
+export function resolveTaskStoreBackend(env: NodeJS.ProcessEnv = process.env): TaskStoreBackend {
+  if (backendOverride) {
+    return backendOverride;
+  }
+  const raw = env[TASK_STORE_ENV]?.trim().toLowerCase();
+  return isTaskStoreBackend(raw) ? raw : "markdown";
+}
+
+/** Overrides the env-selected backend; pass null to fall back to the env again. */
+export function setTaskStoreBackend(backend: TaskStoreBackend | null): void {
+  backendOverride = backend;
+}
+
+export function matchesTaskQuery(task: TaskFile, query: TaskQuery | undefined): boolean {
+  if (!query) {
+    return true;
+  }
+  if (query.status && query.status !== "all" && task.status !== query.status) {
+    return false;
+  }
+  if (query.assignee && task.assignee !== query.assignee) {
+    return false;
+  }
+  if (query.workSessionId && task.workSessionId !== query.workSessionId) {
+    return false;
+  }
+  if (query.milestoneId && task.milestoneId !== query.milestoneId) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,170 @@
+/**
+ * task_start_from_template tool — start a task from a workspace template.
+ *
+ * Loads `templates/<name>.yaml` (see task-templates.ts) and creates a task
+ * with the template's steps, priority, effort and approval requirement. The
+ * template's verification criteria and gated tools are stored on the task so
+ * `task_verify` (action "criteria") and the task enforcer can act on them.
+ */
+
+import { Type } from "@sinclair/typebox";
+import type { OpenClawConfig } from "../../config/config.js";
+import { emit } from "../../infra/events/bus.js";
+import { EVENT_TYPES } from "../../infra/events/schemas.js";
+import { enableAgentManagedMode } from "../../infra/task-tracker.js";
+import { checkTaskTransition } from "../../plugins/coordination-hooks.js";
+import { resolveAgentWorkspaceDir, resolveSessionAgentId } from "../agent-scope.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult, readStringParam } from "./common.js";
+import {
+  type TaskFile,
+  type TaskPriority,
+  type TaskStatus,
+  generateTaskId,
+  generateWorkSessionId,
+  listTasks,
+  updateCurrentTaskPointer,
+  writeTask,
+} from "./task-file-io.js";
+import { listTaskTemplates, loadTaskTemplate, TaskTemplateError } from "./task-templates.js";
+
+const TaskStartFromTemplateSchema = Type.Object({
+  template: Type.String({ description: "Template name (file name in templates/ without .yaml)." }),
+  description: Type.Optional(
+    Type.String({ description: "Overrides the template description for this run." }),
+  ),
+  context: Type.Optional(Type.String()),
+  priority: Type.Optional(Type.String()),
+});
+
+export function createTaskStartFromTemplateTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const cfg = options.config;
+  if (!cfg) {
+    return null;
+  }
+
+  const agentId = resolveSessionAgentId({
+    sessionKey: options.agentSessionKey,
+    config: cfg,
+  });
+  const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+
+  return {
+    label: "Task Start From Template",
+    name: "task_start_from_template",
+    description:
+      "Start a task from a workspace template (templates/<name>.yaml) with predefined steps, priority, approval requirement and verification criteria. Check the criteria with task_verify(action: 'criteria') before task_complete.",
+    parameters: TaskStartFromTemplateSchema,
+    execute: async (_toolCallId, params) => {
+      const name = readStringParam(params, "template", { required: true });
+      const descriptionOverride = readStringParam(params, "description");
+      const contextParam = readStringParam(params, "context");
+      const priorityParam = readStringParam(params, "priority");
+
+      let template;
+      try {
+        template = await loadTaskTemplate(workspaceDir, name);
+      } catch (err) {
+        if (err instanceof TaskTemplateError) {
+          return jsonResult({ success: false, error: err.message });
+        }
+        throw err;
+      }
+      if (!template) {
+        return jsonResult({
+          success: false,
+          error: `Template not found: ${name}`,
+          available: await listTaskTemplates(workspaceDir),
+        });
+      }
+
+      const priority =
+        priorityParam && ["low", "medium", "high", "urgent"].includes(priorityParam)
+          ? (priorityParam as TaskPriority)
+          : template.priority;
+      const requiresApproval = template.requiresApproval;
+      const context = [template.context, contextParam].filter(Boolean).join("\n\n") || undefined;
+
+      const now = new Date().toISOString();
+      const taskId = generateTaskId();
+      const initialStatus: TaskStatus = requiresApproval ? "pending_approval" : "in_progress";
+      const workSessionId = generateWorkSessionId();
+
+      const newTask: TaskFile = {
+        id: taskId,
+        status: initialStatus,
+        priority,
+        description: descriptionOverride ?? template.description,
+        context,
+        source: "user",
+        created: now,
+        lastActivity: now,
+        workSessionId,
+        createdBySessionKey: options.agentSessionKey,
+        estimatedEffort: template.estimatedEffort,
+        progress: [
+          requiresApproval
+            ? `Task created from template ${template.name} - awaiting approval`
+            : `Task started from template ${template.name}`,
+        ],
+        steps:
+          template.steps.length > 0
+            ? template.steps.map((content, i) => ({
+                id: `s${i + 1}`,
+                content,
+                status: i === 0 && !requiresApproval ? "in_progress" : "pending",
+                order: i + 1,
+              }))
+            : undefined,
+        template: {
+          name: template.name,
+          requiredTools: template.requiredTools.length > 0 ? template.requiredTools : undefined,
+          gatedTools: template.gatedTools.length > 0 ? template.gatedTools : undefined,
+          skillGroups: template.skillGroups.length > 0 ? template.skillGroups : undefined,
+          criteria: template.criteria,
+        },
+      };
+
+      const transition = await checkTaskTransition(
+        { taskId, action: "start", to: initialStatus, description: newTask.description },
+        { agentId, sessionKey: options.agentSessionKey, workspaceDir },
+      );
+      if (!transition.allowed) {
+        return jsonResult({ success: false, blocked_by: "plugin", error: transition.reason });
+      }
+
+      await writeTask(workspaceDir, newTask);
+      emit({
+        type: EVENT_TYPES.TASK_STARTED,
+        agentId,
+        ts: Date.now(),
+        data: { taskId, priority, requiresApproval, workSessionId, template: template.name },
+      });
+      await updateCurrentTaskPointer(workspaceDir, taskId);
+
+      if (!requiresApproval) {
+        enableAgentManagedMode(agentId);
+      }
+
+      const allTasks = await listTasks(workspaceDir);
+
+      return jsonResult({
+        success: true,
+        taskId,
+        template: template.name,
+        status: initialStatus,
+        requiresApproval,
+        priority,
+        workSessionId,
+        totalActiveTasks: allTasks.length,
+        steps: newTask.steps?.map((s) => ({ id: s.id, content: s.content, status: s.status })),
+        requiredTools: template.requiredTools,
+        gatedTools: template.gatedTools,
+        verificationCriteria: template.criteria.length,
+      });
+    },
+  };
+}
@@ -0,0 +1,237 @@
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { checkTaskTransition } from "../../plugins/coordination-hooks.js";
+import { listTasks, readTask, writeTask } from "./task-file-io.js";
+import { createTaskStartFromTemplateTool } from "./task-template-tool.js";
+import {
+  evaluateVerificationCriteria,
+  listTaskTemplates,
+  loadTaskTemplate,
+  parseTaskTemplate,
+  TaskTemplateError,
+} from "./task-templates.js";
+
+vi.mock("../../plugins/coordination-hooks.js", () => ({
+  checkTaskTransition: vi.fn(async () => ({ allowed: true })),
+}));
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-templates-"));
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+async function writeTemplate(name: string, content: string) {
+  await fs.mkdir(path.join(tmpDir, "templates"), { recursive: true });
+  await fs.writeFile(path.join(tmpDir, "templates", name), content, "utf-8");
+}
+
+describe("task templates", () => {
+  it("loads and validates a workspace template", async () => {
+    await writeTemplate(
+      "release.yaml",
+      [
+        "description: Cut a release",
+        "priority: high",
+        "estimatedEffort: medium",
+        "requiresApproval: true",
+        "gatedTools: [message]",
+        "steps:",
+        "  - Bump the version",
+        "  - Run the tests",
+        "verify:",
+        "  - { type: file_exists, path: CHANGELOG.md }",
+        "  - { type: keyword, path: CHANGELOG.md, keyword: v1.2.0 }",
+      ].join("\n"),
+    );
+    await writeTemplate("weekly-report.yml", "description: Weekly report\n");
+    await writeTemplate("notes.txt", "ignored");
+
+    expect(await listTaskTemplates(tmpDir)).toEqual(["release", "weekly-report"]);
+    const template = await loadTaskTemplate(tmpDir, "release");
+    expect(template).toMatchObject({
+      name: "release",
+      priority: "high",
+      estimatedEffort: "medium",
+      requiresApproval: true,
+      gatedTools: ["message"],
+      requiredTools: [],
+      steps: ["Bump the version", "Run the tests"],
+    });
+    expect(template?.criteria).toHaveLength(2);
+    expect(await loadTaskTemplate(tmpDir, "missing")).toBeNull();
+  });
+
+  it("rejects invalid templates with a descriptive error", async () => {
+    expect(() => parseTaskTemplate("bad", { description: "x", priority: "asap" })).toThrow(
+      'invalid priority "asap"',
+    );
+    expect(() =>
+      parseTaskTemplate("bad", { description: "x", verify: [{ type: "ping", host: "x" }] }),
+    ).toThrow("verify[0]: unknown type");
+    expect(() =>
+      parseTaskTemplate("bad", { description: "x", verify: [{ type: "keyword", keyword: "ok" }] }),
+    ).toThrow("keyword needs a keyword and a path");
+    expect(() =>
+      parseTaskTemplate("bad", {
+        description: "x",
+        verify: [{ type: "command", command: "pnpm test" }],
+      }),
+    ).toThrow("commands run without a shell; put the arguments in args");
+    expect(() =>
+      parseTaskTemplate("bad", {
+        description: "x",
+        verify: [{ type: "command", command: "pnpm", args: "test" }],
+      }),
+    ).toThrow("command args must be a list of strings");
+    await expect(loadTaskTemplate(tmpDir, "../escape")).rejects.toBeInstanceOf(TaskTemplateError);
+  });
+
+  it("stores the template reference on the task file", async () => {
+    await writeTask(tmpDir, {
+      id: "task_tpl",
+      status: "in_progress",
+      priority: "high",
+      description: "Cut a release",
+      created: "2026-03-01T00:00:00.000Z",
+      lastActivity: "2026-03-01T00:00:00.000Z",
+      progress: [],
+      estimatedEffort: "medium",
+      template: {
+        name: "release",
+        gatedTools: ["message"],
+        criteria: [{ type: "file_exists", path: "CHANGELOG.md" }],
+      },
+    });
+    const task = await readTask(tmpDir, "task_tpl");
+    expect(task?.estimatedEffort).toBe("medium");
+    expect(task?.template).toEqual({
+      name: "release",
+      gatedTools: ["message"],
+      criteria: [{ type: "file_exists", path: "CHANGELOG.md" }],
+    });
+  });
+});
+
+describe("task_start_from_template", () => {
+  it("does not create the task when a plugin blocks the start", async () => {
+    await writeTemplate("release.yaml", "description: Cut a release\n");
+    vi.mocked(checkTaskTransition).mockResolvedValueOnce({
+      allowed: false,
+      reason: "Task creation is frozen",
+    });
+    const cfg = { agents: { list: [{ id: "main", workspace: tmpDir }] } } as OpenClawConfig;
+    const tool = createTaskStartFromTemplateTool({ config: cfg });
+    const result = await tool!.execute("call-1", { template: "release" });
+
+    expect(result.details).toEqual({
+      success: false,
+      blocked_by: "plugin",
+      error: "Task creation is frozen",
+    });
+    expect(checkTaskTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "start", to: "in_progress", description: "Cut a release" }),
+      expect.objectContaining({ agentId: "main", workspaceDir: tmpDir }),
+    );
+    expect(await listTasks(tmpDir)).toEqual([]);
+  });
+});
+
+describe("evaluateVerificationCriteria", () => {
+  let server: http.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it("checks files, urls and keywords", async () => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url === "/health" ? 200 : 503;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    await fs.writeFile(path.join(tmpDir, "CHANGELOG.md"), "## v1.2.0\n", "utf-8");
+
+    const report = await evaluateVerificationCriteria(
+      [
+        { type: "file_exists", path: "CHANGELOG.md" },
+        { type: "file_exists", path: "dist/app.js" },
+        { type: "http", url: `${base}/health` },
+        { type: "http", url: `${base}/down` },
+        { type: "keyword", path: "CHANGELOG.md", keyword: "v1.2.0" },
+        { type: "keyword", path: "CHANGELOG.md", keyword: "v1.3.0" },
+        { type: "keyword", path: "NOTES.md", keyword: "v1.2.0" },
+      ],
+      { cwd: tmpDir, nowMs: Date.parse("2026-03-01T00:00:00.000Z") },
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.checkedAt).toBe("2026-03-01T00:00:00.000Z");
+    expect(report.checks.map((check) => check.passed)).toEqual([
+      true,
+      false,
+      true,
+      false,
+      true,
+      false,
+      false,
+    ]);
+    expect(report.checks[3]?.detail).toContain("returned 503 (expected 200)");
+    expect(report.checks[5]?.detail).toBe('"v1.3.0" missing from CHANGELOG.md');
+    expect(report.checks[6]?.detail).toBe("NOTES.md not found");
+  });
+
+  it("runs command criteria as argv in the workspace", async () => {
+    const report = await evaluateVerificationCriteria(
+      [
+        { type: "command", command: process.execPath, args: ["-e", "process.exit(0)"] },
+        {
+          type: "command",
+          command: process.execPath,
+          args: ["-e", "console.error('lint failed'); process.exit(3)"],
+        },
+        {
+          type: "command",
+          command: process.execPath,
+          args: ["-e", "require('fs').accessSync('marker.txt')"],
+        },
+      ],
+      { cwd: tmpDir },
+    );
+
+    expect(report.checks.map((check) => check.passed)).toEqual([true, false, false]);
+    expect(report.checks[1]?.detail).toContain("exited with 3: lint failed");
+  });
+
+  it("keeps file criteria inside the workspace", async () => {
+    const outside = path.join(path.dirname(tmpDir), "outside.md");
+    const report = await evaluateVerificationCriteria(
+      [
+        { type: "file_exists", path: "../outside.md" },
+        { type: "file_exists", path: outside },
+        { type: "keyword", path: "../outside.md", keyword: "secret" },
+      ],
+      { cwd: tmpDir },
+    );
+
+    expect(report.checks.map((check) => check.passed)).toEqual([false, false, false]);
+    expect(report.checks[0]?.detail).toBe("../outside.md is outside the workspace");
+    expect(report.checks[1]?.detail).toBe(`${outside} is outside the workspace`);
+  });
+
+  it("passes an empty criteria list", async () => {
+    const report = await evaluateVerificationCriteria([], { cwd: tmpDir });
+    expect(report).toMatchObject({ passed: true, checks: [] });
+  });
+});
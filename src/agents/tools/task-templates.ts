@@ -0,0 +1,362 @@
+/**
+ * Task templates — reusable task definitions stored in the workspace.
+ *
+ * A template lives at `<workspace>/templates/<name>.yaml` and describes a
+ * recurring workflow (release, incident, weekly report): its steps, default
+ * priority and effort, whether it needs approval, the tools it relies on or
+ * gates behind approval, and machine-checkable verification criteria that
+ * `task_verify` (action "criteria") evaluates.
+ *
+ * ```yaml
+ * description: Cut a release
+ * priority: high
+ * estimatedEffort: medium
+ * requiresApproval: true
+ * requiredTools: [exec]
+ * gatedTools: [message]
+ * steps:
+ *   - Bump the version
+ *   - Run the test suite
+ * verify:
+ *   - { type: file_exists, path: CHANGELOG.md }
+ *   - { type: http, url: "http://127.0.0.1:3000/health" }
+ *   - { type: keyword, path: CHANGELOG.md, keyword: v1.2.0 }
+ *   - { type: command, command: pnpm, args: [test], timeoutMs: 300000 }
+ * ```
+ *
+ * Criteria never go through a shell: a `command` criterion runs its argv in the
+ * workspace with a timeout, and file paths must stay inside the workspace.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import { runCommandWithTimeout } from "../../process/exec.js";
+import type {
+  EstimatedEffort,
+  TaskPriority,
+  TaskVerificationCheck,
+  TaskVerificationCriterion,
+  TaskVerificationReport,
+} from "./task-file-io.js";
+
+const TEMPLATES_DIR = "templates";
+const TEMPLATE_EXTENSIONS = [".yaml", ".yml"];
+const TEMPLATE_NAME_RE = /^[a-z0-9][a-z0-9_-]*$/i;
+const PRIORITIES = new Set<TaskPriority>(["low", "medium", "high", "urgent"]);
+const EFFORTS = new Set<EstimatedEffort>(["small", "medium", "large"]);
+
+const DEFAULT_CHECK_TIMEOUT_MS = 60_000;
+const MAX_CHECK_TIMEOUT_MS = 10 * 60_000;
+const STDERR_TAIL_CHARS = 400;
+
+export type TaskTemplate = {
+  name: string;
+  description: string;
+  context?: string;
+  priority: TaskPriority;
+  estimatedEffort?: EstimatedEffort;
+  requiresApproval: boolean;
+  requiredTools: string[];
+  gatedTools: string[];
+  /** Skill groups listed in the prompt while a task from this template is active. */
+  skillGroups: string[];
+  steps: string[];
+  criteria: TaskVerificationCriterion[];
+};
+
+export class TaskTemplateError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TaskTemplateError";
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function asStringList(value: unknown, field: string, name: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new TaskTemplateError(`Template "${name}": ${field} must be a list`);
+  }
+  return value.map((entry) => asString(entry)).filter((entry): entry is string => Boolean(entry));
+}
+
+function asTimeout(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.min(value, MAX_CHECK_TIMEOUT_MS)
+    : undefined;
+}
+
+function parseCriterion(raw: unknown, index: number, name: string): TaskVerificationCriterion {
+  const where = `Template "${name}": verify[${index}]`;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new TaskTemplateError(`${where} must be an object with a type`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const timeoutMs = asTimeout(entry.timeoutMs);
+  switch (entry.type) {
+    case "file_exists": {
+      const filePath = asString(entry.path);
+      if (!filePath) {
+        throw new TaskTemplateError(`${where}: file_exists needs a path`);
+      }
+      return { type: "file_exists", path: filePath };
+    }
+    case "http": {
+      const url = asString(entry.url);
+      if (!url || !/^https?:\/\//i.test(url)) {
+        throw new TaskTemplateError(`${where}: http needs an http(s) url`);
+      }
+      const status = typeof entry.status === "number" ? entry.status : undefined;
+      return { type: "http", url, status, timeoutMs };
+    }
+    case "keyword": {
+      const keyword = asString(entry.keyword);
+      const filePath = asString(entry.path);
+      if (!keyword || !filePath) {
+        throw new TaskTemplateError(`${where}: keyword needs a keyword and a path`);
+      }
+      return { type: "keyword", keyword, path: filePath };
+    }
+    case "command": {
+      const command = asString(entry.command);
+      if (!command) {
+        throw new TaskTemplateError(`${where}: command needs a command`);
+      }
+      const args = entry.args ?? [];
+      if (!Array.isArray(args) || args.some((arg) => typeof arg !== "string")) {
+        throw new TaskTemplateError(`${where}: command args must be a list of strings`);
+      }
+      if (args.length === 0 && /\s/.test(command)) {
+        throw new TaskTemplateError(
+          `${where}: commands run without a shell; put the arguments in args`,
+        );
+      }
+      return {
+        type: "command",
+        command,
+        args: args.length > 0 ? (args as string[]) : undefined,
+        timeoutMs,
+      };
+    }
+    default:
+      throw new TaskTemplateError(
+        `${where}: unknown type ${JSON.stringify(entry.type)} (expected file_exists, http, keyword or command)`,
+      );
+  }
+}
+
+/** Validate a parsed template document. Throws TaskTemplateError on invalid input. */
+export function parseTaskTemplate(name: string, raw: unknown): TaskTemplate {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new TaskTemplateError(`Template "${name}" must be a YAML mapping`);
+  }
+  const doc = raw as Record<string, unknown>;
+  const description = asString(doc.description);
+  if (!description) {
+    throw new TaskTemplateError(`Template "${name}" needs a description`);
+  }
+
+  const priority = asString(doc.priority) ?? "medium";
+  if (!PRIORITIES.has(priority as TaskPriority)) {
+    throw new TaskTemplateError(`Template "${name}": invalid priority "${priority}"`);
+  }
+  const effort = asString(doc.estimatedEffort);
+  if (effort && !EFFORTS.has(effort as EstimatedEffort)) {
+    throw new TaskTemplateError(`Template "${name}": invalid estimatedEffort "${effort}"`);
+  }
+  const verify = doc.verify ?? [];
+  if (!Array.isArray(verify)) {
+    throw new TaskTemplateError(`Template "${name}": verify must be a list`);
+  }
+
+  return {
+    name,
+    description,
+    context: asString(doc.context),
+    priority: priority as TaskPriority,
+    estimatedEffort: effort as EstimatedEffort | undefined,
+    requiresApproval: doc.requiresApproval === true,
+    requiredTools: asStringList(doc.requiredTools, "requiredTools", name),
+    gatedTools: asStringList(doc.gatedTools, "gatedTools", name),
+    skillGroups: asStringList(doc.skillGroups, "skillGroups", name).map((group) =>
+      group.toLowerCase(),
+    ),
+    steps: asStringList(doc.steps, "steps", name),
+    criteria: verify.map((entry, index) => parseCriterion(entry, index, name)),
+  };
+}
+
+export function resolveTemplatesDir(workspaceDir: string): string {
+  return path.join(workspaceDir, TEMPLATES_DIR);
+}
+
+/** Names of the templates available in a workspace, sorted. */
+export async function listTaskTemplates(workspaceDir: string): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(resolveTemplatesDir(workspaceDir));
+  } catch {
+    return [];
+  }
+  const names = new Set<string>();
+  for (const file of files) {
+    const ext = path.extname(file).toLowerCase();
+    const base = path.basename(file, path.extname(file));
+    if (TEMPLATE_EXTENSIONS.includes(ext) && TEMPLATE_NAME_RE.test(base)) {
+      names.add(base);
+    }
+  }
+  return [...names].toSorted();
+}
+
+/**
+ * Load `<workspace>/templates/<name>.yaml` (or `.yml`).
+ * Returns null when the template does not exist; throws TaskTemplateError when it is invalid.
+ */
+export async function loadTaskTemplate(
+  workspaceDir: string,
+  name: string,
+): Promise<TaskTemplate | null> {
+  if (!TEMPLATE_NAME_RE.test(name)) {
+    throw new TaskTemplateError(`Invalid template name "${name}"`);
+  }
+  for (const ext of TEMPLATE_EXTENSIONS) {
+    let content: string;
+    try {
+      content = await fs.readFile(
+        path.join(resolveTemplatesDir(workspaceDir), name + ext),
+        "utf-8",
+      );
+    } catch {
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = YAML.parse(content);
+    } catch (err) {
+      throw new TaskTemplateError(`Template "${name}" is not valid YAML: ${String(err)}`, {
+        cause: err,
+      });
+    }
+    return parseTaskTemplate(name, parsed);
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+export type VerificationOptions = {
+  /** Directory relative paths resolve against (the agent workspace). */
+  cwd: string;
+  fetchImpl?: typeof fetch;
+  nowMs?: number;
+};
+
+/** Absolute path of `relPath` inside the workspace, or undefined when it escapes it. */
+function resolveWorkspacePath(cwd: string, relPath: string): string | undefined {
+  const root = path.resolve(cwd);
+  const target = path.resolve(root, relPath);
+  const rel = path.relative(root, target);
+  if (!rel || rel === ".." || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel)) {
+    return undefined;
+  }
+  return target;
+}
+
+async function checkCriterion(
+  criterion: TaskVerificationCriterion,
+  opts: VerificationOptions,
+): Promise<Omit<TaskVerificationCheck, "criterion">> {
+  switch (criterion.type) {
+    case "file_exists": {
+      const target = resolveWorkspacePath(opts.cwd, criterion.path);
+      if (!target) {
+        return { passed: false, detail: `${criterion.path} is outside the workspace` };
+      }
+      try {
+        await fs.access(target);
+        return { passed: true, detail: `${criterion.path} exists` };
+      } catch {
+        return { passed: false, detail: `${criterion.path} not found` };
+      }
+    }
+    case "http": {
+      const expected = criterion.status ?? 200;
+      const fetchImpl = opts.fetchImpl ?? fetch;
+      try {
+        const res = await fetchImpl(criterion.url, {
+          signal: AbortSignal.timeout(criterion.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS),
+        });
+        return {
+          passed: res.status === expected,
+          detail: `${criterion.url} returned ${res.status} (expected ${expected})`,
+        };
+      } catch (err) {
+        return { passed: false, detail: `${criterion.url} failed: ${String(err)}` };
+      }
+    }
+    case "keyword": {
+      const target = resolveWorkspacePath(opts.cwd, criterion.path);
+      if (!target) {
+        return { passed: false, detail: `${criterion.path} is outside the workspace` };
+      }
+      let output: string;
+      try {
+        output = await fs.readFile(target, "utf-8");
+      } catch {
+        return { passed: false, detail: `${criterion.path} not found` };
+      }
+      return output.includes(criterion.keyword)
+        ? { passed: true, detail: `"${criterion.keyword}" found in ${criterion.path}` }
+        : { passed: false, detail: `"${criterion.keyword}" missing from ${criterion.path}` };
+    }
+    case "command": {
+      const argv = [criterion.command, ...(criterion.args ?? [])];
+      const label = argv.join(" ");
+      const result = await runCommandWithTimeout(argv, {
+        timeoutMs: criterion.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS,
+        cwd: opts.cwd,
+      });
+      if (result.termination === "timeout" || result.termination === "no-output-timeout") {
+        return { passed: false, detail: `${label} timed out` };
+      }
+      if (result.code === 0) {
+        return { passed: true, detail: `${label} exited with 0` };
+      }
+      const stderr = result.stderr.trim().slice(-STDERR_TAIL_CHARS);
+      return {
+        passed: false,
+        detail: `${label} exited with ${result.code ?? result.signal}${stderr ? `: ${stderr}` : ""}`,
+      };
+    }
+  }
+  return { passed: false, detail: "unknown criterion" };
+}
+
+/** Evaluate every criterion in order. An empty list passes. */
+export async function evaluateVerificationCriteria(
+  criteria: TaskVerificationCriterion[],
+  opts: VerificationOptions,
+): Promise<TaskVerificationReport> {
+  const checks: TaskVerificationCheck[] = [];
+  for (const criterion of criteria) {
+    try {
+      checks.push({ criterion, ...(await checkCriterion(criterion, opts)) });
+    } catch (err) {
+      checks.push({ criterion, passed: false, detail: `check failed: ${String(err)}` });
+    }
+  }
+  return {
+    checkedAt: new Date(opts.nowMs ?? Date.now()).toISOString(),
+    passed: checks.every((check) => check.passed),
+    checks,
+  };
+}
@@ -33,6 +33,11 @@ vi.mock("../../infra/task-tracker.js", () => ({
   disableAgentManagedMode: vi.fn(),
 }));
 
+vi.mock("../../plugins/coordination-hooks.js", () => ({
+  checkTaskTransition: vi.fn(async () => ({ allowed: true })),
+}));
+
+import { checkTaskTransition } from "../../plugins/coordination-hooks.js";
 import {
   createTaskApproveTool,
   createTaskBlockTool,
@@ -82,6 +87,26 @@ describe("task-tool", () => {
       expect(parsed.taskId).toMatch(/^task_/);
     });
 
+    it("does not create the task when a plugin blocks the transition", async () => {
+      vi.mocked(checkTaskTransition).mockResolvedValueOnce({
+        allowed: false,
+        reason: "Task creation is frozen",
+      });
+      const tool = createTaskStartTool({ config: mockConfig });
+      const result = await tool!.execute("call-1", { description: "Test task" });
+
+      expect(result.details).toEqual({
+        success: false,
+        blocked_by: "plugin",
+        error: "Task creation is frozen",
+      });
+      expect(checkTaskTransition).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "start", to: "in_progress", description: "Test task" }),
+        expect.objectContaining({ agentId: "main", workspaceDir: "/workspace/main" }),
+      );
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
     it("respects custom priority", async () => {
       const tool = createTaskStartTool({ config: mockConfig });
       const result = await tool!.execute("call-1", {
@@ -726,6 +751,61 @@ Active task
       expect(parsed.error).toContain("not pending approval");
     });
 
+    it("leaves tasks with gated tools to an approver", async () => {
+      const gatedTask = `# Task: task_gated123
+
+## Metadata
+- **Status:** pending_approval
+- **Priority:** high
+- **Created:** 2026-02-04T11:00:00.000Z
+
+## Description
+Cut a release
+
+## Template
+\`\`\`json
+{"name":"release","gatedTools":["message"],"criteria":[]}
+\`\`\`
+
+## Progress
+- Task created from template release - awaiting approval
+
+## Last Activity
+2026-02-04T11:00:00.000Z
+
+---
+*Managed by task tools*`;
+
+      vi.mocked(fs.readdir).mockResolvedValue([]);
+      vi.mocked(fs.readFile).mockImplementation(async (filePath) => {
+        if ((filePath as string).includes("task_gated123")) {
+          return gatedTask;
+        }
+        throw new Error("Not found");
+      });
+
+      const selfApproval = await createTaskApproveTool({ config: mockConfig })!.execute("call-1", {
+        task_id: "task_gated123",
+      });
+      expect(selfApproval.details).toMatchObject({ success: false });
+      expect((selfApproval.details as { error: string }).error).toContain("an approver");
+      expect(
+        vi
+          .mocked(fs.writeFile)
+          .mock.calls.some((call) => (call[0] as string).includes("task_gated123")),
+      ).toBe(false);
+
+      const approved = await createTaskApproveTool({
+        config: mockConfig,
+        approvedBy: "operator",
+      })!.execute("call-2", { task_id: "task_gated123" });
+      expect(approved.details).toMatchObject({ success: true, approved: true });
+      const writeCall = vi
+        .mocked(fs.writeFile)
+        .mock.calls.find((call) => (call[0] as string).includes("task_gated123"));
+      expect(writeCall![1] as string).toContain("- Task approved by operator and started");
+    });
+
     it("returns error for non-existent task", async () => {
       vi.mocked(fs.readFile).mockRejectedValue(new Error("Not found"));
 
@@ -1091,6 +1171,15 @@ import { createTaskBacklogAddTool, createTaskPickBacklogTool } from "./task-tool
 
 describe("backlog functionality", () => {
   describe("createTaskBacklogAddTool", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+      vi.mocked(fs.readdir).mockResolvedValue([]);
+      vi.mocked(fs.readFile).mockReset();
+    });
+
     it("returns null when config is missing", () => {
       const tool = createTaskBacklogAddTool({});
       expect(tool).toBeNull();
@@ -1143,7 +1232,55 @@ describe("backlog functionality", () => {
       expect(parsed.dueDate).toBe("2026-03-15");
     });
 
+    function backlogTaskFile(id: string, dependsOn: string[] = []) {
+      return `# Task: ${id}
+
+## Metadata
+- **Status:** backlog
+- **Priority:** medium
+- **Created:** 2026-02-04T10:00:00.000Z
+
+## Description
+${id}
+
+## Progress
+- Added to backlog
+
+## Last Activity
+2026-02-04T10:00:00.000Z
+
+## Backlog
+${JSON.stringify({ dependsOn })}
+
+---
+*Managed by task tools*`;
+    }
+
+    function mockWorkspace(tasks: Record<string, string>, history = "") {
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+        if (dir.endsWith("task-history")) {
+          return history ? ["2026-02.md"] : [];
+        }
+        return Object.keys(tasks).map((id) => `${id}.md`);
+      }) as never);
+      vi.mocked(fs.readFile).mockImplementation(async (filePath) => {
+        const file = filePath as string;
+        if (file.endsWith("2026-02.md")) {
+          return history;
+        }
+        const id = Object.keys(tasks).find((taskId) => file.endsWith(`${taskId}.md`));
+        if (!id) {
+          throw new Error("ENOENT");
+        }
+        return tasks[id];
+      });
+    }
+
     it("creates backlog task with dependencies", async () => {
+      mockWorkspace(
+        { task_abc123: backlogTaskFile("task_abc123") },
+        "# Task History - February 2026\n\n## [2026-02-05T10:00:00.000Z] Done\n\n**Task ID:** task_def456\n",
+      );
       const tool = createTaskBacklogAddTool({ config: mockConfig });
       const result = await tool!.execute("call-1", {
         description: "Dependent task",
@@ -1155,6 +1292,38 @@ describe("backlog functionality", () => {
       expect(parsed.dependsOn).toEqual(["task_abc123", "task_def456"]);
     });
 
+    it("rejects dependencies that match no task or archived task", async () => {
+      mockWorkspace({ task_abc123: backlogTaskFile("task_abc123") });
+      const tool = createTaskBacklogAddTool({ config: mockConfig });
+      const result = await tool!.execute("call-1", {
+        description: "Dependent task",
+        depends_on: ["task_abc123", "task_typo"],
+      });
+
+      const parsed = result.details as Record<string, unknown>;
+      expect(parsed.success).toBe(false);
+      expect(parsed.unknownDependencies).toEqual(["task_typo"]);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it("rejects a dependency on tasks already stuck in a cycle", async () => {
+      mockWorkspace({
+        task_a: backlogTaskFile("task_a", ["task_b"]),
+        task_b: backlogTaskFile("task_b", ["task_a"]),
+      });
+      const tool = createTaskBacklogAddTool({ config: mockConfig });
+      const result = await tool!.execute("call-1", {
+        description: "Dependent task",
+        depends_on: ["task_a"],
+      });
+
+      const parsed = result.details as Record<string, unknown>;
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain("Dependency cycle detected");
+      expect(parsed.cycle).toEqual(["task_a", "task_b", "task_a"]);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
     it("respects requester priority for cross-agent requests", async () => {
       const tool = createTaskBacklogAddTool({ config: mockConfig });
       const result = await tool!.execute("call-1", {
@@ -13,6 +13,7 @@ export type {
 export {
   readTask,
   writeTask,
+  listTasks,
   findActiveTask,
   findPendingTasks,
   findPendingApprovalTasks,
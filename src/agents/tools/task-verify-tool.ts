@@ -4,11 +4,17 @@
  * Allows the parent agent to accept, reject, or retry a subagent's
  * delegated work. Operates on delegation records stored in the task file.
  *
+ * The "criteria" action instead evaluates the verification criteria of a
+ * task started from a template (see task-templates.ts) and records the report.
+ *
  * @see 11-subagent-task-lifecycle.md (Phase 4)
  */
 
 import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
+import { emit } from "../../infra/events/bus.js";
+import { EVENT_TYPES } from "../../infra/events/schemas.js";
+import { acquireTaskLock } from "../../infra/task-lock.js";
 import { resolveAgentWorkspaceDir, resolveSessionAgentId } from "../agent-scope.js";
 import { optionalStringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
@@ -23,20 +29,22 @@ import {
   readTaskDelegations,
   updateDelegationInTask,
 } from "./task-delegation-persistence.js";
+import { readTask, writeTask } from "./task-file-io.js";
+import { evaluateVerificationCriteria } from "./task-templates.js";
 
 // ---------------------------------------------------------------------------
 // Schema
 // ---------------------------------------------------------------------------
 
 const TaskVerifySchema = Type.Object({
-  taskId: Type.String({ description: "The task ID containing the delegation to verify." }),
+  taskId: Type.String({ description: "The task ID containing the delegation (or template criteria) to verify." }),
   delegationId: Type.Optional(
     Type.String({
       description:
         "Specific delegation ID to verify. If omitted, the latest completed delegation is used.",
     }),
   ),
-  action: optionalStringEnum(["accept", "reject", "retry"] as const),
+  action: optionalStringEnum(["accept", "reject", "retry", "criteria"] as const),
   note: Type.Optional(
     Type.String({ description: "Optional verification note explaining the decision." }),
   ),
@@ -65,15 +73,71 @@ export function createTaskVerifyTool(options: {
     label: "Task Verify",
     name: "task_verify",
     description:
-      "Verify a subagent delegation result. Use 'accept' to approve the result, 'reject' to deny it (with optional auto-retry), or 'retry' to explicitly re-run. Defaults to 'accept' if no action specified.",
+      "Verify a subagent delegation result. Use 'accept' to approve the result, 'reject' to deny it (with optional auto-retry), or 'retry' to explicitly re-run. Defaults to 'accept' if no action specified. Use 'criteria' to run the verification criteria of a task started from a template.",
     parameters: TaskVerifySchema,
     execute: async (_toolCallId, args) => {
       const params = args as Record<string, unknown>;
       const taskId = readStringParam(params, "taskId", { required: true });
       const delegationId = readStringParam(params, "delegationId");
-      const action = (readStringParam(params, "action") || "accept") as string;
+      const action = readStringParam(params, "action") || "accept";
       const note = readStringParam(params, "note");
 
+      if (action === "criteria") {
+        const task = await readTask(workspaceDir, taskId);
+        if (!task) {
+          return jsonResult({ error: `Task not found: ${taskId}` });
+        }
+        if (!task.template) {
+          return jsonResult({
+            error: "Task was not started from a template and has no verification criteria.",
+          });
+        }
+
+        const report = await evaluateVerificationCriteria(task.template.criteria, {
+          cwd: workspaceDir,
+        });
+        const failed = report.checks.filter((check) => !check.passed);
+
+        const lock = await acquireTaskLock(workspaceDir, taskId);
+        if (!lock) {
+          return jsonResult({ error: `Task ${taskId} is locked by another operation` });
+        }
+        try {
+          const fresh = await readTask(workspaceDir, taskId);
+          if (fresh?.template) {
+            fresh.template.lastVerification = report;
+            fresh.progress.push(
+              report.passed
+                ? `Verification passed (${report.checks.length} criteria)${note ? `: ${note}` : ""}`
+                : `Verification failed: ${failed.map((check) => check.detail).join("; ")}`,
+            );
+            fresh.lastActivity = report.checkedAt;
+            await writeTask(workspaceDir, fresh);
+          }
+        } finally {
+          await lock.release();
+        }
+        emit({
+          type: EVENT_TYPES.TASK_UPDATED,
+          agentId,
+          ts: Date.now(),
+          data: { taskId, template: task.template.name, verificationPassed: report.passed },
+        });
+
+        return jsonResult({
+          status: report.passed ? "passed" : "failed",
+          template: task.template.name,
+          checks: report.checks.map((check) => ({
+            type: check.criterion.type,
+            passed: check.passed,
+            detail: check.detail,
+          })),
+          message: report.passed
+            ? "All verification criteria passed. The task can be completed."
+            : `${failed.length} of ${report.checks.length} criteria failed. Fix them and run task_verify(action: 'criteria') again.`,
+        });
+      }
+
       // Read task + delegations
       const taskData = await readTaskDelegations(workspaceDir, taskId);
       if (!taskData) {
@@ -221,7 +285,7 @@ export function createTaskVerifyTool(options: {
         });
       }
 
-      return jsonResult({ error: `Unknown action: ${action}. Use 'accept', 'reject', or 'retry'.` });
+      return jsonResult({ error: `Unknown action: ${action}. Use 'accept', 'reject', 'retry' or 'criteria'.` });
     },
   };
 }
@@ -172,6 +172,13 @@ function buildChatCommands(): ChatCommandDefinition[] {
       textAlias: "/status",
       category: "status",
     }),
+    defineChatCommand({
+      key: "team",
+      nativeName: "team",
+      description: "Show which agents are active, idle, stuck or backing off.",
+      textAlias: "/team",
+      category: "status",
+    }),
     defineChatCommand({
       key: "allowlist",
       description: "List/add/remove allowlist entries.",
@@ -188,6 +195,14 @@ function buildChatCommands(): ChatCommandDefinition[] {
       acceptsArgs: true,
       category: "management",
     }),
+    defineChatCommand({
+      key: "approvals",
+      nativeName: "approvals",
+      description: "List approvals waiting on a human, or approve/reject one.",
+      textAlias: "/approvals",
+      acceptsArgs: true,
+      category: "status",
+    }),
     defineChatCommand({
       key: "context",
       nativeName: "context",
@@ -693,9 +708,9 @@ function buildChatCommands(): ChatCommandDefinition[] {
       args: [
         {
           name: "mode",
-          description: "queue mode",
+          description: "queue mode, or status to list queued messages",
           type: "string",
-          choices: ["steer", "interrupt", "followup", "collect", "steer-backlog"],
+          choices: ["steer", "interrupt", "followup", "collect", "steer-backlog", "status"],
         },
         {
           name: "debounce",
@@ -142,6 +142,13 @@ describe("directive parsing", () => {
     expect(res.invalidHost).toBe(true);
   });
 
+  it("matches queue status directive", () => {
+    const res = extractQueueDirective("/queue status");
+    expect(res.hasDirective).toBe(true);
+    expect(res.queueStatus).toBe(true);
+    expect(res.queueMode).toBeUndefined();
+    expect(res.cleaned).toBe("");
+  });
   it("matches queue directive", () => {
     const res = extractQueueDirective("please /queue interrupt now");
     expect(res.hasDirective).toBe(true);
@@ -0,0 +1,109 @@
+import { resolveStateDir } from "../../config/paths.js";
+import { logVerbose } from "../../globals.js";
+import { APPROVALS_COMMAND, submitApprovalDecision } from "../../infra/approval-inbox-channels.js";
+import {
+  formatApprovalList,
+  isApprovalInboxApprover,
+  listApprovals,
+  resolveApprovalInboxConfig,
+  type ApprovalDecision,
+} from "../../infra/approval-inbox.js";
+import { isInternalMessageChannel } from "../../utils/message-channel.js";
+import type { CommandHandler } from "./commands-types.js";
+
+const USAGE = "Usage: /approvals [approve|reject <id> [reason]]";
+
+type ParsedApprovalsCommand =
+  | { action: "list" }
+  | { action: "decide"; decision: ApprovalDecision; id: string; reason?: string }
+  | { action: "error"; error: string };
+
+function parseApprovalsCommand(raw: string): ParsedApprovalsCommand | null {
+  const trimmed = raw.trim();
+  if (trimmed !== APPROVALS_COMMAND && !trimmed.startsWith(`${APPROVALS_COMMAND} `)) {
+    return null;
+  }
+  const tokens = trimmed.slice(APPROVALS_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || tokens[0].toLowerCase() === "list") {
+    return { action: "list" };
+  }
+  const verb = tokens[0].toLowerCase();
+  const decision = verb === "approve" ? "approve" : verb === "reject" ? "reject" : null;
+  if (!decision || !tokens[1]) {
+    return { action: "error", error: USAGE };
+  }
+  const reason = tokens.slice(2).join(" ").trim();
+  return { action: "decide", decision, id: tokens[1], ...(reason ? { reason } : {}) };
+}
+
+export const handleApprovalsCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const parsed = parseApprovalsCommand(params.command.commandBodyNormalized);
+  if (!parsed) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /approvals from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  if (parsed.action === "error") {
+    return { shouldContinue: false, reply: { text: parsed.error } };
+  }
+
+  const config = resolveApprovalInboxConfig(params.cfg);
+  if (parsed.action === "list") {
+    if (!config.enabled) {
+      return {
+        shouldContinue: false,
+        reply: { text: "⚠️ Approval inbox is disabled (approvals.inbox.enabled)." },
+      };
+    }
+    try {
+      const records = await listApprovals(resolveStateDir(process.env), { pendingOnly: true });
+      return { shouldContinue: false, reply: { text: formatApprovalList(records, Date.now()) } };
+    } catch (err) {
+      return { shouldContinue: false, reply: { text: `⚠️ Approvals unavailable: ${String(err)}` } };
+    }
+  }
+
+  const channel = params.command.channel;
+  const senderId = params.command.senderId ?? "unknown";
+  if (isInternalMessageChannel(channel)) {
+    const scopes = params.ctx.GatewayClientScopes ?? [];
+    if (!scopes.includes("operator.approvals") && !scopes.includes("operator.admin")) {
+      logVerbose("Ignoring /approvals decision from gateway client missing operator.approvals.");
+      return {
+        shouldContinue: false,
+        reply: { text: "❌ /approvals requires operator.approvals for gateway clients." },
+      };
+    }
+  } else if (!isApprovalInboxApprover(config, { channel, senderId, requireListed: true })) {
+    return {
+      shouldContinue: false,
+      reply: { text: "⛔ You are not listed in approvals.inbox.approvers." },
+    };
+  }
+
+  const result = await submitApprovalDecision({
+    approvalId: parsed.id,
+    decision: parsed.decision,
+    decidedBy: `${channel}:${senderId}`,
+    reason: parsed.reason,
+  });
+  if (!result.ok) {
+    return {
+      shouldContinue: false,
+      reply: { text: `❌ Failed to submit decision: ${result.error}` },
+    };
+  }
+  return {
+    shouldContinue: false,
+    reply: {
+      text: `${parsed.decision === "approve" ? "✅ Approved" : "❌ Rejected"} ${parsed.id}.`,
+    },
+  };
+};
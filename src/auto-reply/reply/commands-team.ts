@@ -0,0 +1,25 @@
+import { logVerbose } from "../../globals.js";
+import { formatTeamStatus, loadTeamStatus } from "../../infra/team-state-tracker.js";
+import type { CommandHandler } from "./commands-types.js";
+
+export const handleTeamCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  if (params.command.commandBodyNormalized !== "/team") {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /team from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const nowMs = Date.now();
+  try {
+    const { members } = await loadTeamStatus(params.cfg, { nowMs });
+    return { shouldContinue: false, reply: { text: formatTeamStatus(members, nowMs) } };
+  } catch (err) {
+    return { shouldContinue: false, reply: { text: `⚠️ Team state unavailable: ${String(err)}` } };
+  }
+};
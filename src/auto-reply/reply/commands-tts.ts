@@ -6,6 +6,8 @@ import {
   isSummarizationEnabled,
   isTtsEnabled,
   isTtsProviderConfigured,
+  listPluginTtsProviders,
+  listTtsProviderIds,
   resolveTtsApiKey,
   resolveTtsConfig,
   resolveTtsPrefsPath,
@@ -56,7 +58,8 @@ function ttsUsage(): ReplyPayload {
       `**Providers:**\n` +
       `• edge — Free, fast (default)\n` +
       `• openai — High quality (requires API key)\n` +
-      `• elevenlabs — Premium voices (requires API key)\n\n` +
+      `• elevenlabs — Premium voices (requires API key)\n` +
+      `• command — Local binary such as piper (offline, messages.tts.command)\n\n` +
       `**Text Limit (default: 1500, max: 4096):**\n` +
       `When text exceeds the limit:\n` +
       `• Summary ON: AI summarizes, then generates audio\n` +
@@ -162,6 +165,8 @@ export const handleTtsCommands: CommandHandler = async (params, allowTextCommand
       const hasOpenAI = Boolean(resolveTtsApiKey(config, "openai"));
       const hasElevenLabs = Boolean(resolveTtsApiKey(config, "elevenlabs"));
       const hasEdge = isTtsProviderConfigured(config, "edge");
+      const hasCommand = isTtsProviderConfigured(config, "command");
+      const pluginProviders = listPluginTtsProviders().map((provider) => provider.id);
       return {
         shouldContinue: false,
         reply: {
@@ -171,13 +176,17 @@ export const handleTtsCommands: CommandHandler = async (params, allowTextCommand
             `OpenAI key: ${hasOpenAI ? "✅" : "❌"}\n` +
             `ElevenLabs key: ${hasElevenLabs ? "✅" : "❌"}\n` +
             `Edge enabled: ${hasEdge ? "✅" : "❌"}\n` +
-            `Usage: /tts provider openai | elevenlabs | edge`,
+            `Command configured: ${hasCommand ? "✅" : "❌"}\n` +
+            (pluginProviders.length > 0
+              ? `Plugin providers: ${pluginProviders.join(", ")}\n`
+              : "") +
+            `Usage: /tts provider ${listTtsProviderIds().join(" | ")}`,
         },
       };
     }
 
     const requested = args.trim().toLowerCase();
-    if (requested !== "openai" && requested !== "elevenlabs" && requested !== "edge") {
+    if (!listTtsProviderIds().includes(requested)) {
       return { shouldContinue: false, reply: ttsUsage() };
     }
 
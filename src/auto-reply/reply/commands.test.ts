@@ -333,6 +333,54 @@ describe("/approve command", () => {
   });
 });
 
+describe("/approvals command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("refuses chat decisions unless the sender is a listed approver", async () => {
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+      approvals: { inbox: { enabled: true } },
+    } as OpenClawConfig;
+    const params = buildParams("/approvals approve apr_abc", cfg, { SenderId: "123" });
+
+    const result = await handleCommands(params);
+    expect(result.shouldContinue).toBe(false);
+    expect(result.reply?.text).toContain("not listed in approvals.inbox.approvers");
+    expect(callGatewayMock).not.toHaveBeenCalled();
+  });
+
+  it("records the authenticated sender as the decider", async () => {
+    const cfg = {
+      commands: { text: true },
+      channels: { telegram: { allowFrom: ["*"] } },
+      approvals: { inbox: { enabled: true, approvers: ["telegram:42"] } },
+    } as OpenClawConfig;
+    const params = buildParams("/approvals reject apr_abc too risky", cfg, {
+      Provider: "telegram",
+      Surface: "telegram",
+      SenderId: "42",
+    });
+    callGatewayMock.mockResolvedValue({ ok: true });
+
+    const result = await handleCommands(params);
+    expect(result.reply?.text).toContain("Rejected apr_abc");
+    expect(callGatewayMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "approvals.resolve",
+        params: {
+          id: "apr_abc",
+          decision: "reject",
+          decidedBy: "telegram:42",
+          reason: "too risky",
+        },
+      }),
+    );
+  });
+});
+
 describe("/compact command", () => {
   beforeEach(() => {
     vi.clearAllMocks();
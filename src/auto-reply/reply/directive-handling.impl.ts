@@ -245,6 +245,7 @@ export async function handleDirectiveOnly(
     cfg: params.cfg,
     channel: provider,
     sessionEntry,
+    queueKey: params.sessionKey ?? sessionEntry?.sessionId,
   });
   if (queueAck) {
     return queueAck;
@@ -50,6 +50,7 @@ export type InlineDirectives = {
   hasQueueDirective: boolean;
   queueMode?: QueueMode;
   queueReset: boolean;
+  queueStatus: boolean;
   rawQueueMode?: string;
   debounceMs?: number;
   cap?: number;
@@ -132,6 +133,7 @@ export function parseInlineDirectives(
     cleaned: queueCleaned,
     queueMode,
     queueReset,
+    queueStatus,
     rawMode,
     debounceMs,
     cap,
@@ -178,6 +180,7 @@ export function parseInlineDirectives(
     hasQueueDirective,
     queueMode,
     queueReset,
+    queueStatus,
     rawQueueMode: rawMode,
     debounceMs,
     cap,
@@ -3,13 +3,40 @@ import type { SessionEntry } from "../../config/sessions.js";
 import type { ReplyPayload } from "../types.js";
 import type { InlineDirectives } from "./directive-handling.parse.js";
 import { withOptions } from "./directive-handling.shared.js";
-import { resolveQueueSettings } from "./queue.js";
+import { listFollowupQueues, resolveQueueSettings, type FollowupQueueSummary } from "./queue.js";
+
+const QUEUE_STATUS_MAX_ITEMS = 5;
+
+function formatQueueStatusLines(queue: FollowupQueueSummary | undefined): string[] {
+  if (!queue || (queue.depth === 0 && queue.droppedCount === 0)) {
+    return ["Queued: none."];
+  }
+  const flags = [queue.draining ? "draining" : "waiting", queue.persist ? "persisted" : undefined]
+    .filter(Boolean)
+    .join(", ");
+  const dropped = queue.droppedCount > 0 ? `, ${queue.droppedCount} dropped` : "";
+  const lines = [
+    `Queued: ${queue.depth} message${queue.depth === 1 ? "" : "s"}${dropped} (${flags}).`,
+  ];
+  queue.items.slice(0, QUEUE_STATUS_MAX_ITEMS).forEach((item, idx) => {
+    const origin = item.originatingChannel
+      ? ` [${item.originatingChannel}${item.originatingThreadId != null ? ` thread ${String(item.originatingThreadId)}` : ""}]`
+      : "";
+    lines.push(`${idx + 1}. ${item.preview}${origin}`);
+  });
+  if (queue.items.length > QUEUE_STATUS_MAX_ITEMS) {
+    lines.push(`… ${queue.items.length - QUEUE_STATUS_MAX_ITEMS} more`);
+  }
+  return lines;
+}
 
 export function maybeHandleQueueDirective(params: {
   directives: InlineDirectives;
   cfg: OpenClawConfig;
   channel: string;
   sessionEntry?: SessionEntry;
+  /** Followup queue key (session key, else session id) for `/queue status`. */
+  queueKey?: string;
 }): ReplyPayload | undefined {
   const { directives } = params;
   if (!directives.hasQueueDirective) {
@@ -17,13 +44,14 @@ export function maybeHandleQueueDirective(params: {
   }
 
   const wantsStatus =
-    !directives.queueMode &&
-    !directives.queueReset &&
-    !directives.hasQueueOptions &&
-    directives.rawQueueMode === undefined &&
-    directives.rawDebounce === undefined &&
-    directives.rawCap === undefined &&
-    directives.rawDrop === undefined;
+    directives.queueStatus ||
+    (!directives.queueMode &&
+      !directives.queueReset &&
+      !directives.hasQueueOptions &&
+      directives.rawQueueMode === undefined &&
+      directives.rawDebounce === undefined &&
+      directives.rawCap === undefined &&
+      directives.rawDrop === undefined);
   if (wantsStatus) {
     const settings = resolveQueueSettings({
       cfg: params.cfg,
@@ -34,12 +62,15 @@ export function maybeHandleQueueDirective(params: {
       typeof settings.debounceMs === "number" ? `${settings.debounceMs}ms` : "default";
     const capLabel = typeof settings.cap === "number" ? String(settings.cap) : "default";
     const dropLabel = settings.dropPolicy ?? "default";
-    return {
-      text: withOptions(
-        `Current queue settings: mode=${settings.mode}, debounce=${debounceLabel}, cap=${capLabel}, drop=${dropLabel}.`,
-        "modes steer, followup, collect, steer+backlog, interrupt; debounce:<ms|s|m>, cap:<n>, drop:old|new|summarize",
-      ),
-    };
+    const text = withOptions(
+      `Current queue settings: mode=${settings.mode}, debounce=${debounceLabel}, cap=${capLabel}, drop=${dropLabel}${settings.persist ? ", persist=on" : ""}.`,
+      "modes steer, followup, collect, steer+backlog, interrupt; debounce:<ms|s|m>, cap:<n>, drop:old|new|summarize",
+    );
+    if (!directives.queueStatus) {
+      return { text };
+    }
+    const queue = params.queueKey ? listFollowupQueues({ key: params.queueKey })[0] : undefined;
+    return { text: [text, "", ...formatQueueStatusLines(queue)].join("\n") };
   }
 
   const queueModeInvalid =
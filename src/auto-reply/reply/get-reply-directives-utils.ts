@@ -39,6 +39,7 @@ export function clearInlineDirectives(cleaned: string): InlineDirectives {
     hasQueueDirective: false,
     queueMode: undefined,
     queueReset: false,
+    queueStatus: false,
     rawQueueMode: undefined,
     debounceMs: undefined,
     cap: undefined,
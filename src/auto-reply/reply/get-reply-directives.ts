@@ -63,17 +63,18 @@ export type ReplyDirectiveContinuation = {
   };
 };
 
-function resolveExecOverrides(params: {
-  directives: InlineDirectives;
+/** Inline exec directives over the session's persisted ones (replay passes no directives). */
+export function resolveExecOverrides(params: {
+  directives?: InlineDirectives;
   sessionEntry?: SessionEntry;
 }): ExecOverrides | undefined {
   const host =
-    params.directives.execHost ?? (params.sessionEntry?.execHost as ExecOverrides["host"]);
+    params.directives?.execHost ?? (params.sessionEntry?.execHost as ExecOverrides["host"]);
   const security =
-    params.directives.execSecurity ??
+    params.directives?.execSecurity ??
     (params.sessionEntry?.execSecurity as ExecOverrides["security"]);
-  const ask = params.directives.execAsk ?? (params.sessionEntry?.execAsk as ExecOverrides["ask"]);
-  const node = params.directives.execNode ?? params.sessionEntry?.execNode;
+  const ask = params.directives?.execAsk ?? (params.sessionEntry?.execAsk as ExecOverrides["ask"]);
+  const node = params.directives?.execNode ?? params.sessionEntry?.execNode;
   if (!host && !security && !ask && !node) {
     return undefined;
   }
@@ -3,8 +3,10 @@ export { clearSessionQueues } from "./queue/cleanup.js";
 export type { ClearSessionQueueResult } from "./queue/cleanup.js";
 export { scheduleFollowupDrain } from "./queue/drain.js";
 export { enqueueFollowupRun, getFollowupQueueDepth } from "./queue/enqueue.js";
+export { restoreFollowupQueues } from "./queue/replay.js";
 export { resolveQueueSettings } from "./queue/settings.js";
-export { clearFollowupQueue } from "./queue/state.js";
+export { clearFollowupQueue, listFollowupQueues } from "./queue/state.js";
+export type { FollowupQueueItemSummary, FollowupQueueSummary } from "./queue/state.js";
 export type {
   FollowupRun,
   QueueDedupeMode,
@@ -37,6 +37,7 @@ function parseQueueDirectiveArgs(raw: string): {
   consumed: number;
   queueMode?: QueueMode;
   queueReset: boolean;
+  queueStatus: boolean;
   rawMode?: string;
   debounceMs?: number;
   cap?: number;
@@ -51,6 +52,7 @@ function parseQueueDirectiveArgs(raw: string): {
   let consumed = i;
   let queueMode: QueueMode | undefined;
   let queueReset = false;
+  let queueStatus = false;
   let rawMode: string | undefined;
   let debounceMs: number | undefined;
   let cap: number | undefined;
@@ -75,6 +77,11 @@ function parseQueueDirectiveArgs(raw: string): {
       consumed = i;
       break;
     }
+    if (lowered === "status") {
+      queueStatus = true;
+      consumed = i;
+      break;
+    }
     if (lowered.startsWith("debounce:") || lowered.startsWith("debounce=")) {
       rawDebounce = token.split(/[:=]/)[1] ?? "";
       debounceMs = parseQueueDebounce(rawDebounce);
@@ -110,6 +117,7 @@ function parseQueueDirectiveArgs(raw: string): {
     consumed,
     queueMode,
     queueReset,
+    queueStatus,
     rawMode,
     debounceMs,
     cap,
@@ -125,6 +133,7 @@ export function extractQueueDirective(body?: string): {
   cleaned: string;
   queueMode?: QueueMode;
   queueReset: boolean;
+  queueStatus: boolean;
   rawMode?: string;
   hasDirective: boolean;
   debounceMs?: number;
@@ -140,6 +149,7 @@ export function extractQueueDirective(body?: string): {
       cleaned: "",
       hasDirective: false,
       queueReset: false,
+      queueStatus: false,
       hasOptions: false,
     };
   }
@@ -150,6 +160,7 @@ export function extractQueueDirective(body?: string): {
       cleaned: body.trim(),
       hasDirective: false,
       queueReset: false,
+      queueStatus: false,
       hasOptions: false,
     };
   }
@@ -163,6 +174,7 @@ export function extractQueueDirective(body?: string): {
     cleaned,
     queueMode: parsed.queueMode,
     queueReset: parsed.queueReset,
+    queueStatus: parsed.queueStatus,
     rawMode: parsed.rawMode,
     debounceMs: parsed.debounceMs,
     cap: parsed.cap,
@@ -10,6 +10,7 @@ import {
   waitForQueueDebounce,
 } from "../../../utils/queue-helpers.js";
 import { isRoutableChannel } from "../route-reply.js";
+import { journalFollowupQueue } from "./journal.js";
 import { FOLLOWUP_QUEUES } from "./state.js";
 import type { FollowupRun } from "./types.js";
 
@@ -54,6 +55,11 @@ export function scheduleFollowupDrain(
   if (!queue) {
     return;
   }
+  // Drop an item from the journal before it runs, not after.
+  const runJournaled = async (item: FollowupRun) => {
+    void journalFollowupQueue(key, queue, [item]);
+    await runFollowup(item);
+  };
   void (async () => {
     try {
       const collectState = { forceIndividualCollect: false };
@@ -72,7 +78,7 @@ export function scheduleFollowupDrain(
             collectState,
             isCrossChannel,
             items: queue.items,
-            run: runFollowup,
+            run: runJournaled,
           });
           if (collectDrainResult === "empty") {
             break;
@@ -89,6 +95,7 @@ export function scheduleFollowupDrain(
           }
 
           const routing = resolveOriginRoutingMetadata(items);
+          void journalFollowupQueue(key, queue, items);
 
           const prompt = buildCollectPrompt({
             title: "[Queued messages while agent was busy]",
@@ -117,6 +124,7 @@ export function scheduleFollowupDrain(
           }
           if (
             !(await drainNextQueueItem(queue.items, async (item) => {
+              void journalFollowupQueue(key, queue, [item]);
               await runFollowup({
                 prompt: summaryPrompt,
                 run,
@@ -134,7 +142,7 @@ export function scheduleFollowupDrain(
           continue;
         }
 
-        if (!(await drainNextQueueItem(queue.items, runFollowup))) {
+        if (!(await drainNextQueueItem(queue.items, runJournaled))) {
           break;
         }
       }
@@ -143,6 +151,7 @@ export function scheduleFollowupDrain(
       defaultRuntime.error?.(`followup queue drain failed for ${key}: ${String(err)}`);
     } finally {
       queue.draining = false;
+      void journalFollowupQueue(key, queue);
       if (queue.items.length === 0 && queue.droppedCount === 0) {
         FOLLOWUP_QUEUES.delete(key);
       } else {
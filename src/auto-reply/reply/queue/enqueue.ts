@@ -1,4 +1,5 @@
 import { applyQueueDropPolicy, shouldSkipQueueItem } from "../../../utils/queue-helpers.js";
+import { journalFollowupQueue } from "./journal.js";
 import { getExistingFollowupQueue, getFollowupQueue } from "./state.js";
 import type { FollowupRun, QueueDedupeMode, QueueSettings } from "./types.js";
 
@@ -53,6 +54,7 @@ export function enqueueFollowupRun(
   }
 
   queue.items.push(run);
+  void journalFollowupQueue(key, queue);
   return true;
 }
 
@@ -0,0 +1,96 @@
+import { openStateNamespace } from "../../../infra/state-store.js";
+import { createSubsystemLogger } from "../../../logging/subsystem.js";
+import type { FollowupQueueState } from "./state.js";
+import type { FollowupRun, QueueDropPolicy, QueueMode } from "./types.js";
+
+/** Fields replay derives from the config loaded at startup instead of the journal. */
+type ReplayResolvedRunField =
+  | "config"
+  | "senderIsOwner"
+  | "ownerNumbers"
+  | "execOverrides"
+  | "bashElevated";
+
+/** A queued run without its config and sender authorization; see `restoreFollowupQueues`. */
+export type JournaledFollowupRun = Omit<FollowupRun, "run"> & {
+  run: Omit<FollowupRun["run"], ReplayResolvedRunField>;
+};
+
+export type JournaledFollowupQueue = {
+  mode: QueueMode;
+  debounceMs: number;
+  cap: number;
+  dropPolicy: QueueDropPolicy;
+  droppedCount: number;
+  summaryLines: string[];
+  items: JournaledFollowupRun[];
+};
+
+export const FOLLOWUP_QUEUE_NAMESPACE = "reply.queue";
+/** A backlog older than a day is stale context, not work worth replaying. */
+const FOLLOWUP_QUEUE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const log = createSubsystemLogger("queue");
+
+let journalWrites: Promise<void> = Promise.resolve();
+
+export function openFollowupQueueJournal(opts: { stateDir?: string } = {}) {
+  return openStateNamespace<JournaledFollowupQueue>(FOLLOWUP_QUEUE_NAMESPACE, {
+    ...opts,
+    defaultTtlMs: FOLLOWUP_QUEUE_TTL_MS,
+  });
+}
+
+function toJournaledRun(item: FollowupRun): JournaledFollowupRun {
+  const {
+    config: _config,
+    senderIsOwner: _senderIsOwner,
+    ownerNumbers: _ownerNumbers,
+    execOverrides: _execOverrides,
+    bashElevated: _bashElevated,
+    ...run
+  } = item.run;
+  return { ...item, run };
+}
+
+/**
+ * Journals the pending items of a persisted queue, or drops its entry once
+ * nothing is left. Items in `inFlight` are left out so a run that restarts the
+ * gateway is not replayed into another restart (at-most-once delivery).
+ * Writes are serialized; the snapshot is taken synchronously.
+ */
+export function journalFollowupQueue(
+  key: string,
+  queue: FollowupQueueState,
+  inFlight: FollowupRun[] = [],
+): Promise<void> {
+  if (!queue.persist) {
+    return journalWrites;
+  }
+  const items = queue.items.filter((item) => !inFlight.includes(item)).map(toJournaledRun);
+  const snapshot: JournaledFollowupQueue | undefined =
+    items.length > 0 || queue.droppedCount > 0
+      ? {
+          mode: queue.mode,
+          debounceMs: queue.debounceMs,
+          cap: queue.cap,
+          dropPolicy: queue.dropPolicy,
+          droppedCount: queue.droppedCount,
+          summaryLines: [...queue.summaryLines],
+          items,
+        }
+      : undefined;
+  journalWrites = journalWrites
+    .then(async () => {
+      const journal = openFollowupQueueJournal();
+      if (snapshot) {
+        await journal.set(key, snapshot);
+      } else {
+        await journal.delete(key);
+      }
+    })
+    .catch((err) => {
+      log.warn(`followup queue journal write failed for ${key}: ${String(err)}`);
+    });
+  return journalWrites;
+}
@@ -0,0 +1,151 @@
+import { isEmbeddedPiRunActive } from "../../../agents/pi-embedded-runner/runs.js";
+import type { OpenClawConfig } from "../../../config/config.js";
+import { loadSessionStore, resolveStorePath, type SessionEntry } from "../../../config/sessions.js";
+import { resolveCommandAuthorization } from "../../command-auth.js";
+import type { MsgContext } from "../../templating.js";
+import { createFollowupRunner } from "../followup-runner.js";
+import { resolveExecOverrides } from "../get-reply-directives.js";
+import { resolveElevatedPermissions } from "../reply-elevated.js";
+import { createTypingController } from "../typing.js";
+import { scheduleFollowupDrain } from "./drain.js";
+import { openFollowupQueueJournal, type JournaledFollowupRun } from "./journal.js";
+import { FOLLOWUP_QUEUES, type FollowupQueueState } from "./state.js";
+import type { FollowupRun } from "./types.js";
+
+type FollowupRunnerFactory = (params: {
+  cfg: OpenClawConfig;
+  key: string;
+  items: FollowupRun[];
+}) => (run: FollowupRun) => Promise<void>;
+
+/**
+ * Replays without the inbound handler that queued the messages: no typing
+ * indicator and no dispatcher, so replies only reach routable origins.
+ */
+const createReplayRunner: FollowupRunnerFactory = ({ cfg, key, items }) => {
+  const first = items[0];
+  const storePath = resolveStorePath(cfg.session?.store, { agentId: first?.run.agentId });
+  const sessionStore = loadSessionStore(storePath);
+  return createFollowupRunner({
+    typing: createTypingController({}),
+    typingMode: "never",
+    sessionEntry: sessionStore[key],
+    sessionStore,
+    sessionKey: key,
+    storePath,
+    defaultModel: first?.run.model ?? "",
+    agentCfgContextTokens: cfg.agents?.defaults?.contextTokens,
+  });
+};
+
+/**
+ * Rebuilds a journaled run for `cfg`. Sender authorization is never read back
+ * from disk: owner status and elevated access are re-checked against the
+ * current allowlists, exec overrides come from the current session entry.
+ */
+function resolveReplayedRun(params: {
+  cfg: OpenClawConfig;
+  item: JournaledFollowupRun;
+  sessionEntry?: SessionEntry;
+}): FollowupRun {
+  const { cfg, item } = params;
+  const provider = item.run.messageProvider?.trim().toLowerCase() ?? "";
+  const ctx: MsgContext = {
+    Provider: provider || undefined,
+    Surface: provider || undefined,
+    AccountId: item.run.agentAccountId,
+    ChatType: item.originatingChatType,
+    SenderId: item.run.senderId,
+    SenderName: item.run.senderName,
+    SenderUsername: item.run.senderUsername,
+    SenderE164: item.run.senderE164,
+  };
+  const command = resolveCommandAuthorization({ ctx, cfg, commandAuthorized: false });
+  const elevated = resolveElevatedPermissions({
+    cfg,
+    agentId: item.run.agentId,
+    ctx,
+    provider,
+  });
+  const elevatedLevel = elevated.allowed ? item.run.elevatedLevel : "off";
+  return {
+    ...item,
+    run: {
+      ...item.run,
+      config: cfg,
+      senderIsOwner: command.senderIsOwner,
+      ownerNumbers: command.ownerList.length > 0 ? command.ownerList : undefined,
+      elevatedLevel,
+      execOverrides: resolveExecOverrides({ sessionEntry: params.sessionEntry }),
+      bashElevated: {
+        enabled: elevated.enabled,
+        allowed: elevated.allowed,
+        defaultLevel: elevatedLevel ?? "off",
+      },
+    },
+  };
+}
+
+/**
+ * Restores followup queues journaled before the last gateway restart in their
+ * original order. Queued runs get `cfg` in place of the config they were
+ * created with. The replay runner only drains sessions nothing else is
+ * working on: when a live queue or run already exists, the backlog joins the
+ * live queue and the live run's own drain picks it up.
+ */
+export async function restoreFollowupQueues(params: {
+  cfg: OpenClawConfig;
+  createRunner?: FollowupRunnerFactory;
+}): Promise<{ queues: number; items: number }> {
+  const createRunner = params.createRunner ?? createReplayRunner;
+  const journal = openFollowupQueueJournal();
+  let queues = 0;
+  let restored = 0;
+  for (const { key, value } of await journal.entries()) {
+    if (value.items.length === 0) {
+      await journal.delete(key);
+      continue;
+    }
+    const storePath = resolveStorePath(params.cfg.session?.store, {
+      agentId: value.items[0].run.agentId,
+    });
+    const sessionEntry = loadSessionStore(storePath)[key];
+    const items = value.items.map((item) =>
+      resolveReplayedRun({ cfg: params.cfg, item, sessionEntry }),
+    );
+    const existing = FOLLOWUP_QUEUES.get(key);
+    const runActive = [sessionEntry?.sessionId, ...items.map((item) => item.run.sessionId)].some(
+      (sessionId) => sessionId && isEmbeddedPiRunActive(sessionId),
+    );
+    if (existing?.draining) {
+      // A running drain removes items by position; only appending is safe.
+      existing.items.push(...items);
+      existing.persist = true;
+    } else if (existing) {
+      // Messages that arrived since startup go after the replayed backlog.
+      existing.items.unshift(...items);
+      existing.persist = true;
+    } else {
+      const queue: FollowupQueueState = {
+        items,
+        draining: false,
+        lastEnqueuedAt: 0,
+        mode: value.mode,
+        debounceMs: value.debounceMs,
+        cap: value.cap,
+        dropPolicy: value.dropPolicy,
+        droppedCount: value.droppedCount,
+        summaryLines: [...value.summaryLines],
+        lastRun: items.at(-1)?.run,
+        persist: true,
+      };
+      FOLLOWUP_QUEUES.set(key, queue);
+    }
+    if (!existing && !runActive) {
+      scheduleFollowupDrain(key, createRunner({ cfg: params.cfg, key, items }));
+    }
+    queues += 1;
+    restored += items.length;
+  }
+  return { queues, items: restored };
+}
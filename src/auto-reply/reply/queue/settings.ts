@@ -64,5 +64,6 @@ export function resolveQueueSettings(params: ResolveQueueSettingsParams): QueueS
     debounceMs: typeof debounceRaw === "number" ? Math.max(0, debounceRaw) : undefined,
     cap: typeof capRaw === "number" ? Math.max(1, Math.floor(capRaw)) : undefined,
     dropPolicy: dropRaw,
+    persist: queueCfg?.persist === true,
   };
 }
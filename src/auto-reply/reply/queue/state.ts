@@ -1,4 +1,5 @@
-import { applyQueueRuntimeSettings } from "../../../utils/queue-helpers.js";
+import { applyQueueRuntimeSettings, buildQueueSummaryLine } from "../../../utils/queue-helpers.js";
+import { journalFollowupQueue } from "./journal.js";
 import type { FollowupRun, QueueDropPolicy, QueueMode, QueueSettings } from "./types.js";
 
 export type FollowupQueueState = {
@@ -12,6 +13,27 @@ export type FollowupQueueState = {
   droppedCount: number;
   summaryLines: string[];
   lastRun?: FollowupRun["run"];
+  /** Journaled to the state store (messages.queue.persist). */
+  persist: boolean;
+};
+
+export type FollowupQueueItemSummary = {
+  messageId?: string;
+  enqueuedAt: number;
+  preview: string;
+  originatingChannel?: FollowupRun["originatingChannel"];
+  originatingTo?: string;
+  originatingThreadId?: string | number;
+};
+
+export type FollowupQueueSummary = {
+  key: string;
+  mode: QueueMode;
+  depth: number;
+  draining: boolean;
+  droppedCount: number;
+  persist: boolean;
+  items: FollowupQueueItemSummary[];
 };
 
 export const DEFAULT_QUEUE_DEBOUNCE_MS = 1000;
@@ -35,6 +57,7 @@ export function getFollowupQueue(key: string, settings: QueueSettings): Followup
       target: existing,
       settings,
     });
+    existing.persist = settings.persist === true;
     return existing;
   }
 
@@ -54,6 +77,7 @@ export function getFollowupQueue(key: string, settings: QueueSettings): Followup
     dropPolicy: settings.dropPolicy ?? DEFAULT_QUEUE_DROP,
     droppedCount: 0,
     summaryLines: [],
+    persist: settings.persist === true,
   };
   applyQueueRuntimeSettings({
     target: created,
@@ -76,5 +100,33 @@ export function clearFollowupQueue(key: string): number {
   queue.lastRun = undefined;
   queue.lastEnqueuedAt = 0;
   FOLLOWUP_QUEUES.delete(cleaned);
+  void journalFollowupQueue(cleaned, queue);
   return cleared;
 }
+
+function summarizeFollowupQueue(key: string, queue: FollowupQueueState): FollowupQueueSummary {
+  return {
+    key,
+    mode: queue.mode,
+    depth: queue.items.length,
+    draining: queue.draining,
+    droppedCount: queue.droppedCount,
+    persist: queue.persist,
+    items: queue.items.map((item) => ({
+      messageId: item.messageId,
+      enqueuedAt: item.enqueuedAt,
+      preview: buildQueueSummaryLine(item.summaryLine?.trim() || item.prompt, 120),
+      originatingChannel: item.originatingChannel,
+      originatingTo: item.originatingTo,
+      originatingThreadId: item.originatingThreadId,
+    })),
+  };
+}
+
+/** Snapshot of the in-memory followup queues, optionally for one session key. */
+export function listFollowupQueues(params: { key?: string } = {}): FollowupQueueSummary[] {
+  const key = params.key?.trim();
+  return [...FOLLOWUP_QUEUES.entries()]
+    .filter(([queueKey]) => !key || queueKey === key)
+    .map(([queueKey, queue]) => summarizeFollowupQueue(queueKey, queue));
+}
@@ -14,6 +14,8 @@ export type QueueSettings = {
   debounceMs?: number;
   cap?: number;
   dropPolicy?: QueueDropPolicy;
+  /** Journal the queue to disk so it survives a gateway restart. */
+  persist?: boolean;
 };
 
 export type QueueDedupeMode = "message-id" | "prompt" | "none";
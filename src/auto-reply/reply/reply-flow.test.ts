@@ -4,11 +4,19 @@ import type { OpenClawConfig } from "../../config/config.js";
 import { defaultRuntime } from "../../runtime.js";
 import type { MsgContext } from "../templating.js";
 import { HEARTBEAT_TOKEN, SILENT_REPLY_TOKEN } from "../tokens.js";
+import { parseInlineDirectives } from "./directive-handling.parse.js";
+import { maybeHandleQueueDirective } from "./directive-handling.queue-validation.js";
 import { finalizeInboundContext } from "./inbound-context.js";
 import { normalizeInboundTextNewlines } from "./inbound-text.js";
 import { parseLineDirectives, hasLineDirectives } from "./line-directives.js";
 import type { FollowupRun, QueueSettings } from "./queue.js";
-import { enqueueFollowupRun, scheduleFollowupDrain } from "./queue.js";
+import {
+  enqueueFollowupRun,
+  listFollowupQueues,
+  restoreFollowupQueues,
+  scheduleFollowupDrain,
+} from "./queue.js";
+import { openFollowupQueueJournal, type JournaledFollowupRun } from "./queue/journal.js";
 import { createReplyDispatcher } from "./reply-dispatcher.js";
 import { createReplyToModeFilter, resolveReplyToMode } from "./reply-threading.js";
 
@@ -1096,6 +1104,209 @@ describe("followup queue collect routing", () => {
   });
 });
 
+describe("followup queue persistence", () => {
+  const settings: QueueSettings = {
+    mode: "followup",
+    debounceMs: 0,
+    cap: 50,
+    dropPolicy: "summarize",
+    persist: true,
+  };
+  const telegramRoute = {
+    originatingChannel: "telegram" as const,
+    originatingTo: "chat:1",
+    originatingThreadId: 42,
+  };
+  const toJournaled = (queued: FollowupRun): JournaledFollowupRun => {
+    const {
+      config: _config,
+      senderIsOwner: _senderIsOwner,
+      ownerNumbers: _ownerNumbers,
+      execOverrides: _execOverrides,
+      bashElevated: _bashElevated,
+      ...run
+    } = queued.run;
+    return { ...queued, run };
+  };
+
+  it("journals pending items, reports them in /queue status and drops them as they run", async () => {
+    const key = `test-persist-${Date.now()}`;
+    const journal = openFollowupQueueJournal();
+    const journaledIds = async () => (await journal.get(key))?.items.map((item) => item.messageId);
+    const release = createDeferred<void>();
+    const calls: FollowupRun[] = [];
+    const runFollowup = async (run: FollowupRun) => {
+      calls.push(run);
+      if (calls.length === 1) {
+        await release.promise;
+      }
+    };
+
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "first", messageId: "m1", ...telegramRoute }),
+      settings,
+    );
+    expect(
+      enqueueFollowupRun(
+        key,
+        createRun({ prompt: "first (dupe)", messageId: "m1", ...telegramRoute }),
+        settings,
+      ),
+    ).toBe(false);
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "second", messageId: "m2", ...telegramRoute }),
+      settings,
+    );
+
+    await vi.waitFor(async () => expect(await journaledIds()).toEqual(["m1", "m2"]));
+    expect((await journal.get(key))?.items[0]?.run).not.toHaveProperty("config");
+    expect(listFollowupQueues({ key })).toMatchObject([
+      { key, depth: 2, persist: true, items: [{ preview: "first", originatingThreadId: 42 }, {}] },
+    ]);
+    const status = maybeHandleQueueDirective({
+      directives: parseInlineDirectives("/queue status"),
+      cfg: { messages: { queue: { persist: true } } } as OpenClawConfig,
+      channel: "telegram",
+      queueKey: key,
+    });
+    expect(status?.text).toContain("persist=on");
+    expect(status?.text).toContain("Queued: 2 messages (waiting, persisted).");
+    expect(status?.text).toContain("1. first [telegram thread 42]");
+
+    scheduleFollowupDrain(key, runFollowup);
+    await vi.waitFor(async () => expect(await journaledIds()).toEqual(["m2"]));
+    release.resolve();
+    await vi.waitFor(async () => expect(await journal.get(key)).toBeUndefined());
+    expect(calls.map((call) => call.prompt)).toEqual(["first", "second"]);
+  });
+
+  it("replays journaled queues in order with their original routing", async () => {
+    const key = `test-replay-${Date.now()}`;
+    const journal = openFollowupQueueJournal();
+    await journal.set(key, {
+      mode: "followup",
+      debounceMs: 0,
+      cap: 20,
+      dropPolicy: "summarize",
+      droppedCount: 0,
+      summaryLines: [],
+      items: [
+        toJournaled(createRun({ prompt: "one", messageId: "m1", ...telegramRoute })),
+        toJournaled(createRun({ prompt: "two", messageId: "m2", ...telegramRoute })),
+      ],
+    });
+    const cfg = { messages: { queue: { persist: true } } } as OpenClawConfig;
+    const calls: FollowupRun[] = [];
+    const done = createDeferred<void>();
+
+    const restored = await restoreFollowupQueues({
+      cfg,
+      createRunner: () => async (run) => {
+        calls.push(run);
+        if (calls.length === 2) {
+          done.resolve();
+        }
+      },
+    });
+    expect(restored).toEqual({ queues: 1, items: 2 });
+    await done.promise;
+
+    expect(
+      calls.map((call) => [call.prompt, call.originatingTo, call.originatingThreadId]),
+    ).toEqual([
+      ["one", "chat:1", 42],
+      ["two", "chat:1", 42],
+    ]);
+    expect(calls[0]?.run.config).toBe(cfg);
+    await vi.waitFor(async () => expect(await journal.get(key)).toBeUndefined());
+  });
+
+  it("re-checks sender authorization instead of trusting the journal", async () => {
+    const key = `test-replay-auth-${Date.now()}`;
+    const journal = openFollowupQueueJournal();
+    const queued = createRun({ prompt: "run it", messageId: "m1", ...telegramRoute });
+    const written = {
+      ...queued,
+      run: {
+        ...toJournaled(queued).run,
+        messageProvider: "telegram",
+        senderId: "7",
+        elevatedLevel: "full",
+        // Written by a build that still journaled authorization.
+        senderIsOwner: true,
+        execOverrides: { security: "full" },
+        bashElevated: { enabled: true, allowed: true, defaultLevel: "full" },
+      },
+    } as JournaledFollowupRun;
+    await journal.set(key, {
+      mode: "followup",
+      debounceMs: 0,
+      cap: 20,
+      dropPolicy: "summarize",
+      droppedCount: 0,
+      summaryLines: [],
+      items: [written],
+    });
+    const cfg = {
+      commands: { ownerAllowFrom: ["telegram:1"] },
+      messages: { queue: { persist: true } },
+    } as OpenClawConfig;
+    const done = createDeferred<FollowupRun>();
+
+    await restoreFollowupQueues({ cfg, createRunner: () => async (run) => done.resolve(run) });
+    const replayed = await done.promise;
+
+    expect(replayed.run).toMatchObject({
+      senderIsOwner: false,
+      elevatedLevel: "off",
+      bashElevated: { allowed: false, defaultLevel: "off" },
+    });
+    expect(replayed.run.execOverrides).toBeUndefined();
+    await vi.waitFor(async () => expect(await journal.get(key)).toBeUndefined());
+  });
+
+  it("leaves a live queue to its own runner", async () => {
+    const key = `test-replay-live-${Date.now()}`;
+    const journal = openFollowupQueueJournal();
+    await journal.set(key, {
+      mode: "followup",
+      debounceMs: 0,
+      cap: 20,
+      dropPolicy: "summarize",
+      droppedCount: 0,
+      summaryLines: [],
+      items: [toJournaled(createRun({ prompt: "backlog", messageId: "m1", ...telegramRoute }))],
+    });
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "live", messageId: "m2", ...telegramRoute }),
+      settings,
+    );
+    const createRunner = vi.fn();
+
+    const restored = await restoreFollowupQueues({
+      cfg: { messages: { queue: { persist: true } } } as OpenClawConfig,
+      createRunner,
+    });
+    expect(restored).toEqual({ queues: 1, items: 1 });
+    expect(createRunner).not.toHaveBeenCalled();
+
+    const calls: string[] = [];
+    const done = createDeferred<void>();
+    scheduleFollowupDrain(key, async (run) => {
+      calls.push(run.prompt);
+      if (calls.length === 2) {
+        done.resolve();
+      }
+    });
+    await done.promise;
+    expect(calls).toEqual(["backlog", "live"]);
+    await vi.waitFor(async () => expect(await journal.get(key)).toBeUndefined());
+  });
+});
+
 const emptyCfg = {} as OpenClawConfig;
 
 describe("createReplyDispatcher", () => {
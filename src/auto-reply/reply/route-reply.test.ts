@@ -74,6 +74,8 @@ const createRegistry = (channels: PluginRegistry["channels"]): PluginRegistry =>
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  conversationSinks: [],
+  ttsProviders: [],
   diagnostics: [],
 });
 
@@ -0,0 +1,122 @@
+import { ChannelType } from "discord-api-types/v10";
+import { trackOutboundMention } from "../../../discord/a2a-retry/index.js";
+import {
+  getBotUserIdForAgent,
+  resolveAgentBotUserId,
+} from "../../../discord/monitor/sibling-bots.js";
+import { registerThreadParticipants } from "../../../discord/monitor/thread-participants.js";
+import {
+  createThreadDiscord,
+  listGuildChannelsDiscord,
+  listThreadsDiscord,
+  readMessagesDiscord,
+  sendMessageDiscord,
+} from "../../../discord/send.js";
+import type { ChannelCollaborationAdapter } from "../types.js";
+import { listAgentBoundAccountIds } from "./shared.js";
+
+function accountOpts(accountId?: string | null) {
+  return accountId ? { accountId } : {};
+}
+
+export const discordCollaborationAdapter: ChannelCollaborationAdapter = {
+  resolveAgentIdentity: async ({ cfg, agentId }) => {
+    // Sibling-bot map covers bots registered under both their agentId and accountId.
+    const direct = resolveAgentBotUserId(agentId);
+    if (direct) {
+      return direct;
+    }
+    for (const accountId of listAgentBoundAccountIds(cfg, "discord", agentId)) {
+      const botId = getBotUserIdForAgent(accountId);
+      if (botId) {
+        return botId;
+      }
+    }
+    return undefined;
+  },
+  formatMention: (identity) => `<@${identity}>`,
+  createThread: async ({ channelId, name, accountId }) => {
+    const thread = await createThreadDiscord(channelId, { name }, accountOpts(accountId));
+    return { threadId: thread.id, channelId };
+  },
+  sendToThread: async ({ threadId, text, card, accountId }) => {
+    const result = await sendMessageDiscord(`channel:${threadId}`, text, {
+      ...accountOpts(accountId),
+      ...(card
+        ? {
+            embeds: [
+              // Discord caps embed titles at 256 and descriptions at 4096 characters.
+              { title: card.title.slice(0, 256), description: card.body.slice(0, 4096) },
+            ],
+          }
+        : {}),
+    });
+    return { messageId: result.messageId };
+  },
+  registerParticipants: ({ threadId, participantIds }) => {
+    registerThreadParticipants(threadId, participantIds);
+  },
+  trackMention: async (params) => {
+    await trackOutboundMention({
+      messageId: params.messageId,
+      threadId: params.threadId,
+      fromAgentId: params.fromAgentId,
+      targetAgentId: params.targetAgentId,
+      targetBotId: params.targetIdentity,
+      originalText: params.text,
+    });
+  },
+  listChannels: async ({ scopeId, accountId }) => {
+    if (!scopeId) {
+      return [];
+    }
+    const channels = await listGuildChannelsDiscord(scopeId, accountOpts(accountId));
+    const categories = new Map<string, string>();
+    for (const ch of channels) {
+      if (ch.type === ChannelType.GuildCategory && "name" in ch && ch.name) {
+        categories.set(ch.id, ch.name);
+      }
+    }
+    return channels
+      .filter((ch) => ch.type === ChannelType.GuildText || ch.type === ChannelType.GuildForum)
+      .map((ch) => ({
+        id: ch.id,
+        name: "name" in ch ? (ch.name ?? "") : "",
+        topic: "topic" in ch ? (ch.topic ?? null) : null,
+        category: "parent_id" in ch && ch.parent_id ? (categories.get(ch.parent_id) ?? null) : null,
+      }));
+  },
+  listThreads: async ({ scopeId, channelId, accountId }) => {
+    if (!scopeId) {
+      return [];
+    }
+    const response = await listThreadsDiscord({ guildId: scopeId }, accountOpts(accountId));
+    const threads = (response as { threads?: unknown[] } | null)?.threads;
+    if (!Array.isArray(threads)) {
+      return [];
+    }
+    return threads
+      .filter((t): t is Record<string, unknown> => t !== null && typeof t === "object")
+      .filter((t) => {
+        if (typeof t.thread_metadata === "object" && t.thread_metadata !== null) {
+          return (t.thread_metadata as Record<string, unknown>).archived !== true;
+        }
+        return true;
+      })
+      .map((t) => ({
+        id: typeof t.id === "string" ? t.id : "",
+        name: typeof t.name === "string" ? t.name : "",
+        channelId: typeof t.parent_id === "string" ? t.parent_id : "",
+        messageCount: typeof t.message_count === "number" ? t.message_count : null,
+      }))
+      .filter((t) => t.id && (!channelId || t.channelId === channelId));
+  },
+  readMessages: async ({ threadId, limit, accountId }) => {
+    const messages = await readMessagesDiscord(threadId, { limit }, accountOpts(accountId));
+    return messages.map((m) => ({
+      author: m.author?.username ?? "unknown",
+      content: m.content ?? "",
+      timestamp: m.timestamp,
+    }));
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Collaboration thread participants for transports without a tracker of their
+ * own (Slack, Matrix; Discord keeps src/discord/monitor/thread-participants.ts).
+ *
+ * A participant answers in the thread without a fresh mention (Handler); other
+ * bots keep requiring one (Observer). Entries live in the
+ * `collaboration.thread-participants` state-store namespace so every gateway
+ * process and every account's monitor sees the same registrations.
+ */
+
+import { openStateNamespace, type StateNamespace } from "../../../infra/state-store.js";
+
+export type CollaborationThreadRef = {
+  /** Transport id, e.g. "slack" or "matrix". */
+  channel: string;
+  /** Channel/room holding the thread; thread ids are only unique inside it. */
+  channelId?: string;
+  threadId: string;
+};
+
+type ParticipantEntry = {
+  participants: string[];
+  createdAt: number;
+};
+
+const STATE_NAMESPACE = "collaboration.thread-participants";
+/** Refreshed on every registration, like the Discord tracker. */
+const PARTICIPANT_TTL_MS = 24 * 60 * 60 * 1000;
+
+let namespace: StateNamespace<ParticipantEntry> | null = null;
+
+function getNamespace(): StateNamespace<ParticipantEntry> {
+  namespace ??= openStateNamespace<ParticipantEntry>(STATE_NAMESPACE, {
+    defaultTtlMs: PARTICIPANT_TTL_MS,
+  });
+  return namespace;
+}
+
+function threadKey(ref: CollaborationThreadRef): string {
+  return `${ref.channel}:${ref.channelId ?? ""}:${ref.threadId}`;
+}
+
+/** Mark identities (bot user ids, MXIDs) as participants of a thread. */
+export async function registerCollaborationParticipants(
+  params: CollaborationThreadRef & { participantIds: string[] },
+): Promise<void> {
+  const ids = params.participantIds.filter(Boolean);
+  if (ids.length === 0) {
+    return;
+  }
+  await getNamespace().update(threadKey(params), (current) => ({
+    participants: [...new Set([...(current?.participants ?? []), ...ids])],
+    createdAt: current?.createdAt ?? Date.now(),
+  }));
+}
+
+/** Identities registered in a thread; empty when it is not a collaboration thread. */
+export async function getCollaborationParticipants(ref: CollaborationThreadRef): Promise<string[]> {
+  return (await getNamespace().get(threadKey(ref)))?.participants ?? [];
+}
+
+/** Reopen the namespace (tests switch OPENCLAW_STATE_DIR between cases). */
+export function resetCollaborationParticipantsForTests(): void {
+  namespace = null;
+}
@@ -0,0 +1,39 @@
+import type { OpenClawConfig } from "../../../config/config.js";
+import { resolveAgentRoute } from "../../../routing/resolve-route.js";
+import type { ChannelCollaborationCard } from "../types.js";
+
+/** Plain-text fallback for transports that cannot render a card natively. */
+export function appendCollaborationCard(
+  text: string,
+  card: ChannelCollaborationCard | undefined,
+  formatTitle: (title: string) => string = (title) => title,
+): string {
+  return card ? `${text}\n\n${formatTitle(card.title)}\n${card.body}` : text;
+}
+
+/** Account ids under `channels.<channel>.accounts` whose route resolves to the agent. */
+export function listAgentBoundAccountIds(
+  cfg: OpenClawConfig,
+  channel: string,
+  agentId: string,
+): string[] {
+  const section = (cfg.channels as Record<string, unknown> | undefined)?.[channel];
+  const accounts =
+    section && typeof section === "object"
+      ? (section as Record<string, unknown>).accounts
+      : undefined;
+  if (!accounts || typeof accounts !== "object") {
+    return [];
+  }
+  const matches: string[] = [];
+  for (const accountId of Object.keys(accounts)) {
+    try {
+      if (resolveAgentRoute({ cfg, channel, accountId }).agentId === agentId) {
+        matches.push(accountId);
+      }
+    } catch {
+      continue;
+    }
+  }
+  return matches;
+}
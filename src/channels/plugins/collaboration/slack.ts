@@ -0,0 +1,151 @@
+import type { OpenClawConfig } from "../../../config/config.js";
+import { trackOutboundMention } from "../../../discord/a2a-retry/index.js";
+import { resolveSlackAccount } from "../../../slack/accounts.js";
+import { readSlackMessages } from "../../../slack/actions.js";
+import { createSlackWebClient } from "../../../slack/client.js";
+import { sendMessageSlack } from "../../../slack/send.js";
+import { resolveSlackBotToken } from "../../../slack/token.js";
+import type { ChannelCollaborationAdapter } from "../types.js";
+import { registerCollaborationParticipants } from "./participants.js";
+import { appendCollaborationCard, listAgentBoundAccountIds } from "./shared.js";
+
+const THREAD_SCAN_LIMIT = 100;
+const THREAD_NAME_MAX = 100;
+
+type SlackConversation = {
+  id?: string;
+  name?: string;
+  is_member?: boolean;
+  topic?: { value?: string };
+  purpose?: { value?: string };
+};
+
+type SlackHistoryMessage = {
+  ts?: string;
+  text?: string;
+  reply_count?: number;
+};
+
+// Bot user ids per account; auth.test is stable for the lifetime of a token.
+const botUserIds = new Map<string, string>();
+
+function createClient(cfg: OpenClawConfig, accountId?: string | null) {
+  const account = resolveSlackAccount({ cfg, accountId });
+  const token = resolveSlackBotToken(account.botToken ?? undefined);
+  if (!token) {
+    throw new Error(`Slack bot token missing for account "${account.accountId}"`);
+  }
+  return createSlackWebClient(token);
+}
+
+function requireChannelId(channelId: string | undefined): string {
+  if (!channelId) {
+    throw new Error("Slack threads need channelId (the channel holding the thread root)");
+  }
+  return channelId;
+}
+
+export const slackCollaborationAdapter: ChannelCollaborationAdapter = {
+  resolveAgentIdentity: async ({ cfg, agentId }) => {
+    for (const accountId of listAgentBoundAccountIds(cfg, "slack", agentId)) {
+      const cached = botUserIds.get(accountId);
+      if (cached) {
+        return cached;
+      }
+      try {
+        const client = createClient(cfg, accountId);
+        const auth = await client.auth.test();
+        if (auth.user_id) {
+          botUserIds.set(accountId, auth.user_id);
+          return auth.user_id;
+        }
+      } catch {
+        continue;
+      }
+    }
+    return undefined;
+  },
+  formatMention: (identity) => `<@${identity}>`,
+  createThread: async ({ channelId, name, accountId }) => {
+    // Slack threads hang off a root message; post the thread name as that root.
+    const root = await sendMessageSlack(`channel:${channelId}`, `*${name}*`, {
+      accountId: accountId ?? undefined,
+    });
+    return { threadId: root.messageId, channelId: root.channelId || channelId };
+  },
+  sendToThread: async ({ channelId, threadId, text, card, accountId }) => {
+    const body = appendCollaborationCard(text, card, (title) => `*${title}*`);
+    const result = await sendMessageSlack(`channel:${requireChannelId(channelId)}`, body, {
+      accountId: accountId ?? undefined,
+      threadTs: threadId,
+    });
+    return { messageId: result.messageId };
+  },
+  registerParticipants: async ({ channelId, threadId, participantIds }) => {
+    await registerCollaborationParticipants({
+      channel: "slack",
+      channelId: requireChannelId(channelId),
+      threadId,
+      participantIds,
+    });
+  },
+  trackMention: async (params) => {
+    await trackOutboundMention({
+      messageId: params.messageId,
+      channel: "slack",
+      channelId: requireChannelId(params.channelId),
+      threadId: params.threadId,
+      fromAgentId: params.fromAgentId,
+      targetAgentId: params.targetAgentId,
+      targetBotId: params.targetIdentity,
+      originalText: params.text,
+    });
+  },
+  listChannels: async ({ cfg, accountId }) => {
+    const client = createClient(cfg, accountId);
+    const res = (await client.conversations.list({
+      types: "public_channel,private_channel",
+      exclude_archived: true,
+      limit: 200,
+    })) as { channels?: SlackConversation[] };
+    return (res.channels ?? [])
+      .filter((channel) => channel.id && channel.name && channel.is_member !== false)
+      .map((channel) => ({
+        id: channel.id ?? "",
+        name: channel.name ?? "",
+        topic: channel.topic?.value || channel.purpose?.value || null,
+        category: null,
+      }));
+  },
+  listThreads: async ({ cfg, channelId, accountId }) => {
+    // Slack has no thread index; recent roots with replies stand in for active threads.
+    if (!channelId) {
+      return [];
+    }
+    const client = createClient(cfg, accountId);
+    const res = (await client.conversations.history({
+      channel: channelId,
+      limit: THREAD_SCAN_LIMIT,
+    })) as { messages?: SlackHistoryMessage[] };
+    return (res.messages ?? [])
+      .filter((message) => message.ts && (message.reply_count ?? 0) > 0)
+      .map((message) => ({
+        id: message.ts ?? "",
+        name: (message.text ?? "").replace(/\s+/g, " ").trim().slice(0, THREAD_NAME_MAX),
+        channelId,
+        messageCount: message.reply_count ?? null,
+      }));
+  },
+  readMessages: async ({ channelId, threadId, limit, accountId }) => {
+    const { messages } = await readSlackMessages(requireChannelId(channelId), {
+      accountId: accountId ?? undefined,
+      threadId,
+      limit,
+    });
+    return messages.map((message) => ({
+      author: message.user ?? "unknown",
+      content: message.text ?? "",
+      timestamp: message.ts,
+    }));
+  },
+};
@@ -317,3 +317,91 @@ export type ChannelSecurityAdapter<ResolvedAccount = unknown> = {
   ) => ChannelSecurityDmPolicy | null;
   collectWarnings?: (ctx: ChannelSecurityContext<ResolvedAccount>) => Promise<string[]> | string[];
 };
+
+export type ChannelCollaborationChannel = {
+  id: string;
+  name: string;
+  topic?: string | null;
+  category?: string | null;
+};
+
+export type ChannelCollaborationThread = {
+  id: string;
+  name: string;
+  channelId: string;
+  messageCount?: number | null;
+};
+
+export type ChannelCollaborationMessage = {
+  author: string;
+  content: string;
+  timestamp?: string | number;
+};
+
+/** Readable rendering of a structured handoff; Discord shows it as an embed. */
+export type ChannelCollaborationCard = {
+  title: string;
+  body: string;
+};
+
+type ChannelCollaborationBaseParams = {
+  cfg: OpenClawConfig;
+  accountId?: string | null;
+};
+
+/**
+ * Agent-to-agent collaboration threads (the `collaborate` tool and ChannelRouter).
+ *
+ * Thread ids are transport-native: a Discord thread channel id, a Slack root
+ * message ts or a Matrix root event id. Slack and Matrix threads only exist
+ * inside a channel/room, so their adapters need `channelId` alongside `threadId`.
+ */
+export type ChannelCollaborationAdapter = {
+  /** Platform user id of the bot identity bound to an agent (used for mentions). */
+  resolveAgentIdentity: (
+    params: ChannelCollaborationBaseParams & { agentId: string },
+  ) => Promise<string | undefined>;
+  formatMention: (identity: string) => string;
+  createThread: (
+    params: ChannelCollaborationBaseParams & { channelId: string; name: string },
+  ) => Promise<{ threadId: string; channelId: string }>;
+  sendToThread: (
+    params: ChannelCollaborationBaseParams & {
+      channelId?: string;
+      threadId: string;
+      text: string;
+      /** Transports without rich messages append the card to the text. */
+      card?: ChannelCollaborationCard;
+    },
+  ) => Promise<{ messageId: string }>;
+  /** Mark identities as thread participants so they answer without a fresh mention. */
+  registerParticipants?: (params: {
+    channelId?: string;
+    threadId: string;
+    participantIds: string[];
+  }) => void | Promise<void>;
+  /** Record an outbound mention so unanswered mentions can be retried. */
+  trackMention?: (params: {
+    messageId: string;
+    channelId?: string;
+    threadId: string;
+    fromAgentId: string;
+    targetAgentId: string;
+    targetIdentity: string;
+    text: string;
+  }) => Promise<void>;
+  /** Candidate channels for routing. `scopeId` is the guild/workspace when the transport has one. */
+  listChannels?: (
+    params: ChannelCollaborationBaseParams & { scopeId?: string },
+  ) => Promise<ChannelCollaborationChannel[]>;
+  listThreads?: (
+    params: ChannelCollaborationBaseParams & { scopeId?: string; channelId?: string },
+  ) => Promise<ChannelCollaborationThread[]>;
+  readMessages?: (
+    params: ChannelCollaborationBaseParams & {
+      channelId?: string;
+      threadId: string;
+      limit: number;
+    },
+  ) => Promise<ChannelCollaborationMessage[]>;
+};
@@ -6,6 +6,11 @@ export type ChannelMessageActionName = ChannelMessageActionNameFromList;
 
 export type {
   ChannelAuthAdapter,
+  ChannelCollaborationAdapter,
+  ChannelCollaborationCard,
+  ChannelCollaborationChannel,
+  ChannelCollaborationMessage,
+  ChannelCollaborationThread,
   ChannelCommandAdapter,
   ChannelConfigAdapter,
   ChannelDirectoryAdapter,
@@ -0,0 +1,265 @@
+import type { Command } from "commander";
+import { formatTimeAgo } from "../infra/format-time/format-relative.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+import { addGatewayClientOptions, callGatewayFromCli, type GatewayRpcOpts } from "./gateway-rpc.js";
+import { formatHelpExamples } from "./help-format.js";
+
+const JOB_STATUSES = ["PENDING", "RUNNING", "COMPLETED", "FAILED", "ABANDONED", "CANCELLED"];
+
+/** Mirrors the gateway `A2AJob` shape (see gateway/protocol/schema/a2a-jobs.ts). */
+type A2AJobView = {
+  jobId: string;
+  status: string;
+  requesterSessionKey?: string;
+  targetSessionKey: string;
+  message: string;
+  conversationId: string;
+  maxPingPongTurns: number;
+  currentTurn: number;
+  taskId?: string;
+  workSessionId?: string;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  resumeCount: number;
+  retryCount?: number;
+  lastError?: string;
+  active: boolean;
+  stale: boolean;
+};
+
+type A2AJobsListOptions = GatewayRpcOpts & {
+  status?: string[];
+  agent?: string;
+  limit?: string;
+  json?: boolean;
+};
+type A2AJobOptions = GatewayRpcOpts & { json?: boolean };
+type A2AJobCancelOptions = A2AJobOptions & { reason?: string };
+
+function collectStatus(value: string, previous: string[]): string[] {
+  const statuses = value
+    .split(",")
+    .map((v) => v.trim().toUpperCase())
+    .filter(Boolean);
+  const unknown = statuses.find((status) => !JOB_STATUSES.includes(status));
+  if (unknown) {
+    throw new Error(`Unknown status: ${unknown} (use ${JOB_STATUSES.join(", ")})`);
+  }
+  return [...previous, ...statuses];
+}
+
+function formatStatus(job: A2AJobView): string {
+  const label = job.stale ? `${job.status} (stale)` : job.status;
+  switch (job.status) {
+    case "RUNNING":
+      return job.stale ? theme.warn(label) : theme.accent(label);
+    case "COMPLETED":
+      return theme.success(label);
+    case "FAILED":
+    case "ABANDONED":
+      return theme.error(label);
+    default:
+      return theme.muted(label);
+  }
+}
+
+function formatTurns(job: A2AJobView): string {
+  return job.maxPingPongTurns > 0 ? `${job.currentTurn}/${job.maxPingPongTurns}` : "-";
+}
+
+function formatAgents(job: A2AJobView): string {
+  return `${resolveAgentIdFromSessionKey(job.requesterSessionKey)} → ${resolveAgentIdFromSessionKey(job.targetSessionKey)}`;
+}
+
+function printJob(job: A2AJobView) {
+  const rows: Array<[string, string | undefined]> = [
+    ["Job", job.jobId],
+    ["Status", formatStatus(job) + (job.active ? "" : theme.muted(" (not running here)"))],
+    ["Agents", formatAgents(job)],
+    ["Requester", job.requesterSessionKey],
+    ["Target", job.targetSessionKey],
+    ["Conversation", job.conversationId],
+    ["Turn", formatTurns(job)],
+    ["Task", job.taskId],
+    ["Work session", job.workSessionId],
+    ["Created", new Date(job.createdAt).toISOString()],
+    [
+      "Updated",
+      `${new Date(job.updatedAt).toISOString()} (${formatTimeAgo(Date.now() - job.updatedAt)})`,
+    ],
+    ["Finished", job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined],
+    ["Resumes", job.resumeCount > 0 ? String(job.resumeCount) : undefined],
+    ["Retries", job.retryCount ? String(job.retryCount) : undefined],
+    ["Last error", job.lastError ? theme.error(job.lastError) : undefined],
+  ];
+  for (const [label, value] of rows) {
+    if (value) {
+      defaultRuntime.log(`${theme.muted(label.padEnd(13))} ${value}`);
+    }
+  }
+  defaultRuntime.log(`\n${job.message}`);
+}
+
+async function callJobControl(
+  method: "a2a.jobs.cancel" | "a2a.jobs.retry" | "a2a.jobs.resume",
+  opts: A2AJobOptions,
+  params: Record<string, unknown>,
+  verb: string,
+) {
+  const result = (await callGatewayFromCli(method, opts, params, { progress: !opts.json })) as {
+    job: A2AJobView;
+  };
+  if (opts.json) {
+    defaultRuntime.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  defaultRuntime.log(`${verb} ${theme.accent(result.job.jobId)} → ${formatStatus(result.job)}`);
+}
+
+export function registerA2ACli(program: Command) {
+  const a2a = program.command("a2a").description("Inspect and control agent-to-agent flows");
+
+  const jobs = a2a
+    .command("jobs")
+    .description("Durable A2A jobs (ping-pong conversations between agents)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw a2a jobs list --status RUNNING", "Flows running right now."],
+          ["openclaw a2a jobs show <jobId>", "Turn, conversation and last error of one job."],
+          [
+            'openclaw a2a jobs cancel <jobId> --reason "looping"',
+            "Stop a flow without restarting the gateway.",
+          ],
+          ["openclaw a2a jobs retry <jobId>", "Run a failed job again from the first message."],
+          ["openclaw a2a jobs resume <jobId>", "Continue a stopped job from its last turn."],
+        ])}\n`,
+    );
+
+  addGatewayClientOptions(
+    jobs
+      .command("list")
+      .description("List A2A jobs, most recently updated first")
+      .option(
+        "--status <status>",
+        "Only jobs in this status (repeatable or comma-separated)",
+        collectStatus,
+        [],
+      )
+      .option("--agent <id>", "Only jobs this agent sent or received")
+      .option("--limit <n>", "Max jobs", "50")
+      .option("--json", "Output JSON", false),
+  ).action(async (opts: A2AJobsListOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      const limit = Number.parseInt(opts.limit ?? "50", 10);
+      const result = (await callGatewayFromCli(
+        "a2a.jobs.list",
+        opts,
+        {
+          status: opts.status?.length ? opts.status : undefined,
+          agentId: opts.agent?.trim() || undefined,
+          limit: Number.isFinite(limit) && limit > 0 ? limit : 50,
+        },
+        { progress: !opts.json },
+      )) as { jobs: A2AJobView[]; total: number };
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      if (result.jobs.length === 0) {
+        defaultRuntime.log(theme.muted("No A2A jobs."));
+        return;
+      }
+      const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+      defaultRuntime.log(
+        renderTable({
+          width: tableWidth,
+          columns: [
+            { key: "Job", header: "Job", minWidth: 12 },
+            { key: "Status", header: "Status", minWidth: 9 },
+            { key: "Agents", header: "Agents", minWidth: 12 },
+            { key: "Turn", header: "Turn", minWidth: 5 },
+            { key: "Updated", header: "Updated", minWidth: 8 },
+            { key: "Error", header: "Last error", minWidth: 12, flex: true },
+          ],
+          rows: result.jobs.map((job) => ({
+            Job: job.jobId,
+            Status: formatStatus(job),
+            Agents: formatAgents(job),
+            Turn: formatTurns(job),
+            Updated: formatTimeAgo(Date.now() - job.updatedAt),
+            Error: job.lastError ?? "",
+          })),
+        }).trimEnd(),
+      );
+      if (result.total > result.jobs.length) {
+        defaultRuntime.log(theme.muted(`${result.total - result.jobs.length} more (use --limit)`));
+      }
+    });
+  });
+
+  addGatewayClientOptions(
+    jobs
+      .command("show")
+      .description("Show one A2A job")
+      .argument("<jobId>", "Job id (the run id of the first message)")
+      .option("--json", "Output JSON", false),
+  ).action(async (jobId: string, opts: A2AJobOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      const result = (await callGatewayFromCli(
+        "a2a.jobs.get",
+        opts,
+        { jobId },
+        { progress: !opts.json },
+      )) as { job: A2AJobView };
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      printJob(result.job);
+    });
+  });
+
+  addGatewayClientOptions(
+    jobs
+      .command("cancel")
+      .description("Stop a pending or running job after its current agent step")
+      .argument("<jobId>", "Job id")
+      .option("--reason <text>", "Recorded as the job's last error")
+      .option("--json", "Output JSON", false),
+  ).action(async (jobId: string, opts: A2AJobCancelOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      await callJobControl("a2a.jobs.cancel", opts, { jobId, reason: opts.reason }, "Cancelled");
+    });
+  });
+
+  addGatewayClientOptions(
+    jobs
+      .command("retry")
+      .description("Run a failed, abandoned or cancelled job again from the first message")
+      .argument("<jobId>", "Job id")
+      .option("--json", "Output JSON", false),
+  ).action(async (jobId: string, opts: A2AJobOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      await callJobControl("a2a.jobs.retry", opts, { jobId }, "Retrying");
+    });
+  });
+
+  addGatewayClientOptions(
+    jobs
+      .command("resume")
+      .description("Continue a stopped job from its last completed turn")
+      .argument("<jobId>", "Job id")
+      .option("--json", "Output JSON", false),
+  ).action(async (jobId: string, opts: A2AJobOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      await callJobControl("a2a.jobs.resume", opts, { jobId }, "Resuming");
+    });
+  });
+}
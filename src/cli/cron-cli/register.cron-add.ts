@@ -81,6 +81,16 @@ export function registerCronAddCommand(cron: Command) {
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
+      .option("--task <text>", "Backlog task payload (adds a task to the agent backlog each run)")
+      .option("--task-priority <level>", "Priority for --task (low|medium|high|urgent)")
+      .option("--task-assignee <id>", "Agent that receives the --task (default: --agent)")
+      .option(
+        "--task-step <text>",
+        "Step for --task (repeatable)",
+        (value: string, prev: string[]) => [...prev, value],
+        [] as string[],
+      )
+      .option("--task-due <duration>", "Due date for --task relative to each run (e.g. 4h, 1d)")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
       .option("--model <model>", "Model override for agent jobs (provider/model or alias)")
       .option("--timeout-seconds <n>", "Timeout seconds for agent jobs")
@@ -169,13 +179,47 @@ export function registerCronAddCommand(cron: Command) {
           const payload = (() => {
             const systemEvent = typeof opts.systemEvent === "string" ? opts.systemEvent.trim() : "";
             const message = typeof opts.message === "string" ? opts.message.trim() : "";
-            const chosen = [Boolean(systemEvent), Boolean(message)].filter(Boolean).length;
+            const task = typeof opts.task === "string" ? opts.task.trim() : "";
+            const chosen = [Boolean(systemEvent), Boolean(message), Boolean(task)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one payload: --system-event or --message");
+              throw new Error("Choose exactly one payload: --system-event, --message, or --task");
             }
             if (systemEvent) {
               return { kind: "systemEvent" as const, text: systemEvent };
             }
+            if (task) {
+              const priorityRaw =
+                typeof opts.taskPriority === "string" ? opts.taskPriority.trim() : "";
+              if (priorityRaw && !["low", "medium", "high", "urgent"].includes(priorityRaw)) {
+                throw new Error("--task-priority must be low, medium, high, or urgent");
+              }
+              const dueRaw = typeof opts.taskDue === "string" ? opts.taskDue.trim() : "";
+              const dueInMs = dueRaw ? parseDurationMs(dueRaw) : undefined;
+              if (dueRaw && !dueInMs) {
+                throw new Error("Invalid --task-due; use e.g. 4h, 1d");
+              }
+              const steps = Array.isArray(opts.taskStep)
+                ? (opts.taskStep as string[]).map((step) => step.trim()).filter(Boolean)
+                : [];
+              return {
+                kind: "taskBacklog" as const,
+                description: task,
+                priority: (priorityRaw || undefined) as
+                  | "low"
+                  | "medium"
+                  | "high"
+                  | "urgent"
+                  | undefined,
+                assignee:
+                  typeof opts.taskAssignee === "string" && opts.taskAssignee.trim()
+                    ? sanitizeAgentId(opts.taskAssignee.trim())
+                    : undefined,
+                steps: steps.length > 0 ? steps : undefined,
+                dueInMs: dueInMs ?? undefined,
+              };
+            }
             const timeoutSeconds = parsePositiveIntOrUndefined(opts.timeoutSeconds);
             return {
               kind: "agentTurn" as const,
@@ -208,8 +252,10 @@ export function registerCronAddCommand(cron: Command) {
             throw new Error("Choose --delete-after-run or --keep-after-run, not both");
           }
 
-          if (sessionTarget === "main" && payload.kind !== "systemEvent") {
-            throw new Error("Main jobs require --system-event (systemEvent).");
+          if (sessionTarget === "main" && payload.kind === "agentTurn") {
+            throw new Error(
+              "Main jobs require --system-event (systemEvent) or --task (taskBacklog).",
+            );
           }
           if (sessionTarget === "isolated" && payload.kind !== "agentTurn") {
             throw new Error("Isolated jobs require --message (agentTurn).");
@@ -0,0 +1,253 @@
+import { setTimeout as delay } from "node:timers/promises";
+import type { Command } from "commander";
+import { loadConfig } from "../config/config.js";
+import type { CoordinationEvent } from "../infra/events/bus.js";
+import type { EventLogPage, EventLogQuery } from "../infra/events/event-log-query.js";
+import { defaultRuntime } from "../runtime.js";
+import { theme } from "../terminal/theme.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+import { addGatewayClientOptions, callGatewayFromCli, type GatewayRpcOpts } from "./gateway-rpc.js";
+import { formatHelpExamples } from "./help-format.js";
+import { parseDurationMs } from "./parse-duration.js";
+
+type EventsFilterOptions = {
+  since?: string;
+  until?: string;
+  agent?: string;
+  type?: string[];
+  workSession?: string;
+  task?: string;
+  limit?: string;
+  json?: boolean;
+};
+
+type EventsQueryOptions = GatewayRpcOpts & EventsFilterOptions & { cursor?: string };
+type EventsTailOptions = GatewayRpcOpts &
+  EventsFilterOptions & { follow?: boolean; interval?: string };
+type EventsReplayOptions = EventsFilterOptions & {
+  sink: string;
+  interval?: string;
+  settle?: string;
+  dryRun?: boolean;
+};
+
+function collect(value: string, previous: string[]): string[] {
+  return [
+    ...previous,
+    ...value
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean),
+  ];
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Accepts an ISO timestamp, epoch ms, or a duration meaning "that long ago" (e.g. `2h`). */
+export function parseTimeBound(raw: string | undefined, nowMs = Date.now()): number | undefined {
+  const trimmed = raw?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (/^\d{10,}$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  const iso = Date.parse(trimmed);
+  if (Number.isFinite(iso)) {
+    return iso;
+  }
+  try {
+    return nowMs - parseDurationMs(trimmed, { defaultUnit: "m" });
+  } catch {
+    throw new Error(`Invalid time: ${trimmed} (use ISO time, epoch ms, or a duration like 2h)`);
+  }
+}
+
+function buildQuery(opts: EventsFilterOptions, defaultLimit: number): EventLogQuery {
+  return {
+    since: parseTimeBound(opts.since),
+    until: parseTimeBound(opts.until),
+    agentId: opts.agent?.trim() || undefined,
+    types: opts.type && opts.type.length > 0 ? opts.type : undefined,
+    workSessionId: opts.workSession?.trim() || undefined,
+    taskId: opts.task?.trim() || undefined,
+    limit: parsePositiveInt(opts.limit, defaultLimit),
+  };
+}
+
+function formatEvent(event: CoordinationEvent): string {
+  const details = Object.entries(event.data ?? {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return `${key}=${text.length > 80 ? `${text.slice(0, 77)}...` : text}`;
+    })
+    .join(" ");
+  return [
+    theme.muted(new Date(event.ts).toISOString()),
+    theme.accent(event.type),
+    event.agentId,
+    details,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function printEvents(events: CoordinationEvent[], json: boolean | undefined): void {
+  for (const event of events) {
+    defaultRuntime.log(json ? JSON.stringify(event) : formatEvent(event));
+  }
+}
+
+function addFilterOptions(cmd: Command, defaultLimit?: string): Command {
+  const withFilters = cmd
+    .option("--since <time>", "Only events at/after this time (ISO, epoch ms, or 2h ago)")
+    .option("--until <time>", "Only events at/before this time (ISO, epoch ms, or 2h ago)")
+    .option("--agent <id>", "Only events from this agent")
+    .option("--type <type>", "Only this event type (repeatable or comma-separated)", collect, [])
+    .option("--work-session <id>", "Only events for this work session")
+    .option("--task <id>", "Only events for this task")
+    .option("--json", "Print one JSON event per line", false);
+  return defaultLimit ? withFilters.option("--limit <n>", "Max events", defaultLimit) : withFilters;
+}
+
+async function fetchEvents(
+  opts: GatewayRpcOpts,
+  params: EventLogQuery & { tail?: boolean },
+  progress: boolean,
+): Promise<EventLogPage> {
+  const payload = await callGatewayFromCli("events.query", opts, params, { progress });
+  if (!payload || typeof payload !== "object") {
+    throw new Error("Unexpected events.query response");
+  }
+  return payload as EventLogPage;
+}
+
+export function registerEventsCli(program: Command) {
+  const events = program
+    .command("events")
+    .description("Query, tail, and replay the coordination event log")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw events query --since 2h --agent main", "Events from main in the last 2h."],
+          ["openclaw events tail --type task.completed --follow", "Follow task completions."],
+          [
+            "openclaw events replay --sink discord-conversation --since 2026-03-01T00:00Z",
+            "Backfill a conversation sink after an outage.",
+          ],
+        ])}\n`,
+    );
+
+  addGatewayClientOptions(
+    addFilterOptions(
+      events
+        .command("query")
+        .description("Page through events in chronological order")
+        .option("--cursor <cursor>", "Continue from a previous page"),
+      "100",
+    ),
+  ).action(async (opts: EventsQueryOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      const page = await fetchEvents(
+        opts,
+        { ...buildQuery(opts, 100), cursor: opts.cursor },
+        !opts.json,
+      );
+      printEvents(page.events, opts.json);
+      if (!opts.json && page.hasMore && page.cursor) {
+        defaultRuntime.log(theme.muted(`More events: --cursor ${page.cursor}`));
+      }
+    });
+  });
+
+  addGatewayClientOptions(
+    addFilterOptions(
+      events
+        .command("tail")
+        .description("Show the newest events")
+        .option("--follow", "Keep polling for new events", false)
+        .option("--interval <ms>", "Polling interval in ms", "2000"),
+      "50",
+    ),
+  ).action(async (opts: EventsTailOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      const query = buildQuery(opts, 50);
+      const first = await fetchEvents(opts, { ...query, tail: true }, !opts.json && !opts.follow);
+      printEvents(first.events, opts.json);
+      if (!opts.follow) {
+        return;
+      }
+      const interval = parsePositiveInt(opts.interval, 2000);
+      let cursor = first.cursor;
+      for (;;) {
+        await delay(interval);
+        const page = await fetchEvents(opts, { ...query, cursor }, false);
+        printEvents(page.events, opts.json);
+        cursor = page.cursor ?? cursor;
+      }
+    });
+  });
+
+  addFilterOptions(
+    events
+      .command("replay")
+      .description("Re-emit logged events into a conversation sink (reads the local log)")
+      .requiredOption("--sink <id>", "Sink id from gateway.conversationSinks")
+      .option("--interval <ms>", "Pause between events in ms", "250")
+      .option("--settle <ms>", "Wait this long for the sink to flush before exiting", "5000")
+      .option("--dry-run", "Only list the events that would be replayed", false),
+  ).action(async (opts: EventsReplayOptions) => {
+    await runCommandWithRuntime(defaultRuntime, async () => {
+      const { replayEventLog, resolveEventLogDir } =
+        await import("../infra/events/event-log-query.js");
+      const { limit: _limit, ...query } = buildQuery(opts, 1);
+      const logDir = resolveEventLogDir();
+
+      if (opts.dryRun) {
+        const count = await replayEventLog({
+          logDir,
+          query,
+          emit: (event) => printEvents([event], opts.json),
+        });
+        defaultRuntime.log(theme.muted(`${count} events would be replayed into ${opts.sink}`));
+        return;
+      }
+
+      const sinkConfig = (loadConfig().gateway?.conversationSinks ?? []).find(
+        (entry) => entry.id === opts.sink,
+      );
+      if (!sinkConfig) {
+        throw new Error(`No conversation sink "${opts.sink}" in gateway.conversationSinks`);
+      }
+
+      const [{ emit }, { SinkRegistry }, { DiscordConversationSink }] = await Promise.all([
+        import("../infra/events/bus.js"),
+        import("../infra/events/sink-registry.js"),
+        import("../infra/events/sinks/discord-conversation-sink.js"),
+      ]);
+      const registry = new SinkRegistry();
+      registry.register(new DiscordConversationSink());
+      registry.startAll([{ ...sinkConfig, enabled: true }]);
+      try {
+        const count = await replayEventLog({
+          logDir,
+          query,
+          emit,
+          intervalMs: parsePositiveInt(opts.interval, 250),
+        });
+        await delay(parsePositiveInt(opts.settle, 5000));
+        defaultRuntime.log(`${count} events replayed into ${theme.accent(opts.sink)}`);
+      } finally {
+        registry.stopAll();
+      }
+    });
+  });
+}
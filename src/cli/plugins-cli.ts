@@ -319,6 +319,12 @@ export function registerPluginsCli(program: Command) {
       if (plugin.services.length > 0) {
         lines.push(`${theme.muted("Services:")} ${plugin.services.join(", ")}`);
       }
+      if (plugin.conversationSinks.length > 0) {
+        lines.push(`${theme.muted("Conversation sinks:")} ${plugin.conversationSinks.join(", ")}`);
+      }
+      if (plugin.ttsProviders.length > 0) {
+        lines.push(`${theme.muted("TTS providers:")} ${plugin.ttsProviders.join(", ")}`);
+      }
       if (plugin.error) {
         lines.push(`${theme.error("Error:")} ${plugin.error}`);
       }
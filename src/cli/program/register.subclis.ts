@@ -73,6 +73,33 @@ const entries: SubCliEntry[] = [
       mod.registerLogsCli(program);
     },
   },
+  {
+    name: "events",
+    description: "Query, tail, and replay the coordination event log",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../events-cli.js");
+      mod.registerEventsCli(program);
+    },
+  },
+  {
+    name: "a2a",
+    description: "Inspect and control agent-to-agent flows",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../a2a-cli.js");
+      mod.registerA2ACli(program);
+    },
+  },
+  {
+    name: "state",
+    description: "Inspect the shared gateway state store",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../state-cli.js");
+      mod.registerStateCli(program);
+    },
+  },
   {
     name: "system",
     description: "System events, heartbeat, and presence",
@@ -269,6 +296,15 @@ const entries: SubCliEntry[] = [
       mod.registerSecretsCli(program);
     },
   },
+  {
+    name: "tasks",
+    description: "Inspect and maintain agent task stores",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../tasks-cli.js");
+      mod.registerTasksCli(program);
+    },
+  },
   {
     name: "skills",
     description: "List and inspect available skills",
@@ -8,6 +8,8 @@ const buildWorkspaceSkillStatusMock = vi.fn();
 const formatSkillsListMock = vi.fn();
 const formatSkillInfoMock = vi.fn();
 const formatSkillsCheckMock = vi.fn();
+const formatSkillsUsageMock = vi.fn();
+const listSkillUsageMock = vi.fn();
 
 const runtime = {
   log: vi.fn(),
@@ -28,10 +30,15 @@ vi.mock("../agents/skills-status.js", () => ({
   buildWorkspaceSkillStatus: buildWorkspaceSkillStatusMock,
 }));
 
+vi.mock("../agents/skills/usage.js", () => ({
+  listSkillUsage: listSkillUsageMock,
+}));
+
 vi.mock("./skills-cli.format.js", () => ({
   formatSkillsList: formatSkillsListMock,
   formatSkillInfo: formatSkillInfoMock,
   formatSkillsCheck: formatSkillsCheckMock,
+  formatSkillsUsage: formatSkillsUsageMock,
 }));
 
 vi.mock("../runtime.js", () => ({
@@ -66,6 +73,8 @@ describe("registerSkillsCli", () => {
     formatSkillsListMock.mockReturnValue("skills-list-output");
     formatSkillInfoMock.mockReturnValue("skills-info-output");
     formatSkillsCheckMock.mockReturnValue("skills-check-output");
+    formatSkillsUsageMock.mockReturnValue("skills-usage-output");
+    listSkillUsageMock.mockResolvedValue([]);
   });
 
   it("runs list command with resolved report and formatter options", async () => {
@@ -103,6 +112,17 @@ describe("registerSkillsCli", () => {
     expect(runtime.log).toHaveBeenCalledWith("skills-check-output");
   });
 
+  it("runs usage command filtered by agent", async () => {
+    await runCli(["skills", "usage", "--agent", "ops", "--json"]);
+
+    expect(listSkillUsageMock).toHaveBeenCalledWith({ agentId: "ops" });
+    expect(formatSkillsUsageMock).toHaveBeenCalledWith(
+      [],
+      expect.objectContaining({ agent: "ops", json: true }),
+    );
+    expect(runtime.log).toHaveBeenCalledWith("skills-usage-output");
+  });
+
   it("uses list formatter for default skills action", async () => {
     await runCli(["skills"]);
 
@@ -1,4 +1,5 @@
 import type { SkillStatusEntry, SkillStatusReport } from "../agents/skills-status.js";
+import type { SkillUsageRecord } from "../agents/skills/usage.js";
 import { renderTable } from "../terminal/table.js";
 import { theme } from "../terminal/theme.js";
 import { shortenHomePath } from "../utils.js";
@@ -14,6 +15,11 @@ export type SkillInfoOptions = {
   json?: boolean;
 };
 
+export type SkillsUsageOptions = {
+  agent?: string;
+  json?: boolean;
+};
+
 export type SkillsCheckOptions = {
   json?: boolean;
 };
@@ -299,3 +305,38 @@ export function formatSkillsCheck(report: SkillStatusReport, opts: SkillsCheckOp
 
   return appendClawHubHint(lines.join("\n"), opts.json);
 }
+
+export function formatSkillsUsage(records: SkillUsageRecord[], opts: SkillsUsageOptions): string {
+  if (opts.json) {
+    return JSON.stringify({ usage: records }, null, 2);
+  }
+  if (records.length === 0) {
+    return opts.agent
+      ? `No skill usage recorded for agent "${opts.agent}".`
+      : "No skill usage recorded.";
+  }
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  const rows = records.map((record) => ({
+    Agent: record.agentId,
+    Skill: record.skill,
+    Uses: String(record.count),
+    Sources: Object.entries(record.sources)
+      .map(([source, count]) => `${source} ${count}`)
+      .join(", "),
+    "Last used": new Date(record.lastUsedAt).toISOString(),
+  }));
+  return [
+    theme.heading("Skill usage"),
+    renderTable({
+      width: tableWidth,
+      columns: [
+        { key: "Agent", header: "Agent", minWidth: 8 },
+        { key: "Skill", header: "Skill", minWidth: 18, flex: true },
+        { key: "Uses", header: "Uses", minWidth: 5 },
+        { key: "Sources", header: "Sources", minWidth: 16, flex: true },
+        { key: "Last used", header: "Last used", minWidth: 24 },
+      ],
+      rows,
+    }).trimEnd(),
+  ].join("\n");
+}
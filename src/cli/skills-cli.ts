@@ -4,14 +4,25 @@ import { loadConfig } from "../config/config.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { theme } from "../terminal/theme.js";
-import { formatSkillInfo, formatSkillsCheck, formatSkillsList } from "./skills-cli.format.js";
+import {
+  formatSkillInfo,
+  formatSkillsCheck,
+  formatSkillsList,
+  formatSkillsUsage,
+} from "./skills-cli.format.js";
 
 export type {
   SkillInfoOptions,
   SkillsCheckOptions,
   SkillsListOptions,
+  SkillsUsageOptions,
+} from "./skills-cli.format.js";
+export {
+  formatSkillInfo,
+  formatSkillsCheck,
+  formatSkillsList,
+  formatSkillsUsage,
 } from "./skills-cli.format.js";
-export { formatSkillInfo, formatSkillsCheck, formatSkillsList } from "./skills-cli.format.js";
 
 type SkillStatusReport = Awaited<
   ReturnType<(typeof import("../agents/skills-status.js"))["buildWorkspaceSkillStatus"]>
@@ -74,6 +85,22 @@ export function registerSkillsCli(program: Command) {
       await runSkillsAction((report) => formatSkillsCheck(report, opts));
     });
 
+  skills
+    .command("usage")
+    .description("Show how often each agent loaded or read its skills")
+    .option("--agent <id>", "Only show usage for this agent")
+    .option("--json", "Output as JSON", false)
+    .action(async (opts) => {
+      try {
+        const { listSkillUsage } = await import("../agents/skills/usage.js");
+        const records = await listSkillUsage({ agentId: opts.agent });
+        defaultRuntime.log(formatSkillsUsage(records, opts));
+      } catch (err) {
+        defaultRuntime.error(String(err));
+        defaultRuntime.exit(1);
+      }
+    });
+
   // Default action (no subcommand) - show list
   skills.action(async () => {
     await runSkillsAction((report) => formatSkillsList(report, {}));
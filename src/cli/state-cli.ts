@@ -0,0 +1,183 @@
+import type { Command } from "commander";
+import { formatTimeAgo } from "../infra/format-time/format-relative.js";
+import {
+  inspectStateStore,
+  isStateStoreBackend,
+  openStateNamespace,
+  openStateStore,
+  type StateStoreBackend,
+} from "../infra/state-store.js";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+import { formatHelpExamples } from "./help-format.js";
+
+type StateInspectOptions = {
+  backend?: string;
+  limit?: string;
+  prune?: boolean;
+  json?: boolean;
+};
+
+const VALUE_PREVIEW_CHARS = 120;
+
+function parseBackend(value: string | undefined): StateStoreBackend | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const backend = value.trim().toLowerCase();
+  if (!isStateStoreBackend(backend)) {
+    throw new Error(`Unknown state store backend: ${value} (use file or sqlite)`);
+  }
+  return backend;
+}
+
+function formatUpdated(ts: number | undefined): string {
+  return ts ? formatTimeAgo(Date.now() - ts) : "-";
+}
+
+function formatExpires(ts: number | undefined): string {
+  if (!ts) {
+    return theme.muted("never");
+  }
+  const remainingMs = ts - Date.now();
+  return remainingMs > 0 ? `in ${formatTimeAgo(remainingMs, { suffix: false })}` : "expired";
+}
+
+function previewValue(value: unknown): string {
+  const json = JSON.stringify(value) ?? "";
+  return json.length > VALUE_PREVIEW_CHARS ? `${json.slice(0, VALUE_PREVIEW_CHARS - 1)}…` : json;
+}
+
+async function pruneNamespaces(
+  backend: StateStoreBackend | undefined,
+  namespaces: string[],
+): Promise<Record<string, number>> {
+  const pruned: Record<string, number> = {};
+  for (const namespace of namespaces) {
+    pruned[namespace] = await openStateNamespace(namespace, { backend }).prune();
+  }
+  return pruned;
+}
+
+async function inspectNamespace(namespace: string, opts: StateInspectOptions) {
+  const backend = parseBackend(opts.backend);
+  const pruned = opts.prune ? await pruneNamespaces(backend, [namespace]) : undefined;
+  const ns = openStateNamespace(namespace, { backend });
+  const limit = Number.parseInt(opts.limit ?? "50", 10);
+  const entries = (await ns.entries()).toReversed();
+  const shown = Number.isFinite(limit) && limit > 0 ? entries.slice(0, limit) : entries;
+  if (opts.json) {
+    defaultRuntime.log(
+      JSON.stringify(
+        { backend: ns.store.backend, namespace, total: entries.length, entries: shown, pruned },
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+  if (pruned) {
+    defaultRuntime.log(theme.muted(`Pruned ${pruned[namespace]} expired entries.`));
+  }
+  if (entries.length === 0) {
+    defaultRuntime.log(theme.muted(`No live entries in ${namespace}.`));
+    return;
+  }
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  defaultRuntime.log(
+    renderTable({
+      width: tableWidth,
+      columns: [
+        { key: "Key", header: "Key", minWidth: 12 },
+        { key: "Updated", header: "Updated", minWidth: 8 },
+        { key: "Expires", header: "Expires", minWidth: 8 },
+        { key: "Value", header: "Value", minWidth: 20, flex: true },
+      ],
+      rows: shown.map((entry) => ({
+        Key: entry.key,
+        Updated: formatUpdated(entry.updatedAt),
+        Expires: formatExpires(entry.expiresAt),
+        Value: previewValue(entry.value),
+      })),
+    }).trimEnd(),
+  );
+  if (entries.length > shown.length) {
+    defaultRuntime.log(theme.muted(`${entries.length - shown.length} more (use --limit)`));
+  }
+}
+
+async function inspectAll(opts: StateInspectOptions) {
+  const backend = parseBackend(opts.backend);
+  const pruned = opts.prune
+    ? await pruneNamespaces(backend, await openStateStore({ backend }).listNamespaces())
+    : undefined;
+  const result = await inspectStateStore({ backend });
+  if (opts.json) {
+    defaultRuntime.log(JSON.stringify({ ...result, pruned }, null, 2));
+    return;
+  }
+  defaultRuntime.log(`${theme.muted("Backend")}  ${result.backend}`);
+  defaultRuntime.log(`${theme.muted("Location")} ${result.location}`);
+  if (pruned) {
+    const total = Object.values(pruned).reduce((sum, count) => sum + count, 0);
+    defaultRuntime.log(theme.muted(`Pruned ${total} expired entries.`));
+  }
+  if (result.namespaces.length === 0) {
+    defaultRuntime.log(theme.muted("No state namespaces yet."));
+    return;
+  }
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  defaultRuntime.log(
+    renderTable({
+      width: tableWidth,
+      columns: [
+        { key: "Namespace", header: "Namespace", minWidth: 16, flex: true },
+        { key: "Entries", header: "Entries", minWidth: 7 },
+        { key: "Expired", header: "Expired", minWidth: 7 },
+        { key: "Updated", header: "Updated", minWidth: 8 },
+      ],
+      rows: result.namespaces.map((summary) => ({
+        Namespace: summary.namespace,
+        Entries: String(summary.entries),
+        Expired: summary.expired > 0 ? theme.warn(String(summary.expired)) : "0",
+        Updated: formatUpdated(summary.lastUpdatedAt),
+      })),
+    }).trimEnd(),
+  );
+}
+
+export function registerStateCli(program: Command) {
+  const state = program
+    .command("state")
+    .description("Inspect the shared gateway state store")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw state inspect", "Namespaces with live and expired entry counts."],
+          ["openclaw state inspect discord.thread-participants", "Entries of one namespace."],
+          ["openclaw state inspect --prune", "Drop expired entries from every namespace."],
+          ["openclaw state inspect --backend sqlite --json", "Read the SQLite store as JSON."],
+        ])}\n`,
+    );
+
+  state
+    .command("inspect")
+    .description("Summarize namespaces, or list the entries of one namespace")
+    .argument("[namespace]", "Namespace to list (e.g. a2a.conversation-index)")
+    .option("--backend <backend>", "Store backend to read (file|sqlite; default from env)")
+    .option("--limit <n>", "Max entries when listing a namespace", "50")
+    .option("--prune", "Remove expired entries before reporting", false)
+    .option("--json", "Output JSON", false)
+    .action(async (namespace: string | undefined, opts: StateInspectOptions) => {
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        if (namespace?.trim()) {
+          await inspectNamespace(namespace.trim(), opts);
+          return;
+        }
+        await inspectAll(opts);
+      });
+    });
+}
@@ -0,0 +1,204 @@
+import type { Command } from "commander";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { formatDurationCompact } from "../infra/format-time/format-duration.js";
+import type { TaskReportGroupBy } from "../infra/task-accounting.js";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { shortenHomePath } from "../utils.js";
+import { formatTokenCount, formatUsd } from "../utils/usage-format.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+import { parseTimeBound } from "./events-cli.js";
+import { formatHelpExamples } from "./help-format.js";
+
+type TasksStoreOptions = {
+  agent?: string;
+  json?: boolean;
+};
+
+type TasksMigrateOptions = TasksStoreOptions & { removeMarkdown?: boolean };
+type TasksExportOptions = TasksStoreOptions & { out?: string };
+type TasksReportOptions = TasksStoreOptions & { since?: string; until?: string; by?: string };
+
+const REPORT_GROUPS: TaskReportGroupBy[] = ["agent", "priority", "milestone", "effort"];
+
+function resolveWorkspaces(agent?: string): Array<{ agentId: string; workspaceDir: string }> {
+  const cfg = loadConfig();
+  const agentIds = listAgentIds(cfg);
+  const trimmed = agent?.trim();
+  if (trimmed && !agentIds.includes(trimmed)) {
+    throw new Error(`Unknown agent: ${trimmed}. Valid agents: ${agentIds.join(", ")}`);
+  }
+  return (trimmed ? [trimmed] : agentIds).map((agentId) => ({
+    agentId,
+    workspaceDir: resolveAgentWorkspaceDir(cfg, agentId),
+  }));
+}
+
+export function registerTasksCli(program: Command) {
+  const tasks = program
+    .command("tasks")
+    .description("Inspect and maintain agent task stores")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ["openclaw tasks migrate", "Copy markdown task files of every agent into SQLite."],
+          ["openclaw tasks export --agent main", "Write SQLite tasks back as markdown files."],
+          [
+            "openclaw tasks report --since 7d --by effort",
+            "Active time and spend of tasks finished this week, by estimated effort.",
+          ],
+        ])}\n\n${theme.muted("Select the backend with OPENCLAW_TASK_STORE=markdown|sqlite.")}\n`,
+    );
+
+  tasks
+    .command("migrate")
+    .description("Migrate markdown task files into the SQLite task store")
+    .option("--agent <id>", "Only migrate this agent (default: all agents)")
+    .option("--remove-markdown", "Delete task_*.md files once their task is in SQLite", false)
+    .option("--json", "Print JSON", false)
+    .action(async (opts: TasksMigrateOptions) => {
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        const { migrateMarkdownTasksToSqlite } =
+          await import("../agents/tools/task-store-migrate.js");
+        const results = [];
+        for (const { agentId, workspaceDir } of resolveWorkspaces(opts.agent)) {
+          const result = await migrateMarkdownTasksToSqlite(workspaceDir, {
+            removeMarkdown: opts.removeMarkdown,
+          });
+          results.push({ agentId, ...result });
+        }
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(results, null, 2));
+          return;
+        }
+        for (const result of results) {
+          defaultRuntime.log(
+            `${theme.accent(result.agentId)} ${shortenHomePath(result.workspaceDir)}: ${result.migrated} migrated, ${result.skipped} already present${opts.removeMarkdown ? `, ${result.removedMarkdown} markdown files removed` : ""}`,
+          );
+        }
+        defaultRuntime.log(theme.muted("Set OPENCLAW_TASK_STORE=sqlite to use the SQLite store."));
+      });
+    });
+
+  tasks
+    .command("export")
+    .description("Export the SQLite task store as markdown task files")
+    .option("--agent <id>", "Only export this agent (default: all agents)")
+    .option("--out <dir>", "Output directory (default: the workspace tasks/ directory)")
+    .option("--json", "Print JSON", false)
+    .action(async (opts: TasksExportOptions) => {
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        const { exportSqliteTasksToMarkdown } =
+          await import("../agents/tools/task-store-migrate.js");
+        const workspaces = resolveWorkspaces(opts.agent);
+        if (opts.out && workspaces.length > 1) {
+          throw new Error("--out requires --agent (task ids are only unique per workspace)");
+        }
+        const results = [];
+        for (const { agentId, workspaceDir } of workspaces) {
+          const result = await exportSqliteTasksToMarkdown(workspaceDir, { outDir: opts.out });
+          results.push({ agentId, ...result });
+        }
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(results, null, 2));
+          return;
+        }
+        for (const result of results) {
+          defaultRuntime.log(
+            `${theme.accent(result.agentId)}: ${result.exported} tasks → ${shortenHomePath(result.outDir)}`,
+          );
+        }
+      });
+    });
+
+  tasks
+    .command("report")
+    .description("Time and spend of finished tasks, aggregated from task history")
+    .option("--since <time>", "Tasks finished at/after this time (ISO, epoch ms, or 7d ago)", "30d")
+    .option("--until <time>", "Tasks finished at/before this time")
+    .option("--agent <id>", "Only this agent (default: all agents)")
+    .option("--by <group>", `Group by ${REPORT_GROUPS.join("|")}`, "agent")
+    .option("--json", "Print JSON", false)
+    .action(async (opts: TasksReportOptions) => {
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        const by = (opts.by ?? "agent") as TaskReportGroupBy;
+        if (!REPORT_GROUPS.includes(by)) {
+          throw new Error(`Invalid --by: ${opts.by} (use ${REPORT_GROUPS.join(", ")})`);
+        }
+        const agentId = opts.agent?.trim() || undefined;
+        if (agentId) {
+          resolveWorkspaces(agentId);
+        }
+        const { aggregateTaskAccounting, loadTaskAccountingRecords } =
+          await import("../infra/task-accounting.js");
+        const sinceMs = parseTimeBound(opts.since);
+        const untilMs = parseTimeBound(opts.until);
+        const records = await loadTaskAccountingRecords(loadConfig(), {
+          sinceMs,
+          untilMs,
+          agentId,
+        });
+        const groups = aggregateTaskAccounting(records, by);
+        const totals = aggregateTaskAccounting(
+          records.map((record) => ({ ...record, agentId: "total" })),
+          "agent",
+        )[0];
+
+        if (opts.json) {
+          defaultRuntime.log(
+            JSON.stringify(
+              {
+                since: sinceMs !== undefined ? new Date(sinceMs).toISOString() : null,
+                until: untilMs !== undefined ? new Date(untilMs).toISOString() : null,
+                by,
+                groups,
+                totals: totals ?? null,
+                tasks: records,
+              },
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+        if (!totals) {
+          defaultRuntime.log(theme.muted("No finished tasks with accounting in this window."));
+          return;
+        }
+        const duration = (ms: number) => formatDurationCompact(ms, { spaced: true }) ?? "0s";
+        const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+        defaultRuntime.log(
+          renderTable({
+            width: tableWidth,
+            columns: [
+              { key: "Group", header: by[0].toUpperCase() + by.slice(1), minWidth: 10, flex: true },
+              { key: "Tasks", header: "Tasks", minWidth: 6 },
+              { key: "Active", header: "Active", minWidth: 8 },
+              { key: "AvgActive", header: "Avg active", minWidth: 10 },
+              { key: "Wall", header: "Wall clock", minWidth: 10 },
+              { key: "Runs", header: "Runs", minWidth: 5 },
+              { key: "Tokens", header: "Tokens", minWidth: 7 },
+              { key: "Cost", header: "Cost", minWidth: 8 },
+            ],
+            rows: [...groups, totals].map((group) => ({
+              Group: group === totals ? theme.heading("total") : group.key,
+              Tasks:
+                group.cancelled > 0 ? `${group.tasks} (${group.cancelled}✗)` : String(group.tasks),
+              Active: duration(group.activeMs),
+              AvgActive: duration(group.avgActiveMs),
+              Wall: duration(group.wallClockMs),
+              Runs: String(group.runs),
+              Tokens: formatTokenCount(group.tokens),
+              Cost: formatUsd(group.costUsd) ?? "$0.00",
+            })),
+          }).trimEnd(),
+        );
+        if (records.some((record) => record.missingCostEntries)) {
+          defaultRuntime.log(theme.muted("Some usage had no pricing; costs are lower bounds."));
+        }
+      });
+    });
+}
@@ -91,6 +91,10 @@ export const FIELD_HELP: Record<string, string> = {
     "Explicit gateway-level tool denylist to block risky tools even if lower-level policies allow them. Use deny rules for emergency response and defense-in-depth hardening.",
   "gateway.channelHealthCheckMinutes":
     "Interval in minutes for automatic channel health probing and status updates. Use lower intervals for faster detection, or higher intervals to reduce periodic probe noise.",
+  "gateway.collaboration":
+    "Settings for the agent-to-agent collaborate tool, which opens threads on Discord, Slack or Matrix and mentions the target agent's bot.",
+  "gateway.collaboration.routers":
+    "Per-channel ChannelRouter settings (defaultChannelId, optional scopeId, accountId, model) used to pick a channel or reuse a thread when collaborate gets no channelId. Discord falls back to the discord-conversation sink options.",
   "gateway.tailscale":
     "Tailscale integration settings for Serve/Funnel exposure and lifecycle handling on gateway start/exit. Keep off unless your deployment intentionally relies on Tailscale ingress.",
   "gateway.tailscale.mode":
@@ -568,6 +572,22 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional account selector for multi-account channel setups when approvals must route through a specific account context. Use this only when the target channel has multiple configured identities.",
   "approvals.exec.targets[].threadId":
     "Optional thread/topic target for channels that support threaded delivery of forwarded approvals. Use this to keep approval traffic contained in operational threads instead of main channels.",
+  "approvals.inbox":
+    "Unified approval inbox for tasks waiting in pending_approval, plans submitted for review, and exec approvals. Requests are stored with kind, requester, summary, risk and expiry, and every transition is written to an audit log.",
+  "approvals.inbox.enabled":
+    "Enables the approval inbox so approval requests are collected, delivered to the configured targets and listed by /approvals (default: false). Leave disabled to keep the per-feature approval flows only.",
+  "approvals.inbox.kinds":
+    'Approval kinds that feed the inbox, any of "task", "plan" and "exec". Omit to collect every kind; narrow it when exec approvals are already handled by exec forwarding.',
+  "approvals.inbox.targets":
+    "Delivery targets for new approval requests. Discord targets get buttons, Slack targets get Block Kit buttons, Telegram targets get an inline keyboard, and other channels get a text prompt with the /approvals command.",
+  "approvals.inbox.approvers":
+    "Humans allowed to decide from chat buttons, written as `<channel>:<userId>` such as `discord:123456789` or `slack:U012ABC`. Chat decisions (buttons and /approvals) require a match, so an empty list leaves decisions to gateway clients with operator.approvals.",
+  "approvals.inbox.timeout":
+    'How long a task or plan request waits for a decision, as a duration such as "30m" or "4h" (default: "1h"). Exec approvals keep the timeout of the exec request itself.',
+  "approvals.inbox.onTimeout":
+    'What happens when a request times out: "reject" rejects it (default), "escalate" notifies the escalation targets and waits one more timeout before rejecting.',
+  "approvals.inbox.escalateTo":
+    "Targets notified when a request escalates, using the same channel/to/accountId/threadId shape as inbox targets. Falls back to the inbox targets when empty.",
   "tools.fs.workspaceOnly":
     "Restrict filesystem tools (read/write/edit/apply_patch) to the workspace directory (default: false).",
   "tools.sessions.visibility":
@@ -708,7 +728,7 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.memorySearch.enabled":
     "Master toggle for memory search indexing and retrieval behavior on this agent profile. Keep enabled for semantic recall, and disable when you want fully stateless responses.",
   "agents.defaults.memorySearch.sources":
-    'Chooses which sources are indexed: "memory" reads MEMORY.md + memory files, and "sessions" includes transcript history. Keep ["memory"] unless you need recall from prior chat transcripts.',
+    'Chooses which sources are indexed: "memory" reads MEMORY.md + memory files, "sessions" includes transcript history, "tasks" covers task files and task history, and "a2a" covers agent-to-agent conversations from the coordination event log. Keep ["memory"] unless you need recall from prior chats or past work.',
   "agents.defaults.memorySearch.extraPaths":
     "Adds extra directories or .md files to the memory index beyond default memory files. Use this when key reference docs live elsewhere in your repo; keep paths small and intentional to avoid noisy recall.",
   "agents.defaults.memorySearch.experimental.sessionMemory":
@@ -774,6 +794,16 @@ export const FIELD_HELP: Record<string, string> = {
     'Selects the global memory engine: "builtin" uses OpenClaw memory internals, while "qmd" uses the QMD sidecar pipeline. Keep "builtin" unless you intentionally operate QMD.',
   "memory.citations":
     'Controls citation visibility in replies: "auto" shows citations when useful, "on" always shows them, and "off" hides them. Keep "auto" for a balanced signal-to-noise default.',
+  "memory.team":
+    'Shared team memory namespace: one directory of notes indexed once and searchable by every agent allowed to read it. Results come back labeled with source "team" and the agent/task that wrote each note.',
+  "memory.team.enabled":
+    "Enables the shared team memory namespace (default: false). Turn on when agents should cite each other's notes instead of re-deriving the same findings.",
+  "memory.team.dir":
+    "Directory holding team notes (default: <stateDir>/team-memory). Every `.md` file under it is indexed into a single shared index.",
+  "memory.team.read":
+    'Agent ids whose memory_search includes team notes (default: ["*"] for every agent). List ids explicitly to keep some agents out of the shared namespace.',
+  "memory.team.write":
+    'Agent ids allowed to add notes with team_memory_write (default: ["*"]). Restrict this when only a few agents should curate shared knowledge.',
   "memory.qmd.command":
     "Sets the executable path for the `qmd` binary used by the QMD backend (default: resolved from PATH). Use an explicit absolute path when multiple qmd installs exist or PATH differs across environments.",
   "memory.qmd.mcporter":
@@ -937,6 +967,68 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.humanDelay.mode": 'Delay style for block replies ("off", "natural", "custom").',
   "agents.defaults.humanDelay.minMs": "Minimum delay in ms for custom humanDelay (default: 800).",
   "agents.defaults.humanDelay.maxMs": "Maximum delay in ms for custom humanDelay (default: 2500).",
+  "agents.defaults.observer":
+    "How thread messages reach an agent while it only observes (another agent is the Handler). Per-agent overrides go in agents.list[].observer.",
+  "agents.defaults.observer.mode":
+    'Observer handling: "history" (default) keeps observed messages in the pending group history; "summarize" collects them in a rolling buffer that is folded into one summary block, handed to the agent when it becomes the Handler.',
+  "agents.defaults.observer.bufferMessages":
+    "Max unsummarized observed messages kept per session in summarize mode (default: 100). Older messages stay retrievable via sessions_history includeObserved.",
+  "agents.defaults.observer.summarizeEvery":
+    "Fold the observer buffer into the summary after this many observed messages (default: 30).",
+  "agents.defaults.observer.model":
+    "Model (provider/model) for observer summaries. Defaults to the agent's primary model; a small fast model is usually enough.",
+  "agents.defaults.skillGroups":
+    'Skill groups (SKILL.md "groups" frontmatter) whose skills are listed in every prompt. Other grouped skills are only named by group and loaded with skill_load; ungrouped skills are always listed. Omit to list every group; per-agent overrides go in agents.list[].skillGroups.',
+  "agents.defaults.taskContinuation":
+    "Background task continuation: agents that sit idle with open tasks are nudged back to work, and abandoned in-progress tasks return to the backlog.",
+  "agents.defaults.taskContinuation.enabled":
+    "Enables the task continuation runner (default: true). Disable to stop idle nudges and zombie-task recovery.",
+  "agents.defaults.taskContinuation.checkInterval":
+    "How often agents are checked for idle open tasks (duration, default unit minutes; default: 2m).",
+  "agents.defaults.taskContinuation.idleThreshold":
+    "How long an agent with open tasks must be idle before it is nudged (duration, default unit minutes; default: 3m).",
+  "agents.defaults.taskContinuation.zombieTaskTtl":
+    "In-progress tasks not updated for this long are moved back to the backlog (duration, default unit hours; default: 24h).",
+  "agents.defaults.taskContinuation.channel":
+    'Channel used to resolve each agent\'s bound account for continuation and SLA messages (default: "discord").',
+  "agents.defaults.taskContinuation.sla":
+    "Due-date tracking for open tasks: owners are reminded when a task is due soon or overdue, and overdue urgent/high tasks escalate to the team lead.",
+  "agents.defaults.taskContinuation.sla.enabled":
+    "Enables SLA reminders and escalations (default: true).",
+  "agents.defaults.taskContinuation.sla.checkInterval":
+    "How often task deadlines are checked (duration, default unit minutes; default: 5m).",
+  "agents.defaults.taskContinuation.sla.dueSoon":
+    'Per-priority window before the due date in which a task counts as due soon (default unit hours; defaults: urgent 1h, high 4h, medium 24h, low 48h), e.g. { "urgent": "30m" }.',
+  "agents.defaults.taskContinuation.sla.target":
+    'Per-priority deadline measured from task creation for tasks without a dueDate (default unit hours), e.g. { "urgent": "4h", "high": "1d" }. Priorities without a target have no deadline.',
+  "agents.defaults.taskContinuation.team":
+    "Team roster for multi-agent coordination: roles, stuck detection and the optional Discord dashboard. Team state is tracked in <stateDir>/team-state.json.",
+  "agents.defaults.taskContinuation.team.enabled":
+    "Tracks team state from run lifecycle and task events (default: true).",
+  "agents.defaults.taskContinuation.team.lead":
+    'Agent id of the team lead; shorthand for roles: { "<id>": "lead" }. The lead receives SLA escalations.',
+  "agents.defaults.taskContinuation.team.roles":
+    'Role per agent id: "lead", "worker" (default) or "specialist".',
+  "agents.defaults.taskContinuation.team.capabilities":
+    'Skill tags per agent id, e.g. { "dev": ["typescript", "frontend"] }. Auto-assignment only considers agents that have every skill a task requires.',
+  "agents.defaults.taskContinuation.team.assignment":
+    'Policy for task_backlog_add assignee: "auto": how much work an agent may hold and how recent assignments are spread.',
+  "agents.defaults.taskContinuation.team.assignment.maxLoad":
+    "Max effort-weighted open tasks per agent before it stops receiving auto-assigned work (default: 6).",
+  "agents.defaults.taskContinuation.team.assignment.excludeLead":
+    "Keep the lead out of auto-assignment unless a task requires the lead role (default: true).",
+  "agents.defaults.taskContinuation.team.assignment.fairnessWindow":
+    "Window in which earlier auto-assignments count against an agent (duration, default unit minutes; default: 24h).",
+  "agents.defaults.taskContinuation.team.stuckAfter":
+    "An active agent without a heartbeat for this long is reported as stuck (duration, default unit minutes; default: 30m).",
+  "agents.defaults.taskContinuation.team.dashboard":
+    "Discord webhook dashboard mirroring team state. Only runs when webhookUrl is set.",
+  "agents.defaults.taskContinuation.team.dashboard.webhookUrl":
+    "Discord webhook URL the dashboard posts to. Treat it as a secret: anyone with the URL can post to the channel.",
+  "agents.defaults.taskContinuation.team.dashboard.messageId":
+    "Existing (e.g. pinned) webhook message to edit in place instead of posting a new one.",
+  "agents.defaults.taskContinuation.team.dashboard.interval":
+    "Dashboard refresh interval (duration, default unit minutes; default: 30s).",
   commands:
     "Controls chat command surfaces, owner gating, and elevated command access behavior across providers. Keep defaults unless you need stricter operator controls or broader command availability.",
   "commands.native":
@@ -1025,6 +1117,14 @@ export const FIELD_HELP: Record<string, string> = {
     "Groups controls for inter-agent session exchanges, including loop prevention limits on reply chaining. Keep defaults unless you run advanced agent-to-agent automation with strict turn caps.",
   "session.agentToAgent.maxPingPongTurns":
     "Max reply-back turns between requester and target agents during agent-to-agent exchanges (0-5). Use lower values to hard-limit chatter loops and preserve predictable run completion.",
+  "session.agentToAgent.intentClassifier":
+    "Optional model-backed intent classification for agent-to-agent messages. The classified intent sets the ping-pong budget within maxPingPongTurns; the built-in pattern classifier is used when this is unset, times out, or returns invalid output.",
+  "session.agentToAgent.intentClassifier.enabled":
+    "Turns the model classifier off without removing its model setting (default: on when a model is set).",
+  "session.agentToAgent.intentClassifier.model":
+    'Model used to classify intents, as "provider/model" or an alias. Pick a cheap, fast model; decisions are cached per conversation.',
+  "session.agentToAgent.intentClassifier.timeoutMs":
+    "How long to wait for the classifier model before falling back to the pattern classifier (default: 3000).",
   "session.threadBindings":
     "Shared defaults for thread-bound session routing behavior across providers that support thread focus workflows. Configure global defaults here and override per channel only when behavior differs.",
   "session.threadBindings.enabled":
@@ -1222,6 +1322,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum number of queued inbound items retained before drop policy applies. Keep caps bounded in noisy channels so memory usage remains predictable.",
   "messages.queue.drop":
     'Drop strategy when queue cap is exceeded: "old", "new", or "summarize". Use summarize when preserving intent matters, or old/new when deterministic dropping is preferred.',
+  "messages.queue.persist":
+    "Journals queued followup messages per session to the state store and replays them in order after a gateway restart, replying to the original channel and thread. Enable this when agents restart the gateway themselves while messages are waiting.",
   "messages.inbound":
     "Direct inbound debounce settings used before queue/turn processing starts. Configure this for provider-specific rapid message bursts from the same sender.",
   "messages.inbound.byChannel":
@@ -72,6 +72,8 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.tools.allow": "Gateway Tool Allowlist",
   "gateway.tools.deny": "Gateway Tool Denylist",
   "gateway.channelHealthCheckMinutes": "Gateway Channel Health Check Interval (min)",
+  "gateway.collaboration": "Gateway Collaboration",
+  "gateway.collaboration.routers": "Collaboration Channel Routers",
   "gateway.tailscale": "Gateway Tailscale",
   "gateway.tailscale.mode": "Gateway Tailscale Mode",
   "gateway.tailscale.resetOnExit": "Gateway Tailscale Reset on Exit",
@@ -198,6 +200,14 @@ export const FIELD_LABELS: Record<string, string> = {
   "approvals.exec.targets[].to": "Approval Target Destination",
   "approvals.exec.targets[].accountId": "Approval Target Account ID",
   "approvals.exec.targets[].threadId": "Approval Target Thread ID",
+  "approvals.inbox": "Approval Inbox",
+  "approvals.inbox.enabled": "Enable Approval Inbox",
+  "approvals.inbox.kinds": "Approval Inbox Kinds",
+  "approvals.inbox.targets": "Approval Inbox Targets",
+  "approvals.inbox.approvers": "Approval Inbox Approvers",
+  "approvals.inbox.timeout": "Approval Inbox Timeout",
+  "approvals.inbox.onTimeout": "Approval Inbox Timeout Action",
+  "approvals.inbox.escalateTo": "Approval Escalation Targets",
   "tools.message.allowCrossContextSend": "Allow Cross-Context Messaging",
   "tools.message.crossContext.allowWithinProvider": "Allow Cross-Context (Same Provider)",
   "tools.message.crossContext.allowAcrossProviders": "Allow Cross-Context (Across Providers)",
@@ -328,6 +338,11 @@ export const FIELD_LABELS: Record<string, string> = {
   memory: "Memory",
   "memory.backend": "Memory Backend",
   "memory.citations": "Memory Citations Mode",
+  "memory.team": "Team Memory",
+  "memory.team.enabled": "Team Memory Enabled",
+  "memory.team.dir": "Team Memory Directory",
+  "memory.team.read": "Team Memory Readers",
+  "memory.team.write": "Team Memory Writers",
   "memory.qmd.command": "QMD Binary",
   "memory.qmd.mcporter": "QMD MCPorter",
   "memory.qmd.mcporter.enabled": "QMD MCPorter Enabled",
@@ -401,6 +416,38 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.humanDelay.mode": "Human Delay Mode",
   "agents.defaults.humanDelay.minMs": "Human Delay Min (ms)",
   "agents.defaults.humanDelay.maxMs": "Human Delay Max (ms)",
+  "agents.defaults.observer": "Observer Mode",
+  "agents.defaults.observer.mode": "Observer Mode",
+  "agents.defaults.observer.bufferMessages": "Observer Buffer Messages",
+  "agents.defaults.observer.summarizeEvery": "Observer Summarize Every",
+  "agents.defaults.observer.model": "Observer Summary Model",
+  "agents.defaults.skillGroups": "Default Skill Groups",
+  "agents.defaults.taskContinuation": "Task Continuation",
+  "agents.defaults.taskContinuation.enabled": "Task Continuation Enabled",
+  "agents.defaults.taskContinuation.checkInterval": "Task Continuation Check Interval",
+  "agents.defaults.taskContinuation.idleThreshold": "Task Continuation Idle Threshold",
+  "agents.defaults.taskContinuation.zombieTaskTtl": "Zombie Task TTL",
+  "agents.defaults.taskContinuation.channel": "Task Continuation Channel",
+  "agents.defaults.taskContinuation.sla": "Task SLA",
+  "agents.defaults.taskContinuation.sla.enabled": "Task SLA Enabled",
+  "agents.defaults.taskContinuation.sla.checkInterval": "Task SLA Check Interval",
+  "agents.defaults.taskContinuation.sla.dueSoon": "Task SLA Due-Soon Windows",
+  "agents.defaults.taskContinuation.sla.target": "Task SLA Targets",
+  "agents.defaults.taskContinuation.team": "Team",
+  "agents.defaults.taskContinuation.team.enabled": "Team Tracking Enabled",
+  "agents.defaults.taskContinuation.team.lead": "Team Lead",
+  "agents.defaults.taskContinuation.team.roles": "Team Roles",
+  "agents.defaults.taskContinuation.team.capabilities": "Team Capabilities",
+  "agents.defaults.taskContinuation.team.assignment": "Auto-assignment",
+  "agents.defaults.taskContinuation.team.assignment.maxLoad": "Auto-assignment Max Load",
+  "agents.defaults.taskContinuation.team.assignment.excludeLead": "Auto-assignment Exclude Lead",
+  "agents.defaults.taskContinuation.team.assignment.fairnessWindow":
+    "Auto-assignment Fairness Window",
+  "agents.defaults.taskContinuation.team.stuckAfter": "Team Stuck After",
+  "agents.defaults.taskContinuation.team.dashboard": "Team Dashboard",
+  "agents.defaults.taskContinuation.team.dashboard.webhookUrl": "Team Dashboard Webhook URL",
+  "agents.defaults.taskContinuation.team.dashboard.messageId": "Team Dashboard Message ID",
+  "agents.defaults.taskContinuation.team.dashboard.interval": "Team Dashboard Interval",
   "agents.defaults.cliBackends": "CLI Backends",
   "agents.defaults.compaction": "Compaction",
   "agents.defaults.compaction.mode": "Compaction Mode",
@@ -484,6 +531,10 @@ export const FIELD_LABELS: Record<string, string> = {
   "session.sendPolicy.rules[].match.rawKeyPrefix": "Session Send Rule Raw Key Prefix",
   "session.agentToAgent": "Session Agent-to-Agent",
   "session.agentToAgent.maxPingPongTurns": "Agent-to-Agent Ping-Pong Turns",
+  "session.agentToAgent.intentClassifier": "Agent-to-Agent Intent Classifier",
+  "session.agentToAgent.intentClassifier.enabled": "Enable Intent Classifier Model",
+  "session.agentToAgent.intentClassifier.model": "Intent Classifier Model",
+  "session.agentToAgent.intentClassifier.timeoutMs": "Intent Classifier Timeout (ms)",
   "session.threadBindings": "Session Thread Bindings",
   "session.threadBindings.enabled": "Thread Binding Enabled",
   "session.threadBindings.ttlHours": "Thread Binding TTL (hours)",
@@ -607,6 +658,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "messages.queue.debounceMsByChannel": "Queue Debounce by Channel (ms)",
   "messages.queue.cap": "Queue Capacity",
   "messages.queue.drop": "Queue Drop Strategy",
+  "messages.queue.persist": "Persist Queue Across Restarts",
   "messages.inbound": "Inbound Debounce",
   "messages.suppressToolErrors": "Suppress Tool Error Warnings",
   "messages.ackReaction": "Ack Reaction Emoji",
@@ -193,6 +193,13 @@ export type AgentDefaultsConfig = {
   blockStreamingCoalesce?: BlockStreamingCoalesceConfig;
   /** Human-like delay between block replies. */
   humanDelay?: HumanDelayConfig;
+  /** How thread messages seen in Observer mode (not the Handler) reach the agent. */
+  observer?: AgentObserverConfig;
+  /**
+   * Skill groups listed in the prompt on every run (omit = every group). Skills in
+   * other groups are loaded on demand with `skill_load`.
+   */
+  skillGroups?: string[];
   timeoutSeconds?: number;
   /** Max inbound media size in MB for agent-visible attachments (text note or future image attach). */
   mediaMaxMb?: number;
@@ -266,6 +273,84 @@ export type AgentDefaultsConfig = {
   };
   /** Optional sandbox settings for non-main sessions. */
   sandbox?: AgentSandboxConfig;
+  /** Background task continuation: idle agents are nudged back to their open tasks. */
+  taskContinuation?: TaskContinuationConfig;
+};
+
+export type TaskContinuationConfig = {
+  /** Enable the continuation runner (default: true). */
+  enabled?: boolean;
+  /** How often agents are checked (duration string, default unit: minutes; default: 2m). */
+  checkInterval?: string;
+  /** Idle time before an agent with open tasks is nudged (default unit: minutes; default: 3m). */
+  idleThreshold?: string;
+  /** In-progress tasks untouched for this long are moved back to the backlog (default unit: hours; default: 24h). */
+  zombieTaskTtl?: string;
+  /** Channel used to resolve each agent's bound account for nudges (default: "discord"). */
+  channel?: string;
+  /** Due-date reminders and escalations. */
+  sla?: TaskSlaConfig;
+  /** Team roster, roles and the Discord dashboard. */
+  team?: TaskTeamConfig;
+};
+
+export type TaskTeamRole = "lead" | "worker" | "specialist";
+
+export type TaskTeamConfig = {
+  /** Track team state from run lifecycle and task events (default: true). */
+  enabled?: boolean;
+  /** Agent id of the team lead (shorthand for `roles: { <id>: "lead" }`). */
+  lead?: string;
+  roles?: Record<string, TaskTeamRole>;
+  /** Skill/role tags per agent, matched against a task's required skills on auto-assignment. */
+  capabilities?: Record<string, string[]>;
+  assignment?: {
+    /** Max effort-weighted open tasks per agent before it stops receiving work (default: 6). */
+    maxLoad?: number;
+    /** Keep the lead out of auto-assignment unless a task requires the lead role (default: true). */
+    excludeLead?: boolean;
+    /** Window in which earlier auto-assignments count against an agent (default unit: minutes; default: 24h). */
+    fairnessWindow?: string;
+  };
+  /** An active agent without a heartbeat for this long is reported as stuck (default unit: minutes; default: 30m). */
+  stuckAfter?: string;
+  dashboard?: {
+    /** Discord webhook URL; the dashboard only runs when set. */
+    webhookUrl?: string;
+    /** Existing (e.g. pinned) webhook message to edit instead of posting a new one. */
+    messageId?: string;
+    /** Refresh interval (default unit: minutes; default: 30s). */
+    interval?: string;
+  };
+};
+
+export type TaskSlaPriority = "urgent" | "high" | "medium" | "low";
+
+export type TaskSlaConfig = {
+  /** Enable the SLA monitor (default: true). */
+  enabled?: boolean;
+  /** How often deadlines are checked (default unit: minutes; default: 5m). */
+  checkInterval?: string;
+  /** Per-priority "due soon" window before the due date, e.g. `{ urgent: "30m" }` (default unit: hours). */
+  dueSoon?: Partial<Record<TaskSlaPriority, string>>;
+  /** Per-priority deadline measured from task creation, for tasks without a `dueDate` (default unit: hours). */
+  target?: Partial<Record<TaskSlaPriority, string>>;
+};
+
+export type AgentObserverMode = "history" | "summarize";
+
+export type AgentObserverConfig = {
+  /**
+   * "history" (default): observed messages feed the pending group history.
+   * "summarize": they collect in a rolling buffer that is folded into one summary block.
+   */
+  mode?: AgentObserverMode;
+  /** Max unsummarized messages kept per session; older ones stay in the raw archive only (default: 100). */
+  bufferMessages?: number;
+  /** Fold the buffer into the summary after this many observed messages (default: 30). */
+  summarizeEvery?: number;
+  /** Model used for the summary (provider/model; default: the agent's primary model). */
+  model?: string;
 };
 
 export type AgentCompactionMode = "default" | "safeguard";
@@ -14,11 +14,15 @@ export type AgentConfig = {
   model?: AgentModelConfig;
   /** Optional allowlist of skills for this agent (omit = all skills; empty = none). */
   skills?: string[];
+  /** Skill groups listed in this agent's prompt (overrides agents.defaults.skillGroups). */
+  skillGroups?: string[];
   memorySearch?: MemorySearchConfig;
   /** Human-like delay between block replies for this agent. */
   humanDelay?: HumanDelayConfig;
   /** Optional per-agent heartbeat overrides. */
   heartbeat?: AgentDefaultsConfig["heartbeat"];
+  /** Optional per-agent Observer-mode overrides. */
+  observer?: AgentDefaultsConfig["observer"];
   identity?: IdentityConfig;
   groupChat?: GroupChatConfig;
   subagents?: {
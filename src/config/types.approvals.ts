@@ -24,6 +24,26 @@ export type ExecApprovalForwardingConfig = {
   targets?: ExecApprovalForwardTarget[];
 };
 
+export type ApprovalInboxKind = "task" | "plan" | "exec";
+
+export type ApprovalInboxConfig = {
+  /** Collect task, plan and exec approvals into one inbox. Default: false. */
+  enabled?: boolean;
+  /** Which approval kinds feed the inbox. Omit = all kinds. */
+  kinds?: ApprovalInboxKind[];
+  /** Where new requests are delivered (Discord/Slack/Telegram get buttons, others a text prompt). */
+  targets?: ExecApprovalForwardTarget[];
+  /** Humans allowed to decide from chat buttons, as `<channel>:<userId>` (e.g. `discord:1234`). */
+  approvers?: string[];
+  /** How long a task or plan request waits for a decision (default: 1h). */
+  timeout?: string;
+  /** What happens when the timeout passes: reject (default) or escalate once before rejecting. */
+  onTimeout?: "reject" | "escalate";
+  /** Targets notified when a request escalates. */
+  escalateTo?: ExecApprovalForwardTarget[];
+};
+
 export type ApprovalsConfig = {
   exec?: ExecApprovalForwardingConfig;
+  inbox?: ApprovalInboxConfig;
 };
@@ -123,6 +123,15 @@ export type SessionConfig = {
   agentToAgent?: {
     /** Max ping-pong turns between requester/target (0–5). Default: 5. */
     maxPingPongTurns?: number;
+    /** Model-backed intent classification that sets the ping-pong budget per message. */
+    intentClassifier?: {
+      /** Default: true when a model is set. */
+      enabled?: boolean;
+      /** Cheap model as "provider/model" or an alias. */
+      model?: string;
+      /** Fall back to the pattern classifier after this long. Default: 3000. */
+      timeoutMs?: number;
+    };
   };
   /** Shared defaults for thread-bound session routing across channels/providers. */
   threadBindings?: SessionThreadBindingsConfig;
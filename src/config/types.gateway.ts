@@ -321,6 +321,25 @@ export type ConversationSinkEntry = {
   options: Record<string, unknown>;
 };
 
+export type CollaborationRouterConfig = {
+  /** Guild/workspace the router lists channels from (Discord guild id). */
+  scopeId?: string;
+  /** Channel used for new threads when the router cannot pick one. */
+  defaultChannelId: string;
+  /** Account the router reads channels and threads with. */
+  accountId?: string;
+  /** Router model as provider/model. */
+  model?: string;
+};
+
+export type GatewayCollaborationConfig = {
+  /**
+   * ChannelRouter settings per channel id (discord, slack, matrix, ...).
+   * Discord falls back to the discord-conversation sink options.
+   */
+  routers?: Record<string, CollaborationRouterConfig>;
+};
+
 export type GatewayConfig = {
   /** Single multiplexed port for Gateway WS + HTTP (default: 18789). */
   port?: number;
@@ -370,4 +389,6 @@ export type GatewayConfig = {
   channelHealthCheckMinutes?: number;
   /** Pluggable conversation sinks for routing A2A events to external platforms (e.g. Discord). */
   conversationSinks?: ConversationSinkEntry[];
+  /** Agent-to-agent `collaborate` tool settings. */
+  collaboration?: GatewayCollaborationConfig;
 };
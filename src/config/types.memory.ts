@@ -8,6 +8,18 @@ export type MemoryConfig = {
   backend?: MemoryBackend;
   citations?: MemoryCitationsMode;
   qmd?: MemoryQmdConfig;
+  team?: MemoryTeamConfig;
+};
+
+export type MemoryTeamConfig = {
+  /** Enable the shared team memory namespace (default: false). */
+  enabled?: boolean;
+  /** Shared notes directory (default: <stateDir>/team-memory). */
+  dir?: string;
+  /** Agent ids allowed to search team notes; "*" for every agent (default: ["*"]). */
+  read?: string[];
+  /** Agent ids allowed to write team notes; "*" for every agent (default: ["*"]). */
+  write?: string[];
 };
 
 export type MemoryQmdConfig = {
@@ -18,6 +18,11 @@ export type QueueConfig = {
   debounceMsByChannel?: InboundDebounceByProvider;
   cap?: number;
   drop?: QueueDropPolicy;
+  /**
+   * Journal queued followup messages to the state store so they are replayed
+   * (with their original reply routing) after a gateway restart. Default: false.
+   */
+  persist?: boolean;
 };
 
 export type InboundDebounceByProvider = Record<string, number>;
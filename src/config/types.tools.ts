@@ -304,8 +304,11 @@ export type AgentToolsConfig = {
 export type MemorySearchConfig = {
   /** Enable vector memory search (default: true). */
   enabled?: boolean;
-  /** Sources to index and search (default: ["memory"]). */
-  sources?: Array<"memory" | "sessions">;
+  /**
+   * Sources to index and search (default: ["memory"]). "tasks" covers task files and
+   * task history; "a2a" covers agent-to-agent conversations from the coordination event log.
+   */
+  sources?: Array<"memory" | "sessions" | "tasks" | "a2a">;
   /** Extra paths to include in memory search (directories or .md files). */
   extraPaths?: string[];
   /** Experimental memory search settings. */
@@ -1,4 +1,10 @@
-export type TtsProvider = "elevenlabs" | "openai" | "edge";
+export type BuiltinTtsProvider = "elevenlabs" | "openai" | "edge" | "command";
+
+/** A built-in provider or the id of a plugin-registered provider (`api.registerTtsProvider`). */
+export type TtsProvider = BuiltinTtsProvider | (string & {});
+
+/** Output container written by a command TTS binary. */
+export type TtsCommandOutputFormat = "wav" | "ogg" | "opus" | "mp3";
 
 export type TtsMode = "final" | "all";
 
@@ -73,6 +79,23 @@ export type TtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  /** Local binary (piper, espeak-ng, ...) run for `provider: "command"`; no network needed. */
+  command?: {
+    /** Executable name or path. */
+    command?: string;
+    /**
+     * Arguments; `{{Text}}`, `{{OutputPath}}`, `{{OutputDir}}` and `{{Voice}}` are templated.
+     * Without `{{Text}}` the text is written to stdin.
+     */
+    args?: string[];
+    /** Format the binary writes to `{{OutputPath}}` (default: wav). */
+    outputFormat?: TtsCommandOutputFormat;
+    /** Passed to `{{Voice}}` (e.g. a piper model path or espeak voice name). */
+    voice?: string;
+    /** Extra environment variables for the binary. */
+    env?: Record<string, string>;
+    timeoutMs?: number;
+  };
   /** Optional path for local TTS user preferences JSON. */
   prefsPath?: string;
   /** Hard cap for text sent to TTS (chars). */
@@ -1,9 +1,11 @@
 import { z } from "zod";
 import {
+  AgentObserverSchema,
   HeartbeatSchema,
   AgentSandboxSchema,
   AgentModelSchema,
   MemorySearchSchema,
+  TaskContinuationSchema,
 } from "./zod-schema.agent-runtime.js";
 import {
   BlockStreamingChunkSchema,
@@ -123,6 +125,8 @@ export const AgentDefaultsSchema = z
     blockStreamingChunk: BlockStreamingChunkSchema.optional(),
     blockStreamingCoalesce: BlockStreamingCoalesceSchema.optional(),
     humanDelay: HumanDelaySchema.optional(),
+    observer: AgentObserverSchema,
+    skillGroups: z.array(z.string()).optional(),
     timeoutSeconds: z.number().int().positive().optional(),
     mediaMaxMb: z.number().positive().optional(),
     imageMaxDimensionPx: z.number().int().positive().optional(),
@@ -160,6 +164,7 @@ export const AgentDefaultsSchema = z
       .strict()
       .optional(),
     sandbox: AgentSandboxSchema,
+    taskContinuation: TaskContinuationSchema,
   })
   .strict()
   .optional();
@@ -11,6 +11,77 @@ import {
 } from "./zod-schema.core.js";
 import { sensitive } from "./zod-schema.sensitive.js";
 
+export const AgentObserverSchema = z
+  .object({
+    mode: z.union([z.literal("history"), z.literal("summarize")]).optional(),
+    bufferMessages: z.number().int().positive().optional(),
+    summarizeEvery: z.number().int().positive().optional(),
+    model: z.string().optional(),
+  })
+  .strict()
+  .optional();
+
+const TaskSlaPriorityDurationsSchema = z
+  .object({
+    urgent: z.string().optional(),
+    high: z.string().optional(),
+    medium: z.string().optional(),
+    low: z.string().optional(),
+  })
+  .strict()
+  .optional();
+
+export const TaskContinuationSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    checkInterval: z.string().optional(),
+    idleThreshold: z.string().optional(),
+    zombieTaskTtl: z.string().optional(),
+    channel: z.string().optional(),
+    sla: z
+      .object({
+        enabled: z.boolean().optional(),
+        checkInterval: z.string().optional(),
+        dueSoon: TaskSlaPriorityDurationsSchema,
+        target: TaskSlaPriorityDurationsSchema,
+      })
+      .strict()
+      .optional(),
+    team: z
+      .object({
+        enabled: z.boolean().optional(),
+        lead: z.string().optional(),
+        roles: z
+          .record(
+            z.string(),
+            z.union([z.literal("lead"), z.literal("worker"), z.literal("specialist")]),
+          )
+          .optional(),
+        capabilities: z.record(z.string(), z.array(z.string())).optional(),
+        assignment: z
+          .object({
+            maxLoad: z.number().positive().optional(),
+            excludeLead: z.boolean().optional(),
+            fairnessWindow: z.string().optional(),
+          })
+          .strict()
+          .optional(),
+        stuckAfter: z.string().optional(),
+        dashboard: z
+          .object({
+            webhookUrl: z.string().optional().register(sensitive),
+            messageId: z.string().optional(),
+            interval: z.string().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .optional();
+
 export const HeartbeatSchema = z
   .object({
     every: z.string().optional(),
@@ -538,7 +609,11 @@ export const AgentToolsSchema = z
 export const MemorySearchSchema = z
   .object({
     enabled: z.boolean().optional(),
-    sources: z.array(z.union([z.literal("memory"), z.literal("sessions")])).optional(),
+    sources: z
+      .array(
+        z.union([z.literal("memory"), z.literal("sessions"), z.literal("tasks"), z.literal("a2a")]),
+      )
+      .optional(),
     extraPaths: z.array(z.string()).optional(),
     experimental: z
       .object({
@@ -679,9 +754,11 @@ export const AgentEntrySchema = z
     agentDir: z.string().optional(),
     model: AgentModelSchema.optional(),
     skills: z.array(z.string()).optional(),
+    skillGroups: z.array(z.string()).optional(),
     memorySearch: MemorySearchSchema,
     humanDelay: HumanDelaySchema.optional(),
     heartbeat: HeartbeatSchema,
+    observer: AgentObserverSchema,
     identity: IdentitySchema,
     groupChat: GroupChatSchema,
     subagents: z
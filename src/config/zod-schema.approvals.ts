@@ -20,9 +20,23 @@ const ExecApprovalForwardingSchema = z
   .strict()
   .optional();
 
+const ApprovalInboxSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    kinds: z.array(z.union([z.literal("task"), z.literal("plan"), z.literal("exec")])).optional(),
+    targets: z.array(ExecApprovalForwardTargetSchema).optional(),
+    approvers: z.array(z.string()).optional(),
+    timeout: z.string().optional(),
+    onTimeout: z.union([z.literal("reject"), z.literal("escalate")]).optional(),
+    escalateTo: z.array(ExecApprovalForwardTargetSchema).optional(),
+  })
+  .strict()
+  .optional();
+
 export const ApprovalsSchema = z
   .object({
     exec: ExecApprovalForwardingSchema,
+    inbox: ApprovalInboxSchema,
   })
   .strict()
   .optional();
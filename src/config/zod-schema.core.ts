@@ -352,7 +352,11 @@ export const MarkdownConfigSchema = z
   .strict()
   .optional();
 
-export const TtsProviderSchema = z.enum(["elevenlabs", "openai", "edge"]);
+/** Built-in providers plus plugin-registered provider ids. */
+export const TtsProviderSchema = z.union([
+  z.enum(["elevenlabs", "openai", "edge", "command"]),
+  z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "TTS provider id"),
+]);
 export const TtsModeSchema = z.enum(["final", "all"]);
 export const TtsAutoSchema = z.enum(["off", "always", "inbound", "tagged"]);
 export const TtsConfigSchema = z
@@ -420,6 +424,17 @@ export const TtsConfigSchema = z
       })
       .strict()
       .optional(),
+    command: z
+      .object({
+        command: z.string().optional(),
+        args: z.array(z.string()).optional(),
+        outputFormat: z.enum(["wav", "ogg", "opus", "mp3"]).optional(),
+        voice: z.string().optional(),
+        env: z.record(z.string(), z.string()).optional(),
+        timeoutMs: z.number().int().min(1000).max(120000).optional(),
+      })
+      .strict()
+      .optional(),
     prefsPath: z.string().optional(),
     maxTextLength: z.number().int().min(1).optional(),
     timeoutMs: z.number().int().min(1000).max(120000).optional(),
@@ -588,6 +603,7 @@ export const QueueSchema = z
     debounceMsByChannel: DebounceMsBySurfaceSchema,
     cap: z.number().int().positive().optional(),
     drop: QueueDropSchema.optional(),
+    persist: z.boolean().optional(),
   })
   .strict()
   .optional();
@@ -58,6 +58,14 @@ export const SessionSchema = z
     agentToAgent: z
       .object({
         maxPingPongTurns: z.number().int().min(0).max(5).optional(),
+        intentClassifier: z
+          .object({
+            enabled: z.boolean().optional(),
+            model: z.string().optional(),
+            timeoutMs: z.number().int().positive().max(30_000).optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
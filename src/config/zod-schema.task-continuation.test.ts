@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { AgentDefaultsSchema } from "./zod-schema.agent-defaults.js";
+
+describe("taskContinuation schema", () => {
+  it("accepts continuation, SLA and team settings", () => {
+    expect(() =>
+      AgentDefaultsSchema.parse({
+        taskContinuation: {
+          checkInterval: "2m",
+          channel: "discord",
+          sla: { dueSoon: { urgent: "30m" }, target: { high: "1d" } },
+          team: {
+            lead: "main",
+            roles: { qa: "specialist" },
+            capabilities: { dev: ["typescript", "frontend"] },
+            assignment: { maxLoad: 4, excludeLead: false, fairnessWindow: "12h" },
+            dashboard: { webhookUrl: "https://discord.com/api/webhooks/1/abc", interval: "30s" },
+          },
+        },
+      }),
+    ).not.toThrow();
+  });
+
+  it("rejects unknown keys and roles", () => {
+    expect(() =>
+      AgentDefaultsSchema.parse({ taskContinuation: { sla: { urgent: "1h" } } }),
+    ).toThrow();
+    expect(() =>
+      AgentDefaultsSchema.parse({ taskContinuation: { team: { roles: { qa: "owner" } } } }),
+    ).toThrow();
+    expect(() =>
+      AgentDefaultsSchema.parse({ taskContinuation: { team: { assignment: { maxLoad: 0 } } } }),
+    ).toThrow();
+  });
+});
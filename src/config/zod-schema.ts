@@ -95,6 +95,15 @@ const MemorySchema = z
     backend: z.union([z.literal("builtin"), z.literal("qmd")]).optional(),
     citations: z.union([z.literal("auto"), z.literal("on"), z.literal("off")]).optional(),
     qmd: MemoryQmdSchema.optional(),
+    team: z
+      .object({
+        enabled: z.boolean().optional(),
+        dir: z.string().optional(),
+        read: z.array(z.string()).optional(),
+        write: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
@@ -646,6 +655,24 @@ export const OpenClawSchema = z
               .strict(),
           )
           .optional(),
+        collaboration: z
+          .object({
+            routers: z
+              .record(
+                z.string(),
+                z
+                  .object({
+                    scopeId: z.string().optional(),
+                    defaultChannelId: z.string(),
+                    accountId: z.string().optional(),
+                    model: z.string().optional(),
+                  })
+                  .strict(),
+              )
+              .optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
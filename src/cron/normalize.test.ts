@@ -21,6 +21,18 @@ function expectNormalizedAtSchedule(scheduleInput: Record<string, unknown>) {
 }
 
 describe("normalizeCronJobCreate", () => {
+  it("infers taskBacklog payloads and defaults them to the main session", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "recurring task",
+      schedule: { kind: "cron", expr: "0 9 * * 1" },
+      payload: { kind: "TaskBacklog", description: "Write the weekly report" },
+    }) as unknown as Record<string, unknown>;
+
+    const payload = normalized.payload as Record<string, unknown>;
+    expect(payload.kind).toBe("taskBacklog");
+    expect(normalized.sessionTarget).toBe("main");
+  });
+
   it("maps legacy payload.provider to payload.channel and strips provider", () => {
     const normalized = normalizeCronJobCreate({
       name: "legacy",
@@ -81,6 +81,8 @@ function coercePayload(payload: UnknownRecord) {
     next.kind = "agentTurn";
   } else if (kindRaw === "systemevent") {
     next.kind = "systemEvent";
+  } else if (kindRaw === "taskbacklog") {
+    next.kind = "taskBacklog";
   } else if (kindRaw) {
     next.kind = kindRaw;
   }
@@ -403,7 +405,12 @@ export function normalizeCronJobInput(
     ) {
       next.name = inferLegacyName({
         schedule: next.schedule as { kind?: unknown; everyMs?: unknown; expr?: unknown },
-        payload: next.payload as { kind?: unknown; text?: unknown; message?: unknown },
+        payload: next.payload as {
+          kind?: unknown;
+          text?: unknown;
+          message?: unknown;
+          description?: unknown;
+        },
       });
     } else if (typeof next.name === "string") {
       const trimmed = next.name.trim();
@@ -413,7 +420,7 @@ export function normalizeCronJobInput(
     }
     if (!next.sessionTarget && isRecord(next.payload)) {
       const kind = typeof next.payload.kind === "string" ? next.payload.kind : "";
-      if (kind === "systemEvent") {
+      if (kind === "systemEvent" || kind === "taskBacklog") {
         next.sessionTarget = "main";
       }
       if (kind === "agentTurn") {
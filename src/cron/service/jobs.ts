@@ -75,8 +75,12 @@ function resolveEveryAnchorMs(params: {
 }
 
 export function assertSupportedJobSpec(job: Pick<CronJob, "sessionTarget" | "payload">) {
-  if (job.sessionTarget === "main" && job.payload.kind !== "systemEvent") {
-    throw new Error('main cron jobs require payload.kind="systemEvent"');
+  if (
+    job.sessionTarget === "main" &&
+    job.payload.kind !== "systemEvent" &&
+    job.payload.kind !== "taskBacklog"
+  ) {
+    throw new Error('main cron jobs require payload.kind="systemEvent" or "taskBacklog"');
   }
   if (job.sessionTarget === "isolated" && job.payload.kind !== "agentTurn") {
     throw new Error('isolated cron jobs require payload.kind="agentTurn"');
@@ -481,6 +485,38 @@ function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronP
     return { kind: "systemEvent", text };
   }
 
+  if (patch.kind === "taskBacklog") {
+    if (existing.kind !== "taskBacklog") {
+      return buildPayloadFromPatch(patch);
+    }
+    const next: Extract<CronPayload, { kind: "taskBacklog" }> = { ...existing };
+    if (typeof patch.description === "string") {
+      next.description = patch.description;
+    }
+    if (typeof patch.context === "string") {
+      next.context = patch.context;
+    }
+    if (typeof patch.priority === "string") {
+      next.priority = patch.priority;
+    }
+    if (Array.isArray(patch.steps)) {
+      next.steps = patch.steps;
+    }
+    if (typeof patch.assignee === "string") {
+      next.assignee = patch.assignee;
+    }
+    if (typeof patch.estimatedEffort === "string") {
+      next.estimatedEffort = patch.estimatedEffort;
+    }
+    if (typeof patch.dueDate === "string") {
+      next.dueDate = patch.dueDate;
+    }
+    if (typeof patch.dueInMs === "number") {
+      next.dueInMs = patch.dueInMs;
+    }
+    return next;
+  }
+
   if (existing.kind !== "agentTurn") {
     return buildPayloadFromPatch(patch);
   }
@@ -565,6 +601,23 @@ function buildPayloadFromPatch(patch: CronPayloadPatch): CronPayload {
     return { kind: "systemEvent", text: patch.text };
   }
 
+  if (patch.kind === "taskBacklog") {
+    if (typeof patch.description !== "string" || patch.description.length === 0) {
+      throw new Error('cron.update payload.kind="taskBacklog" requires description');
+    }
+    return {
+      kind: "taskBacklog",
+      description: patch.description,
+      context: patch.context,
+      priority: patch.priority,
+      steps: patch.steps,
+      assignee: patch.assignee,
+      estimatedEffort: patch.estimatedEffort,
+      dueDate: patch.dueDate,
+      dueInMs: patch.dueInMs,
+    };
+  }
+
   if (typeof patch.message !== "string" || patch.message.length === 0) {
     throw new Error('cron.update payload.kind="agentTurn" requires message');
   }
@@ -5,6 +5,7 @@ import type {
   CronJob,
   CronJobCreate,
   CronJobPatch,
+  CronPayload,
   CronRunOutcome,
   CronRunStatus,
   CronRunTelemetry,
@@ -88,6 +89,11 @@ export type CronServiceDeps = {
     } & CronRunOutcome &
       CronRunTelemetry
   >;
+  /** Creates the backlog task for payload.kind="taskBacklog" jobs. */
+  runTaskBacklogJob?: (params: {
+    job: CronJob;
+    payload: Extract<CronPayload, { kind: "taskBacklog" }>;
+  }) => Promise<CronRunOutcome>;
   onEvent?: (evt: CronEvent) => void;
 };
 
@@ -86,6 +86,10 @@ function normalizePayloadKind(payload: Record<string, unknown>) {
     payload.kind = "systemEvent";
     return true;
   }
+  if (raw === "taskbacklog" && payload.kind !== "taskBacklog") {
+    payload.kind = "taskBacklog";
+    return true;
+  }
   return false;
 }
 
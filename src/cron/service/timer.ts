@@ -624,6 +624,12 @@ export async function executeJobCore(
   if (abortSignal?.aborted) {
     return resolveAbortError();
   }
+  if (job.payload.kind === "taskBacklog") {
+    if (!state.deps.runTaskBacklogJob) {
+      return { status: "skipped", error: "taskBacklog jobs are not supported by this cron host" };
+    }
+    return await state.deps.runTaskBacklogJob({ job, payload: job.payload });
+  }
   if (job.sessionTarget === "main") {
     const text = resolveJobPayloadTextForMain(job);
     if (!text) {
@@ -0,0 +1,99 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { runCronTaskBacklogJob } from "./task-backlog.js";
+import type { CronJob, CronPayload } from "./types.js";
+
+let workspaceDir = "";
+
+vi.mock("../agents/agent-scope.js", () => ({
+  listAgentIds: vi.fn(() => ["main", "ops"]),
+  resolveAgentWorkspaceDir: vi.fn(() => workspaceDir),
+}));
+
+vi.mock("../infra/events/bus.js", () => ({
+  emit: vi.fn(),
+}));
+
+const { listTasks, writeTask } = await import("../agents/tools/task-file-io.js");
+
+type TaskBacklogPayload = Extract<CronPayload, { kind: "taskBacklog" }>;
+
+function makeJob(payload: TaskBacklogPayload): CronJob {
+  return {
+    id: "job-1",
+    name: "weekly report",
+    enabled: true,
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    schedule: { kind: "cron", expr: "0 9 * * 1" },
+    sessionTarget: "main",
+    wakeMode: "now",
+    payload,
+    state: {},
+  };
+}
+
+async function run(payload: TaskBacklogPayload, nowMs = Date.parse("2026-03-02T09:00:00Z")) {
+  return await runCronTaskBacklogJob({
+    cfg: {} as OpenClawConfig,
+    job: makeJob(payload),
+    payload,
+    agentId: "main",
+    nowMs,
+  });
+}
+
+describe("runCronTaskBacklogJob", () => {
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "cron-task-backlog-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("adds a backlog task with steps and a relative due date", async () => {
+    const result = await run({
+      kind: "taskBacklog",
+      description: "Write the weekly report",
+      priority: "high",
+      assignee: "ops",
+      steps: ["Collect metrics", " ", "Draft summary"],
+      dueInMs: 4 * 60 * 60_000,
+    });
+
+    expect(result.status).toBe("ok");
+    const [task] = await listTasks(workspaceDir, "backlog");
+    expect(task).toMatchObject({
+      status: "backlog",
+      priority: "high",
+      description: "Write the weekly report",
+      source: "cron:job-1",
+      assignee: "ops",
+      dueDate: "2026-03-02T13:00:00.000Z",
+    });
+    expect(task.steps?.map((s) => s.content)).toEqual(["Collect metrics", "Draft summary"]);
+  });
+
+  it("skips while the task from the previous run is still open", async () => {
+    const payload: TaskBacklogPayload = { kind: "taskBacklog", description: "Rotate logs" };
+    expect((await run(payload)).status).toBe("ok");
+
+    const second = await run(payload);
+    expect(second.status).toBe("skipped");
+    expect((await listTasks(workspaceDir, "all")).length).toBe(1);
+
+    const [open] = await listTasks(workspaceDir, "all");
+    await writeTask(workspaceDir, { ...open, status: "completed" });
+    expect((await run(payload)).status).toBe("ok");
+  });
+
+  it("rejects unknown assignees", async () => {
+    const result = await run({ kind: "taskBacklog", description: "x", assignee: "ghost" });
+    expect(result.status).toBe("error");
+    expect(result.error).toContain("Invalid assignee: ghost");
+  });
+});
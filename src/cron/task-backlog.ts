@@ -0,0 +1,114 @@
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  generateTaskId,
+  generateWorkSessionId,
+  listTasks,
+  writeTask,
+  type TaskFile,
+} from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { emit } from "../infra/events/bus.js";
+import { EVENT_TYPES } from "../infra/events/schemas.js";
+import type { CronJob, CronPayload, CronRunOutcome } from "./types.js";
+
+type TaskBacklogPayload = Extract<CronPayload, { kind: "taskBacklog" }>;
+
+const CLOSED_STATUSES = new Set<TaskFile["status"]>(["completed", "cancelled", "abandoned"]);
+
+/** Task `source` marker linking spawned tasks back to their cron job. */
+export function resolveCronTaskSource(jobId: string): string {
+  return `cron:${jobId}`;
+}
+
+/**
+ * Adds one backlog task for a `taskBacklog` cron firing. Skips the firing when
+ * the task spawned by a previous firing is still open, so a slow agent does
+ * not accumulate duplicates of the same recurring duty.
+ */
+export async function runCronTaskBacklogJob(params: {
+  cfg: OpenClawConfig;
+  job: CronJob;
+  payload: TaskBacklogPayload;
+  /** Resolved agent of the job; used when the payload has no assignee. */
+  agentId: string;
+  nowMs?: number;
+}): Promise<CronRunOutcome> {
+  const { cfg, job, payload } = params;
+  const description = payload.description?.trim();
+  if (!description) {
+    return { status: "skipped", error: "taskBacklog job requires a description" };
+  }
+
+  const assignee = payload.assignee?.trim() || params.agentId;
+  const validAgentIds = listAgentIds(cfg);
+  if (!validAgentIds.includes(assignee)) {
+    return {
+      status: "error",
+      error: `Invalid assignee: ${assignee}. Valid agents: ${validAgentIds.join(", ")}`,
+    };
+  }
+
+  const workspaceDir = resolveAgentWorkspaceDir(cfg, assignee);
+  const source = resolveCronTaskSource(job.id);
+  const previous = (await listTasks(workspaceDir, "all")).find(
+    (task) => task.source === source && !CLOSED_STATUSES.has(task.status),
+  );
+  if (previous) {
+    return {
+      status: "skipped",
+      error: `previous task ${previous.id} is still ${previous.status}`,
+      summary: `Skipped: ${previous.id} from the last run is still open`,
+    };
+  }
+
+  const nowMs = params.nowMs ?? Date.now();
+  const now = new Date(nowMs).toISOString();
+  const dueDate =
+    payload.dueDate ??
+    (typeof payload.dueInMs === "number" && payload.dueInMs > 0
+      ? new Date(nowMs + payload.dueInMs).toISOString()
+      : undefined);
+  const steps = payload.steps?.map((step) => step.trim()).filter(Boolean) ?? [];
+
+  const task: TaskFile = {
+    id: generateTaskId(),
+    status: "backlog",
+    priority: payload.priority ?? "medium",
+    description,
+    context: payload.context,
+    source,
+    created: now,
+    lastActivity: now,
+    workSessionId: generateWorkSessionId(),
+    progress: [`Added to backlog by cron job "${job.name}"`],
+    createdBy: source,
+    assignee,
+    estimatedEffort: payload.estimatedEffort,
+    dueDate,
+    steps:
+      steps.length > 0
+        ? steps.map((content, i) => ({
+            id: `s${i + 1}`,
+            content,
+            status: "pending",
+            order: i + 1,
+          }))
+        : undefined,
+  };
+
+  await writeTask(workspaceDir, task);
+  emit({
+    type: EVENT_TYPES.TASK_BACKLOG_ADDED,
+    agentId: assignee,
+    ts: nowMs,
+    data: {
+      taskId: task.id,
+      assignee,
+      isCrossAgent: false,
+      workSessionId: task.workSessionId,
+      cronJobId: job.id,
+    },
+  });
+
+  return { status: "ok", summary: `Added ${task.id} to ${assignee} backlog: ${description}` };
+}
@@ -55,8 +55,27 @@ export type CronRunOutcome = {
   sessionKey?: string;
 };
 
+export type CronTaskPriority = "low" | "medium" | "high" | "urgent";
+export type CronTaskEffort = "small" | "medium" | "large";
+
 export type CronPayload =
   | { kind: "systemEvent"; text: string }
+  | {
+      /** Adds a backlog task on every firing instead of running an agent turn. */
+      kind: "taskBacklog";
+      description: string;
+      context?: string;
+      priority?: CronTaskPriority;
+      /** Step checklist copied into each spawned task. */
+      steps?: string[];
+      /** Agent whose backlog receives the task (defaults to the job agent). */
+      assignee?: string;
+      estimatedEffort?: CronTaskEffort;
+      /** Absolute ISO due date. */
+      dueDate?: string;
+      /** Due date relative to each firing; ignored when dueDate is set. */
+      dueInMs?: number;
+    }
   | {
       kind: "agentTurn";
       message: string;
@@ -73,6 +92,17 @@ export type CronPayload =
 
 export type CronPayloadPatch =
   | { kind: "systemEvent"; text?: string }
+  | {
+      kind: "taskBacklog";
+      description?: string;
+      context?: string;
+      priority?: CronTaskPriority;
+      steps?: string[];
+      assignee?: string;
+      estimatedEffort?: CronTaskEffort;
+      dueDate?: string;
+      dueInMs?: number;
+    }
   | {
       kind: "agentTurn";
       message?: string;
@@ -1,4 +1,8 @@
-export { trackOutboundMention, markMentionResponded } from "./tracker.js";
+export {
+  trackOutboundMention,
+  markMentionResponded,
+  markMentionRespondedByIdentity,
+} from "./tracker.js";
 export type { TrackedMention, TrackedMentionStatus } from "./tracker.js";
 export {
   startA2aRetryScheduler,
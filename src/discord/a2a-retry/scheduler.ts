@@ -1,3 +1,4 @@
+import { getChannelPlugin } from "../../channels/plugins/index.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import { logVerbose } from "../../globals.js";
 import { sendMessageDiscord } from "../send.outbound.js";
@@ -105,15 +106,50 @@ async function processPendingRetries(): Promise<void> {
   }
 }
 
+/** Mentions tracked on Slack/Matrix go back through that transport's collaboration adapter. */
+function resolveTransport(mention: TrackedMention) {
+  if (!mention.channel || mention.channel === "discord") {
+    return null;
+  }
+  const transport = getChannelPlugin(mention.channel)?.collaboration;
+  if (!transport) {
+    throw new Error(`no collaboration transport for ${mention.channel}`);
+  }
+  return transport;
+}
+
+function formatTargetMention(mention: TrackedMention): string {
+  return (
+    resolveTransport(mention)?.formatMention(mention.targetBotId) ?? `<@${mention.targetBotId}>`
+  );
+}
+
+async function deliverToThread(mention: TrackedMention, text: string): Promise<void> {
+  const transport = resolveTransport(mention);
+  if (!transport) {
+    await sendMessageDiscord(`channel:${mention.threadId}`, text);
+    return;
+  }
+  if (!configRef) {
+    return;
+  }
+  await transport.sendToThread({
+    cfg: configRef,
+    channelId: mention.channelId,
+    threadId: mention.threadId,
+    text,
+  });
+}
+
 async function sendReminder(
   mention: TrackedMention,
   currentAttempt: number,
   maxAttempts: number,
 ): Promise<void> {
   const elapsedMin = Math.round((Date.now() - mention.sentAt) / 60_000);
-  const text = `[리마인더 ${currentAttempt}/${maxAttempts}] <@${mention.targetBotId}> 위 요청에 대해 확인 부탁해요. (${elapsedMin}분 경과)`;
   try {
-    await sendMessageDiscord(`channel:${mention.threadId}`, text);
+    const text = `[리마인더 ${currentAttempt}/${maxAttempts}] ${formatTargetMention(mention)} 위 요청에 대해 확인 부탁해요. (${elapsedMin}분 경과)`;
+    await deliverToThread(mention, text);
   } catch (err) {
     logVerbose(`a2a-retry: failed to send reminder for mention ${mention.id}: ${String(err)}`);
   }
@@ -125,10 +161,12 @@ async function sendEscalation(
   escalationMentionId?: string,
 ): Promise<void> {
   const elapsedMin = Math.round((Date.now() - mention.sentAt) / 60_000);
-  const escalationPing = escalationMentionId ? `<@${escalationMentionId}> ` : "";
-  const text = `⚠️ ${escalationPing}<@${mention.targetBotId}>이(가) ${elapsedMin}분째 무응답입니다. (${attempts}회 시도) 확인 필요.`;
+  // escalationMentionId is a Discord user id.
+  const escalationPing =
+    escalationMentionId && !mention.channel ? `<@${escalationMentionId}> ` : "";
   try {
-    await sendMessageDiscord(`channel:${mention.threadId}`, text);
+    const text = `⚠️ ${escalationPing}${formatTargetMention(mention)}이(가) ${elapsedMin}분째 무응답입니다. (${attempts}회 시도) 확인 필요.`;
+    await deliverToThread(mention, text);
   } catch (err) {
     logVerbose(`a2a-retry: failed to send escalation for mention ${mention.id}: ${String(err)}`);
   }
@@ -10,6 +10,10 @@ export interface TrackedMention {
   id: string;
   messageId: string;
   threadId: string;
+  /** Transport the mention was sent on; absent for Discord. */
+  channel?: string;
+  /** Channel/room holding the thread (Slack, Matrix). */
+  channelId?: string;
   fromAgentId: string;
   targetAgentId: string;
   targetBotId: string;
@@ -77,6 +81,8 @@ async function saveA2aMentionStore(store: A2aMentionStore): Promise<void> {
 export async function trackOutboundMention(params: {
   messageId: string;
   threadId: string;
+  channel?: string;
+  channelId?: string;
   fromAgentId: string;
   targetAgentId: string;
   targetBotId: string;
@@ -88,6 +94,9 @@ export async function trackOutboundMention(params: {
     id: crypto.randomUUID(),
     messageId: params.messageId,
     threadId: params.threadId,
+    ...(params.channel && params.channel !== "discord"
+      ? { channel: params.channel, channelId: params.channelId }
+      : {}),
     fromAgentId: params.fromAgentId,
     targetAgentId: params.targetAgentId,
     targetBotId: params.targetBotId,
@@ -114,6 +123,34 @@ export async function markMentionResponded(
   threadId: string,
   responderAgentId: string,
   options?: { beforeTimestamp?: number },
+): Promise<number> {
+  return await markOldestMentionResponded(
+    threadId,
+    (mention) => mention.targetAgentId === responderAgentId,
+    options,
+  );
+}
+
+/**
+ * Same as `markMentionResponded`, matching the responder by platform identity
+ * (Slack user id, Matrix user id) for transports that cannot map it to an agent.
+ */
+export async function markMentionRespondedByIdentity(
+  threadId: string,
+  responderIdentity: string,
+  options?: { beforeTimestamp?: number },
+): Promise<number> {
+  return await markOldestMentionResponded(
+    threadId,
+    (mention) => mention.targetBotId === responderIdentity,
+    options,
+  );
+}
+
+async function markOldestMentionResponded(
+  threadId: string,
+  isResponder: (mention: TrackedMention) => boolean,
+  options?: { beforeTimestamp?: number },
 ): Promise<number> {
   const store = loadA2aMentionStore();
   const now = Date.now();
@@ -127,7 +164,7 @@ export async function markMentionResponded(
     if (mention.status !== "pending") {
       continue;
     }
-    if (mention.targetAgentId !== responderAgentId) {
+    if (!isResponder(mention)) {
       continue;
     }
     if (options?.beforeTimestamp !== undefined && mention.sentAt > options.beforeTimestamp) {
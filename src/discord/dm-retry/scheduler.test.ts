@@ -11,7 +11,7 @@ vi.mock("../send.outbound.js", () => ({
 
 vi.mock("./tracker.js", () => ({
   cleanupOldEntries: vi.fn().mockResolvedValue(0),
-  getTimedOutDms: vi.fn().mockReturnValue([]),
+  getTimedOutDms: vi.fn().mockResolvedValue([]),
   incrementRetryAttempt: vi.fn().mockResolvedValue(null),
   markDmFailed: vi.fn().mockResolvedValue(null),
 }));
@@ -28,10 +28,10 @@ vi.mock("./utils.js", () => ({
 }));
 
 import type { OpenClawConfig } from "../../config/config.js";
-import type { TrackedDm } from "./tracker.js";
 import { logVerbose } from "../../globals.js";
 import { sendMessageDiscord } from "../send.outbound.js";
 import { startDmRetryScheduler, stopDmRetryScheduler, updateSchedulerConfig } from "./scheduler.js";
+import type { TrackedDm } from "./tracker.js";
 import { getTimedOutDms, incrementRetryAttempt, markDmFailed } from "./tracker.js";
 import { resolveDmRetryConfig } from "./utils.js";
 
@@ -99,7 +99,7 @@ describe("dm-retry scheduler", () => {
         lastAttemptAt: 1000,
         status: "pending",
       };
-      vi.mocked(getTimedOutDms).mockReturnValue([timedOutDm]);
+      vi.mocked(getTimedOutDms).mockResolvedValue([timedOutDm]);
       vi.mocked(incrementRetryAttempt).mockResolvedValue({ ...timedOutDm, attempts: 2 });
 
       const cfg = {} as OpenClawConfig;
@@ -134,7 +134,7 @@ describe("dm-retry scheduler", () => {
         lastAttemptAt: 1000,
         status: "pending",
       };
-      vi.mocked(getTimedOutDms).mockReturnValue([timedOutDm]);
+      vi.mocked(getTimedOutDms).mockResolvedValue([timedOutDm]);
 
       const cfg = {} as OpenClawConfig;
       startDmRetryScheduler(cfg);
@@ -166,7 +166,7 @@ describe("dm-retry scheduler", () => {
         lastAttemptAt: 1000,
         status: "pending",
       };
-      vi.mocked(getTimedOutDms).mockReturnValue([timedOutDm]);
+      vi.mocked(getTimedOutDms).mockResolvedValue([timedOutDm]);
 
       const cfg = {} as OpenClawConfig;
       startDmRetryScheduler(cfg);
@@ -205,7 +205,7 @@ describe("dm-retry scheduler", () => {
         lastAttemptAt: 1000,
         status: "pending",
       };
-      vi.mocked(getTimedOutDms).mockReturnValue([timedOutDm]);
+      vi.mocked(getTimedOutDms).mockResolvedValue([timedOutDm]);
 
       const cfg = {} as OpenClawConfig;
       startDmRetryScheduler(cfg);
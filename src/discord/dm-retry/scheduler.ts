@@ -58,7 +58,7 @@ async function processPendingRetries(): Promise<void> {
 
   await cleanupOldEntries(CLEANUP_MAX_AGE_MS);
 
-  const timedOut = getTimedOutDms(dmRetryConfig.timeoutMs);
+  const timedOut = await getTimedOutDms(dmRetryConfig.timeoutMs);
   if (timedOut.length === 0) {
     return;
   }
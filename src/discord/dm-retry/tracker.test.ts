@@ -1,24 +1,15 @@
 import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-// Mock dependencies before imports
-vi.mock("node:fs", () => ({
-  default: {
-    readFileSync: vi.fn(),
-    promises: {
-      mkdir: vi.fn().mockResolvedValue(undefined),
-      writeFile: vi.fn().mockResolvedValue(undefined),
-      rename: vi.fn().mockResolvedValue(undefined),
-      rm: vi.fn().mockResolvedValue(undefined),
-    },
-  },
-}));
+let stateDir = "";
 
 vi.mock("../../config/paths.js", () => ({
-  resolveStateDir: vi.fn(() => "/tmp/test-state"),
+  resolveStateDir: vi.fn(() => stateDir),
 }));
 
-import fs from "node:fs";
 import {
   cleanupOldEntries,
   getTimedOutDms,
@@ -30,36 +21,38 @@ import {
   type DmRetryStore,
 } from "./tracker.js";
 
+/** Seeds the legacy tracking file, which the tracker imports into the state store. */
+function writeLegacyStore(content: string): void {
+  fs.writeFileSync(path.join(stateDir, "dm-retry-tracking.json"), content);
+}
+
 describe("dm-retry tracker", () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "dm-retry-"));
     vi.spyOn(crypto, "randomUUID").mockReturnValue("test-uuid-1234");
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    fs.rmSync(stateDir, { recursive: true, force: true });
   });
 
   describe("loadDmRetryStore", () => {
-    it("returns empty store when file does not exist", () => {
-      vi.mocked(fs.readFileSync).mockImplementation(() => {
-        throw new Error("ENOENT");
-      });
-
-      const store = loadDmRetryStore();
+    it("returns empty store when file does not exist", async () => {
+      const store = await loadDmRetryStore();
 
       expect(store).toEqual({ version: 1, tracked: {} });
     });
 
-    it("returns empty store when file contains invalid JSON", () => {
-      vi.mocked(fs.readFileSync).mockReturnValue("not valid json");
+    it("returns empty store when file contains invalid JSON", async () => {
+      writeLegacyStore("not valid json");
 
-      const store = loadDmRetryStore();
+      const store = await loadDmRetryStore();
 
       expect(store).toEqual({ version: 1, tracked: {} });
     });
 
-    it("returns parsed store when file contains valid data", () => {
+    it("imports a legacy tracking file into the state store", async () => {
       const validStore: DmRetryStore = {
         version: 1,
         tracked: {
@@ -77,17 +70,19 @@ describe("dm-retry tracker", () => {
           },
         },
       };
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(validStore));
+      writeLegacyStore(JSON.stringify(validStore));
 
-      const store = loadDmRetryStore();
+      const store = await loadDmRetryStore();
 
       expect(store).toEqual(validStore);
+      expect(fs.existsSync(path.join(stateDir, "dm-retry-tracking.json.migrated"))).toBe(true);
+      expect(await loadDmRetryStore()).toEqual(validStore);
     });
 
-    it("returns empty store when data is missing required fields", () => {
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ version: 1 }));
+    it("returns empty store when data is missing required fields", async () => {
+      writeLegacyStore(JSON.stringify({ version: 1 }));
 
-      const store = loadDmRetryStore();
+      const store = await loadDmRetryStore();
 
       expect(store).toEqual({ version: 1, tracked: {} });
     });
@@ -95,10 +90,6 @@ describe("dm-retry tracker", () => {
 
   describe("trackOutboundDm", () => {
     it("adds entry with correct fields", async () => {
-      vi.mocked(fs.readFileSync).mockImplementation(() => {
-        throw new Error("ENOENT");
-      });
-
       const now = Date.now();
       vi.spyOn(Date, "now").mockReturnValue(now);
 
@@ -123,7 +114,7 @@ describe("dm-retry tracker", () => {
         status: "pending",
       });
 
-      expect(fs.promises.writeFile).toHaveBeenCalled();
+      expect((await loadDmRetryStore()).tracked["test-uuid-1234"]).toEqual(result);
     });
   });
 
@@ -170,19 +161,17 @@ describe("dm-retry tracker", () => {
           },
         },
       };
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(store));
+      writeLegacyStore(JSON.stringify(store));
 
       const count = await markDmResponded("ch-target");
 
       expect(count).toBe(2);
-      expect(fs.promises.writeFile).toHaveBeenCalled();
+      const tracked = (await loadDmRetryStore()).tracked;
+      expect(tracked["dm-1"].status).toBe("responded");
+      expect(tracked["dm-3"].status).toBe("pending");
     });
 
     it("returns 0 when no matching entries", async () => {
-      vi.mocked(fs.readFileSync).mockImplementation(() => {
-        throw new Error("ENOENT");
-      });
-
       const count = await markDmResponded("ch-nonexistent");
 
       expect(count).toBe(0);
@@ -190,7 +179,7 @@ describe("dm-retry tracker", () => {
   });
 
   describe("getTimedOutDms", () => {
-    it("filters correctly based on timeout", () => {
+    it("filters correctly based on timeout", async () => {
       const now = 10000;
       vi.spyOn(Date, "now").mockReturnValue(now);
 
@@ -235,9 +224,9 @@ describe("dm-retry tracker", () => {
           },
         },
       };
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(store));
+      writeLegacyStore(JSON.stringify(store));
 
-      const timedOut = getTimedOutDms(5000); // 5s timeout
+      const timedOut = await getTimedOutDms(5000); // 5s timeout
 
       expect(timedOut).toHaveLength(1);
       expect(timedOut[0].id).toBe("dm-old");
@@ -263,7 +252,7 @@ describe("dm-retry tracker", () => {
           },
         },
       };
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(store));
+      writeLegacyStore(JSON.stringify(store));
 
       const now = 5000;
       vi.spyOn(Date, "now").mockReturnValue(now);
@@ -276,10 +265,6 @@ describe("dm-retry tracker", () => {
     });
 
     it("returns null for non-existent entry", async () => {
-      vi.mocked(fs.readFileSync).mockImplementation(() => {
-        throw new Error("ENOENT");
-      });
-
       const result = await incrementRetryAttempt("nonexistent");
 
       expect(result).toBeNull();
@@ -305,7 +290,7 @@ describe("dm-retry tracker", () => {
           },
         },
       };
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(store));
+      writeLegacyStore(JSON.stringify(store));
 
       const result = await markDmFailed("dm-1");
 
@@ -314,10 +299,6 @@ describe("dm-retry tracker", () => {
     });
 
     it("returns null for non-existent entry", async () => {
-      vi.mocked(fs.readFileSync).mockImplementation(() => {
-        throw new Error("ENOENT");
-      });
-
       const result = await markDmFailed("nonexistent");
 
       expect(result).toBeNull();
@@ -370,11 +351,15 @@ describe("dm-retry tracker", () => {
           },
         },
       };
-      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(store));
+      writeLegacyStore(JSON.stringify(store));
 
       const count = await cleanupOldEntries(50000); // 50s max age
 
       expect(count).toBe(1); // Only dm-old-responded should be removed
+      expect(Object.keys((await loadDmRetryStore()).tracked).toSorted()).toEqual([
+        "dm-new-failed",
+        "dm-old-pending",
+      ]);
     });
   });
 });
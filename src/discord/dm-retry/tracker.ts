@@ -1,8 +1,11 @@
-import JSON5 from "json5";
 import crypto from "node:crypto";
-import fs from "node:fs";
 import path from "node:path";
 import { resolveStateDir } from "../../config/paths.js";
+import {
+  importLegacyStateFile,
+  openStateNamespace,
+  type StateNamespace,
+} from "../../infra/state-store.js";
 
 export type TrackedDmStatus = "pending" | "responded" | "failed";
 
@@ -25,15 +28,10 @@ export interface DmRetryStore {
 }
 
 const STORE_VERSION = 1;
-const STORE_FILENAME = "dm-retry-tracking.json";
-
-function getStorePath(): string {
-  return path.join(resolveStateDir(), STORE_FILENAME);
-}
-
-function createEmptyStore(): DmRetryStore {
-  return { version: STORE_VERSION, tracked: {} };
-}
+const LEGACY_STORE_FILENAME = "dm-retry-tracking.json";
+const STATE_NAMESPACE = "discord.dm-retry";
+/** Safety net only: the scheduler settles and cleans up entries long before this. */
+const ENTRY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 function isValidStore(value: unknown): value is DmRetryStore {
   return (
@@ -45,31 +43,29 @@ function isValidStore(value: unknown): value is DmRetryStore {
   );
 }
 
-export function loadDmRetryStore(): DmRetryStore {
-  const storePath = getStorePath();
-  try {
-    const raw = fs.readFileSync(storePath, "utf-8");
-    const parsed = JSON5.parse(raw);
-    if (isValidStore(parsed)) {
-      return parsed;
-    }
-    return createEmptyStore();
-  } catch {
-    return createEmptyStore();
-  }
+async function openDmRetryNamespace(): Promise<StateNamespace<TrackedDm>> {
+  const stateDir = resolveStateDir();
+  const ns = openStateNamespace<TrackedDm>(STATE_NAMESPACE, {
+    stateDir,
+    defaultTtlMs: ENTRY_TTL_MS,
+  });
+  await importLegacyStateFile(
+    ns,
+    path.join(stateDir, LEGACY_STORE_FILENAME),
+    (raw) =>
+      isValidStore(raw) ? Object.values(raw.tracked).map((dm) => ({ key: dm.id, value: dm })) : [],
+    { ttlMs: ENTRY_TTL_MS },
+  );
+  return ns;
 }
 
-async function saveDmRetryStore(store: DmRetryStore): Promise<void> {
-  const storePath = getStorePath();
-  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
-  const json = JSON.stringify(store, null, 2);
-  const tmp = `${storePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
-  try {
-    await fs.promises.writeFile(tmp, json, { mode: 0o600, encoding: "utf-8" });
-    await fs.promises.rename(tmp, storePath);
-  } finally {
-    await fs.promises.rm(tmp, { force: true }).catch(() => undefined);
+export async function loadDmRetryStore(): Promise<DmRetryStore> {
+  const ns = await openDmRetryNamespace();
+  const tracked: Record<string, TrackedDm> = {};
+  for (const { key, value } of await ns.entries()) {
+    tracked[key] = value;
   }
+  return { version: STORE_VERSION, tracked };
 }
 
 export async function trackOutboundDm(params: {
@@ -79,7 +75,7 @@ export async function trackOutboundDm(params: {
   targetUserId: string;
   originalText: string;
 }): Promise<TrackedDm> {
-  const store = loadDmRetryStore();
+  const ns = await openDmRetryNamespace();
   const now = Date.now();
   const dm: TrackedDm = {
     id: crypto.randomUUID(),
@@ -93,28 +89,31 @@ export async function trackOutboundDm(params: {
     lastAttemptAt: now,
     status: "pending",
   };
-  store.tracked[dm.id] = dm;
-  await saveDmRetryStore(store);
+  await ns.set(dm.id, dm);
   return dm;
 }
 
 export async function markDmResponded(channelId: string): Promise<number> {
-  const store = loadDmRetryStore();
+  const ns = await openDmRetryNamespace();
   let count = 0;
-  for (const dm of Object.values(store.tracked)) {
-    if (dm.channelId === channelId && dm.status === "pending") {
-      dm.status = "responded";
-      count++;
+  for (const { key, value } of await ns.entries()) {
+    if (value.channelId !== channelId || value.status !== "pending") {
+      continue;
     }
-  }
-  if (count > 0) {
-    await saveDmRetryStore(store);
+    // Re-check under the lock: another gateway process may have settled it meanwhile.
+    await ns.update(key, (current) => {
+      if (current?.status !== "pending") {
+        return current;
+      }
+      count++;
+      return { ...current, status: "responded" };
+    });
   }
   return count;
 }
 
-export function getTimedOutDms(timeoutMs: number): TrackedDm[] {
-  const store = loadDmRetryStore();
+export async function getTimedOutDms(timeoutMs: number): Promise<TrackedDm[]> {
+  const store = await loadDmRetryStore();
   const now = Date.now();
   return Object.values(store.tracked).filter(
     (dm) => dm.status === "pending" && now - dm.lastAttemptAt >= timeoutMs,
@@ -122,40 +121,33 @@ export function getTimedOutDms(timeoutMs: number): TrackedDm[] {
 }
 
 export async function incrementRetryAttempt(id: string): Promise<TrackedDm | null> {
-  const store = loadDmRetryStore();
-  const dm = store.tracked[id];
-  if (!dm) {
-    return null;
-  }
-  dm.attempts += 1;
-  dm.lastAttemptAt = Date.now();
-  await saveDmRetryStore(store);
-  return dm;
+  const ns = await openDmRetryNamespace();
+  const dm = await ns.update(id, (current) =>
+    current ? { ...current, attempts: current.attempts + 1, lastAttemptAt: Date.now() } : undefined,
+  );
+  return dm ?? null;
 }
 
 export async function markDmFailed(id: string): Promise<TrackedDm | null> {
-  const store = loadDmRetryStore();
-  const dm = store.tracked[id];
-  if (!dm) {
-    return null;
-  }
-  dm.status = "failed";
-  await saveDmRetryStore(store);
-  return dm;
+  const ns = await openDmRetryNamespace();
+  const dm = await ns.update(id, (current) =>
+    current ? { ...current, status: "failed" } : undefined,
+  );
+  return dm ?? null;
 }
 
 export async function cleanupOldEntries(maxAgeMs: number): Promise<number> {
-  const store = loadDmRetryStore();
+  const ns = await openDmRetryNamespace();
   const now = Date.now();
   let count = 0;
-  for (const [id, dm] of Object.entries(store.tracked)) {
-    if (dm.status !== "pending" && now - dm.lastAttemptAt > maxAgeMs) {
-      delete store.tracked[id];
+  for (const { key, value } of await ns.entries()) {
+    if (value.status === "pending" || now - value.lastAttemptAt <= maxAgeMs) {
+      continue;
+    }
+    const existed = await ns.delete(key);
+    if (existed) {
       count++;
     }
   }
-  if (count > 0) {
-    await saveDmRetryStore(store);
-  }
   return count;
 }
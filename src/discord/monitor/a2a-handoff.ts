@@ -0,0 +1,100 @@
+import type { RequestClient } from "@buape/carbon";
+import { acceptA2AHandoff, buildRejectedReceipt } from "../../agents/tools/a2a-handoff.js";
+import {
+  buildPayloadSummary,
+  buildPayloadTitle,
+  extractA2APayload,
+  formatA2APayloadBlock,
+} from "../../agents/tools/a2a-payload-parser.js";
+import type { DeliveryReceiptPayload } from "../../agents/tools/a2a-payload-types.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import { logVerbose } from "../../globals.js";
+import { sendMessageDiscord } from "../send.js";
+
+export type InboundA2AHandoffResult =
+  /** Pure bookkeeping (a receipt); the agent does not need to see it. */
+  | { drop: true }
+  /** Message text for the agent: the payload block replaced by its readable form. */
+  | { drop: false; text: string };
+
+async function sendReceipt(params: {
+  receipt: DeliveryReceiptPayload;
+  channelId: string;
+  accountId?: string;
+  token?: string;
+  rest?: RequestClient;
+}) {
+  const text = `${buildPayloadTitle(params.receipt)}\n\n${formatA2APayloadBlock(params.receipt)}`;
+  try {
+    await sendMessageDiscord(`channel:${params.channelId}`, text, {
+      token: params.token,
+      rest: params.rest,
+      accountId: params.accountId,
+    });
+  } catch (err) {
+    logVerbose(`discord: a2a handoff receipt failed in ${params.channelId}: ${String(err)}`);
+  }
+}
+
+/**
+ * Validate a structured handoff embedded in a sibling agent's message, accept
+ * it for the receiving agent and answer with a delivery receipt. Returns null
+ * when the message carries no payload.
+ */
+export async function handleInboundA2AHandoff(params: {
+  cfg: OpenClawConfig;
+  text: string;
+  /** Sending agent (the sibling bot's agent). */
+  fromAgentId: string;
+  /** Receiving agent. */
+  agentId: string;
+  channelId: string;
+  accountId?: string;
+  token?: string;
+  rest?: RequestClient;
+}): Promise<InboundA2AHandoffResult | null> {
+  const extracted = extractA2APayload(params.text);
+  if (!extracted) {
+    return null;
+  }
+  const reply = {
+    channelId: params.channelId,
+    accountId: params.accountId,
+    token: params.token,
+    rest: params.rest,
+  };
+
+  const { payload } = extracted;
+  if (!payload) {
+    const errors = extracted.errors ?? [];
+    logVerbose(`discord: rejected a2a payload from ${params.fromAgentId}: ${errors.join("; ")}`);
+    await sendReceipt({ ...reply, receipt: buildRejectedReceipt(errors) });
+    return {
+      drop: false,
+      text: `${extracted.text}\n\n[Structured payload rejected: ${errors.join("; ")}]`,
+    };
+  }
+
+  const acceptance = await acceptA2AHandoff({
+    cfg: params.cfg,
+    agentId: params.agentId,
+    fromAgent: params.fromAgentId,
+    payload,
+  });
+  // Only rejections need the agent's attention; other receipts just update the record.
+  if (payload.type === "receipt" && payload.status !== "rejected") {
+    return { drop: true };
+  }
+  if (acceptance.receipt) {
+    await sendReceipt({ ...reply, receipt: acceptance.receipt });
+  }
+  return {
+    drop: false,
+    text: [
+      extracted.text,
+      `[${buildPayloadTitle(payload)}]\n${buildPayloadSummary(payload)}\n${acceptance.note}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
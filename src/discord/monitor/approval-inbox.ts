@@ -0,0 +1,164 @@
+import { Button, Row, type ButtonInteraction, type ComponentData } from "@buape/carbon";
+import { ButtonStyle } from "discord-api-types/v10";
+import type { OpenClawConfig } from "../../config/config.js";
+import { submitApprovalDecision } from "../../infra/approval-inbox-channels.js";
+import {
+  isApprovalInboxApprover,
+  resolveApprovalInboxConfig,
+  type ApprovalDecision,
+} from "../../infra/approval-inbox.js";
+
+const APPROVAL_INBOX_KEY = "approvalinbox";
+
+function encodeCustomIdValue(value: string): string {
+  return encodeURIComponent(value);
+}
+
+function decodeCustomIdValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function buildApprovalInboxCustomId(approvalId: string, action: ApprovalDecision): string {
+  return [`${APPROVAL_INBOX_KEY}:id=${encodeCustomIdValue(approvalId)}`, `action=${action}`].join(
+    ";",
+  );
+}
+
+export function parseApprovalInboxData(
+  data: ComponentData,
+): { approvalId: string; action: ApprovalDecision } | null {
+  if (!data || typeof data !== "object") {
+    return null;
+  }
+  const coerce = (value: unknown) =>
+    typeof value === "string" || typeof value === "number" ? String(value) : "";
+  const rawId = coerce(data.id);
+  const rawAction = coerce(data.action);
+  if (!rawId || (rawAction !== "approve" && rawAction !== "reject")) {
+    return null;
+  }
+  return { approvalId: decodeCustomIdValue(rawId), action: rawAction };
+}
+
+class ApprovalInboxActionButton extends Button {
+  customId: string;
+  label: string;
+  style: ButtonStyle;
+
+  constructor(params: {
+    approvalId: string;
+    action: ApprovalDecision;
+    label: string;
+    style: ButtonStyle;
+  }) {
+    super();
+    this.customId = buildApprovalInboxCustomId(params.approvalId, params.action);
+    this.label = params.label;
+    this.style = params.style;
+  }
+}
+
+/** Approve/Reject row attached to inbox prompts sent to Discord targets. */
+export function createApprovalInboxActionRow(approvalId: string): Row<Button> {
+  return new Row<Button>([
+    new ApprovalInboxActionButton({
+      approvalId,
+      action: "approve",
+      label: "Approve",
+      style: ButtonStyle.Success,
+    }),
+    new ApprovalInboxActionButton({
+      approvalId,
+      action: "reject",
+      label: "Reject",
+      style: ButtonStyle.Danger,
+    }),
+  ]);
+}
+
+export type ApprovalInboxButtonContext = {
+  cfg: OpenClawConfig;
+};
+
+export class ApprovalInboxButton extends Button {
+  label = APPROVAL_INBOX_KEY;
+  customId = `${APPROVAL_INBOX_KEY}:seed=1`;
+  style = ButtonStyle.Primary;
+  private ctx: ApprovalInboxButtonContext;
+
+  constructor(ctx: ApprovalInboxButtonContext) {
+    super();
+    this.ctx = ctx;
+  }
+
+  async run(interaction: ButtonInteraction, data: ComponentData): Promise<void> {
+    const parsed = parseApprovalInboxData(data);
+    if (!parsed) {
+      try {
+        await interaction.update({
+          content: "This approval is no longer valid.",
+          components: [],
+        });
+      } catch {
+        // Interaction may have expired
+      }
+      return;
+    }
+
+    // Anyone who can see the message can click, so Discord requires an explicit approver list.
+    const userId = interaction.userId ?? "";
+    const config = resolveApprovalInboxConfig(this.ctx.cfg);
+    if (
+      !userId ||
+      !isApprovalInboxApprover(config, {
+        channel: "discord",
+        senderId: userId,
+        requireListed: true,
+      })
+    ) {
+      try {
+        await interaction.reply({
+          content: "⛔ You are not authorized to decide approvals.",
+          ephemeral: true,
+        });
+      } catch {
+        // Interaction may have expired
+      }
+      return;
+    }
+
+    try {
+      await interaction.update({
+        content: `Submitting decision: **${parsed.action === "approve" ? "Approved" : "Rejected"}**...`,
+        components: [],
+      });
+    } catch {
+      // Interaction may have expired, try to continue anyway
+    }
+
+    const result = await submitApprovalDecision({
+      approvalId: parsed.approvalId,
+      decision: parsed.action,
+      decidedBy: `discord:${userId}`,
+    });
+    if (!result.ok) {
+      try {
+        await interaction.followUp({
+          content: `Failed to submit decision: ${result.error}`,
+          ephemeral: true,
+        });
+      } catch {
+        // Interaction may have expired
+      }
+    }
+    // On success the inbox posts the outcome to its targets.
+  }
+}
+
+export function createApprovalInboxButton(ctx: ApprovalInboxButtonContext): Button {
+  return new ApprovalInboxButton(ctx);
+}
@@ -1,4 +1,8 @@
 import { ChannelType, MessageType, type User } from "@buape/carbon";
+import {
+  isObserverSummarizeEnabled,
+  recordObservedMessage,
+} from "../../agents/observer-context.js";
 import { hasControlCommand } from "../../auto-reply/command-detection.js";
 import { shouldHandleTextCommands } from "../../auto-reply/commands-registry.js";
 import {
@@ -32,6 +36,7 @@ import { markMentionResponded } from "../a2a-retry/index.js";
 import { checkA2ARateLimit } from "../loop-guard.js";
 import { fetchPluralKitMessageInfo } from "../pluralkit.js";
 import { sendMessageDiscord } from "../send.js";
+import { handleInboundA2AHandoff } from "./a2a-handoff.js";
 import {
   allowListMatches,
   isDiscordGroupAllowedByPolicy,
@@ -292,10 +297,10 @@ export async function preflightDiscordMessage(
   }
 
   const botId = params.botUserId;
-  const baseText = resolveDiscordMessageText(message, {
+  let baseText = resolveDiscordMessageText(message, {
     includeForwarded: false,
   });
-  const messageText = resolveDiscordMessageText(message, {
+  let messageText = resolveDiscordMessageText(message, {
     includeForwarded: true,
   });
   recordChannelActivity({
@@ -678,6 +683,36 @@ export async function preflightDiscordMessage(
   logDebug(
     `[discord-preflight] shouldRequireMention=${shouldRequireMention} mentionGate.shouldSkip=${mentionGate.shouldSkip} wasMentioned=${wasMentioned}`,
   );
+  // Observer paths: the message joins the pending history; summarize-mode agents
+  // also buffer it for the summary that outlives the history limit.
+  const recordObservedEntry = async () => {
+    if (historyEntry) {
+      recordPendingHistoryEntryIfEnabled({
+        historyMap: params.guildHistories,
+        historyKey: message.channelId,
+        limit: params.historyLimit,
+        entry: historyEntry,
+      });
+    }
+    if (!isObserverSummarizeEnabled(params.cfg, route.agentId) || !textForHistory) {
+      return;
+    }
+    try {
+      await recordObservedMessage({
+        cfg: params.cfg,
+        agentId: route.agentId,
+        sessionKey: route.sessionKey,
+        message: {
+          sender: sender.label,
+          body: textForHistory,
+          timestamp: resolveTimestampMs(message.timestamp) ?? Date.now(),
+          messageId: message.id,
+        },
+      });
+    } catch (err) {
+      logVerbose(`discord: observer buffer write failed: ${String(err)}`);
+    }
+  };
   // ── Handler/Observer: thread participant bypass ──
   // If I'm a registered participant in this thread, I'm a HANDLER regardless of mention.
   // If I'm explicitly mentioned in a thread, register as participant and become HANDLER.
@@ -697,14 +732,7 @@ export async function preflightDiscordMessage(
     // Without this guard every agent bot in the guild would respond to
     // thread messages in channels where shouldRequireMention is false.
     logVerbose(`discord: drop thread message (not a participant in ${message.channelId})`);
-    if (historyEntry) {
-      recordPendingHistoryEntryIfEnabled({
-        historyMap: params.guildHistories,
-        historyKey: message.channelId,
-        limit: params.historyLimit,
-        entry: historyEntry,
-      });
-    }
+    await recordObservedEntry();
     return null;
   } else if (isGuildMessage && shouldRequireMention) {
     if (botId && mentionGate.shouldSkip) {
@@ -737,14 +765,7 @@ export async function preflightDiscordMessage(
     !explicitlyMentioned
   ) {
     logVerbose(`discord: observer mode for sibling bot message in thread ${message.channelId}`);
-    if (historyEntry) {
-      recordPendingHistoryEntryIfEnabled({
-        historyMap: params.guildHistories,
-        historyKey: message.channelId,
-        limit: params.historyLimit,
-        entry: historyEntry,
-      });
-    }
+    await recordObservedEntry();
     return null;
   }
 
@@ -755,14 +776,7 @@ export async function preflightDiscordMessage(
     message.mentionedUsers?.some((u: { id: string }) => isSiblingBot(u.id))
   ) {
     logVerbose(`discord: observer mode — another bot was explicitly mentioned`);
-    if (historyEntry) {
-      recordPendingHistoryEntryIfEnabled({
-        historyMap: params.guildHistories,
-        historyKey: message.channelId,
-        limit: params.historyLimit,
-        entry: historyEntry,
-      });
-    }
+    await recordObservedEntry();
     return null;
   }
 
@@ -794,6 +808,31 @@ export async function preflightDiscordMessage(
     return null;
   }
 
+  // ── Structured handoffs from sibling agents: validate, accept, send a receipt ──
+  const handoffFromAgentId = author.bot ? getAgentIdForBot(author.id) : undefined;
+  if (handoffFromAgentId) {
+    const handoff = await handleInboundA2AHandoff({
+      cfg: params.cfg,
+      text: messageText,
+      fromAgentId: handoffFromAgentId,
+      agentId: effectiveRoute.agentId,
+      channelId: message.channelId,
+      accountId: params.accountId,
+      token: params.token,
+      rest: params.client.rest,
+    });
+    if (handoff?.drop) {
+      logVerbose(`discord: a2a receipt from ${handoffFromAgentId} recorded, not dispatched`);
+      return null;
+    }
+    if (handoff) {
+      // BodyForAgent comes from baseText: the agent gets the readable form and
+      // backlog note, not the raw payload block.
+      messageText = handoff.text;
+      baseText = handoff.text;
+    }
+  }
+
   logDebug(`[discord-preflight] success: route=${route.agentId} sessionKey=${route.sessionKey}`);
   return {
     cfg: params.cfg,
@@ -3,6 +3,11 @@ import type { User } from "@buape/carbon";
 import { ChannelType } from "@buape/carbon";
 import { resolveAckReaction, resolveHumanDelayConfig } from "../../agents/identity.js";
 import { AGENT_LANE_NESTED } from "../../agents/lanes.js";
+import {
+  clearObserverContext,
+  isObserverSummarizeEnabled,
+  readObserverContext,
+} from "../../agents/observer-context.js";
 import { createAndStartFlow } from "../../agents/tools/a2a-job-orchestrator.js";
 import {
   buildRequesterContextSummary,
@@ -614,6 +619,11 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
         }),
     });
   }
+  // Handler turn after observing: hand over what was summarized meanwhile.
+  const observerContext =
+    isGuildMessage && isObserverSummarizeEnabled(cfg, route.agentId)
+      ? await readObserverContext({ cfg, agentId: route.agentId, sessionKey: route.sessionKey })
+      : undefined;
   const replyContext = resolveReplyContext(message, resolveDiscordMessageText);
   if (forumContextLine) {
     combinedBody = `${combinedBody}\n${forumContextLine}`;
@@ -694,6 +704,9 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
         }))
       : undefined;
 
+  const untrustedContext = [untrustedChannelMetadata, observerContext?.text].filter(
+    (entry): entry is string => Boolean(entry),
+  );
   const ctxPayload = finalizeInboundContext({
     Body: combinedBody,
     BodyForAgent: baseText ?? text,
@@ -712,7 +725,7 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
     SenderTag: senderTag,
     GroupSubject: groupSubject,
     GroupChannel: groupChannel,
-    UntrustedContext: untrustedChannelMetadata ? [untrustedChannelMetadata] : undefined,
+    UntrustedContext: untrustedContext.length > 0 ? untrustedContext : undefined,
     GroupSystemPrompt: isGuildMessage ? groupSystemPrompt : undefined,
     GroupSpace: isGuildMessage ? (guildInfo?.id ?? guildSlug) || undefined : undefined,
     OwnerAllowFrom: ownerAllowFrom,
@@ -855,6 +868,9 @@ export async function processDiscordMessage(ctx: DiscordMessagePreflightContext)
         },
       },
     });
+    if (observerContext) {
+      await clearObserverContext({ sessionKey: route.sessionKey, context: observerContext });
+    }
   } catch (err) {
     dispatchError = true;
     throw err;
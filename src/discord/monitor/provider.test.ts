@@ -176,6 +176,10 @@ vi.mock("./agent-components.js", () => ({
   createDiscordComponentUserSelect: () => ({ id: "user" }),
 }));
 
+vi.mock("./approval-inbox.js", () => ({
+  createApprovalInboxButton: () => ({ id: "approval-inbox" }),
+}));
+
 vi.mock("./commands.js", () => ({
   resolveDiscordSlashCommandConfig: () => ({ ephemeral: false }),
 }));
@@ -26,9 +26,9 @@ import {
   resolveNativeCommandsEnabled,
   resolveNativeSkillsEnabled,
 } from "../../config/commands.js";
-import { isDangerousNameMatchingEnabled } from "../../config/dangerous-name-matching.js";
 import type { OpenClawConfig, ReplyToMode } from "../../config/config.js";
 import { loadConfig } from "../../config/config.js";
+import { isDangerousNameMatchingEnabled } from "../../config/dangerous-name-matching.js";
 import { danger, logVerbose, shouldLogVerbose, warn } from "../../globals.js";
 import { formatErrorMessage } from "../../infra/errors.js";
 import { createDiscordRetryRunner } from "../../infra/retry-policy.js";
@@ -53,6 +53,7 @@ import {
   createDiscordComponentStringSelect,
   createDiscordComponentUserSelect,
 } from "./agent-components.js";
+import { createApprovalInboxButton } from "./approval-inbox.js";
 import { createExecApprovalButton, DiscordExecApprovalHandler } from "./exec-approvals.js";
 import { attachEarlyGatewayErrorGuard } from "./gateway-error-guard.js";
 import { createDiscordGatewayPlugin } from "./gateway-plugin.js";
@@ -111,7 +112,6 @@ function summarizeGuilds(entries?: Record<string, unknown>) {
   return `${sample.join(", ")}${suffix}`;
 }
 
-
 function dedupeSkillCommandsForDiscord(
   skillCommands: ReturnType<typeof listSkillCommandsForAgents>,
 ) {
@@ -521,6 +521,10 @@ export async function monitorDiscordProvider(opts: MonitorDiscordOpts = {}) {
       components.push(createExecApprovalButton({ handler: execApprovalsHandler }));
     }
 
+    if (cfg.approvals?.inbox?.enabled) {
+      components.push(createApprovalInboxButton({ cfg }));
+    }
+
     if (agentComponentsEnabled) {
       const componentContext = {
         cfg,
@@ -621,11 +625,13 @@ export async function monitorDiscordProvider(opts: MonitorDiscordOpts = {}) {
       runtime.error?.(danger(`discord: failed to fetch bot identity: ${String(err)}`));
     }
 
-    // Restore thread participant map from disk (safe degradation if missing)
+    // Restore thread participant map from the state store (safe degradation if missing)
     try {
-      loadThreadParticipants();
+      await loadThreadParticipants();
     } catch (err) {
-      runtime.log?.(`discord: thread participant restore failed (mention-only mode): ${String(err)}`);
+      runtime.log?.(
+        `discord: thread participant restore failed (mention-only mode): ${String(err)}`,
+      );
     }
 
     const voiceManager = voiceEnabled
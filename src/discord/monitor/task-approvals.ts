@@ -409,6 +409,7 @@ export class DiscordTaskApprovalHandler {
     const approval = await this.approveTask({
       agentId: params.agentId,
       taskId: params.taskId,
+      approvedBy: params.approvedBy,
     });
 
     if (!approval.ok) {
@@ -445,6 +446,7 @@ export class DiscordTaskApprovalHandler {
   private async approveTask(params: {
     agentId: string;
     taskId: string;
+    approvedBy: string;
   }): Promise<{ ok: boolean; message?: string; alreadyApproved?: boolean }> {
     const sessionKey = resolveAgentMainSessionKey({
       cfg: this.opts.cfg,
@@ -453,6 +455,7 @@ export class DiscordTaskApprovalHandler {
     const tool = createTaskApproveTool({
       config: this.opts.cfg,
       agentSessionKey: sessionKey,
+      approvedBy: params.approvedBy,
     });
     if (!tool) {
       return { ok: false, message: "task_approve tool unavailable" };
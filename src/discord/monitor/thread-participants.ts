@@ -2,12 +2,21 @@
  * Thread Participant Tracking — tracks which bots participate in which threads.
  * Participants can converse in threads without explicit @mentions.
  *
- * Persistence: in-memory Map + async disk flush to state/thread-participants.json
+ * Persistence: in-memory Map for the synchronous lookups, flushed per thread
+ * to the `discord.thread-participants` state-store namespace. Flushes merge
+ * with what other gateway processes wrote for the same thread.
  * TTL: 24h from last activity per thread
  */
 
-import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { resolve } from "node:path";
+import { resolveStateDir } from "../../config/paths.js";
+import {
+  importLegacyStateFile,
+  isStateEntryExpired,
+  openStateNamespace,
+  type StateNamespace,
+} from "../../infra/state-store.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
 
 // ── Types ──────────────────────────────────────────────────────────
 
@@ -18,16 +27,15 @@ export interface ThreadParticipantEntry {
   lastActivityAt: number;
 }
 
-interface ThreadParticipantStore {
-  version: number;
-  threads: Record<string, ThreadParticipantEntry>;
-}
-
 // ── Constants ──────────────────────────────────────────────────────
 
 const GLOBAL_KEY = "__openclaw_threadParticipants__";
 const PARTICIPANT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 const FLUSH_DEBOUNCE_MS = 1_000;
+const STATE_NAMESPACE = "discord.thread-participants";
+const LEGACY_FILENAME = "thread-participants.json";
+
+const log = createSubsystemLogger("discord/thread-participants");
 
 // ── Internal State ─────────────────────────────────────────────────
 
@@ -41,83 +49,110 @@ function getParticipantMap(): Map<string, ThreadParticipantEntry> {
 
 let flushTimer: ReturnType<typeof setTimeout> | null = null;
 let stateDir: string | null = null;
+let namespace: StateNamespace<ThreadParticipantEntry> | null = null;
+const dirtyThreads = new Set<string>();
 
-// ── State Directory ────────────────────────────────────────────────
+function getNamespace(): StateNamespace<ThreadParticipantEntry> {
+  namespace ??= openStateNamespace<ThreadParticipantEntry>(STATE_NAMESPACE, {
+    stateDir: stateDir ?? undefined,
+    defaultTtlMs: PARTICIPANT_TTL_MS,
+  });
+  return namespace;
+}
 
-function getStatePath(): string | null {
-  if (stateDir) {
-    return resolve(stateDir, "thread-participants.json");
-  }
-  // Try common state dir locations
-  const candidates = [process.env.OPENCLAW_STATE_DIR, resolve(process.cwd(), "state")].filter(
-    Boolean,
-  ) as string[];
-  for (const dir of candidates) {
-    try {
-      mkdirSync(dir, { recursive: true });
-      stateDir = dir;
-      return resolve(dir, "thread-participants.json");
-    } catch {
-      continue;
-    }
+function mergeEntries(
+  stored: ThreadParticipantEntry | undefined,
+  local: ThreadParticipantEntry,
+): ThreadParticipantEntry {
+  if (!stored) {
+    return { ...local, participants: [...local.participants] };
   }
-  return null;
+  return {
+    threadId: local.threadId,
+    participants: [...new Set([...stored.participants, ...local.participants])],
+    createdAt: Math.min(stored.createdAt, local.createdAt),
+    lastActivityAt: Math.max(stored.lastActivityAt, local.lastActivityAt),
+  };
 }
 
 // ── Persistence ────────────────────────────────────────────────────
 
-export function loadThreadParticipants(): void {
-  const path = getStatePath();
-  if (!path) {
-    return;
+function toLegacyEntries(raw: unknown) {
+  const threads = (raw as { threads?: Record<string, ThreadParticipantEntry> } | null)?.threads;
+  return Object.values(threads ?? {}).map((entry) => ({
+    key: entry.threadId,
+    value: entry,
+    updatedAt: entry.lastActivityAt,
+  }));
+}
+
+/**
+ * Restore participants from the state store (importing the pre-state-store
+ * `thread-participants.json` once). Merges into what is already in memory.
+ */
+export async function loadThreadParticipants(): Promise<void> {
+  const ns = getNamespace();
+  const baseDir = stateDir ?? resolveStateDir();
+  for (const legacyDir of new Set([baseDir, resolve(process.cwd(), "state")])) {
+    await importLegacyStateFile(ns, resolve(legacyDir, LEGACY_FILENAME), toLegacyEntries, {
+      ttlMs: PARTICIPANT_TTL_MS,
+    });
   }
-  try {
-    const raw = readFileSync(path, "utf-8");
-    const store: ThreadParticipantStore = JSON.parse(raw);
-    if (store.version !== 1 || !store.threads) {
-      return;
-    }
-    const map = getParticipantMap();
-    const now = Date.now();
-    for (const [threadId, entry] of Object.entries(store.threads)) {
-      // Skip expired entries
-      if (now - entry.lastActivityAt > PARTICIPANT_TTL_MS) {
-        continue;
-      }
-      map.set(threadId, {
-        ...entry,
-        participants: [...entry.participants],
-      });
+  const map = getParticipantMap();
+  const now = Date.now();
+  for (const { value } of await ns.entries()) {
+    if (now - value.lastActivityAt > PARTICIPANT_TTL_MS) {
+      continue;
     }
-  } catch {
-    // Safe degradation: start empty, mention-only mode
+    map.set(value.threadId, mergeEntries(map.get(value.threadId), value));
   }
 }
 
-function scheduleFlush(): void {
+function scheduleFlush(threadId?: string): void {
+  if (threadId) {
+    dirtyThreads.add(threadId);
+  }
   if (flushTimer) {
     clearTimeout(flushTimer);
   }
   flushTimer = setTimeout(() => {
     flushTimer = null;
-    flushToDisk();
+    void flushThreadParticipants();
   }, FLUSH_DEBOUNCE_MS);
 }
 
-function flushToDisk(): void {
-  const path = getStatePath();
-  if (!path) {
+/** Write pending thread changes to the state store in one batch (best-effort). */
+export async function flushThreadParticipants(): Promise<void> {
+  const map = getParticipantMap();
+  // Expired or cleared locally: the entry's TTL removes it from the store.
+  const pending = [...dirtyThreads].flatMap((threadId) => {
+    const local = map.get(threadId);
+    return local ? [local] : [];
+  });
+  dirtyThreads.clear();
+  if (pending.length === 0) {
     return;
   }
+  const ns = getNamespace();
   try {
-    const map = getParticipantMap();
-    const store: ThreadParticipantStore = {
-      version: 1,
-      threads: Object.fromEntries(map.entries()),
-    };
-    writeFileSync(path, JSON.stringify(store, null, 2), "utf-8");
-  } catch {
-    // Log warning but don't crash — persistence is best-effort
+    await ns.store.mutate(ns.namespace, (entries) => {
+      const now = Date.now();
+      for (const local of pending) {
+        const current = entries[local.threadId];
+        const stored =
+          current && !isStateEntryExpired(current, now)
+            ? (current.value as ThreadParticipantEntry)
+            : undefined;
+        entries[local.threadId] = {
+          key: local.threadId,
+          value: mergeEntries(stored, local),
+          updatedAt: now,
+          expiresAt: now + PARTICIPANT_TTL_MS,
+        };
+      }
+    });
+  } catch (err) {
+    log.warn(`thread participant flush failed for ${pending.length} thread(s): ${String(err)}`);
   }
 }
 
@@ -144,7 +179,7 @@ export function registerThreadParticipant(threadId: string, botUserId: string):
     entry.participants.push(botUserId);
   }
   entry.lastActivityAt = now;
-  scheduleFlush();
+  scheduleFlush(threadId);
 }
 
 /**
@@ -168,7 +203,6 @@ export function isThreadParticipant(threadId: string, botUserId: string): boolea
   // Check TTL
   if (Date.now() - entry.lastActivityAt > PARTICIPANT_TTL_MS) {
     map.delete(threadId);
-    scheduleFlush();
     return false;
   }
   return entry.participants.includes(botUserId);
@@ -182,7 +216,7 @@ export function touchThreadActivity(threadId: string): void {
   const entry = map.get(threadId);
   if (entry) {
     entry.lastActivityAt = Date.now();
-    scheduleFlush();
+    scheduleFlush(threadId);
   }
 }
 
@@ -197,7 +231,6 @@ export function hasThreadParticipants(threadId: string): boolean {
   }
   if (Date.now() - entry.lastActivityAt > PARTICIPANT_TTL_MS) {
     map.delete(threadId);
-    scheduleFlush();
     return false;
   }
   return entry.participants.length > 0;
@@ -214,7 +247,6 @@ export function getThreadParticipants(threadId: string): string[] {
   }
   if (Date.now() - entry.lastActivityAt > PARTICIPANT_TTL_MS) {
     map.delete(threadId);
-    scheduleFlush();
     return [];
   }
   return [...entry.participants];
@@ -233,9 +265,6 @@ export function cleanupExpiredThreads(): number {
       removed++;
     }
   }
-  if (removed > 0) {
-    scheduleFlush();
-  }
   return removed;
 }
 
@@ -244,13 +273,17 @@ export function cleanupExpiredThreads(): number {
  */
 export function setThreadParticipantStateDir(dir: string): void {
   stateDir = dir;
+  namespace = null;
 }
 
 /**
- * Clear all participants (for tests).
+ * Clear all in-memory participants and pending flushes (for tests).
  */
 export function clearThreadParticipants(): void {
-  const map = getParticipantMap();
-  map.clear();
-  scheduleFlush();
+  getParticipantMap().clear();
+  dirtyThreads.clear();
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
 }
@@ -34,7 +34,12 @@ import {
 import { resolveAgentRoute } from "../../routing/resolve-route.js";
 import type { RuntimeEnv } from "../../runtime.js";
 import { parseTtsDirectives } from "../../tts/tts-core.js";
-import { resolveTtsConfig, textToSpeech, type ResolvedTtsConfig } from "../../tts/tts.js";
+import {
+  listTtsProviderIds,
+  resolveTtsConfig,
+  textToSpeech,
+  type ResolvedTtsConfig,
+} from "../../tts/tts.js";
 
 const require = createRequire(import.meta.url);
 
@@ -659,7 +664,7 @@ export class DiscordVoiceManager {
       cfg: this.params.cfg,
       override: this.params.discordConfig.voice?.tts,
     });
-    const directive = parseTtsDirectives(replyText, ttsConfig.modelOverrides);
+    const directive = parseTtsDirectives(replyText, ttsConfig.modelOverrides, listTtsProviderIds());
     const speakText = directive.overrides.ttsText ?? directive.cleanedText.trim();
     if (!speakText) {
       logVoiceVerbose(
@@ -26,6 +26,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "exec.approval.request",
     "exec.approval.waitDecision",
     "exec.approval.resolve",
+    "approvals.resolve",
   ],
   [PAIRING_SCOPE]: [
     "node.pair.request",
@@ -45,10 +46,21 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "health",
     "doctor.memory.status",
     "logs.tail",
+    "events.query",
+    "team.status",
+    "a2a.jobs.list",
+    "a2a.jobs.get",
+    "tasks.board",
+    "workSessions.list",
+    "a2a.conversations.list",
+    "a2a.conversations.get",
+    "approvals.list",
+    "approvals.audit",
     "channels.status",
     "status",
     "usage.status",
     "usage.cost",
+    "queue.list",
     "tts.status",
     "tts.providers",
     "models.list",
@@ -93,6 +105,9 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "chat.abort",
     "browser.request",
     "push.test",
+    "a2a.jobs.cancel",
+    "a2a.jobs.retry",
+    "a2a.jobs.resume",
   ],
   [ADMIN_SCOPE]: [
     "channels.logout",
@@ -126,6 +126,96 @@ import {
   GatewayFrameSchema,
   type HelloOk,
   HelloOkSchema,
+  type EventsQueryParams,
+  EventsQueryParamsSchema,
+  type EventsQueryResult,
+  EventsQueryResultSchema,
+  type TaskMonitorAgent,
+  TaskMonitorAgentSchema,
+  type TaskMonitorAgentsResult,
+  TaskMonitorAgentsResultSchema,
+  type TaskMonitorTask,
+  TaskMonitorTaskSchema,
+  type TaskMonitorTasksResult,
+  TaskMonitorTasksResultSchema,
+  type TaskMonitorTaskResult,
+  TaskMonitorTaskResultSchema,
+  type TaskMonitorHistoryResult,
+  TaskMonitorHistoryResultSchema,
+  type TaskMonitorTeamState,
+  TaskMonitorTeamStateSchema,
+  type TaskMonitorTaskGraph,
+  TaskMonitorTaskGraphSchema,
+  type TaskMonitorEvent,
+  TaskMonitorEventSchema,
+  type TaskMonitorEventsResult,
+  TaskMonitorEventsResultSchema,
+  type TaskMonitorWorkSession,
+  TaskMonitorWorkSessionSchema,
+  type TaskMonitorWorkSessionsResult,
+  TaskMonitorWorkSessionsResultSchema,
+  type TaskMonitorWorkspaceFileParams,
+  TaskMonitorWorkspaceFileParamsSchema,
+  type TaskMonitorWorkspaceFileResult,
+  TaskMonitorWorkspaceFileResultSchema,
+  type TaskMonitorBoardParams,
+  TaskMonitorBoardParamsSchema,
+  type TaskMonitorBoardResult,
+  TaskMonitorBoardResultSchema,
+  type TaskMonitorWorkSessionsParams,
+  TaskMonitorWorkSessionsParamsSchema,
+  type TaskMonitorConversation,
+  TaskMonitorConversationSchema,
+  type TaskMonitorConversationsParams,
+  TaskMonitorConversationsParamsSchema,
+  type TaskMonitorConversationsResult,
+  TaskMonitorConversationsResultSchema,
+  type TaskMonitorConversationParams,
+  TaskMonitorConversationParamsSchema,
+  type TaskMonitorConversationResult,
+  TaskMonitorConversationResultSchema,
+  type A2AJob,
+  A2AJobSchema,
+  type A2AJobCancelParams,
+  A2AJobCancelParamsSchema,
+  type A2AJobParams,
+  A2AJobParamsSchema,
+  type A2AJobResult,
+  A2AJobResultSchema,
+  type A2AJobsListParams,
+  A2AJobsListParamsSchema,
+  type A2AJobsListResult,
+  A2AJobsListResultSchema,
+  type ApprovalRecord,
+  ApprovalRecordSchema,
+  type ApprovalAuditEntry,
+  ApprovalAuditEntrySchema,
+  type ApprovalsListParams,
+  ApprovalsListParamsSchema,
+  type ApprovalsListResult,
+  ApprovalsListResultSchema,
+  type ApprovalsResolveParams,
+  ApprovalsResolveParamsSchema,
+  type ApprovalsResolveResult,
+  ApprovalsResolveResultSchema,
+  type ApprovalsAuditParams,
+  ApprovalsAuditParamsSchema,
+  type ApprovalsAuditResult,
+  ApprovalsAuditResultSchema,
+  type QueueItemSummary,
+  QueueItemSummarySchema,
+  type QueueSummary,
+  QueueSummarySchema,
+  type QueueListParams,
+  QueueListParamsSchema,
+  type QueueListResult,
+  QueueListResultSchema,
+  type TeamMember,
+  TeamMemberSchema,
+  type TeamStatusParams,
+  TeamStatusParamsSchema,
+  type TeamStatusResult,
+  TeamStatusResultSchema,
   type LogsTailParams,
   LogsTailParamsSchema,
   type LogsTailResult,
@@ -371,6 +461,35 @@ export const validateExecApprovalsNodeSetParams = ajv.compile<ExecApprovalsNodeS
   ExecApprovalsNodeSetParamsSchema,
 );
 export const validateLogsTailParams = ajv.compile<LogsTailParams>(LogsTailParamsSchema);
+export const validateEventsQueryParams = ajv.compile<EventsQueryParams>(EventsQueryParamsSchema);
+export const validateTaskMonitorWorkspaceFileParams = ajv.compile<TaskMonitorWorkspaceFileParams>(
+  TaskMonitorWorkspaceFileParamsSchema,
+);
+export const validateTaskMonitorBoardParams = ajv.compile<TaskMonitorBoardParams>(
+  TaskMonitorBoardParamsSchema,
+);
+export const validateTaskMonitorWorkSessionsParams = ajv.compile<TaskMonitorWorkSessionsParams>(
+  TaskMonitorWorkSessionsParamsSchema,
+);
+export const validateTaskMonitorConversationsParams = ajv.compile<TaskMonitorConversationsParams>(
+  TaskMonitorConversationsParamsSchema,
+);
+export const validateTaskMonitorConversationParams = ajv.compile<TaskMonitorConversationParams>(
+  TaskMonitorConversationParamsSchema,
+);
+export const validateTeamStatusParams = ajv.compile<TeamStatusParams>(TeamStatusParamsSchema);
+export const validateA2AJobsListParams = ajv.compile<A2AJobsListParams>(A2AJobsListParamsSchema);
+export const validateA2AJobParams = ajv.compile<A2AJobParams>(A2AJobParamsSchema);
+export const validateA2AJobCancelParams = ajv.compile<A2AJobCancelParams>(A2AJobCancelParamsSchema);
+export const validateApprovalsListParams =
+  ajv.compile<ApprovalsListParams>(ApprovalsListParamsSchema);
+export const validateApprovalsResolveParams = ajv.compile<ApprovalsResolveParams>(
+  ApprovalsResolveParamsSchema,
+);
+export const validateApprovalsAuditParams = ajv.compile<ApprovalsAuditParams>(
+  ApprovalsAuditParamsSchema,
+);
+export const validateQueueListParams = ajv.compile<QueueListParams>(QueueListParamsSchema);
 export const validateChatHistoryParams = ajv.compile(ChatHistoryParamsSchema);
 export const validateChatSendParams = ajv.compile(ChatSendParamsSchema);
 export const validateChatAbortParams = ajv.compile<ChatAbortParams>(ChatAbortParamsSchema);
@@ -504,6 +623,51 @@ export {
   CronRunsParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
+  EventsQueryParamsSchema,
+  EventsQueryResultSchema,
+  TaskMonitorAgentSchema,
+  TaskMonitorAgentsResultSchema,
+  TaskMonitorTaskSchema,
+  TaskMonitorTasksResultSchema,
+  TaskMonitorTaskResultSchema,
+  TaskMonitorHistoryResultSchema,
+  TaskMonitorTeamStateSchema,
+  TaskMonitorTaskGraphSchema,
+  TaskMonitorEventSchema,
+  TaskMonitorEventsResultSchema,
+  TaskMonitorWorkSessionSchema,
+  TaskMonitorWorkSessionsResultSchema,
+  TaskMonitorWorkspaceFileParamsSchema,
+  TaskMonitorWorkspaceFileResultSchema,
+  TaskMonitorBoardParamsSchema,
+  TaskMonitorBoardResultSchema,
+  TaskMonitorWorkSessionsParamsSchema,
+  TaskMonitorConversationSchema,
+  TaskMonitorConversationsParamsSchema,
+  TaskMonitorConversationsResultSchema,
+  TaskMonitorConversationParamsSchema,
+  TaskMonitorConversationResultSchema,
+  TeamStatusParamsSchema,
+  TeamMemberSchema,
+  TeamStatusResultSchema,
+  A2AJobSchema,
+  A2AJobsListParamsSchema,
+  A2AJobsListResultSchema,
+  A2AJobParamsSchema,
+  A2AJobCancelParamsSchema,
+  A2AJobResultSchema,
+  ApprovalRecordSchema,
+  ApprovalAuditEntrySchema,
+  ApprovalsListParamsSchema,
+  ApprovalsListResultSchema,
+  ApprovalsResolveParamsSchema,
+  ApprovalsResolveResultSchema,
+  ApprovalsAuditParamsSchema,
+  ApprovalsAuditResultSchema,
+  QueueItemSummarySchema,
+  QueueSummarySchema,
+  QueueListParamsSchema,
+  QueueListResultSchema,
   ChatHistoryParamsSchema,
   ChatSendParamsSchema,
   ChatInjectParamsSchema,
@@ -615,6 +779,51 @@ export type {
   ExecApprovalsSnapshot,
   LogsTailParams,
   LogsTailResult,
+  EventsQueryParams,
+  EventsQueryResult,
+  TaskMonitorAgent,
+  TaskMonitorAgentsResult,
+  TaskMonitorTask,
+  TaskMonitorTasksResult,
+  TaskMonitorTaskResult,
+  TaskMonitorHistoryResult,
+  TaskMonitorTeamState,
+  TaskMonitorTaskGraph,
+  TaskMonitorEvent,
+  TaskMonitorEventsResult,
+  TaskMonitorWorkSession,
+  TaskMonitorWorkSessionsResult,
+  TaskMonitorWorkspaceFileParams,
+  TaskMonitorWorkspaceFileResult,
+  TaskMonitorBoardParams,
+  TaskMonitorBoardResult,
+  TaskMonitorWorkSessionsParams,
+  TaskMonitorConversation,
+  TaskMonitorConversationsParams,
+  TaskMonitorConversationsResult,
+  TaskMonitorConversationParams,
+  TaskMonitorConversationResult,
+  TeamStatusParams,
+  TeamMember,
+  TeamStatusResult,
+  A2AJob,
+  A2AJobsListParams,
+  A2AJobsListResult,
+  A2AJobParams,
+  A2AJobCancelParams,
+  A2AJobResult,
+  ApprovalRecord,
+  ApprovalAuditEntry,
+  ApprovalsListParams,
+  ApprovalsListResult,
+  ApprovalsResolveParams,
+  ApprovalsResolveResult,
+  ApprovalsAuditParams,
+  ApprovalsAuditResult,
+  QueueItemSummary,
+  QueueSummary,
+  QueueListParams,
+  QueueListResult,
   PollParams,
   UpdateRunParams,
   ChatInjectParams,
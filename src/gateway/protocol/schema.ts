@@ -1,4 +1,6 @@
+export * from "./schema/a2a-jobs.js";
 export * from "./schema/agent.js";
+export * from "./schema/approvals.js";
 export * from "./schema/agents-models-skills.js";
 export * from "./schema/channels.js";
 export * from "./schema/config.js";
@@ -11,7 +13,10 @@ export * from "./schema/logs-chat.js";
 export * from "./schema/nodes.js";
 export * from "./schema/protocol-schemas.js";
 export * from "./schema/push.js";
+export * from "./schema/queue.js";
 export * from "./schema/sessions.js";
 export * from "./schema/snapshot.js";
+export * from "./schema/task-monitor.js";
+export * from "./schema/team.js";
 export * from "./schema/types.js";
 export * from "./schema/wizard.js";
@@ -0,0 +1,79 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const A2AJobStatusSchema = Type.Union([
+  Type.Literal("PENDING"),
+  Type.Literal("RUNNING"),
+  Type.Literal("COMPLETED"),
+  Type.Literal("FAILED"),
+  Type.Literal("ABANDONED"),
+  Type.Literal("CANCELLED"),
+]);
+
+export const A2AJobSchema = Type.Object(
+  {
+    jobId: NonEmptyString,
+    status: A2AJobStatusSchema,
+    requesterSessionKey: Type.Optional(Type.String()),
+    targetSessionKey: NonEmptyString,
+    displayKey: Type.String(),
+    message: Type.String(),
+    conversationId: Type.String(),
+    maxPingPongTurns: Type.Integer(),
+    /** Last completed ping-pong turn. */
+    currentTurn: Type.Integer({ minimum: 0 }),
+    announceTimeoutMs: Type.Integer({ minimum: 0 }),
+    taskId: Type.Optional(Type.String()),
+    workSessionId: Type.Optional(Type.String()),
+    parentConversationId: Type.Optional(Type.String()),
+    depth: Type.Optional(Type.Integer({ minimum: 0 })),
+    hop: Type.Optional(Type.Integer({ minimum: 0 })),
+    skipPingPong: Type.Optional(Type.Boolean()),
+    createdAt: Type.Integer({ minimum: 0 }),
+    updatedAt: Type.Integer({ minimum: 0 }),
+    finishedAt: Type.Optional(Type.Integer({ minimum: 0 })),
+    resumeCount: Type.Integer({ minimum: 0 }),
+    retryCount: Type.Optional(Type.Integer({ minimum: 0 })),
+    lastError: Type.Optional(Type.String()),
+    /** A flow for this job is running in this gateway process. */
+    active: Type.Boolean(),
+    /** RUNNING without progress past the reaper's stale threshold. */
+    stale: Type.Boolean(),
+  },
+  { additionalProperties: false },
+);
+
+export const A2AJobsListParamsSchema = Type.Object(
+  {
+    status: Type.Optional(Type.Array(A2AJobStatusSchema)),
+    agentId: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  },
+  { additionalProperties: false },
+);
+
+export const A2AJobsListResultSchema = Type.Object(
+  {
+    jobs: Type.Array(A2AJobSchema),
+    total: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const A2AJobParamsSchema = Type.Object(
+  { jobId: NonEmptyString },
+  { additionalProperties: false },
+);
+
+export const A2AJobCancelParamsSchema = Type.Object(
+  {
+    jobId: NonEmptyString,
+    reason: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const A2AJobResultSchema = Type.Object(
+  { job: A2AJobSchema },
+  { additionalProperties: false },
+);
@@ -0,0 +1,108 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const ApprovalKindSchema = Type.Union([
+  Type.Literal("task"),
+  Type.Literal("plan"),
+  Type.Literal("exec"),
+]);
+
+export const ApprovalDecisionSchema = Type.Union([Type.Literal("approve"), Type.Literal("reject")]);
+
+export const ApprovalRecordSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    kind: ApprovalKindSchema,
+    /** Task id, plan id or exec approval id. */
+    sourceId: NonEmptyString,
+    requesterAgentId: Type.String(),
+    summary: Type.String(),
+    risk: Type.Union([Type.Literal("low"), Type.Literal("medium"), Type.Literal("high")]),
+    details: Type.Optional(Type.Array(Type.String())),
+    status: Type.Union([
+      Type.Literal("pending"),
+      Type.Literal("escalated"),
+      Type.Literal("approved"),
+      Type.Literal("rejected"),
+      Type.Literal("expired"),
+    ]),
+    createdAtMs: Type.Integer({ minimum: 0 }),
+    expiresAtMs: Type.Integer({ minimum: 0 }),
+    escalatedAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    decision: Type.Optional(ApprovalDecisionSchema),
+    decidedBy: Type.Optional(Type.String()),
+    decidedAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    reason: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalsListParamsSchema = Type.Object(
+  {
+    /** "pending" (default) = still waiting on a human; "all" includes settled records. */
+    status: Type.Optional(Type.Union([Type.Literal("pending"), Type.Literal("all")])),
+    kind: Type.Optional(ApprovalKindSchema),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalsListResultSchema = Type.Object(
+  {
+    enabled: Type.Boolean(),
+    approvals: Type.Array(ApprovalRecordSchema),
+    count: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalsResolveParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    decision: ApprovalDecisionSchema,
+    reason: Type.Optional(Type.String()),
+    /** Chat sender who decided, as `<channel>:<userId>`, set by the channel that authenticated them. */
+    decidedBy: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalsResolveResultSchema = Type.Object(
+  {
+    approval: ApprovalRecordSchema,
+    message: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalAuditEntrySchema = Type.Object(
+  {
+    ts: Type.Integer({ minimum: 0 }),
+    approvalId: NonEmptyString,
+    kind: ApprovalKindSchema,
+    sourceId: Type.String(),
+    action: Type.Union([
+      Type.Literal("requested"),
+      Type.Literal("escalated"),
+      Type.Literal("decided"),
+      Type.Literal("expired"),
+    ]),
+    actor: Type.Optional(Type.String()),
+    decision: Type.Optional(ApprovalDecisionSchema),
+    reason: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalsAuditParamsSchema = Type.Object(
+  {
+    approvalId: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalsAuditResultSchema = Type.Object(
+  { entries: Type.Array(ApprovalAuditEntrySchema) },
+  { additionalProperties: false },
+);
@@ -19,6 +19,32 @@ function cronAgentTurnPayloadSchema(params: { message: TSchema }) {
   );
 }
 
+function cronTaskBacklogPayloadSchema(params: { description: TSchema }) {
+  return Type.Object(
+    {
+      kind: Type.Literal("taskBacklog"),
+      description: params.description,
+      context: Type.Optional(Type.String()),
+      priority: Type.Optional(
+        Type.Union([
+          Type.Literal("low"),
+          Type.Literal("medium"),
+          Type.Literal("high"),
+          Type.Literal("urgent"),
+        ]),
+      ),
+      steps: Type.Optional(Type.Array(NonEmptyString)),
+      assignee: Type.Optional(NonEmptyString),
+      estimatedEffort: Type.Optional(
+        Type.Union([Type.Literal("small"), Type.Literal("medium"), Type.Literal("large")]),
+      ),
+      dueDate: Type.Optional(NonEmptyString),
+      dueInMs: Type.Optional(Type.Integer({ minimum: 1 })),
+    },
+    { additionalProperties: false },
+  );
+}
+
 const CronSessionTargetSchema = Type.Union([Type.Literal("main"), Type.Literal("isolated")]);
 const CronWakeModeSchema = Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]);
 const CronRunStatusSchema = Type.Union([
@@ -123,6 +149,7 @@ export const CronPayloadSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: NonEmptyString }),
+  cronTaskBacklogPayloadSchema({ description: NonEmptyString }),
 ]);
 
 export const CronPayloadPatchSchema = Type.Union([
@@ -134,6 +161,7 @@ export const CronPayloadPatchSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: Type.Optional(NonEmptyString) }),
+  cronTaskBacklogPayloadSchema({ description: Type.Optional(NonEmptyString) }),
 ]);
 
 const CronDeliverySharedProperties = {
@@ -22,6 +22,42 @@ export const LogsTailResultSchema = Type.Object(
   { additionalProperties: false },
 );
 
+// Coordination event log (agent/task events, see src/infra/events)
+export const CoordinationEventSchema = Type.Object(
+  {
+    type: NonEmptyString,
+    agentId: Type.String(),
+    ts: Type.Integer({ minimum: 0 }),
+    data: Type.Record(Type.String(), Type.Unknown()),
+  },
+  { additionalProperties: true },
+);
+
+export const EventsQueryParamsSchema = Type.Object(
+  {
+    since: Type.Optional(Type.Integer({ minimum: 0 })),
+    until: Type.Optional(Type.Integer({ minimum: 0 })),
+    agentId: Type.Optional(NonEmptyString),
+    types: Type.Optional(Type.Array(NonEmptyString)),
+    workSessionId: Type.Optional(NonEmptyString),
+    taskId: Type.Optional(NonEmptyString),
+    cursor: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+    /** Return the newest `limit` events instead of paging from the start. */
+    tail: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const EventsQueryResultSchema = Type.Object(
+  {
+    events: Type.Array(CoordinationEventSchema),
+    cursor: Type.Optional(NonEmptyString),
+    hasMore: Type.Boolean(),
+  },
+  { additionalProperties: false },
+);
+
 // WebChat/WebSocket-native chat methods
 export const ChatHistoryParamsSchema = Type.Object(
   {
@@ -1,4 +1,12 @@
 import type { TSchema } from "@sinclair/typebox";
+import {
+  A2AJobCancelParamsSchema,
+  A2AJobParamsSchema,
+  A2AJobResultSchema,
+  A2AJobSchema,
+  A2AJobsListParamsSchema,
+  A2AJobsListResultSchema,
+} from "./a2a-jobs.js";
 import {
   AgentEventSchema,
   AgentIdentityParamsSchema,
@@ -40,6 +48,16 @@ import {
   ToolsCatalogParamsSchema,
   ToolsCatalogResultSchema,
 } from "./agents-models-skills.js";
+import {
+  ApprovalAuditEntrySchema,
+  ApprovalRecordSchema,
+  ApprovalsAuditParamsSchema,
+  ApprovalsAuditResultSchema,
+  ApprovalsListParamsSchema,
+  ApprovalsListResultSchema,
+  ApprovalsResolveParamsSchema,
+  ApprovalsResolveResultSchema,
+} from "./approvals.js";
 import {
   ChannelsLogoutParamsSchema,
   TalkConfigParamsSchema,
@@ -106,6 +124,9 @@ import {
   ChatHistoryParamsSchema,
   ChatInjectParamsSchema,
   ChatSendParamsSchema,
+  CoordinationEventSchema,
+  EventsQueryParamsSchema,
+  EventsQueryResultSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
 } from "./logs-chat.js";
@@ -124,6 +145,12 @@ import {
   NodeRenameParamsSchema,
 } from "./nodes.js";
 import { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
+import {
+  QueueItemSummarySchema,
+  QueueListParamsSchema,
+  QueueListResultSchema,
+  QueueSummarySchema,
+} from "./queue.js";
 import {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
@@ -135,6 +162,31 @@ import {
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
+import {
+  TaskMonitorAgentSchema,
+  TaskMonitorBoardParamsSchema,
+  TaskMonitorBoardResultSchema,
+  TaskMonitorWorkSessionsParamsSchema,
+  TaskMonitorConversationSchema,
+  TaskMonitorConversationsParamsSchema,
+  TaskMonitorConversationsResultSchema,
+  TaskMonitorConversationParamsSchema,
+  TaskMonitorConversationResultSchema,
+  TaskMonitorAgentsResultSchema,
+  TaskMonitorEventSchema,
+  TaskMonitorEventsResultSchema,
+  TaskMonitorHistoryResultSchema,
+  TaskMonitorTaskSchema,
+  TaskMonitorTaskGraphSchema,
+  TaskMonitorTaskResultSchema,
+  TaskMonitorTasksResultSchema,
+  TaskMonitorTeamStateSchema,
+  TaskMonitorWorkSessionSchema,
+  TaskMonitorWorkSessionsResultSchema,
+  TaskMonitorWorkspaceFileParamsSchema,
+  TaskMonitorWorkspaceFileResultSchema,
+} from "./task-monitor.js";
+import { TeamMemberSchema, TeamStatusParamsSchema, TeamStatusResultSchema } from "./team.js";
 import {
   WizardCancelParamsSchema,
   WizardNextParamsSchema,
@@ -249,6 +301,52 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronRunLogEntry: CronRunLogEntrySchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
+  CoordinationEvent: CoordinationEventSchema,
+  EventsQueryParams: EventsQueryParamsSchema,
+  EventsQueryResult: EventsQueryResultSchema,
+  TaskMonitorAgent: TaskMonitorAgentSchema,
+  TaskMonitorAgentsResult: TaskMonitorAgentsResultSchema,
+  TaskMonitorTask: TaskMonitorTaskSchema,
+  TaskMonitorTasksResult: TaskMonitorTasksResultSchema,
+  TaskMonitorTaskResult: TaskMonitorTaskResultSchema,
+  TaskMonitorHistoryResult: TaskMonitorHistoryResultSchema,
+  TaskMonitorTeamState: TaskMonitorTeamStateSchema,
+  TaskMonitorTaskGraph: TaskMonitorTaskGraphSchema,
+  TaskMonitorEvent: TaskMonitorEventSchema,
+  TaskMonitorEventsResult: TaskMonitorEventsResultSchema,
+  TaskMonitorWorkSession: TaskMonitorWorkSessionSchema,
+  TaskMonitorWorkSessionsResult: TaskMonitorWorkSessionsResultSchema,
+  TaskMonitorWorkspaceFileParams: TaskMonitorWorkspaceFileParamsSchema,
+  TaskMonitorWorkspaceFileResult: TaskMonitorWorkspaceFileResultSchema,
+  TaskMonitorBoardParams: TaskMonitorBoardParamsSchema,
+  TaskMonitorBoardResult: TaskMonitorBoardResultSchema,
+  TaskMonitorWorkSessionsParams: TaskMonitorWorkSessionsParamsSchema,
+  TaskMonitorConversation: TaskMonitorConversationSchema,
+  TaskMonitorConversationsParams: TaskMonitorConversationsParamsSchema,
+  TaskMonitorConversationsResult: TaskMonitorConversationsResultSchema,
+  TaskMonitorConversationParams: TaskMonitorConversationParamsSchema,
+  TaskMonitorConversationResult: TaskMonitorConversationResultSchema,
+  TeamStatusParams: TeamStatusParamsSchema,
+  TeamMember: TeamMemberSchema,
+  TeamStatusResult: TeamStatusResultSchema,
+  A2AJob: A2AJobSchema,
+  A2AJobsListParams: A2AJobsListParamsSchema,
+  A2AJobsListResult: A2AJobsListResultSchema,
+  A2AJobParams: A2AJobParamsSchema,
+  A2AJobCancelParams: A2AJobCancelParamsSchema,
+  A2AJobResult: A2AJobResultSchema,
+  ApprovalRecord: ApprovalRecordSchema,
+  ApprovalAuditEntry: ApprovalAuditEntrySchema,
+  ApprovalsListParams: ApprovalsListParamsSchema,
+  ApprovalsListResult: ApprovalsListResultSchema,
+  ApprovalsResolveParams: ApprovalsResolveParamsSchema,
+  ApprovalsResolveResult: ApprovalsResolveResultSchema,
+  ApprovalsAuditParams: ApprovalsAuditParamsSchema,
+  ApprovalsAuditResult: ApprovalsAuditResultSchema,
+  QueueItemSummary: QueueItemSummarySchema,
+  QueueSummary: QueueSummarySchema,
+  QueueListParams: QueueListParamsSchema,
+  QueueListResult: QueueListResultSchema,
   ExecApprovalsGetParams: ExecApprovalsGetParamsSchema,
   ExecApprovalsSetParams: ExecApprovalsSetParamsSchema,
   ExecApprovalsNodeGetParams: ExecApprovalsNodeGetParamsSchema,
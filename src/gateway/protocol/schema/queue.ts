@@ -0,0 +1,43 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const QueueItemSummarySchema = Type.Object(
+  {
+    messageId: Type.Optional(Type.String()),
+    enqueuedAt: Type.Integer({ minimum: 0 }),
+    preview: Type.String(),
+    originatingChannel: Type.Optional(Type.String()),
+    originatingTo: Type.Optional(Type.String()),
+    originatingThreadId: Type.Optional(Type.Union([Type.String(), Type.Number()])),
+  },
+  { additionalProperties: false },
+);
+
+export const QueueSummarySchema = Type.Object(
+  {
+    key: NonEmptyString,
+    mode: Type.String(),
+    depth: Type.Integer({ minimum: 0 }),
+    draining: Type.Boolean(),
+    droppedCount: Type.Integer({ minimum: 0 }),
+    /** Journaled to disk and replayed after a gateway restart. */
+    persist: Type.Boolean(),
+    items: Type.Array(QueueItemSummarySchema),
+  },
+  { additionalProperties: false },
+);
+
+export const QueueListParamsSchema = Type.Object(
+  {
+    sessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const QueueListResultSchema = Type.Object(
+  {
+    queues: Type.Array(QueueSummarySchema),
+    count: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
@@ -0,0 +1,341 @@
+import { Type } from "@sinclair/typebox";
+import { CoordinationEventSchema } from "./logs-chat.js";
+import { NonEmptyString } from "./primitives.js";
+
+// Task monitor HTTP surface (`/api/task-monitor/*`, see src/gateway/server-task-monitor.ts),
+// the `tasks.board` / `workSessions.list` / `a2a.conversations.*` gateway methods and the
+// `task-monitor.event` WS broadcast. Consumed by Task-Hub and the Control UI.
+
+const TaskStatusSchema = Type.Union([
+  Type.Literal("pending"),
+  Type.Literal("pending_approval"),
+  Type.Literal("in_progress"),
+  Type.Literal("blocked"),
+  Type.Literal("backlog"),
+  Type.Literal("completed"),
+  Type.Literal("cancelled"),
+  Type.Literal("abandoned"),
+  Type.Literal("interrupted"),
+]);
+
+const TaskPrioritySchema = Type.Union([
+  Type.Literal("low"),
+  Type.Literal("medium"),
+  Type.Literal("high"),
+  Type.Literal("urgent"),
+]);
+
+export const TaskMonitorTaskSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    status: TaskStatusSchema,
+    priority: TaskPrioritySchema,
+    description: Type.String(),
+    created: Type.String(),
+    lastActivity: Type.String(),
+    workSessionId: Type.Optional(Type.String()),
+    assignee: Type.Optional(Type.String()),
+    dependsOn: Type.Optional(Type.Array(Type.String())),
+    dueDate: Type.Optional(Type.String()),
+    progress: Type.Array(Type.String()),
+  },
+  { additionalProperties: true },
+);
+
+export const TaskMonitorAgentSchema = Type.Object(
+  {
+    agentId: NonEmptyString,
+    role: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+    currentTaskId: Type.Union([Type.String(), Type.Null()]),
+    taskCounts: Type.Record(Type.String(), Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorAgentsResultSchema = Type.Object(
+  {
+    agents: Type.Array(TaskMonitorAgentSchema),
+    count: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorTasksResultSchema = Type.Object(
+  {
+    agentId: NonEmptyString,
+    tasks: Type.Array(TaskMonitorTaskSchema),
+    count: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorTaskResultSchema = Type.Object(
+  {
+    agentId: NonEmptyString,
+    task: Type.Union([TaskMonitorTaskSchema, Type.Null()]),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorHistoryResultSchema = Type.Object(
+  {
+    agentId: NonEmptyString,
+    /** Raw markdown entries of the selected month, newest last. */
+    history: Type.String(),
+    months: Type.Array(Type.String()),
+    currentMonth: Type.Union([Type.String(), Type.Null()]),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorTeamStateSchema = Type.Object(
+  {
+    version: Type.Integer(),
+    agents: Type.Record(
+      Type.String(),
+      Type.Object(
+        {
+          agentId: NonEmptyString,
+          role: Type.String(),
+          currentTaskId: Type.Union([Type.String(), Type.Null()]),
+          lastHeartbeatMs: Type.Integer({ minimum: 0 }),
+          status: Type.String(),
+          consecutiveFailures: Type.Integer({ minimum: 0 }),
+        },
+        { additionalProperties: true },
+      ),
+    ),
+    lastUpdatedMs: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorTaskGraphSchema = Type.Object(
+  {
+    nodes: Type.Array(
+      Type.Object(
+        {
+          taskId: NonEmptyString,
+          agentId: NonEmptyString,
+          status: Type.String(),
+          priority: Type.String(),
+          description: Type.String(),
+          dependsOn: Type.Array(Type.String()),
+          dependents: Type.Array(Type.String()),
+          unmetDependencies: Type.Array(Type.String()),
+          estimatedEffort: Type.Optional(Type.String()),
+          dueDate: Type.Optional(Type.String()),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    edges: Type.Array(
+      Type.Object({ from: NonEmptyString, to: NonEmptyString }, { additionalProperties: false }),
+    ),
+    cycles: Type.Array(Type.Array(Type.String())),
+    criticalPath: Type.Array(Type.String()),
+    criticalPathEffort: Type.Number({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+const EventRoleSchema = Type.Union([
+  Type.Literal("conversation.main"),
+  Type.Literal("delegation.subagent"),
+  Type.Literal("orchestration.task"),
+  Type.Literal("system.observability"),
+]);
+
+/** A coordination event enriched with its role and collaboration category. */
+export const TaskMonitorEventSchema = Type.Intersect([
+  CoordinationEventSchema,
+  Type.Object({
+    eventRole: EventRoleSchema,
+    fromSessionType: Type.String(),
+    toSessionType: Type.String(),
+    collabCategory: Type.String(),
+    collabSubTags: Type.Array(Type.String()),
+    categoryConfidence: Type.Number(),
+    categorySource: Type.String(),
+  }),
+]);
+
+export const TaskMonitorEventsResultSchema = Type.Object(
+  {
+    events: Type.Array(TaskMonitorEventSchema),
+    cursor: Type.Optional(NonEmptyString),
+    hasMore: Type.Boolean(),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorWorkSessionSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    workSessionId: NonEmptyString,
+    status: Type.Union([Type.Literal("ACTIVE"), Type.Literal("QUIET"), Type.Literal("ARCHIVED")]),
+    startTime: Type.Integer({ minimum: 0 }),
+    lastTime: Type.Integer({ minimum: 0 }),
+    durationMs: Type.Integer({ minimum: 0 }),
+    threadCount: Type.Integer({ minimum: 0 }),
+    eventCount: Type.Integer({ minimum: 0 }),
+    collabCategory: Type.String(),
+    collabSubTags: Type.Array(Type.String()),
+    categorySource: Type.Union([Type.Literal("manual_override"), Type.Literal("event")]),
+    roleCounts: Type.Record(Type.String(), Type.Integer({ minimum: 0 })),
+    threads: Type.Array(
+      Type.Object(
+        {
+          id: NonEmptyString,
+          conversationId: Type.Optional(Type.String()),
+          fromAgent: Type.String(),
+          toAgent: Type.String(),
+          startTime: Type.Integer({ minimum: 0 }),
+          lastTime: Type.Integer({ minimum: 0 }),
+          eventCount: Type.Integer({ minimum: 0 }),
+          collabCategory: Type.String(),
+          collabSubTags: Type.Array(Type.String()),
+          events: Type.Array(TaskMonitorEventSchema),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorWorkSessionsResultSchema = Type.Object(
+  {
+    sessions: Type.Array(TaskMonitorWorkSessionSchema),
+    count: Type.Integer({ minimum: 0 }),
+    totalMatched: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorBoardParamsSchema = Type.Object(
+  {
+    agentId: Type.Optional(NonEmptyString),
+    status: Type.Optional(Type.Array(TaskStatusSchema)),
+  },
+  { additionalProperties: false },
+);
+
+/** Per-agent task boards for `tasks.board`. */
+export const TaskMonitorBoardResultSchema = Type.Object(
+  {
+    agents: Type.Array(
+      Type.Object(
+        {
+          agentId: NonEmptyString,
+          role: Type.Optional(Type.String()),
+          status: Type.Optional(Type.String()),
+          currentTaskId: Type.Union([Type.String(), Type.Null()]),
+          tasks: Type.Array(TaskMonitorTaskSchema),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    count: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorWorkSessionsParamsSchema = Type.Object(
+  {
+    /** Epoch ms; defaults to the last 7 days. */
+    since: Type.Optional(Type.Integer({ minimum: 0 })),
+    status: Type.Optional(
+      Type.Array(
+        Type.Union([Type.Literal("ACTIVE"), Type.Literal("QUIET"), Type.Literal("ARCHIVED")]),
+      ),
+    ),
+    workSessionId: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+  },
+  { additionalProperties: false },
+);
+
+const A2AConversationFields = {
+  conversationId: NonEmptyString,
+  fromAgent: Type.String(),
+  toAgent: Type.String(),
+  intent: Type.Optional(Type.String()),
+  intentSource: Type.Optional(Type.String()),
+  taskId: Type.Optional(Type.String()),
+  workSessionId: Type.Optional(Type.String()),
+  turns: Type.Integer({ minimum: 0 }),
+  maxTurns: Type.Optional(Type.Integer({ minimum: 0 })),
+  messageCount: Type.Integer({ minimum: 0 }),
+  status: Type.Union([Type.Literal("open"), Type.Literal("closed")]),
+  outcome: Type.Optional(Type.String()),
+  error: Type.Optional(Type.String()),
+  collabCategory: Type.String(),
+  startTime: Type.Integer({ minimum: 0 }),
+  lastTime: Type.Integer({ minimum: 0 }),
+};
+
+/** A2A conversation summary; the thread itself comes from `a2a.conversations.get`. */
+export const TaskMonitorConversationSchema = Type.Object(A2AConversationFields, {
+  additionalProperties: false,
+});
+
+export const TaskMonitorConversationsParamsSchema = Type.Object(
+  {
+    agentId: Type.Optional(NonEmptyString),
+    workSessionId: Type.Optional(NonEmptyString),
+    status: Type.Optional(Type.Union([Type.Literal("open"), Type.Literal("closed")])),
+    /** Epoch ms; defaults to the last 7 days. */
+    since: Type.Optional(Type.Integer({ minimum: 0 })),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 500 })),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorConversationsResultSchema = Type.Object(
+  {
+    conversations: Type.Array(TaskMonitorConversationSchema),
+    count: Type.Integer({ minimum: 0 }),
+    totalMatched: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorConversationParamsSchema = Type.Object(
+  {
+    conversationId: NonEmptyString,
+    since: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorConversationResultSchema = Type.Object(
+  {
+    conversation: Type.Object(
+      { ...A2AConversationFields, events: Type.Array(TaskMonitorEventSchema) },
+      { additionalProperties: false },
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorWorkspaceFileParamsSchema = Type.Object(
+  {
+    agentId: NonEmptyString,
+    /** Relative to the agent workspace. */
+    path: NonEmptyString,
+    content: Type.String(),
+  },
+  { additionalProperties: false },
+);
+
+export const TaskMonitorWorkspaceFileResultSchema = Type.Object(
+  {
+    ok: Type.Literal(true),
+    agentId: NonEmptyString,
+    path: NonEmptyString,
+    bytes: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
@@ -0,0 +1,34 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const TeamStatusParamsSchema = Type.Object({}, { additionalProperties: false });
+
+export const TeamMemberSchema = Type.Object(
+  {
+    agentId: NonEmptyString,
+    role: Type.Union([Type.Literal("lead"), Type.Literal("worker"), Type.Literal("specialist")]),
+    /** Derived display state; `stuck` = active without a heartbeat past the threshold. */
+    state: Type.Union([
+      Type.Literal("active"),
+      Type.Literal("idle"),
+      Type.Literal("backoff"),
+      Type.Literal("stuck"),
+      Type.Literal("interrupted"),
+    ]),
+    currentTaskId: Type.Union([Type.String(), Type.Null()]),
+    lastHeartbeatMs: Type.Integer({ minimum: 0 }),
+    consecutiveFailures: Type.Integer({ minimum: 0 }),
+    lastFailureReason: Type.Optional(Type.String()),
+    backoffUntilMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const TeamStatusResultSchema = Type.Object(
+  {
+    ts: Type.Integer({ minimum: 0 }),
+    lastUpdatedMs: Type.Integer({ minimum: 0 }),
+    members: Type.Array(TeamMemberSchema),
+  },
+  { additionalProperties: false },
+);
@@ -1,4 +1,12 @@
 import type { Static } from "@sinclair/typebox";
+import type {
+  A2AJobCancelParamsSchema,
+  A2AJobParamsSchema,
+  A2AJobResultSchema,
+  A2AJobSchema,
+  A2AJobsListParamsSchema,
+  A2AJobsListResultSchema,
+} from "./a2a-jobs.js";
 import type {
   AgentEventSchema,
   AgentIdentityParamsSchema,
@@ -38,6 +46,16 @@ import type {
   ToolsCatalogParamsSchema,
   ToolsCatalogResultSchema,
 } from "./agents-models-skills.js";
+import type {
+  ApprovalAuditEntrySchema,
+  ApprovalRecordSchema,
+  ApprovalsAuditParamsSchema,
+  ApprovalsAuditResultSchema,
+  ApprovalsListParamsSchema,
+  ApprovalsListResultSchema,
+  ApprovalsResolveParamsSchema,
+  ApprovalsResolveResultSchema,
+} from "./approvals.js";
 import type {
   ChannelsLogoutParamsSchema,
   TalkConfigParamsSchema,
@@ -100,6 +118,9 @@ import type {
   ChatAbortParamsSchema,
   ChatEventSchema,
   ChatInjectParamsSchema,
+  CoordinationEventSchema,
+  EventsQueryParamsSchema,
+  EventsQueryResultSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
 } from "./logs-chat.js";
@@ -117,6 +138,12 @@ import type {
   NodeRenameParamsSchema,
 } from "./nodes.js";
 import type { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
+import type {
+  QueueItemSummarySchema,
+  QueueListParamsSchema,
+  QueueListResultSchema,
+  QueueSummarySchema,
+} from "./queue.js";
 import type {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
@@ -128,6 +155,31 @@ import type {
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import type { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
+import type {
+  TaskMonitorAgentSchema,
+  TaskMonitorBoardParamsSchema,
+  TaskMonitorBoardResultSchema,
+  TaskMonitorWorkSessionsParamsSchema,
+  TaskMonitorConversationSchema,
+  TaskMonitorConversationsParamsSchema,
+  TaskMonitorConversationsResultSchema,
+  TaskMonitorConversationParamsSchema,
+  TaskMonitorConversationResultSchema,
+  TaskMonitorAgentsResultSchema,
+  TaskMonitorEventSchema,
+  TaskMonitorEventsResultSchema,
+  TaskMonitorHistoryResultSchema,
+  TaskMonitorTaskSchema,
+  TaskMonitorTaskGraphSchema,
+  TaskMonitorTaskResultSchema,
+  TaskMonitorTasksResultSchema,
+  TaskMonitorTeamStateSchema,
+  TaskMonitorWorkSessionSchema,
+  TaskMonitorWorkSessionsResultSchema,
+  TaskMonitorWorkspaceFileParamsSchema,
+  TaskMonitorWorkspaceFileResultSchema,
+} from "./task-monitor.js";
+import type { TeamMemberSchema, TeamStatusParamsSchema, TeamStatusResultSchema } from "./team.js";
 import type {
   WizardCancelParamsSchema,
   WizardNextParamsSchema,
@@ -238,6 +290,52 @@ export type CronRunsParams = Static<typeof CronRunsParamsSchema>;
 export type CronRunLogEntry = Static<typeof CronRunLogEntrySchema>;
 export type LogsTailParams = Static<typeof LogsTailParamsSchema>;
 export type LogsTailResult = Static<typeof LogsTailResultSchema>;
+export type CoordinationEvent = Static<typeof CoordinationEventSchema>;
+export type EventsQueryParams = Static<typeof EventsQueryParamsSchema>;
+export type EventsQueryResult = Static<typeof EventsQueryResultSchema>;
+export type TaskMonitorAgent = Static<typeof TaskMonitorAgentSchema>;
+export type TaskMonitorAgentsResult = Static<typeof TaskMonitorAgentsResultSchema>;
+export type TaskMonitorTask = Static<typeof TaskMonitorTaskSchema>;
+export type TaskMonitorTasksResult = Static<typeof TaskMonitorTasksResultSchema>;
+export type TaskMonitorTaskResult = Static<typeof TaskMonitorTaskResultSchema>;
+export type TaskMonitorHistoryResult = Static<typeof TaskMonitorHistoryResultSchema>;
+export type TaskMonitorTeamState = Static<typeof TaskMonitorTeamStateSchema>;
+export type TaskMonitorTaskGraph = Static<typeof TaskMonitorTaskGraphSchema>;
+export type TaskMonitorEvent = Static<typeof TaskMonitorEventSchema>;
+export type TaskMonitorEventsResult = Static<typeof TaskMonitorEventsResultSchema>;
+export type TaskMonitorWorkSession = Static<typeof TaskMonitorWorkSessionSchema>;
+export type TaskMonitorWorkSessionsResult = Static<typeof TaskMonitorWorkSessionsResultSchema>;
+export type TaskMonitorWorkspaceFileParams = Static<typeof TaskMonitorWorkspaceFileParamsSchema>;
+export type TaskMonitorWorkspaceFileResult = Static<typeof TaskMonitorWorkspaceFileResultSchema>;
+export type TaskMonitorBoardParams = Static<typeof TaskMonitorBoardParamsSchema>;
+export type TaskMonitorBoardResult = Static<typeof TaskMonitorBoardResultSchema>;
+export type TaskMonitorWorkSessionsParams = Static<typeof TaskMonitorWorkSessionsParamsSchema>;
+export type TaskMonitorConversation = Static<typeof TaskMonitorConversationSchema>;
+export type TaskMonitorConversationsParams = Static<typeof TaskMonitorConversationsParamsSchema>;
+export type TaskMonitorConversationsResult = Static<typeof TaskMonitorConversationsResultSchema>;
+export type TaskMonitorConversationParams = Static<typeof TaskMonitorConversationParamsSchema>;
+export type TaskMonitorConversationResult = Static<typeof TaskMonitorConversationResultSchema>;
+export type TeamStatusParams = Static<typeof TeamStatusParamsSchema>;
+export type TeamMember = Static<typeof TeamMemberSchema>;
+export type TeamStatusResult = Static<typeof TeamStatusResultSchema>;
+export type A2AJob = Static<typeof A2AJobSchema>;
+export type A2AJobsListParams = Static<typeof A2AJobsListParamsSchema>;
+export type A2AJobsListResult = Static<typeof A2AJobsListResultSchema>;
+export type A2AJobParams = Static<typeof A2AJobParamsSchema>;
+export type A2AJobCancelParams = Static<typeof A2AJobCancelParamsSchema>;
+export type A2AJobResult = Static<typeof A2AJobResultSchema>;
+export type ApprovalRecord = Static<typeof ApprovalRecordSchema>;
+export type ApprovalAuditEntry = Static<typeof ApprovalAuditEntrySchema>;
+export type ApprovalsListParams = Static<typeof ApprovalsListParamsSchema>;
+export type ApprovalsListResult = Static<typeof ApprovalsListResultSchema>;
+export type ApprovalsResolveParams = Static<typeof ApprovalsResolveParamsSchema>;
+export type ApprovalsResolveResult = Static<typeof ApprovalsResolveResultSchema>;
+export type ApprovalsAuditParams = Static<typeof ApprovalsAuditParamsSchema>;
+export type ApprovalsAuditResult = Static<typeof ApprovalsAuditResultSchema>;
+export type QueueItemSummary = Static<typeof QueueItemSummarySchema>;
+export type QueueSummary = Static<typeof QueueSummarySchema>;
+export type QueueListParams = Static<typeof QueueListParamsSchema>;
+export type QueueListResult = Static<typeof QueueListResultSchema>;
 export type ExecApprovalsGetParams = Static<typeof ExecApprovalsGetParamsSchema>;
 export type ExecApprovalsSetParams = Static<typeof ExecApprovalsSetParamsSchema>;
 export type ExecApprovalsNodeGetParams = Static<typeof ExecApprovalsNodeGetParamsSchema>;
@@ -0,0 +1,340 @@
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { approveSessionTools } from "../agents/session-tool-gate.js";
+import {
+  createTaskApproveTool,
+  createTaskCancelTool,
+  readTask,
+} from "../agents/tools/task-tool.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { resolveAgentMainSessionKey } from "../config/sessions.js";
+import {
+  createApprovalInboxNotifier,
+  type ApprovalDeliveryDeps,
+} from "../infra/approval-inbox-channels.js";
+import {
+  createApprovalInbox,
+  resolveApprovalInboxConfig,
+  type ApprovalInbox,
+  type ApprovalResolver,
+  type ApprovalRisk,
+} from "../infra/approval-inbox.js";
+import { subscribe, emit, type CoordinationEvent } from "../infra/events/bus.js";
+import { EVENT_TYPES } from "../infra/events/schemas.js";
+import type { ExecApprovalDecision } from "../infra/exec-approvals.js";
+import { approvePlan, getPlan, rejectPlan } from "../infra/plan-approval.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import type { ExecApprovalManager, ExecApprovalRecord } from "./exec-approval-manager.js";
+import type { GatewayBroadcastFn } from "./server-broadcast.js";
+
+const log = createSubsystemLogger("approval-inbox");
+
+const SUMMARY_MAX_CHARS = 200;
+
+export type GatewayApprovalInbox = {
+  /** Null when `approvals.inbox.enabled` is off. */
+  inbox: ApprovalInbox | null;
+  /**
+   * Mirror an exec approval into the inbox until its decision promise settles.
+   * Returns true when inbox targets will see it, so the request counts as forwarded.
+   */
+  trackExecApproval: (
+    record: ExecApprovalRecord,
+    decision: Promise<ExecApprovalDecision | null>,
+  ) => boolean;
+  stop: () => void;
+};
+
+function readString(data: Record<string, unknown> | undefined, key: string): string | undefined {
+  const value = data?.[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function truncate(text: string): string {
+  return text.length > SUMMARY_MAX_CHARS ? `${text.slice(0, SUMMARY_MAX_CHARS - 1)}…` : text;
+}
+
+function riskFromPriority(priority: string | undefined): ApprovalRisk {
+  if (priority === "urgent" || priority === "high") {
+    return "high";
+  }
+  return priority === "low" ? "low" : "medium";
+}
+
+function parseToolDetails(details: unknown): { success: boolean; error?: string } {
+  if (!details || typeof details !== "object") {
+    return { success: false, error: "invalid tool response" };
+  }
+  const payload = details as { success?: unknown; error?: unknown };
+  return {
+    success: payload.success === true,
+    error: typeof payload.error === "string" ? payload.error : undefined,
+  };
+}
+
+/** Task decisions run the agent's own task tools so events and task files stay consistent. */
+function createTaskResolver(cfg: OpenClawConfig): ApprovalResolver {
+  return async (record, { decision, decidedBy, reason }) => {
+    const agentSessionKey = resolveAgentMainSessionKey({ cfg, agentId: record.requesterAgentId });
+    const tool =
+      decision === "approve"
+        ? createTaskApproveTool({ config: cfg, agentSessionKey, approvedBy: decidedBy })
+        : createTaskCancelTool({ config: cfg, agentSessionKey });
+    if (!tool) {
+      return { ok: false, message: "task tools unavailable" };
+    }
+    const result = await tool.execute(`approval-inbox-${record.id}`, {
+      task_id: record.sourceId,
+      ...(decision === "reject"
+        ? { reason: `Rejected by ${decidedBy}${reason ? `: ${reason}` : ""}` }
+        : {}),
+    });
+    const parsed = parseToolDetails((result as { details?: unknown }).details);
+    if (parsed.success) {
+      return { ok: true };
+    }
+    // Already moved on (approved by a lead, cancelled); nothing is waiting anymore.
+    if (parsed.error && /not pending approval|not found/i.test(parsed.error)) {
+      return { ok: true, message: parsed.error };
+    }
+    return { ok: false, message: parsed.error ?? `task ${decision} failed` };
+  };
+}
+
+function createPlanResolver(cfg: OpenClawConfig): ApprovalResolver {
+  return async (record, { decision, decidedBy, reason }) => {
+    const workspaceDir = resolveAgentWorkspaceDir(cfg, record.requesterAgentId);
+    const current = await getPlan(workspaceDir, record.sourceId);
+    if (!current) {
+      return { ok: false, message: `Plan not found: ${record.sourceId}` };
+    }
+    const plan =
+      decision === "approve"
+        ? await approvePlan(workspaceDir, record.sourceId, decidedBy)
+        : await rejectPlan(workspaceDir, record.sourceId, reason, decidedBy);
+    if (!plan) {
+      return { ok: true, message: `Plan ${record.sourceId} is already ${current.status}` };
+    }
+    const toolsApproved = decision === "approve" ? (plan.toolsRequested ?? []) : [];
+    if (plan.sessionKey && toolsApproved.length > 0) {
+      approveSessionTools(plan.sessionKey, toolsApproved);
+    }
+    emit({
+      type: decision === "approve" ? EVENT_TYPES.PLAN_APPROVED : EVENT_TYPES.PLAN_REJECTED,
+      agentId: plan.agentId,
+      ts: Date.now(),
+      data: {
+        planId: plan.id,
+        taskId: plan.taskId,
+        submittedBy: plan.agentId,
+        decidedBy,
+        ...(decision === "approve" ? { toolsApproved } : { reason }),
+      },
+    });
+    return { ok: true };
+  };
+}
+
+function createExecResolver(
+  manager: ExecApprovalManager,
+  broadcast: GatewayBroadcastFn,
+): ApprovalResolver {
+  return async (record, { decision, decidedBy }) => {
+    const execDecision: ExecApprovalDecision = decision === "approve" ? "allow-once" : "deny";
+    const snapshot = manager.getSnapshot(record.sourceId);
+    if (!manager.resolve(record.sourceId, execDecision, decidedBy)) {
+      return { ok: false, message: "exec approval expired or already resolved" };
+    }
+    broadcast(
+      "exec.approval.resolved",
+      {
+        id: record.sourceId,
+        decision: execDecision,
+        resolvedBy: decidedBy,
+        ts: Date.now(),
+        request: snapshot?.request,
+      },
+      { dropIfSlow: true },
+    );
+    return { ok: true };
+  };
+}
+
+async function submitTaskApproval(
+  inbox: ApprovalInbox,
+  cfg: OpenClawConfig,
+  event: CoordinationEvent,
+) {
+  const taskId = readString(event.data, "taskId");
+  if (!taskId || !event.agentId || event.data?.requiresApproval !== true) {
+    return;
+  }
+  const priority = readString(event.data, "priority");
+  const workSessionId = readString(event.data, "workSessionId");
+  let description: string | undefined;
+  try {
+    description = (await readTask(resolveAgentWorkspaceDir(cfg, event.agentId), taskId))
+      ?.description;
+  } catch {
+    description = undefined;
+  }
+  await inbox.submit({
+    kind: "task",
+    sourceId: taskId,
+    requesterAgentId: event.agentId,
+    summary: truncate(
+      description ? `Start task ${taskId}: ${description}` : `Start task ${taskId}`,
+    ),
+    risk: riskFromPriority(priority),
+    details: [
+      ...(priority ? [`Priority: ${priority}`] : []),
+      ...(workSessionId ? [`Work session: ${workSessionId}`] : []),
+    ],
+  });
+}
+
+async function submitPlanApproval(inbox: ApprovalInbox, event: CoordinationEvent) {
+  const planId = readString(event.data, "planId");
+  if (!planId || !event.agentId) {
+    return;
+  }
+  const title = readString(event.data, "title") ?? planId;
+  const toolsRequested = Array.isArray(event.data?.toolsRequested)
+    ? event.data.toolsRequested.filter((tool): tool is string => typeof tool === "string")
+    : [];
+  const stepsCount = typeof event.data?.stepsCount === "number" ? event.data.stepsCount : undefined;
+  const taskId = readString(event.data, "taskId");
+  await inbox.submit({
+    kind: "plan",
+    sourceId: planId,
+    requesterAgentId: event.agentId,
+    summary: truncate(`Plan: ${title}`),
+    // Plans that unlock gated tools widen what the agent can do.
+    risk: toolsRequested.length > 0 ? "high" : "low",
+    details: [
+      ...(taskId ? [`Task: ${taskId}`] : []),
+      ...(stepsCount !== undefined ? [`Steps: ${stepsCount}`] : []),
+      ...(toolsRequested.length > 0 ? [`Tools requested: ${toolsRequested.join(", ")}`] : []),
+    ],
+  });
+}
+
+/**
+ * Starts the approval inbox for the gateway: registers resolvers for each kind,
+ * feeds it from task/plan coordination events and exec approval requests, and
+ * closes records whose source was decided elsewhere.
+ */
+export function startGatewayApprovalInbox(params: {
+  cfg: OpenClawConfig;
+  execApprovalManager: ExecApprovalManager;
+  broadcast: GatewayBroadcastFn;
+  stateDir?: string;
+  deps?: ApprovalDeliveryDeps;
+}): GatewayApprovalInbox {
+  const config = resolveApprovalInboxConfig(params.cfg);
+  if (!config.enabled) {
+    return { inbox: null, trackExecApproval: () => false, stop: () => {} };
+  }
+  const inbox = createApprovalInbox({
+    stateDir: params.stateDir ?? resolveStateDir(process.env),
+    config,
+    notify: createApprovalInboxNotifier({ config, deps: params.deps }),
+  });
+  inbox.registerResolver("task", createTaskResolver(params.cfg));
+  inbox.registerResolver("plan", createPlanResolver(params.cfg));
+  inbox.registerResolver("exec", createExecResolver(params.execApprovalManager, params.broadcast));
+
+  const run = (label: string, work: Promise<unknown>) => {
+    void work.catch((err) => log.warn(`${label} failed: ${String(err)}`));
+  };
+
+  const unsubscribe = subscribe("*", (event) => {
+    const sourceId = readString(event.data, "taskId");
+    const planId = readString(event.data, "planId");
+    const decidedBy = readString(event.data, "decidedBy") ?? event.agentId;
+    switch (event.type) {
+      case EVENT_TYPES.TASK_STARTED:
+        run("task approval submit", submitTaskApproval(inbox, params.cfg, event));
+        break;
+      case EVENT_TYPES.TASK_APPROVED:
+      case EVENT_TYPES.TASK_CANCELLED:
+        if (sourceId) {
+          run(
+            "task approval settle",
+            inbox.settle({
+              kind: "task",
+              sourceId,
+              decision: event.type === EVENT_TYPES.TASK_APPROVED ? "approve" : "reject",
+              decidedBy,
+              reason: readString(event.data, "reason"),
+            }),
+          );
+        }
+        break;
+      case EVENT_TYPES.PLAN_SUBMITTED:
+        run("plan approval submit", submitPlanApproval(inbox, event));
+        break;
+      case EVENT_TYPES.PLAN_APPROVED:
+      case EVENT_TYPES.PLAN_REJECTED:
+        if (planId) {
+          run(
+            "plan approval settle",
+            inbox.settle({
+              kind: "plan",
+              sourceId: planId,
+              decision: event.type === EVENT_TYPES.PLAN_APPROVED ? "approve" : "reject",
+              decidedBy,
+              reason: readString(event.data, "reason"),
+            }),
+          );
+        }
+        break;
+      default:
+        break;
+    }
+  });
+
+  const trackExecApproval: GatewayApprovalInbox["trackExecApproval"] = (record, decision) => {
+    if (!config.kinds.includes("exec")) {
+      return false;
+    }
+    const request = record.request;
+    run(
+      "exec approval submit",
+      inbox.submit({
+        kind: "exec",
+        sourceId: record.id,
+        requesterAgentId: request.agentId ?? "main",
+        summary: truncate(`Run: ${request.command}`),
+        risk: request.security === "full" ? "high" : "medium",
+        details: [
+          ...(request.cwd ? [`Working directory: ${request.cwd}`] : []),
+          ...(request.host ? [`Host: ${request.host}`] : []),
+          ...(request.nodeId ? [`Node: ${request.nodeId}`] : []),
+        ],
+        expiresAtMs: record.expiresAtMs,
+      }),
+    );
+    run(
+      "exec approval settle",
+      decision.then((resolved) =>
+        inbox.settle({
+          kind: "exec",
+          sourceId: record.id,
+          decision: resolved ? (resolved === "deny" ? "reject" : "approve") : undefined,
+          decidedBy: record.resolvedBy ?? undefined,
+        }),
+      ),
+    );
+    return config.targets.length > 0;
+  };
+
+  return {
+    inbox,
+    trackExecApproval,
+    stop: () => {
+      unsubscribe();
+      inbox.stop();
+    },
+  };
+}
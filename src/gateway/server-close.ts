@@ -4,6 +4,9 @@ import type { CanvasHostHandler, CanvasHostServer } from "../canvas-host/server.
 import { type ChannelId, listChannelPlugins } from "../channels/plugins/index.js";
 import { stopGmailWatcher } from "../hooks/gmail-watcher.js";
 import type { HeartbeatRunner } from "../infra/heartbeat-runner.js";
+import type { TaskUsageTracker } from "../infra/task-accounting.js";
+import type { TaskSlaMonitor } from "../infra/task-sla-monitor.js";
+import type { TeamStateTracker } from "../infra/team-state-tracker.js";
 import type { PluginServicesHandle } from "../plugins/services.js";
 
 export function createGatewayCloseHandler(params: {
@@ -23,6 +26,13 @@ export function createGatewayCloseHandler(params: {
   dedupeCleanup: ReturnType<typeof setInterval>;
   agentUnsub: (() => void) | null;
   heartbeatUnsub: (() => void) | null;
+  taskMonitorUnsub?: (() => void) | null;
+  approvalInboxStop?: (() => void) | null;
+  teamStateTracker?: TeamStateTracker | null;
+  stopTeamDashboard?: (() => void) | null;
+  stopCoordinationHooks?: (() => void) | null;
+  taskSlaMonitor?: TaskSlaMonitor | null;
+  taskUsageTracker?: TaskUsageTracker | null;
   chatRunState: { clear: () => void };
   clients: Set<{ socket: { close: (code: number, reason: string) => void } }>;
   configReloader: { stop: () => Promise<void> };
@@ -101,6 +111,43 @@ export function createGatewayCloseHandler(params: {
         /* ignore */
       }
     }
+    if (params.taskMonitorUnsub) {
+      try {
+        params.taskMonitorUnsub();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.approvalInboxStop) {
+      try {
+        params.approvalInboxStop();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.stopTeamDashboard) {
+      try {
+        params.stopTeamDashboard();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.stopCoordinationHooks) {
+      try {
+        params.stopCoordinationHooks();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.teamStateTracker) {
+      params.teamStateTracker.stop();
+      await params.teamStateTracker.flush().catch(() => {});
+    }
+    params.taskSlaMonitor?.stop();
+    if (params.taskUsageTracker) {
+      params.taskUsageTracker.stop();
+      await params.taskUsageTracker.flush().catch(() => {});
+    }
     params.chatRunState.clear();
     for (const c of params.clients) {
       try {
@@ -15,6 +15,7 @@ import {
 } from "../cron/run-log.js";
 import { CronService } from "../cron/service.js";
 import { resolveCronStorePath } from "../cron/store.js";
+import { runCronTaskBacklogJob } from "../cron/task-backlog.js";
 import { normalizeHttpWebhookUrl } from "../cron/webhook-url.js";
 import { formatErrorMessage } from "../infra/errors.js";
 import { runHeartbeatOnce } from "../infra/heartbeat-runner.js";
@@ -203,6 +204,10 @@ export function buildGatewayCronService(params: {
         lane: "cron",
       });
     },
+    runTaskBacklogJob: async ({ job, payload }) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      return await runCronTaskBacklogJob({ cfg: runtimeConfig, job, payload, agentId });
+    },
     log: getChildLogger({ module: "cron", storePath }),
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
@@ -5,11 +5,26 @@ const BASE_METHODS = [
   "health",
   "doctor.memory.status",
   "logs.tail",
+  "events.query",
+  "team.status",
+  "a2a.jobs.list",
+  "a2a.jobs.get",
+  "a2a.jobs.cancel",
+  "a2a.jobs.retry",
+  "a2a.jobs.resume",
+  "tasks.board",
+  "workSessions.list",
+  "a2a.conversations.list",
+  "a2a.conversations.get",
+  "approvals.list",
+  "approvals.audit",
+  "approvals.resolve",
   "channels.status",
   "channels.logout",
   "status",
   "usage.status",
   "usage.cost",
+  "queue.list",
   "tts.status",
   "tts.providers",
   "tts.enable",
@@ -121,5 +136,6 @@ export const GATEWAY_EVENTS = [
   "voicewake.changed",
   "exec.approval.requested",
   "exec.approval.resolved",
+  "task-monitor.event",
   GATEWAY_EVENT_UPDATE_AVAILABLE,
 ];
@@ -0,0 +1,143 @@
+import { getA2AJobManager, type A2AJobRecord } from "../../agents/tools/a2a-job-manager.js";
+import {
+  cancelA2AJob,
+  isA2AJobActive,
+  resumeA2AJob,
+  retryA2AJob,
+  type A2AJobControlResult,
+} from "../../agents/tools/a2a-job-orchestrator.js";
+import { resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
+import {
+  type A2AJob,
+  type A2AJobsListResult,
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateA2AJobCancelParams,
+  validateA2AJobParams,
+  validateA2AJobsListParams,
+} from "../protocol/index.js";
+import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+
+const DEFAULT_LIST_LIMIT = 50;
+
+function toA2AJob(record: A2AJobRecord, stale: boolean): A2AJob {
+  return { ...record, active: isA2AJobActive(record.jobId), stale };
+}
+
+function respondInvalid(respond: RespondFn, method: string, errors: string) {
+  respond(
+    false,
+    undefined,
+    errorShape(ErrorCodes.INVALID_REQUEST, `invalid ${method} params: ${errors}`),
+  );
+}
+
+function respondUnavailable(respond: RespondFn) {
+  respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, "A2A job manager is not running"));
+}
+
+function respondControl(respond: RespondFn, result: A2AJobControlResult) {
+  if (!result.ok) {
+    respond(
+      false,
+      undefined,
+      errorShape(
+        result.code === "unavailable" ? ErrorCodes.UNAVAILABLE : ErrorCodes.INVALID_REQUEST,
+        result.error,
+      ),
+    );
+    return;
+  }
+  const manager = getA2AJobManager();
+  respond(true, { job: toA2AJob(result.job, manager?.isStale(result.job) ?? false) }, undefined);
+}
+
+export const a2aJobsHandlers: GatewayRequestHandlers = {
+  "a2a.jobs.list": async ({ params, respond }) => {
+    if (!validateA2AJobsListParams(params)) {
+      respondInvalid(
+        respond,
+        "a2a.jobs.list",
+        formatValidationErrors(validateA2AJobsListParams.errors),
+      );
+      return;
+    }
+    const manager = getA2AJobManager();
+    if (!manager) {
+      respondUnavailable(respond);
+      return;
+    }
+    const statuses = params.status?.length ? new Set(params.status) : undefined;
+    const jobs = (await manager.getAllJobs())
+      .filter((job) => !statuses || statuses.has(job.status))
+      .filter(
+        (job) =>
+          !params.agentId ||
+          resolveAgentIdFromSessionKey(job.requesterSessionKey) === params.agentId ||
+          resolveAgentIdFromSessionKey(job.targetSessionKey) === params.agentId,
+      )
+      .toSorted((a, b) => b.updatedAt - a.updatedAt);
+    const result: A2AJobsListResult = {
+      jobs: jobs
+        .slice(0, params.limit ?? DEFAULT_LIST_LIMIT)
+        .map((job) => toA2AJob(job, manager.isStale(job))),
+      total: jobs.length,
+    };
+    respond(true, result, undefined);
+  },
+  "a2a.jobs.get": async ({ params, respond }) => {
+    if (!validateA2AJobParams(params)) {
+      respondInvalid(respond, "a2a.jobs.get", formatValidationErrors(validateA2AJobParams.errors));
+      return;
+    }
+    const manager = getA2AJobManager();
+    if (!manager) {
+      respondUnavailable(respond);
+      return;
+    }
+    const job = await manager.readJob(params.jobId);
+    if (!job) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `unknown A2A job: ${params.jobId}`),
+      );
+      return;
+    }
+    respond(true, { job: toA2AJob(job, manager.isStale(job)) }, undefined);
+  },
+  "a2a.jobs.cancel": async ({ params, respond }) => {
+    if (!validateA2AJobCancelParams(params)) {
+      respondInvalid(
+        respond,
+        "a2a.jobs.cancel",
+        formatValidationErrors(validateA2AJobCancelParams.errors),
+      );
+      return;
+    }
+    respondControl(respond, await cancelA2AJob(params.jobId, { reason: params.reason }));
+  },
+  "a2a.jobs.retry": async ({ params, respond }) => {
+    if (!validateA2AJobParams(params)) {
+      respondInvalid(
+        respond,
+        "a2a.jobs.retry",
+        formatValidationErrors(validateA2AJobParams.errors),
+      );
+      return;
+    }
+    respondControl(respond, await retryA2AJob(params.jobId));
+  },
+  "a2a.jobs.resume": async ({ params, respond }) => {
+    if (!validateA2AJobParams(params)) {
+      respondInvalid(
+        respond,
+        "a2a.jobs.resume",
+        formatValidationErrors(validateA2AJobParams.errors),
+      );
+      return;
+    }
+    respondControl(respond, await resumeA2AJob(params.jobId));
+  },
+};
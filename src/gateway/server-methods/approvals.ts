@@ -0,0 +1,111 @@
+import { resolveStateDir } from "../../config/paths.js";
+import { listApprovals, readApprovalAudit } from "../../infra/approval-inbox.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateApprovalsAuditParams,
+  validateApprovalsListParams,
+  validateApprovalsResolveParams,
+} from "../protocol/index.js";
+import type { GatewayApprovalInbox } from "../server-approval-inbox.js";
+import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+
+const DEFAULT_LIST_LIMIT = 100;
+const DEFAULT_AUDIT_LIMIT = 200;
+
+function respondInvalid(respond: RespondFn, method: string, errors: string) {
+  respond(
+    false,
+    undefined,
+    errorShape(ErrorCodes.INVALID_REQUEST, `invalid ${method} params: ${errors}`),
+  );
+}
+
+export function createApprovalInboxHandlers(
+  handle: Pick<GatewayApprovalInbox, "inbox">,
+  opts?: { stateDir?: string },
+): GatewayRequestHandlers {
+  const stateDir = () => opts?.stateDir ?? resolveStateDir(process.env);
+  return {
+    "approvals.list": async ({ params, respond }) => {
+      if (!validateApprovalsListParams(params)) {
+        respondInvalid(
+          respond,
+          "approvals.list",
+          formatValidationErrors(validateApprovalsListParams.errors),
+        );
+        return;
+      }
+      // A disabled inbox still lists what it recorded while it was on.
+      const approvals = await listApprovals(stateDir(), {
+        pendingOnly: params.status !== "all",
+        kind: params.kind,
+        limit: params.limit ?? DEFAULT_LIST_LIMIT,
+      });
+      respond(
+        true,
+        { enabled: handle.inbox !== null, approvals, count: approvals.length },
+        undefined,
+      );
+    },
+    "approvals.audit": async ({ params, respond }) => {
+      if (!validateApprovalsAuditParams(params)) {
+        respondInvalid(
+          respond,
+          "approvals.audit",
+          formatValidationErrors(validateApprovalsAuditParams.errors),
+        );
+        return;
+      }
+      const entries = await readApprovalAudit(stateDir(), {
+        approvalId: params.approvalId,
+        limit: params.limit ?? DEFAULT_AUDIT_LIMIT,
+      });
+      respond(true, { entries }, undefined);
+    },
+    "approvals.resolve": async ({ params, respond, client }) => {
+      if (!validateApprovalsResolveParams(params)) {
+        respondInvalid(
+          respond,
+          "approvals.resolve",
+          formatValidationErrors(validateApprovalsResolveParams.errors),
+        );
+        return;
+      }
+      if (!handle.inbox) {
+        respond(
+          false,
+          undefined,
+          errorShape(
+            ErrorCodes.UNAVAILABLE,
+            "approval inbox is disabled (approvals.inbox.enabled)",
+          ),
+        );
+        return;
+      }
+      // Chat channels name the sender they authenticated; other clients are recorded
+      // under their paired device, never their self-reported display name.
+      const decidedBy =
+        params.decidedBy ??
+        client?.connect?.device?.id ??
+        client?.connect?.client?.id ??
+        "operator";
+      const result = await handle.inbox.decide({
+        id: params.id,
+        decision: params.decision,
+        decidedBy,
+        reason: params.reason?.trim() || undefined,
+      });
+      if (!result.ok) {
+        respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, result.error));
+        return;
+      }
+      respond(
+        true,
+        { approval: result.record, ...(result.message ? { message: result.message } : {}) },
+        undefined,
+      );
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import {
+  queryEventLog,
+  resolveEventLogDir,
+  tailEventLog,
+} from "../../infra/events/event-log-query.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateEventsQueryParams,
+} from "../protocol/index.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+export const eventsHandlers: GatewayRequestHandlers = {
+  "events.query": async ({ params, respond }) => {
+    if (!validateEventsQueryParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid events.query params: ${formatValidationErrors(validateEventsQueryParams.errors)}`,
+        ),
+      );
+      return;
+    }
+
+    const { tail, ...query } = params;
+    try {
+      const logDir = resolveEventLogDir();
+      const page = tail ? await tailEventLog(logDir, query) : await queryEventLog(logDir, query);
+      respond(true, page, undefined);
+    } catch (err) {
+      const message = String(err);
+      respond(
+        false,
+        undefined,
+        errorShape(
+          message.includes("invalid event log cursor")
+            ? ErrorCodes.INVALID_REQUEST
+            : ErrorCodes.UNAVAILABLE,
+          `event log read failed: ${message}`,
+        ),
+      );
+    }
+  },
+};
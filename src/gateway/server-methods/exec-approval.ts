@@ -13,11 +13,15 @@ import {
   validateExecApprovalRequestParams,
   validateExecApprovalResolveParams,
 } from "../protocol/index.js";
+import type { GatewayApprovalInbox } from "../server-approval-inbox.js";
 import type { GatewayRequestHandlers } from "./types.js";
 
 export function createExecApprovalHandlers(
   manager: ExecApprovalManager,
-  opts?: { forwarder?: ExecApprovalForwarder },
+  opts?: {
+    forwarder?: ExecApprovalForwarder;
+    approvalInbox?: Pick<GatewayApprovalInbox, "trackExecApproval">;
+  },
 ): GatewayRequestHandlers {
   const hasApprovalClients = (context: { hasExecApprovalClients?: () => boolean }) => {
     if (typeof context.hasExecApprovalClients === "function") {
@@ -184,6 +188,10 @@ export function createExecApprovalHandlers(
         }
       }
 
+      if (opts?.approvalInbox?.trackExecApproval(record, decisionPromise)) {
+        forwardedToTargets = true;
+      }
+
       if (!hasApprovalClients(context) && !forwardedToTargets) {
         manager.expire(record.id, "auto-expire:no-approver-clients");
       }
@@ -0,0 +1,26 @@
+import { listFollowupQueues } from "../../auto-reply/reply/queue.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  validateQueueListParams,
+} from "../protocol/index.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+export const queueHandlers: GatewayRequestHandlers = {
+  "queue.list": ({ params, respond }) => {
+    if (!validateQueueListParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid queue.list params: ${formatValidationErrors(validateQueueListParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const queues = listFollowupQueues({ key: params.sessionKey });
+    respond(true, { queues, count: queues.length }, undefined);
+  },
+};
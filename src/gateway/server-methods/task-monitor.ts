@@ -0,0 +1,136 @@
+import { loadConfig } from "../../config/config.js";
+import { resolveStateDir } from "../../config/paths.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import type { A2AConversationSummary } from "../../task-monitor/a2a-conversations.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  type TaskMonitorConversation,
+  type TaskMonitorConversationResult,
+  type TaskMonitorConversationsResult,
+  validateTaskMonitorBoardParams,
+  validateTaskMonitorConversationParams,
+  validateTaskMonitorConversationsParams,
+  validateTaskMonitorWorkSessionsParams,
+} from "../protocol/index.js";
+import {
+  listA2AConversations,
+  listWorkSessions,
+  loadTaskBoards,
+  toTaskMonitorEvent,
+  type TaskMonitorSource,
+} from "../server-task-monitor.js";
+import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+
+const DEFAULT_LIST_LIMIT = 100;
+
+function resolveSource(): TaskMonitorSource {
+  return { cfg: loadConfig(), stateDir: resolveStateDir(process.env) };
+}
+
+function respondInvalid(respond: RespondFn, method: string, errors: string) {
+  respond(
+    false,
+    undefined,
+    errorShape(ErrorCodes.INVALID_REQUEST, `invalid ${method} params: ${errors}`),
+  );
+}
+
+function toConversation({ events: _events, ...summary }: A2AConversationSummary) {
+  return summary satisfies TaskMonitorConversation;
+}
+
+/**
+ * Read-only coordination views for the Control UI (Tasks, Work Sessions and
+ * A2A Conversations tabs). Live updates arrive as `task-monitor.event`.
+ */
+export const taskMonitorHandlers: GatewayRequestHandlers = {
+  "tasks.board": async ({ params, respond }) => {
+    if (!validateTaskMonitorBoardParams(params)) {
+      respondInvalid(
+        respond,
+        "tasks.board",
+        formatValidationErrors(validateTaskMonitorBoardParams.errors),
+      );
+      return;
+    }
+    const result = await loadTaskBoards(resolveSource(), {
+      agentId: params.agentId,
+      statuses: params.status?.length ? new Set(params.status) : undefined,
+    });
+    respond(true, result, undefined);
+  },
+  "workSessions.list": async ({ params, respond }) => {
+    if (!validateTaskMonitorWorkSessionsParams(params)) {
+      respondInvalid(
+        respond,
+        "workSessions.list",
+        formatValidationErrors(validateTaskMonitorWorkSessionsParams.errors),
+      );
+      return;
+    }
+    const result = await listWorkSessions(resolveSource(), {
+      since: params.since,
+      statuses: params.status?.length ? new Set(params.status) : undefined,
+      workSessionId: params.workSessionId,
+      limit: params.limit ?? DEFAULT_LIST_LIMIT,
+    });
+    respond(true, result, undefined);
+  },
+  "a2a.conversations.list": async ({ params, respond }) => {
+    if (!validateTaskMonitorConversationsParams(params)) {
+      respondInvalid(
+        respond,
+        "a2a.conversations.list",
+        formatValidationErrors(validateTaskMonitorConversationsParams.errors),
+      );
+      return;
+    }
+    const agentId = params.agentId ? normalizeAgentId(params.agentId) : undefined;
+    const matched = (await listA2AConversations(resolveSource(), params.since)).filter(
+      (conversation) =>
+        (!agentId || conversation.fromAgent === agentId || conversation.toAgent === agentId) &&
+        (!params.workSessionId || conversation.workSessionId === params.workSessionId) &&
+        (!params.status || conversation.status === params.status),
+    );
+    const conversations = matched.slice(0, params.limit ?? DEFAULT_LIST_LIMIT).map(toConversation);
+    const result: TaskMonitorConversationsResult = {
+      conversations,
+      count: conversations.length,
+      totalMatched: matched.length,
+    };
+    respond(true, result, undefined);
+  },
+  "a2a.conversations.get": async ({ params, respond }) => {
+    if (!validateTaskMonitorConversationParams(params)) {
+      respondInvalid(
+        respond,
+        "a2a.conversations.get",
+        formatValidationErrors(validateTaskMonitorConversationParams.errors),
+      );
+      return;
+    }
+    const conversation = (await listA2AConversations(resolveSource(), params.since)).find(
+      (entry) => entry.conversationId === params.conversationId,
+    );
+    if (!conversation) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `unknown A2A conversation: ${params.conversationId}`,
+        ),
+      );
+      return;
+    }
+    const result: TaskMonitorConversationResult = {
+      conversation: {
+        ...toConversation(conversation),
+        events: conversation.events.map(toTaskMonitorEvent),
+      },
+    };
+    respond(true, result, undefined);
+  },
+};
@@ -0,0 +1,38 @@
+import { loadConfig } from "../../config/config.js";
+import { loadTeamStatus } from "../../infra/team-state-tracker.js";
+import {
+  ErrorCodes,
+  errorShape,
+  formatValidationErrors,
+  type TeamStatusResult,
+  validateTeamStatusParams,
+} from "../protocol/index.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+export const teamHandlers: GatewayRequestHandlers = {
+  "team.status": async ({ params, respond }) => {
+    if (!validateTeamStatusParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid team.status params: ${formatValidationErrors(validateTeamStatusParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    try {
+      const ts = Date.now();
+      const { members, lastUpdatedMs } = await loadTeamStatus(loadConfig(), { nowMs: ts });
+      const result: TeamStatusResult = { ts, lastUpdatedMs, members };
+      respond(true, result, undefined);
+    } catch (err) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAVAILABLE, `team state read failed: ${String(err)}`),
+      );
+    }
+  },
+};
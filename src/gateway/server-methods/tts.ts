@@ -5,6 +5,8 @@ import {
   getTtsProvider,
   isTtsEnabled,
   isTtsProviderConfigured,
+  listPluginTtsProviders,
+  listTtsProviderIds,
   resolveTtsAutoMode,
   resolveTtsApiKey,
   resolveTtsConfig,
@@ -39,6 +41,7 @@ export const ttsHandlers: GatewayRequestHandlers = {
         hasOpenAIKey: Boolean(resolveTtsApiKey(config, "openai")),
         hasElevenLabsKey: Boolean(resolveTtsApiKey(config, "elevenlabs")),
         edgeEnabled: isTtsProviderConfigured(config, "edge"),
+        commandConfigured: isTtsProviderConfigured(config, "command"),
       });
     } catch (err) {
       respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
@@ -100,14 +103,12 @@ export const ttsHandlers: GatewayRequestHandlers = {
   },
   "tts.setProvider": async ({ params, respond }) => {
     const provider = typeof params.provider === "string" ? params.provider.trim() : "";
-    if (provider !== "openai" && provider !== "elevenlabs" && provider !== "edge") {
+    const providerIds = listTtsProviderIds();
+    if (!providerIds.includes(provider)) {
       respond(
         false,
         undefined,
-        errorShape(
-          ErrorCodes.INVALID_REQUEST,
-          "Invalid provider. Use openai, elevenlabs, or edge.",
-        ),
+        errorShape(ErrorCodes.INVALID_REQUEST, `Invalid provider. Use ${providerIds.join(", ")}.`),
       );
       return;
     }
@@ -147,6 +148,18 @@ export const ttsHandlers: GatewayRequestHandlers = {
             configured: isTtsProviderConfigured(config, "edge"),
             models: [],
           },
+          {
+            id: "command",
+            name: "Command",
+            configured: isTtsProviderConfigured(config, "command"),
+            models: [],
+          },
+          ...listPluginTtsProviders().map((provider) => ({
+            id: provider.id,
+            name: provider.label ?? provider.id,
+            configured: isTtsProviderConfigured(config, provider.id),
+            models: [],
+          })),
         ],
         active: getTtsProvider(config, prefsPath),
       });
@@ -22,6 +22,8 @@ const createRegistry = (diagnostics: PluginDiagnostic[]): PluginRegistry => ({
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  conversationSinks: [],
+  ttsProviders: [],
   diagnostics,
 });
 
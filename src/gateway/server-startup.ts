@@ -1,4 +1,3 @@
-import path from "node:path";
 import { getAcpSessionManager } from "../acp/control-plane/manager.js";
 import { ACP_SESSION_IDENTITY_RENDERER_VERSION } from "../acp/runtime/session-identifiers.js";
 import { initA2AConcurrencyGate } from "../agents/a2a-concurrency.js";
@@ -11,10 +10,12 @@ import {
   resolveHooksGmailModel,
 } from "../agents/model-selection.js";
 import { resolveAgentSessionDirs } from "../agents/session-dirs.js";
+import { loadSessionToolGates } from "../agents/session-tool-gate.js";
 import { cleanStaleLockFiles } from "../agents/session-write-lock.js";
 import { initA2AJobManager } from "../agents/tools/a2a-job-manager.js";
 import { resumeFlows } from "../agents/tools/a2a-job-orchestrator.js";
 import { A2AJobReaper } from "../agents/tools/a2a-job-reaper.js";
+import { restoreFollowupQueues } from "../auto-reply/reply/queue.js";
 import type { CliDeps } from "../cli/deps.js";
 import { resolveA2AConcurrencyConfig } from "../config/agent-limits.js";
 import type { loadConfig } from "../config/config.js";
@@ -30,15 +31,25 @@ import {
 import { loadInternalHooks } from "../hooks/loader.js";
 import { isTruthyEnvValue } from "../infra/env.js";
 import { startA2AIndex } from "../infra/events/a2a-index.js";
+import { resolveEventLogDir } from "../infra/events/event-log-query.js";
 import { startEventLog } from "../infra/events/event-log.js";
 import { SinkRegistry } from "../infra/events/sink-registry.js";
 import { DiscordConversationSink } from "../infra/events/sinks/discord-conversation-sink.js";
+import { startTaskUsageTracker } from "../infra/task-accounting.js";
 import { startTaskContinuationRunner } from "../infra/task-continuation-runner.js";
 import { scheduleTaskContinuation } from "../infra/task-continuation.js";
 import { startTaskSelfDriving } from "../infra/task-self-driving.js";
+import { startTaskSlaMonitor } from "../infra/task-sla-monitor.js";
 import { startTaskStepContinuation } from "../infra/task-step-continuation.js";
 import { startTaskTracker } from "../infra/task-tracker.js";
+import { startTeamDashboard } from "../infra/team-dashboard.js";
+import { resolveTeamConfig, startTeamStateTracker } from "../infra/team-state-tracker.js";
+import {
+  resolveConversationSinkConfigs,
+  startCoordinationHooks,
+} from "../plugins/coordination-hooks.js";
 import { cleanupStaleTasks } from "../plugins/core-hooks/task-enforcer.js";
+import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import type { loadOpenClawPlugins } from "../plugins/loader.js";
 import { type PluginServicesHandle, startPluginServices } from "../plugins/services.js";
 import { normalizeAgentId } from "../routing/session-key.js";
@@ -107,12 +118,19 @@ export async function startGatewaySidecars(params: {
     params.log.warn(`stale task cleanup failed on startup: ${String(err)}`);
   }
 
+  // Restore plan-approval tool gates so pending plans keep their tools blocked.
+  try {
+    await loadSessionToolGates({ stateDir });
+  } catch (err) {
+    params.log.warn(`session tool gate restore failed on startup: ${String(err)}`);
+  }
+
   // Start A2A conversation index (O(1) conversationId lookup, replaces NDJSON scan).
   try {
     startA2AIndex(stateDir);
 
     // Start coordination event log writer (appends events to coordination-events.ndjson).
-    startEventLog(path.join(stateDir, "logs"));
+    startEventLog(resolveEventLogDir(stateDir));
     initA2AConcurrencyGate(resolveA2AConcurrencyConfig(params.cfg));
 
     // Initialize A2A Job Manager (durable persistence for A2A flows)
@@ -132,15 +150,34 @@ export async function startGatewaySidecars(params: {
     params.log.warn(`a2a subsystem failed to start: ${String(err)}`);
   }
 
-  // Start conversation sinks (replaces old task-hub-sink).
+  // Start conversation sinks (replaces old task-hub-sink). Plugin sinks start
+  // unless gateway.conversationSinks disables them; they cannot replace core sinks.
   const sinkRegistry = new SinkRegistry();
   sinkRegistry.register(new DiscordConversationSink());
+  const pluginSinkIds: string[] = [];
+  for (const entry of params.pluginRegistry.conversationSinks) {
+    if (sinkRegistry.has(entry.sink.id)) {
+      params.log.warn(
+        `plugin ${entry.pluginId} conversation sink "${entry.sink.id}" conflicts with a core sink; skipping`,
+      );
+      continue;
+    }
+    sinkRegistry.register(entry.sink);
+    pluginSinkIds.push(entry.sink.id);
+  }
   try {
-    const sinkConfigs = params.cfg.gateway?.conversationSinks ?? [];
+    const sinkConfigs = resolveConversationSinkConfigs(
+      params.cfg.gateway?.conversationSinks ?? [],
+      pluginSinkIds,
+    );
     sinkRegistry.startAll(sinkConfigs);
   } catch (err) {
     params.log.warn(`conversation sink startup failed: ${String(err)}`);
   }
+
+  // Forward coordination bus events to plugin hooks (task_event, a2a_event, ...).
+  const hookRunner = getGlobalHookRunner();
+  const stopCoordinationHooks = hookRunner ? startCoordinationHooks(hookRunner) : null;
   // Start OpenClaw browser control server (unless disabled via config).
   let browserControl: Awaited<ReturnType<typeof startBrowserControlServerIfEnabled>> = null;
   try {
@@ -240,6 +277,19 @@ export async function startGatewaySidecars(params: {
     );
   }
 
+  // Replay followup queues journaled before the restart, now that replies can be routed.
+  if (params.cfg.messages?.queue?.persist) {
+    void restoreFollowupQueues({ cfg: params.cfg })
+      .then(({ queues, items }) => {
+        if (items > 0) {
+          params.logChannels.info(
+            `replaying ${items} queued message${items === 1 ? "" : "s"} across ${queues} session${queues === 1 ? "" : "s"}`,
+          );
+        }
+      })
+      .catch((err) => params.log.warn(`followup queue replay failed: ${String(err)}`));
+  }
+
   if (params.cfg.hooks?.internal?.enabled) {
     setTimeout(() => {
       const hookEvent = createInternalHookEvent("gateway", "startup", "gateway:startup", {
@@ -296,16 +346,40 @@ export async function startGatewaySidecars(params: {
     });
   }
 
-  // Start task continuation runners (backlog auto-pickup, self-driving, step continuation).
+  // Start task continuation runners (backlog auto-pickup, self-driving, step continuation)
+  // and the due-date/SLA monitor.
   const taskContinuationRunner = startTaskContinuationRunner({ cfg: params.cfg });
+  const taskSlaMonitor = startTaskSlaMonitor({ cfg: params.cfg });
   const taskSelfDriving = startTaskSelfDriving({ cfg: params.cfg });
   const taskStepContinuation = startTaskStepContinuation({ cfg: params.cfg });
+  // Attribute run counts and active time to the tasks the runs worked on.
+  const taskUsageTracker = startTaskUsageTracker({ cfg: params.cfg });
+
+  // Keep team-state.json current from run lifecycle and task events, and mirror it
+  // to the Discord dashboard when a webhook is configured.
+  const teamStateTracker = startTeamStateTracker({ cfg: params.cfg });
+  const teamConfig = resolveTeamConfig(params.cfg);
+  const stopTeamDashboard =
+    teamConfig.enabled && teamConfig.dashboard
+      ? startTeamDashboard({
+          webhookUrl: teamConfig.dashboard.webhookUrl,
+          messageId: teamConfig.dashboard.messageId,
+          intervalMs: teamConfig.dashboard.intervalMs,
+          stateDir: resolveStateDir(process.env),
+          stuckAfterMs: teamConfig.stuckAfterMs,
+        })
+      : null;
 
   return {
     browserControl,
     pluginServices,
     taskContinuationRunner,
+    taskSlaMonitor,
     taskSelfDriving,
     taskStepContinuation,
+    taskUsageTracker,
+    teamStateTracker,
+    stopTeamDashboard,
+    stopCoordinationHooks,
   };
 }
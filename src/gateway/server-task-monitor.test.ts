@@ -0,0 +1,222 @@
+import fs from "node:fs/promises";
+import type { IncomingMessage } from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { writeTask, type TaskFile } from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { emit, reset } from "../infra/events/bus.js";
+import type { PluginRegistry } from "../plugins/registry.js";
+import { isProtectedPluginRoutePath } from "./security-path.js";
+import {
+  listA2AConversations,
+  loadTaskBoards,
+  registerTaskMonitorHttpRoutes,
+  startTaskMonitorEventBroadcast,
+  TASK_MONITOR_EVENT,
+} from "./server-task-monitor.js";
+import { createTestRegistry } from "./server/__tests__/test-utils.js";
+import { makeMockHttpResponse } from "./test-http-response.js";
+
+let rootDir = "";
+let cfg: OpenClawConfig;
+let registry: PluginRegistry;
+
+function makeTask(overrides: Partial<TaskFile> & { id: string }): TaskFile {
+  return {
+    status: "in_progress",
+    priority: "medium",
+    description: `Task ${overrides.id}`,
+    created: "2026-02-01T00:00:00.000Z",
+    lastActivity: "2026-02-01T00:00:00.000Z",
+    workSessionId: "ws_default",
+    progress: [],
+    ...overrides,
+  };
+}
+
+function makeRequest(url: string, method = "GET", body?: unknown): IncomingMessage {
+  const req = Readable.from(body === undefined ? [] : [Buffer.from(JSON.stringify(body))]);
+  return Object.assign(req, { url, method, headers: {} }) as unknown as IncomingMessage;
+}
+
+async function request(url: string, method?: string, body?: unknown) {
+  const pathname = new URL(url, "http://localhost").pathname;
+  const route = registry.httpRoutes.find((entry) => entry.path === pathname);
+  if (!route) {
+    throw new Error(`no route for ${pathname}`);
+  }
+  const { res, end } = makeMockHttpResponse();
+  await route.handler(makeRequest(url, method, body), res);
+  const raw = end.mock.calls[0]?.[0];
+  const isJson = typeof raw === "string" && raw.startsWith("{");
+  return { status: res.statusCode, body: isJson ? JSON.parse(raw) : raw };
+}
+
+describe("task monitor http routes", () => {
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-monitor-"));
+    cfg = {
+      agents: {
+        list: [
+          { id: "main", workspace: path.join(rootDir, "workspace-main") },
+          { id: "dev", workspace: path.join(rootDir, "workspace-dev") },
+        ],
+      },
+    } as OpenClawConfig;
+    registry = createTestRegistry();
+    registerTaskMonitorHttpRoutes({ registry, getConfig: () => cfg, stateDir: rootDir });
+  });
+
+  afterEach(async () => {
+    reset();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("registers every route under the auth-protected prefix", () => {
+    const paths = registry.httpRoutes.map((entry) => entry.path);
+    expect(paths).toContain("/api/task-monitor/agents");
+    expect(paths).toContain("/api/task-monitor/work-sessions");
+    expect(paths.every((entry) => isProtectedPluginRoutePath(entry))).toBe(true);
+  });
+
+  it("lists agents and their tasks", async () => {
+    await writeTask(path.join(rootDir, "workspace-dev"), makeTask({ id: "task_a" }));
+    await writeTask(
+      path.join(rootDir, "workspace-dev"),
+      makeTask({ id: "task_b", status: "blocked" }),
+    );
+
+    const agents = await request("/api/task-monitor/agents");
+    expect(agents.body.count).toBe(2);
+    expect(agents.body.agents[1]).toMatchObject({
+      agentId: "dev",
+      taskCounts: { in_progress: 1, blocked: 1 },
+    });
+
+    const blocked = await request("/api/task-monitor/tasks?agentId=dev&status=blocked");
+    expect(blocked.body.tasks.map((task: TaskFile) => task.id)).toEqual(["task_b"]);
+
+    expect((await request("/api/task-monitor/tasks")).status).toBe(400);
+    expect((await request("/api/task-monitor/tasks?agentId=ghost")).status).toBe(404);
+  });
+
+  it("groups logged events into work sessions", async () => {
+    const now = Date.now();
+    const lines = [
+      { type: "a2a.send", agentId: "main", ts: now - 2000, data: { workSessionId: "ws_1" } },
+      { type: "a2a.response", agentId: "dev", ts: now - 1000, data: { workSessionId: "ws_1" } },
+    ];
+    await fs.mkdir(path.join(rootDir, "logs"));
+    await fs.writeFile(
+      path.join(rootDir, "logs", "coordination-events.ndjson"),
+      `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`,
+    );
+
+    const events = await request("/api/task-monitor/events?type=a2a.response");
+    expect(events.body.events).toHaveLength(1);
+    expect(events.body.events[0].eventRole).toBeDefined();
+
+    const sessions = await request("/api/task-monitor/work-sessions");
+    expect(sessions.body.sessions).toHaveLength(1);
+    expect(sessions.body.sessions[0]).toMatchObject({ workSessionId: "ws_1", eventCount: 2 });
+  });
+
+  it("loads task boards and A2A conversations for the gateway methods", async () => {
+    await writeTask(
+      path.join(rootDir, "workspace-dev"),
+      makeTask({ id: "task_a", status: "blocked", blockedReason: "waiting on review" }),
+    );
+    await writeTask(
+      path.join(rootDir, "workspace-dev"),
+      makeTask({ id: "task_b", status: "completed" }),
+    );
+    const now = Date.now();
+    const lines = [
+      {
+        type: "a2a.send",
+        agentId: "main",
+        ts: now - 2000,
+        data: { conversationId: "conv-1", fromAgent: "main", toAgent: "dev", intent: "review" },
+      },
+      { type: "task.updated", agentId: "dev", ts: now - 1500, data: { taskId: "task_a" } },
+      {
+        type: "a2a.complete",
+        agentId: "main",
+        ts: now - 1000,
+        data: { conversationId: "conv-1", fromAgent: "main", toAgent: "dev", outcome: "completed" },
+      },
+    ];
+    await fs.mkdir(path.join(rootDir, "logs"));
+    await fs.writeFile(
+      path.join(rootDir, "logs", "coordination-events.ndjson"),
+      `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`,
+    );
+    const source = { cfg, stateDir: rootDir };
+
+    const board = await loadTaskBoards(source, { agentId: "dev", statuses: new Set(["blocked"]) });
+    expect(board.count).toBe(1);
+    expect(board.agents[0].tasks).toEqual([
+      expect.objectContaining({ id: "task_a", blockedReason: "waiting on review" }),
+    ]);
+
+    const conversations = await listA2AConversations(source);
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({
+      conversationId: "conv-1",
+      intent: "review",
+      status: "closed",
+      outcome: "completed",
+    });
+    expect(conversations[0].events.map((event) => event.type)).toEqual([
+      "a2a.send",
+      "a2a.complete",
+    ]);
+  });
+
+  it("writes workspace files but refuses paths outside the workspace", async () => {
+    const ok = await request("/api/task-monitor/workspace-file", "POST", {
+      agentId: "dev",
+      path: "notes/plan.md",
+      content: "hello",
+    });
+    expect(ok.body).toMatchObject({ ok: true, path: path.join("notes", "plan.md"), bytes: 5 });
+    expect(
+      await fs.readFile(path.join(rootDir, "workspace-dev", "notes", "plan.md"), "utf-8"),
+    ).toBe("hello");
+
+    const dotted = await request("/api/task-monitor/workspace-file", "POST", {
+      agentId: "dev",
+      path: "..notes.md",
+      content: "ok",
+    });
+    expect(dotted.body).toMatchObject({ ok: true, path: "..notes.md" });
+
+    const escaped = await request("/api/task-monitor/workspace-file", "POST", {
+      agentId: "dev",
+      path: "../workspace-main/AGENTS.md",
+      content: "x",
+    });
+    expect(escaped.status).toBe(403);
+    expect((await request("/api/task-monitor/workspace-file")).status).toBe(405);
+  });
+
+  it("broadcasts bus events to websocket clients", () => {
+    const broadcast = vi.fn();
+    const stop = startTaskMonitorEventBroadcast({
+      broadcast,
+      getConfig: () => ({}) as OpenClawConfig,
+    });
+    emit({ type: "task.started", agentId: "dev", ts: 1, data: { taskId: "task_a" } });
+    stop();
+    emit({ type: "task.completed", agentId: "dev", ts: 2, data: { taskId: "task_a" } });
+
+    expect(broadcast).toHaveBeenCalledTimes(1);
+    expect(broadcast).toHaveBeenCalledWith(
+      TASK_MONITOR_EVENT,
+      expect.objectContaining({ type: "task.started", eventRole: "orchestration.task" }),
+      { dropIfSlow: true },
+    );
+  });
+});
@@ -0,0 +1,579 @@
+import fs from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  isValidTaskStatus,
+  listTasks,
+  readCurrentTaskId,
+  readTask,
+  TASK_HISTORY_DIR,
+} from "../agents/tools/task-file-io.js";
+import { loadConfig, type OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { subscribe, type CoordinationEvent } from "../infra/events/bus.js";
+import {
+  queryEventLog,
+  resolveEventLogDir,
+  tailEventLog,
+  type EventLogQuery,
+} from "../infra/events/event-log-query.js";
+import { EVENT_TYPES } from "../infra/events/schemas.js";
+import { loadTaskGraph } from "../infra/task-dependency-resolver.js";
+import { readTeamState } from "../infra/team-state.js";
+import { registerPluginHttpRoute } from "../plugins/http-registry.js";
+import type { PluginRegistry } from "../plugins/registry.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import {
+  buildA2AConversations,
+  type A2AConversationSummary,
+} from "../task-monitor/a2a-conversations.js";
+import {
+  buildWorkSessionsFromEvents,
+  coordinationEventTimestampMs,
+  enrichCoordinationEvent,
+  eventRoleFromValue,
+  readWorkSessionCategoryOverrides,
+  resolveMainAgentIdsFromConfig,
+  WORK_SESSION_CATEGORY_OVERRIDES_FILENAME,
+  type EnrichedCoordinationEvent,
+  type EventRole,
+} from "../task-monitor/event-classification.js";
+import {
+  readJsonBodyOrError,
+  sendInvalidRequest,
+  sendJson,
+  sendMethodNotAllowed,
+} from "./http-common.js";
+import {
+  validateTaskMonitorWorkspaceFileParams,
+  type TaskMonitorAgent,
+  type TaskMonitorAgentsResult,
+  type TaskMonitorBoardResult,
+  type TaskMonitorEvent,
+  type TaskMonitorEventsResult,
+  type TaskMonitorHistoryResult,
+  type TaskMonitorTaskGraph,
+  type TaskMonitorTaskResult,
+  type TaskMonitorTasksResult,
+  type TaskMonitorTeamState,
+  type TaskMonitorWorkSessionsResult,
+  type TaskMonitorWorkspaceFileResult,
+} from "./protocol/index.js";
+import type { GatewayBroadcastFn } from "./server-broadcast.js";
+
+/** Protected by gateway auth via PROTECTED_PLUGIN_ROUTE_PREFIXES. */
+export const TASK_MONITOR_HTTP_PREFIX = "/api/task-monitor";
+export const TASK_MONITOR_EVENT = "task-monitor.event";
+
+const PLUGIN_ID = "task-monitor";
+const WORK_SESSION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const WORK_SESSION_MAX_EVENTS = 100_000;
+const WORKSPACE_FILE_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_TASK_HUB_URL = "http://localhost:3102";
+
+const A2A_EVENT_TYPES = Object.values(EVENT_TYPES).filter((type) => type.startsWith("a2a."));
+
+type TaskMonitorContext = {
+  getConfig: () => OpenClawConfig;
+  stateDir: string;
+  fetchImpl: typeof fetch;
+};
+
+/** Config and state dir the shared loaders read from. */
+export type TaskMonitorSource = {
+  cfg: OpenClawConfig;
+  stateDir: string;
+};
+
+type RouteHandler = (
+  ctx: TaskMonitorContext,
+  url: URL,
+  req: IncomingMessage,
+  res: ServerResponse,
+) => Promise<void>;
+
+class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+  }
+}
+
+function queryString(url: URL, key: string): string | undefined {
+  return url.searchParams.get(key)?.trim() || undefined;
+}
+
+function queryList(url: URL, key: string): string[] {
+  return url.searchParams
+    .getAll(key)
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function queryInt(url: URL, key: string): number | undefined {
+  const raw = queryString(url, key);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new RequestError(`${key} must be a non-negative number`);
+  }
+  return Math.floor(parsed);
+}
+
+/** Accepts epoch ms or an ISO timestamp. */
+function queryTime(url: URL, key: string): number | undefined {
+  const raw = queryString(url, key);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const parsed = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  if (!Number.isFinite(parsed)) {
+    throw new RequestError(`${key} must be epoch ms or an ISO timestamp`);
+  }
+  return parsed;
+}
+
+function requireAgentId(ctx: TaskMonitorContext, url: URL): string {
+  const raw = queryString(url, "agentId");
+  if (!raw) {
+    throw new RequestError("agentId is required");
+  }
+  const agentId = normalizeAgentId(raw);
+  if (!listAgentIds(ctx.getConfig()).includes(agentId)) {
+    throw new RequestError(`unknown agent: ${raw}`, 404);
+  }
+  return agentId;
+}
+
+function resolveMainAgentIds(ctx: TaskMonitorContext): Set<string> {
+  return resolveMainAgentIdsFromConfig(ctx.getConfig());
+}
+
+export function toTaskMonitorEvent(event: EnrichedCoordinationEvent): TaskMonitorEvent {
+  return {
+    ...event,
+    agentId: typeof event.agentId === "string" ? event.agentId : "",
+    ts: coordinationEventTimestampMs(event),
+  };
+}
+
+function enrichEvents(
+  events: CoordinationEvent[],
+  mainAgentIds: ReadonlySet<string>,
+): EnrichedCoordinationEvent[] {
+  return events
+    .map((event) => enrichCoordinationEvent(event, mainAgentIds))
+    .filter((event) => event !== null);
+}
+
+const handleAgents: RouteHandler = async (ctx, _url, _req, res) => {
+  const cfg = ctx.getConfig();
+  const team = await readTeamState(ctx.stateDir);
+  const agents: TaskMonitorAgent[] = [];
+  for (const agentId of listAgentIds(cfg)) {
+    const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
+    const taskCounts: Record<string, number> = {};
+    for (const task of await listTasks(workspaceDir, "all")) {
+      taskCounts[task.status] = (taskCounts[task.status] ?? 0) + 1;
+    }
+    const entry = team.agents[agentId];
+    agents.push({
+      agentId,
+      role: entry?.role,
+      status: entry?.status,
+      currentTaskId: entry?.currentTaskId ?? (await readCurrentTaskId(workspaceDir)),
+      taskCounts,
+    });
+  }
+  const result: TaskMonitorAgentsResult = { agents, count: agents.length };
+  sendJson(res, 200, result);
+};
+
+const handleTasks: RouteHandler = async (ctx, url, _req, res) => {
+  const agentId = requireAgentId(ctx, url);
+  const status = queryString(url, "status");
+  if (status && !isValidTaskStatus(status)) {
+    throw new RequestError(`invalid status: ${status}`);
+  }
+  const workspaceDir = resolveAgentWorkspaceDir(ctx.getConfig(), agentId);
+  const tasks = await listTasks(workspaceDir, status && isValidTaskStatus(status) ? status : "all");
+  const result: TaskMonitorTasksResult = { agentId, tasks, count: tasks.length };
+  sendJson(res, 200, result);
+};
+
+const handleTask: RouteHandler = async (ctx, url, _req, res) => {
+  const agentId = requireAgentId(ctx, url);
+  const taskId = queryString(url, "taskId");
+  if (!taskId) {
+    throw new RequestError("taskId is required");
+  }
+  const workspaceDir = resolveAgentWorkspaceDir(ctx.getConfig(), agentId);
+  const result: TaskMonitorTaskResult = { agentId, task: await readTask(workspaceDir, taskId) };
+  sendJson(res, 200, result);
+};
+
+const handleHistory: RouteHandler = async (ctx, url, _req, res) => {
+  const agentId = requireAgentId(ctx, url);
+  const limit = queryInt(url, "limit") || 50;
+  const historyDir = path.join(
+    resolveAgentWorkspaceDir(ctx.getConfig(), agentId),
+    TASK_HISTORY_DIR,
+  );
+  const months = (await fs.readdir(historyDir).catch(() => [] as string[]))
+    .filter((name) => /^\d{4}-\d{2}\.md$/.test(name))
+    .map((name) => name.slice(0, -".md".length))
+    .toSorted()
+    .toReversed();
+  const month = queryString(url, "month") ?? months[0];
+  if (month && !/^\d{4}-\d{2}$/.test(month)) {
+    throw new RequestError("month must be YYYY-MM");
+  }
+  const content = month
+    ? await fs.readFile(path.join(historyDir, `${month}.md`), "utf-8").catch(() => "")
+    : "";
+  const result: TaskMonitorHistoryResult = {
+    agentId,
+    history: content
+      .split(/(?=^## \[)/m)
+      .slice(-limit)
+      .join(""),
+    months,
+    currentMonth: month ?? null,
+  };
+  sendJson(res, 200, result);
+};
+
+const handleTeamState: RouteHandler = async (ctx, _url, _req, res) => {
+  const result: TaskMonitorTeamState = await readTeamState(ctx.stateDir);
+  sendJson(res, 200, result);
+};
+
+const handleTaskGraph: RouteHandler = async (ctx, url, _req, res) => {
+  const graph: TaskMonitorTaskGraph = await loadTaskGraph(ctx.getConfig());
+  const agentId = queryString(url, "agentId");
+  if (!agentId) {
+    sendJson(res, 200, graph);
+    return;
+  }
+  const nodes = graph.nodes.filter((node) => node.agentId === agentId);
+  const included = new Set(nodes.map((node) => node.taskId));
+  const result: TaskMonitorTaskGraph = {
+    ...graph,
+    nodes,
+    edges: graph.edges.filter((edge) => included.has(edge.from) || included.has(edge.to)),
+  };
+  sendJson(res, 200, result);
+};
+
+function parseEventLogQuery(url: URL): EventLogQuery {
+  const types = queryList(url, "type");
+  return {
+    since: queryTime(url, "since"),
+    until: queryTime(url, "until"),
+    agentId: queryString(url, "agentId"),
+    types: types.length > 0 ? types : undefined,
+    workSessionId: queryString(url, "workSessionId"),
+    taskId: queryString(url, "taskId"),
+    cursor: queryString(url, "cursor"),
+    limit: queryInt(url, "limit"),
+  };
+}
+
+const handleEvents: RouteHandler = async (ctx, url, _req, res) => {
+  const query = parseEventLogQuery(url);
+  const logDir = resolveEventLogDir(ctx.stateDir);
+  let page;
+  try {
+    page =
+      url.searchParams.get("tail") === "true" && !query.cursor
+        ? await tailEventLog(logDir, query)
+        : await queryEventLog(logDir, query);
+  } catch (err) {
+    throw new RequestError(String(err instanceof Error ? err.message : err));
+  }
+  const mainAgentIds = resolveMainAgentIds(ctx);
+  const result: TaskMonitorEventsResult = {
+    events: enrichEvents(page.events, mainAgentIds).map(toTaskMonitorEvent),
+    cursor: page.cursor,
+    hasMore: page.hasMore,
+  };
+  sendJson(res, 200, result);
+};
+
+async function readRecentEvents(
+  logDir: string,
+  since: number,
+  types?: string[],
+): Promise<CoordinationEvent[]> {
+  const events: CoordinationEvent[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await queryEventLog(logDir, { since, types, cursor, limit: 1000 });
+    events.push(...page.events);
+    if (!page.hasMore || events.length >= WORK_SESSION_MAX_EVENTS) {
+      return events.slice(-WORK_SESSION_MAX_EVENTS);
+    }
+    cursor = page.cursor;
+  }
+}
+
+export type WorkSessionsQuery = {
+  since?: number;
+  roles?: EventRole[];
+  types?: string[];
+  statuses?: ReadonlySet<string>;
+  category?: string;
+  workSessionId?: string;
+  limit: number;
+};
+
+/** Work sessions built from the event log; shared by the HTTP route and `workSessions.list`. */
+export async function listWorkSessions(
+  source: TaskMonitorSource,
+  query: WorkSessionsQuery,
+): Promise<TaskMonitorWorkSessionsResult> {
+  const nowMs = Date.now();
+  const mainAgentIds = resolveMainAgentIdsFromConfig(source.cfg);
+  const events = enrichEvents(
+    await readRecentEvents(
+      resolveEventLogDir(source.stateDir),
+      query.since ?? nowMs - WORK_SESSION_WINDOW_MS,
+    ),
+    mainAgentIds,
+  );
+  const categoryOverrides = await readWorkSessionCategoryOverrides(
+    path.join(source.stateDir, WORK_SESSION_CATEGORY_OVERRIDES_FILENAME),
+  );
+  const matched = buildWorkSessionsFromEvents(events, {
+    nowMs,
+    categoryOverrides,
+    roleFilters: query.roles?.length ? query.roles : undefined,
+    eventTypeFilters: query.types?.length ? query.types : undefined,
+  }).filter(
+    (session) =>
+      (!query.statuses?.size || query.statuses.has(session.status)) &&
+      (!query.category || query.category === "all" || session.collabCategory === query.category) &&
+      (!query.workSessionId || session.workSessionId === query.workSessionId),
+  );
+  const sessions = matched.slice(0, query.limit).map((session) => ({
+    ...session,
+    threads: session.threads.map((thread) => ({
+      ...thread,
+      events: thread.events.map(toTaskMonitorEvent),
+    })),
+  }));
+  return { sessions, count: sessions.length, totalMatched: matched.length };
+}
+
+const handleWorkSessions: RouteHandler = async (ctx, url, _req, res) => {
+  const result = await listWorkSessions(
+    { cfg: ctx.getConfig(), stateDir: ctx.stateDir },
+    {
+      since: queryTime(url, "since"),
+      roles: queryList(url, "role")
+        .map((value) => eventRoleFromValue(value))
+        .filter((value): value is EventRole => value !== null),
+      types: queryList(url, "type"),
+      statuses: new Set(queryList(url, "status")),
+      category: queryString(url, "viewCategory"),
+      workSessionId: queryString(url, "workSessionId"),
+      limit: queryInt(url, "limit") || 100,
+    },
+  );
+  sendJson(res, 200, result);
+};
+
+/**
+ * A2A conversation threads from the event log since `since` (default: the
+ * work-session window), most recently active first.
+ */
+export async function listA2AConversations(
+  source: TaskMonitorSource,
+  since?: number,
+): Promise<A2AConversationSummary[]> {
+  const events = await readRecentEvents(
+    resolveEventLogDir(source.stateDir),
+    since ?? Date.now() - WORK_SESSION_WINDOW_MS,
+    A2A_EVENT_TYPES,
+  );
+  return buildA2AConversations(enrichEvents(events, resolveMainAgentIdsFromConfig(source.cfg)));
+}
+
+/** Per-agent task boards with team-state role, status and current task. */
+export async function loadTaskBoards(
+  source: TaskMonitorSource,
+  filter: { agentId?: string; statuses?: ReadonlySet<string> } = {},
+): Promise<TaskMonitorBoardResult> {
+  const team = await readTeamState(source.stateDir);
+  const agentIds = listAgentIds(source.cfg).filter(
+    (agentId) => !filter.agentId || agentId === normalizeAgentId(filter.agentId),
+  );
+  const agents: TaskMonitorBoardResult["agents"] = [];
+  for (const agentId of agentIds) {
+    const workspaceDir = resolveAgentWorkspaceDir(source.cfg, agentId);
+    const tasks = (await listTasks(workspaceDir, "all")).filter(
+      (task) => !filter.statuses?.size || filter.statuses.has(task.status),
+    );
+    const entry = team.agents[agentId];
+    agents.push({
+      agentId,
+      role: entry?.role,
+      status: entry?.status,
+      currentTaskId: entry?.currentTaskId ?? (await readCurrentTaskId(workspaceDir)),
+      tasks,
+    });
+  }
+  return { agents, count: agents.length };
+}
+
+/** Writes a file inside an agent workspace; paths may not escape the workspace. */
+const handleWorkspaceFile: RouteHandler = async (ctx, _url, req, res) => {
+  if (req.method !== "POST") {
+    sendMethodNotAllowed(res, "POST");
+    return;
+  }
+  const body = await readJsonBodyOrError(req, res, WORKSPACE_FILE_MAX_BYTES);
+  if (body === undefined) {
+    return;
+  }
+  if (!validateTaskMonitorWorkspaceFileParams(body)) {
+    throw new RequestError("agentId, path and content are required");
+  }
+  const cfg = ctx.getConfig();
+  const agentId = normalizeAgentId(body.agentId);
+  if (!listAgentIds(cfg).includes(agentId)) {
+    throw new RequestError(`unknown agent: ${body.agentId}`, 404);
+  }
+  const workspaceDir = path.resolve(resolveAgentWorkspaceDir(cfg, agentId));
+  const targetPath = path.resolve(workspaceDir, body.path.replace(/\\/g, "/").trim());
+  const relativePath = path.relative(workspaceDir, targetPath);
+  if (
+    !relativePath ||
+    relativePath === ".." ||
+    relativePath.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relativePath)
+  ) {
+    throw new RequestError("path must stay inside the agent workspace", 403);
+  }
+  await fs.mkdir(path.dirname(targetPath), { recursive: true });
+  await fs.writeFile(targetPath, body.content, "utf-8");
+  const result: TaskMonitorWorkspaceFileResult = {
+    ok: true,
+    agentId,
+    path: relativePath,
+    bytes: Buffer.byteLength(body.content),
+  };
+  sendJson(res, 200, result);
+};
+
+/** Read-only proxy to Task-Hub milestones (TASK_HUB_URL, default localhost:3102). */
+const handleMilestones: RouteHandler = async (ctx, url, _req, res) => {
+  const baseUrl = (process.env.TASK_HUB_URL?.trim() || DEFAULT_TASK_HUB_URL).replace(/\/+$/, "");
+  const cookie = process.env.TASK_HUB_PROXY_COOKIE?.trim();
+  try {
+    const upstream = await ctx.fetchImpl(`${baseUrl}/api/milestones${url.search}`, {
+      headers: cookie ? { Cookie: cookie } : undefined,
+    });
+    res.statusCode = upstream.status;
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.end(await upstream.text());
+  } catch {
+    sendJson(res, 502, { error: { message: "Task-Hub unreachable", type: "bad_gateway" } });
+  }
+};
+
+const ROUTES: Record<string, RouteHandler> = {
+  health: async (_ctx, _url, _req, res) => sendJson(res, 200, { status: "ok", ts: Date.now() }),
+  agents: handleAgents,
+  tasks: handleTasks,
+  task: handleTask,
+  history: handleHistory,
+  "team-state": handleTeamState,
+  "task-graph": handleTaskGraph,
+  events: handleEvents,
+  "work-sessions": handleWorkSessions,
+  "workspace-file": handleWorkspaceFile,
+  milestones: handleMilestones,
+};
+
+function wrapRoute(ctx: TaskMonitorContext, name: string, handler: RouteHandler) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (name !== "workspace-file" && req.method !== "GET" && req.method !== "HEAD") {
+      sendMethodNotAllowed(res, "GET");
+      return;
+    }
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      await handler(ctx, url, req, res);
+    } catch (err) {
+      if (!(err instanceof RequestError)) {
+        throw err;
+      }
+      if (err.status === 400) {
+        sendInvalidRequest(res, err.message);
+      } else {
+        sendJson(res, err.status, {
+          error: { message: err.message, type: "invalid_request_error" },
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Registers the task monitor API (`/api/task-monitor/<route>`) on the gateway's
+ * plugin HTTP registry. Route parameters are query params because the registry
+ * matches exact paths. Returns a function that removes the routes.
+ */
+export function registerTaskMonitorHttpRoutes(params: {
+  registry: PluginRegistry;
+  getConfig?: () => OpenClawConfig;
+  stateDir?: string;
+  fetchImpl?: typeof fetch;
+  log?: (message: string) => void;
+}): () => void {
+  const ctx: TaskMonitorContext = {
+    getConfig: params.getConfig ?? loadConfig,
+    stateDir: params.stateDir ?? resolveStateDir(process.env),
+    fetchImpl: params.fetchImpl ?? fetch,
+  };
+  const unregister = Object.entries(ROUTES).map(([name, handler]) =>
+    registerPluginHttpRoute({
+      path: `${TASK_MONITOR_HTTP_PREFIX}/${name}`,
+      handler: wrapRoute(ctx, name, handler),
+      pluginId: PLUGIN_ID,
+      source: "core",
+      registry: params.registry,
+      log: params.log,
+    }),
+  );
+  return () => {
+    for (const fn of unregister) {
+      fn();
+    }
+  };
+}
+
+/**
+ * Pushes every coordination event to WS clients as `task-monitor.event`,
+ * enriched with role and collaboration category. Replaces the standalone
+ * server's log file watcher.
+ */
+export function startTaskMonitorEventBroadcast(params: {
+  broadcast: GatewayBroadcastFn;
+  getConfig?: () => OpenClawConfig;
+}): () => void {
+  const getConfig = params.getConfig ?? loadConfig;
+  return subscribe("*", (event) => {
+    const enriched = enrichCoordinationEvent(event, resolveMainAgentIdsFromConfig(getConfig()));
+    if (enriched) {
+      params.broadcast(TASK_MONITOR_EVENT, toTaskMonitorEvent(enriched), { dropIfSlow: true });
+    }
+  });
+}
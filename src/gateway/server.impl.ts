@@ -40,6 +40,9 @@ import {
   setSkillsRemoteRegistry,
 } from "../infra/skills-remote.js";
 import { enqueueSystemEvent } from "../infra/system-events.js";
+import type { TaskUsageTracker } from "../infra/task-accounting.js";
+import type { TaskSlaMonitor } from "../infra/task-sla-monitor.js";
+import type { TeamStateTracker } from "../infra/team-state-tracker.js";
 import { scheduleGatewayUpdateCheck } from "../infra/update-startup.js";
 import { startDiagnosticHeartbeat, stopDiagnosticHeartbeat } from "../logging/diagnostic.js";
 import { createSubsystemLogger, runtimeForLogger } from "../logging/subsystem.js";
@@ -65,6 +68,7 @@ import {
 } from "./events.js";
 import { ExecApprovalManager } from "./exec-approval-manager.js";
 import { NodeRegistry } from "./node-registry.js";
+import { startGatewayApprovalInbox } from "./server-approval-inbox.js";
 import type { startBrowserControlServerIfEnabled } from "./server-browser.js";
 import { createChannelManager } from "./server-channels.js";
 import { createAgentEventHandler } from "./server-chat.js";
@@ -75,6 +79,7 @@ import { applyGatewayLaneConcurrency } from "./server-lanes.js";
 import { startGatewayMaintenanceTimers } from "./server-maintenance.js";
 import { GATEWAY_EVENTS, listGatewayMethods } from "./server-methods-list.js";
 import { coreGatewayHandlers } from "./server-methods.js";
+import { createApprovalInboxHandlers } from "./server-methods/approvals.js";
 import { createExecApprovalHandlers } from "./server-methods/exec-approval.js";
 import { safeParseJson } from "./server-methods/nodes.helpers.js";
 import { createSecretsHandlers } from "./server-methods/secrets.js";
@@ -89,6 +94,10 @@ import { resolveSessionKeyForRun } from "./server-session-key.js";
 import { logGatewayStartup } from "./server-startup-log.js";
 import { startGatewaySidecars } from "./server-startup.js";
 import { startGatewayTailscaleExposure } from "./server-tailscale.js";
+import {
+  registerTaskMonitorHttpRoutes,
+  startTaskMonitorEventBroadcast,
+} from "./server-task-monitor.js";
 import { createWizardSessionTracker } from "./server-wizard-sessions.js";
 import { attachGatewayWsHandlers } from "./server-ws-runtime.js";
 import {
@@ -638,6 +647,21 @@ export async function startGatewayServer(
         broadcast("heartbeat", evt, { dropIfSlow: true });
       });
 
+  // Task monitor API on the plugin HTTP registry + live coordination events over WS.
+  const taskMonitorUnsub = minimalTestGateway
+    ? null
+    : (() => {
+        const unregisterRoutes = registerTaskMonitorHttpRoutes({
+          registry: pluginRegistry,
+          log: (msg) => log.warn(msg),
+        });
+        const unsubscribeEvents = startTaskMonitorEventBroadcast({ broadcast });
+        return () => {
+          unsubscribeEvents();
+          unregisterRoutes();
+        };
+      })();
+
   let heartbeatRunner: HeartbeatRunner = minimalTestGateway
     ? {
         stop: () => {},
@@ -674,8 +698,15 @@ export async function startGatewayServer(
 
   const execApprovalManager = new ExecApprovalManager();
   const execApprovalForwarder = createExecApprovalForwarder();
+  // Unified inbox for task, plan and exec approvals; a no-op unless approvals.inbox.enabled.
+  const approvalInbox = startGatewayApprovalInbox({
+    cfg: cfgAtStart,
+    execApprovalManager,
+    broadcast,
+  });
   const execApprovalHandlers = createExecApprovalHandlers(execApprovalManager, {
     forwarder: execApprovalForwarder,
+    approvalInbox,
   });
   const secretsHandlers = createSecretsHandlers({
     reloadSecrets: async () => {
@@ -711,6 +742,7 @@ export async function startGatewayServer(
     extraHandlers: {
       ...pluginRegistry.gatewayHandlers,
       ...execApprovalHandlers,
+      ...createApprovalInboxHandlers(approvalInbox),
       ...secretsHandlers,
     },
     broadcast,
@@ -797,8 +829,21 @@ export async function startGatewayServer(
       });
 
   let browserControl: Awaited<ReturnType<typeof startBrowserControlServerIfEnabled>> = null;
+  let teamStateTracker: TeamStateTracker | null = null;
+  let stopTeamDashboard: (() => void) | null = null;
+  let stopCoordinationHooks: (() => void) | null = null;
+  let taskSlaMonitor: TaskSlaMonitor | null = null;
+  let taskUsageTracker: TaskUsageTracker | null = null;
   if (!minimalTestGateway) {
-    ({ browserControl, pluginServices } = await startGatewaySidecars({
+    ({
+      browserControl,
+      pluginServices,
+      teamStateTracker,
+      stopTeamDashboard,
+      stopCoordinationHooks,
+      taskSlaMonitor,
+      taskUsageTracker,
+    } = await startGatewaySidecars({
       cfg: cfgAtStart,
       pluginRegistry,
       defaultWorkspaceDir,
@@ -900,6 +945,13 @@ export async function startGatewayServer(
     dedupeCleanup,
     agentUnsub,
     heartbeatUnsub,
+    taskMonitorUnsub,
+    approvalInboxStop: approvalInbox.stop,
+    teamStateTracker,
+    stopTeamDashboard,
+    stopCoordinationHooks,
+    taskSlaMonitor,
+    taskUsageTracker,
     chatRunState,
     clients,
     configReloader,
@@ -150,6 +150,8 @@ const createStubPluginRegistry = (): PluginRegistry => ({
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  conversationSinks: [],
+  ttsProviders: [],
   commands: [],
   diagnostics: [],
 });
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  buildSlackApprovalBlocks,
+  buildTelegramApprovalButtons,
+  createApprovalInboxNotifier,
+  parseSlackApprovalAction,
+  resolveApprovalNoticeTargets,
+} from "./approval-inbox-channels.js";
+import { resolveApprovalInboxConfig, type ApprovalRecord } from "./approval-inbox.js";
+
+const NOW = 1_000_000;
+
+const record: ApprovalRecord = {
+  id: "apr_abc_12ef",
+  kind: "plan",
+  sourceId: "plan_1",
+  requesterAgentId: "dev",
+  summary: "Plan: migrate storage",
+  risk: "high",
+  details: ["Tools requested: exec"],
+  status: "pending",
+  createdAtMs: NOW,
+  expiresAtMs: NOW + 30 * 60_000,
+};
+
+const config = resolveApprovalInboxConfig({
+  approvals: {
+    inbox: {
+      enabled: true,
+      targets: [
+        { channel: "slack", to: "C1" },
+        { channel: "discord", to: "channel:42" },
+        { channel: "telegram", to: "100" },
+      ],
+      escalateTo: [{ channel: "telegram", to: "200" }],
+    },
+  },
+} as OpenClawConfig);
+
+describe("approval inbox channels", () => {
+  it("encodes decisions as /approvals commands on telegram buttons", () => {
+    const [row] = buildTelegramApprovalButtons(record);
+    expect(row.map((button) => button.callback_data)).toEqual([
+      "/approvals approve apr_abc_12ef",
+      "/approvals reject apr_abc_12ef",
+    ]);
+  });
+
+  it("round-trips slack button actions", () => {
+    const blocks = buildSlackApprovalBlocks(record, "prompt");
+    const actions = blocks[1];
+    expect(actions.type).toBe("actions");
+    const elements = (actions as { elements: Array<{ action_id: string; value: string }> })
+      .elements;
+    expect(
+      elements.map((element) => parseSlackApprovalAction(element.action_id, element.value)),
+    ).toEqual([
+      { approvalId: "apr_abc_12ef", decision: "approve" },
+      { approvalId: "apr_abc_12ef", decision: "reject" },
+    ]);
+    expect(parseSlackApprovalAction("openclaw:other:approve", "x")).toBeNull();
+  });
+
+  it("sends escalations to escalateTo and decisions to every target that saw the request", () => {
+    expect(resolveApprovalNoticeTargets(config, record, "escalated")).toEqual([
+      { channel: "telegram", to: "200" },
+    ]);
+    const escalated = { ...record, status: "expired" as const, escalatedAtMs: NOW };
+    expect(resolveApprovalNoticeTargets(config, escalated, "decided").map((t) => t.to)).toEqual([
+      "C1",
+      "channel:42",
+      "100",
+      "200",
+    ]);
+  });
+
+  it("routes prompts to each channel's native buttons", async () => {
+    const deliver = vi.fn(async () => []);
+    const sendSlack = vi.fn(async () => ({}));
+    const sendDiscord = vi.fn(async () => ({}));
+    const notify = createApprovalInboxNotifier({
+      config,
+      getConfig: () => ({}) as OpenClawConfig,
+      nowMs: () => NOW,
+      deps: { deliver, sendSlack, sendDiscord },
+    });
+
+    await notify(record, "requested");
+
+    expect(sendSlack).toHaveBeenCalledWith(
+      "C1",
+      expect.stringContaining("Plan approval required"),
+      expect.objectContaining({ blocks: expect.any(Array) }),
+    );
+    expect(sendDiscord).toHaveBeenCalledWith(
+      "channel:42",
+      expect.stringContaining("Expires in: 30m"),
+      expect.objectContaining({ approvalId: "apr_abc_12ef" }),
+    );
+    expect(deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: "telegram",
+        to: "100",
+        payloads: [
+          expect.objectContaining({
+            channelData: { telegram: { buttons: buildTelegramApprovalButtons(record) } },
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("posts plain-text outcomes once a record is decided", async () => {
+    const deliver = vi.fn(async () => []);
+    const sendSlack = vi.fn(async () => ({}));
+    const notify = createApprovalInboxNotifier({
+      config,
+      getConfig: () => ({}) as OpenClawConfig,
+      deps: { deliver, sendSlack },
+    });
+
+    await notify(
+      { ...record, status: "approved", decision: "approve", decidedBy: "slack:U1" },
+      "decided",
+    );
+
+    expect(sendSlack).not.toHaveBeenCalled();
+    expect(deliver).toHaveBeenCalledTimes(3);
+    expect(deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: "slack",
+        payloads: [
+          {
+            text: "✅ Plan approval approved by slack:U1: Plan: migrate storage (ID: apr_abc_12ef).",
+          },
+        ],
+      }),
+    );
+  });
+});
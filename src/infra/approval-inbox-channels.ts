@@ -0,0 +1,335 @@
+/**
+ * Channel side of the approval inbox: the prompt each target receives, the
+ * per-channel buttons (Discord components, Slack blocks, Telegram inline
+ * keyboard) and the gateway call that turns a button click or `/approvals`
+ * reply into a decision.
+ */
+
+import type { KnownBlock } from "@slack/web-api";
+import type { OpenClawConfig } from "../config/config.js";
+import { loadConfig } from "../config/config.js";
+import type { ExecApprovalForwardTarget } from "../config/types.approvals.js";
+import { callGateway } from "../gateway/call.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import type { TelegramInlineButtons } from "../telegram/button-types.js";
+import {
+  GATEWAY_CLIENT_MODES,
+  GATEWAY_CLIENT_NAMES,
+  isDeliverableMessageChannel,
+  normalizeMessageChannel,
+} from "../utils/message-channel.js";
+import type {
+  ApprovalDecision,
+  ApprovalNoticeAction,
+  ApprovalNotifier,
+  ApprovalRecord,
+  ResolvedApprovalInboxConfig,
+} from "./approval-inbox.js";
+import { deliverOutboundPayloads } from "./outbound/deliver.js";
+
+const log = createSubsystemLogger("approval-inbox");
+
+export const APPROVALS_COMMAND = "/approvals";
+/** Slack action_id prefix; matches the `openclaw:` interaction namespace. */
+export const SLACK_APPROVAL_ACTION_PREFIX = "openclaw:approval:";
+
+const KIND_LABELS: Record<ApprovalRecord["kind"], string> = {
+  task: "Task",
+  plan: "Plan",
+  exec: "Exec",
+};
+
+export function buildApprovalCommandText(decision: ApprovalDecision, approvalId: string): string {
+  return `${APPROVALS_COMMAND} ${decision} ${approvalId}`;
+}
+
+function formatExpiresIn(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 120) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  return minutes < 120 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+}
+
+export function buildApprovalPromptText(
+  record: ApprovalRecord,
+  nowMs: number,
+  opts: { withCommands: boolean },
+): string {
+  const lines = [
+    record.status === "escalated"
+      ? `⏫ ${KIND_LABELS[record.kind]} approval escalated (no decision yet)`
+      : `🗳️ ${KIND_LABELS[record.kind]} approval required`,
+    `ID: ${record.id}`,
+    `Requested by: ${record.requesterAgentId}`,
+    `Risk: ${record.risk}`,
+    record.summary,
+    ...(record.details ?? []),
+    `Expires in: ${formatExpiresIn(record.expiresAtMs - nowMs)}`,
+  ];
+  if (opts.withCommands) {
+    lines.push(
+      `Reply with: ${buildApprovalCommandText("approve", record.id)} or ${buildApprovalCommandText("reject", record.id)} [reason]`,
+    );
+  }
+  return lines.join("\n");
+}
+
+export function buildApprovalDecidedText(record: ApprovalRecord): string {
+  const label = `${KIND_LABELS[record.kind]} approval`;
+  const reason = record.reason ? ` Reason: ${record.reason}` : "";
+  if (record.status === "expired") {
+    return `⏱️ ${label} expired without a decision: ${record.summary} (ID: ${record.id})`;
+  }
+  const verdict = record.status === "approved" ? `✅ ${label} approved` : `❌ ${label} rejected`;
+  const by = record.decidedBy ? ` by ${record.decidedBy}` : "";
+  return `${verdict}${by}: ${record.summary} (ID: ${record.id}).${reason}`;
+}
+
+export function buildTelegramApprovalButtons(record: ApprovalRecord): TelegramInlineButtons {
+  // callback_data is replayed as a message, so the buttons run /approvals.
+  return [
+    [
+      {
+        text: "Approve",
+        callback_data: buildApprovalCommandText("approve", record.id),
+        style: "success",
+      },
+      {
+        text: "Reject",
+        callback_data: buildApprovalCommandText("reject", record.id),
+        style: "danger",
+      },
+    ],
+  ];
+}
+
+export function buildSlackApprovalBlocks(record: ApprovalRecord, text: string): KnownBlock[] {
+  return [
+    { type: "section", text: { type: "mrkdwn", text } },
+    {
+      type: "actions",
+      block_id: `approval_${record.id}`,
+      elements: [
+        {
+          type: "button",
+          action_id: `${SLACK_APPROVAL_ACTION_PREFIX}approve`,
+          text: { type: "plain_text", text: "Approve" },
+          style: "primary",
+          value: record.id,
+        },
+        {
+          type: "button",
+          action_id: `${SLACK_APPROVAL_ACTION_PREFIX}reject`,
+          text: { type: "plain_text", text: "Reject" },
+          style: "danger",
+          value: record.id,
+        },
+      ],
+    },
+  ];
+}
+
+export function parseSlackApprovalAction(
+  actionId: string,
+  value: unknown,
+): { approvalId: string; decision: ApprovalDecision } | null {
+  if (!actionId.startsWith(SLACK_APPROVAL_ACTION_PREFIX)) {
+    return null;
+  }
+  const decision = actionId.slice(SLACK_APPROVAL_ACTION_PREFIX.length);
+  if (decision !== "approve" && decision !== "reject") {
+    return null;
+  }
+  const approvalId = typeof value === "string" ? value.trim() : "";
+  return approvalId ? { approvalId, decision } : null;
+}
+
+/** Submit a chat decision through the gateway so it reaches the inbox that owns the resolvers. */
+export async function submitApprovalDecision(params: {
+  approvalId: string;
+  decision: ApprovalDecision;
+  /** `<channel>:<userId>`, recorded as the decider. */
+  decidedBy: string;
+  reason?: string;
+}): Promise<{ ok: true } | { ok: false; error: string }> {
+  try {
+    await callGateway({
+      method: "approvals.resolve",
+      params: {
+        id: params.approvalId,
+        decision: params.decision,
+        decidedBy: params.decidedBy,
+        ...(params.reason ? { reason: params.reason } : {}),
+      },
+      clientName: GATEWAY_CLIENT_NAMES.GATEWAY_CLIENT,
+      clientDisplayName: params.decidedBy,
+      mode: GATEWAY_CLIENT_MODES.BACKEND,
+    });
+    return { ok: true };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export type ApprovalDeliveryDeps = {
+  deliver?: typeof deliverOutboundPayloads;
+  sendSlack?: (
+    to: string,
+    text: string,
+    opts: { accountId?: string; threadTs?: string; blocks?: KnownBlock[] },
+  ) => Promise<unknown>;
+  sendDiscord?: (
+    to: string,
+    text: string,
+    opts: { accountId?: string; approvalId: string },
+  ) => Promise<unknown>;
+};
+
+async function defaultSendSlack(
+  to: string,
+  text: string,
+  opts: { accountId?: string; threadTs?: string; blocks?: KnownBlock[] },
+) {
+  const { sendMessageSlack } = await import("../slack/send.js");
+  return sendMessageSlack(to, text, opts);
+}
+
+async function defaultSendDiscord(
+  to: string,
+  text: string,
+  opts: { accountId?: string; approvalId: string },
+) {
+  const [{ sendMessageDiscord }, { createApprovalInboxActionRow }] = await Promise.all([
+    import("../discord/send.js"),
+    import("../discord/monitor/approval-inbox.js"),
+  ]);
+  return sendMessageDiscord(to, text, {
+    accountId: opts.accountId,
+    components: [createApprovalInboxActionRow(opts.approvalId)],
+  });
+}
+
+function targetKey(target: ExecApprovalForwardTarget): string {
+  const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+  return [channel, target.to, target.accountId ?? "", target.threadId ?? ""].join(":");
+}
+
+export function resolveApprovalNoticeTargets(
+  config: ResolvedApprovalInboxConfig,
+  record: ApprovalRecord,
+  action: ApprovalNoticeAction,
+): ExecApprovalForwardTarget[] {
+  const escalation = config.escalateTo.length > 0 ? config.escalateTo : config.targets;
+  const candidates =
+    action === "requested"
+      ? config.targets
+      : action === "escalated"
+        ? escalation
+        : record.escalatedAtMs
+          ? [...config.targets, ...escalation]
+          : config.targets;
+  const seen = new Set<string>();
+  return candidates.filter((target) => {
+    const key = targetKey(target);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+async function deliverToTarget(params: {
+  cfg: OpenClawConfig;
+  target: ExecApprovalForwardTarget;
+  record: ApprovalRecord;
+  action: ApprovalNoticeAction;
+  nowMs: number;
+  deps: ApprovalDeliveryDeps;
+}) {
+  const { target, record } = params;
+  const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+  const threadId = target.threadId != null ? String(target.threadId) : undefined;
+  if (params.action === "decided") {
+    if (!isDeliverableMessageChannel(channel)) {
+      return;
+    }
+    await (params.deps.deliver ?? deliverOutboundPayloads)({
+      cfg: params.cfg,
+      channel,
+      to: target.to,
+      accountId: target.accountId,
+      threadId: target.threadId,
+      payloads: [{ text: buildApprovalDecidedText(record) }],
+    });
+    return;
+  }
+  if (channel === "slack") {
+    const text = buildApprovalPromptText(record, params.nowMs, { withCommands: false });
+    await (params.deps.sendSlack ?? defaultSendSlack)(target.to, text, {
+      accountId: target.accountId,
+      threadTs: threadId,
+      blocks: buildSlackApprovalBlocks(record, text),
+    });
+    return;
+  }
+  if (channel === "discord") {
+    const text = buildApprovalPromptText(record, params.nowMs, { withCommands: false });
+    await (params.deps.sendDiscord ?? defaultSendDiscord)(target.to, text, {
+      accountId: target.accountId,
+      approvalId: record.id,
+    });
+    return;
+  }
+  if (!isDeliverableMessageChannel(channel)) {
+    return;
+  }
+  const isTelegram = channel === "telegram";
+  await (params.deps.deliver ?? deliverOutboundPayloads)({
+    cfg: params.cfg,
+    channel,
+    to: target.to,
+    accountId: target.accountId,
+    threadId: target.threadId,
+    payloads: [
+      {
+        text: buildApprovalPromptText(record, params.nowMs, { withCommands: !isTelegram }),
+        ...(isTelegram
+          ? { channelData: { telegram: { buttons: buildTelegramApprovalButtons(record) } } }
+          : {}),
+      },
+    ],
+  });
+}
+
+/** Delivers inbox notices to the configured targets; the Control UI follows approval.* events. */
+export function createApprovalInboxNotifier(params: {
+  config: ResolvedApprovalInboxConfig;
+  getConfig?: () => OpenClawConfig;
+  nowMs?: () => number;
+  deps?: ApprovalDeliveryDeps;
+}): ApprovalNotifier {
+  const getConfig = params.getConfig ?? loadConfig;
+  const nowMs = params.nowMs ?? Date.now;
+  const deps = params.deps ?? {};
+  return async (record, action) => {
+    const targets = resolveApprovalNoticeTargets(params.config, record, action);
+    if (targets.length === 0) {
+      return;
+    }
+    const cfg = getConfig();
+    await Promise.allSettled(
+      targets.map(async (target) => {
+        try {
+          await deliverToTarget({ cfg, target, record, action, nowMs: nowMs(), deps });
+        } catch (err) {
+          log.error(
+            `failed to deliver ${action} notice for ${record.id} to ${target.channel}:${target.to}: ${String(err)}`,
+          );
+        }
+      }),
+    );
+  };
+}
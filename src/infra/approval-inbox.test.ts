@@ -0,0 +1,227 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  createApprovalInbox,
+  formatApprovalList,
+  isApprovalInboxApprover,
+  listApprovals,
+  readApprovalAudit,
+  resolveApprovalInboxConfig,
+  type ApprovalInbox,
+  type ApprovalNoticeAction,
+  type ApprovalRecord,
+} from "./approval-inbox.js";
+import { reset, subscribe } from "./events/bus.js";
+import { EVENT_TYPES } from "./events/schemas.js";
+
+const MINUTE = 60_000;
+
+let stateDir = "";
+let inbox: ApprovalInbox | null = null;
+let now = 1_000_000;
+
+function startInbox(
+  inboxConfig: NonNullable<NonNullable<OpenClawConfig["approvals"]>["inbox"]>,
+  notify?: (record: ApprovalRecord, action: ApprovalNoticeAction) => Promise<void>,
+) {
+  inbox = createApprovalInbox({
+    stateDir,
+    config: resolveApprovalInboxConfig({ approvals: { inbox: inboxConfig } } as OpenClawConfig),
+    notify,
+    nowMs: () => now,
+    sweepIntervalMs: 0,
+  });
+  return inbox;
+}
+
+describe("approval inbox", () => {
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "approval-inbox-"));
+    now = 1_000_000;
+  });
+
+  afterEach(async () => {
+    inbox?.stop();
+    inbox = null;
+    reset();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("resolves config defaults and approver matching", () => {
+    const config = resolveApprovalInboxConfig({
+      approvals: { inbox: { enabled: true, timeout: "15", approvers: [" Slack:U1 "] } },
+    } as OpenClawConfig);
+    expect(config.timeoutMs).toBe(15 * MINUTE);
+    expect(config.kinds).toEqual(["task", "plan", "exec"]);
+    expect(config.onTimeout).toBe("reject");
+    expect(isApprovalInboxApprover(config, { channel: "slack", senderId: "u1" })).toBe(true);
+    expect(isApprovalInboxApprover(config, { channel: "slack", senderId: "U2" })).toBe(false);
+
+    const open = resolveApprovalInboxConfig({} as OpenClawConfig);
+    expect(open.enabled).toBe(false);
+    expect(isApprovalInboxApprover(open, { channel: "telegram", senderId: "42" })).toBe(true);
+    expect(
+      isApprovalInboxApprover(open, { channel: "discord", senderId: "42", requireListed: true }),
+    ).toBe(false);
+  });
+
+  it("dedupes submissions per source and skips kinds that are not collected", async () => {
+    const notify = vi.fn(async () => {});
+    const box = startInbox({ enabled: true, kinds: ["task"] }, notify);
+
+    const first = await box.submit({
+      kind: "task",
+      sourceId: "task_1",
+      requesterAgentId: "dev",
+      summary: "Start task task_1",
+    });
+    const again = await box.submit({
+      kind: "task",
+      sourceId: "task_1",
+      requesterAgentId: "dev",
+      summary: "Start task task_1",
+    });
+    const plan = await box.submit({
+      kind: "plan",
+      sourceId: "plan_1",
+      requesterAgentId: "dev",
+      summary: "Plan",
+    });
+
+    expect(first?.id).toMatch(/^apr_/);
+    expect(again?.id).toBe(first?.id);
+    expect(plan).toBeNull();
+    expect(first?.expiresAtMs).toBe(now + 60 * MINUTE);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(await listApprovals(stateDir, { pendingOnly: true })).toHaveLength(1);
+  });
+
+  it("runs the kind resolver before recording a decision", async () => {
+    const box = startInbox({ enabled: true });
+    const resolver = vi.fn(async () => ({ ok: true }));
+    box.registerResolver("plan", resolver);
+    const events: string[] = [];
+    subscribe("*", (event) => events.push(event.type));
+    const record = await box.submit({
+      kind: "plan",
+      sourceId: "plan_1",
+      requesterAgentId: "dev",
+      summary: "Plan: refactor",
+      risk: "high",
+    });
+
+    const result = await box.decide({
+      id: record!.id,
+      decision: "reject",
+      decidedBy: "slack:U1",
+      reason: "too broad",
+    });
+
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({ id: record!.id }),
+      expect.objectContaining({ decision: "reject", decidedBy: "slack:U1" }),
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      record: { status: "rejected", decidedBy: "slack:U1", reason: "too broad" },
+    });
+    expect(events).toEqual([EVENT_TYPES.APPROVAL_REQUESTED, EVENT_TYPES.APPROVAL_DECIDED]);
+    expect(await box.decide({ id: record!.id, decision: "approve", decidedBy: "x" })).toEqual({
+      ok: false,
+      error: `approval ${record!.id} is already rejected`,
+    });
+  });
+
+  it("keeps the record waiting when the resolver fails", async () => {
+    const box = startInbox({ enabled: true });
+    box.registerResolver("task", async () => ({ ok: false, message: "task tools unavailable" }));
+    const record = await box.submit({
+      kind: "task",
+      sourceId: "task_1",
+      requesterAgentId: "dev",
+      summary: "Start task task_1",
+    });
+
+    const result = await box.decide({ id: record!.id, decision: "approve", decidedBy: "ui" });
+
+    expect(result).toEqual({ ok: false, error: "task tools unavailable" });
+    expect((await box.list({ pendingOnly: true }))[0]?.status).toBe("pending");
+  });
+
+  it("settles records decided outside the inbox", async () => {
+    const box = startInbox({ enabled: true });
+    await box.submit({
+      kind: "exec",
+      sourceId: "exec-1",
+      requesterAgentId: "main",
+      summary: "Run: ls",
+    });
+
+    const settled = await box.settle({
+      kind: "exec",
+      sourceId: "exec-1",
+      decision: "approve",
+      decidedBy: "Control UI",
+    });
+
+    expect(settled).toMatchObject({ status: "approved", decidedBy: "Control UI" });
+    expect(await box.settle({ kind: "exec", sourceId: "exec-1" })).toBeNull();
+  });
+
+  it("escalates once on timeout, then expires and rejects through the resolver", async () => {
+    const notices: ApprovalNoticeAction[] = [];
+    const box = startInbox(
+      { enabled: true, timeout: "10m", onTimeout: "escalate" },
+      async (_record, action) => {
+        notices.push(action);
+      },
+    );
+    const resolver = vi.fn(async () => ({ ok: true }));
+    box.registerResolver("task", resolver);
+    const record = await box.submit({
+      kind: "task",
+      sourceId: "task_1",
+      requesterAgentId: "dev",
+      summary: "Start task task_1",
+    });
+
+    now += 11 * MINUTE;
+    await box.sweep();
+    const [escalated] = await box.list({ pendingOnly: true });
+    expect(escalated).toMatchObject({ status: "escalated", expiresAtMs: now + 10 * MINUTE });
+    expect(resolver).not.toHaveBeenCalled();
+
+    now += 11 * MINUTE;
+    await box.sweep();
+    const [expired] = await box.list();
+    expect(expired).toMatchObject({ id: record!.id, status: "expired", decidedBy: "timeout" });
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({ id: record!.id }),
+      expect.objectContaining({ decision: "reject", decidedBy: "timeout" }),
+    );
+    expect(notices).toEqual(["requested", "escalated", "decided"]);
+
+    const audit = await readApprovalAudit(stateDir, { approvalId: record!.id });
+    expect(audit.map((entry) => entry.action)).toEqual(["expired", "escalated", "requested"]);
+  });
+
+  it("lists only waiting approvals with decision hints", async () => {
+    const box = startInbox({ enabled: true });
+    const record = await box.submit({
+      kind: "exec",
+      sourceId: "exec-1",
+      requesterAgentId: "main",
+      summary: "Run: rm -rf build",
+      risk: "high",
+    });
+
+    const text = formatApprovalList(await box.list({ pendingOnly: true }), now);
+
+    expect(text).toContain(`${record!.id} [exec, high risk] main: Run: rm -rf build (60m left)`);
+    expect(text).toContain("/approvals approve <id>");
+    expect(formatApprovalList([], now)).toBe("✅ Nothing is waiting for approval.");
+  });
+});
@@ -0,0 +1,626 @@
+/**
+ * Approval Inbox
+ *
+ * One queue for everything waiting on a human: tasks parked in
+ * `pending_approval`, plans submitted for review and exec approvals. Each
+ * request becomes an ApprovalRecord in `<stateDir>/approvals/inbox.json` and
+ * every transition (requested, escalated, decided, expired) is appended to
+ * `<stateDir>/approvals/audit.jsonl`.
+ *
+ * Flow:
+ *   1. A source calls submit()                        → status "pending"
+ *   2. A human decides via decide() from any channel  → "approved" / "rejected"
+ *      The resolver registered for the kind applies the decision to the
+ *      underlying task, plan or exec request first.
+ *   3. Nobody decides before expiresAtMs:
+ *      onTimeout "reject"   → resolver rejects, status "expired"
+ *      onTimeout "escalate" → status "escalated" with a fresh expiry, then
+ *                             "expired" if that passes too
+ *   4. The source settles elsewhere (lead agent approves the plan, exec
+ *      approval resolved from the Control UI) → settle() closes the record.
+ */
+
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseDurationMs } from "../cli/parse-duration.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { ApprovalInboxKind, ExecApprovalForwardTarget } from "../config/types.approvals.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { emit } from "./events/bus.js";
+import { EVENT_TYPES } from "./events/schemas.js";
+
+const log = createSubsystemLogger("approval-inbox");
+
+const DEFAULT_TIMEOUT_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+/** Settled records older than this leave inbox.json; the audit log keeps them. */
+const SETTLED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const ALL_KINDS: ApprovalKind[] = ["task", "plan", "exec"];
+
+export type ApprovalKind = ApprovalInboxKind;
+export type ApprovalRisk = "low" | "medium" | "high";
+export type ApprovalStatus = "pending" | "escalated" | "approved" | "rejected" | "expired";
+export type ApprovalDecision = "approve" | "reject";
+
+export type ApprovalRecord = {
+  id: string;
+  kind: ApprovalKind;
+  /** Task id, plan id or exec approval id the record stands for. */
+  sourceId: string;
+  requesterAgentId: string;
+  summary: string;
+  risk: ApprovalRisk;
+  /** Extra lines shown under the summary (priority, plan steps, working directory...). */
+  details?: string[];
+  status: ApprovalStatus;
+  createdAtMs: number;
+  expiresAtMs: number;
+  escalatedAtMs?: number;
+  decision?: ApprovalDecision;
+  decidedBy?: string;
+  decidedAtMs?: number;
+  reason?: string;
+};
+
+export type ApprovalAuditAction = "requested" | "escalated" | "decided" | "expired";
+
+export type ApprovalAuditEntry = {
+  ts: number;
+  approvalId: string;
+  kind: ApprovalKind;
+  sourceId: string;
+  action: ApprovalAuditAction;
+  actor?: string;
+  decision?: ApprovalDecision;
+  reason?: string;
+};
+
+export type ResolvedApprovalInboxConfig = {
+  enabled: boolean;
+  kinds: ApprovalKind[];
+  targets: ExecApprovalForwardTarget[];
+  approvers: string[];
+  timeoutMs: number;
+  onTimeout: "reject" | "escalate";
+  escalateTo: ExecApprovalForwardTarget[];
+};
+
+export type ApprovalRequestInput = {
+  kind: ApprovalKind;
+  sourceId: string;
+  requesterAgentId: string;
+  summary: string;
+  risk?: ApprovalRisk;
+  details?: string[];
+  /** Sources with their own deadline (exec approvals) pass it here; escalation is skipped. */
+  expiresAtMs?: number;
+};
+
+export type ApprovalResolution = { ok: boolean; message?: string };
+
+/** Applies a human decision to the task, plan or exec request behind a record. */
+export type ApprovalResolver = (
+  record: ApprovalRecord,
+  decision: { decision: ApprovalDecision; decidedBy: string; reason?: string },
+) => Promise<ApprovalResolution>;
+
+export type ApprovalNoticeAction = "requested" | "escalated" | "decided";
+
+export type ApprovalNotifier = (
+  record: ApprovalRecord,
+  action: ApprovalNoticeAction,
+) => Promise<void> | void;
+
+export type ApprovalDecideResult =
+  | { ok: true; record: ApprovalRecord; message?: string }
+  | { ok: false; error: string };
+
+export type ApprovalListFilter = {
+  /** Only records still waiting on a human (pending or escalated). */
+  pendingOnly?: boolean;
+  kind?: ApprovalKind;
+  limit?: number;
+};
+
+export type ApprovalInbox = {
+  config: ResolvedApprovalInboxConfig;
+  registerResolver: (kind: ApprovalKind, resolver: ApprovalResolver) => void;
+  /** Returns null when the kind is not collected; re-submitting a waiting source returns its record. */
+  submit: (input: ApprovalRequestInput) => Promise<ApprovalRecord | null>;
+  decide: (params: {
+    id: string;
+    decision: ApprovalDecision;
+    decidedBy: string;
+    reason?: string;
+  }) => Promise<ApprovalDecideResult>;
+  /** Close a waiting record whose source was decided outside the inbox. */
+  settle: (params: {
+    kind: ApprovalKind;
+    sourceId: string;
+    decision?: ApprovalDecision;
+    decidedBy?: string;
+    reason?: string;
+  }) => Promise<ApprovalRecord | null>;
+  list: (filter?: ApprovalListFilter) => Promise<ApprovalRecord[]>;
+  /** Apply timeouts; runs on an interval while the inbox is started. */
+  sweep: () => Promise<void>;
+  stop: () => void;
+};
+
+type ApprovalInboxData = {
+  version: number;
+  approvals: ApprovalRecord[];
+};
+
+export function resolveApprovalInboxConfig(cfg: OpenClawConfig): ResolvedApprovalInboxConfig {
+  const raw = cfg.approvals?.inbox;
+  let timeoutMs = DEFAULT_TIMEOUT_MS;
+  if (raw?.timeout?.trim()) {
+    try {
+      timeoutMs = parseDurationMs(raw.timeout.trim(), { defaultUnit: "m" });
+    } catch {
+      log.warn(`invalid approvals.inbox.timeout "${raw.timeout}"; using 1h`);
+    }
+  }
+  const kinds = raw?.kinds?.filter((kind) => ALL_KINDS.includes(kind));
+  return {
+    enabled: raw?.enabled === true,
+    kinds: kinds?.length ? kinds : [...ALL_KINDS],
+    targets: raw?.targets ?? [],
+    approvers: (raw?.approvers ?? []).map((entry) => entry.trim().toLowerCase()).filter(Boolean),
+    timeoutMs,
+    onTimeout: raw?.onTimeout === "escalate" ? "escalate" : "reject",
+    escalateTo: raw?.escalateTo ?? [],
+  };
+}
+
+/**
+ * Whether a chat user may decide inbox requests. An empty approver list defers
+ * to the channel's own sender authorization unless `requireListed` is set.
+ */
+export function isApprovalInboxApprover(
+  config: ResolvedApprovalInboxConfig,
+  params: { channel: string; senderId: string; requireListed?: boolean },
+): boolean {
+  if (config.approvers.length === 0) {
+    return !params.requireListed;
+  }
+  const key = `${params.channel}:${params.senderId}`.trim().toLowerCase();
+  return config.approvers.includes(key);
+}
+
+export function isApprovalWaiting(record: ApprovalRecord): boolean {
+  return record.status === "pending" || record.status === "escalated";
+}
+
+function resolveApprovalsDir(stateDir: string): string {
+  return path.join(stateDir, "approvals");
+}
+
+function resolveInboxPath(stateDir: string): string {
+  return path.join(resolveApprovalsDir(stateDir), "inbox.json");
+}
+
+function resolveAuditPath(stateDir: string): string {
+  return path.join(resolveApprovalsDir(stateDir), "audit.jsonl");
+}
+
+export async function readApprovalInbox(stateDir: string): Promise<ApprovalRecord[]> {
+  try {
+    const raw = await fs.readFile(resolveInboxPath(stateDir), "utf-8");
+    const data = JSON.parse(raw) as Partial<ApprovalInboxData>;
+    return Array.isArray(data.approvals) ? data.approvals : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeApprovalInbox(stateDir: string, approvals: ApprovalRecord[]): Promise<void> {
+  await fs.mkdir(resolveApprovalsDir(stateDir), { recursive: true });
+  const filePath = resolveInboxPath(stateDir);
+  const data: ApprovalInboxData = { version: 1, approvals };
+  const tempPath = `${filePath}.tmp.${process.pid}.${Date.now()}`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+  await fs.rename(tempPath, filePath);
+}
+
+/** Waiting records first (oldest first, they expire soonest), then settled ones newest first. */
+export function filterApprovals(
+  approvals: ApprovalRecord[],
+  filter: ApprovalListFilter = {},
+): ApprovalRecord[] {
+  const matched = approvals.filter(
+    (record) =>
+      (!filter.pendingOnly || isApprovalWaiting(record)) &&
+      (!filter.kind || record.kind === filter.kind),
+  );
+  const waiting = matched
+    .filter(isApprovalWaiting)
+    .toSorted((a, b) => a.createdAtMs - b.createdAtMs);
+  const settled = matched
+    .filter((record) => !isApprovalWaiting(record))
+    .toSorted((a, b) => (b.decidedAtMs ?? b.createdAtMs) - (a.decidedAtMs ?? a.createdAtMs));
+  const sorted = [...waiting, ...settled];
+  return filter.limit ? sorted.slice(0, filter.limit) : sorted;
+}
+
+export async function listApprovals(
+  stateDir: string,
+  filter?: ApprovalListFilter,
+): Promise<ApprovalRecord[]> {
+  return filterApprovals(await readApprovalInbox(stateDir), filter);
+}
+
+async function appendApprovalAudit(stateDir: string, entry: ApprovalAuditEntry): Promise<void> {
+  try {
+    await fs.mkdir(resolveApprovalsDir(stateDir), { recursive: true });
+    await fs.appendFile(resolveAuditPath(stateDir), `${JSON.stringify(entry)}\n`, "utf-8");
+  } catch (err) {
+    log.warn(`failed to append audit entry for ${entry.approvalId}: ${String(err)}`);
+  }
+}
+
+/** Newest entries first. */
+export async function readApprovalAudit(
+  stateDir: string,
+  opts: { approvalId?: string; limit?: number } = {},
+): Promise<ApprovalAuditEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolveAuditPath(stateDir), "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: ApprovalAuditEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as ApprovalAuditEntry;
+      if (!opts.approvalId || entry.approvalId === opts.approvalId) {
+        entries.push(entry);
+      }
+    } catch {
+      // skip malformed
+    }
+  }
+  entries.reverse();
+  return opts.limit ? entries.slice(0, opts.limit) : entries;
+}
+
+function createApprovalId(nowMs: number): string {
+  return `apr_${nowMs.toString(36)}_${randomBytes(2).toString("hex")}`;
+}
+
+function formatRemaining(ms: number): string {
+  if (ms <= 0) {
+    return "due now";
+  }
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) {
+    return `${Math.round(ms / 1000)}s left`;
+  }
+  if (minutes < 120) {
+    return `${minutes}m left`;
+  }
+  return `${Math.round(minutes / 60)}h left`;
+}
+
+export function formatApprovalLine(record: ApprovalRecord, nowMs: number): string {
+  const escalated = record.status === "escalated" ? " · escalated" : "";
+  return `• ${record.id} [${record.kind}, ${record.risk} risk${escalated}] ${record.requesterAgentId}: ${record.summary} (${formatRemaining(record.expiresAtMs - nowMs)})`;
+}
+
+export function formatApprovalList(records: ApprovalRecord[], nowMs: number): string {
+  const waiting = records.filter(isApprovalWaiting);
+  if (waiting.length === 0) {
+    return "✅ Nothing is waiting for approval.";
+  }
+  return [
+    `🗳️ ${waiting.length} waiting for approval:`,
+    ...waiting.map((record) => formatApprovalLine(record, nowMs)),
+    "",
+    "Decide with /approvals approve <id> or /approvals reject <id> [reason].",
+  ].join("\n");
+}
+
+export function createApprovalInbox(opts: {
+  stateDir: string;
+  config: ResolvedApprovalInboxConfig;
+  notify?: ApprovalNotifier;
+  nowMs?: () => number;
+  /** 0 disables the background sweep (tests call sweep() directly). */
+  sweepIntervalMs?: number;
+}): ApprovalInbox {
+  const { stateDir, config } = opts;
+  const nowMs = opts.nowMs ?? Date.now;
+  const resolvers = new Map<ApprovalKind, ApprovalResolver>();
+  // Records whose resolver is running; settle() leaves them to decide().
+  const inFlight = new Set<string>();
+  let chain: Promise<unknown> = Promise.resolve();
+
+  // Serialize read-modify-write cycles; the gateway is the only writer.
+  const mutate = <T>(fn: (approvals: ApprovalRecord[]) => T): Promise<T> => {
+    const next = chain.then(async () => {
+      const approvals = await readApprovalInbox(stateDir);
+      const result = fn(approvals);
+      const cutoff = nowMs() - SETTLED_RETENTION_MS;
+      await writeApprovalInbox(
+        stateDir,
+        approvals.filter(
+          (record) => isApprovalWaiting(record) || (record.decidedAtMs ?? nowMs()) >= cutoff,
+        ),
+      );
+      return result;
+    });
+    chain = next.catch(() => undefined);
+    return next;
+  };
+
+  const notify = async (record: ApprovalRecord, action: ApprovalNoticeAction) => {
+    emit({
+      type:
+        action === "requested"
+          ? EVENT_TYPES.APPROVAL_REQUESTED
+          : action === "escalated"
+            ? EVENT_TYPES.APPROVAL_ESCALATED
+            : EVENT_TYPES.APPROVAL_DECIDED,
+      agentId: record.requesterAgentId,
+      ts: nowMs(),
+      data: {
+        approvalId: record.id,
+        kind: record.kind,
+        sourceId: record.sourceId,
+        status: record.status,
+        risk: record.risk,
+        decision: record.decision,
+        decidedBy: record.decidedBy,
+      },
+    });
+    if (!opts.notify) {
+      return;
+    }
+    try {
+      await opts.notify(record, action);
+    } catch (err) {
+      log.warn(`failed to deliver ${action} notice for ${record.id}: ${String(err)}`);
+    }
+  };
+
+  const close = async (
+    id: string,
+    update: Pick<ApprovalRecord, "status" | "decision" | "decidedBy" | "reason">,
+  ): Promise<ApprovalRecord | null> => {
+    const decidedAtMs = nowMs();
+    const record = await mutate((approvals) => {
+      const found = approvals.find((entry) => entry.id === id);
+      if (!found || !isApprovalWaiting(found)) {
+        return null;
+      }
+      Object.assign(found, update, { decidedAtMs });
+      return { ...found };
+    });
+    if (!record) {
+      return null;
+    }
+    await appendApprovalAudit(stateDir, {
+      ts: decidedAtMs,
+      approvalId: record.id,
+      kind: record.kind,
+      sourceId: record.sourceId,
+      action: record.status === "expired" ? "expired" : "decided",
+      actor: record.decidedBy,
+      decision: record.decision,
+      reason: record.reason,
+    });
+    await notify(record, "decided");
+    return record;
+  };
+
+  const submit: ApprovalInbox["submit"] = async (input) => {
+    if (!config.kinds.includes(input.kind)) {
+      return null;
+    }
+    const createdAtMs = nowMs();
+    const outcome = await mutate((approvals) => {
+      const existing = approvals.find(
+        (entry) =>
+          entry.kind === input.kind &&
+          entry.sourceId === input.sourceId &&
+          isApprovalWaiting(entry),
+      );
+      if (existing) {
+        return { record: { ...existing }, created: false };
+      }
+      const record: ApprovalRecord = {
+        id: createApprovalId(createdAtMs),
+        kind: input.kind,
+        sourceId: input.sourceId,
+        requesterAgentId: input.requesterAgentId,
+        summary: input.summary,
+        risk: input.risk ?? "medium",
+        details: input.details?.length ? input.details : undefined,
+        status: "pending",
+        createdAtMs,
+        expiresAtMs: input.expiresAtMs ?? createdAtMs + config.timeoutMs,
+      };
+      approvals.push(record);
+      return { record: { ...record }, created: true };
+    });
+    if (outcome.created) {
+      await appendApprovalAudit(stateDir, {
+        ts: createdAtMs,
+        approvalId: outcome.record.id,
+        kind: outcome.record.kind,
+        sourceId: outcome.record.sourceId,
+        action: "requested",
+        actor: outcome.record.requesterAgentId,
+      });
+      await notify(outcome.record, "requested");
+    }
+    return outcome.record;
+  };
+
+  const decide: ApprovalInbox["decide"] = async (params) => {
+    if (inFlight.has(params.id)) {
+      return { ok: false, error: `approval ${params.id} is already being decided` };
+    }
+    const record = (await readApprovalInbox(stateDir)).find((entry) => entry.id === params.id);
+    if (!record) {
+      return { ok: false, error: `unknown approval id: ${params.id}` };
+    }
+    if (!isApprovalWaiting(record)) {
+      return { ok: false, error: `approval ${params.id} is already ${record.status}` };
+    }
+    const resolver = resolvers.get(record.kind);
+    if (!resolver) {
+      return { ok: false, error: `no resolver registered for ${record.kind} approvals` };
+    }
+    inFlight.add(record.id);
+    try {
+      let resolution: ApprovalResolution;
+      try {
+        resolution = await resolver(record, params);
+      } catch (err) {
+        resolution = { ok: false, message: err instanceof Error ? err.message : String(err) };
+      }
+      if (!resolution.ok) {
+        return { ok: false, error: resolution.message ?? `failed to ${params.decision}` };
+      }
+      const closed = await close(record.id, {
+        status: params.decision === "approve" ? "approved" : "rejected",
+        decision: params.decision,
+        decidedBy: params.decidedBy,
+        reason: params.reason,
+      });
+      if (!closed) {
+        return { ok: false, error: `approval ${params.id} was settled concurrently` };
+      }
+      return { ok: true, record: closed, message: resolution.message };
+    } finally {
+      inFlight.delete(record.id);
+    }
+  };
+
+  const settle: ApprovalInbox["settle"] = async (params) => {
+    const record = (await readApprovalInbox(stateDir)).find(
+      (entry) =>
+        entry.kind === params.kind &&
+        entry.sourceId === params.sourceId &&
+        isApprovalWaiting(entry),
+    );
+    if (!record || inFlight.has(record.id)) {
+      return null;
+    }
+    return close(record.id, {
+      status: !params.decision
+        ? "expired"
+        : params.decision === "approve"
+          ? "approved"
+          : "rejected",
+      decision: params.decision,
+      decidedBy: params.decidedBy,
+      reason: params.reason,
+    });
+  };
+
+  const escalate = async (id: string) => {
+    const escalatedAtMs = nowMs();
+    const record = await mutate((approvals) => {
+      const found = approvals.find((entry) => entry.id === id);
+      if (!found || found.status !== "pending") {
+        return null;
+      }
+      found.status = "escalated";
+      found.escalatedAtMs = escalatedAtMs;
+      found.expiresAtMs = escalatedAtMs + config.timeoutMs;
+      return { ...found };
+    });
+    if (!record) {
+      return;
+    }
+    await appendApprovalAudit(stateDir, {
+      ts: escalatedAtMs,
+      approvalId: record.id,
+      kind: record.kind,
+      sourceId: record.sourceId,
+      action: "escalated",
+      actor: "timeout",
+    });
+    await notify(record, "escalated");
+  };
+
+  const expire = async (record: ApprovalRecord) => {
+    const resolver = resolvers.get(record.kind);
+    inFlight.add(record.id);
+    try {
+      // Exec approvals expire inside the exec approval manager on the same deadline.
+      if (resolver && record.kind !== "exec") {
+        const resolution = await resolver(record, {
+          decision: "reject",
+          decidedBy: "timeout",
+          reason: "no decision before the approval timed out",
+        }).catch((err: unknown) => ({ ok: false, message: String(err) }));
+        if (!resolution.ok) {
+          log.warn(`timeout rejection of ${record.id} failed: ${resolution.message ?? "unknown"}`);
+        }
+      }
+    } finally {
+      inFlight.delete(record.id);
+    }
+    await close(record.id, {
+      status: "expired",
+      decision: "reject",
+      decidedBy: "timeout",
+      reason: "no decision before the approval timed out",
+    });
+  };
+
+  const sweep: ApprovalInbox["sweep"] = async () => {
+    const now = nowMs();
+    const due = (await readApprovalInbox(stateDir)).filter(
+      (record) =>
+        isApprovalWaiting(record) && record.expiresAtMs <= now && !inFlight.has(record.id),
+    );
+    for (const record of due) {
+      // Exec requests time out on their own deadline; the requester stops waiting there.
+      if (
+        record.status === "pending" &&
+        record.kind !== "exec" &&
+        config.onTimeout === "escalate"
+      ) {
+        await escalate(record.id);
+      } else {
+        await expire(record);
+      }
+    }
+  };
+
+  const intervalMs = opts.sweepIntervalMs ?? SWEEP_INTERVAL_MS;
+  const timer =
+    intervalMs > 0
+      ? setInterval(() => {
+          void sweep().catch((err) => log.warn(`sweep failed: ${String(err)}`));
+        }, intervalMs)
+      : null;
+  timer?.unref?.();
+
+  return {
+    config,
+    registerResolver: (kind, resolver) => {
+      resolvers.set(kind, resolver);
+    },
+    submit,
+    decide,
+    settle,
+    list: async (filter) => listApprovals(stateDir, filter),
+    sweep,
+    stop: () => {
+      if (timer) {
+        clearInterval(timer);
+      }
+    },
+  };
+}
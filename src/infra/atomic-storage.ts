@@ -1,17 +1,23 @@
 import fs from "node:fs/promises";
-import { acquireTaskLock, type TaskLock } from "./task-lock.js";
+import path from "node:path";
+import { acquireFileLock, type TaskLock } from "./task-lock.js";
 
+/**
+ * Read-modify-write of a JSON file under a `<lockDir>/<lockId>.lock` lock file.
+ * The lock is independent of the task store backend; `lockDir` must exist.
+ */
 export async function atomicReadModifyWrite<T>(
   filePath: string,
   lockDir: string,
   lockId: string,
   defaultValue: T,
   modify: (current: T) => T,
+  opts: { maxRetries?: number } = {},
 ): Promise<T> {
   let lock: TaskLock | null = null;
-  const maxRetries = 3;
+  const maxRetries = opts.maxRetries ?? 3;
   for (let attempt = 0; attempt < maxRetries; attempt++) {
-    lock = await acquireTaskLock(lockDir, lockId);
+    lock = await acquireFileLock(path.join(lockDir, `${lockId}.lock`));
     if (lock) {
       break;
     }
@@ -2,7 +2,7 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { emit, reset } from "./bus.js";
+import { openStateNamespace } from "../state-store.js";
 import {
   startA2AIndex,
   stopA2AIndex,
@@ -10,9 +10,18 @@ import {
   getA2AConversationId,
   getA2AIndex,
 } from "./a2a-index.js";
+import { emit, reset } from "./bus.js";
 
 let tmpDir: string;
 
+/** Reads the persisted index straight from the state store (works after stop). */
+async function readStoredIndex(dir: string) {
+  const ns = openStateNamespace<{ conversationId: string }>("a2a.conversation-index", {
+    stateDir: dir,
+  });
+  return Object.fromEntries((await ns.entries()).map((entry) => [entry.key, entry.value]));
+}
+
 beforeEach(() => {
   reset();
   tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "a2a-index-test-"));
@@ -38,7 +47,7 @@ function emitA2A(
   };
   emit({
     type,
-    agentId: String(overrides.fromAgent ?? base.fromAgent),
+    agentId: typeof overrides.fromAgent === "string" ? overrides.fromAgent : base.fromAgent,
     ts: typeof overrides.ts === "number" ? overrides.ts : Date.now(),
     data: { ...base, ...overrides },
   });
@@ -164,7 +173,7 @@ describe("A2AIndexWriter", () => {
     startA2AIndex(tmpDir);
     await flushA2AIndex();
 
-    const indexPath = path.join(tmpDir, "a2a-conversation-index.json");
+    const indexPath = path.join(tmpDir, "state", "a2a.conversation-index.json");
     expect(fs.existsSync(indexPath)).toBe(false);
   });
 
@@ -173,12 +182,12 @@ describe("A2AIndexWriter", () => {
     emitA2A("a2a.send");
     await flushA2AIndex();
 
-    const indexPath = path.join(tmpDir, "a2a-conversation-index.json");
+    const indexPath = path.join(tmpDir, "state", "a2a.conversation-index.json");
     const raw = fs.readFileSync(indexPath, "utf-8");
     const parsed = JSON.parse(raw);
     expect(parsed.version).toBe(1);
-    expect(parsed).toHaveProperty("entries");
-    expect(parsed).toHaveProperty("updatedAt");
+    expect(parsed.namespace).toBe("a2a.conversation-index");
+    expect(parsed.entries["ws-1::eden|ruda"].value.conversationId).toBe("conv-abc");
   });
 
   it("atomic write: no .tmp file left after flush", async () => {
@@ -186,10 +195,34 @@ describe("A2AIndexWriter", () => {
     emitA2A("a2a.send");
     await flushA2AIndex();
 
-    const files = fs.readdirSync(tmpDir);
+    const files = fs.readdirSync(path.join(tmpDir, "state"));
     const tmpFiles = files.filter((f) => f.endsWith(".tmp"));
     expect(tmpFiles).toHaveLength(0);
   });
+
+  it("imports a legacy a2a-conversation-index.json on start", async () => {
+    const legacyPath = path.join(tmpDir, "a2a-conversation-index.json");
+    fs.writeFileSync(
+      legacyPath,
+      JSON.stringify({
+        version: 1,
+        entries: {
+          "ws-1::eden|ruda": {
+            conversationId: "conv-legacy",
+            timestamp: Date.now(),
+            lastEventType: "a2a.send",
+          },
+        },
+        updatedAt: Date.now(),
+      }),
+    );
+
+    startA2AIndex(tmpDir);
+    await flushA2AIndex();
+
+    expect(await getA2AConversationId("ws-1::eden|ruda")).toBe("conv-legacy");
+    expect(fs.existsSync(legacyPath)).toBe(false);
+  });
 });
 
 describe("A2AIndexReader", () => {
@@ -270,18 +303,10 @@ describe("lifecycle", () => {
       await stopA2AIndex();
 
       // Verify both dirs have their own index
-      const raw1 = fs.readFileSync(
-        path.join(tmpDir, "a2a-conversation-index.json"),
-        "utf-8",
-      );
-      const raw2 = fs.readFileSync(
-        path.join(tmpDir2, "a2a-conversation-index.json"),
-        "utf-8",
-      );
-      const index1 = JSON.parse(raw1);
-      const index2 = JSON.parse(raw2);
-      expect(index1.entries["ws-1::eden|ruda"].conversationId).toBe("conv-dir1");
-      expect(index2.entries["ws-1::eden|ruda"].conversationId).toBe("conv-dir2");
+      const index1 = await readStoredIndex(tmpDir);
+      const index2 = await readStoredIndex(tmpDir2);
+      expect(index1["ws-1::eden|ruda"].conversationId).toBe("conv-dir1");
+      expect(index2["ws-1::eden|ruda"].conversationId).toBe("conv-dir2");
     } finally {
       fs.rmSync(tmpDir2, { recursive: true, force: true });
     }
@@ -307,12 +332,8 @@ describe("lifecycle", () => {
     });
 
     // Re-read index from disk
-    const raw = fs.readFileSync(
-      path.join(tmpDir, "a2a-conversation-index.json"),
-      "utf-8",
-    );
-    const index = JSON.parse(raw);
-    expect(Object.keys(index.entries)).toHaveLength(1);
-    expect(index.entries["ws-1::eden|ruda"].conversationId).toBe("conv-before");
+    const index = await readStoredIndex(tmpDir);
+    expect(Object.keys(index)).toHaveLength(1);
+    expect(index["ws-1::eden|ruda"].conversationId).toBe("conv-before");
   });
 });
@@ -1,6 +1,5 @@
-import fs from "node:fs";
-import fsp from "node:fs/promises";
 import path from "node:path";
+import { importLegacyStateFile, openStateNamespace, type StateNamespace } from "../state-store.js";
 import { subscribe } from "./bus.js";
 import type { CoordinationEvent } from "./bus.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
@@ -33,11 +32,14 @@ export interface A2AConversationIndex {
 
 const A2A_EVENT_TYPES = new Set(["a2a.send", "a2a.response", "a2a.complete"]);
 const CONVERSATION_MAIN_ROLE = "conversation.main";
-const INDEX_FILENAME = "a2a-conversation-index.json";
+const LEGACY_INDEX_FILENAME = "a2a-conversation-index.json";
+const STATE_NAMESPACE = "a2a.conversation-index";
+/** Route keys embed the work session; a month-old session is not resumed. */
+const ENTRY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
 // --- Module state ---
 
-let indexFilePath: string | null = null;
+let index: StateNamespace<A2AConversationEntry> | null = null;
 let writeQueue: Promise<void> = Promise.resolve();
 let unsubscribes: Array<() => void> = [];
 
@@ -66,27 +68,6 @@ function buildRouteKeyFromEvent(data: Record<string, unknown>): string | undefin
   return `${workSessionId}::${pair}`;
 }
 
-// --- Index I/O ---
-
-async function readIndexFile(): Promise<A2AConversationIndex> {
-  if (!indexFilePath) {
-    return { version: 1, entries: {}, updatedAt: 0 };
-  }
-  try {
-    const raw = await fsp.readFile(indexFilePath, "utf-8");
-    return JSON.parse(raw) as A2AConversationIndex;
-  } catch {
-    return { version: 1, entries: {}, updatedAt: 0 };
-  }
-}
-
-async function writeIndexFile(index: A2AConversationIndex): Promise<void> {
-  if (!indexFilePath) return;
-  const tmp = indexFilePath + ".tmp";
-  await fsp.writeFile(tmp, JSON.stringify(index, null, 2), "utf-8");
-  await fsp.rename(tmp, indexFilePath);
-}
-
 // --- Writer logic ---
 
 async function updateIndex(event: CoordinationEvent): Promise<void> {
@@ -102,25 +83,23 @@ async function updateIndex(event: CoordinationEvent): Promise<void> {
   const conversationId = extractString(data.conversationId);
   if (!conversationId) return;
 
-  const index = await readIndexFile();
-  const existing = index.entries[routeKey];
-
-  // Only update if this event is newer (or first entry).
-  if (existing && existing.timestamp > event.ts) return;
-
-  index.entries[routeKey] = {
-    conversationId,
-    timestamp: event.ts,
-    lastEventType: event.type as A2AConversationEntry["lastEventType"],
-    runId: extractString(data.runId),
-  };
-  index.updatedAt = Date.now();
-
-  await writeIndexFile(index);
+  const ns = index;
+  if (!ns) return;
+  await ns.update(routeKey, (existing) => {
+    // Only update if this event is newer (or first entry); another gateway
+    // process may have indexed a later event for the same route.
+    if (existing && existing.timestamp > event.ts) return existing;
+    return {
+      conversationId,
+      timestamp: event.ts,
+      lastEventType: event.type as A2AConversationEntry["lastEventType"],
+      runId: extractString(data.runId),
+    };
+  });
 }
 
 function onA2AEvent(event: CoordinationEvent): void {
-  if (!indexFilePath) return;
+  if (!index) return;
   writeQueue = writeQueue.then(() => updateIndex(event)).catch((err) => {
     log.warn("a2a-index write failed", { error: String(err) });
   });
@@ -131,13 +110,34 @@ function onA2AEvent(event: CoordinationEvent): void {
 /**
  * Start the A2A conversation index writer.
  * Subscribes to `a2a.send`, `a2a.response`, `a2a.complete` events on the bus
- * and maintains `a2a-conversation-index.json` in `stateDir`.
+ * and maintains the `a2a.conversation-index` state-store namespace under
+ * `stateDir`. A pre-state-store `a2a-conversation-index.json` is imported once.
  */
 export function startA2AIndex(stateDir: string): void {
-  if (indexFilePath) return; // already started
+  if (index) return; // already started
 
-  fs.mkdirSync(stateDir, { recursive: true });
-  indexFilePath = path.join(stateDir, INDEX_FILENAME);
+  const ns = openStateNamespace<A2AConversationEntry>(STATE_NAMESPACE, {
+    stateDir,
+    defaultTtlMs: ENTRY_TTL_MS,
+  });
+  index = ns;
+  writeQueue = writeQueue
+    .then(async () => {
+      await importLegacyStateFile(
+        ns,
+        path.join(stateDir, LEGACY_INDEX_FILENAME),
+        (raw) =>
+          Object.entries((raw as A2AConversationIndex).entries ?? {}).map(([key, value]) => ({
+            key,
+            value,
+            updatedAt: value.timestamp,
+          })),
+        { ttlMs: ENTRY_TTL_MS },
+      );
+    })
+    .catch((err) => {
+      log.warn("a2a-index legacy import failed", { error: String(err) });
+    });
 
   for (const type of A2A_EVENT_TYPES) {
     unsubscribes.push(subscribe(type, onA2AEvent));
@@ -156,7 +156,7 @@ export async function stopA2AIndex(): Promise<void> {
   // Drain pending writes before resetting state.
   await writeQueue;
 
-  indexFilePath = null;
+  index = null;
   writeQueue = Promise.resolve();
 }
 
@@ -169,15 +169,13 @@ export async function flushA2AIndex(): Promise<void> {
 }
 
 /**
- * O(1) lookup: read the latest conversationId for a routeKey from the index file.
+ * Lookup of the latest conversationId for a routeKey.
  * Returns `undefined` if the index is unavailable or the routeKey is not found.
  */
 export async function getA2AConversationId(routeKey: string): Promise<string | undefined> {
-  if (!indexFilePath) return undefined;
+  if (!index) return undefined;
   try {
-    const raw = await fsp.readFile(indexFilePath, "utf-8");
-    const index = JSON.parse(raw) as A2AConversationIndex;
-    return index.entries[routeKey]?.conversationId;
+    return (await index.get(routeKey))?.conversationId;
   } catch {
     return undefined;
   }
@@ -187,10 +185,14 @@ export async function getA2AConversationId(routeKey: string): Promise<string | u
  * Return the full index (diagnostic / debugging use).
  */
 export async function getA2AIndex(): Promise<A2AConversationIndex | null> {
-  if (!indexFilePath) return null;
+  if (!index) return null;
   try {
-    const raw = await fsp.readFile(indexFilePath, "utf-8");
-    return JSON.parse(raw) as A2AConversationIndex;
+    const result: A2AConversationIndex = { version: 1, entries: {}, updatedAt: 0 };
+    for (const entry of await index.entries()) {
+      result.entries[entry.key] = entry.value;
+      result.updatedAt = Math.max(result.updatedAt, entry.updatedAt);
+    }
+    return result;
   } catch {
     return null;
   }
@@ -0,0 +1,119 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { CoordinationEvent } from "./bus.js";
+import {
+  listEventLogFiles,
+  queryEventLog,
+  replayEventLog,
+  tailEventLog,
+} from "./event-log-query.js";
+
+let tmpDir: string;
+
+function writeLog(name: string, events: CoordinationEvent[], extra = ""): void {
+  fs.writeFileSync(
+    path.join(tmpDir, name),
+    events.map((e) => JSON.stringify(e)).join("\n") + "\n" + extra,
+  );
+}
+
+function ev(ts: number, type: string, data: Record<string, unknown> = {}): CoordinationEvent {
+  return { type, agentId: ts % 2 === 0 ? "main" : "dev", ts, data };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "event-log-query-test-"));
+  writeLog("coordination-events-2026-01.ndjson", [ev(1, "task.started", { taskId: "t1" })]);
+  writeLog("coordination-events-2026-01-10T00-00-00-000Z.ndjson", [
+    ev(0, "task.started", { taskId: "t0" }),
+  ]);
+  writeLog(
+    "coordination-events.ndjson",
+    [
+      ev(2, "task.completed", { taskId: "t1", workSessionId: "ws1" }),
+      ev(2, "task.started", { taskId: "t2", workSessionId: "ws1" }),
+      ev(3, "a2a.send"),
+    ],
+    "{not json\n",
+  );
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("event log query", () => {
+  it("lists rotated archives oldest first, live file last", async () => {
+    const files = (await listEventLogFiles(tmpDir)).map((f) => path.basename(f));
+    expect(files).toEqual([
+      "coordination-events-2026-01-10T00-00-00-000Z.ndjson",
+      "coordination-events-2026-01.ndjson",
+      "coordination-events.ndjson",
+    ]);
+  });
+
+  it("filters by type, agent, task and work session", async () => {
+    const started = await queryEventLog(tmpDir, { types: ["task.started"] });
+    expect(started.events.map((e) => e.data.taskId)).toEqual(["t0", "t1", "t2"]);
+
+    expect((await queryEventLog(tmpDir, { agentId: "dev" })).events.map((e) => e.ts)).toEqual([
+      1, 3,
+    ]);
+    expect((await queryEventLog(tmpDir, { taskId: "t1" })).events.length).toBe(2);
+    expect(
+      (await queryEventLog(tmpDir, { workSessionId: "ws1", since: 2, until: 2 })).events,
+    ).toHaveLength(2);
+  });
+
+  it("pages with a cursor across events sharing a timestamp", async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    for (let i = 0; i < 10; i++) {
+      const page = await queryEventLog(tmpDir, { limit: 2, cursor });
+      seen.push(...page.events.map((e) => `${e.ts}:${e.type}`));
+      cursor = page.cursor;
+      if (!page.hasMore) {
+        break;
+      }
+    }
+    expect(seen).toEqual([
+      "0:task.started",
+      "1:task.started",
+      "2:task.completed",
+      "2:task.started",
+      "3:a2a.send",
+    ]);
+  });
+
+  it("tails the newest events and follows from the returned cursor", async () => {
+    const tail = await tailEventLog(tmpDir, { limit: 2 });
+    expect(tail.events.map((e) => e.ts)).toEqual([2, 3]);
+    expect(tail.hasMore).toBe(true);
+
+    fs.appendFileSync(
+      path.join(tmpDir, "coordination-events.ndjson"),
+      JSON.stringify(ev(4, "task.completed")) + "\n",
+    );
+    const next = await queryEventLog(tmpDir, { cursor: tail.cursor });
+    expect(next.events.map((e) => e.ts)).toEqual([4]);
+  });
+
+  it("rejects malformed cursors", async () => {
+    await expect(queryEventLog(tmpDir, { cursor: "bogus" })).rejects.toThrow(/cursor/);
+  });
+
+  it("replays matching events in order", async () => {
+    const replayed: number[] = [];
+    const count = await replayEventLog({
+      logDir: tmpDir,
+      query: { types: ["task.started", "task.completed"] },
+      emit: (event) => {
+        replayed.push(event.ts);
+      },
+    });
+    expect(count).toBe(4);
+    expect(replayed).toEqual([0, 1, 2, 2]);
+  });
+});
@@ -0,0 +1,258 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveStateDir } from "../../config/paths.js";
+import type { CoordinationEvent } from "./bus.js";
+
+export const EVENT_LOG_FILENAME = "coordination-events.ndjson";
+
+const ARCHIVE_RE = /^coordination-events-.+\.ndjson$/;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export type EventLogQuery = {
+  /** Inclusive lower bound (epoch ms). */
+  since?: number;
+  /** Inclusive upper bound (epoch ms). */
+  until?: number;
+  agentId?: string;
+  types?: string[];
+  workSessionId?: string;
+  taskId?: string;
+  /** Opaque cursor from a previous page; filters must stay the same between pages. */
+  cursor?: string;
+  limit?: number;
+};
+
+export type EventLogPage = {
+  events: CoordinationEvent[];
+  /** Position after the last returned event; pass back to continue (or follow). */
+  cursor?: string;
+  hasMore: boolean;
+};
+
+type Cursor = { ts: number; skip: number };
+
+export function resolveEventLogDir(stateDir: string = resolveStateDir(process.env)): string {
+  return path.join(stateDir, "logs");
+}
+
+/**
+ * Cursors are `<ts>:<n>`: the timestamp of the last returned event and how many
+ * matching events with that timestamp were already returned. Unlike byte
+ * offsets this survives the monthly/size rotation renaming the files.
+ */
+function encodeCursor(cursor: Cursor): string {
+  return `${cursor.ts}:${cursor.skip}`;
+}
+
+function decodeCursor(raw: string | undefined): Cursor | null {
+  if (!raw) {
+    return null;
+  }
+  const match = /^(\d+):(\d+)$/.exec(raw.trim());
+  if (!match) {
+    throw new Error(`invalid event log cursor: ${raw}`);
+  }
+  return { ts: Number(match[1]), skip: Number(match[2]) };
+}
+
+function clampLimit(limit: number | undefined): number {
+  if (typeof limit !== "number" || !Number.isFinite(limit)) {
+    return DEFAULT_LIMIT;
+  }
+  return Math.min(Math.max(1, Math.floor(limit)), MAX_LIMIT);
+}
+
+/**
+ * Event log files oldest first: rotated archives, then the live file. Archive
+ * names sort chronologically (`-2026-02-15T…` size rotations sort before the
+ * `-2026-02` monthly archive that closes the month).
+ */
+export async function listEventLogFiles(logDir: string): Promise<string[]> {
+  const entries = await fs.readdir(logDir).catch(() => [] as string[]);
+  const archives = entries.filter((name) => ARCHIVE_RE.test(name)).toSorted();
+  const files = archives.map((name) => path.join(logDir, name));
+  if (entries.includes(EVENT_LOG_FILENAME)) {
+    files.push(path.join(logDir, EVENT_LOG_FILENAME));
+  }
+  return files;
+}
+
+async function readEventFile(file: string): Promise<CoordinationEvent[]> {
+  const content = await fs.readFile(file, "utf-8").catch(() => "");
+  const events: CoordinationEvent[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(line) as CoordinationEvent;
+      if (parsed && typeof parsed.type === "string" && typeof parsed.ts === "number") {
+        events.push({ ...parsed, data: parsed.data ?? {} });
+      }
+    } catch {
+      // skip partial or corrupt lines
+    }
+  }
+  return events;
+}
+
+export function matchesEventLogQuery(event: CoordinationEvent, query: EventLogQuery): boolean {
+  if (query.since !== undefined && event.ts < query.since) {
+    return false;
+  }
+  if (query.until !== undefined && event.ts > query.until) {
+    return false;
+  }
+  if (query.agentId && event.agentId !== query.agentId) {
+    return false;
+  }
+  if (query.types && query.types.length > 0 && !query.types.includes(event.type)) {
+    return false;
+  }
+  if (query.workSessionId && event.data?.workSessionId !== query.workSessionId) {
+    return false;
+  }
+  if (query.taskId && event.data?.taskId !== query.taskId) {
+    return false;
+  }
+  return true;
+}
+
+/** Files whose last write predates `since` cannot hold matching events. */
+async function filesForQuery(logDir: string, query: EventLogQuery, cursor: Cursor | null) {
+  const files = await listEventLogFiles(logDir);
+  const lowerBound = Math.max(query.since ?? 0, cursor?.ts ?? 0);
+  if (lowerBound === 0) {
+    return files;
+  }
+  const kept: string[] = [];
+  for (const file of files) {
+    const stat = await fs.stat(file).catch(() => null);
+    if (stat && stat.mtimeMs >= lowerBound) {
+      kept.push(file);
+    }
+  }
+  return kept;
+}
+
+/** Matching events in chronological order, one page at a time. */
+export async function queryEventLog(
+  logDir: string,
+  query: EventLogQuery = {},
+): Promise<EventLogPage> {
+  const cursor = decodeCursor(query.cursor);
+  const limit = clampLimit(query.limit);
+  const events: CoordinationEvent[] = [];
+  let skipped = 0;
+  let hasMore = false;
+
+  outer: for (const file of await filesForQuery(logDir, query, cursor)) {
+    for (const event of await readEventFile(file)) {
+      if (!matchesEventLogQuery(event, query)) {
+        continue;
+      }
+      if (cursor) {
+        if (event.ts < cursor.ts) {
+          continue;
+        }
+        if (event.ts === cursor.ts && skipped < cursor.skip) {
+          skipped++;
+          continue;
+        }
+      }
+      if (events.length >= limit) {
+        hasMore = true;
+        break outer;
+      }
+      events.push(event);
+    }
+  }
+
+  return { events, cursor: nextCursor(events, cursor) ?? query.cursor, hasMore };
+}
+
+/**
+ * The newest `limit` matching events (chronological). The returned cursor
+ * points past the end of the log, so it can be used to follow new events.
+ */
+export async function tailEventLog(
+  logDir: string,
+  query: EventLogQuery = {},
+): Promise<EventLogPage> {
+  const limit = clampLimit(query.limit);
+  const files = await filesForQuery(logDir, query, null);
+  const newestFirst: CoordinationEvent[][] = [];
+  let collected = 0;
+  let latestTs: number | undefined;
+
+  for (const file of files.toReversed()) {
+    const fileEvents = await readEventFile(file);
+    if (latestTs === undefined && fileEvents.length > 0) {
+      latestTs = fileEvents[fileEvents.length - 1].ts;
+    }
+    const matching = fileEvents.filter((event) => matchesEventLogQuery(event, query));
+    newestFirst.push(matching);
+    collected += matching.length;
+    if (collected >= limit) {
+      break;
+    }
+  }
+
+  const all = newestFirst.toReversed().flat();
+  const events = all.slice(Math.max(0, all.length - limit));
+  const cursor =
+    nextCursor(all, null) ??
+    (latestTs !== undefined ? encodeCursor({ ts: latestTs, skip: 0 }) : undefined);
+  return { events, cursor, hasMore: all.length > events.length };
+}
+
+function nextCursor(events: CoordinationEvent[], previous: Cursor | null): string | undefined {
+  const last = events.at(-1);
+  if (!last) {
+    return undefined;
+  }
+  let skip = 0;
+  for (const event of events) {
+    if (event.ts === last.ts) {
+      skip++;
+    }
+  }
+  if (previous && previous.ts === last.ts) {
+    skip += previous.skip;
+  }
+  return encodeCursor({ ts: last.ts, skip });
+}
+
+/**
+ * Re-emits historical events in order, e.g. into a freshly started conversation
+ * sink to backfill a dashboard after an outage. Returns the number replayed.
+ */
+export async function replayEventLog(params: {
+  logDir: string;
+  query: Omit<EventLogQuery, "cursor">;
+  emit: (event: CoordinationEvent) => void | Promise<void>;
+  /** Pause between events, to stay under downstream rate limits. */
+  intervalMs?: number;
+  signal?: AbortSignal;
+}): Promise<number> {
+  let cursor: string | undefined;
+  let replayed = 0;
+  for (;;) {
+    const page = await queryEventLog(params.logDir, { ...params.query, cursor, limit: MAX_LIMIT });
+    for (const event of page.events) {
+      if (params.signal?.aborted) {
+        return replayed;
+      }
+      await params.emit(event);
+      replayed++;
+      if (params.intervalMs) {
+        await new Promise((resolve) => setTimeout(resolve, params.intervalMs));
+      }
+    }
+    if (!page.hasMore) {
+      return replayed;
+    }
+    cursor = page.cursor;
+  }
+}
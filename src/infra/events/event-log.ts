@@ -2,6 +2,7 @@ import fs from "node:fs";
 import path from "node:path";
 import type { CoordinationEvent } from "./bus.js";
 import { subscribe } from "./bus.js";
+import { EVENT_LOG_FILENAME } from "./event-log-query.js";
 
 let logStream: fs.WriteStream | null = null;
 let unsubscribe: (() => void) | null = null;
@@ -59,7 +60,7 @@ export function startEventLog(logDir: string): void {
     return;
   }
   fs.mkdirSync(logDir, { recursive: true });
-  const filePath = path.join(logDir, "coordination-events.ndjson");
+  const filePath = path.join(logDir, EVENT_LOG_FILENAME);
   logStream = fs.createWriteStream(filePath, { flags: "a" });
   logFilePath = filePath;
   logDirPath = logDir;
@@ -8,6 +8,9 @@ export const EVENT_TYPES = {
   TASK_RESUMED: "task.resumed",
   TASK_BACKLOG_ADDED: "task.backlog_added",
   TASK_BACKLOG_PICKED: "task.backlog_picked",
+  TASK_DEPENDENCIES_MET: "task.dependencies_met",
+  TASK_DUE_SOON: "task.due_soon",
+  TASK_OVERDUE: "task.overdue",
   CONTINUATION_SENT: "continuation.sent",
   CONTINUATION_BACKOFF: "continuation.backoff",
   UNBLOCK_REQUESTED: "unblock.requested",
@@ -18,6 +21,9 @@ export const EVENT_TYPES = {
   PLAN_SUBMITTED: "plan.submitted",
   PLAN_APPROVED: "plan.approved",
   PLAN_REJECTED: "plan.rejected",
+  APPROVAL_REQUESTED: "approval.requested",
+  APPROVAL_ESCALATED: "approval.escalated",
+  APPROVAL_DECIDED: "approval.decided",
   A2A_SEND: "a2a.send",
   A2A_RESPONSE: "a2a.response",
   A2A_COMPLETE: "a2a.complete",
@@ -25,6 +31,9 @@ export const EVENT_TYPES = {
   A2A_SPAWN: "a2a.spawn",
   A2A_SPAWN_RESULT: "a2a.spawn_result",
   A2A_RETRY: "a2a.retry",
+  A2A_JOB_CANCELLED: "a2a.job_cancelled",
+  A2A_JOB_RETRIED: "a2a.job_retried",
+  A2A_JOB_RESUMED: "a2a.job_resumed",
   MILESTONE_SYNC_FAILED: "milestone.sync_failed",
 } as const;
 
@@ -11,6 +11,10 @@ export class SinkRegistry {
     this.sinks.set(sink.id, sink);
   }
 
+  has(id: string): boolean {
+    return this.sinks.has(id);
+  }
+
   startAll(configs: ConversationSinkConfig[]): void {
     for (const config of configs) {
       if (!config.enabled) {
@@ -1,15 +1,10 @@
 import { complete } from "@mariozechner/pi-ai";
 import type { Context, TextContent, Tool, ToolCall, ToolResultMessage } from "@mariozechner/pi-ai";
 import { Type } from "@sinclair/typebox";
-import { ChannelType } from "discord-api-types/v10";
 import { getApiKeyForModel, requireApiKey } from "../../../agents/model-auth.js";
 import { resolveModel } from "../../../agents/pi-embedded-runner/model.js";
-import { loadConfig } from "../../../config/config.js";
-import {
-  listGuildChannelsDiscord,
-  listThreadsDiscord,
-  readMessagesDiscord,
-} from "../../../discord/send.js";
+import type { ChannelCollaborationAdapter } from "../../../channels/plugins/types.js";
+import { loadConfig, type OpenClawConfig } from "../../../config/config.js";
 import { createSubsystemLogger } from "../../../logging/subsystem.js";
 
 const log = createSubsystemLogger("channel-router");
@@ -75,19 +70,17 @@ function isToolCall(block: unknown): block is ToolCall {
 function buildToolDefinitions(): Tool[] {
   return [
     {
-      name: "listGuildChannels",
+      name: "listChannels",
       description:
-        "List all text channels in the Discord guild. Returns array of {id, name, topic, category}.",
-      parameters: Type.Object({
-        guildId: Type.String({ description: "The Discord guild ID" }),
-      }),
+        "List the channels the bot can post in. Returns array of {id, name, topic, category}.",
+      parameters: Type.Object({}),
     },
     {
       name: "listActiveThreads",
       description:
-        "List all active (non-archived) threads in the Discord guild. Returns array of {id, name, parentId, messageCount}.",
+        "List active threads. Returns array of {id, name, channelId, messageCount}. Pass channelId to list the threads of one channel.",
       parameters: Type.Object({
-        guildId: Type.String({ description: "The Discord guild ID" }),
+        channelId: Type.Optional(Type.String({ description: "Only threads of this channel" })),
       }),
     },
     {
@@ -95,7 +88,10 @@ function buildToolDefinitions(): Tool[] {
       description:
         "Read recent messages from a thread to check if its topic matches the new conversation. Returns array of {author, content, timestamp}.",
       parameters: Type.Object({
-        threadId: Type.String({ description: "The thread or channel ID to read messages from" }),
+        threadId: Type.String({ description: "The thread to read messages from" }),
+        channelId: Type.Optional(
+          Type.String({ description: "The channel holding the thread (from listActiveThreads)" }),
+        ),
         limit: Type.Optional(
           Type.Number({ description: "Number of messages to fetch (1-10, default 3)" }),
         ),
@@ -104,87 +100,33 @@ function buildToolDefinitions(): Tool[] {
   ];
 }
 
-async function executeListGuildChannels(
-  guildId: string,
-  discordOpts: { accountId: string },
-): Promise<string> {
-  const channels = await listGuildChannelsDiscord(guildId, discordOpts);
-  const categories = new Map<string, string>();
-  for (const ch of channels) {
-    if (ch.type === ChannelType.GuildCategory && "name" in ch && ch.name) {
-      categories.set(ch.id, ch.name);
-    }
-  }
-  const textChannels = channels
-    .filter((ch) => ch.type === ChannelType.GuildText || ch.type === ChannelType.GuildForum)
-    .map((ch) => ({
-      id: ch.id,
-      name: "name" in ch ? (ch.name ?? "") : "",
-      topic: "topic" in ch ? (ch.topic ?? null) : null,
-      category: "parent_id" in ch && ch.parent_id ? (categories.get(ch.parent_id) ?? null) : null,
-    }));
-  return JSON.stringify(textChannels);
-}
-
-async function executeListActiveThreads(
-  guildId: string,
-  discordOpts: { accountId: string },
-): Promise<string> {
-  const response = await listThreadsDiscord({ guildId }, discordOpts);
-  if (!response || typeof response !== "object") {
-    return JSON.stringify([]);
-  }
-  const data = response as { threads?: unknown[] };
-  if (!Array.isArray(data.threads)) {
-    return JSON.stringify([]);
-  }
-  const threads = data.threads
-    .filter((t): t is Record<string, unknown> => t !== null && typeof t === "object")
-    .filter((t) => {
-      if (typeof t.thread_metadata === "object" && t.thread_metadata !== null) {
-        return (t.thread_metadata as Record<string, unknown>).archived !== true;
-      }
-      return true;
-    })
-    .map((t) => ({
-      id: typeof t.id === "string" ? t.id : "",
-      name: typeof t.name === "string" ? t.name : "",
-      parentId: typeof t.parent_id === "string" ? t.parent_id : "",
-      messageCount: typeof t.message_count === "number" ? t.message_count : null,
-    }))
-    .filter((t) => t.id);
-  return JSON.stringify(threads);
-}
-
-async function executeReadRecentMessages(
-  args: Record<string, unknown>,
-  discordOpts: { accountId: string },
-): Promise<string> {
-  const threadId = typeof args.threadId === "string" ? args.threadId : "";
-  const limit = Math.min(Math.max(Number(args.limit) || 3, 1), 10);
-  const messages = await readMessagesDiscord(threadId, { limit }, discordOpts);
-  const simplified = messages.map((m) => ({
-    author: m.author?.username ?? "unknown",
-    content: (m.content ?? "").slice(0, 200),
-    timestamp: m.timestamp,
-  }));
-  return JSON.stringify(simplified);
-}
-
 async function executeTool(
   toolName: string,
   args: Record<string, unknown>,
-  accountId: string,
+  params: {
+    cfg: OpenClawConfig;
+    transport: ChannelCollaborationAdapter;
+    scopeId?: string;
+    accountId: string;
+  },
 ): Promise<string> {
-  const discordOpts = { accountId };
-  const guildId = typeof args.guildId === "string" ? args.guildId : "";
+  const { cfg, transport, scopeId, accountId } = params;
+  const channelId =
+    typeof args.channelId === "string" && args.channelId ? args.channelId : undefined;
   switch (toolName) {
-    case "listGuildChannels":
-      return executeListGuildChannels(guildId, discordOpts);
+    case "listChannels":
+      return JSON.stringify((await transport.listChannels?.({ cfg, accountId, scopeId })) ?? []);
     case "listActiveThreads":
-      return executeListActiveThreads(guildId, discordOpts);
-    case "readRecentMessages":
-      return executeReadRecentMessages(args, discordOpts);
+      return JSON.stringify(
+        (await transport.listThreads?.({ cfg, accountId, scopeId, channelId })) ?? [],
+      );
+    case "readRecentMessages": {
+      const threadId = typeof args.threadId === "string" ? args.threadId : "";
+      const limit = Math.min(Math.max(Number(args.limit) || 3, 1), 10);
+      const messages =
+        (await transport.readMessages?.({ cfg, accountId, channelId, threadId, limit })) ?? [];
+      return JSON.stringify(messages.map((m) => ({ ...m, content: m.content.slice(0, 200) })));
+    }
     default:
       return JSON.stringify({ error: `Unknown tool: ${toolName}` });
   }
@@ -197,20 +139,25 @@ function isRateLimitError(err: unknown): boolean {
 
 function buildSubagentSystemPrompt(
   context: RouteContext,
-  guildId: string,
-  defaultChannelId: string,
+  params: { channel: string; scoped: boolean; defaultChannelId: string },
 ): string {
   const truncatedMessage = context.message.slice(0, MAX_PROMPT_MESSAGE_LENGTH);
-  return `You are a Discord channel router. Route agent conversations to the right thread.
+  const { channel, defaultChannelId } = params;
+  // Without a guild-wide thread index (Slack, Matrix) threads are listed per channel.
+  const listStep = params.scoped
+    ? "1. Call listChannels AND listActiveThreads in PARALLEL."
+    : `1. Call listChannels AND listActiveThreads with channelId "${defaultChannelId}" in PARALLEL.
+   Call listActiveThreads again for any other channel whose name or topic fits.`;
+  return `You are a ${channel} channel router. Route agent conversations to the right thread.
 
 CONVERSATION:
 From: ${context.fromAgent} (${context.fromAgentName})
 To: ${context.toAgent} (${context.toAgentName})
 Message: ${truncatedMessage}
 INSTRUCTIONS:
-1. Call listGuildChannels AND listActiveThreads in PARALLEL (both need guildId: "${guildId}").
+${listStep}
 2. Check active thread NAMES for topic overlap. Thread names follow [카테고리] 주제 format.
-   - If a thread covers the same subject → reuse it (set threadId to that thread's id).
+   - If a thread covers the same subject → reuse it (set threadId to that thread's id and channelId to its channelId).
    - Only use readRecentMessages if two threads look equally relevant.
 3. If no thread matches → pick the best channel and set threadId to null.
 4. Default channel if unsure: ${defaultChannelId}
@@ -226,19 +173,30 @@ RESPOND WITH ONLY THIS JSON (no markdown, no explanation):
 {"channelId":"...","threadId":"...or null","threadName":"[카테고리] 주제","reasoning":"..."}`;
 }
 
+export type ChannelRouterOptions = {
+  /** Collaboration transport of the channel plugin the router lists candidates from. */
+  transport: ChannelCollaborationAdapter;
+  /** Channel id for prompts and logs (e.g. "discord", "slack", "matrix"). */
+  channel: string;
+  /** Guild/workspace id when the transport has one (Discord guild). */
+  scopeId?: string;
+  defaultChannelId: string;
+  accountId: string;
+  routerModel?: string;
+};
+
 export class ChannelRouter {
-  private guildId: string;
+  private transport: ChannelCollaborationAdapter;
+  private channel: string;
+  private scopeId: string | undefined;
   private defaultChannelId: string;
   private accountId: string;
   private routerModel: string;
 
-  constructor(opts: {
-    guildId: string;
-    defaultChannelId: string;
-    accountId: string;
-    routerModel?: string;
-  }) {
-    this.guildId = opts.guildId;
+  constructor(opts: ChannelRouterOptions) {
+    this.transport = opts.transport;
+    this.channel = opts.channel;
+    this.scopeId = opts.scopeId;
     this.defaultChannelId = opts.defaultChannelId;
     this.accountId = opts.accountId;
     this.routerModel = opts.routerModel ?? "anthropic/claude-sonnet-4-5";
@@ -304,7 +262,11 @@ export class ChannelRouter {
     }
 
     const tools = buildToolDefinitions();
-    const systemPrompt = buildSubagentSystemPrompt(context, this.guildId, this.defaultChannelId);
+    const systemPrompt = buildSubagentSystemPrompt(context, {
+      channel: this.channel,
+      scoped: Boolean(this.scopeId),
+      defaultChannelId: this.defaultChannelId,
+    });
 
     for (let attempt = 0; attempt < 2; attempt++) {
       const llmContext: Context = {
@@ -320,7 +282,7 @@ export class ChannelRouter {
       };
 
       try {
-        const result = await this.runToolLoop(resolved.model, llmContext, apiKey, signal);
+        const result = await this.runToolLoop(resolved.model, llmContext, apiKey, signal, cfg);
         if (result) {
           return result;
         }
@@ -349,6 +311,7 @@ export class ChannelRouter {
     llmContext: Context,
     apiKey: string,
     signal: AbortSignal,
+    cfg: OpenClawConfig,
   ): Promise<RouteResult | null> {
     for (let turn = 0; turn <= MAX_TOOL_TURNS; turn++) {
       const completeOpts: Record<string, unknown> = {
@@ -399,13 +362,18 @@ export class ChannelRouter {
       const toolCalls = response.content.filter(isToolCall);
       for (const call of toolCalls) {
         log.info("sub-agent tool call", {
-          consoleMessage: `sub-agent tool call: ${call.name} (turn ${turn})`,
+          consoleMessage: `sub-agent tool call: ${this.channel}/${call.name} (turn ${turn})`,
           tool: call.name,
           turn,
         });
         let resultText: string;
         try {
-          resultText = await executeTool(call.name, call.arguments, this.accountId);
+          resultText = await executeTool(call.name, call.arguments, {
+            cfg,
+            transport: this.transport,
+            scopeId: this.scopeId,
+            accountId: this.accountId,
+          });
         } catch (err) {
           resultText = JSON.stringify({ error: String(err) });
           log.warn("tool execution failed", { tool: call.name, error: String(err) });
@@ -1,4 +1,5 @@
 import { resolveAgentIdentity } from "../../../agents/identity.js";
+import { discordCollaborationAdapter } from "../../../channels/plugins/collaboration/discord.js";
 import { loadConfig } from "../../../config/config.js";
 import { resolveStateDir } from "../../../config/paths.js";
 import { getBotUserIdForAgent } from "../../../discord/monitor/sibling-bots.js";
@@ -171,7 +172,9 @@ export class DiscordConversationSink implements ConversationSink {
     }
 
     const router = new ChannelRouter({
-      guildId: opts.guildId,
+      transport: discordCollaborationAdapter,
+      channel: "discord",
+      scopeId: opts.guildId,
       defaultChannelId: opts.defaultChannelId,
       accountId: opts.routerAccountId,
       routerModel: opts.routerModel,
@@ -1,7 +1,10 @@
-import fs from "node:fs";
-import fsp from "node:fs/promises";
 import path from "node:path";
 import { createSubsystemLogger } from "../../../logging/subsystem.js";
+import {
+  importLegacyStateFile,
+  openStateNamespace,
+  type StateNamespace,
+} from "../../state-store.js";
 
 const log = createSubsystemLogger("thread-route-cache");
 
@@ -13,23 +16,31 @@ export interface ThreadRouteEntry {
   createdAt: number;
 }
 
+/** Shape of the pre-state-store `thread-route-cache.json`, imported once on load. */
 export interface ThreadRouteData {
   version: 1;
   entries: Record<string, ThreadRouteEntry>;
   updatedAt: number;
 }
 
-const CACHE_FILENAME = "thread-route-cache.json";
+const LEGACY_CACHE_FILENAME = "thread-route-cache.json";
+const STATE_NAMESPACE = "a2a.thread-routes";
+/** Routes for agent pairs that stopped talking a month ago are not worth reviving. */
+const ROUTE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
 export class ThreadRouteCache {
-  private filePath: string;
-  private data: ThreadRouteData = { version: 1, entries: {}, updatedAt: 0 };
+  private legacyPath: string;
+  private store: StateNamespace<ThreadRouteEntry>;
+  private entries: Record<string, ThreadRouteEntry> = {};
   private pairIndex = new Map<string, string[]>();
   private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(stateDir: string) {
-    fs.mkdirSync(stateDir, { recursive: true });
-    this.filePath = path.join(stateDir, CACHE_FILENAME);
+    this.legacyPath = path.join(stateDir, LEGACY_CACHE_FILENAME);
+    this.store = openStateNamespace<ThreadRouteEntry>(STATE_NAMESPACE, {
+      stateDir,
+      defaultTtlMs: ROUTE_TTL_MS,
+    });
   }
 
   private pairKey(agents: [string, string]): string {
@@ -38,26 +49,35 @@ export class ThreadRouteCache {
 
   async load(): Promise<void> {
     try {
-      const raw = await fsp.readFile(this.filePath, "utf-8");
-      this.data = JSON.parse(raw) as ThreadRouteData;
+      await importLegacyStateFile(this.store, this.legacyPath, (raw) =>
+        Object.entries((raw as ThreadRouteData).entries ?? {}).map(([key, value]) => ({
+          key,
+          value,
+          updatedAt: value.createdAt,
+        })),
+      );
+      this.entries = {};
+      for (const { key, value } of await this.store.entries()) {
+        this.entries[key] = value;
+      }
       this.rebuildPairIndex();
       log.info("cache loaded", {
-        consoleMessage: `thread-route-cache loaded: ${Object.keys(this.data.entries).length} entries`,
-        entryCount: Object.keys(this.data.entries).length,
+        consoleMessage: `thread-route-cache loaded: ${Object.keys(this.entries).length} entries`,
+        entryCount: Object.keys(this.entries).length,
       });
-    } catch {
-      this.data = { version: 1, entries: {}, updatedAt: 0 };
+    } catch (err) {
+      this.entries = {};
       this.pairIndex.clear();
-      log.info("cache initialized (no existing file)");
+      log.warn("cache load failed; starting empty", { error: String(err) });
     }
   }
 
   get(conversationId: string): ThreadRouteEntry | undefined {
-    return this.data.entries[conversationId];
+    return this.entries[conversationId];
   }
 
   set(conversationId: string, entry: ThreadRouteEntry): void {
-    this.data.entries[conversationId] = entry;
+    this.entries[conversationId] = entry;
     const key = this.pairKey(entry.agents);
     if (!this.pairIndex.has(key)) {
       this.pairIndex.set(key, []);
@@ -66,8 +86,7 @@ export class ThreadRouteCache {
     if (!ids.includes(conversationId)) {
       ids.push(conversationId);
     }
-    this.data.updatedAt = Date.now();
-    this.enqueueWrite();
+    this.enqueueWrite(conversationId, entry);
   }
 
   getByAgentPair(agents: [string, string]): ThreadRouteEntry | undefined {
@@ -78,7 +97,7 @@ export class ThreadRouteCache {
     }
     let newest: ThreadRouteEntry | undefined;
     for (const id of candidateIds) {
-      const entry = this.data.entries[id];
+      const entry = this.entries[id];
       if (entry && (!newest || entry.createdAt > newest.createdAt)) {
         newest = entry;
       }
@@ -87,12 +106,12 @@ export class ThreadRouteCache {
   }
 
   getAllEntries(): Map<string, ThreadRouteEntry> {
-    return new Map(Object.entries(this.data.entries));
+    return new Map(Object.entries(this.entries));
   }
 
-  private enqueueWrite(): void {
+  private enqueueWrite(conversationId: string, entry: ThreadRouteEntry): void {
     this.writeQueue = this.writeQueue
-      .then(() => this.writeToDisk())
+      .then(() => this.store.set(conversationId, entry))
       .catch((err) => {
         log.warn("cache write failed", { error: String(err) });
       });
@@ -100,7 +119,7 @@ export class ThreadRouteCache {
 
   private rebuildPairIndex(): void {
     this.pairIndex.clear();
-    for (const [conversationId, entry] of Object.entries(this.data.entries)) {
+    for (const [conversationId, entry] of Object.entries(this.entries)) {
       const key = this.pairKey(entry.agents);
       if (!this.pairIndex.has(key)) {
         this.pairIndex.set(key, []);
@@ -109,12 +128,6 @@ export class ThreadRouteCache {
     }
   }
 
-  private async writeToDisk(): Promise<void> {
-    const tmp = this.filePath + ".tmp";
-    await fsp.writeFile(tmp, JSON.stringify(this.data, null, 2), "utf-8");
-    await fsp.rename(tmp, this.filePath);
-  }
-
   async flush(): Promise<void> {
     await this.writeQueue;
   }
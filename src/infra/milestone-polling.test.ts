@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 
-// Re-implement simpleHash from scripts/task-monitor-server.ts
+// Re-implement simpleHash from the milestone poller that src/gateway/server-task-monitor.ts replaced
 function simpleHash(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
@@ -24,6 +24,8 @@ export type Plan = {
   title: string;
   steps: string[];
   toolsRequested?: string[];
+  /** Worker session whose requested tools stay gated until the plan is approved. */
+  sessionKey?: string;
   status: PlanStatus;
   submittedAt: string;
   decidedAt?: string;
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import type { StateEntries, StateEntry, StateStore } from "./state-store.js";
+
+export const SQLITE_STATE_STORE_FILENAME = "state.sqlite";
+
+type EntryRow = {
+  key: string;
+  value: string;
+  updated_at: number;
+  expires_at: number | null;
+};
+
+function ensureSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS state_entries (
+      namespace TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER,
+      PRIMARY KEY (namespace, key)
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_state_expires ON state_entries(expires_at);`);
+}
+
+function toEntry(row: EntryRow): StateEntry {
+  return {
+    key: row.key,
+    value: JSON.parse(row.value) as unknown,
+    updatedAt: row.updated_at,
+    ...(row.expires_at !== null ? { expiresAt: row.expires_at } : {}),
+  };
+}
+
+class SqliteStateStore implements StateStore {
+  readonly backend = "sqlite" as const;
+
+  constructor(
+    private readonly db: DatabaseSync,
+    readonly location: string,
+  ) {}
+
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      try {
+        this.db.exec("ROLLBACK");
+      } catch {}
+      throw err;
+    }
+  }
+
+  private readRows(namespace: string): StateEntries {
+    const rows = this.db
+      .prepare(`SELECT key, value, updated_at, expires_at FROM state_entries WHERE namespace = ?`)
+      .all(namespace) as EntryRow[];
+    const entries: StateEntries = {};
+    for (const row of rows) {
+      try {
+        entries[row.key] = toEntry(row);
+      } catch {
+        // skip rows with unparsable values
+      }
+    }
+    return entries;
+  }
+
+  async read(namespace: string): Promise<StateEntries> {
+    return this.readRows(namespace);
+  }
+
+  async mutate<R>(namespace: string, fn: (entries: StateEntries) => R): Promise<R> {
+    return this.transaction(() => {
+      const before = this.readRows(namespace);
+      const snapshot = new Map(
+        Object.entries(before).map(([key, entry]) => [key, JSON.stringify(entry)]),
+      );
+      const result = fn(before);
+      const upsert = this.db.prepare(
+        `INSERT INTO state_entries (namespace, key, value, updated_at, expires_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(namespace, key) DO UPDATE SET
+           value=excluded.value,
+           updated_at=excluded.updated_at,
+           expires_at=excluded.expires_at`,
+      );
+      const remove = this.db.prepare(`DELETE FROM state_entries WHERE namespace = ? AND key = ?`);
+      // Only write what fn changed; untouched rows keep other processes' updates intact.
+      for (const [key, entry] of Object.entries(before)) {
+        if (snapshot.get(key) !== JSON.stringify(entry)) {
+          upsert.run(
+            namespace,
+            key,
+            JSON.stringify(entry.value),
+            entry.updatedAt,
+            entry.expiresAt ?? null,
+          );
+        }
+        snapshot.delete(key);
+      }
+      for (const key of snapshot.keys()) {
+        remove.run(namespace, key);
+      }
+      return result;
+    });
+  }
+
+  async listNamespaces(): Promise<string[]> {
+    const rows = this.db
+      .prepare(`SELECT DISTINCT namespace FROM state_entries ORDER BY namespace`)
+      .all() as Array<{ namespace: string }>;
+    return rows.map((row) => row.namespace);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/** Opens `<dir>/state.sqlite`, creating the database on first use. */
+export function createSqliteStateStore(dir: string): StateStore {
+  const dbPath = path.join(dir, SQLITE_STATE_STORE_FILENAME);
+  fs.mkdirSync(dir, { recursive: true });
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(dbPath);
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 5000");
+  ensureSchema(db);
+  return new SqliteStateStore(db, dbPath);
+}
@@ -0,0 +1,141 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createSqliteStateStore } from "./state-store-sqlite.js";
+import {
+  closeStateStores,
+  importLegacyStateFile,
+  inspectStateStore,
+  openStateNamespace,
+  openStateStore,
+  resolveStateStoreBackend,
+  resolveStateStoreDir,
+  setStateStoreBackend,
+  type StateStoreBackend,
+} from "./state-store.js";
+
+const HOUR = 60 * 60 * 1000;
+
+let stateDir = "";
+let now = 1_000_000;
+
+function open<T>(namespace: string, backend: StateStoreBackend, defaultTtlMs?: number) {
+  return openStateNamespace<T>(namespace, { stateDir, backend, defaultTtlMs, nowMs: () => now });
+}
+
+describe("state store", () => {
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "state-store-"));
+    now = 1_000_000;
+  });
+
+  afterEach(async () => {
+    closeStateStores();
+    setStateStoreBackend(null);
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("resolves the backend from the env unless overridden", () => {
+    expect(resolveStateStoreBackend({})).toBe("file");
+    expect(resolveStateStoreBackend({ OPENCLAW_STATE_STORE: " SQLite " })).toBe("sqlite");
+    expect(resolveStateStoreBackend({ OPENCLAW_STATE_STORE: "redis" })).toBe("file");
+    setStateStoreBackend("sqlite");
+    expect(resolveStateStoreBackend({})).toBe("sqlite");
+  });
+
+  it("rejects namespaces that are not safe file names", () => {
+    expect(() => open("../escape", "file")).toThrow("Invalid state namespace");
+  });
+
+  describe.each(["file", "sqlite"] as const)("%s backend", (backend) => {
+    it("sets, updates and deletes keys", async () => {
+      const ns = open<{ count: number }>("test.counters", backend);
+
+      await ns.set("a", { count: 1 });
+      expect(await ns.update("a", (current) => ({ count: (current?.count ?? 0) + 1 }))).toEqual({
+        count: 2,
+      });
+      await ns.update("b", () => ({ count: 5 }));
+      expect(await ns.get("a")).toEqual({ count: 2 });
+      expect((await ns.entries()).map((entry) => entry.key)).toEqual(["a", "b"]);
+
+      await ns.update("b", () => undefined);
+      expect(await ns.delete("a")).toBe(true);
+      expect(await ns.delete("a")).toBe(false);
+      expect(await ns.entries()).toEqual([]);
+    });
+
+    it("hides expired entries and prunes them", async () => {
+      const ns = open<string>("test.ttl", backend, HOUR);
+      await ns.set("short", "x", { ttlMs: 1000 });
+      await ns.set("default", "y");
+      await ns.set("forever", "z", { ttlMs: 0 });
+
+      now += 2000;
+      expect(await ns.get("short")).toBeUndefined();
+      expect((await inspectStateStore({ stateDir, backend, nowMs: now })).namespaces).toEqual([
+        { namespace: "test.ttl", entries: 2, expired: 1, lastUpdatedAt: 1_000_000 },
+      ]);
+
+      now += 2 * HOUR;
+      expect(await ns.prune()).toBe(2);
+      expect((await ns.entries()).map((entry) => entry.key)).toEqual(["forever"]);
+    });
+
+    it("merges writes from separate store instances per key", async () => {
+      const ns = open<number>("test.shared", backend);
+      await ns.set("from-first", 1);
+      // A second gateway process holds its own connection to the same store.
+      const other =
+        backend === "sqlite"
+          ? createSqliteStateStore(resolveStateStoreDir(stateDir))
+          : openStateStore({ stateDir, backend });
+      await Promise.all([
+        other.mutate("test.shared", (entries) => {
+          entries["from-second"] = { key: "from-second", value: 2, updatedAt: now };
+        }),
+        ns.set("from-first", 3),
+      ]);
+      (other as { close?: () => void }).close?.();
+
+      expect(await ns.get("from-first")).toBe(3);
+      expect(await ns.get("from-second")).toBe(2);
+    });
+  });
+
+  it("keeps the file backend's lock next to its data", async () => {
+    await open<number>("test.lock", "file").set("a", 1);
+
+    const storeDir = resolveStateStoreDir(stateDir);
+    expect(await fs.readdir(storeDir)).toEqual(["test.lock.json"]);
+    await expect(fs.access(path.join(storeDir, "tasks"))).rejects.toThrow();
+  });
+
+  it("imports a legacy file once without overwriting newer keys", async () => {
+    const ns = open<{ id: string }>("test.legacy", "file", HOUR);
+    await ns.set("kept", { id: "store" });
+    const legacyPath = path.join(stateDir, "legacy.json");
+    await fs.writeFile(
+      legacyPath,
+      JSON.stringify({
+        items: [{ id: "kept" }, { id: "new", at: now }, { id: "stale", at: now - 2 * HOUR }],
+      }),
+    );
+    const toEntries = (raw: unknown) =>
+      (raw as { items: Array<{ id: string; at?: number }> }).items.map((item) => ({
+        key: item.id,
+        value: { id: "legacy" },
+        updatedAt: item.at,
+      }));
+
+    expect(
+      await importLegacyStateFile(ns, legacyPath, toEntries, { ttlMs: HOUR, nowMs: now }),
+    ).toBe(1);
+    expect(await ns.get("kept")).toEqual({ id: "store" });
+    expect(await ns.get("new")).toEqual({ id: "legacy" });
+    expect(await ns.get("stale")).toBeUndefined();
+    await expect(fs.access(`${legacyPath}.migrated`)).resolves.toBeUndefined();
+    expect(await importLegacyStateFile(ns, legacyPath, toEntries)).toBe(0);
+  });
+});
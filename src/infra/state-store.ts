@@ -0,0 +1,354 @@
+/**
+ * Shared state store.
+ *
+ * Small keyed records that outlive a gateway restart (thread participants,
+ * thread routes, DM retry tracking, the A2A conversation index) live in named
+ * namespaces with optional per-entry TTLs. Writes are read-modify-write cycles
+ * on a single key under a cross-process lock, so two gateway processes
+ * (blue/green restarts) merge their changes instead of overwriting each
+ * other's files.
+ *
+ * Backends:
+ * - "file" (default): one `<stateDir>/state/<namespace>.json` document per
+ *   namespace, updated through atomicReadModifyWrite (lock file + rename).
+ * - "sqlite": every namespace in `<stateDir>/state/state.sqlite`, one row per
+ *   key, writes in IMMEDIATE transactions.
+ *
+ * The backend is chosen with `OPENCLAW_STATE_STORE=file|sqlite` or
+ * programmatically with `setStateStoreBackend()`.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { atomicRead, atomicReadModifyWrite } from "./atomic-storage.js";
+import { createSqliteStateStore } from "./state-store-sqlite.js";
+
+export type StateStoreBackend = "file" | "sqlite";
+
+export type StateEntry<T = unknown> = {
+  key: string;
+  value: T;
+  updatedAt: number;
+  /** Epoch ms after which the entry is treated as absent and pruned. */
+  expiresAt?: number;
+};
+
+export type StateEntries = Record<string, StateEntry>;
+
+/** Storage backend shared by every namespace of one state dir. */
+export interface StateStore {
+  readonly backend: StateStoreBackend;
+  /** File or directory holding the data (for diagnostics). */
+  readonly location: string;
+  read(namespace: string): Promise<StateEntries>;
+  /** Runs `fn` on the namespace's entries under the cross-process lock and persists the result. */
+  mutate<R>(namespace: string, fn: (entries: StateEntries) => R): Promise<R>;
+  listNamespaces(): Promise<string[]>;
+}
+
+export type StateWriteOptions = {
+  /** Overrides the namespace default; 0 keeps the entry until it is deleted. */
+  ttlMs?: number;
+};
+
+export interface StateNamespace<T> {
+  readonly namespace: string;
+  readonly store: StateStore;
+  get(key: string): Promise<T | undefined>;
+  /** Live entries, oldest update first. */
+  entries(): Promise<StateEntry<T>[]>;
+  set(key: string, value: T, opts?: StateWriteOptions): Promise<void>;
+  /** Atomic read-modify-write of one key; returning undefined deletes it. */
+  update(
+    key: string,
+    fn: (current: T | undefined) => T | undefined,
+    opts?: StateWriteOptions,
+  ): Promise<T | undefined>;
+  delete(key: string): Promise<boolean>;
+  /** Removes expired entries; returns how many were dropped. */
+  prune(): Promise<number>;
+}
+
+export const STATE_STORE_DIRNAME = "state";
+
+const STATE_STORE_ENV = "OPENCLAW_STATE_STORE";
+const FILE_STORE_VERSION = 1;
+/** The lock is contended by at most a couple of gateway processes; ~3s of backoff. */
+const FILE_LOCK_RETRIES = 6;
+const NAMESPACE_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+let backendOverride: StateStoreBackend | null = null;
+
+export function isStateStoreBackend(value: unknown): value is StateStoreBackend {
+  return value === "file" || value === "sqlite";
+}
+
+export function resolveStateStoreBackend(env: NodeJS.ProcessEnv = process.env): StateStoreBackend {
+  if (backendOverride) {
+    return backendOverride;
+  }
+  const raw = env[STATE_STORE_ENV]?.trim().toLowerCase();
+  return isStateStoreBackend(raw) ? raw : "file";
+}
+
+/** Overrides the env-selected backend; pass null to fall back to the env again. */
+export function setStateStoreBackend(backend: StateStoreBackend | null): void {
+  backendOverride = backend;
+}
+
+export function resolveStateStoreDir(stateDir: string): string {
+  return path.join(stateDir, STATE_STORE_DIRNAME);
+}
+
+export function isStateEntryExpired(entry: StateEntry, nowMs: number): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= nowMs;
+}
+
+function assertNamespace(namespace: string): void {
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(`Invalid state namespace: ${namespace}`);
+  }
+}
+
+type FileStateDocument = {
+  version: number;
+  namespace: string;
+  entries: StateEntries;
+};
+
+class FileStateStore implements StateStore {
+  readonly backend = "file" as const;
+
+  constructor(readonly location: string) {}
+
+  private filePath(namespace: string): string {
+    return path.join(this.location, `${namespace}.json`);
+  }
+
+  async read(namespace: string): Promise<StateEntries> {
+    const doc = await atomicRead<FileStateDocument | null>(this.filePath(namespace), null);
+    return doc?.entries && typeof doc.entries === "object" ? doc.entries : {};
+  }
+
+  async mutate<R>(namespace: string, fn: (entries: StateEntries) => R): Promise<R> {
+    // atomicReadModifyWrite takes its lock file (`state_<namespace>.lock`) in the store dir.
+    await fs.promises.mkdir(this.location, { recursive: true });
+    let result: R | undefined;
+    await atomicReadModifyWrite<FileStateDocument>(
+      this.filePath(namespace),
+      this.location,
+      `state_${namespace}`,
+      { version: FILE_STORE_VERSION, namespace, entries: {} },
+      (doc) => {
+        const entries = doc?.entries && typeof doc.entries === "object" ? doc.entries : {};
+        result = fn(entries);
+        return { version: FILE_STORE_VERSION, namespace, entries };
+      },
+      { maxRetries: FILE_LOCK_RETRIES },
+    );
+    return result as R;
+  }
+
+  async listNamespaces(): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.location);
+    } catch {
+      return [];
+    }
+    return names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => name.slice(0, -".json".length))
+      .filter((name) => NAMESPACE_PATTERN.test(name))
+      .toSorted((a, b) => a.localeCompare(b));
+  }
+}
+
+const stores = new Map<string, StateStore>();
+
+/** Returns the (cached) store for a state dir using the active backend. */
+export function openStateStore(
+  opts: { stateDir?: string; backend?: StateStoreBackend } = {},
+): StateStore {
+  const backend = opts.backend ?? resolveStateStoreBackend();
+  const dir = resolveStateStoreDir(opts.stateDir ?? resolveStateDir());
+  const cacheKey = `${backend}:${dir}`;
+  const cached = stores.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  let store: StateStore;
+  if (backend === "sqlite") {
+    store = createSqliteStateStore(dir);
+  } else {
+    store = new FileStateStore(dir);
+  }
+  stores.set(cacheKey, store);
+  return store;
+}
+
+/** Drops cached stores (closing SQLite handles); for tests and shutdown. */
+export function closeStateStores(): void {
+  for (const store of stores.values()) {
+    (store as { close?: () => void }).close?.();
+  }
+  stores.clear();
+}
+
+/**
+ * Opens a namespace of the shared state store. Cheap: the backend is cached
+ * per state dir, the namespace object only carries the TTL policy.
+ */
+export function openStateNamespace<T>(
+  namespace: string,
+  opts: {
+    stateDir?: string;
+    backend?: StateStoreBackend;
+    /** TTL applied on every write unless the call overrides it. */
+    defaultTtlMs?: number;
+    nowMs?: () => number;
+  } = {},
+): StateNamespace<T> {
+  assertNamespace(namespace);
+  const store = openStateStore(opts);
+  const nowMs = opts.nowMs ?? (() => Date.now());
+
+  const expiryFor = (now: number, writeOpts?: StateWriteOptions): number | undefined => {
+    const ttlMs = writeOpts?.ttlMs ?? opts.defaultTtlMs;
+    return ttlMs && ttlMs > 0 ? now + ttlMs : undefined;
+  };
+
+  const dropExpired = (entries: StateEntries, now: number): number => {
+    let removed = 0;
+    for (const [key, entry] of Object.entries(entries)) {
+      if (isStateEntryExpired(entry, now)) {
+        delete entries[key];
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  return {
+    namespace,
+    store,
+    get: async (key) => {
+      const entry = (await store.read(namespace))[key];
+      return entry && !isStateEntryExpired(entry, nowMs()) ? (entry.value as T) : undefined;
+    },
+    entries: async () => {
+      const now = nowMs();
+      return Object.values(await store.read(namespace))
+        .filter((entry) => !isStateEntryExpired(entry, now))
+        .toSorted((a, b) => a.updatedAt - b.updatedAt) as StateEntry<T>[];
+    },
+    set: async (key, value, writeOpts) => {
+      await store.mutate(namespace, (entries) => {
+        const now = nowMs();
+        dropExpired(entries, now);
+        entries[key] = { key, value, updatedAt: now, expiresAt: expiryFor(now, writeOpts) };
+      });
+    },
+    update: async (key, fn, writeOpts) =>
+      store.mutate(namespace, (entries) => {
+        const now = nowMs();
+        dropExpired(entries, now);
+        const next = fn(entries[key]?.value as T | undefined);
+        if (next === undefined) {
+          delete entries[key];
+          return undefined;
+        }
+        entries[key] = { key, value: next, updatedAt: now, expiresAt: expiryFor(now, writeOpts) };
+        return next;
+      }),
+    delete: async (key) =>
+      store.mutate(namespace, (entries) => {
+        const existed = key in entries;
+        delete entries[key];
+        return existed;
+      }),
+    prune: async () => store.mutate(namespace, (entries) => dropExpired(entries, nowMs())),
+  };
+}
+
+export type StateNamespaceSummary = {
+  namespace: string;
+  entries: number;
+  expired: number;
+  lastUpdatedAt?: number;
+};
+
+export type StateInspection = {
+  backend: StateStoreBackend;
+  location: string;
+  namespaces: StateNamespaceSummary[];
+};
+
+/** Per-namespace counts for `openclaw state inspect`. */
+export async function inspectStateStore(
+  opts: { stateDir?: string; backend?: StateStoreBackend; nowMs?: number } = {},
+): Promise<StateInspection> {
+  const store = openStateStore(opts);
+  const now = opts.nowMs ?? Date.now();
+  const namespaces: StateNamespaceSummary[] = [];
+  for (const namespace of await store.listNamespaces()) {
+    const entries = Object.values(await store.read(namespace));
+    const expired = entries.filter((entry) => isStateEntryExpired(entry, now)).length;
+    const lastUpdatedAt = entries.reduce<number | undefined>(
+      (latest, entry) =>
+        latest === undefined || entry.updatedAt > latest ? entry.updatedAt : latest,
+      undefined,
+    );
+    namespaces.push({
+      namespace,
+      entries: entries.length - expired,
+      expired,
+      ...(lastUpdatedAt !== undefined ? { lastUpdatedAt } : {}),
+    });
+  }
+  return { backend: store.backend, location: store.location, namespaces };
+}
+
+/**
+ * One-time import of a pre-state-store JSON file into a namespace. Keys the
+ * namespace already has win; the legacy file is renamed to `*.migrated`.
+ */
+export async function importLegacyStateFile<T>(
+  ns: StateNamespace<T>,
+  legacyPath: string,
+  toEntries: (raw: unknown) => Array<{ key: string; value: T; updatedAt?: number }>,
+  opts: { ttlMs?: number; nowMs?: number } = {},
+): Promise<number> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(legacyPath, "utf-8"));
+  } catch {
+    return 0;
+  }
+  const now = opts.nowMs ?? Date.now();
+  let candidates: Array<{ key: string; value: T; updatedAt?: number }> = [];
+  try {
+    candidates = toEntries(raw);
+  } catch {
+    candidates = [];
+  }
+  const imported = await ns.store.mutate(ns.namespace, (entries) => {
+    let count = 0;
+    for (const candidate of candidates) {
+      if (entries[candidate.key]) {
+        continue;
+      }
+      const updatedAt = candidate.updatedAt ?? now;
+      const expiresAt = opts.ttlMs && opts.ttlMs > 0 ? updatedAt + opts.ttlMs : undefined;
+      if (expiresAt !== undefined && expiresAt <= now) {
+        continue;
+      }
+      entries[candidate.key] = { key: candidate.key, value: candidate.value, updatedAt, expiresAt };
+      count++;
+    }
+    return count;
+  });
+  await fs.promises.rename(legacyPath, `${legacyPath}.migrated`).catch(() => undefined);
+  return imported;
+}
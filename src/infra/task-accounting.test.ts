@@ -0,0 +1,271 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { initA2AJobManager, resetA2AJobManager } from "../agents/tools/a2a-job-manager.js";
+import {
+  TASK_HISTORY_DIR,
+  formatTaskHistoryEntry,
+  readTask,
+  updateCurrentTaskPointer,
+  writeTask,
+  type TaskFile,
+  type TaskUsageSummary,
+} from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { emitAgentEvent } from "./agent-events.js";
+import { loadSessionCostSummary } from "./session-cost-usage.js";
+import {
+  aggregateTaskAccounting,
+  computeTaskUsage,
+  loadTaskAccountingRecords,
+  parseTaskHistoryAccounting,
+  startTaskUsageTracker,
+  type TaskUsageTracker,
+} from "./task-accounting.js";
+
+vi.mock("./session-cost-usage.js", () => ({
+  loadSessionCostSummary: vi.fn(async () => null),
+}));
+
+let rootDir = "";
+let cfg: OpenClawConfig;
+let tracker: TaskUsageTracker | null = null;
+
+function makeTask(id: string, overrides: Partial<TaskFile> = {}): TaskFile {
+  return {
+    id,
+    status: "in_progress",
+    priority: "medium",
+    description: `Task ${id}`,
+    created: "2026-03-01T00:00:00.000Z",
+    lastActivity: "2026-03-01T00:00:00.000Z",
+    progress: [],
+    ...overrides,
+  };
+}
+
+function usage(overrides: Partial<TaskUsageSummary> = {}): TaskUsageSummary {
+  return {
+    wallClockMs: 3_600_000,
+    activeMs: 600_000,
+    runs: 3,
+    tokens: 12_000,
+    costUsd: 0.5,
+    sessionKeys: ["agent:dev:main"],
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-accounting-"));
+  cfg = {
+    agents: {
+      list: ["main", "dev"].map((id) => ({ id, workspace: path.join(rootDir, id) })),
+    },
+  } as OpenClawConfig;
+});
+
+afterEach(async () => {
+  tracker?.stop();
+  tracker = null;
+  resetA2AJobManager();
+  vi.mocked(loadSessionCostSummary).mockReset();
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe("task usage tracker", () => {
+  it("attributes runs of the creating session to its task", async () => {
+    const workspaceDir = path.join(rootDir, "dev");
+    await writeTask(workspaceDir, makeTask("task_a", { createdBySessionKey: "agent:dev:main" }));
+    await writeTask(workspaceDir, makeTask("task_b", { createdBySessionKey: "agent:dev:other" }));
+    tracker = startTaskUsageTracker({ cfg });
+
+    const sessionKey = "agent:dev:main";
+    emitAgentEvent({ runId: "r1", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emitAgentEvent({ runId: "r1", stream: "lifecycle", sessionKey, data: { phase: "end" } });
+    emitAgentEvent({ runId: "r2", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emitAgentEvent({
+      runId: "r2",
+      stream: "lifecycle",
+      sessionKey,
+      data: { phase: "error", error: "boom" },
+    });
+    await tracker.flush();
+
+    const task = await readTask(workspaceDir, "task_a");
+    expect(task?.usage?.runs).toBe(2);
+    expect(task?.usage?.activeMs).toBeGreaterThanOrEqual(0);
+    expect((await readTask(workspaceDir, "task_b"))?.usage).toBeUndefined();
+  });
+
+  it("falls back to the focus task when it has no creating session", async () => {
+    const workspaceDir = path.join(rootDir, "main");
+    await writeTask(workspaceDir, makeTask("task_legacy"));
+    await updateCurrentTaskPointer(workspaceDir, "task_legacy");
+    tracker = startTaskUsageTracker({ cfg });
+
+    const sessionKey = "agent:main:main";
+    emitAgentEvent({ runId: "r1", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emitAgentEvent({ runId: "r1", stream: "lifecycle", sessionKey, data: { phase: "end" } });
+    await tracker.flush();
+
+    expect((await readTask(workspaceDir, "task_legacy"))?.usage?.runs).toBe(1);
+  });
+
+  it("computes wall-clock time and carries the tracked runs", async () => {
+    const summary = await computeTaskUsage(
+      cfg,
+      makeTask("task_c", { usage: { runs: 4, activeMs: 90_000 } }),
+      { nowMs: Date.parse("2026-03-01T02:00:00.000Z") },
+    );
+    expect(summary).toMatchObject({
+      wallClockMs: 2 * 3_600_000,
+      activeMs: 90_000,
+      runs: 4,
+      tokens: 0,
+      costUsd: 0,
+      sessionKeys: [],
+    });
+  });
+});
+
+describe("task spend", () => {
+  const sessionKeys = ["agent:main:main", "agent:dev:main"];
+
+  beforeEach(async () => {
+    cfg.session = { store: path.join(rootDir, "sessions", "{agentId}.json") };
+    await fs.mkdir(path.join(rootDir, "sessions"), { recursive: true });
+    for (const agentId of ["main", "dev"]) {
+      const store = { [`agent:${agentId}:main`]: { sessionId: `s-${agentId}`, updatedAt: 1 } };
+      await fs.writeFile(
+        path.join(rootDir, "sessions", `${agentId}.json`),
+        JSON.stringify(store),
+        "utf-8",
+      );
+    }
+    vi.mocked(loadSessionCostSummary).mockImplementation(
+      async (params) =>
+        ({
+          totalTokens: params.sessionId === "s-dev" ? 2_000 : 1_000,
+          totalCost: 0.25,
+          missingCostEntries: 0,
+        }) as Awaited<ReturnType<typeof loadSessionCostSummary>>,
+    );
+  });
+
+  it("counts sessions other agents ran for the task's work session", async () => {
+    const jobs = initA2AJobManager(rootDir);
+    await jobs.init();
+    await jobs.createJob({
+      jobId: "job-1",
+      requesterSessionKey: "agent:main:main",
+      targetSessionKey: "agent:dev:main",
+      displayKey: "dev",
+      message: "review this",
+      conversationId: "c-1",
+      maxPingPongTurns: 0,
+      announceTimeoutMs: 1_000,
+      workSessionId: "ws_release",
+    });
+    await jobs.createJob({
+      jobId: "job-2",
+      targetSessionKey: "agent:dev:other",
+      displayKey: "dev",
+      message: "unrelated",
+      conversationId: "c-2",
+      maxPingPongTurns: 0,
+      announceTimeoutMs: 1_000,
+      workSessionId: "ws_other",
+    });
+
+    const summary = await computeTaskUsage(
+      cfg,
+      makeTask("task_ws", { createdBySessionKey: "agent:main:main", workSessionId: "ws_release" }),
+      { nowMs: Date.parse("2026-03-01T01:00:00.000Z") },
+    );
+    expect(summary.sessionKeys).toEqual(sessionKeys);
+    expect(summary).toMatchObject({ tokens: 3_000, costUsd: 0.5 });
+  });
+
+  it("reuses a recent scan when asked to", async () => {
+    const task = makeTask("task_cached", { createdBySessionKey: "agent:main:main" });
+    const nowMs = Date.parse("2026-03-01T01:00:00.000Z");
+    await computeTaskUsage(cfg, task, { nowMs });
+    expect(loadSessionCostSummary).toHaveBeenCalledTimes(1);
+
+    const cached = await computeTaskUsage(cfg, task, { nowMs: nowMs + 30_000, maxAgeMs: 60_000 });
+    expect(loadSessionCostSummary).toHaveBeenCalledTimes(1);
+    expect(cached).toMatchObject({ tokens: 1_000, wallClockMs: 3_630_000 });
+
+    await computeTaskUsage(cfg, task, { nowMs: nowMs + 90_000, maxAgeMs: 60_000 });
+    await computeTaskUsage(cfg, task, { nowMs: nowMs + 90_000 });
+    expect(loadSessionCostSummary).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("task accounting report", () => {
+  it("round-trips accounting through task history", () => {
+    const entry = formatTaskHistoryEntry(
+      makeTask("task_done", {
+        priority: "high",
+        estimatedEffort: "small",
+        milestoneId: "m1",
+        outcome: { kind: "completed", summary: "Shipped", usage: usage() },
+      }),
+      "Shipped",
+    );
+    const [record] = parseTaskHistoryAccounting(`# Task History\n${entry}`, "dev");
+    expect(record).toMatchObject({
+      agentId: "dev",
+      taskId: "task_done",
+      description: "Task task_done",
+      outcome: "completed",
+      priority: "high",
+      estimatedEffort: "small",
+      milestoneId: "m1",
+      activeMs: 600_000,
+      costUsd: 0.5,
+    });
+  });
+
+  it("loads history inside the window and aggregates it", async () => {
+    const historyDir = path.join(rootDir, "dev", TASK_HISTORY_DIR);
+    await fs.mkdir(historyDir, { recursive: true });
+    const line = (id: string, when: string, data: object) =>
+      `\n---\n\n## [${when}] Task ${id}\n\n**Task ID:** ${id}\n\n**Accounting:** ${JSON.stringify(data)}\n`;
+    await fs.writeFile(
+      path.join(historyDir, "2026-03.md"),
+      [
+        "# Task History - March 2026",
+        line("old", "2026-03-01T00:00:00.000Z", { outcome: "completed", ...usage() }),
+        line("a", "2026-03-10T00:00:00.000Z", {
+          outcome: "completed",
+          priority: "high",
+          estimatedEffort: "small",
+          ...usage({ activeMs: 100_000, costUsd: 0.25 }),
+        }),
+        line("b", "2026-03-11T00:00:00.000Z", {
+          outcome: "cancelled",
+          priority: "high",
+          estimatedEffort: "large",
+          ...usage({ activeMs: 300_000, costUsd: 1 }),
+        }),
+        "\n---\n\n## [2026-03-12T00:00:00.000Z] Legacy entry\n\n**Task ID:** task_legacy\n",
+      ].join(""),
+    );
+
+    const records = await loadTaskAccountingRecords(cfg, {
+      sinceMs: Date.parse("2026-03-05T00:00:00.000Z"),
+    });
+    expect(records.map((record) => record.taskId)).toEqual(["a", "b"]);
+
+    const byEffort = aggregateTaskAccounting(records, "effort");
+    expect(byEffort.map((group) => [group.key, group.avgActiveMs, group.costUsd])).toEqual([
+      ["large", 300_000, 1],
+      ["small", 100_000, 0.25],
+    ]);
+    const [byPriority] = aggregateTaskAccounting(records, "priority");
+    expect(byPriority).toMatchObject({ key: "high", tasks: 2, completed: 1, cancelled: 1 });
+  });
+});
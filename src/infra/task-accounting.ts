@@ -0,0 +1,448 @@
+/**
+ * Task time and spend accounting.
+ *
+ * - While a task is open, the usage tracker attributes every agent run of the
+ *   session that created it (or, failing that, the agent's focus task) to the
+ *   task as `task.usage` (run count + active run time).
+ * - When a task ends, `computeTaskUsage` adds wall-clock time and the tokens and
+ *   cost that the task's sessions spent between `created` and now: the creator,
+ *   delegated subagents, and the sessions other agents ran for its
+ *   `workSessionId` (sessions_send jobs). The summary is stored on the outcome
+ *   and archived as an `**Accounting:**` line in task-history, which
+ *   `openclaw tasks report` reads. `task_status` reuses a recent scan.
+ *
+ * Tasks sharing a session over the same window each count that window's spend.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { getA2AJobManager } from "../agents/tools/a2a-job-manager.js";
+import {
+  TASK_HISTORY_DIR,
+  listTasks,
+  readCurrentTaskId,
+  readTask,
+  writeTask,
+  type EstimatedEffort,
+  type TaskFile,
+  type TaskPriority,
+  type TaskUsageSummary,
+} from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { loadSessionStore, resolveStorePath } from "../config/sessions.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { parseAgentSessionKey } from "../sessions/session-key-utils.js";
+import { onAgentEvent } from "./agent-events.js";
+import { loadSessionCostSummary } from "./session-cost-usage.js";
+import { acquireTaskLock } from "./task-lock.js";
+
+const log = createSubsystemLogger("task-accounting");
+
+const LOCK_ATTEMPTS = 5;
+const LOCK_RETRY_MS = 100;
+/** Spend scans older than this are dropped from the cache. */
+const SPEND_CACHE_MAX_AGE_MS = 10 * 60_000;
+
+type TaskSpend = { tokens: number; costUsd: number; missingCostEntries: number };
+
+/** Recent transcript scans keyed by task, window start and session set. */
+const spendCache = new Map<string, { spend: TaskSpend; computedAtMs: number }>();
+
+/**
+ * Sessions whose spend belongs to a task: its creator, its delegated
+ * subagents, and any `workSessionKeys` other agents ran for its work session.
+ */
+export function resolveTaskSessionKeys(task: TaskFile, workSessionKeys: string[] = []): string[] {
+  const keys = [
+    task.createdBySessionKey,
+    ...(task.delegations ?? []).map((delegation) => delegation.targetSessionKey),
+    ...workSessionKeys,
+  ];
+  return [...new Set(keys.filter((key): key is string => Boolean(key?.trim())))];
+}
+
+/** Target sessions of the sessions_send jobs tagged with `workSessionId`. */
+async function resolveWorkSessionKeys(workSessionId: string | undefined): Promise<string[]> {
+  const manager = getA2AJobManager();
+  if (!workSessionId || !manager) {
+    return [];
+  }
+  const jobs = await manager.getAllJobs();
+  return jobs
+    .filter((job) => job.workSessionId === workSessionId)
+    .map((job) => job.targetSessionKey);
+}
+
+async function loadSessionSpend(
+  cfg: OpenClawConfig,
+  sessionKey: string,
+  startMs: number,
+  endMs: number,
+) {
+  const agentId = resolveAgentIdFromSessionKey(sessionKey);
+  const store = loadSessionStore(resolveStorePath(cfg.session?.store, { agentId }));
+  const entry = store[sessionKey];
+  if (!entry?.sessionId) {
+    return null;
+  }
+  return await loadSessionCostSummary({
+    sessionId: entry.sessionId,
+    sessionEntry: entry,
+    sessionFile: entry.sessionFile,
+    config: cfg,
+    agentId,
+    startMs,
+    endMs,
+  });
+}
+
+async function scanTaskSpend(
+  cfg: OpenClawConfig,
+  sessionKeys: string[],
+  startMs: number,
+  endMs: number,
+): Promise<TaskSpend> {
+  const totals: TaskSpend = { tokens: 0, costUsd: 0, missingCostEntries: 0 };
+  for (const sessionKey of sessionKeys) {
+    try {
+      const spend = await loadSessionSpend(cfg, sessionKey, startMs, endMs);
+      totals.tokens += spend?.totalTokens ?? 0;
+      totals.costUsd += spend?.totalCost ?? 0;
+      totals.missingCostEntries += spend?.missingCostEntries ?? 0;
+    } catch (err) {
+      log.debug(`Failed to load session usage for ${sessionKey}: ${String(err)}`);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Wall-clock time, attributed runs, tokens and cost for a task up to `nowMs`.
+ * With `maxAgeMs`, tokens and cost come from a scan of the same sessions made
+ * within that window instead of rescanning every transcript.
+ */
+export async function computeTaskUsage(
+  cfg: OpenClawConfig,
+  task: TaskFile,
+  opts: { nowMs?: number; maxAgeMs?: number } = {},
+): Promise<TaskUsageSummary> {
+  const nowMs = opts.nowMs ?? Date.now();
+  const createdMs = Date.parse(task.created);
+  const startMs = Number.isFinite(createdMs) ? createdMs : nowMs;
+  let workSessionKeys: string[] = [];
+  try {
+    workSessionKeys = await resolveWorkSessionKeys(task.workSessionId);
+  } catch (err) {
+    log.debug(`Failed to read work session jobs for ${task.id}: ${String(err)}`);
+  }
+  const sessionKeys = resolveTaskSessionKeys(task, workSessionKeys);
+
+  const cacheKey = `${task.id}|${startMs}|${sessionKeys.join(",")}`;
+  const cached = spendCache.get(cacheKey);
+  let spend: TaskSpend;
+  if (cached && opts.maxAgeMs !== undefined && nowMs - cached.computedAtMs <= opts.maxAgeMs) {
+    spend = cached.spend;
+  } else {
+    spend = await scanTaskSpend(cfg, sessionKeys, startMs, nowMs);
+    for (const [key, entry] of spendCache) {
+      if (nowMs - entry.computedAtMs > SPEND_CACHE_MAX_AGE_MS) {
+        spendCache.delete(key);
+      }
+    }
+    spendCache.set(cacheKey, { spend, computedAtMs: nowMs });
+  }
+
+  return {
+    wallClockMs: Math.max(0, nowMs - startMs),
+    activeMs: task.usage?.activeMs ?? 0,
+    runs: task.usage?.runs ?? 0,
+    tokens: spend.tokens,
+    costUsd: Math.round(spend.costUsd * 1_000_000) / 1_000_000,
+    missingCostEntries: spend.missingCostEntries > 0 ? spend.missingCostEntries : undefined,
+    sessionKeys,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Live run attribution
+// ---------------------------------------------------------------------------
+
+/** Pick the open task a finished run of `sessionKey` worked on, if any. */
+export async function resolveRunTask(
+  workspaceDir: string,
+  sessionKey: string,
+): Promise<TaskFile | null> {
+  const open = await listTasks(workspaceDir, "in_progress");
+  if (open.length === 0) {
+    return null;
+  }
+  const focusId = await readCurrentTaskId(workspaceDir);
+  const owned = open.filter((task) => task.createdBySessionKey === sessionKey);
+  if (owned.length > 0) {
+    return (
+      owned.find((task) => task.id === focusId) ??
+      owned.toSorted((a, b) => b.lastActivity.localeCompare(a.lastActivity))[0]
+    );
+  }
+  // Legacy tasks carry no session: fall back to the agent's focus task.
+  const focus = open.find((task) => task.id === focusId);
+  return focus && !focus.createdBySessionKey ? focus : null;
+}
+
+async function recordRun(
+  workspaceDir: string,
+  sessionKey: string,
+  durationMs: number,
+  endedAt: number,
+): Promise<void> {
+  const task = await resolveRunTask(workspaceDir, sessionKey);
+  if (!task) {
+    return;
+  }
+  let lock = await acquireTaskLock(workspaceDir, task.id);
+  for (let attempt = 1; !lock && attempt < LOCK_ATTEMPTS; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS * attempt));
+    lock = await acquireTaskLock(workspaceDir, task.id);
+  }
+  if (!lock) {
+    log.warn("Dropped run usage: task stayed locked", { taskId: task.id });
+    return;
+  }
+  try {
+    const fresh = await readTask(workspaceDir, task.id);
+    if (!fresh) {
+      return;
+    }
+    fresh.usage = {
+      runs: (fresh.usage?.runs ?? 0) + 1,
+      activeMs: (fresh.usage?.activeMs ?? 0) + durationMs,
+      lastRunAt: new Date(endedAt).toISOString(),
+    };
+    await writeTask(workspaceDir, fresh);
+  } finally {
+    await lock.release();
+  }
+}
+
+export type TaskUsageTracker = {
+  stop: () => void;
+  updateConfig: (cfg: OpenClawConfig) => void;
+  /** Resolves once every queued write has landed (tests/shutdown). */
+  flush: () => Promise<void>;
+};
+
+/** Attribute agent runs (count + active time) to the tasks they worked on. */
+export function startTaskUsageTracker(opts: { cfg: OpenClawConfig }): TaskUsageTracker {
+  let cfg = opts.cfg;
+  let stopped = false;
+  const runStarts = new Map<string, number>();
+  let queue: Promise<void> = Promise.resolve();
+
+  const unsubscribe = onAgentEvent((evt) => {
+    if (stopped || evt.stream !== "lifecycle" || !evt.sessionKey) {
+      return;
+    }
+    const phase = evt.data?.phase;
+    if (phase === "start") {
+      runStarts.set(evt.runId, evt.ts);
+      return;
+    }
+    if (phase !== "end" && phase !== "error") {
+      return;
+    }
+    const startedAt = runStarts.get(evt.runId);
+    runStarts.delete(evt.runId);
+    const agentId = parseAgentSessionKey(evt.sessionKey)?.agentId;
+    if (startedAt === undefined || !agentId) {
+      return;
+    }
+    const sessionKey = evt.sessionKey;
+    const durationMs = Math.max(0, evt.ts - startedAt);
+    queue = queue
+      .then(() => recordRun(resolveAgentWorkspaceDir(cfg, agentId), sessionKey, durationMs, evt.ts))
+      .catch((error) => {
+        log.warn("Failed to record task run usage", { agentId, error: String(error) });
+      });
+  });
+
+  return {
+    stop: () => {
+      stopped = true;
+      unsubscribe();
+      runStarts.clear();
+    },
+    updateConfig: (next: OpenClawConfig) => {
+      cfg = next;
+    },
+    flush: () => queue,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reporting
+// ---------------------------------------------------------------------------
+
+export type TaskAccountingRecord = TaskUsageSummary & {
+  agentId: string;
+  taskId: string;
+  description: string;
+  endedAt: string;
+  outcome: "completed" | "cancelled";
+  priority: TaskPriority;
+  estimatedEffort?: EstimatedEffort;
+  milestoneId?: string;
+  workSessionId?: string;
+};
+
+export type TaskReportGroupBy = "agent" | "priority" | "milestone" | "effort";
+
+export type TaskReportGroup = {
+  key: string;
+  tasks: number;
+  completed: number;
+  cancelled: number;
+  wallClockMs: number;
+  activeMs: number;
+  runs: number;
+  tokens: number;
+  costUsd: number;
+  avgActiveMs: number;
+  avgCostUsd: number;
+};
+
+/** Parse the `**Accounting:**` lines of one task-history month file. */
+export function parseTaskHistoryAccounting(
+  content: string,
+  agentId: string,
+): TaskAccountingRecord[] {
+  const records: TaskAccountingRecord[] = [];
+  for (const entry of content.split(/(?=^## \[)/m)) {
+    const header = entry.match(/^## \[([^\]]+)\] (.*)$/m);
+    const taskId = entry.match(/^\*\*Task ID:\*\* (\S+)/m)?.[1];
+    const accountingLine = entry.match(/^\*\*Accounting:\*\* (\{.*\})\s*$/m)?.[1];
+    if (!header || !taskId || !accountingLine) {
+      continue;
+    }
+    try {
+      const data = JSON.parse(accountingLine) as Partial<TaskAccountingRecord>;
+      if (typeof data.wallClockMs !== "number" || typeof data.costUsd !== "number") {
+        continue;
+      }
+      records.push({
+        agentId,
+        taskId,
+        description: header[2].trim(),
+        endedAt: header[1],
+        outcome: data.outcome === "cancelled" ? "cancelled" : "completed",
+        priority: data.priority ?? "medium",
+        estimatedEffort: data.estimatedEffort,
+        milestoneId: data.milestoneId,
+        workSessionId: data.workSessionId,
+        wallClockMs: data.wallClockMs,
+        activeMs: data.activeMs ?? 0,
+        runs: data.runs ?? 0,
+        tokens: data.tokens ?? 0,
+        costUsd: data.costUsd,
+        missingCostEntries: data.missingCostEntries,
+        sessionKeys: data.sessionKeys ?? [],
+      });
+    } catch {
+      // Ignore malformed accounting lines
+    }
+  }
+  return records;
+}
+
+/** Read archived task accounting for every agent (or one), ended inside the window. */
+export async function loadTaskAccountingRecords(
+  cfg: OpenClawConfig,
+  opts: { sinceMs?: number; untilMs?: number; agentId?: string } = {},
+): Promise<TaskAccountingRecord[]> {
+  const agentIds = opts.agentId ? [opts.agentId] : listAgentIds(cfg);
+  const sinceMonth =
+    opts.sinceMs !== undefined ? new Date(opts.sinceMs).toISOString().slice(0, 7) : undefined;
+  const seenDirs = new Set<string>();
+  const records: TaskAccountingRecord[] = [];
+
+  for (const agentId of agentIds) {
+    const historyDir = path.join(resolveAgentWorkspaceDir(cfg, agentId), TASK_HISTORY_DIR);
+    // Agents may share a workspace; read each history once.
+    if (seenDirs.has(historyDir)) {
+      continue;
+    }
+    seenDirs.add(historyDir);
+    const months = (await fs.readdir(historyDir).catch(() => [] as string[]))
+      .filter((name) => /^\d{4}-\d{2}\.md$/.test(name))
+      .filter((name) => !sinceMonth || name.slice(0, 7) >= sinceMonth);
+    for (const month of months) {
+      const content = await fs.readFile(path.join(historyDir, month), "utf-8").catch(() => "");
+      for (const record of parseTaskHistoryAccounting(content, agentId)) {
+        const endedMs = Date.parse(record.endedAt);
+        if (opts.sinceMs !== undefined && endedMs < opts.sinceMs) {
+          continue;
+        }
+        if (opts.untilMs !== undefined && endedMs > opts.untilMs) {
+          continue;
+        }
+        records.push(record);
+      }
+    }
+  }
+  return records.toSorted((a, b) => a.endedAt.localeCompare(b.endedAt));
+}
+
+function groupKey(record: TaskAccountingRecord, by: TaskReportGroupBy): string {
+  switch (by) {
+    case "agent":
+      return record.agentId;
+    case "priority":
+      return record.priority;
+    case "milestone":
+      return record.milestoneId ?? "(none)";
+    case "effort":
+      return record.estimatedEffort ?? "(unestimated)";
+  }
+  return "(none)";
+}
+
+/** Totals per group, most expensive first. */
+export function aggregateTaskAccounting(
+  records: TaskAccountingRecord[],
+  by: TaskReportGroupBy,
+): TaskReportGroup[] {
+  const groups = new Map<string, TaskReportGroup>();
+  for (const record of records) {
+    const key = groupKey(record, by);
+    const group = groups.get(key) ?? {
+      key,
+      tasks: 0,
+      completed: 0,
+      cancelled: 0,
+      wallClockMs: 0,
+      activeMs: 0,
+      runs: 0,
+      tokens: 0,
+      costUsd: 0,
+      avgActiveMs: 0,
+      avgCostUsd: 0,
+    };
+    group.tasks += 1;
+    group[record.outcome] += 1;
+    group.wallClockMs += record.wallClockMs;
+    group.activeMs += record.activeMs;
+    group.runs += record.runs;
+    group.tokens += record.tokens;
+    group.costUsd += record.costUsd;
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .map((group) => ({
+      ...group,
+      costUsd: Math.round(group.costUsd * 1_000_000) / 1_000_000,
+      avgActiveMs: Math.round(group.activeMs / group.tasks),
+      avgCostUsd: Math.round((group.costUsd / group.tasks) * 1_000_000) / 1_000_000,
+    }))
+    .toSorted((a, b) => b.costUsd - a.costUsd || b.tasks - a.tasks || a.key.localeCompare(b.key));
+}
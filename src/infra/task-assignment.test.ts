@@ -0,0 +1,186 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { writeTask, type TaskFile } from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  autoAssignTask,
+  decideTaskAssignment,
+  type AssignmentCandidateInput,
+  type AssignmentPolicy,
+} from "./task-assignment.js";
+import { updateAgentEntry } from "./team-state.js";
+
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+const policy: AssignmentPolicy = { nowMs: NOW, maxLoad: 6, excludeLead: true };
+
+function candidate(
+  agentId: string,
+  overrides: Partial<AssignmentCandidateInput> = {},
+): AssignmentCandidateInput {
+  return {
+    agentId,
+    role: "worker",
+    capabilities: [],
+    openLoad: 0,
+    recentAssignments: 0,
+    lastAssignedMs: 0,
+    ...overrides,
+  };
+}
+
+describe("decideTaskAssignment", () => {
+  it("only considers agents with every required skill and the required role", () => {
+    const result = decideTaskAssignment(
+      { requiredSkills: ["TypeScript", "ui"], requiredRole: "specialist" },
+      [
+        candidate("dev", { capabilities: ["typescript"] }),
+        candidate("design", { role: "specialist", capabilities: ["typescript", "ui"] }),
+        candidate("web", { capabilities: ["typescript", "ui"] }),
+      ],
+      policy,
+    );
+    expect(result.assignedTo).toBe("design");
+    expect(result.candidates.find((c) => c.agentId === "dev")?.reasons).toContain(
+      "missing skills: ui",
+    );
+    expect(result.candidates.find((c) => c.agentId === "web")?.eligible).toBe(false);
+  });
+
+  it("prefers the least loaded healthy agent and weighs load by task effort", () => {
+    const candidates = [
+      candidate("busy", { openLoad: 2 }),
+      candidate("flaky", { openLoad: 1, team: { status: "idle", consecutiveFailures: 2 } }),
+      candidate("free", { openLoad: 1 }),
+    ];
+    const small = decideTaskAssignment({ estimatedEffort: "small" }, candidates, policy);
+    expect(small.assignedTo).toBe("free");
+    expect(small.summary).toContain("Assigned to free (score -2), ahead of busy (score -4)");
+
+    const large = decideTaskAssignment({ estimatedEffort: "large" }, candidates, policy);
+    expect(large.candidates.map((c) => [c.agentId, c.score])).toEqual([
+      ["free", -6],
+      ["busy", -12],
+      ["flaky", -12],
+    ]);
+  });
+
+  it("skips the lead, backing-off agents and agents at capacity", () => {
+    const result = decideTaskAssignment(
+      { estimatedEffort: "medium" },
+      [
+        candidate("main", { role: "lead" }),
+        candidate("dev", {
+          team: { status: "interrupted", consecutiveFailures: 1, backoffUntilMs: NOW + 60_000 },
+        }),
+        candidate("qa", { openLoad: 5 }),
+      ],
+      policy,
+    );
+    expect(result.assignedTo).toBeNull();
+    expect(result.summary).toContain("main (lead is excluded from auto-assignment)");
+    expect(result.summary).toContain("qa (at capacity (load 5 + 2 > 6))");
+  });
+
+  it("breaks ties by spreading assignments", () => {
+    const result = decideTaskAssignment(
+      {},
+      [
+        candidate("a", { recentAssignments: 1, lastAssignedMs: NOW - 1000 }),
+        candidate("b", { lastAssignedMs: NOW - 1000 }),
+        candidate("c", { lastAssignedMs: NOW - 5000 }),
+      ],
+      { ...policy, nowMs: NOW },
+    );
+    expect(result.candidates.map((c) => c.agentId)).toEqual(["c", "b", "a"]);
+  });
+});
+
+describe("autoAssignTask", () => {
+  let rootDir = "";
+  let cfg: OpenClawConfig;
+
+  function makeTask(id: string, overrides: Partial<TaskFile> = {}): TaskFile {
+    return {
+      id,
+      status: "backlog",
+      priority: "medium",
+      description: `Task ${id}`,
+      created: "2026-03-01T00:00:00.000Z",
+      lastActivity: "2026-03-01T00:00:00.000Z",
+      progress: [],
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-assignment-"));
+    cfg = {
+      agents: {
+        list: ["main", "dev", "web"].map((id) => ({
+          id,
+          workspace: path.join(rootDir, `workspace-${id}`),
+        })),
+        defaults: {
+          taskContinuation: {
+            team: {
+              lead: "main",
+              capabilities: { dev: ["typescript", "backend"], web: ["typescript", "frontend"] },
+            },
+          },
+        },
+      },
+    } as OpenClawConfig;
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("reads load, team state and assignment history from disk", async () => {
+    await writeTask(
+      path.join(rootDir, "workspace-dev"),
+      makeTask("task_a", { estimatedEffort: "large" }),
+    );
+    await updateAgentEntry(rootDir, "web", { consecutiveFailures: 1 });
+    await writeTask(
+      path.join(rootDir, "workspace-web"),
+      makeTask("task_b", {
+        status: "completed",
+        assignment: {
+          assignedTo: "web",
+          decidedAt: new Date(NOW - 60_000).toISOString(),
+          summary: "",
+          candidates: [],
+        },
+      }),
+    );
+
+    const { decision } = await autoAssignTask(
+      cfg,
+      { requiredSkills: ["typescript"] },
+      { decidedBy: "main", nowMs: NOW, stateDir: rootDir },
+    );
+
+    expect(decision).toMatchObject({ assignedTo: "web", decidedBy: "main" });
+    expect(decision?.requiredSkills).toEqual(["typescript"]);
+    const web = decision?.candidates.find((c) => c.agentId === "web");
+    expect(web?.reasons).toEqual([
+      "has typescript (+10)",
+      "1 recent failure(s) (-3)",
+      "1 recent auto-assignment(s) (-1)",
+    ]);
+    expect(decision?.candidates.find((c) => c.agentId === "dev")?.score).toBe(10 - 6);
+  });
+
+  it("returns no decision when nobody qualifies", async () => {
+    const result = await autoAssignTask(
+      cfg,
+      { requiredSkills: ["rust"] },
+      { nowMs: NOW, stateDir: rootDir },
+    );
+    expect(result.decision).toBeNull();
+    expect(result.summary).toContain("dev (missing skills: rust)");
+  });
+});
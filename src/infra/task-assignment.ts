@@ -0,0 +1,274 @@
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  listTasks,
+  type EstimatedEffort,
+  type TaskAssignmentCandidate,
+  type TaskAssignmentDecision,
+  type TaskStatus,
+} from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { effortWeight } from "./task-dependency-graph.js";
+import { resolveTeamConfig } from "./team-state-tracker.js";
+import { readTeamState, type AgentRole, type AgentTeamEntry } from "./team-state.js";
+
+/** Open statuses that count towards an agent's load. */
+const LOAD_STATUSES = new Set<TaskStatus>([
+  "pending",
+  "pending_approval",
+  "in_progress",
+  "blocked",
+  "backlog",
+]);
+
+// Score weights. Every factor is echoed into the candidate's `reasons`.
+const SKILL_MATCH_POINTS = 10;
+const LOAD_PENALTY = 2;
+const BUSY_PENALTY = 2;
+const FAILURE_PENALTY = 3;
+const MAX_PENALIZED_FAILURES = 5;
+const FAIRNESS_PENALTY = 1;
+
+export type AssignmentTaskInput = {
+  requiredSkills?: string[];
+  requiredRole?: AgentRole;
+  estimatedEffort?: EstimatedEffort;
+};
+
+export type AssignmentCandidateInput = {
+  agentId: string;
+  role: AgentRole;
+  capabilities: string[];
+  /** Sum of effort weights of the agent's open tasks. */
+  openLoad: number;
+  team?: Pick<AgentTeamEntry, "status" | "consecutiveFailures" | "backoffUntilMs">;
+  /** Auto-assignments the agent received inside the fairness window. */
+  recentAssignments: number;
+  lastAssignedMs: number;
+};
+
+export type AssignmentPolicy = {
+  nowMs: number;
+  maxLoad: number;
+  excludeLead: boolean;
+};
+
+export type AssignmentResult = {
+  assignedTo: string | null;
+  candidates: TaskAssignmentCandidate[];
+  summary: string;
+};
+
+export function normalizeSkills(skills: readonly string[] | undefined): string[] {
+  return [...new Set((skills ?? []).map((skill) => skill.trim().toLowerCase()).filter(Boolean))];
+}
+
+function scoreCandidate(
+  task: AssignmentTaskInput,
+  candidate: AssignmentCandidateInput,
+  policy: AssignmentPolicy,
+): TaskAssignmentCandidate & { lastAssignedMs: number; recentAssignments: number } {
+  const reasons: string[] = [];
+  let eligible = true;
+  let score = 0;
+
+  const requiredSkills = normalizeSkills(task.requiredSkills);
+  const missing = requiredSkills.filter((skill) => !candidate.capabilities.includes(skill));
+  if (missing.length > 0) {
+    eligible = false;
+    reasons.push(`missing skills: ${missing.join(", ")}`);
+  } else if (requiredSkills.length > 0) {
+    score += SKILL_MATCH_POINTS * requiredSkills.length;
+    reasons.push(
+      `has ${requiredSkills.join(", ")} (+${SKILL_MATCH_POINTS * requiredSkills.length})`,
+    );
+  }
+
+  if (task.requiredRole && candidate.role !== task.requiredRole) {
+    eligible = false;
+    reasons.push(`role ${candidate.role}, needs ${task.requiredRole}`);
+  } else if (!task.requiredRole && candidate.role === "lead" && policy.excludeLead) {
+    eligible = false;
+    reasons.push("lead is excluded from auto-assignment");
+  }
+
+  const backoffUntilMs = candidate.team?.backoffUntilMs;
+  if (backoffUntilMs !== undefined && backoffUntilMs > policy.nowMs) {
+    eligible = false;
+    reasons.push(`backing off until ${new Date(backoffUntilMs).toISOString()}`);
+  }
+
+  const taskWeight = effortWeight(task.estimatedEffort);
+  if (candidate.openLoad + taskWeight > policy.maxLoad) {
+    eligible = false;
+    reasons.push(`at capacity (load ${candidate.openLoad} + ${taskWeight} > ${policy.maxLoad})`);
+  }
+
+  // Bigger tasks weigh existing load more heavily: they should land on the freest agent.
+  const loadPenalty = LOAD_PENALTY * candidate.openLoad * taskWeight;
+  if (loadPenalty > 0) {
+    score -= loadPenalty;
+    reasons.push(`open load ${candidate.openLoad} × effort ${taskWeight} (-${loadPenalty})`);
+  }
+
+  if (candidate.team?.status === "active") {
+    score -= BUSY_PENALTY;
+    reasons.push(`currently running (-${BUSY_PENALTY})`);
+  }
+
+  const failures = Math.min(candidate.team?.consecutiveFailures ?? 0, MAX_PENALIZED_FAILURES);
+  if (failures > 0) {
+    score -= FAILURE_PENALTY * failures;
+    reasons.push(`${failures} recent failure(s) (-${FAILURE_PENALTY * failures})`);
+  }
+
+  if (candidate.recentAssignments > 0) {
+    score -= FAIRNESS_PENALTY * candidate.recentAssignments;
+    reasons.push(
+      `${candidate.recentAssignments} recent auto-assignment(s) (-${FAIRNESS_PENALTY * candidate.recentAssignments})`,
+    );
+  }
+
+  return {
+    agentId: candidate.agentId,
+    eligible,
+    score,
+    reasons,
+    lastAssignedMs: candidate.lastAssignedMs,
+    recentAssignments: candidate.recentAssignments,
+  };
+}
+
+/**
+ * Pick the best agent for a task. Pure: eligibility is a hard filter (skills, role,
+ * backoff, capacity); among eligible agents the highest score wins, and ties go to
+ * the agent with fewer recent assignments, then the one assigned longest ago.
+ */
+export function decideTaskAssignment(
+  task: AssignmentTaskInput,
+  candidates: AssignmentCandidateInput[],
+  policy: AssignmentPolicy,
+): AssignmentResult {
+  const scored = candidates
+    .map((candidate) => scoreCandidate(task, candidate, policy))
+    .toSorted(
+      (a, b) =>
+        Number(b.eligible) - Number(a.eligible) ||
+        b.score - a.score ||
+        a.recentAssignments - b.recentAssignments ||
+        a.lastAssignedMs - b.lastAssignedMs ||
+        a.agentId.localeCompare(b.agentId),
+    );
+  const ranked = scored.map(({ agentId, eligible, score, reasons }) => ({
+    agentId,
+    eligible,
+    score,
+    reasons,
+  }));
+
+  const winner = ranked[0]?.eligible ? ranked[0] : null;
+  if (!winner) {
+    return {
+      assignedTo: null,
+      candidates: ranked,
+      summary:
+        ranked.length === 0
+          ? "No agents configured"
+          : `No eligible agent: ${ranked.map((c) => `${c.agentId} (${c.reasons[0] ?? "ineligible"})`).join("; ")}`,
+    };
+  }
+  const runnerUp = ranked[1]?.eligible ? ranked[1] : null;
+  return {
+    assignedTo: winner.agentId,
+    candidates: ranked,
+    summary:
+      `Assigned to ${winner.agentId} (score ${winner.score})` +
+      (runnerUp ? `, ahead of ${runnerUp.agentId} (score ${runnerUp.score})` : "") +
+      (winner.reasons.length > 0 ? `: ${winner.reasons.join("; ")}` : ""),
+  };
+}
+
+/** Gather load, team state and assignment history for every configured agent. */
+export async function loadAssignmentCandidates(
+  cfg: OpenClawConfig,
+  opts: { nowMs?: number; stateDir?: string } = {},
+): Promise<AssignmentCandidateInput[]> {
+  const nowMs = opts.nowMs ?? Date.now();
+  const teamConfig = resolveTeamConfig(cfg);
+  const team = await readTeamState(opts.stateDir ?? resolveStateDir(process.env));
+  const agentIds = listAgentIds(cfg);
+
+  const candidates = new Map<string, AssignmentCandidateInput>();
+  for (const agentId of agentIds) {
+    const entry = team.agents[agentId];
+    candidates.set(agentId, {
+      agentId,
+      role: teamConfig.roles[agentId] ?? entry?.role ?? "worker",
+      capabilities: teamConfig.capabilities[agentId] ?? [],
+      openLoad: 0,
+      team: entry,
+      recentAssignments: 0,
+      lastAssignedMs: 0,
+    });
+  }
+
+  const seenTaskIds = new Set<string>();
+  for (const agentId of agentIds) {
+    const tasks = await listTasks(resolveAgentWorkspaceDir(cfg, agentId), "all");
+    for (const task of tasks) {
+      // Agents may share a workspace; count each task once.
+      if (seenTaskIds.has(task.id)) {
+        continue;
+      }
+      seenTaskIds.add(task.id);
+      const owner = candidates.get(task.assignee ?? agentId);
+      if (owner && LOAD_STATUSES.has(task.status)) {
+        owner.openLoad += effortWeight(task.estimatedEffort);
+      }
+      const decision = task.assignment;
+      const assigned = decision ? candidates.get(decision.assignedTo) : undefined;
+      if (decision && assigned) {
+        const decidedMs = new Date(decision.decidedAt).getTime();
+        if (Number.isFinite(decidedMs)) {
+          assigned.lastAssignedMs = Math.max(assigned.lastAssignedMs, decidedMs);
+          if (nowMs - decidedMs <= teamConfig.assignment.fairnessWindowMs) {
+            assigned.recentAssignments += 1;
+          }
+        }
+      }
+    }
+  }
+  return [...candidates.values()];
+}
+
+/** Run the engine against live state and return a decision record to store on the task. */
+export async function autoAssignTask(
+  cfg: OpenClawConfig,
+  task: AssignmentTaskInput,
+  opts: { decidedBy?: string; nowMs?: number; stateDir?: string } = {},
+): Promise<{ decision: TaskAssignmentDecision | null; summary: string }> {
+  const nowMs = opts.nowMs ?? Date.now();
+  const { assignment } = resolveTeamConfig(cfg);
+  const candidates = await loadAssignmentCandidates(cfg, { nowMs, stateDir: opts.stateDir });
+  const result = decideTaskAssignment(task, candidates, {
+    nowMs,
+    maxLoad: assignment.maxLoad,
+    excludeLead: assignment.excludeLead,
+  });
+  if (!result.assignedTo) {
+    return { decision: null, summary: result.summary };
+  }
+  const requiredSkills = normalizeSkills(task.requiredSkills);
+  return {
+    decision: {
+      assignedTo: result.assignedTo,
+      decidedAt: new Date(nowMs).toISOString(),
+      decidedBy: opts.decidedBy,
+      requiredSkills: requiredSkills.length > 0 ? requiredSkills : undefined,
+      requiredRole: task.requiredRole,
+      summary: result.summary,
+      candidates: result.candidates,
+    },
+    summary: result.summary,
+  };
+}
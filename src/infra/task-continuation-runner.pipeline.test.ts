@@ -17,6 +17,12 @@ vi.mock("../commands/agent.js", () => ({
 const mockEmit = vi.fn();
 vi.mock("./events/bus.js", () => ({
   emit: (...args: unknown[]) => mockEmit(...args),
+  subscribe: vi.fn(() => () => {}),
+}));
+
+vi.mock("./task-dependency-resolver.js", () => ({
+  findTasksUnblockedBy: vi.fn(async () => []),
+  resolveTaskWorkspaceDirs: vi.fn(() => ["/workspace/test"]),
 }));
 
 vi.mock("./events/schemas.js", () => ({
@@ -51,6 +57,7 @@ const mockFindPendingTasks = vi.fn().mockResolvedValue([]);
 const mockFindPendingApprovalTasks = vi.fn().mockResolvedValue([]);
 const mockWriteTask = vi.fn().mockResolvedValue(undefined);
 const mockReadTask = vi.fn().mockResolvedValue(null);
+const mockListTasks = vi.fn().mockResolvedValue([]);
 vi.mock("../agents/tools/task-tool.js", () => ({
   findActiveTask: (...args: unknown[]) => mockFindActiveTask(...args),
   findPickableBacklogTask: (...args: unknown[]) => mockFindPickableBacklogTask(...args),
@@ -59,6 +66,7 @@ vi.mock("../agents/tools/task-tool.js", () => ({
   findPendingApprovalTasks: (...args: unknown[]) => mockFindPendingApprovalTasks(...args),
   writeTask: (...args: unknown[]) => mockWriteTask(...args),
   readTask: (...args: unknown[]) => mockReadTask(...args),
+  listTasks: (...args: unknown[]) => mockListTasks(...args),
 }));
 
 const mockRelease = vi.fn();
@@ -245,16 +253,11 @@ describe("Backlog auto-pick failure handling", () => {
     };
 
     mockFindPickableBacklogTask.mockResolvedValue(backlogTask);
-    mockReadTask
-      .mockResolvedValueOnce(backlogTask)
-      .mockResolvedValueOnce({
-        ...backlogTask,
-        status: "in_progress",
-        progress: [
-          "Added to backlog",
-          "Auto-picked from backlog by continuation runner",
-        ],
-      });
+    mockReadTask.mockResolvedValueOnce(backlogTask).mockResolvedValueOnce({
+      ...backlogTask,
+      status: "in_progress",
+      progress: ["Added to backlog", "Auto-picked from backlog by continuation runner"],
+    });
     mockAgentCommand.mockRejectedValueOnce(new Error("notify failed"));
 
     const runner = startTaskContinuationRunner({ cfg: testConfig });
@@ -297,3 +300,29 @@ describe("C3 - zombie reassignCount logic (unit)", () => {
     expect(reassignCount).toBe(1);
   });
 });
+
+describe("C3 - zombie scan reads the task store", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    __resetAgentStates();
+    mockGetQueueSize.mockReturnValue(0);
+    mockFindActiveTask.mockResolvedValue(null);
+    mockFindPickableBacklogTask.mockResolvedValue(null);
+  });
+
+  it("moves a stale in-progress task from the store back to the backlog", async () => {
+    const zombie = makeIdleTask({ id: "task_zombie1" });
+    mockListTasks.mockResolvedValue([zombie]);
+    mockReadTask.mockResolvedValue({ ...zombie, progress: [...zombie.progress] });
+
+    const runner = startTaskContinuationRunner({ cfg: testConfig });
+    await runner.checkNow();
+    runner.stop();
+
+    expect(mockListTasks).toHaveBeenCalledWith("/workspace/test", "in_progress");
+    expect(mockWriteTask).toHaveBeenCalledWith(
+      "/workspace/test",
+      expect.objectContaining({ id: "task_zombie1", status: "backlog", reassignCount: 1 }),
+    );
+  });
+});
@@ -14,10 +14,16 @@ vi.mock("../agents/tools/task-tool.js", () => ({
   findBlockedTasks: vi.fn(),
   findPendingApprovalTasks: vi.fn(),
   findAllBacklogTasks: vi.fn(),
+  listTasks: vi.fn(async () => []),
   writeTask: vi.fn(),
   readTask: vi.fn(),
 }));
 
+vi.mock("./task-dependency-resolver.js", () => ({
+  findTasksUnblockedBy: vi.fn(async () => []),
+  resolveTaskWorkspaceDirs: vi.fn(() => ["/tmp/test-workspace"]),
+}));
+
 vi.mock("../commands/agent.js", () => ({
   agentCommand: vi.fn(),
 }));
@@ -38,6 +44,10 @@ vi.mock("../process/command-queue.js", () => ({
   getQueueSize: vi.fn(() => 0),
 }));
 
+vi.mock("../plugins/coordination-hooks.js", () => ({
+  checkTaskTransition: vi.fn(async () => ({ allowed: true })),
+}));
+
 vi.mock("node:fs/promises", () => ({
   default: {
     readdir: vi.fn().mockResolvedValue([]),
@@ -52,9 +62,14 @@ import {
   findBlockedTasks,
   findPendingApprovalTasks,
   readTask,
+  writeTask,
 } from "../agents/tools/task-tool.js";
 import { agentCommand } from "../commands/agent.js";
+import { checkTaskTransition } from "../plugins/coordination-hooks.js";
 import { getQueueSize } from "../process/command-queue.js";
+import { emit, reset as resetBus, subscribe } from "./events/bus.js";
+import { EVENT_TYPES } from "./events/schemas.js";
+import { findTasksUnblockedBy } from "./task-dependency-resolver.js";
 
 describe("startTaskContinuationRunner", () => {
   beforeEach(() => {
@@ -125,7 +140,6 @@ describe("startTaskContinuationRunner", () => {
         message: expect.stringContaining("TASK CONTINUATION"),
         agentId: "main",
         deliver: false,
-
       }),
     );
     runner.stop();
@@ -232,6 +246,84 @@ describe("startTaskContinuationRunner", () => {
     runner.stop();
   });
 
+  it("schedules the assignee when the last dependency of a backlog task completes", async () => {
+    resetBus();
+    vi.mocked(findTasksUnblockedBy).mockResolvedValueOnce([
+      {
+        taskId: "task_next",
+        agentId: "worker",
+        status: "backlog",
+        priority: "high",
+        description: "Follow-up",
+        dependsOn: ["task_done"],
+        dependents: [],
+        unmetDependencies: [],
+      },
+    ]);
+    const met: Array<Record<string, unknown>> = [];
+    subscribe(EVENT_TYPES.TASK_DEPENDENCIES_MET, (event) =>
+      met.push({ agentId: event.agentId, ...event.data }),
+    );
+
+    const runner = startTaskContinuationRunner({
+      cfg: { agents: { defaults: {} } } as OpenClawConfig,
+    });
+    emit({
+      type: EVENT_TYPES.TASK_COMPLETED,
+      agentId: "main",
+      ts: Date.now(),
+      data: { taskId: "task_done" },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(findTasksUnblockedBy).toHaveBeenCalledWith(expect.anything(), "task_done");
+    expect(met).toEqual([
+      { agentId: "worker", taskId: "task_next", completedDependency: "task_done" },
+    ]);
+    expect(findPickableBacklogTask).toHaveBeenCalledWith("/tmp/test-workspace", [
+      "/tmp/test-workspace",
+    ]);
+
+    runner.stop();
+    resetBus();
+  });
+
+  it("leaves a backlog task alone when a plugin vetoes the auto-pick", async () => {
+    const backlogTask = {
+      id: "task_backlog1",
+      status: "backlog" as const,
+      priority: "medium" as const,
+      description: "Queued work",
+      created: "2026-02-05T09:00:00Z",
+      lastActivity: "2026-02-05T09:00:00Z",
+      progress: ["Added to backlog"],
+    };
+    vi.mocked(findPickableBacklogTask).mockResolvedValue(backlogTask);
+    vi.mocked(readTask).mockResolvedValue({ ...backlogTask, progress: [...backlogTask.progress] });
+    vi.mocked(checkTaskTransition).mockResolvedValueOnce({
+      allowed: false,
+      reason: "frozen",
+    });
+
+    const runner = startTaskContinuationRunner({
+      cfg: { agents: { defaults: {} } } as OpenClawConfig,
+    });
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+
+    expect(checkTaskTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskId: "task_backlog1",
+        action: "pick_backlog",
+        from: "backlog",
+        to: "in_progress",
+      }),
+      expect.objectContaining({ agentId: "main" }),
+    );
+    expect(writeTask).not.toHaveBeenCalled();
+    expect(agentCommand).not.toHaveBeenCalled();
+    runner.stop();
+  });
+
   it("skips tasks with pending_approval status", async () => {
     const pendingApprovalTask = {
       id: "task_pending123",
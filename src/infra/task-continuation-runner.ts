@@ -13,6 +13,7 @@ import {
   findBlockedTasks,
   findPendingTasks,
   findPendingApprovalTasks,
+  listTasks,
   writeTask,
   readTask,
   type TaskFile,
@@ -23,12 +24,14 @@ import type { OpenClawConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { callGateway } from "../gateway/call.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { checkTaskTransition } from "../plugins/coordination-hooks.js";
 import { getQueueSize, getActiveTaskCount } from "../process/command-queue.js";
 // CommandLane import removed - using agent-specific lanes
 import { resolveAgentBoundAccountId } from "../routing/bindings.js";
 import { normalizeAgentId } from "../routing/session-key.js";
-import { emit } from "./events/bus.js";
+import { emit, subscribe } from "./events/bus.js";
 import { EVENT_TYPES } from "./events/schemas.js";
+import { findTasksUnblockedBy, resolveTaskWorkspaceDirs } from "./task-dependency-resolver.js";
 import { acquireTaskLock } from "./task-lock.js";
 import { updateAgentEntry, readTeamState, findLeadAgent } from "./team-state.js";
 
@@ -443,7 +446,10 @@ async function checkAgentForContinuation(
         return false;
       }
 
-      const backlogTask = await findPickableBacklogTask(workspaceDir);
+      const backlogTask = await findPickableBacklogTask(
+        workspaceDir,
+        resolveTaskWorkspaceDirs(cfg),
+      );
       if (backlogTask) {
         const lock = await acquireTaskLock(workspaceDir, backlogTask.id);
         if (!lock) {
@@ -464,6 +470,25 @@ async function checkAgentForContinuation(
             return false;
           }
 
+          const transition = await checkTaskTransition(
+            {
+              taskId: freshTask.id,
+              action: "pick_backlog",
+              from: freshTask.status,
+              to: "in_progress",
+              description: freshTask.description,
+            },
+            { agentId, workspaceDir },
+          );
+          if (!transition.allowed) {
+            log.info("Backlog auto-pick blocked by plugin", {
+              agentId,
+              taskId: freshTask.id,
+              reason: transition.reason,
+            });
+            return false;
+          }
+
           log.info("Found pickable backlog task, auto-picking", {
             agentId,
             taskId: freshTask.id,
@@ -1175,22 +1200,7 @@ async function checkZombieTasksForAbandonment(
   for (const agentId of agentIds) {
     try {
       const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
-      const tasksDir = path.join(workspaceDir, "tasks");
-      let files: string[];
-      try {
-        files = await fs.readdir(tasksDir);
-      } catch {
-        continue;
-      }
-      for (const file of files) {
-        if (!file.startsWith("task_") || !file.endsWith(".md")) {
-          continue;
-        }
-        const taskId = file.replace(".md", "");
-        const task = await readTask(workspaceDir, taskId);
-        if (!task || task.status !== "in_progress") {
-          continue;
-        }
+      for (const task of await listTasks(workspaceDir, "in_progress")) {
         const lastActivityMs = new Date(task.lastActivity || task.created).getTime();
         if (isNaN(lastActivityMs)) {
           continue;
@@ -1220,6 +1230,25 @@ async function checkZombieTasksForAbandonment(
               }
             }
             const reassignCount = (freshTask.reassignCount ?? 0) + 1;
+            const transition = await checkTaskTransition(
+              {
+                taskId: freshTask.id,
+                action: "recover_zombie",
+                from: freshTask.status,
+                to: reassignCount < 3 ? "backlog" : "interrupted",
+                description: freshTask.description,
+                reason: `No activity for ${Math.round(ageMs / 3600000)}h`,
+              },
+              { agentId, workspaceDir },
+            );
+            if (!transition.allowed) {
+              log.info("Zombie task recovery blocked by plugin", {
+                agentId,
+                taskId: task.id,
+                reason: transition.reason,
+              });
+              continue;
+            }
             freshTask.reassignCount = reassignCount;
             freshTask.lastActivity = new Date().toISOString();
 
@@ -1373,10 +1402,50 @@ async function runContinuationCheck(cfg: OpenClawConfig, idleThresholdMs: number
   }
 }
 
+/**
+ * When a task completes, nudge the assignees of backlog tasks whose last
+ * unfinished dependency was that task, instead of waiting for the next tick.
+ */
+async function scheduleUnblockedDependents(
+  cfg: OpenClawConfig,
+  completedTaskId: string,
+  idleThresholdMs: number,
+): Promise<void> {
+  const unblocked = await findTasksUnblockedBy(cfg, completedTaskId);
+  if (unblocked.length === 0) {
+    return;
+  }
+
+  const agentIds = new Set<string>();
+  for (const node of unblocked) {
+    emit({
+      type: EVENT_TYPES.TASK_DEPENDENCIES_MET,
+      agentId: node.agentId,
+      ts: Date.now(),
+      data: { taskId: node.taskId, completedDependency: completedTaskId },
+    });
+    agentIds.add(node.agentId);
+  }
+
+  log.info("Dependencies met, scheduling unblocked backlog tasks", {
+    completedTaskId,
+    taskIds: unblocked.map((node) => node.taskId),
+  });
+
+  for (const agentId of agentIds) {
+    try {
+      await checkAgentForContinuation(cfg, agentId, idleThresholdMs, Date.now());
+    } catch (error) {
+      log.warn("Error scheduling unblocked task", { agentId, error: String(error) });
+    }
+  }
+}
+
 export function startTaskContinuationRunner(opts: { cfg: OpenClawConfig }): TaskContinuationRunner {
   let currentCfg = opts.cfg;
   let timer: NodeJS.Timeout | null = null;
   let cleanupTimer: NodeJS.Timeout | null = null;
+  let unsubscribeCompleted: (() => void) | null = null;
   let stopped = false;
 
   const scheduleNext = () => {
@@ -1414,6 +1483,16 @@ export function startTaskContinuationRunner(opts: { cfg: OpenClawConfig }): Task
     scheduleNext();
     cleanupTimer = setInterval(cleanupStaleAgentStates, CLEANUP_INTERVAL_MS);
     cleanupTimer.unref?.();
+    unsubscribeCompleted = subscribe(EVENT_TYPES.TASK_COMPLETED, (event) => {
+      const taskId = event.data.taskId;
+      if (stopped || typeof taskId !== "string") {
+        return;
+      }
+      const { idleThresholdMs } = resolveTaskContinuationConfig(currentCfg);
+      void scheduleUnblockedDependents(currentCfg, taskId, idleThresholdMs).catch((error) => {
+        log.warn("Dependency scheduling failed", { taskId, error: String(error) });
+      });
+    });
   }
 
   return {
@@ -1427,6 +1506,8 @@ export function startTaskContinuationRunner(opts: { cfg: OpenClawConfig }): Task
         clearInterval(cleanupTimer);
         cleanupTimer = null;
       }
+      unsubscribeCompleted?.();
+      unsubscribeCompleted = null;
       agentStates.clear();
       log.info("Task continuation runner stopped");
     },
@@ -15,6 +15,7 @@ vi.mock("../agents/tools/task-tool.js", () => ({
   findBlockedTasks: vi.fn(),
   findPendingApprovalTasks: vi.fn(),
   findAllBacklogTasks: vi.fn(),
+  listTasks: vi.fn(async () => []),
   writeTask: vi.fn(),
   readTask: vi.fn(),
 }));
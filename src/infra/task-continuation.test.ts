@@ -166,6 +166,7 @@ describe("task-continuation", () => {
           "## Metadata",
           "- **Status:** in_progress",
           "- **Priority:** high",
+          "- **Created:** 2026-02-05T10:00:00Z",
           "- **Description:** Legacy description",
           "- **Context:** Legacy context",
           "",
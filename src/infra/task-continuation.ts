@@ -1,9 +1,10 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { CliDeps } from "../cli/deps.js";
-import type { loadConfig } from "../config/config.js";
 import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { listTasks } from "../agents/tools/task-file-io.js";
+import type { CliDeps } from "../cli/deps.js";
 import { agentCommand } from "../commands/agent.js";
+import type { loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { logVerbose } from "../globals.js";
 import { resolveAgentBoundAccountId } from "../routing/bindings.js";
@@ -106,62 +107,17 @@ export async function loadPendingTasks(cfg: ReturnType<typeof loadConfig>): Prom
   for (const agentId of agentIds) {
     try {
       const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
-      const tasksDir = path.join(workspaceDir, "tasks");
-
-      let files: string[] = [];
-      try {
-        files = await fs.readdir(tasksDir);
-      } catch {
-        continue;
-      }
-
-      for (const file of files) {
-        if (!file.endsWith(".md") || !file.startsWith("task_")) {
-          continue;
-        }
-        try {
-          const content = await fs.readFile(path.join(tasksDir, file), "utf-8");
-          const metaBlock = content.split("## ").find((s) => s.startsWith("Metadata")) || "";
-          const statusMatch = metaBlock.match(/\*\*Status:\*\*\s*(\S+)/);
-          const status = statusMatch?.[1];
-          if (status !== "in_progress" && status !== "blocked") {
-            continue;
-          }
-
-          // Current task format writes description/context as dedicated sections.
-          // Keep legacy metadata key fallback for older task files.
-          const descSectionMatch = content.match(/##\s*Description\s*\n([\s\S]*?)(?=\n## |$)/i);
-          const descriptionFromSection = descSectionMatch?.[1]?.trim();
-          const descLegacyMatch = content.match(/\*\*Description:\*\*\s*(.+)/i);
-          const description =
-            descriptionFromSection || descLegacyMatch?.[1]?.trim() || file.replace(".md", "");
-
-          const progressItems: string[] = [];
-          const progressSection = content.match(/## Progress\n([\s\S]*?)(?=\n## |$)/);
-          if (progressSection) {
-            for (const line of progressSection[1].split("\n")) {
-              const item = line.match(/^\s*-\s+(.+)/);
-              if (item) {
-                progressItems.push(item[1].trim());
-              }
-            }
-          }
-
-          const contextSectionMatch = content.match(/##\s*Context\s*\n([\s\S]*?)(?=\n## |$)/i);
-          const contextFromSection = contextSectionMatch?.[1]?.trim();
-          const contextLegacyMatch = content.match(/\*\*Context:\*\*\s*(.+)/i);
-          const context = contextFromSection || contextLegacyMatch?.[1]?.trim() || "";
-
-          tasks.push({
-            agentId,
-            task: description,
-            context,
-            next: "",
-            progress: progressItems,
-          });
-        } catch {
+      for (const task of await listTasks(workspaceDir)) {
+        if (task.status !== "in_progress" && task.status !== "blocked") {
           continue;
         }
+        tasks.push({
+          agentId,
+          task: task.description || task.id,
+          context: task.context ?? "",
+          next: "",
+          progress: [...task.progress],
+        });
       }
     } catch {
       continue;
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTaskGraph,
+  findDependencyCycle,
+  findUnmetDependencies,
+  type TaskGraphInput,
+} from "./task-dependency-graph.js";
+
+function makeTask(overrides: Partial<TaskGraphInput> & { id: string }): TaskGraphInput {
+  return {
+    agentId: "main",
+    status: "backlog",
+    priority: "medium",
+    description: overrides.id,
+    ...overrides,
+  };
+}
+
+describe("findUnmetDependencies", () => {
+  it("treats completed and missing (archived) tasks as satisfied", () => {
+    const tasks = [
+      makeTask({ id: "a", status: "completed" }),
+      makeTask({ id: "b", status: "in_progress", agentId: "other" }),
+    ];
+    expect(findUnmetDependencies(tasks, ["a", "b", "archived"])).toEqual(["b"]);
+    expect(findUnmetDependencies(tasks, undefined)).toEqual([]);
+  });
+});
+
+describe("findDependencyCycle", () => {
+  it("returns null for an acyclic candidate", () => {
+    const tasks = [makeTask({ id: "a" }), makeTask({ id: "b", dependsOn: ["a"] })];
+    expect(findDependencyCycle(tasks, { id: "c", dependsOn: ["b"] })).toBeNull();
+  });
+
+  it("detects a cycle the new task's dependencies are already stuck in", () => {
+    const tasks = [
+      makeTask({ id: "a", dependsOn: ["b"] }),
+      makeTask({ id: "b", dependsOn: ["a"] }),
+    ];
+    expect(findDependencyCycle(tasks, { id: "c", dependsOn: ["a"] })).toEqual(["a", "b", "a"]);
+  });
+
+  it("detects a cycle closed by changing an existing task's dependencies", () => {
+    const tasks = [makeTask({ id: "a" }), makeTask({ id: "b", dependsOn: ["a"] })];
+    expect(findDependencyCycle(tasks, { id: "a", dependsOn: ["b"] })).toEqual(["a", "b", "a"]);
+  });
+
+  it("detects self-dependencies", () => {
+    expect(findDependencyCycle([], { id: "a", dependsOn: ["a"] })).toEqual(["a", "a"]);
+  });
+});
+
+describe("buildTaskGraph", () => {
+  it("builds edges, dependents and unmet dependencies across agents", () => {
+    const graph = buildTaskGraph([
+      makeTask({ id: "a", agentId: "dev", status: "in_progress" }),
+      makeTask({ id: "b", agentId: "qa", dependsOn: ["a"] }),
+    ]);
+    expect(graph.edges).toEqual([{ from: "a", to: "b" }]);
+    const a = graph.nodes.find((node) => node.taskId === "a");
+    const b = graph.nodes.find((node) => node.taskId === "b");
+    expect(a?.dependents).toEqual(["b"]);
+    expect(b?.unmetDependencies).toEqual(["a"]);
+    expect(graph.cycles).toEqual([]);
+  });
+
+  it("computes the effort-weighted critical path of open tasks", () => {
+    const graph = buildTaskGraph([
+      makeTask({ id: "root", estimatedEffort: "small" }),
+      makeTask({ id: "short", dependsOn: ["root"], estimatedEffort: "small" }),
+      makeTask({ id: "long", dependsOn: ["root"], estimatedEffort: "large" }),
+      makeTask({ id: "tail", dependsOn: ["long"], estimatedEffort: "medium" }),
+      makeTask({ id: "done", status: "completed", estimatedEffort: "large" }),
+    ]);
+    expect(graph.criticalPath).toEqual(["root", "long", "tail"]);
+    expect(graph.criticalPathEffort).toBe(6);
+  });
+
+  it("reports each cycle once and excludes it from the critical path", () => {
+    const graph = buildTaskGraph([
+      makeTask({ id: "a", dependsOn: ["b"] }),
+      makeTask({ id: "b", dependsOn: ["a"] }),
+      makeTask({ id: "c" }),
+    ]);
+    expect(graph.cycles).toHaveLength(1);
+    expect(graph.cycles[0]).toEqual(expect.arrayContaining(["a", "b"]));
+    expect(graph.criticalPath).toEqual(["c"]);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Task Dependency Graph
+ *
+ * Treats the tasks of every agent workspace as a single DAG keyed by task id.
+ * Edges point from a prerequisite to the task that depends on it.
+ *
+ * A dependency is satisfied when its task is completed or when its task file
+ * no longer exists (completed/cancelled tasks are archived to task-history and
+ * their files deleted), matching `checkDependenciesMet` in task-file-io.
+ *
+ * Pure functions only — loading tasks from workspaces lives in
+ * task-dependency-resolver.ts so this module can be reused by scripts.
+ */
+
+export type TaskGraphInput = {
+  id: string;
+  agentId: string;
+  status: string;
+  priority: string;
+  description: string;
+  dependsOn?: string[];
+  estimatedEffort?: string;
+  dueDate?: string;
+};
+
+export type TaskGraphNode = {
+  taskId: string;
+  agentId: string;
+  status: string;
+  priority: string;
+  description: string;
+  dependsOn: string[];
+  dependents: string[];
+  unmetDependencies: string[];
+  estimatedEffort?: string;
+  dueDate?: string;
+};
+
+export type TaskGraphEdge = {
+  /** Prerequisite task id. */
+  from: string;
+  /** Dependent task id. */
+  to: string;
+};
+
+export type TaskGraph = {
+  nodes: TaskGraphNode[];
+  edges: TaskGraphEdge[];
+  /** Each cycle is a closed path, e.g. ["a", "b", "a"]. */
+  cycles: string[][];
+  /** Longest chain of open tasks, weighted by estimated effort. */
+  criticalPath: string[];
+  criticalPathEffort: number;
+};
+
+const EFFORT_WEIGHT: Record<string, number> = { small: 1, medium: 2, large: 3 };
+
+/** Relative size of a task; unestimated tasks count as small. */
+export function effortWeight(effort: string | undefined): number {
+  return (effort && EFFORT_WEIGHT[effort]) || 1;
+}
+
+function isSatisfied(task: TaskGraphInput | undefined): boolean {
+  return !task || task.status === "completed";
+}
+
+function indexTasks(tasks: TaskGraphInput[]): Map<string, TaskGraphInput> {
+  const byId = new Map<string, TaskGraphInput>();
+  for (const task of tasks) {
+    if (task.id) {
+      byId.set(task.id, task);
+    }
+  }
+  return byId;
+}
+
+/** Returns the dependency ids that are not yet satisfied. */
+export function findUnmetDependencies(
+  tasks: TaskGraphInput[] | Map<string, TaskGraphInput>,
+  dependsOn: string[] | undefined,
+): string[] {
+  if (!dependsOn || dependsOn.length === 0) {
+    return [];
+  }
+  const byId = tasks instanceof Map ? tasks : indexTasks(tasks);
+  return dependsOn.filter((depId) => !isSatisfied(byId.get(depId)));
+}
+
+/**
+ * Finds a dependency cycle reachable from `candidate` (which may not exist in
+ * `tasks` yet, e.g. a backlog task about to be written). Returns the cycle as a
+ * closed path, or null when the candidate's dependency closure is acyclic.
+ */
+export function findDependencyCycle(
+  tasks: TaskGraphInput[],
+  candidate: { id: string; dependsOn?: string[] },
+): string[] | null {
+  const byId = indexTasks(tasks);
+  byId.set(candidate.id, {
+    ...(byId.get(candidate.id) ?? {
+      agentId: "",
+      status: "backlog",
+      priority: "medium",
+      description: "",
+    }),
+    id: candidate.id,
+    dependsOn: candidate.dependsOn,
+  });
+
+  const done = new Set<string>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (taskId: string): string[] | null => {
+    if (onStack.has(taskId)) {
+      return [...stack.slice(stack.indexOf(taskId)), taskId];
+    }
+    if (done.has(taskId)) {
+      return null;
+    }
+    stack.push(taskId);
+    onStack.add(taskId);
+    for (const depId of byId.get(taskId)?.dependsOn ?? []) {
+      const cycle = visit(depId);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    stack.pop();
+    onStack.delete(taskId);
+    done.add(taskId);
+    return null;
+  };
+
+  return visit(candidate.id);
+}
+
+function findAllCycles(byId: Map<string, TaskGraphInput>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  for (const taskId of byId.keys()) {
+    if (seen.has(taskId)) {
+      continue;
+    }
+    const cycle = findDependencyCycle([...byId.values()], {
+      id: taskId,
+      dependsOn: byId.get(taskId)?.dependsOn,
+    });
+    if (cycle) {
+      const members = cycle.slice(0, -1);
+      if (!members.some((id) => seen.has(id))) {
+        cycles.push(cycle);
+      }
+      for (const id of members) {
+        seen.add(id);
+      }
+    }
+    seen.add(taskId);
+  }
+  return cycles;
+}
+
+export function buildTaskGraph(tasks: TaskGraphInput[]): TaskGraph {
+  const byId = indexTasks(tasks);
+  const dependents = new Map<string, string[]>();
+  const edges: TaskGraphEdge[] = [];
+
+  for (const task of byId.values()) {
+    for (const depId of task.dependsOn ?? []) {
+      edges.push({ from: depId, to: task.id });
+      const list = dependents.get(depId) ?? [];
+      list.push(task.id);
+      dependents.set(depId, list);
+    }
+  }
+
+  const nodes: TaskGraphNode[] = [...byId.values()].map((task) => ({
+    taskId: task.id,
+    agentId: task.agentId,
+    status: task.status,
+    priority: task.priority,
+    description: task.description,
+    dependsOn: task.dependsOn ?? [],
+    dependents: dependents.get(task.id) ?? [],
+    unmetDependencies: findUnmetDependencies(byId, task.dependsOn),
+    estimatedEffort: task.estimatedEffort,
+    dueDate: task.dueDate,
+  }));
+
+  const cycles = findAllCycles(byId);
+  const cyclic = new Set(cycles.flat());
+
+  // Longest effort-weighted path through open, acyclic tasks.
+  const best = new Map<string, { effort: number; next?: string }>();
+  const longestFrom = (taskId: string): { effort: number; next?: string } => {
+    const cached = best.get(taskId);
+    if (cached) {
+      return cached;
+    }
+    const task = byId.get(taskId);
+    const own = effortWeight(task?.estimatedEffort);
+    let result: { effort: number; next?: string } = { effort: own };
+    for (const nextId of dependents.get(taskId) ?? []) {
+      const next = byId.get(nextId);
+      if (!next || isSatisfied(next) || cyclic.has(nextId)) {
+        continue;
+      }
+      const candidate = longestFrom(nextId);
+      if (own + candidate.effort > result.effort) {
+        result = { effort: own + candidate.effort, next: nextId };
+      }
+    }
+    best.set(taskId, result);
+    return result;
+  };
+
+  let criticalPath: string[] = [];
+  let criticalPathEffort = 0;
+  for (const task of byId.values()) {
+    if (isSatisfied(task) || cyclic.has(task.id)) {
+      continue;
+    }
+    const openDeps = findUnmetDependencies(byId, task.dependsOn);
+    if (openDeps.length > 0) {
+      continue;
+    }
+    const chain = longestFrom(task.id);
+    if (chain.effort > criticalPathEffort) {
+      criticalPathEffort = chain.effort;
+      const path = [task.id];
+      let cursor = best.get(task.id)?.next;
+      while (cursor) {
+        path.push(cursor);
+        cursor = best.get(cursor)?.next;
+      }
+      criticalPath = path;
+    }
+  }
+
+  return { nodes, edges, cycles, criticalPath, criticalPathEffort };
+}
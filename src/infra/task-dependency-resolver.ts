@@ -0,0 +1,113 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { listTasks, TASK_HISTORY_DIR, type TaskFile } from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  buildTaskGraph,
+  findUnmetDependencies,
+  type TaskGraph,
+  type TaskGraphInput,
+  type TaskGraphNode,
+} from "./task-dependency-graph.js";
+
+const HISTORY_FILE_RE = /^\d{4}-\d{2}\.md$/;
+const HISTORY_TASK_ID_RE = /^\*\*Task ID:\*\* (\S+)/gm;
+
+/** Workspace directories of every configured agent, used for cross-agent dependency lookups. */
+export function resolveTaskWorkspaceDirs(cfg: OpenClawConfig): string[] {
+  return [...new Set(listAgentIds(cfg).map((agentId) => resolveAgentWorkspaceDir(cfg, agentId)))];
+}
+
+export async function loadTaskGraphInputs(cfg: OpenClawConfig): Promise<TaskGraphInput[]> {
+  const inputs: TaskGraphInput[] = [];
+  for (const agentId of listAgentIds(cfg)) {
+    const tasks = await listTasks(resolveAgentWorkspaceDir(cfg, agentId), "all");
+    for (const task of tasks) {
+      inputs.push({
+        id: task.id,
+        agentId,
+        status: task.status,
+        priority: task.priority,
+        description: task.description,
+        dependsOn: task.dependsOn,
+        estimatedEffort: task.estimatedEffort,
+        dueDate: task.dueDate,
+      });
+    }
+  }
+  return inputs;
+}
+
+/** Ids of the tasks archived to task-history in any agent workspace. */
+async function loadArchivedTaskIds(cfg: OpenClawConfig): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (const workspaceDir of resolveTaskWorkspaceDirs(cfg)) {
+    const historyDir = path.join(workspaceDir, TASK_HISTORY_DIR);
+    const months = (await fs.readdir(historyDir).catch(() => [] as string[])).filter((name) =>
+      HISTORY_FILE_RE.test(name),
+    );
+    for (const month of months) {
+      const content = await fs.readFile(path.join(historyDir, month), "utf-8").catch(() => "");
+      for (const match of content.matchAll(HISTORY_TASK_ID_RE)) {
+        ids.add(match[1]);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Dependency ids that match no task in any agent workspace or task history.
+ * The graph treats a missing task as archived (met), so a mistyped id would
+ * otherwise never block anything.
+ */
+export async function findUnknownDependencies(
+  cfg: OpenClawConfig,
+  dependsOn: string[],
+  inputs?: TaskGraphInput[],
+): Promise<string[]> {
+  const known = new Set((inputs ?? (await loadTaskGraphInputs(cfg))).map((task) => task.id));
+  const missing = dependsOn.filter((depId) => !known.has(depId));
+  if (missing.length === 0) {
+    return [];
+  }
+  const archived = await loadArchivedTaskIds(cfg);
+  return missing.filter((depId) => !archived.has(depId));
+}
+
+export async function loadTaskGraph(cfg: OpenClawConfig): Promise<TaskGraph> {
+  return buildTaskGraph(await loadTaskGraphInputs(cfg));
+}
+
+/** Cross-agent variant of `checkDependenciesMet`. */
+export async function checkTaskDependencies(
+  cfg: OpenClawConfig,
+  task: Pick<TaskFile, "dependsOn">,
+): Promise<{ met: boolean; unmetDeps: string[] }> {
+  if (!task.dependsOn || task.dependsOn.length === 0) {
+    return { met: true, unmetDeps: [] };
+  }
+  const unmetDeps = findUnmetDependencies(await loadTaskGraphInputs(cfg), task.dependsOn);
+  return { met: unmetDeps.length === 0, unmetDeps };
+}
+
+/**
+ * Backlog tasks (in any workspace) that depend on `completedTaskId` and have
+ * no other unfinished dependency, i.e. tasks that just became pickable.
+ */
+export async function findTasksUnblockedBy(
+  cfg: OpenClawConfig,
+  completedTaskId: string,
+): Promise<TaskGraphNode[]> {
+  const inputs = (await loadTaskGraphInputs(cfg)).map((task) =>
+    // The completion event fires before the task file is archived.
+    task.id === completedTaskId ? { ...task, status: "completed" } : task,
+  );
+  return buildTaskGraph(inputs).nodes.filter(
+    (node) =>
+      node.status === "backlog" &&
+      node.dependsOn.includes(completedTaskId) &&
+      node.unmetDependencies.length === 0,
+  );
+}
@@ -1,5 +1,7 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import { openSqliteTaskStore } from "../agents/tools/task-store-sqlite.js";
+import { resolveTaskStoreBackend } from "../agents/tools/task-store.js";
 
 const _LOCK_TIMEOUT_MS = 30_000; // 30 seconds max lock hold time
 const LOCK_STALE_MS = 60_000; // Consider lock stale after 60 seconds
@@ -21,15 +23,33 @@ export interface TaskLock {
 }
 
 /**
- * Try to acquire a lock for a task file.
+ * Try to acquire a lock for a task.
  * Returns lock object if acquired, null if already locked.
+ * With the SQLite task store the lock is a row taken inside a transaction;
+ * otherwise it is a `tasks/<taskId>.lock` file.
  */
 export async function acquireTaskLock(
   workspaceDir: string,
   taskId: string,
 ): Promise<TaskLock | null> {
-  const lockPath = path.join(workspaceDir, "tasks", `${taskId}.lock`);
+  if (resolveTaskStoreBackend() === "sqlite") {
+    return openSqliteTaskStore(workspaceDir).acquireLock(taskId);
+  }
+  return acquireFileTaskLock(workspaceDir, taskId);
+}
+
+export async function acquireFileTaskLock(
+  workspaceDir: string,
+  taskId: string,
+): Promise<TaskLock | null> {
+  return acquireFileLock(path.join(workspaceDir, "tasks", `${taskId}.lock`));
+}
 
+/**
+ * Try to create an exclusive lock file at `lockPath` (its directory must exist).
+ * Returns lock object if acquired, null if already locked.
+ */
+export async function acquireFileLock(lockPath: string): Promise<TaskLock | null> {
   try {
     // Check for stale lock
     try {
@@ -25,6 +25,10 @@ vi.mock("../commands/agent.js", () => ({
   agentCommand: vi.fn(),
 }));
 
+vi.mock("./task-dependency-resolver.js", () => ({
+  checkTaskDependencies: vi.fn(async () => ({ met: true, unmetDeps: [] })),
+}));
+
 vi.mock("../routing/bindings.js", () => ({
   resolveAgentBoundAccountId: vi.fn(() => "test-account"),
 }));
@@ -47,6 +51,7 @@ import { agentCommand } from "../commands/agent.js";
 import { getQueueSize } from "../process/command-queue.js";
 import { isSubagentSessionKey } from "../routing/session-key.js";
 import { onAgentEvent } from "./agent-events.js";
+import { checkTaskDependencies } from "./task-dependency-resolver.js";
 import { startTaskSelfDriving } from "./task-self-driving.js";
 
 type Listener = (evt: {
@@ -167,6 +172,22 @@ describe("startTaskSelfDriving", () => {
     handle.stop();
   });
 
+  it("does not trigger while the active task has unfinished dependencies", async () => {
+    vi.mocked(findActiveTask).mockResolvedValue(makeTask({ dependsOn: ["task_dep"] }));
+    vi.mocked(checkTaskDependencies).mockResolvedValueOnce({
+      met: false,
+      unmetDeps: ["task_dep"],
+    });
+    const handle = startTaskSelfDriving({
+      cfg: { agents: { defaults: {} } } as OpenClawConfig,
+    });
+    const listener = getListener();
+    fireEnd(listener);
+    await vi.advanceTimersByTimeAsync(600);
+    expect(agentCommand).not.toHaveBeenCalled();
+    handle.stop();
+  });
+
   it("does not trigger for simple task without steps", async () => {
     vi.mocked(findActiveTask).mockResolvedValue(makeTask({ steps: [], simple: true }));
     const handle = startTaskSelfDriving({
@@ -8,6 +8,7 @@ import { resolveAgentBoundAccountId } from "../routing/bindings.js";
 import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
 import { isSubagentSessionKey } from "../routing/session-key.js";
 import { onAgentEvent, type AgentEventPayload } from "./agent-events.js";
+import { checkTaskDependencies } from "./task-dependency-resolver.js";
 
 const log = createSubsystemLogger("task-self-driving");
 
@@ -174,6 +175,15 @@ async function checkAndSelfDrive(
   if (activeTask.status !== "in_progress") {
     return false;
   }
+  const { met, unmetDeps } = await checkTaskDependencies(cfg, activeTask);
+  if (!met) {
+    log.info("Active task has unfinished dependencies, skipping self-drive", {
+      agentId,
+      taskId: activeTask.id,
+      unmetDeps,
+    });
+    return false;
+  }
   if (!activeTask.steps?.length) {
     if (activeTask.simple) {
       return false;
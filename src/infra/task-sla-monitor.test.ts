@@ -0,0 +1,175 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TaskFile } from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+
+const tasksByAgent = new Map<string, TaskFile[]>();
+
+vi.mock("../agents/agent-scope.js", () => ({
+  listAgentIds: vi.fn(() => ["lead", "dev"]),
+  resolveAgentWorkspaceDir: vi.fn((_cfg: unknown, agentId: string) => `/ws/${agentId}`),
+}));
+
+vi.mock("../agents/tools/task-file-io.js", () => ({
+  listTasks: vi.fn(async (workspaceDir: string) => tasksByAgent.get(workspaceDir) ?? []),
+}));
+
+vi.mock("../commands/agent.js", () => ({
+  agentCommand: vi.fn(async () => {}),
+}));
+
+vi.mock("../routing/bindings.js", () => ({
+  resolveAgentBoundAccountId: vi.fn(() => undefined),
+}));
+
+vi.mock("./team-state.js", () => ({
+  readTeamState: vi.fn(async () => ({
+    version: 1,
+    lastUpdatedMs: 0,
+    agents: { lead: { agentId: "lead", role: "lead" } },
+  })),
+  findLeadAgent: vi.fn((state: { agents: Record<string, { role: string }> }) =>
+    Object.values(state.agents).find((a) => a.role === "lead"),
+  ),
+}));
+
+vi.mock("./events/bus.js", () => ({
+  emit: vi.fn(),
+}));
+
+const { agentCommand } = await import("../commands/agent.js");
+const { emit } = await import("./events/bus.js");
+const { closeStateStores, openStateNamespace } = await import("./state-store.js");
+const { evaluateTaskSla, resolveTaskSlaConfig, runTaskSlaCheck } =
+  await import("./task-sla-monitor.js");
+
+const NOW = Date.parse("2026-03-02T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function makeTask(overrides: Partial<TaskFile> & { id: string }): TaskFile {
+  return {
+    status: "in_progress",
+    priority: "medium",
+    description: `Task ${overrides.id}`,
+    created: "2026-03-01T00:00:00.000Z",
+    lastActivity: "2026-03-01T00:00:00.000Z",
+    progress: [],
+    ...overrides,
+  };
+}
+
+function emittedTypes(): string[] {
+  return vi.mocked(emit).mock.calls.map(([event]) => event.type);
+}
+
+describe("evaluateTaskSla", () => {
+  const config = resolveTaskSlaConfig({} as OpenClawConfig);
+
+  it("uses the per-priority due-soon window", () => {
+    const due = new Date(NOW + 3 * HOUR).toISOString();
+    expect(
+      evaluateTaskSla({ priority: "high", dueDate: due, created: "" }, NOW, config)?.state,
+    ).toBe("due_soon");
+    expect(
+      evaluateTaskSla({ priority: "urgent", dueDate: due, created: "" }, NOW, config)?.state,
+    ).toBe("ok");
+  });
+
+  it("treats date-only due dates as end of day and falls back to creation targets", () => {
+    expect(
+      evaluateTaskSla({ priority: "low", dueDate: "2026-03-01", created: "" }, NOW, config)?.state,
+    ).toBe("overdue");
+    expect(
+      evaluateTaskSla({ priority: "low", created: "2026-03-01T00:00:00Z" }, NOW, config),
+    ).toBeNull();
+
+    const withTarget = resolveTaskSlaConfig({
+      agents: { defaults: { taskContinuation: { sla: { target: { low: "24h" } } } } },
+    } as OpenClawConfig);
+    expect(
+      evaluateTaskSla({ priority: "low", created: "2026-03-01T00:00:00Z" }, NOW, withTarget)?.state,
+    ).toBe("overdue");
+  });
+});
+
+describe("runTaskSlaCheck", () => {
+  let stateDir = "";
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "task-sla-"));
+    tasksByAgent.clear();
+    vi.mocked(agentCommand).mockClear();
+    vi.mocked(emit).mockClear();
+  });
+
+  afterEach(async () => {
+    closeStateStores();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("reminds the owner once when a task is due soon", async () => {
+    tasksByAgent.set("/ws/dev", [
+      makeTask({ id: "task_a", dueDate: new Date(NOW + 2 * HOUR).toISOString() }),
+    ]);
+
+    await runTaskSlaCheck({} as OpenClawConfig, NOW, { stateDir });
+    await runTaskSlaCheck({} as OpenClawConfig, NOW + 60_000, { stateDir });
+
+    expect(emittedTypes()).toEqual(["task.due_soon"]);
+    expect(agentCommand).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(agentCommand).mock.calls[0][0]).toMatchObject({ agentId: "dev" });
+  });
+
+  it("escalates overdue high-priority tasks to the lead", async () => {
+    tasksByAgent.set("/ws/dev", [
+      makeTask({ id: "task_b", priority: "high", dueDate: new Date(NOW - HOUR).toISOString() }),
+      makeTask({ id: "task_c", priority: "low", dueDate: new Date(NOW - HOUR).toISOString() }),
+    ]);
+
+    await runTaskSlaCheck({} as OpenClawConfig, NOW, { stateDir });
+
+    const overdue = vi.mocked(emit).mock.calls.map(([event]) => event.data);
+    expect(overdue).toEqual([
+      expect.objectContaining({ taskId: "task_b", escalatedTo: "lead" }),
+      expect.objectContaining({ taskId: "task_c", escalatedTo: null }),
+    ]);
+    const recipients = vi.mocked(agentCommand).mock.calls.map(([opts]) => opts.agentId);
+    expect(recipients).toEqual(["lead", "dev", "dev"]);
+  });
+
+  it("ignores finished tasks", async () => {
+    tasksByAgent.set("/ws/dev", [
+      makeTask({ id: "task_d", status: "completed", dueDate: new Date(NOW - HOUR).toISOString() }),
+    ]);
+
+    await runTaskSlaCheck({} as OpenClawConfig, NOW, { stateDir });
+
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it("does not repeat notifications after a restart", async () => {
+    tasksByAgent.set("/ws/dev", [
+      makeTask({ id: "task_e", dueDate: new Date(NOW + 2 * HOUR).toISOString() }),
+    ]);
+
+    await runTaskSlaCheck({} as OpenClawConfig, NOW, { stateDir });
+    closeStateStores();
+    await runTaskSlaCheck({} as OpenClawConfig, NOW + 60_000, { stateDir });
+
+    expect(emittedTypes()).toEqual(["task.due_soon"]);
+  });
+
+  it("forgets finished tasks", async () => {
+    tasksByAgent.set("/ws/dev", [
+      makeTask({ id: "task_f", dueDate: new Date(NOW + 2 * HOUR).toISOString() }),
+    ]);
+    await runTaskSlaCheck({} as OpenClawConfig, NOW, { stateDir });
+    tasksByAgent.clear();
+    await runTaskSlaCheck({} as OpenClawConfig, NOW + 60_000, { stateDir });
+
+    const notified = openStateNamespace("task.sla", { stateDir });
+    expect(await notified.entries()).toEqual([]);
+  });
+});
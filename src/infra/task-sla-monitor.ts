@@ -0,0 +1,408 @@
+import { listAgentIds, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  listTasks,
+  type TaskFile,
+  type TaskPriority,
+  type TaskStatus,
+} from "../agents/tools/task-file-io.js";
+import { parseDurationMs } from "../cli/parse-duration.js";
+import { agentCommand } from "../commands/agent.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { TaskSlaConfig } from "../config/types.agent-defaults.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveAgentBoundAccountId } from "../routing/bindings.js";
+import { emit } from "./events/bus.js";
+import { EVENT_TYPES } from "./events/schemas.js";
+import { openStateNamespace } from "./state-store.js";
+import { findLeadAgent, readTeamState } from "./team-state.js";
+
+const log = createSubsystemLogger("task-sla");
+const TEAM_STATE_DIR = resolveStateDir(process.env);
+
+const DEFAULT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/** How long before the due date a task counts as "due soon". */
+const DEFAULT_DUE_SOON_MS: Record<TaskPriority, number> = {
+  urgent: 1 * 60 * 60 * 1000,
+  high: 4 * 60 * 60 * 1000,
+  medium: 24 * 60 * 60 * 1000,
+  low: 48 * 60 * 60 * 1000,
+};
+
+const PRIORITIES: TaskPriority[] = ["urgent", "high", "medium", "low"];
+const ESCALATED_PRIORITIES = new Set<TaskPriority>(["urgent", "high"]);
+const OPEN_STATUSES = new Set<TaskStatus>([
+  "pending",
+  "pending_approval",
+  "in_progress",
+  "blocked",
+  "backlog",
+]);
+
+export type ResolvedTaskSlaConfig = {
+  enabled: boolean;
+  checkIntervalMs: number;
+  dueSoonMs: Record<TaskPriority, number>;
+  targetMs: Partial<Record<TaskPriority, number>>;
+  channel: string;
+};
+
+export type TaskSlaState = "ok" | "due_soon" | "overdue";
+
+export type TaskSlaEvaluation = {
+  state: TaskSlaState;
+  dueMs: number;
+  /** Negative once the task is overdue. */
+  timeToDueMs: number;
+};
+
+export type TaskSlaMonitor = {
+  stop: () => void;
+  updateConfig: (cfg: OpenClawConfig) => void;
+  checkNow: () => Promise<void>;
+};
+
+type NotifiedState = {
+  dueMs: number;
+  dueSoon: boolean;
+  overdue: boolean;
+};
+
+/**
+ * Notifications already sent, keyed by `agentId:taskId`, so each threshold
+ * fires once per due date. Persisted so a restart does not repeat them.
+ */
+const NOTIFIED_NAMESPACE = "task.sla";
+
+function openNotifiedNamespace(stateDir?: string) {
+  return openStateNamespace<NotifiedState>(NOTIFIED_NAMESPACE, { stateDir });
+}
+
+function parseDurationOr(raw: string | undefined, fallback: number | undefined, unit: "m" | "h") {
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return parseDurationMs(raw, { defaultUnit: unit });
+  } catch {
+    return fallback;
+  }
+}
+
+export function resolveTaskSlaConfig(cfg: OpenClawConfig): ResolvedTaskSlaConfig {
+  const tcConfig = cfg.agents?.defaults?.taskContinuation;
+  const slaConfig: TaskSlaConfig | undefined = tcConfig?.sla;
+
+  const dueSoonMs = { ...DEFAULT_DUE_SOON_MS };
+  const targetMs: Partial<Record<TaskPriority, number>> = {};
+  for (const priority of PRIORITIES) {
+    dueSoonMs[priority] =
+      parseDurationOr(slaConfig?.dueSoon?.[priority], DEFAULT_DUE_SOON_MS[priority], "h") ??
+      DEFAULT_DUE_SOON_MS[priority];
+    const target = parseDurationOr(slaConfig?.target?.[priority], undefined, "h");
+    if (target !== undefined) {
+      targetMs[priority] = target;
+    }
+  }
+
+  return {
+    enabled: slaConfig?.enabled ?? true,
+    checkIntervalMs:
+      parseDurationOr(slaConfig?.checkInterval, DEFAULT_CHECK_INTERVAL_MS, "m") ??
+      DEFAULT_CHECK_INTERVAL_MS,
+    dueSoonMs,
+    targetMs,
+    channel: tcConfig?.channel ?? "discord",
+  };
+}
+
+/** Date-only due dates (`2026-03-01`) are due at the end of that day (UTC). */
+function parseDueDate(dueDate: string): number | null {
+  const value = /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? `${dueDate}T23:59:59.999Z` : dueDate;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Deadline status of a task. Uses `dueDate` when set, otherwise the per-priority
+ * target measured from creation. Returns null when the task has no deadline.
+ */
+export function evaluateTaskSla(
+  task: Pick<TaskFile, "priority" | "dueDate" | "created">,
+  nowMs: number,
+  config: Pick<ResolvedTaskSlaConfig, "dueSoonMs" | "targetMs">,
+): TaskSlaEvaluation | null {
+  let dueMs: number | null = null;
+  if (task.dueDate) {
+    dueMs = parseDueDate(task.dueDate);
+  } else {
+    const targetMs = config.targetMs[task.priority];
+    const createdMs = new Date(task.created).getTime();
+    if (targetMs !== undefined && Number.isFinite(createdMs)) {
+      dueMs = createdMs + targetMs;
+    }
+  }
+  if (dueMs === null) {
+    return null;
+  }
+
+  const timeToDueMs = dueMs - nowMs;
+  const state: TaskSlaState =
+    timeToDueMs < 0
+      ? "overdue"
+      : timeToDueMs <= (config.dueSoonMs[task.priority] ?? DEFAULT_DUE_SOON_MS.medium)
+        ? "due_soon"
+        : "ok";
+  return { state, dueMs, timeToDueMs };
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60_000);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+function formatReminderPrompt(task: TaskFile, evaluation: TaskSlaEvaluation): string {
+  const overdue = evaluation.state === "overdue";
+  return [
+    overdue ? `[SYSTEM - TASK OVERDUE]` : `[SYSTEM - TASK DUE SOON]`,
+    ``,
+    `**Task ID:** ${task.id}`,
+    `**Description:** ${task.description}`,
+    `**Priority:** ${task.priority}`,
+    `**Status:** ${task.status}`,
+    `**Due:** ${new Date(evaluation.dueMs).toISOString()} (${overdue ? `${formatDuration(evaluation.timeToDueMs)} overdue` : `in ${formatDuration(evaluation.timeToDueMs)}`})`,
+    ``,
+    overdue
+      ? `Finish the task now, or use task_block / task_update to explain what is holding it up.`
+      : `Prioritize this task so it lands before the deadline.`,
+  ].join("\n");
+}
+
+function formatEscalationPrompt(
+  ownerAgentId: string,
+  task: TaskFile,
+  evaluation: TaskSlaEvaluation,
+): string {
+  return [
+    `[SYSTEM - SLA ESCALATION]`,
+    ``,
+    `A ${task.priority} task owned by agent "${ownerAgentId}" is overdue.`,
+    `**Task ID:** ${task.id}`,
+    `**Description:** ${task.description}`,
+    `**Status:** ${task.status}`,
+    `**Due:** ${new Date(evaluation.dueMs).toISOString()} (${formatDuration(evaluation.timeToDueMs)} overdue)`,
+    ``,
+    `Check in with "${ownerAgentId}", reprioritize, or reassign the task.`,
+  ].join("\n");
+}
+
+async function sendSlaMessage(
+  cfg: OpenClawConfig,
+  agentId: string,
+  message: string,
+  channel: string,
+): Promise<void> {
+  await agentCommand({
+    message,
+    agentId,
+    accountId: resolveAgentBoundAccountId(cfg, agentId, channel) ?? undefined,
+    deliver: false,
+  });
+}
+
+async function escalateToLead(
+  cfg: OpenClawConfig,
+  ownerAgentId: string,
+  task: TaskFile,
+  evaluation: TaskSlaEvaluation,
+  channel: string,
+): Promise<string | null> {
+  const lead = findLeadAgent(await readTeamState(TEAM_STATE_DIR));
+  if (!lead || lead.agentId === ownerAgentId) {
+    return null;
+  }
+  await sendSlaMessage(
+    cfg,
+    lead.agentId,
+    formatEscalationPrompt(ownerAgentId, task, evaluation),
+    channel,
+  );
+  return lead.agentId;
+}
+
+async function handleTaskSla(
+  cfg: OpenClawConfig,
+  agentId: string,
+  task: TaskFile,
+  evaluation: TaskSlaEvaluation,
+  config: ResolvedTaskSlaConfig,
+  notified: ReturnType<typeof openNotifiedNamespace>,
+): Promise<void> {
+  const key = `${agentId}:${task.id}`;
+  let state = await notified.get(key);
+  if (!state || state.dueMs !== evaluation.dueMs) {
+    state = { dueMs: evaluation.dueMs, dueSoon: false, overdue: false };
+  }
+
+  const ownerAgentId = task.assignee ?? agentId;
+  const eventData = {
+    taskId: task.id,
+    priority: task.priority,
+    dueDate: new Date(evaluation.dueMs).toISOString(),
+    timeToDueMs: evaluation.timeToDueMs,
+  };
+
+  if (evaluation.state === "due_soon" && !state.dueSoon) {
+    state.dueSoon = true;
+    await notified.set(key, state);
+    emit({
+      type: EVENT_TYPES.TASK_DUE_SOON,
+      agentId: ownerAgentId,
+      ts: Date.now(),
+      data: eventData,
+    });
+    await sendSlaMessage(cfg, ownerAgentId, formatReminderPrompt(task, evaluation), config.channel);
+    log.info("Task due soon, owner reminded", { agentId: ownerAgentId, taskId: task.id });
+    return;
+  }
+
+  if (evaluation.state === "overdue" && !state.overdue) {
+    state.overdue = true;
+    state.dueSoon = true;
+    await notified.set(key, state);
+    let escalatedTo: string | null = null;
+    if (ESCALATED_PRIORITIES.has(task.priority)) {
+      try {
+        escalatedTo = await escalateToLead(cfg, ownerAgentId, task, evaluation, config.channel);
+      } catch (error) {
+        log.warn("Failed to escalate overdue task to lead", {
+          taskId: task.id,
+          error: String(error),
+        });
+      }
+    }
+    emit({
+      type: EVENT_TYPES.TASK_OVERDUE,
+      agentId: ownerAgentId,
+      ts: Date.now(),
+      data: { ...eventData, escalatedTo },
+    });
+    await sendSlaMessage(cfg, ownerAgentId, formatReminderPrompt(task, evaluation), config.channel);
+    log.info("Task overdue, owner reminded", {
+      agentId: ownerAgentId,
+      taskId: task.id,
+      escalatedTo,
+    });
+  }
+}
+
+export async function runTaskSlaCheck(
+  cfg: OpenClawConfig,
+  nowMs = Date.now(),
+  opts: { stateDir?: string } = {},
+): Promise<void> {
+  const config = resolveTaskSlaConfig(cfg);
+  const notified = openNotifiedNamespace(opts.stateDir);
+  const seen = new Set<string>();
+
+  for (const agentId of listAgentIds(cfg)) {
+    try {
+      const tasks = await listTasks(resolveAgentWorkspaceDir(cfg, agentId), "all");
+      for (const task of tasks) {
+        if (!OPEN_STATUSES.has(task.status)) {
+          continue;
+        }
+        const evaluation = evaluateTaskSla(task, nowMs, config);
+        if (!evaluation) {
+          continue;
+        }
+        seen.add(`${agentId}:${task.id}`);
+        if (evaluation.state === "ok") {
+          continue;
+        }
+        try {
+          await handleTaskSla(cfg, agentId, task, evaluation, config, notified);
+        } catch (error) {
+          log.warn("Failed to send SLA reminder", {
+            agentId,
+            taskId: task.id,
+            error: String(error),
+          });
+        }
+      }
+    } catch (error) {
+      log.warn("Error in SLA check", { agentId, error: String(error) });
+    }
+  }
+
+  // Forget finished or deleted tasks so the namespace does not grow unbounded.
+  const stale = (await notified.entries()).filter((entry) => !seen.has(entry.key));
+  if (stale.length > 0) {
+    await notified.store.mutate(notified.namespace, (entries) => {
+      for (const { key } of stale) {
+        delete entries[key];
+      }
+    });
+  }
+}
+
+export function startTaskSlaMonitor(opts: { cfg: OpenClawConfig }): TaskSlaMonitor {
+  let currentCfg = opts.cfg;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const scheduleNext = () => {
+    if (stopped) {
+      return;
+    }
+    const { enabled, checkIntervalMs } = resolveTaskSlaConfig(currentCfg);
+    if (!enabled) {
+      log.debug("Task SLA monitor disabled");
+      return;
+    }
+    timer = setTimeout(async () => {
+      if (stopped) {
+        return;
+      }
+      try {
+        await runTaskSlaCheck(currentCfg);
+      } catch (error) {
+        log.warn("Task SLA check failed", { error: String(error) });
+      }
+      scheduleNext();
+    }, checkIntervalMs);
+    timer.unref?.();
+  };
+
+  if (resolveTaskSlaConfig(currentCfg).enabled) {
+    log.info("Task SLA monitor started");
+    scheduleNext();
+  }
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      log.info("Task SLA monitor stopped");
+    },
+    updateConfig: (cfg: OpenClawConfig) => {
+      currentCfg = cfg;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      scheduleNext();
+    },
+    checkNow: async () => {
+      await runTaskSlaCheck(currentCfg);
+    },
+  };
+}
@@ -41,6 +41,7 @@ vi.mock("../agents/tools/task-tool.js", () => ({
   findBlockedTasks: vi.fn().mockResolvedValue([]),
   findPendingApprovalTasks: vi.fn().mockResolvedValue([]),
   findAllBacklogTasks: vi.fn().mockResolvedValue([]),
+  listTasks: vi.fn().mockResolvedValue([]),
   writeTask: vi.fn().mockResolvedValue(undefined),
   readTask: vi.fn().mockResolvedValue(null),
 }));
@@ -70,7 +71,13 @@ vi.mock("../process/command-queue.js", () => ({
 }));
 
 import fs from "node:fs/promises";
-import { findActiveTask, readTask, writeTask } from "../agents/tools/task-tool.js";
+import {
+  findActiveTask,
+  listTasks,
+  readTask,
+  writeTask,
+  type TaskFile,
+} from "../agents/tools/task-tool.js";
 import { agentCommand } from "../commands/agent.js";
 import { getQueueSize } from "../process/command-queue.js";
 import { resolveAgentBoundAccountId } from "../routing/bindings.js";
@@ -81,6 +88,14 @@ import { startTaskContinuationRunner, __resetAgentStates } from "./task-continua
 // ============================================================================
 
 describe("zombie task abandonment", () => {
+  // The runner lists tasks through the task store, which filters by status.
+  function mockStoredTasks(tasks: Array<Pick<TaskFile, "status">>) {
+    vi.mocked(listTasks).mockImplementation(
+      async (_workspaceDir, status) =>
+        tasks.filter((task) => !status || status === "all" || task.status === status) as never,
+    );
+  }
+
   beforeEach(() => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date("2026-02-05T10:00:00Z"));
@@ -112,13 +127,9 @@ describe("zombie task abandonment", () => {
       progress: ["Started working"],
     };
 
-    // readdir returns a task file
-    vi.mocked(fs.readdir).mockResolvedValue(["task_zombie1.md"] as string[]);
-
-    // readTask returns the zombie task (called twice: once for initial check, once for fresh read inside lock)
-    vi.mocked(readTask)
-      .mockResolvedValueOnce(zombieTask as never)
-      .mockResolvedValueOnce({ ...zombieTask } as never);
+    mockStoredTasks([zombieTask]);
+    // Fresh read inside the lock
+    vi.mocked(readTask).mockResolvedValueOnce({ ...zombieTask } as never);
 
     const runner = startTaskContinuationRunner({
       cfg: {
@@ -162,7 +173,7 @@ describe("zombie task abandonment", () => {
       progress: ["Working"],
     };
 
-    vi.mocked(fs.readdir).mockResolvedValue(["task_fresh1.md"] as string[]);
+    mockStoredTasks([freshTask]);
     vi.mocked(readTask).mockResolvedValue(freshTask as never);
 
     const runner = startTaskContinuationRunner({
@@ -197,7 +208,7 @@ describe("zombie task abandonment", () => {
       progress: ["Blocked"],
     };
 
-    vi.mocked(fs.readdir).mockResolvedValue(["task_blocked1.md"] as string[]);
+    mockStoredTasks([blockedTask]);
     vi.mocked(readTask).mockResolvedValue(blockedTask as never);
 
     const runner = startTaskContinuationRunner({
@@ -317,7 +328,7 @@ describe("channel config propagation", () => {
 
 describe("task-monitor abandoned status parsing", () => {
   it("parseTaskFileMd handles abandoned status in task file", () => {
-    // Inline parser (same logic as task-monitor-server.ts)
+    // Inline parser (same logic as parseTaskFileMd, used by src/gateway/server-task-monitor.ts)
     function parseStatus(content: string): string | null {
       const match = content.match(/\*\*Status:\*\*\s*(.+)/);
       return match ? match[1].trim() : null;
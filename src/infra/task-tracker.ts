@@ -9,14 +9,14 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { OpenClawConfig } from "../config/config.js";
 import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { isAgentUsingTaskTools } from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
 import { logVerbose } from "../globals.js";
 import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
 import { onAgentEvent, type AgentEventPayload } from "./agent-events.js";
 
 const CURRENT_TASK_FILENAME = "CURRENT_TASK.md";
-const TASKS_DIR = "tasks";
 
 /** In-memory map: runId → task context (message body, thread info, start time). */
 const runTaskContext = new Map<
@@ -63,16 +63,6 @@ export function isAgentManagedMode(agentId: string): boolean {
   return agentManagedMode.has(agentId);
 }
 
-async function hasActiveTaskFiles(workspaceDir: string): Promise<boolean> {
-  const tasksDir = path.join(workspaceDir, TASKS_DIR);
-  try {
-    const files = await fs.readdir(tasksDir);
-    return files.some((f) => f.startsWith("task_") && f.endsWith(".md"));
-  } catch {
-    return false;
-  }
-}
-
 /** Unsubscribe function from agent events. */
 let unsubscribe: (() => void) | null = null;
 
@@ -195,9 +185,9 @@ async function handleTaskStart(
       // File doesn't exist, proceed with write
     }
 
-    // Check if tasks/ directory has active task files (multi-task mode)
-    if (await hasActiveTaskFiles(workspaceDir)) {
-      logVerbose(`task-tracker: tasks/ directory has active files, skipping auto-write`);
+    // Check if the task store holds tasks (multi-task mode)
+    if (await isAgentUsingTaskTools(workspaceDir)) {
+      logVerbose(`task-tracker: task store has tasks, skipping auto-write`);
       return;
     }
 
@@ -256,8 +246,8 @@ async function handleTaskEnd(
       // File doesn't exist, proceed with clear
     }
 
-    if (await hasActiveTaskFiles(workspaceDir)) {
-      logVerbose(`task-tracker: tasks/ directory has active files, skipping auto-clear`);
+    if (await isAgentUsingTaskTools(workspaceDir)) {
+      logVerbose(`task-tracker: task store has tasks, skipping auto-clear`);
       return;
     }
 
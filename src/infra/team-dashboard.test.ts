@@ -1,11 +1,26 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { startTeamDashboard } from "./team-dashboard.js";
 import * as teamState from "./team-state.js";
 
 describe("team-dashboard", () => {
   let fetchSpy: ReturnType<typeof vi.fn>;
-
-  beforeEach(() => {
+  let stateDir = "";
+
+  // The first tick reads the remembered message id from disk before posting.
+  const waitForCalls = (count: number) =>
+    vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(count));
+  const waitForSavedMessageId = () =>
+    vi.waitFor(async () =>
+      expect(await fs.readFile(path.join(stateDir, "team-dashboard.json"), "utf-8")).toContain(
+        "msg-123",
+      ),
+    );
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "team-dashboard-"));
     vi.useFakeTimers();
     fetchSpy = vi.fn().mockResolvedValue({
       ok: true,
@@ -15,10 +30,11 @@ describe("team-dashboard", () => {
     vi.stubGlobal("fetch", fetchSpy);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     vi.useRealTimers();
     vi.unstubAllGlobals();
     vi.restoreAllMocks();
+    await fs.rm(stateDir, { recursive: true, force: true });
   });
 
   it("posts initial dashboard on start", async () => {
@@ -32,12 +48,12 @@ describe("team-dashboard", () => {
 
     const stop = startTeamDashboard({
       webhookUrl: "https://discord.com/api/webhooks/test",
-      workspaceDir: "/tmp/test",
+      stateDir,
       intervalMs: 10000,
     });
 
     // Let the first tick complete
-    await vi.advanceTimersByTimeAsync(0);
+    await waitForCalls(1);
 
     expect(fetchSpy).toHaveBeenCalledTimes(1);
     const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
@@ -59,17 +75,17 @@ describe("team-dashboard", () => {
 
     const stop = startTeamDashboard({
       webhookUrl: "https://discord.com/api/webhooks/test",
-      workspaceDir: "/tmp/test",
+      stateDir,
       intervalMs: 5000,
     });
 
     // First tick — creates message
-    await vi.advanceTimersByTimeAsync(0);
-    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await waitForCalls(1);
 
     // Second tick — should PATCH
+    await waitForSavedMessageId();
     await vi.advanceTimersByTimeAsync(5100);
-    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    await waitForCalls(2);
     const secondCall = fetchSpy.mock.calls[1];
     expect(secondCall[0]).toContain("/messages/msg-123");
     expect(secondCall[1].method).toBe("PATCH");
@@ -82,12 +98,11 @@ describe("team-dashboard", () => {
 
     const stop = startTeamDashboard({
       webhookUrl: "https://discord.com/api/webhooks/test",
-      workspaceDir: "/tmp/test",
+      stateDir,
       intervalMs: 10000,
     });
 
-    await vi.advanceTimersByTimeAsync(0);
-    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await waitForCalls(1);
     const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
     expect(body.embeds[0].description).toContain("0 agent(s)");
 
@@ -99,15 +114,79 @@ describe("team-dashboard", () => {
 
     const stop = startTeamDashboard({
       webhookUrl: "https://discord.com/api/webhooks/test",
-      workspaceDir: "/tmp/test",
+      stateDir,
       intervalMs: 5000,
     });
 
-    await vi.advanceTimersByTimeAsync(0);
+    await waitForCalls(1);
     stop();
 
     await vi.advanceTimersByTimeAsync(20000);
     // Only 1 call (the initial tick)
     expect(fetchSpy).toHaveBeenCalledTimes(1);
   });
+
+  it("keeps editing the same message across restarts", async () => {
+    vi.spyOn(teamState, "readTeamState").mockResolvedValue({
+      version: 1,
+      agents: {},
+      lastUpdatedMs: 0,
+    });
+
+    const first = startTeamDashboard({
+      webhookUrl: "https://discord.com/api/webhooks/test",
+      stateDir,
+      intervalMs: 10000,
+    });
+    await waitForCalls(1);
+    first();
+    await waitForSavedMessageId();
+
+    const second = startTeamDashboard({
+      webhookUrl: "https://discord.com/api/webhooks/test",
+      stateDir,
+      intervalMs: 10000,
+    });
+    await waitForCalls(2);
+    second();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(fetchSpy.mock.calls[1][0]).toContain("/messages/msg-123");
+    expect(fetchSpy.mock.calls[1][1].method).toBe("PATCH");
+  });
+
+  it("edits a configured pinned message and flags backing-off agents", async () => {
+    const now = Date.now();
+    vi.spyOn(teamState, "readTeamState").mockResolvedValue({
+      version: 1,
+      agents: {
+        dev: {
+          agentId: "dev",
+          role: "worker",
+          status: "interrupted",
+          currentTaskId: null,
+          lastHeartbeatMs: now,
+          consecutiveFailures: 2,
+          lastFailureReason: "rate_limit",
+          backoffUntilMs: now + 5 * 60_000,
+        },
+      },
+      lastUpdatedMs: now,
+    });
+
+    const stop = startTeamDashboard({
+      webhookUrl: "https://discord.com/api/webhooks/test",
+      stateDir,
+      messageId: "pinned-1",
+      intervalMs: 10000,
+    });
+    await waitForCalls(1);
+    stop();
+
+    expect(fetchSpy.mock.calls[0][0]).toContain("/messages/pinned-1");
+    const embed = JSON.parse(fetchSpy.mock.calls[0][1].body).embeds[0];
+    expect(embed.description).toContain("1 backing off");
+    expect(embed.fields[0].name).toContain("dev (worker) backoff");
+    expect(embed.fields[0].value).toContain("rate_limit ×2");
+  });
 });
@@ -5,52 +5,88 @@
  * Discord webhook.  The embed shows each agent's status, current task,
  * and last activity time — a live operational dashboard for multi-agent
  * deployments.
+ *
+ * A single message is edited in place: either the configured (pinned)
+ * `messageId`, or the one posted on first run, whose id is remembered in
+ * `team-dashboard.json` so restarts keep editing the same message.
  */
 
-import { readTeamState, type AgentTeamEntry } from "./team-state.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  formatTeamMemberLine,
+  summarizeTeamState,
+  type TeamMemberState,
+  type TeamMemberSummary,
+} from "./team-state-tracker.js";
+import { readTeamState } from "./team-state.js";
 
 export type TeamDashboardConfig = {
   /** Discord webhook URL for the dashboard embed. */
   webhookUrl: string;
-  /** Workspace directory for reading team state. */
-  workspaceDir: string;
+  /** State directory holding `team-state.json`. */
+  stateDir: string;
+  /** Webhook message to edit instead of posting a new one. */
+  messageId?: string;
   /** Refresh interval in ms (default: 30_000). */
   intervalMs?: number;
+  /** Active agents silent for longer than this are shown as stuck. */
+  stuckAfterMs?: number;
 };
 
-const STATUS_EMOJI: Record<string, string> = {
-  active: "🟢",
-  idle: "🟡",
-  interrupted: "🔴",
-  blocked: "🔴",
-  offline: "⚫",
-};
+const STATE_ORDER: TeamMemberState[] = ["stuck", "interrupted", "backoff", "active", "idle"];
+
+function resolveMessageIdPath(stateDir: string): string {
+  return path.join(stateDir, "team-dashboard.json");
+}
 
-function formatAgentField(agentId: string, entry: AgentTeamEntry) {
-  const emoji = STATUS_EMOJI[entry.status] ?? "⚪";
-  const lastMs = entry.lastHeartbeatMs ?? 0;
-  const ago = lastMs > 0 ? `${Math.round((Date.now() - lastMs) / 60_000)}m ago` : "unknown";
-  const task = entry.currentTaskId ? `\`${entry.currentTaskId}\`` : "—";
-  const failure = entry.lastFailureReason ? ` ⚠ ${entry.lastFailureReason}` : "";
+async function loadMessageId(stateDir: string): Promise<string | null> {
+  try {
+    const raw = JSON.parse(await fs.readFile(resolveMessageIdPath(stateDir), "utf-8")) as {
+      messageId?: unknown;
+    };
+    return typeof raw.messageId === "string" ? raw.messageId : null;
+  } catch {
+    return null;
+  }
+}
 
+async function saveMessageId(stateDir: string, messageId: string): Promise<void> {
+  try {
+    await fs.mkdir(stateDir, { recursive: true });
+    await fs.writeFile(resolveMessageIdPath(stateDir), JSON.stringify({ messageId }), "utf-8");
+  } catch {
+    // Best-effort — worst case the next restart posts a fresh message
+  }
+}
+
+function formatAgentField(member: TeamMemberSummary, nowMs: number) {
+  const [name, ...details] = formatTeamMemberLine(member, nowMs).split(" · ");
   return {
-    name: `${emoji} ${agentId}`,
-    value: `Status: **${entry.status}** | Task: ${task} | Active: ${ago}${failure}`,
+    name,
+    value: details.length > 0 ? details.join(" · ") : "—",
     inline: false,
   };
 }
 
-function buildDashboardEmbed(agents: Record<string, AgentTeamEntry>) {
-  const entries = Object.entries(agents);
-  const fields = entries.map(([id, entry]) => formatAgentField(id, entry));
-  const activeCount = entries.filter(([, e]) => e.status === "active").length;
+export function buildDashboardEmbed(members: TeamMemberSummary[], nowMs = Date.now()) {
+  const sorted = members.toSorted(
+    (a, b) =>
+      STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state) ||
+      a.agentId.localeCompare(b.agentId),
+  );
+  const count = (state: TeamMemberState) => members.filter((m) => m.state === state).length;
+  const troubled = count("stuck") + count("interrupted");
 
   return {
     title: "🤖 Agent Team Dashboard",
-    color: activeCount > 0 ? 0x2ecc71 : 0x95a5a6,
-    description: `${entries.length} agent(s) registered, ${activeCount} active`,
-    fields: fields.slice(0, 25),
-    timestamp: new Date().toISOString(),
+    color: troubled > 0 ? 0xe74c3c : count("active") > 0 ? 0x2ecc71 : 0x95a5a6,
+    description:
+      `${members.length} agent(s) registered, ${count("active")} active` +
+      (count("backoff") > 0 ? `, ${count("backoff")} backing off` : "") +
+      (troubled > 0 ? `, ${troubled} stuck/interrupted` : ""),
+    fields: sorted.slice(0, 25).map((member) => formatAgentField(member, nowMs)),
+    timestamp: new Date(nowMs).toISOString(),
     footer: { text: "Auto-updated by team-dashboard" },
   };
 }
@@ -93,7 +129,8 @@ async function postOrEditDashboard(
 
 export function startTeamDashboard(config: TeamDashboardConfig): () => void {
   const interval = config.intervalMs ?? 30_000;
-  let messageId: string | null = null;
+  let messageId: string | null = config.messageId ?? null;
+  let loaded = Boolean(config.messageId);
   let stopped = false;
   let timer: ReturnType<typeof setTimeout> | null = null;
 
@@ -102,9 +139,19 @@ export function startTeamDashboard(config: TeamDashboardConfig): () => void {
       return;
     }
     try {
-      const state = await readTeamState(config.workspaceDir);
-      const embed = buildDashboardEmbed(state?.agents ?? {});
-      messageId = await postOrEditDashboard(config.webhookUrl, embed, messageId);
+      if (!loaded) {
+        messageId = await loadMessageId(config.stateDir);
+        loaded = true;
+      }
+      const nowMs = Date.now();
+      const state = await readTeamState(config.stateDir);
+      const members = summarizeTeamState(state, nowMs, { stuckAfterMs: config.stuckAfterMs });
+      const embed = buildDashboardEmbed(members, nowMs);
+      const nextId = await postOrEditDashboard(config.webhookUrl, embed, messageId);
+      if (nextId && nextId !== messageId) {
+        await saveMessageId(config.stateDir, nextId);
+      }
+      messageId = nextId ?? messageId;
     } catch {
       // Ignore — next tick will retry
     }
@@ -0,0 +1,185 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { emitAgentEvent } from "./agent-events.js";
+import { emit, reset } from "./events/bus.js";
+import { EVENT_TYPES } from "./events/schemas.js";
+import {
+  formatTeamStatus,
+  resolveTeamConfig,
+  startTeamStateTracker,
+  summarizeTeamState,
+  type TeamStateTracker,
+} from "./team-state-tracker.js";
+import { readTeamState, type TeamStateData } from "./team-state.js";
+
+const cfg = {
+  agents: {
+    list: [{ id: "main" }, { id: "dev" }, { id: "qa" }],
+    defaults: { taskContinuation: { team: { lead: "main", roles: { qa: "specialist" } } } },
+  },
+} as OpenClawConfig;
+
+let stateDir = "";
+let tracker: TeamStateTracker | null = null;
+
+describe("team state tracker", () => {
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "team-state-tracker-"));
+  });
+
+  afterEach(async () => {
+    tracker?.stop();
+    tracker = null;
+    reset();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("seeds the roster with configured roles", async () => {
+    tracker = startTeamStateTracker({ cfg, stateDir });
+    await tracker.flush();
+
+    const state = await readTeamState(stateDir);
+    expect(state.agents.main.role).toBe("lead");
+    expect(state.agents.dev.role).toBe("worker");
+    expect(state.agents.qa.role).toBe("specialist");
+  });
+
+  it("tracks runs, failures and task events", async () => {
+    tracker = startTeamStateTracker({ cfg, stateDir });
+    const sessionKey = "agent:dev:main";
+
+    emitAgentEvent({ runId: "run-1", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emit({
+      type: EVENT_TYPES.TASK_STARTED,
+      agentId: "dev",
+      ts: Date.now(),
+      data: { taskId: "t1" },
+    });
+    await tracker.flush();
+    expect((await readTeamState(stateDir)).agents.dev).toMatchObject({
+      status: "active",
+      currentTaskId: "t1",
+    });
+
+    emitAgentEvent({
+      runId: "run-1",
+      stream: "lifecycle",
+      sessionKey,
+      data: { phase: "error", error: "429 Too Many Requests" },
+    });
+    await tracker.flush();
+    const failed = (await readTeamState(stateDir)).agents.dev;
+    expect(failed).toMatchObject({
+      status: "interrupted",
+      consecutiveFailures: 1,
+      lastFailureReason: "rate_limit",
+    });
+    expect(failed.backoffUntilMs).toBeGreaterThan(Date.now());
+
+    emitAgentEvent({ runId: "run-2", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emitAgentEvent({ runId: "run-2", stream: "lifecycle", sessionKey, data: { phase: "end" } });
+    emit({
+      type: EVENT_TYPES.TASK_COMPLETED,
+      agentId: "dev",
+      ts: Date.now(),
+      data: { taskId: "t1" },
+    });
+    await tracker.flush();
+    const done = (await readTeamState(stateDir)).agents.dev;
+    expect(done).toMatchObject({ status: "idle", currentTaskId: null, consecutiveFailures: 0 });
+    expect(done.backoffUntilMs).toBeUndefined();
+  });
+
+  it("keeps an agent active until its last concurrent run ends", async () => {
+    tracker = startTeamStateTracker({ cfg, stateDir });
+    const sessionKey = "agent:qa:main";
+
+    emitAgentEvent({ runId: "a", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emitAgentEvent({ runId: "b", stream: "lifecycle", sessionKey, data: { phase: "start" } });
+    emitAgentEvent({ runId: "a", stream: "lifecycle", sessionKey, data: { phase: "end" } });
+    await tracker.flush();
+    expect((await readTeamState(stateDir)).agents.qa.status).toBe("active");
+
+    emitAgentEvent({ runId: "b", stream: "lifecycle", sessionKey, data: { phase: "end" } });
+    await tracker.flush();
+    expect((await readTeamState(stateDir)).agents.qa.status).toBe("idle");
+  });
+
+  it("ignores events once disabled", async () => {
+    const disabled = {
+      ...cfg,
+      agents: { ...cfg.agents, defaults: { taskContinuation: { team: { enabled: false } } } },
+    } as OpenClawConfig;
+    tracker = startTeamStateTracker({ cfg: disabled, stateDir });
+    emit({
+      type: EVENT_TYPES.TASK_STARTED,
+      agentId: "dev",
+      ts: Date.now(),
+      data: { taskId: "t1" },
+    });
+    await tracker.flush();
+    expect((await readTeamState(stateDir)).agents).toEqual({});
+  });
+});
+
+describe("summarizeTeamState", () => {
+  const now = 10 * 60 * 60 * 1000;
+  const base = { role: "worker" as const, currentTaskId: null, consecutiveFailures: 0 };
+  const state: TeamStateData = {
+    version: 1,
+    lastUpdatedMs: now,
+    agents: {
+      busy: { ...base, agentId: "busy", status: "active", lastHeartbeatMs: now - 60_000 },
+      frozen: { ...base, agentId: "frozen", status: "active", lastHeartbeatMs: now - 3_600_000 },
+      waiting: {
+        ...base,
+        agentId: "waiting",
+        status: "interrupted",
+        lastHeartbeatMs: now,
+        consecutiveFailures: 2,
+        lastFailureReason: "rate_limit",
+        backoffUntilMs: now + 120_000,
+      },
+      resting: { ...base, agentId: "resting", status: "idle", lastHeartbeatMs: now },
+    },
+  };
+
+  it("derives active, stuck, backoff and idle states", () => {
+    const members = summarizeTeamState(state, now, { stuckAfterMs: 30 * 60_000 });
+    expect(Object.fromEntries(members.map((m) => [m.agentId, m.state]))).toEqual({
+      busy: "active",
+      frozen: "stuck",
+      waiting: "backoff",
+      resting: "idle",
+    });
+
+    const text = formatTeamStatus(members, now);
+    expect(text).toContain("👥 Team (4)");
+    expect(text).toContain("waiting (worker) backoff 2m · rate_limit ×2");
+  });
+
+  it("resolves the stuck threshold and dashboard from config", () => {
+    const resolved = resolveTeamConfig({
+      agents: {
+        defaults: {
+          taskContinuation: {
+            team: {
+              stuckAfter: "10m",
+              dashboard: { webhookUrl: " https://hook ", interval: "1m" },
+            },
+          },
+        },
+      },
+    } as OpenClawConfig);
+    expect(resolved.stuckAfterMs).toBe(600_000);
+    expect(resolved.dashboard).toEqual({
+      webhookUrl: "https://hook",
+      messageId: undefined,
+      intervalMs: 60_000,
+    });
+    expect(resolveTeamConfig({} as OpenClawConfig).dashboard).toBeNull();
+  });
+});
@@ -0,0 +1,394 @@
+import { listAgentIds } from "../agents/agent-scope.js";
+import { parseDurationMs } from "../cli/parse-duration.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { TaskTeamConfig } from "../config/types.agent-defaults.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { parseAgentSessionKey } from "../sessions/session-key-utils.js";
+import { onAgentEvent, type AgentEventPayload } from "./agent-events.js";
+import { calculateBackoffDelay, parseFailureReason } from "./continuation-state-machine.js";
+import { subscribe, type CoordinationEvent } from "./events/bus.js";
+import { EVENT_TYPES } from "./events/schemas.js";
+import {
+  readTeamState,
+  updateAgentEntry,
+  type AgentRole,
+  type AgentTeamEntry,
+  type TeamStateData,
+} from "./team-state.js";
+
+const log = createSubsystemLogger("team-state");
+
+const DEFAULT_STUCK_AFTER_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_LOAD = 6;
+const DEFAULT_FAIRNESS_WINDOW_MS = 24 * 60 * 60 * 1000;
+/** Non-lifecycle agent events refresh the heartbeat at most this often. */
+const HEARTBEAT_THROTTLE_MS = 60 * 1000;
+
+const ROLES = new Set<AgentRole>(["lead", "worker", "specialist"]);
+
+export type ResolvedTeamConfig = {
+  enabled: boolean;
+  roles: Record<string, AgentRole>;
+  stuckAfterMs: number;
+  capabilities: Record<string, string[]>;
+  assignment: { maxLoad: number; excludeLead: boolean; fairnessWindowMs: number };
+  /** Null unless a dashboard webhook is configured. */
+  dashboard: { webhookUrl: string; messageId?: string; intervalMs: number } | null;
+};
+
+/** What `/team`, `team.status` and the dashboard show for an agent. */
+export type TeamMemberState = "active" | "idle" | "backoff" | "stuck" | "interrupted";
+
+export type TeamMemberSummary = {
+  agentId: string;
+  role: AgentRole;
+  state: TeamMemberState;
+  currentTaskId: string | null;
+  lastHeartbeatMs: number;
+  consecutiveFailures: number;
+  lastFailureReason?: string;
+  backoffUntilMs?: number;
+};
+
+export type TeamStateTracker = {
+  stop: () => void;
+  updateConfig: (cfg: OpenClawConfig) => void;
+  /** Resolves once every queued team-state write has landed. */
+  flush: () => Promise<void>;
+};
+
+function parseDurationOr(raw: string | undefined, fallback: number): number {
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return parseDurationMs(raw, { defaultUnit: "m" });
+  } catch {
+    return fallback;
+  }
+}
+
+export function resolveTeamConfig(cfg: OpenClawConfig): ResolvedTeamConfig {
+  const teamConfig: TaskTeamConfig | undefined = cfg.agents?.defaults?.taskContinuation?.team;
+
+  const roles: Record<string, AgentRole> = {};
+  for (const [agentId, role] of Object.entries(teamConfig?.roles ?? {})) {
+    if (ROLES.has(role)) {
+      roles[agentId] = role;
+    }
+  }
+  if (teamConfig?.lead) {
+    roles[teamConfig.lead] = "lead";
+  }
+
+  const capabilities: Record<string, string[]> = {};
+  for (const [agentId, tags] of Object.entries(teamConfig?.capabilities ?? {})) {
+    if (Array.isArray(tags)) {
+      capabilities[agentId] = tags.map((tag) => String(tag).trim().toLowerCase()).filter(Boolean);
+    }
+  }
+  const maxLoad = teamConfig?.assignment?.maxLoad;
+
+  const webhookUrl = teamConfig?.dashboard?.webhookUrl?.trim();
+  return {
+    enabled: teamConfig?.enabled ?? true,
+    roles,
+    stuckAfterMs: parseDurationOr(teamConfig?.stuckAfter, DEFAULT_STUCK_AFTER_MS),
+    capabilities,
+    assignment: {
+      maxLoad: typeof maxLoad === "number" && maxLoad > 0 ? maxLoad : DEFAULT_MAX_LOAD,
+      excludeLead: teamConfig?.assignment?.excludeLead ?? true,
+      fairnessWindowMs: parseDurationOr(
+        teamConfig?.assignment?.fairnessWindow,
+        DEFAULT_FAIRNESS_WINDOW_MS,
+      ),
+    },
+    dashboard: webhookUrl
+      ? {
+          webhookUrl,
+          messageId: teamConfig?.dashboard?.messageId?.trim() || undefined,
+          intervalMs: parseDurationOr(teamConfig?.dashboard?.interval, 30_000),
+        }
+      : null,
+  };
+}
+
+/**
+ * Derive the display state of each agent. Backoff wins over everything else while it
+ * lasts; an agent that is active but silent for `stuckAfterMs` is reported as stuck.
+ */
+export function summarizeTeamState(
+  state: TeamStateData | null,
+  nowMs: number,
+  opts: { stuckAfterMs?: number } = {},
+): TeamMemberSummary[] {
+  const stuckAfterMs = opts.stuckAfterMs ?? DEFAULT_STUCK_AFTER_MS;
+  return Object.entries(state?.agents ?? {})
+    .map(([agentId, entry]) => {
+      const lastHeartbeatMs = entry.lastHeartbeatMs ?? 0;
+      let memberState: TeamMemberState;
+      if (entry.backoffUntilMs !== undefined && entry.backoffUntilMs > nowMs) {
+        memberState = "backoff";
+      } else if (entry.status === "active") {
+        memberState = nowMs - lastHeartbeatMs > stuckAfterMs ? "stuck" : "active";
+      } else {
+        memberState = entry.status === "interrupted" ? "interrupted" : "idle";
+      }
+      return {
+        agentId,
+        role: entry.role ?? "worker",
+        state: memberState,
+        currentTaskId: entry.currentTaskId ?? null,
+        lastHeartbeatMs,
+        consecutiveFailures: entry.consecutiveFailures ?? 0,
+        ...(entry.lastFailureReason ? { lastFailureReason: entry.lastFailureReason } : {}),
+        ...(memberState === "backoff" ? { backoffUntilMs: entry.backoffUntilMs } : {}),
+      };
+    })
+    .toSorted((a, b) => a.agentId.localeCompare(b.agentId));
+}
+
+function formatAgo(ms: number): string {
+  const minutes = Math.round(Math.max(0, ms) / 60_000);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+const STATE_EMOJI: Record<TeamMemberState, string> = {
+  active: "🟢",
+  idle: "🟡",
+  backoff: "🟠",
+  stuck: "🔴",
+  interrupted: "🔴",
+};
+
+/** One line per agent, e.g. `🟠 dev (worker) backoff 4m · rate_limit ×2 · task_abc`. */
+export function formatTeamMemberLine(member: TeamMemberSummary, nowMs: number): string {
+  const parts = [`${STATE_EMOJI[member.state]} ${member.agentId} (${member.role}) ${member.state}`];
+  if (member.state === "backoff" && member.backoffUntilMs !== undefined) {
+    parts[0] += ` ${formatAgo(member.backoffUntilMs - nowMs)}`;
+  } else if (member.lastHeartbeatMs > 0) {
+    parts[0] += ` · seen ${formatAgo(nowMs - member.lastHeartbeatMs)} ago`;
+  }
+  if (member.consecutiveFailures > 0) {
+    parts.push(`${member.lastFailureReason ?? "failed"} ×${member.consecutiveFailures}`);
+  }
+  if (member.currentTaskId) {
+    parts.push(member.currentTaskId);
+  }
+  return parts.join(" · ");
+}
+
+export function formatTeamStatus(members: TeamMemberSummary[], nowMs: number): string {
+  if (members.length === 0) {
+    return "👥 No team state recorded yet.";
+  }
+  const counts = new Map<TeamMemberState, number>();
+  for (const member of members) {
+    counts.set(member.state, (counts.get(member.state) ?? 0) + 1);
+  }
+  const header = [...counts.entries()].map(([state, count]) => `${count} ${state}`).join(", ");
+  return [
+    `👥 Team (${members.length}): ${header}`,
+    ...members.map((m) => formatTeamMemberLine(m, nowMs)),
+  ].join("\n");
+}
+
+export async function loadTeamStatus(
+  cfg: OpenClawConfig,
+  opts: { stateDir?: string; nowMs?: number } = {},
+): Promise<{ members: TeamMemberSummary[]; lastUpdatedMs: number }> {
+  const state = await readTeamState(opts.stateDir ?? resolveStateDir(process.env));
+  const members = summarizeTeamState(state, opts.nowMs ?? Date.now(), {
+    stuckAfterMs: resolveTeamConfig(cfg).stuckAfterMs,
+  });
+  return { members, lastUpdatedMs: state.lastUpdatedMs };
+}
+
+function agentIdFromEvent(evt: AgentEventPayload): string | null {
+  return evt.sessionKey ? (parseAgentSessionKey(evt.sessionKey)?.agentId ?? null) : null;
+}
+
+function taskIdFromEvent(event: CoordinationEvent): string | null {
+  return typeof event.data?.taskId === "string" ? event.data.taskId : null;
+}
+
+/**
+ * Keep `team-state.json` current from agent lifecycle events and task bus events,
+ * so the team view reflects every run and not only the ones the continuation
+ * runner drives.
+ */
+export function startTeamStateTracker(opts: {
+  cfg: OpenClawConfig;
+  stateDir?: string;
+}): TeamStateTracker {
+  const stateDir = opts.stateDir ?? resolveStateDir(process.env);
+  let config = resolveTeamConfig(opts.cfg);
+  let stopped = false;
+  /** Runs in flight per agent; an agent only goes idle when its last run ends. */
+  const activeRuns = new Map<string, Set<string>>();
+  const lastHeartbeatWrite = new Map<string, number>();
+  let queue: Promise<void> = Promise.resolve();
+
+  const write = (agentId: string, update: Partial<AgentTeamEntry>) => {
+    queue = queue
+      .then(async () => {
+        await updateAgentEntry(stateDir, agentId, update);
+      })
+      .catch((error) => {
+        log.warn("Failed to update team state", { agentId, error: String(error) });
+      });
+  };
+
+  const seedRoster = (cfg: OpenClawConfig) => {
+    queue = queue
+      .then(async () => {
+        const state = await readTeamState(stateDir);
+        for (const agentId of listAgentIds(cfg)) {
+          const role = config.roles[agentId] ?? "worker";
+          const existing = state.agents[agentId];
+          if (!existing || existing.role !== role) {
+            await updateAgentEntry(stateDir, agentId, { role });
+          }
+        }
+      })
+      .catch((error) => {
+        log.warn("Failed to seed team roster", { error: String(error) });
+      });
+  };
+
+  const handleLifecycle = (agentId: string, evt: AgentEventPayload) => {
+    const phase = evt.data?.phase;
+    const runs = activeRuns.get(agentId) ?? new Set<string>();
+    if (phase === "start") {
+      runs.add(evt.runId);
+      activeRuns.set(agentId, runs);
+      lastHeartbeatWrite.set(agentId, evt.ts);
+      write(agentId, { status: "active", lastHeartbeatMs: evt.ts });
+      return;
+    }
+    if (phase !== "end" && phase !== "error") {
+      return;
+    }
+    runs.delete(evt.runId);
+    if (runs.size === 0) {
+      activeRuns.delete(agentId);
+    }
+    lastHeartbeatWrite.set(agentId, evt.ts);
+
+    if (phase === "end") {
+      write(agentId, {
+        ...(runs.size === 0 ? { status: "idle" as const } : {}),
+        lastHeartbeatMs: evt.ts,
+        consecutiveFailures: 0,
+        lastFailureReason: undefined,
+        backoffUntilMs: undefined,
+      });
+      return;
+    }
+
+    const message = typeof evt.data?.error === "string" ? evt.data.error : "";
+    const { reason, suggestedBackoffMs } = parseFailureReason(message);
+    queue = queue
+      .then(async () => {
+        const current = (await readTeamState(stateDir)).agents[agentId];
+        const consecutiveFailures = (current?.consecutiveFailures ?? 0) + 1;
+        const backoffMs = calculateBackoffDelay(reason, consecutiveFailures, suggestedBackoffMs);
+        await updateAgentEntry(stateDir, agentId, {
+          ...(runs.size === 0 ? { status: "interrupted" as const } : {}),
+          lastHeartbeatMs: evt.ts,
+          consecutiveFailures,
+          lastFailureReason: reason,
+          backoffUntilMs: evt.ts + backoffMs,
+        });
+      })
+      .catch((error) => {
+        log.warn("Failed to record agent failure", { agentId, error: String(error) });
+      });
+  };
+
+  const unsubAgentEvents = onAgentEvent((evt) => {
+    if (stopped || !config.enabled) {
+      return;
+    }
+    const agentId = agentIdFromEvent(evt);
+    if (!agentId) {
+      return;
+    }
+    if (evt.stream === "lifecycle") {
+      handleLifecycle(agentId, evt);
+      return;
+    }
+    const last = lastHeartbeatWrite.get(agentId) ?? 0;
+    if (evt.ts - last >= HEARTBEAT_THROTTLE_MS) {
+      lastHeartbeatWrite.set(agentId, evt.ts);
+      write(agentId, { lastHeartbeatMs: evt.ts });
+    }
+  });
+
+  const unsubBus = subscribe("*", (event) => {
+    if (stopped || !config.enabled || !event.agentId) {
+      return;
+    }
+    const taskId = taskIdFromEvent(event);
+    switch (event.type) {
+      case EVENT_TYPES.TASK_STARTED:
+      case EVENT_TYPES.TASK_RESUMED:
+      case EVENT_TYPES.TASK_BACKLOG_PICKED:
+      case EVENT_TYPES.BACKLOG_AUTO_PICKED:
+        write(event.agentId, {
+          status: "active",
+          currentTaskId: taskId,
+          lastHeartbeatMs: event.ts,
+        });
+        break;
+      case EVENT_TYPES.TASK_COMPLETED:
+      case EVENT_TYPES.TASK_CANCELLED:
+      case EVENT_TYPES.TASK_BLOCKED:
+        write(event.agentId, {
+          ...(activeRuns.has(event.agentId) ? {} : { status: "idle" as const }),
+          currentTaskId: null,
+          lastHeartbeatMs: event.ts,
+        });
+        break;
+      case EVENT_TYPES.CONTINUATION_BACKOFF: {
+        const backoffMs = Number(event.data?.backoffMs);
+        const failures = Number(event.data?.consecutiveFailures);
+        write(event.agentId, {
+          ...(Number.isFinite(backoffMs) ? { backoffUntilMs: event.ts + backoffMs } : {}),
+          ...(Number.isFinite(failures) ? { consecutiveFailures: failures } : {}),
+          ...(typeof event.data?.reason === "string"
+            ? { lastFailureReason: event.data.reason }
+            : {}),
+        });
+        break;
+      }
+    }
+  });
+
+  if (config.enabled) {
+    seedRoster(opts.cfg);
+    log.info("Team state tracker started");
+  }
+
+  return {
+    stop: () => {
+      stopped = true;
+      unsubAgentEvents();
+      unsubBus();
+      activeRuns.clear();
+      lastHeartbeatWrite.clear();
+    },
+    updateConfig: (cfg: OpenClawConfig) => {
+      config = resolveTeamConfig(cfg);
+      if (config.enabled) {
+        seedRoster(cfg);
+      }
+    },
+    flush: () => queue,
+  };
+}
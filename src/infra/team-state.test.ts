@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   readTeamState,
   updateAgentEntry,
@@ -20,6 +20,7 @@ describe("team state", () => {
   });
 
   afterEach(() => {
+    vi.unstubAllEnvs();
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
   it("returns empty state when no file exists", async () => {
@@ -42,6 +43,16 @@ describe("team state", () => {
     expect(state.agents["main"].status).toBe("active");
   });
 
+  it("takes its own lock file, independent of the task store", async () => {
+    vi.stubEnv("OPENCLAW_TASK_STORE", "sqlite");
+    const stateDir = path.join(tmpDir, "fresh");
+
+    await updateAgentEntry(stateDir, "main", { role: "lead" });
+
+    expect((await readTeamState(stateDir)).agents["main"].role).toBe("lead");
+    expect(fs.readdirSync(stateDir)).toEqual(["team-state.json"]);
+  });
+
   it("preserves existing fields on partial update", async () => {
     await updateAgentEntry(tmpDir, "worker1", {
       role: "worker",
@@ -2,6 +2,7 @@ import { applyMMRToHybridResults, type MMRConfig, DEFAULT_MMR_CONFIG } from "./m
 import {
   applyTemporalDecayToHybridResults,
   type TemporalDecayConfig,
+  type TemporalDecayTimestampResolver,
   DEFAULT_TEMPORAL_DECAY_CONFIG,
 } from "./temporal-decay.js";
 
@@ -54,6 +55,8 @@ export async function mergeHybridResults(params: {
   vectorWeight: number;
   textWeight: number;
   workspaceDir?: string;
+  /** Timestamps for entries that are not workspace files (tasks, A2A conversations) */
+  resolveTimestamp?: TemporalDecayTimestampResolver;
   /** MMR configuration for diversity-aware re-ranking */
   mmr?: Partial<MMRConfig>;
   /** Temporal decay configuration for recency-aware scoring */
@@ -135,6 +138,7 @@ export async function mergeHybridResults(params: {
     results: merged,
     temporalDecay: temporalDecayConfig,
     workspaceDir: params.workspaceDir,
+    resolveTimestamp: params.resolveTimestamp,
     nowMs: params.nowMs,
   });
   const sorted = decayed.toSorted((a, b) => b.score - a.score);
@@ -4,4 +4,8 @@ export type {
   MemorySearchManager,
   MemorySearchResult,
 } from "./types.js";
-export { getMemorySearchManager, type MemorySearchManagerResult } from "./search-manager.js";
+export {
+  getMemorySearchManager,
+  getTeamMemorySearchManager,
+  type MemorySearchManagerResult,
+} from "./search-manager.js";
@@ -145,6 +145,18 @@ export async function listMemoryFiles(
   return deduped;
 }
 
+/** Every markdown note under the shared team directory. */
+export async function listTeamMemoryFiles(teamDir: string): Promise<string[]> {
+  const result: string[] = [];
+  try {
+    const dirStat = await fs.lstat(teamDir);
+    if (!dirStat.isSymbolicLink() && dirStat.isDirectory()) {
+      await walkDir(teamDir, result);
+    }
+  } catch {}
+  return result;
+}
+
 export function hashText(value: string): string {
   return crypto.createHash("sha256").update(value).digest("hex");
 }
@@ -19,7 +19,7 @@ import {
 } from "./internal.js";
 import { MemoryManagerSyncOps } from "./manager-sync-ops.js";
 import type { SessionFileEntry } from "./session-files.js";
-import type { MemorySource } from "./types.js";
+import type { MemoryProvenance, MemorySource } from "./types.js";
 
 const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
@@ -692,7 +692,7 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
 
   protected async indexFile(
     entry: MemoryFileEntry | SessionFileEntry,
-    options: { source: MemorySource; content?: string },
+    options: { source: MemorySource; content?: string; provenance?: MemoryProvenance },
   ) {
     // FTS-only mode: skip indexing if no provider
     if (!this.provider) {
@@ -711,7 +711,7 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
       ),
       EMBEDDING_BATCH_MAX_TOKENS,
     );
-    if (options.source === "sessions" && "lineMap" in entry) {
+    if ("lineMap" in entry) {
       remapChunkLines(chunks, entry.lineMap);
     }
     const embeddings = this.batch.enabled
@@ -747,14 +747,20 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
       );
       this.db
         .prepare(
-          `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at,
+                               author, task_id, work_session_id, agents, outcome)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
            ON CONFLICT(id) DO UPDATE SET
              hash=excluded.hash,
              model=excluded.model,
              text=excluded.text,
              embedding=excluded.embedding,
-             updated_at=excluded.updated_at`,
+             updated_at=excluded.updated_at,
+             author=excluded.author,
+             task_id=excluded.task_id,
+             work_session_id=excluded.work_session_id,
+             agents=excluded.agents,
+             outcome=excluded.outcome`,
         )
         .run(
           id,
@@ -767,6 +773,11 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
           chunk.text,
           JSON.stringify(embedding),
           now,
+          options.provenance?.agentId ?? null,
+          options.provenance?.taskId ?? null,
+          options.provenance?.workSessionId ?? null,
+          options.provenance?.agents?.length ? `,${options.provenance.agents.join(",")},` : null,
+          options.provenance?.outcome ?? null,
         );
       if (vectorReady && embedding.length > 0) {
         try {
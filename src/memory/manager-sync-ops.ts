@@ -8,6 +8,7 @@ import { resolveAgentDir } from "../agents/agent-scope.js";
 import { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { type OpenClawConfig } from "../config/config.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
+import { subscribe, type CoordinationEvent } from "../infra/events/bus.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
 import { resolveUserPath } from "../utils.js";
@@ -28,6 +29,7 @@ import {
   buildFileEntry,
   ensureDir,
   listMemoryFiles,
+  listTeamMemoryFiles,
   normalizeExtraMemoryPaths,
   runWithConcurrency,
 } from "./internal.js";
@@ -41,7 +43,18 @@ import {
 } from "./session-files.js";
 import { loadSqliteVecExtension } from "./sqlite-vec.js";
 import { requireNodeSqlite } from "./sqlite.js";
-import type { MemorySource, MemorySyncProgressUpdate } from "./types.js";
+import { parseTeamNoteProvenance } from "./team-memory.js";
+import type {
+  MemoryProvenance,
+  MemorySearchFilter,
+  MemorySource,
+  MemorySyncProgressUpdate,
+} from "./types.js";
+import {
+  buildA2AMemoryEntries,
+  buildTaskMemoryEntries,
+  type WorkHistoryEntry,
+} from "./work-history.js";
 
 type MemoryIndexMeta = {
   model: string;
@@ -122,6 +135,7 @@ export abstract class MemoryManagerSyncOps {
   protected watchTimer: NodeJS.Timeout | null = null;
   protected sessionWatchTimer: NodeJS.Timeout | null = null;
   protected sessionUnsubscribe: (() => void) | null = null;
+  protected workHistoryUnsubscribe: (() => void) | null = null;
   protected fallbackReason?: string;
   protected intervalTimer: NodeJS.Timeout | null = null;
   protected closed = false;
@@ -151,7 +165,7 @@ export abstract class MemoryManagerSyncOps {
   protected abstract pruneEmbeddingCacheIfNeeded(): void;
   protected abstract indexFile(
     entry: MemoryFileEntry | SessionFileEntry,
-    options: { source: MemorySource; content?: string },
+    options: { source: MemorySource; content?: string; provenance?: MemoryProvenance },
   ): Promise<void>;
 
   protected async ensureVectorReady(dimensions?: number): Promise<boolean> {
@@ -235,14 +249,45 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
-  protected buildSourceFilter(alias?: string): { sql: string; params: MemorySource[] } {
-    const sources = Array.from(this.sources);
+  /**
+   * SQL restricting a query to the configured sources and, when a search filter
+   * is given, to its sources and to chunks whose provenance matches.
+   */
+  protected buildSourceFilter(
+    alias?: string,
+    filter?: MemorySearchFilter,
+  ): { sql: string; params: string[] } {
+    const sources = Array.from(this.sources).filter(
+      (source) => !filter?.sources?.length || filter.sources.includes(source),
+    );
     if (sources.length === 0) {
-      return { sql: "", params: [] };
+      return filter?.sources?.length ? { sql: " AND 1 = 0", params: [] } : { sql: "", params: [] };
     }
-    const column = alias ? `${alias}.source` : "source";
+    const prefix = alias ? `${alias}.` : "";
     const placeholders = sources.map(() => "?").join(", ");
-    return { sql: ` AND ${column} IN (${placeholders})`, params: sources };
+    let sql = ` AND ${prefix}source IN (${placeholders})`;
+    const params: string[] = [...sources];
+    const clauses: string[] = [];
+    if (filter?.taskId) {
+      clauses.push("task_id = ?");
+      params.push(filter.taskId);
+    }
+    if (filter?.workSessionId) {
+      clauses.push("work_session_id = ?");
+      params.push(filter.workSessionId);
+    }
+    if (filter?.agentId) {
+      clauses.push("(agents LIKE ? OR author = ?)");
+      params.push(`%,${filter.agentId},%`, filter.agentId);
+    }
+    if (filter?.outcome) {
+      clauses.push("outcome = ?");
+      params.push(filter.outcome);
+    }
+    if (clauses.length > 0) {
+      sql += ` AND ${prefix}id IN (SELECT id FROM chunks WHERE ${clauses.join(" AND ")})`;
+    }
+    return { sql, params };
   }
 
   protected openDatabase(): DatabaseSync {
@@ -354,14 +399,19 @@ export abstract class MemoryManagerSyncOps {
   }
 
   protected ensureWatcher() {
-    if (!this.sources.has("memory") || !this.settings.sync.watch || this.watcher) {
+    const watchesFiles = this.sources.has("memory") || this.sources.has("team");
+    if (!watchesFiles || !this.settings.sync.watch || this.watcher) {
       return;
     }
-    const watchPaths = new Set<string>([
-      path.join(this.workspaceDir, "MEMORY.md"),
-      path.join(this.workspaceDir, "memory.md"),
-      path.join(this.workspaceDir, "memory", "**", "*.md"),
-    ]);
+    const watchPaths = new Set<string>(
+      this.sources.has("team")
+        ? [path.join(this.workspaceDir, "**", "*.md")]
+        : [
+            path.join(this.workspaceDir, "MEMORY.md"),
+            path.join(this.workspaceDir, "memory.md"),
+            path.join(this.workspaceDir, "memory", "**", "*.md"),
+          ],
+    );
     const additionalPaths = normalizeExtraMemoryPaths(this.workspaceDir, this.settings.extraPaths);
     for (const entry of additionalPaths) {
       try {
@@ -413,6 +463,42 @@ export abstract class MemoryManagerSyncOps {
     });
   }
 
+  /**
+   * Task and A2A documents are rendered from the task store and the event log,
+   * so changes are picked up from coordination events rather than file watches.
+   */
+  protected ensureWorkHistoryListener() {
+    const tasks = this.sources.has("tasks");
+    const a2a = this.sources.has("a2a");
+    if ((!tasks && !a2a) || !this.settings.sync.watch || this.workHistoryUnsubscribe) {
+      return;
+    }
+    this.workHistoryUnsubscribe = subscribe("*", (event) => {
+      if (this.closed || !this.isWorkHistoryEvent(event, { tasks, a2a })) {
+        return;
+      }
+      this.dirty = true;
+      this.scheduleWatchSync();
+    });
+  }
+
+  private isWorkHistoryEvent(
+    event: CoordinationEvent,
+    sources: { tasks: boolean; a2a: boolean },
+  ): boolean {
+    if (sources.tasks && event.type.startsWith("task.")) {
+      return event.agentId === this.agentId;
+    }
+    if (sources.a2a && event.type.startsWith("a2a.")) {
+      return (
+        event.agentId === this.agentId ||
+        event.data.fromAgent === this.agentId ||
+        event.data.toAgent === this.agentId
+      );
+    }
+    return false;
+  }
+
   private scheduleSessionDirty(sessionFile: string) {
     this.sessionPendingFiles.add(sessionFile);
     if (this.sessionWatchTimer) {
@@ -592,8 +678,21 @@ export abstract class MemoryManagerSyncOps {
     }, ms);
   }
 
+  /**
+   * Sources synced as whole documents when the index is dirty: markdown files on
+   * disk (agent memory or the team directory) and rendered tasks / A2A conversations.
+   */
+  protected hasFileSources(): boolean {
+    return (
+      this.sources.has("memory") ||
+      this.sources.has("team") ||
+      this.sources.has("tasks") ||
+      this.sources.has("a2a")
+    );
+  }
+
   private scheduleWatchSync() {
-    if (!this.sources.has("memory") || !this.settings.sync.watch) {
+    if (!this.hasFileSources() || !this.settings.sync.watch) {
       return;
     }
     if (this.watchTimer) {
@@ -627,7 +726,24 @@ export abstract class MemoryManagerSyncOps {
     return this.sessionsDirty && this.sessionsDirtyFiles.size > 0;
   }
 
+  private async syncFileSources(params: {
+    needsFullReindex: boolean;
+    progress?: MemorySyncProgressState;
+  }) {
+    for (const source of ["memory", "team"] as const) {
+      if (this.sources.has(source)) {
+        await this.syncMemoryFiles({ ...params, source });
+      }
+    }
+    for (const source of ["tasks", "a2a"] as const) {
+      if (this.sources.has(source)) {
+        await this.syncWorkHistory({ ...params, source });
+      }
+    }
+  }
+
   private async syncMemoryFiles(params: {
+    source: "memory" | "team";
     needsFullReindex: boolean;
     progress?: MemorySyncProgressState;
   }) {
@@ -637,11 +753,16 @@ export abstract class MemoryManagerSyncOps {
       return;
     }
 
-    const files = await listMemoryFiles(this.workspaceDir, this.settings.extraPaths);
+    const { source } = params;
+    const files =
+      source === "team"
+        ? await listTeamMemoryFiles(this.workspaceDir)
+        : await listMemoryFiles(this.workspaceDir, this.settings.extraPaths);
     const fileEntries = (
       await Promise.all(files.map(async (file) => buildFileEntry(file, this.workspaceDir)))
     ).filter((entry): entry is MemoryFileEntry => entry !== null);
     log.debug("memory sync: indexing memory files", {
+      source,
       files: fileEntries.length,
       needsFullReindex: params.needsFullReindex,
       batch: this.batch.enabled,
@@ -660,7 +781,7 @@ export abstract class MemoryManagerSyncOps {
     const tasks = fileEntries.map((entry) => async () => {
       const record = this.db
         .prepare(`SELECT hash FROM files WHERE path = ? AND source = ?`)
-        .get(entry.path, "memory") as { hash: string } | undefined;
+        .get(entry.path, source) as { hash: string } | undefined;
       if (!params.needsFullReindex && record?.hash === entry.hash) {
         if (params.progress) {
           params.progress.completed += 1;
@@ -671,7 +792,69 @@ export abstract class MemoryManagerSyncOps {
         }
         return;
       }
-      await this.indexFile(entry, { source: "memory" });
+      if (source === "team") {
+        const content = await fs.readFile(entry.absPath, "utf-8");
+        await this.indexFile(entry, {
+          source,
+          content,
+          provenance: parseTeamNoteProvenance(content, entry.path),
+        });
+      } else {
+        await this.indexFile(entry, { source });
+      }
+      if (params.progress) {
+        params.progress.completed += 1;
+        params.progress.report({
+          completed: params.progress.completed,
+          total: params.progress.total,
+        });
+      }
+    });
+    await runWithConcurrency(tasks, this.getIndexConcurrency());
+    this.deleteStaleEntries(source, activePaths);
+  }
+
+  private async syncWorkHistory(params: {
+    source: "tasks" | "a2a";
+    needsFullReindex: boolean;
+    progress?: MemorySyncProgressState;
+  }) {
+    // FTS-only mode: skip embedding sync (no provider)
+    if (!this.provider) {
+      log.debug("Skipping work history sync in FTS-only mode (no embedding provider)");
+      return;
+    }
+
+    const { source } = params;
+    const entries: WorkHistoryEntry[] =
+      source === "tasks"
+        ? await buildTaskMemoryEntries({ workspaceDir: this.workspaceDir, agentId: this.agentId })
+        : await buildA2AMemoryEntries({ agentId: this.agentId });
+    log.debug("memory sync: indexing work history", {
+      source,
+      entries: entries.length,
+      needsFullReindex: params.needsFullReindex,
+    });
+    if (params.progress) {
+      params.progress.total += entries.length;
+      params.progress.report({
+        completed: params.progress.completed,
+        total: params.progress.total,
+        label: source === "tasks" ? "Indexing tasks…" : "Indexing A2A conversations…",
+      });
+    }
+
+    const tasks = entries.map((entry) => async () => {
+      const record = this.db
+        .prepare(`SELECT hash FROM files WHERE path = ? AND source = ?`)
+        .get(entry.path, source) as { hash: string } | undefined;
+      if (params.needsFullReindex || record?.hash !== entry.hash) {
+        await this.indexFile(entry, {
+          source,
+          content: entry.content,
+          provenance: entry.provenance,
+        });
+      }
       if (params.progress) {
         params.progress.completed += 1;
         params.progress.report({
@@ -681,28 +864,31 @@ export abstract class MemoryManagerSyncOps {
       }
     });
     await runWithConcurrency(tasks, this.getIndexConcurrency());
+    this.deleteStaleEntries(source, new Set(entries.map((entry) => entry.path)));
+  }
 
+  private deleteStaleEntries(source: MemorySource, activePaths: Set<string>) {
     const staleRows = this.db
       .prepare(`SELECT path FROM files WHERE source = ?`)
-      .all("memory") as Array<{ path: string }>;
+      .all(source) as Array<{ path: string }>;
     for (const stale of staleRows) {
       if (activePaths.has(stale.path)) {
         continue;
       }
-      this.db.prepare(`DELETE FROM files WHERE path = ? AND source = ?`).run(stale.path, "memory");
+      this.db.prepare(`DELETE FROM files WHERE path = ? AND source = ?`).run(stale.path, source);
       try {
         this.db
           .prepare(
             `DELETE FROM ${VECTOR_TABLE} WHERE id IN (SELECT id FROM chunks WHERE path = ? AND source = ?)`,
           )
-          .run(stale.path, "memory");
+          .run(stale.path, source);
       } catch {}
-      this.db.prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`).run(stale.path, "memory");
-      if (this.fts.enabled && this.fts.available) {
+      this.db.prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`).run(stale.path, source);
+      if (this.fts.enabled && this.fts.available && this.provider) {
         try {
           this.db
             .prepare(`DELETE FROM ${FTS_TABLE} WHERE path = ? AND source = ? AND model = ?`)
-            .run(stale.path, "memory", this.provider.model);
+            .run(stale.path, source, this.provider.model);
         } catch {}
       }
     }
@@ -888,11 +1074,11 @@ export abstract class MemoryManagerSyncOps {
       }
 
       const shouldSyncMemory =
-        this.sources.has("memory") && (params?.force || needsFullReindex || this.dirty);
+        this.hasFileSources() && (params?.force || needsFullReindex || this.dirty);
       const shouldSyncSessions = this.shouldSyncSessions(params, needsFullReindex);
 
       if (shouldSyncMemory) {
-        await this.syncMemoryFiles({ needsFullReindex, progress: progress ?? undefined });
+        await this.syncFileSources({ needsFullReindex, progress: progress ?? undefined });
         this.dirty = false;
       }
 
@@ -1040,14 +1226,14 @@ export abstract class MemoryManagerSyncOps {
 
     try {
       this.seedEmbeddingCache(originalDb);
-      const shouldSyncMemory = this.sources.has("memory");
+      const shouldSyncMemory = this.hasFileSources();
       const shouldSyncSessions = this.shouldSyncSessions(
         { reason: params.reason, force: params.force },
         true,
       );
 
       if (shouldSyncMemory) {
-        await this.syncMemoryFiles({ needsFullReindex: true, progress: params.progress });
+        await this.syncFileSources({ needsFullReindex: true, progress: params.progress });
         this.dirty = false;
       }
 
@@ -1111,14 +1297,14 @@ export abstract class MemoryManagerSyncOps {
     // under the per-test HOME anyway, and this cuts substantial fs+sqlite churn.
     this.resetIndex();
 
-    const shouldSyncMemory = this.sources.has("memory");
+    const shouldSyncMemory = this.hasFileSources();
     const shouldSyncSessions = this.shouldSyncSessions(
       { reason: params.reason, force: params.force },
       true,
     );
 
     if (shouldSyncMemory) {
-      await this.syncMemoryFiles({ needsFullReindex: true, progress: params.progress });
+      await this.syncFileSources({ needsFullReindex: true, progress: params.progress });
       this.dirty = false;
     }
 
@@ -1186,7 +1372,14 @@ export abstract class MemoryManagerSyncOps {
 
   private resolveConfiguredSourcesForMeta(): MemorySource[] {
     const normalized = Array.from(this.sources)
-      .filter((source): source is MemorySource => source === "memory" || source === "sessions")
+      .filter(
+        (source): source is MemorySource =>
+          source === "memory" ||
+          source === "sessions" ||
+          source === "tasks" ||
+          source === "a2a" ||
+          source === "team",
+      )
       .toSorted();
     return normalized.length > 0 ? normalized : ["memory"];
   }
@@ -1199,7 +1392,12 @@ export abstract class MemoryManagerSyncOps {
     const normalized = Array.from(
       new Set(
         meta.sources.filter(
-          (source): source is MemorySource => source === "memory" || source === "sessions",
+          (source): source is MemorySource =>
+            source === "memory" ||
+            source === "sessions" ||
+            source === "tasks" ||
+            source === "a2a" ||
+            source === "team",
         ),
       ),
     ).toSorted();
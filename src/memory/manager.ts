@@ -2,9 +2,17 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { DatabaseSync } from "node:sqlite";
 import { type FSWatcher } from "chokidar";
-import { resolveAgentDir, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  resolveAgentDir,
+  resolveAgentWorkspaceDir,
+  resolveDefaultAgentId,
+} from "../agents/agent-scope.js";
 import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
-import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import {
+  resolveMemorySearchConfig,
+  resolveTeamMemorySearchConfig,
+} from "../agents/memory-search.js";
+import { TASK_HISTORY_DIR } from "../agents/tools/task-file-io.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import {
@@ -22,14 +30,23 @@ import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
 import { extractKeywords } from "./query-expansion.js";
+import { resolveTeamMemoryConfig } from "./team-memory.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
+  MemoryProvenance,
+  MemorySearchFilter,
   MemorySearchManager,
   MemorySearchResult,
   MemorySource,
   MemorySyncProgressUpdate,
 } from "./types.js";
+import {
+  A2A_MEMORY_PREFIX,
+  renderA2AMemoryDocument,
+  renderTaskMemoryDocument,
+  TASKS_MEMORY_PREFIX,
+} from "./work-history.js";
 const SNIPPET_MAX_CHARS = 700;
 const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
@@ -40,6 +57,24 @@ const log = createSubsystemLogger("memory");
 
 const INDEX_CACHE = new Map<string, MemoryIndexManager>();
 
+/** Sources whose chunks record provenance (see MemoryProvenance). */
+const PROVENANCE_SOURCES: MemorySource[] = ["team", "tasks", "a2a"];
+
+function sliceLines(
+  content: string,
+  relPath: string,
+  params: { from?: number; lines?: number },
+): { text: string; path: string } {
+  if (!params.from && !params.lines) {
+    return { text: content, path: relPath };
+  }
+  const lines = content.split("\n");
+  const start = Math.max(1, params.from ?? 1);
+  const count = Math.max(1, params.lines ?? lines.length);
+  const slice = lines.slice(start - 1, start - 1 + count);
+  return { text: slice.join("\n"), path: relPath };
+}
+
 export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements MemorySearchManager {
   private readonly cacheKey: string;
   protected readonly cfg: OpenClawConfig;
@@ -138,6 +173,45 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return manager;
   }
 
+  /**
+   * Shared index over the team memory directory (source "team"). One instance
+   * per config serves every agent; callers enforce the read ACL.
+   */
+  static async getTeam(params: { cfg: OpenClawConfig }): Promise<MemoryIndexManager | null> {
+    const { cfg } = params;
+    const team = resolveTeamMemoryConfig(cfg);
+    const settings = team ? resolveTeamMemorySearchConfig(cfg) : null;
+    if (!team || !settings) {
+      return null;
+    }
+    const key = `team:${team.dir}:${JSON.stringify(settings)}`;
+    const existing = INDEX_CACHE.get(key);
+    if (existing) {
+      return existing;
+    }
+    // Embedding credentials come from the default agent.
+    const agentId = resolveDefaultAgentId(cfg);
+    const providerResult = await createEmbeddingProvider({
+      config: cfg,
+      agentDir: resolveAgentDir(cfg, agentId),
+      provider: settings.provider,
+      remote: settings.remote,
+      model: settings.model,
+      fallback: settings.fallback,
+      local: settings.local,
+    });
+    const manager = new MemoryIndexManager({
+      cacheKey: key,
+      cfg,
+      agentId,
+      workspaceDir: team.dir,
+      settings,
+      providerResult,
+    });
+    INDEX_CACHE.set(key, manager);
+    return manager;
+  }
+
   private constructor(params: {
     cacheKey: string;
     cfg: OpenClawConfig;
@@ -182,9 +256,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     }
     this.ensureWatcher();
     this.ensureSessionListener();
+    this.ensureWorkHistoryListener();
     this.ensureIntervalSync();
     const statusOnly = params.purpose === "status";
-    this.dirty = this.sources.has("memory") && (statusOnly ? !meta : true);
+    this.dirty = this.hasFileSources() && (statusOnly ? !meta : true);
     this.batch = this.resolveBatchConfig();
   }
 
@@ -210,6 +285,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       maxResults?: number;
       minScore?: number;
       sessionKey?: string;
+      filter?: MemorySearchFilter;
     },
   ): Promise<MemorySearchResult[]> {
     void this.warmSession(opts?.sessionKey);
@@ -225,6 +301,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     const minScore = opts?.minScore ?? this.settings.query.minScore;
     const maxResults = opts?.maxResults ?? this.settings.query.maxResults;
     const hybrid = this.settings.query.hybrid;
+    const filter = opts?.filter;
     const candidates = Math.min(
       200,
       Math.max(1, Math.floor(maxResults * hybrid.candidateMultiplier)),
@@ -244,7 +321,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
 
       // Search with each keyword and merge results
       const resultSets = await Promise.all(
-        searchTerms.map((term) => this.searchKeyword(term, candidates).catch(() => [])),
+        searchTerms.map((term) => this.searchKeyword(term, candidates, filter).catch(() => [])),
       );
 
       // Merge and deduplicate results, keeping highest score for each chunk
@@ -263,21 +340,23 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         .filter((entry) => entry.score >= minScore)
         .slice(0, maxResults);
 
-      return merged;
+      return this.attachProvenance(merged);
     }
 
     const keywordResults = hybrid.enabled
-      ? await this.searchKeyword(cleaned, candidates).catch(() => [])
+      ? await this.searchKeyword(cleaned, candidates, filter).catch(() => [])
       : [];
 
     const queryVec = await this.embedQueryWithTimeout(cleaned);
     const hasVector = queryVec.some((v) => v !== 0);
     const vectorResults = hasVector
-      ? await this.searchVector(queryVec, candidates).catch(() => [])
+      ? await this.searchVector(queryVec, candidates, filter).catch(() => [])
       : [];
 
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return this.attachProvenance(
+        vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults),
+      );
     }
 
     const merged = await this.mergeHybridResults({
@@ -289,12 +368,65 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       temporalDecay: hybrid.temporalDecay,
     });
 
-    return merged.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+    return this.attachProvenance(
+      merged.filter((entry) => entry.score >= minScore).slice(0, maxResults),
+    );
+  }
+
+  /**
+   * Team notes, tasks and A2A conversations carry the provenance recorded on
+   * their chunks. Task-history entries are indexed as `<file>#<taskId>`; the
+   * fragment is dropped here so results point at the real history file.
+   */
+  private attachProvenance<T extends MemorySearchResult>(results: T[]): T[] {
+    if (!PROVENANCE_SOURCES.some((source) => this.sources.has(source))) {
+      return results;
+    }
+    const stmt = this.db.prepare(
+      `SELECT author, task_id, work_session_id, agents, outcome FROM chunks WHERE path = ? AND source = ? LIMIT 1`,
+    );
+    return results.map((entry) => {
+      if (!PROVENANCE_SOURCES.includes(entry.source)) {
+        return entry;
+      }
+      const row = stmt.get(entry.path, entry.source) as
+        | {
+            author: string | null;
+            task_id: string | null;
+            work_session_id: string | null;
+            agents: string | null;
+            outcome: string | null;
+          }
+        | undefined;
+      const provenance: MemoryProvenance = {
+        ...(row?.author ? { agentId: row.author } : {}),
+        ...(row?.task_id ? { taskId: row.task_id } : {}),
+        ...(row?.work_session_id ? { workSessionId: row.work_session_id } : {}),
+        ...(row?.agents ? { agents: row.agents.split(",").filter(Boolean) } : {}),
+        ...(row?.outcome ? { outcome: row.outcome } : {}),
+      };
+      const filePath = entry.source === "tasks" ? entry.path.replace(/#.*$/, "") : entry.path;
+      return Object.keys(provenance).length > 0
+        ? { ...entry, path: filePath, provenance }
+        : { ...entry, path: filePath };
+    });
+  }
+
+  /** Rendered tasks and conversations decay by their last activity, not a file mtime. */
+  private resolveIndexedTimestamp(entry: { path: string; source: string }): number | null {
+    if (entry.source !== "tasks" && entry.source !== "a2a") {
+      return null;
+    }
+    const row = this.db
+      .prepare(`SELECT mtime FROM files WHERE path = ? AND source = ?`)
+      .get(entry.path, entry.source) as { mtime: number } | undefined;
+    return row?.mtime ?? null;
   }
 
   private async searchVector(
     queryVec: number[],
     limit: number,
+    filter?: MemorySearchFilter,
   ): Promise<Array<MemorySearchResult & { id: string }>> {
     // This method should never be called without a provider
     if (!this.provider) {
@@ -308,8 +440,8 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       limit,
       snippetMaxChars: SNIPPET_MAX_CHARS,
       ensureVectorReady: async (dimensions) => await this.ensureVectorReady(dimensions),
-      sourceFilterVec: this.buildSourceFilter("c"),
-      sourceFilterChunks: this.buildSourceFilter(),
+      sourceFilterVec: this.buildSourceFilter("c", filter),
+      sourceFilterChunks: this.buildSourceFilter(undefined, filter),
     });
     return results.map((entry) => entry as MemorySearchResult & { id: string });
   }
@@ -321,11 +453,12 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private async searchKeyword(
     query: string,
     limit: number,
+    filter?: MemorySearchFilter,
   ): Promise<Array<MemorySearchResult & { id: string; textScore: number }>> {
     if (!this.fts.enabled || !this.fts.available) {
       return [];
     }
-    const sourceFilter = this.buildSourceFilter();
+    const sourceFilter = this.buildSourceFilter(undefined, filter);
     // In FTS-only mode (no provider), search all models; otherwise filter by current provider's model
     const providerModel = this.provider?.model;
     const results = await searchKeyword({
@@ -374,6 +507,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       mmr: params.mmr,
       temporalDecay: params.temporalDecay,
       workspaceDir: this.workspaceDir,
+      resolveTimestamp: (entry) => this.resolveIndexedTimestamp(entry),
     }).then((entries) => entries.map((entry) => entry as MemorySearchResult));
   }
 
@@ -403,13 +537,23 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!rawPath) {
       throw new Error("path required");
     }
+    const rendered = await this.readWorkHistoryDocument(rawPath);
+    if (rendered !== undefined) {
+      return sliceLines(rendered ?? "", rawPath, params);
+    }
     const absPath = path.isAbsolute(rawPath)
       ? path.resolve(rawPath)
       : path.resolve(this.workspaceDir, rawPath);
     const relPath = path.relative(this.workspaceDir, absPath).replace(/\\/g, "/");
     const inWorkspace =
       relPath.length > 0 && !relPath.startsWith("..") && !path.isAbsolute(relPath);
-    const allowedWorkspace = inWorkspace && isMemoryPath(relPath);
+    // The team index covers its whole directory; agent indexes only their memory files
+    // (plus the task history when tasks are indexed).
+    const allowedWorkspace =
+      inWorkspace &&
+      (this.sources.has("team") ||
+        isMemoryPath(relPath) ||
+        (this.sources.has("tasks") && relPath.startsWith(`${TASK_HISTORY_DIR}/`)));
     let allowedAdditional = false;
     if (!allowedWorkspace && this.settings.extraPaths.length > 0) {
       const additionalPaths = normalizeExtraMemoryPaths(
@@ -457,14 +601,22 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       }
       throw err;
     }
-    if (!params.from && !params.lines) {
-      return { text: content, path: relPath };
-    }
-    const lines = content.split("\n");
-    const start = Math.max(1, params.from ?? 1);
-    const count = Math.max(1, params.lines ?? lines.length);
-    const slice = lines.slice(start - 1, start - 1 + count);
-    return { text: slice.join("\n"), path: relPath };
+    return sliceLines(content, relPath, params);
+  }
+
+  /**
+   * `tasks/<id>.md` and `a2a/<conversationId>.md` are rendered, not read from
+   * disk. Returns undefined for other paths and null when the task or
+   * conversation no longer exists.
+   */
+  private async readWorkHistoryDocument(relPath: string): Promise<string | null | undefined> {
+    if (this.sources.has("tasks") && relPath.startsWith(TASKS_MEMORY_PREFIX)) {
+      return await renderTaskMemoryDocument(this.workspaceDir, relPath);
+    }
+    if (this.sources.has("a2a") && relPath.startsWith(A2A_MEMORY_PREFIX)) {
+      return await renderA2AMemoryDocument({ agentId: this.agentId, relPath });
+    }
+    return undefined;
   }
 
   status(): MemoryProviderStatus {
@@ -629,6 +781,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       this.sessionUnsubscribe();
       this.sessionUnsubscribe = null;
     }
+    if (this.workHistoryUnsubscribe) {
+      this.workHistoryUnsubscribe();
+      this.workHistoryUnsubscribe = null;
+    }
     if (pendingSync) {
       try {
         await pendingSync;
@@ -76,6 +76,13 @@ export function ensureMemoryIndexSchema(params: {
 
   ensureColumn(params.db, "files", "source", "TEXT NOT NULL DEFAULT 'memory'");
   ensureColumn(params.db, "chunks", "source", "TEXT NOT NULL DEFAULT 'memory'");
+  // Provenance (see MemoryProvenance): team note author, task/work session, agents
+  // involved (stored as ",a,b,") and outcome. Null for plain memory and sessions.
+  ensureColumn(params.db, "chunks", "author", "TEXT");
+  ensureColumn(params.db, "chunks", "task_id", "TEXT");
+  ensureColumn(params.db, "chunks", "work_session_id", "TEXT");
+  ensureColumn(params.db, "chunks", "agents", "TEXT");
+  ensureColumn(params.db, "chunks", "outcome", "TEXT");
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);`);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_source ON chunks(source);`);
 
@@ -72,6 +72,22 @@ export async function getMemorySearchManager(params: {
   }
 }
 
+/**
+ * Shared team memory index (builtin backend only). Null when team memory is
+ * disabled; callers check the agent's read access.
+ */
+export async function getTeamMemorySearchManager(params: {
+  cfg: OpenClawConfig;
+}): Promise<MemorySearchManagerResult> {
+  try {
+    const { MemoryIndexManager } = await import("./manager.js");
+    return { manager: await MemoryIndexManager.getTeam(params) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { manager: null, error: message };
+  }
+}
+
 class FallbackMemoryManager implements MemorySearchManager {
   private fallback: MemorySearchManager | null = null;
   private primaryFailed = false;
@@ -0,0 +1,161 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { MemoryIndexManager } from "./manager.js";
+import {
+  canReadTeamMemory,
+  canWriteTeamMemory,
+  parseTeamNoteProvenance,
+  writeTeamNote,
+} from "./team-memory.js";
+import { createOpenAIEmbeddingProviderMock } from "./test-embeddings-mock.js";
+
+const embedText = (text: string) => (text.includes("rollback") ? [1, 0, 0] : [0, 1, 0]);
+
+vi.mock("./embeddings.js", () => ({
+  createEmbeddingProvider: async (_options: unknown) =>
+    createOpenAIEmbeddingProviderMock({
+      embedQuery: async (input: string) => embedText(input),
+      embedBatch: async (input: string[]) => input.map(embedText),
+    }),
+}));
+
+let rootDir = "";
+let teamDir = "";
+let manager: MemoryIndexManager | null = null;
+
+function buildConfig(team?: { read?: string[]; write?: string[] }): OpenClawConfig {
+  return {
+    memory: { team: { enabled: true, dir: teamDir, ...team } },
+    agents: {
+      defaults: {
+        workspace: path.join(rootDir, "workspace"),
+        memorySearch: {
+          provider: "openai",
+          model: "text-embedding-3-small",
+          store: { path: path.join(rootDir, "{agentId}.sqlite"), vector: { enabled: false } },
+          sync: { watch: false, onSessionStart: false, onSearch: false },
+          query: { minScore: 0, hybrid: { enabled: false } },
+          remote: { batch: { enabled: false, wait: false } },
+        },
+      },
+      list: [{ id: "ruda", default: true }, { id: "eden" }, { id: "seum" }],
+    },
+  } as OpenClawConfig;
+}
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-team-memory-"));
+  teamDir = path.join(rootDir, "team");
+});
+
+afterEach(async () => {
+  if (manager) {
+    await manager.close();
+    manager = null;
+  }
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe("team memory access", () => {
+  it("defaults to every agent and honors explicit lists", () => {
+    expect(canReadTeamMemory(buildConfig(), "seum")).toBe(true);
+    expect(canWriteTeamMemory(buildConfig(), "seum")).toBe(true);
+
+    const cfg = buildConfig({ read: ["ruda", "Eden"], write: ["ruda"] });
+    expect(canReadTeamMemory(cfg, "eden")).toBe(true);
+    expect(canReadTeamMemory(cfg, "seum")).toBe(false);
+    expect(canWriteTeamMemory(cfg, "ruda")).toBe(true);
+    expect(canWriteTeamMemory(cfg, "eden")).toBe(false);
+  });
+
+  it("is off unless enabled", () => {
+    const cfg = { memory: { team: { dir: teamDir } } } as OpenClawConfig;
+    expect(canReadTeamMemory(cfg, "ruda")).toBe(false);
+    expect(canWriteTeamMemory(cfg, "ruda")).toBe(false);
+  });
+});
+
+describe("writeTeamNote", () => {
+  it("writes into the author's folder with provenance frontmatter", async () => {
+    const cfg = buildConfig();
+    const nowMs = Date.parse("2026-03-04T10:00:00Z");
+    const first = await writeTeamNote({
+      cfg,
+      agentId: "eden",
+      title: "Deploy rollback steps",
+      content: "Run the rollback playbook.",
+      taskId: "task_deploy",
+      nowMs,
+    });
+    const second = await writeTeamNote({
+      cfg,
+      agentId: "eden",
+      title: "Deploy rollback steps",
+      content: "Second take.",
+      nowMs,
+    });
+
+    expect(first.path).toBe("team/eden/2026-03-04-deploy-rollback-steps.md");
+    expect(second.path).toBe("team/eden/2026-03-04-deploy-rollback-steps-2.md");
+    const content = await fs.readFile(first.absPath, "utf-8");
+    expect(parseTeamNoteProvenance(content, "eden/first.md")).toEqual({
+      agentId: "eden",
+      taskId: "task_deploy",
+    });
+    expect(
+      parseTeamNoteProvenance(await fs.readFile(second.absPath, "utf-8"), "eden/second.md"),
+    ).toEqual({ agentId: "eden" });
+  });
+
+  it("keeps the author folder as provenance whatever the frontmatter says", async () => {
+    const note = await writeTeamNote({
+      cfg: buildConfig(),
+      agentId: "eden",
+      title: "Rollback",
+      content: "Notes.",
+      taskId: "task_1\nauthor: lead",
+    });
+    const content = await fs.readFile(note.absPath, "utf-8");
+
+    expect(content).not.toMatch(/^author: lead$/m);
+    expect(parseTeamNoteProvenance(content, note.path.slice("team/".length))).toEqual({
+      agentId: "eden",
+      taskId: "task_1 author: lead",
+    });
+    expect(parseTeamNoteProvenance("---\nauthor: lead\n---\nforged", "eden/forged.md")).toEqual({
+      agentId: "eden",
+    });
+  });
+});
+
+describe("team memory index", () => {
+  it("indexes the team directory once with source and provenance on results", async () => {
+    const cfg = buildConfig();
+    await writeTeamNote({
+      cfg,
+      agentId: "eden",
+      title: "Deploy rollback",
+      content: "Use the rollback playbook before paging anyone.",
+      taskId: "task_deploy",
+    });
+
+    manager = await MemoryIndexManager.getTeam({ cfg });
+    expect(manager).not.toBeNull();
+    expect(await MemoryIndexManager.getTeam({ cfg })).toBe(manager);
+    await manager!.sync({ force: true });
+
+    const results = await manager!.search("rollback");
+    expect(results[0]).toMatchObject({
+      source: "team",
+      path: expect.stringMatching(/^eden\/.+\.md$/),
+      provenance: { agentId: "eden", taskId: "task_deploy" },
+    });
+    expect(manager!.status().sourceCounts).toEqual([{ source: "team", files: 1, chunks: 1 }]);
+
+    const read = await manager!.readFile({ relPath: results[0].path });
+    expect(read.text).toContain("rollback playbook");
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Shared team memory — one directory of markdown notes that every permitted
+ * agent can search.
+ *
+ * Notes live under `memory.team.dir` (default `<stateDir>/team-memory`), one
+ * subdirectory per author. The directory is indexed once into its own store
+ * with source "team"; each note's author folder and frontmatter `taskId` are
+ * recorded on its chunks so search results can say which teammate wrote it
+ * and why.
+ * `memory.team.read` / `memory.team.write` list the agent ids allowed to search
+ * and add notes ("*" for everyone).
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { parseFrontmatterBlock } from "../markdown/frontmatter.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { resolveUserPath } from "../utils.js";
+import type { MemoryProvenance } from "./types.js";
+
+/** Prefix that marks team note paths in memory_search results and memory_get. */
+export const TEAM_MEMORY_PATH_PREFIX = "team/";
+
+const DEFAULT_TEAM_DIRNAME = "team-memory";
+const MAX_SLUG_LENGTH = 48;
+
+export type ResolvedTeamMemoryConfig = {
+  dir: string;
+  read: string[];
+  write: string[];
+};
+
+export function resolveTeamMemoryConfig(cfg: OpenClawConfig): ResolvedTeamMemoryConfig | null {
+  const team = cfg.memory?.team;
+  if (!team?.enabled) {
+    return null;
+  }
+  const dir = team.dir?.trim()
+    ? resolveUserPath(team.dir.trim())
+    : path.join(resolveStateDir(), DEFAULT_TEAM_DIRNAME);
+  return {
+    dir,
+    read: team.read ?? ["*"],
+    write: team.write ?? ["*"],
+  };
+}
+
+function aclAllows(acl: string[], agentId: string): boolean {
+  const id = normalizeAgentId(agentId);
+  return acl.some((entry) => entry.trim() === "*" || normalizeAgentId(entry) === id);
+}
+
+export function canReadTeamMemory(cfg: OpenClawConfig, agentId: string): boolean {
+  const resolved = resolveTeamMemoryConfig(cfg);
+  return resolved ? aclAllows(resolved.read, agentId) : false;
+}
+
+export function canWriteTeamMemory(cfg: OpenClawConfig, agentId: string): boolean {
+  const resolved = resolveTeamMemoryConfig(cfg);
+  return resolved ? aclAllows(resolved.write, agentId) : false;
+}
+
+/**
+ * Provenance of a team note. The author is the `<agentId>/` folder the note was
+ * written into (`relPath` is relative to the team directory); the frontmatter
+ * `author` is informational only. The task comes from the frontmatter.
+ */
+export function parseTeamNoteProvenance(content: string, relPath: string): MemoryProvenance {
+  const segments = relPath.split(/[\\/]/);
+  const agentId = segments.length > 1 ? segments[0]?.trim() : undefined;
+  const taskId = parseFrontmatterBlock(content).taskId?.trim();
+  return {
+    ...(agentId ? { agentId } : {}),
+    ...(taskId ? { taskId } : {}),
+  };
+}
+
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, "");
+  return slug || "note";
+}
+
+function quoteYaml(value: string): string {
+  return JSON.stringify(value.replace(/\s+/g, " ").trim());
+}
+
+export function formatTeamNote(params: {
+  agentId: string;
+  title: string;
+  content: string;
+  taskId?: string;
+  createdAt: string;
+}): string {
+  const lines = [
+    "---",
+    `title: ${quoteYaml(params.title)}`,
+    `author: ${params.agentId}`,
+    ...(params.taskId ? [`taskId: ${quoteYaml(params.taskId)}`] : []),
+    `created: ${params.createdAt}`,
+    "---",
+    "",
+    `# ${params.title.trim()}`,
+    "",
+    params.content.trim(),
+    "",
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Write a note into the author's folder of the team directory. Callers check
+ * `canWriteTeamMemory` first; the shared index picks the file up on its next sync.
+ */
+export async function writeTeamNote(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  title: string;
+  content: string;
+  taskId?: string;
+  nowMs?: number;
+}): Promise<{ path: string; absPath: string }> {
+  const resolved = resolveTeamMemoryConfig(params.cfg);
+  if (!resolved) {
+    throw new Error("team memory is disabled (set memory.team.enabled)");
+  }
+  const agentId = normalizeAgentId(params.agentId);
+  const created = new Date(params.nowMs ?? Date.now());
+  const authorDir = path.join(resolved.dir, agentId);
+  await fs.mkdir(authorDir, { recursive: true });
+  const base = `${created.toISOString().slice(0, 10)}-${slugify(params.title)}`;
+  const body = formatTeamNote({
+    agentId,
+    title: params.title,
+    content: params.content,
+    taskId: params.taskId?.trim() || undefined,
+    createdAt: created.toISOString(),
+  });
+  for (let attempt = 1; ; attempt++) {
+    const filename = attempt === 1 ? `${base}.md` : `${base}-${attempt}.md`;
+    const absPath = path.join(authorDir, filename);
+    try {
+      await fs.writeFile(absPath, body, { encoding: "utf-8", flag: "wx" });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+        continue;
+      }
+      throw err;
+    }
+    return { path: `${TEAM_MEMORY_PATH_PREFIX}${agentId}/${filename}`, absPath };
+  }
+}
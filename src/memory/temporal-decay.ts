@@ -6,6 +6,16 @@ export type TemporalDecayConfig = {
   halfLifeDays: number;
 };
 
+/**
+ * Timestamp (epoch ms) for entries whose path is not a file in the workspace,
+ * such as rendered tasks or A2A conversations. Return null to fall back to the
+ * path date / file mtime.
+ */
+export type TemporalDecayTimestampResolver = (entry: {
+  path: string;
+  source: string;
+}) => number | null;
+
 export const DEFAULT_TEMPORAL_DECAY_CONFIG: TemporalDecayConfig = {
   enabled: false,
   halfLifeDays: 30,
@@ -83,12 +93,21 @@ async function extractTimestamp(params: {
   filePath: string;
   source?: string;
   workspaceDir?: string;
+  resolveTimestamp?: TemporalDecayTimestampResolver;
 }): Promise<Date | null> {
   const fromPath = parseMemoryDateFromPath(params.filePath);
   if (fromPath) {
     return fromPath;
   }
 
+  const resolved = params.resolveTimestamp?.({
+    path: params.filePath,
+    source: params.source ?? "memory",
+  });
+  if (typeof resolved === "number" && Number.isFinite(resolved) && resolved > 0) {
+    return new Date(resolved);
+  }
+
   // Memory root/topic files are evergreen knowledge and should not decay.
   if (params.source === "memory" && isEvergreenMemoryPath(params.filePath)) {
     return null;
@@ -124,6 +143,7 @@ export async function applyTemporalDecayToHybridResults<
   results: T[];
   temporalDecay?: Partial<TemporalDecayConfig>;
   workspaceDir?: string;
+  resolveTimestamp?: TemporalDecayTimestampResolver;
   nowMs?: number;
 }): Promise<T[]> {
   const config = { ...DEFAULT_TEMPORAL_DECAY_CONFIG, ...params.temporalDecay };
@@ -143,6 +163,7 @@ export async function applyTemporalDecayToHybridResults<
           filePath: entry.path,
           source: entry.source,
           workspaceDir: params.workspaceDir,
+          resolveTimestamp: params.resolveTimestamp,
         });
         timestampPromiseCache.set(cacheKey, timestampPromise);
       }
@@ -1,4 +1,27 @@
-export type MemorySource = "memory" | "sessions";
+export type MemorySource = "memory" | "sessions" | "tasks" | "a2a" | "team";
+
+/**
+ * Where an indexed entry came from: the author of a team note, or the task,
+ * work session, agents and outcome behind a task or A2A conversation.
+ */
+export type MemoryProvenance = {
+  agentId?: string;
+  taskId?: string;
+  workSessionId?: string;
+  agents?: string[];
+  /** Task outcome kind / status, or A2A completion outcome. */
+  outcome?: string;
+};
+
+/** Narrows a search to some sources and to entries with matching provenance. */
+export type MemorySearchFilter = {
+  sources?: MemorySource[];
+  taskId?: string;
+  workSessionId?: string;
+  /** Agent involved (task assignee/creator, conversation participant or note author). */
+  agentId?: string;
+  outcome?: string;
+};
 
 export type MemorySearchResult = {
   path: string;
@@ -8,6 +31,7 @@ export type MemorySearchResult = {
   snippet: string;
   source: MemorySource;
   citation?: string;
+  provenance?: MemoryProvenance;
 };
 
 export type MemoryEmbeddingProbeResult = {
@@ -61,7 +85,13 @@ export type MemoryProviderStatus = {
 export interface MemorySearchManager {
   search(
     query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
+    opts?: {
+      maxResults?: number;
+      minScore?: number;
+      sessionKey?: string;
+      /** Applied by the builtin index; other backends ignore it. */
+      filter?: MemorySearchFilter;
+    },
   ): Promise<MemorySearchResult[]>;
   readFile(params: {
     relPath: string;
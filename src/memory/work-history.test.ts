@@ -0,0 +1,253 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TaskFile } from "../agents/tools/task-file-io.js";
+import { writeTask } from "../agents/tools/task-file-io.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { CoordinationEvent } from "../infra/events/bus.js";
+import { captureEnv } from "../test-utils/env.js";
+import { MemoryIndexManager } from "./manager.js";
+import { createOpenAIEmbeddingProviderMock } from "./test-embeddings-mock.js";
+import { buildA2AMemoryEntries, splitTaskHistory } from "./work-history.js";
+
+const embedText = (text: string) => (text.includes("rollback") ? [1, 0, 0] : [0, 1, 0]);
+
+vi.mock("./embeddings.js", () => ({
+  createEmbeddingProvider: async (_options: unknown) =>
+    createOpenAIEmbeddingProviderMock({
+      embedQuery: async (input: string) => embedText(input),
+      embedBatch: async (input: string[]) => input.map(embedText),
+    }),
+}));
+
+const HISTORY = [
+  "",
+  "---",
+  "",
+  "## [2026-03-02T10:00:00.000Z] Roll back the broken deploy",
+  "",
+  "**Task ID:** task_old",
+  "**Priority:** high",
+  "",
+  "### Progress",
+  "- Ran the rollback playbook",
+  "",
+  '**Accounting:** {"outcome":"completed","workSessionId":"ws_old","runs":1}',
+  "",
+  "---",
+  "",
+  "## [2026-03-05T10:00:00.000Z] Tidy the changelog",
+  "",
+  "**Task ID:** task_docs",
+  "",
+  "### Progress",
+  "- Sorted entries",
+].join("\n");
+
+let envSnapshot: ReturnType<typeof captureEnv>;
+let rootDir = "";
+let workspaceDir = "";
+let manager: MemoryIndexManager | null = null;
+
+function buildConfig(): OpenClawConfig {
+  return {
+    agents: {
+      defaults: {
+        workspace: workspaceDir,
+        memorySearch: {
+          provider: "openai",
+          model: "text-embedding-3-small",
+          sources: ["tasks", "a2a"],
+          store: { path: path.join(rootDir, "{agentId}.sqlite"), vector: { enabled: false } },
+          sync: { watch: false, onSessionStart: false, onSearch: false },
+          query: { minScore: 0, hybrid: { enabled: false } },
+          remote: { batch: { enabled: false, wait: false } },
+        },
+      },
+      list: [{ id: "ruda", default: true }, { id: "eden" }],
+    },
+  } as OpenClawConfig;
+}
+
+function a2aEvent(
+  type: string,
+  ts: number,
+  data: { fromAgent: string } & Record<string, unknown>,
+): CoordinationEvent {
+  return { type, agentId: data.fromAgent, ts, data };
+}
+
+async function writeEvents(events: CoordinationEvent[]) {
+  const logDir = path.join(rootDir, "state", "logs");
+  await fs.mkdir(logDir, { recursive: true });
+  await fs.writeFile(
+    path.join(logDir, "coordination-events.ndjson"),
+    events.map((event) => JSON.stringify(event)).join("\n") + "\n",
+  );
+}
+
+function task(overrides: Partial<TaskFile>): TaskFile {
+  return {
+    id: "task_live",
+    status: "in_progress",
+    priority: "medium",
+    description: "Investigate flaky rollback alarms",
+    created: "2026-03-10T09:00:00.000Z",
+    lastActivity: "2026-03-10T09:30:00.000Z",
+    workSessionId: "ws_live",
+    progress: ["Checked the alarm thresholds"],
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  envSnapshot = captureEnv(["OPENCLAW_STATE_DIR"]);
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-work-history-"));
+  workspaceDir = path.join(rootDir, "workspace");
+  process.env.OPENCLAW_STATE_DIR = path.join(rootDir, "state");
+  await fs.mkdir(path.join(workspaceDir, "task-history"), { recursive: true });
+});
+
+afterEach(async () => {
+  if (manager) {
+    await manager.close();
+    manager = null;
+  }
+  envSnapshot.restore();
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe("splitTaskHistory", () => {
+  it("splits entries with history-file line numbers and accounting metadata", () => {
+    const entries = splitTaskHistory({
+      content: HISTORY,
+      relPath: "task-history/2026-03.md",
+      absPath: "/ws/task-history/2026-03.md",
+      agentId: "ruda",
+    });
+
+    expect(entries.map((entry) => entry.path)).toEqual([
+      "task-history/2026-03.md#task_old",
+      "task-history/2026-03.md#task_docs",
+    ]);
+    expect(entries[0].lineMap[0]).toBe(4);
+    expect(entries[0].content).not.toContain("---");
+    expect(entries[0].provenance).toEqual({
+      taskId: "task_old",
+      workSessionId: "ws_old",
+      agents: ["ruda"],
+      outcome: "completed",
+    });
+    expect(entries[1].mtimeMs).toBe(Date.parse("2026-03-05T10:00:00.000Z"));
+  });
+});
+
+describe("buildA2AMemoryEntries", () => {
+  it("renders one document per conversation the agent took part in", async () => {
+    await writeEvents([
+      a2aEvent("a2a.send", 1000, {
+        fromAgent: "ruda",
+        toAgent: "eden",
+        conversationId: "conv-1",
+        message: "Can you check the rollback?",
+        taskId: "task_live",
+      }),
+      a2aEvent("a2a.response", 2000, {
+        fromAgent: "eden",
+        toAgent: "ruda",
+        conversationId: "conv-1",
+        message: "Rolled back, all green.",
+      }),
+      a2aEvent("a2a.complete", 3000, {
+        fromAgent: "ruda",
+        toAgent: "eden",
+        conversationId: "conv-1",
+        outcome: "completed",
+      }),
+      a2aEvent("a2a.send", 4000, {
+        fromAgent: "eden",
+        toAgent: "seum",
+        conversationId: "conv-2",
+        message: "Unrelated",
+      }),
+    ]);
+
+    const entries = await buildA2AMemoryEntries({ agentId: "ruda" });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      path: "a2a/conv-1.md",
+      mtimeMs: 3000,
+      provenance: { taskId: "task_live", agents: ["eden", "ruda"], outcome: "completed" },
+    });
+    expect(entries[0].content).toContain("eden → ruda");
+    expect(entries[0].content).toContain("Rolled back, all green.");
+  });
+});
+
+describe("work history index", () => {
+  it("indexes tasks, history and conversations with filterable provenance", async () => {
+    await writeTask(workspaceDir, task({ assignee: "ruda", createdBy: "eden" }));
+    await fs.writeFile(path.join(workspaceDir, "task-history", "2026-03.md"), HISTORY);
+    await writeEvents([
+      a2aEvent("a2a.send", 1000, {
+        fromAgent: "ruda",
+        toAgent: "eden",
+        conversationId: "conv-1",
+        message: "Please run the rollback",
+        workSessionId: "ws_live",
+      }),
+      a2aEvent("a2a.job_cancelled", 2000, {
+        fromAgent: "ruda",
+        toAgent: "eden",
+        conversationId: "conv-1",
+        reason: "superseded",
+      }),
+    ]);
+
+    manager = await MemoryIndexManager.get({ cfg: buildConfig(), agentId: "ruda" });
+    expect(manager).not.toBeNull();
+    await manager!.sync({ force: true });
+
+    const all = await manager!.search("rollback", { maxResults: 10 });
+    expect(new Set(all.map((entry) => entry.source))).toEqual(new Set(["tasks", "a2a"]));
+    expect(all.map((entry) => entry.path)).toContain("task-history/2026-03.md");
+
+    const completed = await manager!.search("rollback", {
+      maxResults: 10,
+      filter: { sources: ["tasks"], outcome: "completed" },
+    });
+    expect(new Set(completed.map((entry) => entry.provenance?.taskId))).toEqual(
+      new Set(["task_docs", "task_old"]),
+    );
+
+    const session = await manager!.search("rollback", {
+      maxResults: 10,
+      filter: { workSessionId: "ws_live" },
+    });
+    expect(session.map((entry) => entry.path).toSorted()).toEqual([
+      "a2a/conv-1.md",
+      "tasks/task_live.md",
+    ]);
+    expect(session.find((entry) => entry.source === "a2a")?.provenance).toMatchObject({
+      outcome: "cancelled",
+      agents: ["eden", "ruda"],
+    });
+
+    const byAgent = await manager!.search("rollback", {
+      maxResults: 10,
+      filter: { sources: ["tasks"], agentId: "eden" },
+    });
+    expect(byAgent.map((entry) => entry.path)).toEqual(["tasks/task_live.md"]);
+
+    const history = await manager!.readFile({
+      relPath: "task-history/2026-03.md",
+      from: completed[0].startLine,
+      lines: 1,
+    });
+    expect(history.text).toMatch(/^## \[/);
+    const conversation = await manager!.readFile({ relPath: "a2a/conv-1.md" });
+    expect(conversation.text).toContain("Please run the rollback");
+  });
+});
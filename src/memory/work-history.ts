@@ -0,0 +1,315 @@
+/**
+ * Past work as memory documents: the "tasks" source (task files and
+ * task-history entries) and the "a2a" source (agent-to-agent conversations
+ * from the coordination event log).
+ *
+ * Tasks and conversations are rendered to markdown on every sync and indexed
+ * like session transcripts (content + hash, no file watch on the rendered
+ * text). Each document carries its provenance — task, work session, agents
+ * involved and outcome — so memory_search can filter on it. Task-history
+ * entries keep line numbers of the monthly history file they came from.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  formatTaskFileMd,
+  listTasks,
+  readTask,
+  TASK_HISTORY_DIR,
+  type TaskFile,
+} from "../agents/tools/task-file-io.js";
+import type { CoordinationEvent } from "../infra/events/bus.js";
+import {
+  EVENT_LOG_FILENAME,
+  queryEventLog,
+  resolveEventLogDir,
+} from "../infra/events/event-log-query.js";
+import { EVENT_TYPES } from "../infra/events/schemas.js";
+import { hashText } from "./internal.js";
+import type { SessionFileEntry } from "./session-files.js";
+import type { MemoryProvenance } from "./types.js";
+
+export const TASKS_MEMORY_PREFIX = "tasks/";
+export const A2A_MEMORY_PREFIX = "a2a/";
+
+const HISTORY_FILE_RE = /^\d{4}-\d{2}\.md$/;
+const A2A_CONVERSATION_TYPES = [
+  EVENT_TYPES.A2A_SEND,
+  EVENT_TYPES.A2A_RESPONSE,
+  EVENT_TYPES.A2A_COMPLETE,
+  EVENT_TYPES.A2A_JOB_CANCELLED,
+];
+const EVENT_PAGE_LIMIT = 1000;
+
+export type WorkHistoryEntry = SessionFileEntry & { provenance: MemoryProvenance };
+
+function uniqueAgents(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.map((value) => value?.trim()).filter(Boolean) as string[]));
+}
+
+function buildEntry(params: {
+  path: string;
+  absPath: string;
+  content: string;
+  mtimeMs: number;
+  lineMap?: number[];
+  provenance: MemoryProvenance;
+}): WorkHistoryEntry {
+  const lineMap = params.lineMap ?? [];
+  return {
+    path: params.path,
+    absPath: params.absPath,
+    mtimeMs: params.mtimeMs,
+    size: Buffer.byteLength(params.content, "utf-8"),
+    hash: hashText(`${params.content}\n${lineMap.join(",")}`),
+    content: params.content,
+    lineMap,
+    provenance: params.provenance,
+  };
+}
+
+function taskProvenance(task: TaskFile, agentId: string): MemoryProvenance {
+  return {
+    taskId: task.id,
+    workSessionId: task.workSessionId,
+    agents: uniqueAgents([agentId, task.assignee, task.createdBy]),
+    outcome: task.outcome?.kind ?? task.status,
+  };
+}
+
+function taskEntry(workspaceDir: string, task: TaskFile, agentId: string): WorkHistoryEntry {
+  const lastActivity = Date.parse(task.lastActivity || task.created);
+  return buildEntry({
+    path: `${TASKS_MEMORY_PREFIX}${task.id}.md`,
+    absPath: path.join(workspaceDir, TASKS_MEMORY_PREFIX, `${task.id}.md`),
+    content: formatTaskFileMd(task),
+    mtimeMs: Number.isFinite(lastActivity) ? lastActivity : 0,
+    provenance: taskProvenance(task, agentId),
+  });
+}
+
+/**
+ * Split a monthly history file into one entry per `## [<completed>] <title>`
+ * section. Paths are `task-history/<month>.md#<taskId>`; line numbers point
+ * into the monthly file.
+ */
+export function splitTaskHistory(params: {
+  content: string;
+  relPath: string;
+  absPath: string;
+  agentId: string;
+}): WorkHistoryEntry[] {
+  const lines = params.content.split("\n");
+  const starts: number[] = [];
+  lines.forEach((line, index) => {
+    if (/^## \[[^\]]+\] /.test(line)) {
+      starts.push(index);
+    }
+  });
+  const seen = new Map<string, number>();
+  return starts.map((start, i) => {
+    let end = starts[i + 1] ?? lines.length;
+    // Drop the "---" separator that opens the next entry.
+    while (end > start + 1 && (lines[end - 1].trim() === "" || lines[end - 1].trim() === "---")) {
+      end--;
+    }
+    const section = lines.slice(start, end);
+    const text = section.join("\n");
+    const completedAt = Date.parse(/^## \[([^\]]+)\]/.exec(section[0])?.[1] ?? "");
+    const taskId = /^\*\*Task ID:\*\* (\S+)/m.exec(text)?.[1];
+    let accounting: { outcome?: string; workSessionId?: string } = {};
+    const accountingLine = /^\*\*Accounting:\*\* (\{.*\})\s*$/m.exec(text)?.[1];
+    if (accountingLine) {
+      try {
+        accounting = JSON.parse(accountingLine) as typeof accounting;
+      } catch {
+        // Older or hand-edited entries: keep the text, skip the metadata.
+      }
+    }
+    const key = taskId ?? `entry-${i + 1}`;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return buildEntry({
+      path: `${params.relPath}#${count === 1 ? key : `${key}-${count}`}`,
+      absPath: params.absPath,
+      content: text,
+      mtimeMs: Number.isFinite(completedAt) ? completedAt : 0,
+      lineMap: section.map((_, offset) => start + offset + 1),
+      provenance: {
+        taskId,
+        workSessionId: accounting.workSessionId,
+        agents: [params.agentId],
+        outcome: accounting.outcome ?? "completed",
+      },
+    });
+  });
+}
+
+/** Every task of the agent (any status) plus each archived task-history entry. */
+export async function buildTaskMemoryEntries(params: {
+  workspaceDir: string;
+  agentId: string;
+}): Promise<WorkHistoryEntry[]> {
+  const tasks = await listTasks(params.workspaceDir, "all").catch(() => [] as TaskFile[]);
+  const entries = tasks.map((task) => taskEntry(params.workspaceDir, task, params.agentId));
+
+  const historyDir = path.join(params.workspaceDir, TASK_HISTORY_DIR);
+  const months = (await fs.readdir(historyDir).catch(() => [] as string[])).filter((name) =>
+    HISTORY_FILE_RE.test(name),
+  );
+  for (const month of months.toSorted()) {
+    const absPath = path.join(historyDir, month);
+    const content = await fs.readFile(absPath, "utf-8").catch(() => "");
+    entries.push(
+      ...splitTaskHistory({
+        content,
+        relPath: `${TASK_HISTORY_DIR}/${month}`,
+        absPath,
+        agentId: params.agentId,
+      }),
+    );
+  }
+  return entries;
+}
+
+/** Current rendering of `tasks/<id>.md` for memory_get. */
+export async function renderTaskMemoryDocument(
+  workspaceDir: string,
+  relPath: string,
+): Promise<string | null> {
+  const taskId = relPath.slice(TASKS_MEMORY_PREFIX.length).replace(/\.md$/, "");
+  const task = await readTask(workspaceDir, taskId).catch(() => null);
+  return task ? formatTaskFileMd(task) : null;
+}
+
+function readString(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+async function loadA2AEvents(logDir: string): Promise<CoordinationEvent[]> {
+  const events: CoordinationEvent[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await queryEventLog(logDir, {
+      types: A2A_CONVERSATION_TYPES,
+      cursor,
+      limit: EVENT_PAGE_LIMIT,
+    });
+    events.push(...page.events);
+    if (!page.hasMore || !page.cursor) {
+      return events;
+    }
+    cursor = page.cursor;
+  }
+}
+
+function renderConversation(conversationId: string, events: CoordinationEvent[]) {
+  const agents = uniqueAgents(
+    events.flatMap((event) => [
+      readString(event.data, "fromAgent"),
+      readString(event.data, "toAgent"),
+    ]),
+  ).toSorted();
+  const taskId = events.map((event) => readString(event.data, "taskId")).find(Boolean);
+  const workSessionId = events
+    .map((event) => readString(event.data, "workSessionId"))
+    .find(Boolean);
+  let outcome: string | undefined;
+  const lines = [`# A2A conversation ${conversationId}`, "", `Agents: ${agents.join(", ")}`];
+  if (taskId || workSessionId) {
+    lines.push(`Task: ${taskId ?? "-"}${workSessionId ? ` (work session ${workSessionId})` : ""}`);
+  }
+  for (const event of events) {
+    const when = new Date(event.ts).toISOString();
+    const from = readString(event.data, "fromAgent") ?? event.agentId;
+    const to = readString(event.data, "toAgent") ?? "?";
+    if (event.type === EVENT_TYPES.A2A_COMPLETE) {
+      outcome = readString(event.data, "outcome") ?? "completed";
+      const error = readString(event.data, "error");
+      lines.push("", `## ${when} outcome: ${outcome}`, ...(error ? [error] : []));
+      continue;
+    }
+    if (event.type === EVENT_TYPES.A2A_JOB_CANCELLED) {
+      outcome = "cancelled";
+      const reason = readString(event.data, "reason");
+      lines.push("", `## ${when} cancelled`, ...(reason ? [reason] : []));
+      continue;
+    }
+    const message = readString(event.data, "message");
+    if (message) {
+      lines.push("", `## ${when} ${from} → ${to}`, message);
+    }
+  }
+  return {
+    content: lines.join("\n"),
+    provenance: { taskId, workSessionId, agents, outcome } satisfies MemoryProvenance,
+    lastTs: events[events.length - 1]?.ts ?? 0,
+  };
+}
+
+function groupConversations(
+  events: CoordinationEvent[],
+  agentId: string,
+): Map<string, CoordinationEvent[]> {
+  const byConversation = new Map<string, CoordinationEvent[]>();
+  for (const event of events) {
+    const conversationId = readString(event.data, "conversationId");
+    if (!conversationId) {
+      continue;
+    }
+    const list = byConversation.get(conversationId) ?? [];
+    list.push(event);
+    byConversation.set(conversationId, list);
+  }
+  // Only conversations the agent took part in belong to its index.
+  for (const [conversationId, list] of byConversation) {
+    const involved = list.some(
+      (event) =>
+        readString(event.data, "fromAgent") === agentId ||
+        readString(event.data, "toAgent") === agentId,
+    );
+    if (!involved) {
+      byConversation.delete(conversationId);
+    }
+  }
+  return byConversation;
+}
+
+/** One document per A2A conversation the agent sent or received. */
+export async function buildA2AMemoryEntries(params: {
+  agentId: string;
+  logDir?: string;
+}): Promise<WorkHistoryEntry[]> {
+  const logDir = params.logDir ?? resolveEventLogDir();
+  const conversations = groupConversations(await loadA2AEvents(logDir), params.agentId);
+  const entries: WorkHistoryEntry[] = [];
+  for (const [conversationId, events] of conversations) {
+    const rendered = renderConversation(conversationId, events);
+    entries.push(
+      buildEntry({
+        path: `${A2A_MEMORY_PREFIX}${conversationId}.md`,
+        absPath: path.join(logDir, EVENT_LOG_FILENAME),
+        content: rendered.content,
+        mtimeMs: rendered.lastTs,
+        provenance: rendered.provenance,
+      }),
+    );
+  }
+  return entries;
+}
+
+/** Current rendering of `a2a/<conversationId>.md` for memory_get. */
+export async function renderA2AMemoryDocument(params: {
+  agentId: string;
+  relPath: string;
+  logDir?: string;
+}): Promise<string | null> {
+  const conversationId = params.relPath.slice(A2A_MEMORY_PREFIX.length).replace(/\.md$/, "");
+  const logDir = params.logDir ?? resolveEventLogDir();
+  const events = groupConversations(await loadA2AEvents(logDir), params.agentId).get(
+    conversationId,
+  );
+  return events ? renderConversation(conversationId, events).content : null;
+}
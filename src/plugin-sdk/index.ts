@@ -12,6 +12,11 @@ export type {
   ChannelAgentToolFactory,
   ChannelAuthAdapter,
   ChannelCapabilities,
+  ChannelCollaborationAdapter,
+  ChannelCollaborationCard,
+  ChannelCollaborationChannel,
+  ChannelCollaborationMessage,
+  ChannelCollaborationThread,
   ChannelCommandAdapter,
   ChannelConfigAdapter,
   ChannelDirectoryAdapter,
@@ -229,6 +234,7 @@ export {
 } from "./reply-payload.js";
 export type { OutboundReplyPayload } from "./reply-payload.js";
 export { resolveChannelAccountConfigBasePath } from "./config-paths.js";
+export { appendCollaborationCard } from "../channels/plugins/collaboration/shared.js";
 export { buildMediaPayload } from "../channels/plugins/media-payload.js";
 export type { MediaPayload, MediaPayloadInput } from "../channels/plugins/media-payload.js";
 export { createLoggerBackedRuntime } from "./runtime.js";
@@ -0,0 +1,97 @@
+/**
+ * Coordination Hooks
+ *
+ * Bridges the coordination event bus (`task.*`, `a2a.*`, `plan.*`,
+ * `unblock.*`, `zombie.*`) to the observe-only plugin hooks, runs the
+ * veto-capable `before_task_transition` hook for the task tools, and merges
+ * plugin-registered conversation sinks into the gateway sink configs.
+ */
+
+import { type CoordinationEvent, subscribe } from "../infra/events/bus.js";
+import type { ConversationSinkConfig } from "../infra/events/conversation-sink.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { getGlobalHookRunner } from "./hook-runner-global.js";
+import type { HookRunner } from "./hooks.js";
+import type {
+  PluginHookA2AEvent,
+  PluginHookBeforeTaskTransitionEvent,
+  PluginHookPlanEvent,
+  PluginHookTaskContext,
+  PluginHookTaskEvent,
+  PluginHookUnblockEvent,
+  PluginHookZombieEvent,
+} from "./types.js";
+
+const log = createSubsystemLogger("plugins");
+
+function dispatchCoordinationEvent(hookRunner: HookRunner, event: CoordinationEvent) {
+  const ctx = { agentId: event.agentId };
+  const prefix = event.type.slice(0, event.type.indexOf("."));
+  switch (prefix) {
+    case "task":
+      return hookRunner.runTaskEvent(event as PluginHookTaskEvent, ctx);
+    case "a2a":
+      return hookRunner.runA2AEvent(event as PluginHookA2AEvent, ctx);
+    case "plan":
+      return hookRunner.runPlanEvent(event as PluginHookPlanEvent, ctx);
+    case "unblock":
+      return hookRunner.runUnblockEvent(event as PluginHookUnblockEvent, ctx);
+    case "zombie":
+      return hookRunner.runZombieEvent(event as PluginHookZombieEvent, ctx);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Forward coordination bus events to plugin hooks. Handlers run after the
+ * emitter has moved on, so a slow plugin never delays the bus.
+ */
+export function startCoordinationHooks(hookRunner: HookRunner): () => void {
+  return subscribe("*", (event) => {
+    void dispatchCoordinationEvent(hookRunner, event)?.catch((err) => {
+      log.warn(`coordination hook failed for ${event.type}: ${String(err)}`);
+    });
+  });
+}
+
+export type TaskTransitionCheck = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Ask `before_task_transition` plugins whether a task may change status.
+ * Allowed when no plugin blocks it (or no plugins are loaded).
+ */
+export async function checkTaskTransition(
+  event: PluginHookBeforeTaskTransitionEvent,
+  ctx: PluginHookTaskContext,
+): Promise<TaskTransitionCheck> {
+  const hookRunner = getGlobalHookRunner();
+  if (!hookRunner?.hasHooks("before_task_transition")) {
+    return { allowed: true };
+  }
+  const result = await hookRunner.runBeforeTaskTransition(event, ctx);
+  if (!result?.block) {
+    return { allowed: true };
+  }
+  return {
+    allowed: false,
+    reason:
+      result.blockReason?.trim() ||
+      `Task ${event.taskId} ${event.action} (${event.from ?? "new"} → ${event.to}) was blocked by a plugin`,
+  };
+}
+
+/**
+ * Sink configs for the gateway: configured entries first, then one enabled
+ * entry for every plugin sink without a `gateway.conversationSinks` entry.
+ */
+export function resolveConversationSinkConfigs(
+  configured: ConversationSinkConfig[],
+  pluginSinkIds: string[],
+): ConversationSinkConfig[] {
+  const configuredIds = new Set(configured.map((entry) => entry.id));
+  const pluginDefaults = pluginSinkIds
+    .filter((id) => !configuredIds.has(id))
+    .map((id) => ({ id, enabled: true, options: {} }));
+  return [...configured, ...pluginDefaults];
+}
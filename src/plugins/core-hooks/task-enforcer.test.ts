@@ -1,13 +1,5 @@
-import fs from "node:fs/promises";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-vi.mock("node:fs/promises", () => ({
-  default: {
-    readdir: vi.fn(),
-    readFile: vi.fn(),
-  },
-}));
-
 vi.mock("../../config/config.js", () => ({
   loadConfig: vi.fn(() => ({
     agents: { defaults: { workspace: "/workspace" } },
@@ -18,17 +10,25 @@ vi.mock("../../agents/agent-scope.js", () => ({
   resolveAgentWorkspaceDir: vi.fn(() => "/workspace/main"),
 }));
 
+vi.mock("../../agents/tools/task-file-io.js", () => ({
+  listTasks: vi.fn(async () => []),
+  writeTask: vi.fn(async () => {}),
+}));
+
+import { listTasks, writeTask, type TaskFile } from "../../agents/tools/task-file-io.js";
+import type { PluginHookBeforeToolCallEvent, PluginHookToolContext } from "../types.js";
 import {
   taskEnforcerHandler,
+  cleanupStaleTasks,
   clearTaskEnforcerState,
   hasActiveTask,
   markTaskStarted,
 } from "./task-enforcer.js";
-import type { PluginHookBeforeToolCallEvent, PluginHookToolContext } from "../types.js";
 
 describe("task-enforcer", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(listTasks).mockResolvedValue([]);
     clearTaskEnforcerState();
   });
 
@@ -41,10 +41,11 @@ describe("task-enforcer", () => {
     parameters: {},
   });
 
-  const createContext = (agentId = "main"): PluginHookToolContext => ({
-    agentId,
-    sessionKey: "test-session",
-  } as PluginHookToolContext);
+  const createContext = (agentId = "main"): PluginHookToolContext =>
+    ({
+      agentId,
+      sessionKey: "test-session",
+    }) as PluginHookToolContext;
 
   describe("exempt tools", () => {
     it.each([
@@ -63,15 +64,11 @@ describe("task-enforcer", () => {
   });
 
   describe("enforced tools", () => {
-    it.each(["write", "edit", "bash", "exec"])(
-      "blocks %s without task_start",
-      async (toolName) => {
-        vi.mocked(fs.readdir).mockResolvedValue([]);
-        const result = await taskEnforcerHandler(createEvent(toolName), createContext());
-        expect(result?.block).toBe(true);
-        expect(result?.blockReason).toContain("TASK TRACKING REQUIRED");
-      }
-    );
+    it.each(["write", "edit", "bash", "exec"])("blocks %s without task_start", async (toolName) => {
+      const result = await taskEnforcerHandler(createEvent(toolName), createContext());
+      expect(result?.block).toBe(true);
+      expect(result?.blockReason).toContain("TASK TRACKING REQUIRED");
+    });
 
     it("allows enforced tools after task_start", async () => {
       const ctx = createContext();
@@ -86,48 +83,97 @@ describe("task-enforcer", () => {
   });
 
   describe("disk recovery", () => {
-    it("recovers state from disk when task file matches session", async () => {
-      vi.mocked(fs.readdir).mockResolvedValue(["task_abc123.md"] as never);
-      // Task file has matching session key
-      vi.mocked(fs.readFile).mockResolvedValue(
-        "- **Status:** in_progress\n- **Created By Session:** test-session"
-      );
+    const activeTask = (createdBySessionKey?: string) =>
+      ({ id: "task_abc123", status: "in_progress", createdBySessionKey }) as TaskFile;
+
+    it("recovers state from the task store when a task matches the session", async () => {
+      // Task has matching session key
+      vi.mocked(listTasks).mockResolvedValue([activeTask("test-session")]);
 
       const result = await taskEnforcerHandler(createEvent("write"), createContext());
 
-      // Should allow because recovered from disk with matching session
+      // Should allow because recovered from the store with matching session
       expect(result?.block).not.toBe(true);
     });
 
-    it("blocks when task file exists but from different session", async () => {
-      vi.mocked(fs.readdir).mockResolvedValue(["task_abc123.md"] as never);
-      // Task file has DIFFERENT session key
-      vi.mocked(fs.readFile).mockResolvedValue(
-        "- **Status:** in_progress\n- **Created By Session:** old-session"
-      );
+    it("blocks when an active task exists but from a different session", async () => {
+      // Task has DIFFERENT session key
+      vi.mocked(listTasks).mockResolvedValue([activeTask("old-session")]);
 
       const result = await taskEnforcerHandler(createEvent("write"), createContext());
       expect(result?.block).toBe(true);
     });
 
-    it("blocks when task file has no session metadata", async () => {
-      vi.mocked(fs.readdir).mockResolvedValue(["task_abc123.md"] as never);
-      // Legacy task file without session metadata
-      vi.mocked(fs.readFile).mockResolvedValue("- **Status:** in_progress");
+    it("blocks when the active task has no session metadata", async () => {
+      // Legacy task without session metadata
+      vi.mocked(listTasks).mockResolvedValue([activeTask()]);
 
       const result = await taskEnforcerHandler(createEvent("write"), createContext());
-      // Should block — legacy files without session metadata don't bypass
+      // Should block — legacy tasks without session metadata don't bypass
       expect(result?.block).toBe(true);
     });
 
-    it("blocks when no task files on disk", async () => {
-      vi.mocked(fs.readdir).mockResolvedValue([]);
-
+    it("blocks when the task store is empty", async () => {
       const result = await taskEnforcerHandler(createEvent("write"), createContext());
       expect(result?.block).toBe(true);
     });
   });
 
+  describe("stale task cleanup", () => {
+    it("abandons in-progress and pending tasks idle for more than a day", async () => {
+      const old = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+      const fresh = new Date().toISOString();
+      vi.mocked(listTasks).mockResolvedValue([
+        { id: "task_stale", status: "in_progress", created: old, lastActivity: old },
+        { id: "task_fresh", status: "in_progress", created: old, lastActivity: fresh },
+        { id: "task_waiting", status: "pending_approval", created: old, lastActivity: old },
+      ] as TaskFile[]);
+
+      expect(await cleanupStaleTasks("/workspace/main", "main")).toBe(1);
+      expect(writeTask).toHaveBeenCalledTimes(1);
+      expect(writeTask).toHaveBeenCalledWith(
+        "/workspace/main",
+        expect.objectContaining({ id: "task_stale", status: "abandoned" }),
+      );
+    });
+  });
+
+  describe("template tool gates", () => {
+    const pendingReleaseTask = {
+      id: "task_release",
+      status: "pending_approval",
+      createdBySessionKey: "test-session",
+      template: { name: "release", gatedTools: ["message"], criteria: [] },
+    } as unknown as TaskFile;
+
+    it("blocks gated tools while the templated task awaits approval", async () => {
+      vi.mocked(listTasks).mockResolvedValue([pendingReleaseTask]);
+
+      const result = await taskEnforcerHandler(createEvent("message"), createContext());
+      expect(result?.block).toBe(true);
+      expect(result?.blockReason).toContain('gated by the "release" template');
+      expect(listTasks).toHaveBeenCalledWith("/workspace/main", "pending_approval");
+    });
+
+    it("re-reads gates after task_approve", async () => {
+      vi.mocked(listTasks).mockResolvedValue([pendingReleaseTask]);
+      const ctx = createContext();
+      expect((await taskEnforcerHandler(createEvent("message"), ctx))?.block).toBe(true);
+
+      await taskEnforcerHandler(createEvent("task_approve"), ctx);
+      vi.mocked(listTasks).mockResolvedValue([]);
+      expect((await taskEnforcerHandler(createEvent("message"), ctx))?.block).not.toBe(true);
+    });
+
+    it("ignores gates from other sessions", async () => {
+      vi.mocked(listTasks).mockResolvedValue([
+        { ...pendingReleaseTask, createdBySessionKey: "other-session" },
+      ]);
+      const result = await taskEnforcerHandler(createEvent("message"), createContext());
+      expect(result?.block).not.toBe(true);
+    });
+  });
+
   describe("session state", () => {
     it("markTaskStarted sets session state", () => {
       expect(hasActiveTask("main")).toBe(false);
@@ -5,11 +5,12 @@
  * When a work tool is called without task_start, it's blocked with a clear error message.
  * The agent retries with task_start first, ensuring 100% task tracking.
  *
- * Now also checks actual task files on disk to recover state after gateway restart.
+ * Now also checks the workspace's task store to recover state after gateway restart.
+ *
+ * Tasks started from a template can gate tools behind approval: while such a task
+ * is pending_approval, its `gatedTools` are blocked for the session that created it.
  */
 
-import fs from "node:fs/promises";
-import path from "node:path";
 import type { PluginRegistry } from "../registry.js";
 import type {
   PluginHookBeforeToolCallEvent,
@@ -17,6 +18,7 @@ import type {
   PluginHookToolContext,
 } from "../types.js";
 import { resolveAgentWorkspaceDir } from "../../agents/agent-scope.js";
+import { listTasks, writeTask, type TaskStatus } from "../../agents/tools/task-file-io.js";
 import { loadConfig } from "../../config/config.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 
@@ -28,9 +30,14 @@ const SESSION_STALE_MS = 24 * 60 * 60 * 1000; // 24 hours
 const SESSION_CLEANUP_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
 let enforcerCleanupTimer: ReturnType<typeof setInterval> | null = null;
 
+const ACTIVE_TASK_STATUSES = new Set<TaskStatus>(["in_progress", "pending", "pending_approval"]);
+
 const activeTaskCache = new Map<string, { result: boolean; cachedAt: number }>();
 const CACHE_TTL_MS = 30_000; // 30 seconds
 
+type ToolGate = { taskId: string; template: string; sessionKey?: string; tools: string[] };
+const toolGateCache = new Map<string, { gates: ToolGate[]; cachedAt: number }>();
+
 function cleanupStaleSessions(): void {
   const now = Date.now();
   for (const [key, timestamp] of taskStartedSessions) {
@@ -60,11 +67,37 @@ function setCachedActiveTaskResult(agentId: string, result: boolean): void {
 export function invalidateActiveTaskCache(agentId?: string): void {
   if (agentId) {
     activeTaskCache.delete(agentId);
+    toolGateCache.delete(agentId);
   } else {
     activeTaskCache.clear();
+    toolGateCache.clear();
   }
 }
 
+/** Tools gated by templated tasks that are still waiting for approval. */
+async function loadToolGates(agentId: string): Promise<ToolGate[]> {
+  const cached = toolGateCache.get(agentId);
+  if (cached && Date.now() - cached.cachedAt <= CACHE_TTL_MS) {
+    return cached.gates;
+  }
+  const workspaceDir = resolveAgentWorkspaceDir(loadConfig(), agentId);
+  const tasks = await listTasks(workspaceDir, "pending_approval");
+  const gates = tasks.flatMap((task) =>
+    task.template?.gatedTools?.length
+      ? [
+          {
+            taskId: task.id,
+            template: task.template.name,
+            sessionKey: task.createdBySessionKey,
+            tools: task.template.gatedTools,
+          },
+        ]
+      : [],
+  );
+  toolGateCache.set(agentId, { gates, cachedAt: Date.now() });
+  return gates;
+}
+
 const EXEMPT_TOOLS = new Set([
   "task_update",
   "task_list",
@@ -103,10 +136,10 @@ function getSessionKey(ctx: PluginHookToolContext): string | null {
 }
 
 /**
- * Check if there are active task files in the workspace's tasks/ directory.
- * This recovers state after gateway restart.
+ * Check if there are active tasks in the workspace's task store (markdown or
+ * sqlite). This recovers state after gateway restart.
  *
- * When sessionKey is provided, only considers task files that were created by that
+ * When sessionKey is provided, only considers tasks that were created by that
  * specific session (via the "Created By Session" metadata field). This prevents
  * stale task files from previous sessions from bypassing enforcement in new sessions.
  * Task files without session metadata are ignored (migration period: they will be
@@ -124,60 +157,19 @@ async function hasActiveTaskFiles(
       return cached;
     }
   }
-  const tasksDir = path.join(workspaceDir, "tasks");
   try {
-    const files = await fs.readdir(tasksDir);
-    // Check if any task_*.md files exist
-    const hasTaskFiles = files.some((f) => f.startsWith("task_") && f.endsWith(".md"));
-    if (!hasTaskFiles) {
-      if (cacheKey) {
-        setCachedActiveTaskResult(cacheKey, false);
-      }
-      return false;
-    }
-    // Read each task file to check if any are in_progress or pending
-    for (const file of files) {
-      if (!file.startsWith("task_") || !file.endsWith(".md")) {
-        continue;
-      }
-      try {
-        const content = await fs.readFile(path.join(tasksDir, file), "utf-8");
-        const isActive =
-          content.includes("**Status:** in_progress") ||
-          content.includes("**Status:** pending") ||
-          content.includes("**Status:** pending_approval");
-        if (!isActive) {
-          continue;
-        }
-
-        // Session-scoped check: only match files created by this session
-        if (sessionKey) {
-          const sessionMatch = content.match(
-            /\*\*Created By Session:\*\*\s*(.+)/,
-          );
-          if (sessionMatch && sessionMatch[1].trim() === sessionKey) {
-            if (cacheKey) {
-              setCachedActiveTaskResult(cacheKey, true);
-            }
-            return true;
-          }
-          // File has no session metadata or different session — skip
-          continue;
-        }
-
-        // No session key filter — legacy behavior (agent-wide check)
-        if (cacheKey) {
-          setCachedActiveTaskResult(cacheKey, true);
-        }
-        return true;
-      } catch {
-        continue;
-      }
-    }
+    const tasks = await listTasks(workspaceDir);
+    const hasActive = tasks.some(
+      (task) =>
+        ACTIVE_TASK_STATUSES.has(task.status) &&
+        // Session-scoped check: only tasks created by this session count. Tasks
+        // without session metadata never match a session.
+        (!sessionKey || task.createdBySessionKey === sessionKey),
+    );
     if (cacheKey) {
-      setCachedActiveTaskResult(cacheKey, false);
+      setCachedActiveTaskResult(cacheKey, hasActive);
     }
-    return false;
+    return hasActive;
   } catch {
     return false;
   }
@@ -186,46 +178,34 @@ async function hasActiveTaskFiles(
 const STALE_TASK_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 /**
- * Clean up stale task files that have been in_progress/pending for longer than
- * the threshold. Marks them as "abandoned" to prevent enforcement bypass.
+ * Clean up stale tasks that have been in_progress/pending without activity for
+ * longer than the threshold. Marks them as "abandoned" to prevent enforcement bypass.
  */
 export async function cleanupStaleTasks(
   workspaceDir: string,
   agentId?: string,
 ): Promise<number> {
-  const tasksDir = path.join(workspaceDir, "tasks");
   let cleaned = 0;
   try {
-    const files = await fs.readdir(tasksDir);
     const now = Date.now();
-    for (const file of files) {
-      if (!file.startsWith("task_") || !file.endsWith(".md")) {
+    for (const task of await listTasks(workspaceDir)) {
+      if (task.status !== "in_progress" && task.status !== "pending") {
+        continue;
+      }
+      const lastActivityMs = Date.parse(task.lastActivity || task.created);
+      if (!Number.isFinite(lastActivityMs) || now - lastActivityMs < STALE_TASK_THRESHOLD_MS) {
         continue;
       }
       try {
-        const filePath = path.join(tasksDir, file);
-        const stat = await fs.stat(filePath);
-        if (now - stat.mtimeMs < STALE_TASK_THRESHOLD_MS) {
-          continue;
-        }
-        const content = await fs.readFile(filePath, "utf-8");
-        if (
-          content.includes("**Status:** in_progress") ||
-          content.includes("**Status:** pending")
-        ) {
-          const updated = content
-            .replace("**Status:** in_progress", "**Status:** abandoned")
-            .replace("**Status:** pending", "**Status:** abandoned");
-          await fs.writeFile(filePath, updated, "utf-8");
-          cleaned++;
-          log.info("Cleaned up stale task file", { agentId, file });
-        }
+        await writeTask(workspaceDir, { ...task, status: "abandoned" });
+        cleaned++;
+        log.info("Cleaned up stale task", { agentId, taskId: task.id });
       } catch {
         continue;
       }
     }
   } catch {
-    // tasks dir doesn't exist — nothing to clean
+    // no task store for this workspace yet — nothing to clean
   }
   if (agentId) {
     invalidateActiveTaskCache(agentId);
@@ -246,18 +226,46 @@ export async function taskEnforcerHandler(
     return;
   }
 
+  if (ctx.agentId) {
+    try {
+      const gate = (await loadToolGates(ctx.agentId)).find(
+        (g) =>
+          g.tools.includes(toolName) &&
+          (!g.sessionKey || !ctx.sessionKey || g.sessionKey === ctx.sessionKey),
+      );
+      if (gate) {
+        log.info(`Blocking ${toolName} for ${ctx.agentId} - gated by task ${gate.taskId}`);
+        return {
+          block: true,
+          blockReason:
+            `APPROVAL REQUIRED: ${toolName} is gated by the "${gate.template}" template until ` +
+            `task ${gate.taskId} is approved. An approver has to approve it; retry after that.`,
+        };
+      }
+    } catch (err) {
+      log.debug(`Failed to check tool gates for ${ctx.agentId}: ${String(err)}`);
+    }
+  }
+
+  if (toolName === "task_approve") {
+    if (ctx.agentId) {
+      invalidateActiveTaskCache(ctx.agentId);
+    }
+    return;
+  }
+
   if (EXEMPT_TOOLS.has(toolName)) {
     return;
   }
 
-  if (toolName === "task_start") {
+  if (toolName === "task_start" || toolName === "task_start_from_template") {
     const sessionKey = getSessionKey(ctx);
     if (sessionKey) {
       taskStartedSessions.set(sessionKey, Date.now());
       if (ctx.agentId) {
         invalidateActiveTaskCache(ctx.agentId);
       }
-      log.debug(`task_start called for session: ${sessionKey}`);
+      log.debug(`${toolName} called for session: ${sessionKey}`);
     }
     return;
   }
@@ -341,6 +349,7 @@ export function registerTaskEnforcerHook(registry: PluginRegistry): void {
 export function clearTaskEnforcerState(): void {
   taskStartedSessions.clear();
   activeTaskCache.clear();
+  toolGateCache.clear();
   if (enforcerCleanupTimer) {
     clearInterval(enforcerCleanupTimer);
     enforcerCleanupTimer = null;
@@ -8,6 +8,7 @@
 import type { PluginRegistry } from "./registry.js";
 import type {
   PluginHookAfterCompactionEvent,
+  PluginHookA2AEvent,
   PluginHookAfterToolCallEvent,
   PluginHookAgentContext,
   PluginHookAgentEndEvent,
@@ -21,8 +22,11 @@ import type {
   PluginHookLlmInputEvent,
   PluginHookLlmOutputEvent,
   PluginHookBeforeResetEvent,
+  PluginHookBeforeTaskTransitionEvent,
+  PluginHookBeforeTaskTransitionResult,
   PluginHookBeforeToolCallEvent,
   PluginHookBeforeToolCallResult,
+  PluginHookCoordinationContext,
   PluginHookGatewayContext,
   PluginHookGatewayStartEvent,
   PluginHookGatewayStopEvent,
@@ -32,6 +36,7 @@ import type {
   PluginHookMessageSendingResult,
   PluginHookMessageSentEvent,
   PluginHookName,
+  PluginHookPlanEvent,
   PluginHookRegistration,
   PluginHookSessionContext,
   PluginHookSessionEndEvent,
@@ -43,12 +48,16 @@ import type {
   PluginHookSubagentSpawningResult,
   PluginHookSubagentEndedEvent,
   PluginHookSubagentSpawnedEvent,
+  PluginHookTaskContext,
+  PluginHookTaskEvent,
   PluginHookToolContext,
   PluginHookToolResultPersistContext,
   PluginHookToolResultPersistEvent,
   PluginHookToolResultPersistResult,
   PluginHookBeforeMessageWriteEvent,
   PluginHookBeforeMessageWriteResult,
+  PluginHookUnblockEvent,
+  PluginHookZombieEvent,
 } from "./types.js";
 
 // Re-export types for consumers
@@ -93,6 +102,15 @@ export type {
   PluginHookGatewayContext,
   PluginHookGatewayStartEvent,
   PluginHookGatewayStopEvent,
+  PluginHookCoordinationContext,
+  PluginHookTaskEvent,
+  PluginHookA2AEvent,
+  PluginHookPlanEvent,
+  PluginHookUnblockEvent,
+  PluginHookZombieEvent,
+  PluginHookTaskContext,
+  PluginHookBeforeTaskTransitionEvent,
+  PluginHookBeforeTaskTransitionResult,
 };
 
 export type HookRunnerLogger = {
@@ -695,6 +713,82 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     return runVoidHook("gateway_stop", event, ctx);
   }
 
+  // =========================================================================
+  // Coordination Hooks
+  // =========================================================================
+
+  /**
+   * Run task_event hook for task.* bus events.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runTaskEvent(
+    event: PluginHookTaskEvent,
+    ctx: PluginHookCoordinationContext,
+  ): Promise<void> {
+    return runVoidHook("task_event", event, ctx);
+  }
+
+  /**
+   * Run a2a_event hook for a2a.* bus events.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runA2AEvent(
+    event: PluginHookA2AEvent,
+    ctx: PluginHookCoordinationContext,
+  ): Promise<void> {
+    return runVoidHook("a2a_event", event, ctx);
+  }
+
+  /**
+   * Run plan_event hook for plan.* bus events.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runPlanEvent(
+    event: PluginHookPlanEvent,
+    ctx: PluginHookCoordinationContext,
+  ): Promise<void> {
+    return runVoidHook("plan_event", event, ctx);
+  }
+
+  /**
+   * Run unblock_event hook for unblock.* bus events.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runUnblockEvent(
+    event: PluginHookUnblockEvent,
+    ctx: PluginHookCoordinationContext,
+  ): Promise<void> {
+    return runVoidHook("unblock_event", event, ctx);
+  }
+
+  /**
+   * Run zombie_event hook for zombie.* bus events.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runZombieEvent(
+    event: PluginHookZombieEvent,
+    ctx: PluginHookCoordinationContext,
+  ): Promise<void> {
+    return runVoidHook("zombie_event", event, ctx);
+  }
+
+  /**
+   * Run before_task_transition hook.
+   * Allows plugins to veto a task status change; the first block wins.
+   * Runs sequentially.
+   */
+  async function runBeforeTaskTransition(
+    event: PluginHookBeforeTaskTransitionEvent,
+    ctx: PluginHookTaskContext,
+  ): Promise<PluginHookBeforeTaskTransitionResult | undefined> {
+    return runModifyingHook<"before_task_transition", PluginHookBeforeTaskTransitionResult>(
+      "before_task_transition",
+      event,
+      ctx,
+      (acc, next) => (acc?.block ? acc : next),
+    );
+  }
+
   // =========================================================================
   // Utility
   // =========================================================================
@@ -744,6 +838,13 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     // Gateway hooks
     runGatewayStart,
     runGatewayStop,
+    // Coordination hooks
+    runTaskEvent,
+    runA2AEvent,
+    runPlanEvent,
+    runUnblockEvent,
+    runZombieEvent,
+    runBeforeTaskTransition,
     // Utility
     hasHooks,
     getHookCount,
@@ -515,6 +515,30 @@ describe("loadOpenClawPlugins", () => {
     expect(a?.status).toBe("disabled");
   });
 
+  it("warns when messages.tts.provider names no known provider", () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const voice = writePlugin({
+      id: "voice",
+      body: `export default { id: "voice", register(api) {
+  api.registerTtsProvider({ id: "piper", synthesize: async () => ({ audioBuffer: Buffer.from("") }) });
+} };`,
+    });
+    const load = (provider: string) =>
+      loadOpenClawPlugins({
+        cache: false,
+        config: {
+          plugins: { load: { paths: [voice.file] }, allow: ["voice"] },
+          messages: { tts: { provider } },
+        },
+      }).diagnostics.filter((entry) => entry.message.startsWith("tts provider not found"));
+
+    expect(load("piper")).toEqual([]);
+    expect(load("edge")).toEqual([]);
+    expect(load("pipr")).toEqual([
+      expect.objectContaining({ level: "warn", message: expect.stringContaining("pipr") }),
+    ]);
+  });
+
   it("disables memory plugins when slot is none", () => {
     process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
     const memory = writePlugin({
@@ -6,6 +6,7 @@ import type { OpenClawConfig } from "../config/config.js";
 import type { GatewayRequestHandler } from "../gateway/server-methods/types.js";
 import { openBoundaryFileSync } from "../infra/boundary-file-read.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { TTS_PROVIDERS } from "../tts/tts-core.js";
 import { resolveUserPath } from "../utils.js";
 import { clearPluginCommands } from "./commands.js";
 import {
@@ -176,6 +177,8 @@ function createPluginRecord(params: {
     cliCommands: [],
     services: [],
     commands: [],
+    conversationSinks: [],
+    ttsProviders: [],
     httpHandlers: 0,
     hookCount: 0,
     configSchema: params.configSchema,
@@ -702,6 +705,19 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
     });
   }
 
+  const ttsProvider = cfg.messages?.tts?.provider?.trim().toLowerCase();
+  if (
+    ttsProvider &&
+    !validateOnly &&
+    !(TTS_PROVIDERS as readonly string[]).includes(ttsProvider) &&
+    !registry.ttsProviders.some((entry) => entry.provider.id === ttsProvider)
+  ) {
+    registry.diagnostics.push({
+      level: "warn",
+      message: `tts provider not found: ${ttsProvider} (messages.tts.provider is neither built-in nor registered by a plugin; TTS falls back to the other providers)`,
+    });
+  }
+
   warnAboutUntrackedLoadedPlugins({
     registry,
     provenance,
@@ -8,6 +8,7 @@ import type {
 } from "../gateway/server-methods/types.js";
 import { registerInternalHook } from "../hooks/internal-hooks.js";
 import type { HookEntry } from "../hooks/types.js";
+import type { ConversationSink } from "../infra/events/conversation-sink.js";
 import { resolveUserPath } from "../utils.js";
 import { registerPluginCommand } from "./commands.js";
 import { normalizePluginHttpPath } from "./http-path.js";
@@ -32,6 +33,7 @@ import type {
   PluginHookName,
   PluginHookHandlerMap,
   PluginHookRegistration as TypedPluginHookRegistration,
+  TtsProviderPlugin,
 } from "./types.js";
 
 export type PluginToolRegistration = {
@@ -88,6 +90,18 @@ export type PluginServiceRegistration = {
   source: string;
 };
 
+export type PluginConversationSinkRegistration = {
+  pluginId: string;
+  sink: ConversationSink;
+  source: string;
+};
+
+export type PluginTtsProviderRegistration = {
+  pluginId: string;
+  provider: TtsProviderPlugin;
+  source: string;
+};
+
 export type PluginCommandRegistration = {
   pluginId: string;
   command: OpenClawPluginCommandDefinition;
@@ -114,6 +128,8 @@ export type PluginRecord = {
   cliCommands: string[];
   services: string[];
   commands: string[];
+  conversationSinks: string[];
+  ttsProviders: string[];
   httpHandlers: number;
   hookCount: number;
   configSchema: boolean;
@@ -134,6 +150,8 @@ export type PluginRegistry = {
   cliRegistrars: PluginCliRegistration[];
   services: PluginServiceRegistration[];
   commands: PluginCommandRegistration[];
+  conversationSinks: PluginConversationSinkRegistration[];
+  ttsProviders: PluginTtsProviderRegistration[];
   diagnostics: PluginDiagnostic[];
 };
 
@@ -157,6 +175,8 @@ export function createEmptyPluginRegistry(): PluginRegistry {
     cliRegistrars: [],
     services: [],
     commands: [],
+    conversationSinks: [],
+    ttsProviders: [],
     diagnostics: [],
   };
 }
@@ -446,6 +466,64 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     });
   };
 
+  const registerConversationSink = (record: PluginRecord, sink: ConversationSink) => {
+    const id = typeof sink?.id === "string" ? sink.id.trim() : "";
+    if (!id) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "conversation sink registration missing id",
+      });
+      return;
+    }
+    const existing = registry.conversationSinks.find((entry) => entry.sink.id === id);
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `conversation sink already registered: ${id} (${existing.pluginId})`,
+      });
+      return;
+    }
+    record.conversationSinks.push(id);
+    registry.conversationSinks.push({
+      pluginId: record.id,
+      sink,
+      source: record.source,
+    });
+  };
+
+  const registerTtsProvider = (record: PluginRecord, provider: TtsProviderPlugin) => {
+    const id = typeof provider?.id === "string" ? provider.id.trim().toLowerCase() : "";
+    if (!id || typeof provider.synthesize !== "function") {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "tts provider registration needs an id and synthesize()",
+      });
+      return;
+    }
+    const existing = registry.ttsProviders.find((entry) => entry.provider.id === id);
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `tts provider already registered: ${id} (${existing.pluginId})`,
+      });
+      return;
+    }
+    record.ttsProviders.push(id);
+    registry.ttsProviders.push({
+      pluginId: record.id,
+      provider: { ...provider, id },
+      source: record.source,
+    });
+  };
+
   const registerTypedHook = <K extends PluginHookName>(
     record: PluginRecord,
     hookName: K,
@@ -497,6 +575,8 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
       registerCli: (registrar, opts) => registerCli(record, registrar, opts),
       registerService: (service) => registerService(record, service),
       registerCommand: (command) => registerCommand(record, command),
+      registerConversationSink: (sink) => registerConversationSink(record, sink),
+      registerTtsProvider: (provider) => registerTtsProvider(record, provider),
       resolvePath: (input: string) => resolveUserPath(input),
       on: (hookName, handler, opts) => registerTypedHook(record, hookName, handler, opts),
     };
@@ -513,6 +593,8 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     registerCli,
     registerService,
     registerCommand,
+    registerConversationSink,
+    registerTtsProvider,
     registerHook,
     registerTypedHook,
   };
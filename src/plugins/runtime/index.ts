@@ -1,6 +1,10 @@
 import { createRequire } from "node:module";
 import { resolveEffectiveMessagesConfig, resolveHumanDelayConfig } from "../../agents/identity.js";
-import { createMemoryGetTool, createMemorySearchTool } from "../../agents/tools/memory-tool.js";
+import {
+  createMemoryGetTool,
+  createMemorySearchTool,
+  createTeamMemoryWriteTool,
+} from "../../agents/tools/memory-tool.js";
 import { handleSlackAction } from "../../agents/tools/slack-actions.js";
 import {
   chunkByNewline,
@@ -42,6 +46,12 @@ import { discordMessageActions } from "../../channels/plugins/actions/discord.js
 import { signalMessageActions } from "../../channels/plugins/actions/signal.js";
 import { telegramMessageActions } from "../../channels/plugins/actions/telegram.js";
 import { createWhatsAppLoginTool } from "../../channels/plugins/agent-tools/whatsapp-login.js";
+import { discordCollaborationAdapter } from "../../channels/plugins/collaboration/discord.js";
+import {
+  getCollaborationParticipants,
+  registerCollaborationParticipants,
+} from "../../channels/plugins/collaboration/participants.js";
+import { slackCollaborationAdapter } from "../../channels/plugins/collaboration/slack.js";
 import { recordInboundSession } from "../../channels/session.js";
 import { registerMemoryCli } from "../../cli/memory-cli.js";
 import { loadConfig, writeConfigFile } from "../../config/config.js";
@@ -57,11 +67,16 @@ import {
   resolveStorePath,
   updateLastRoute,
 } from "../../config/sessions.js";
+import {
+  markMentionRespondedByIdentity,
+  trackOutboundMention,
+} from "../../discord/a2a-retry/index.js";
 import { auditDiscordChannelPermissions } from "../../discord/audit.js";
 import {
   listDiscordDirectoryGroupsLive,
   listDiscordDirectoryPeersLive,
 } from "../../discord/directory-live.js";
+import { checkA2ARateLimit } from "../../discord/loop-guard.js";
 import { monitorDiscordProvider } from "../../discord/monitor.js";
 import { probeDiscord } from "../../discord/probe.js";
 import { resolveDiscordChannelAllowlist } from "../../discord/resolve-channels.js";
@@ -281,6 +296,7 @@ function createRuntimeTools(): PluginRuntime["tools"] {
   return {
     createMemoryGetTool,
     createMemorySearchTool,
+    createTeamMemoryWriteTool,
     registerMemoryCli,
   };
 }
@@ -367,8 +383,16 @@ function createRuntimeChannel(): PluginRuntime["channel"] {
       shouldComputeCommandAuthorized,
       shouldHandleTextCommands,
     },
+    collaboration: {
+      registerParticipants: registerCollaborationParticipants,
+      getParticipants: getCollaborationParticipants,
+      trackMention: trackOutboundMention,
+      markMentionRespondedByIdentity,
+      checkRateLimit: checkA2ARateLimit,
+    },
     discord: {
       messageActions: discordMessageActions,
+      collaboration: discordCollaborationAdapter,
       auditChannelPermissions: auditDiscordChannelPermissions,
       listDirectoryGroupsLive: listDiscordDirectoryGroupsLive,
       listDirectoryPeersLive: listDiscordDirectoryPeersLive,
@@ -388,6 +412,7 @@ function createRuntimeChannel(): PluginRuntime["channel"] {
       sendMessageSlack,
       monitorSlackProvider,
       handleSlackAction,
+      collaboration: slackCollaborationAdapter,
     },
     telegram: {
       auditGroupMembership: auditTelegramGroupMembership,
@@ -93,7 +93,19 @@ type ResizeToJpeg = typeof import("../../media/image-ops.js").resizeToJpeg;
 type CreateMemoryGetTool = typeof import("../../agents/tools/memory-tool.js").createMemoryGetTool;
 type CreateMemorySearchTool =
   typeof import("../../agents/tools/memory-tool.js").createMemorySearchTool;
+type CreateTeamMemoryWriteTool =
+  typeof import("../../agents/tools/memory-tool.js").createTeamMemoryWriteTool;
 type RegisterMemoryCli = typeof import("../../cli/memory-cli.js").registerMemoryCli;
+type RegisterCollaborationParticipants =
+  typeof import("../../channels/plugins/collaboration/participants.js").registerCollaborationParticipants;
+type GetCollaborationParticipants =
+  typeof import("../../channels/plugins/collaboration/participants.js").getCollaborationParticipants;
+type TrackOutboundMention = typeof import("../../discord/a2a-retry/index.js").trackOutboundMention;
+type MarkMentionRespondedByIdentity =
+  typeof import("../../discord/a2a-retry/index.js").markMentionRespondedByIdentity;
+type CheckA2ARateLimit = typeof import("../../discord/loop-guard.js").checkA2ARateLimit;
+type DiscordCollaborationAdapter =
+  typeof import("../../channels/plugins/collaboration/discord.js").discordCollaborationAdapter;
 type DiscordMessageActions =
   typeof import("../../channels/plugins/actions/discord.js").discordMessageActions;
 type AuditDiscordChannelPermissions =
@@ -119,6 +131,8 @@ type ResolveSlackChannelAllowlist =
   typeof import("../../slack/resolve-channels.js").resolveSlackChannelAllowlist;
 type ResolveSlackUserAllowlist =
   typeof import("../../slack/resolve-users.js").resolveSlackUserAllowlist;
+type SlackCollaborationAdapter =
+  typeof import("../../channels/plugins/collaboration/slack.js").slackCollaborationAdapter;
 type SendMessageSlack = typeof import("../../slack/send.js").sendMessageSlack;
 type MonitorSlackProvider = typeof import("../../slack/index.js").monitorSlackProvider;
 type HandleSlackAction = typeof import("../../agents/tools/slack-actions.js").handleSlackAction;
@@ -210,6 +224,7 @@ export type PluginRuntime = {
   tools: {
     createMemoryGetTool: CreateMemoryGetTool;
     createMemorySearchTool: CreateMemorySearchTool;
+    createTeamMemoryWriteTool: CreateTeamMemoryWriteTool;
     registerMemoryCli: RegisterMemoryCli;
   };
   channel: {
@@ -284,8 +299,16 @@ export type PluginRuntime = {
       shouldComputeCommandAuthorized: ShouldComputeCommandAuthorized;
       shouldHandleTextCommands: ShouldHandleTextCommands;
     };
+    collaboration: {
+      registerParticipants: RegisterCollaborationParticipants;
+      getParticipants: GetCollaborationParticipants;
+      trackMention: TrackOutboundMention;
+      markMentionRespondedByIdentity: MarkMentionRespondedByIdentity;
+      checkRateLimit: CheckA2ARateLimit;
+    };
     discord: {
       messageActions: DiscordMessageActions;
+      collaboration: DiscordCollaborationAdapter;
       auditChannelPermissions: AuditDiscordChannelPermissions;
       listDirectoryGroupsLive: ListDiscordDirectoryGroupsLive;
       listDirectoryPeersLive: ListDiscordDirectoryPeersLive;
@@ -305,6 +328,7 @@ export type PluginRuntime = {
       sendMessageSlack: SendMessageSlack;
       monitorSlackProvider: MonitorSlackProvider;
       handleSlackAction: HandleSlackAction;
+      collaboration: SlackCollaborationAdapter;
     };
     telegram: {
       auditGroupMembership: AuditTelegramGroupMembership;
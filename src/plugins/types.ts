@@ -3,6 +3,7 @@ import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { Command } from "commander";
 import type { AuthProfileCredential, OAuthCredential } from "../agents/auth-profiles/types.js";
 import type { AnyAgentTool } from "../agents/tools/common.js";
+import type { TaskStatus } from "../agents/tools/task-file-io.js";
 import type { ReplyPayload } from "../auto-reply/types.js";
 import type { ChannelDock } from "../channels/dock.js";
 import type { ChannelId, ChannelPlugin } from "../channels/plugins/types.js";
@@ -12,6 +13,8 @@ import type { ModelProviderConfig } from "../config/types.js";
 import type { GatewayRequestHandler } from "../gateway/server-methods/types.js";
 import type { InternalHookHandler } from "../hooks/internal-hooks.js";
 import type { HookEntry } from "../hooks/types.js";
+import type { ConversationSink } from "../infra/events/conversation-sink.js";
+import type { EventType } from "../infra/events/schemas.js";
 import type { RuntimeEnv } from "../runtime.js";
 import type { WizardPrompter } from "../wizard/prompts.js";
 import type { PluginRuntime } from "./runtime/types.js";
@@ -125,6 +128,36 @@ export type ProviderPlugin = {
   refreshOAuth?: (cred: OAuthCredential) => Promise<OAuthCredential>;
 };
 
+export type TtsProviderSynthesizeParams = {
+  text: string;
+  config: OpenClawConfig;
+  /** Target channel (e.g. "telegram"), for providers that pick a voice-note format. */
+  channel?: string;
+  /** Scratch directory for output files; removed automatically after delivery. */
+  outputDir: string;
+  timeoutMs: number;
+};
+
+export type TtsProviderSynthesizeResult = {
+  /** Written audio file (inside `outputDir`), or `audioBuffer` + `extension`. */
+  audioPath?: string;
+  audioBuffer?: Buffer;
+  /** File extension for `audioBuffer`, e.g. ".ogg". */
+  extension?: string;
+  outputFormat?: string;
+  /** True when the audio can be sent as a voice note (Opus). */
+  voiceCompatible?: boolean;
+};
+
+export type TtsProviderPlugin = {
+  /** Provider id used in `messages.tts.provider`, `/tts provider` and `[[tts:provider=...]]`. */
+  id: string;
+  label?: string;
+  /** Defaults to true; unconfigured providers are skipped during fallback. */
+  isConfigured?: () => boolean;
+  synthesize: (params: TtsProviderSynthesizeParams) => Promise<TtsProviderSynthesizeResult>;
+};
+
 export type OpenClawPluginGatewayMethod = {
   method: string;
   handler: GatewayRequestHandler;
@@ -274,6 +307,16 @@ export type OpenClawPluginApi = {
    * Use this for simple state-toggling or status commands that don't need AI reasoning.
    */
   registerCommand: (command: OpenClawPluginCommandDefinition) => void;
+  /**
+   * Register a conversation sink that forwards coordination events elsewhere.
+   * Starts with the gateway unless `gateway.conversationSinks` disables its id.
+   */
+  registerConversationSink: (sink: ConversationSink) => void;
+  /**
+   * Register a text-to-speech provider. It joins the built-in fallback chain
+   * and can be selected as `messages.tts.provider`.
+   */
+  registerTtsProvider: (provider: TtsProviderPlugin) => void;
   resolvePath: (input: string) => string;
   /** Register a lifecycle hook handler */
   on: <K extends PluginHookName>(
@@ -320,7 +363,13 @@ export type PluginHookName =
   | "subagent_spawned"
   | "subagent_ended"
   | "gateway_start"
-  | "gateway_stop";
+  | "gateway_stop"
+  | "task_event"
+  | "a2a_event"
+  | "plan_event"
+  | "unblock_event"
+  | "zombie_event"
+  | "before_task_transition";
 
 // Agent context shared across agent hooks
 export type PluginHookAgentContext = {
@@ -654,6 +703,67 @@ export type PluginHookGatewayStopEvent = {
   reason?: string;
 };
 
+// Coordination context (events from the coordination bus)
+export type PluginHookCoordinationContext = {
+  agentId: string;
+};
+
+type PluginHookCoordinationEventOf<Prefix extends string> = {
+  type: Extract<EventType, `${Prefix}.${string}`>;
+  agentId: string;
+  ts: number;
+  data: Record<string, unknown>;
+};
+
+// task_event hook (task.*)
+export type PluginHookTaskEvent = PluginHookCoordinationEventOf<"task">;
+
+// a2a_event hook (a2a.*)
+export type PluginHookA2AEvent = PluginHookCoordinationEventOf<"a2a">;
+
+// plan_event hook (plan.*)
+export type PluginHookPlanEvent = PluginHookCoordinationEventOf<"plan">;
+
+// unblock_event hook (unblock.*)
+export type PluginHookUnblockEvent = PluginHookCoordinationEventOf<"unblock">;
+
+// zombie_event hook (zombie.*)
+export type PluginHookZombieEvent = PluginHookCoordinationEventOf<"zombie">;
+
+// Task context
+export type PluginHookTaskContext = {
+  agentId: string;
+  sessionKey?: string;
+  workspaceDir: string;
+};
+
+export type PluginHookTaskTransitionAction =
+  | "start"
+  | "approve"
+  | "block"
+  | "resume"
+  | "pick_backlog"
+  | "complete"
+  | "cancel"
+  /** The continuation runner moving a stale in-progress task to backlog or interrupted. */
+  | "recover_zombie";
+
+// before_task_transition hook
+export type PluginHookBeforeTaskTransitionEvent = {
+  taskId: string;
+  action: PluginHookTaskTransitionAction;
+  /** Undefined when the task is being created. */
+  from?: TaskStatus;
+  to: TaskStatus;
+  description: string;
+  reason?: string;
+};
+
+export type PluginHookBeforeTaskTransitionResult = {
+  block?: boolean;
+  blockReason?: string;
+};
+
 // Hook handler types mapped by hook name
 export type PluginHookHandlerMap = {
   before_model_resolve: (
@@ -752,6 +862,33 @@ export type PluginHookHandlerMap = {
     event: PluginHookGatewayStopEvent,
     ctx: PluginHookGatewayContext,
   ) => Promise<void> | void;
+  task_event: (
+    event: PluginHookTaskEvent,
+    ctx: PluginHookCoordinationContext,
+  ) => Promise<void> | void;
+  a2a_event: (
+    event: PluginHookA2AEvent,
+    ctx: PluginHookCoordinationContext,
+  ) => Promise<void> | void;
+  plan_event: (
+    event: PluginHookPlanEvent,
+    ctx: PluginHookCoordinationContext,
+  ) => Promise<void> | void;
+  unblock_event: (
+    event: PluginHookUnblockEvent,
+    ctx: PluginHookCoordinationContext,
+  ) => Promise<void> | void;
+  zombie_event: (
+    event: PluginHookZombieEvent,
+    ctx: PluginHookCoordinationContext,
+  ) => Promise<void> | void;
+  before_task_transition: (
+    event: PluginHookBeforeTaskTransitionEvent,
+    ctx: PluginHookTaskContext,
+  ) =>
+    | Promise<PluginHookBeforeTaskTransitionResult | void>
+    | PluginHookBeforeTaskTransitionResult
+    | void;
 };
 
 export type PluginHookRegistration<K extends PluginHookName = PluginHookName> = {
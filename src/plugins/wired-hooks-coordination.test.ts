@@ -0,0 +1,117 @@
+/**
+ * Test: coordination bus hooks, before_task_transition and plugin conversation sinks
+ */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { emit, reset } from "../infra/events/bus.js";
+import {
+  checkTaskTransition,
+  resolveConversationSinkConfigs,
+  startCoordinationHooks,
+} from "./coordination-hooks.js";
+import { initializeGlobalHookRunner } from "./hook-runner-global.js";
+import { createHookRunner } from "./hooks.js";
+import { createMockPluginRegistry } from "./hooks.test-helpers.js";
+import { createPluginRegistry } from "./registry.js";
+import type { PluginRuntime } from "./types.js";
+
+const transition = {
+  taskId: "task_1",
+  action: "complete" as const,
+  from: "in_progress" as const,
+  to: "completed" as const,
+  description: "Ship it",
+};
+const taskCtx = { agentId: "main", workspaceDir: "/workspace/main" };
+
+describe("coordination hooks", () => {
+  afterEach(() => {
+    reset();
+    initializeGlobalHookRunner(createMockPluginRegistry([]));
+  });
+
+  it("forwards bus events to the hook for their prefix", async () => {
+    const taskHandler = vi.fn();
+    const a2aHandler = vi.fn();
+    const zombieHandler = vi.fn();
+    const runner = createHookRunner(
+      createMockPluginRegistry([
+        { hookName: "task_event", handler: taskHandler },
+        { hookName: "a2a_event", handler: a2aHandler },
+        { hookName: "zombie_event", handler: zombieHandler },
+      ]),
+    );
+    const stop = startCoordinationHooks(runner);
+
+    const event = { type: "task.completed", agentId: "main", ts: 1, data: { taskId: "task_1" } };
+    emit(event);
+    emit({ type: "a2a.send", agentId: "main", ts: 2, data: {} });
+    emit({ type: "continuation.sent", agentId: "main", ts: 3, data: {} });
+    stop();
+    emit({ type: "zombie.abandoned", agentId: "main", ts: 4, data: {} });
+
+    await vi.waitFor(() => expect(a2aHandler).toHaveBeenCalledTimes(1));
+    expect(taskHandler).toHaveBeenCalledWith(event, { agentId: "main" });
+    expect(zombieHandler).not.toHaveBeenCalled();
+  });
+
+  it("allows transitions when no plugin blocks them", async () => {
+    expect(await checkTaskTransition(transition, taskCtx)).toEqual({ allowed: true });
+
+    initializeGlobalHookRunner(
+      createMockPluginRegistry([{ hookName: "before_task_transition", handler: () => undefined }]),
+    );
+    expect(await checkTaskTransition(transition, taskCtx)).toEqual({ allowed: true });
+  });
+
+  it("keeps the first block across before_task_transition handlers", async () => {
+    const later = vi.fn(() => ({ block: false }));
+    initializeGlobalHookRunner(
+      createMockPluginRegistry([
+        { hookName: "before_task_transition", handler: () => ({ block: true }) },
+        { hookName: "before_task_transition", handler: later },
+      ]),
+    );
+
+    expect(await checkTaskTransition(transition, taskCtx)).toEqual({
+      allowed: false,
+      reason: "Task task_1 complete (in_progress → completed) was blocked by a plugin",
+    });
+    expect(later).toHaveBeenCalledWith(transition, taskCtx);
+  });
+
+  it("registers plugin conversation sinks once per id", () => {
+    const { registry, createApi } = createPluginRegistry({
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      runtime: {} as PluginRuntime,
+    });
+    const record = {
+      id: "linear",
+      name: "linear",
+      source: "/plugins/linear/index.ts",
+      conversationSinks: [],
+      ttsProviders: [],
+    };
+    const api = createApi(record as never, { config: {} });
+    const sink = { id: "linear", start: () => () => {} };
+
+    api.registerConversationSink(sink);
+    api.registerConversationSink(sink);
+
+    expect(registry.conversationSinks).toEqual([
+      { pluginId: "linear", sink, source: "/plugins/linear/index.ts" },
+    ]);
+    expect(record.conversationSinks).toEqual(["linear"]);
+    expect(registry.diagnostics[0]?.message).toBe(
+      "conversation sink already registered: linear (linear)",
+    );
+  });
+
+  it("enables plugin sinks unless gateway.conversationSinks configures them", () => {
+    const configured = [{ id: "notion", enabled: false, options: {} }];
+
+    expect(resolveConversationSinkConfigs(configured, ["linear", "notion"])).toEqual([
+      { id: "notion", enabled: false, options: {} },
+      { id: "linear", enabled: true, options: {} },
+    ]);
+  });
+});
@@ -1,5 +1,14 @@
 import type { SlackActionMiddlewareArgs } from "@slack/bolt";
 import type { Block, KnownBlock } from "@slack/web-api";
+import {
+  parseSlackApprovalAction,
+  submitApprovalDecision,
+} from "../../../infra/approval-inbox-channels.js";
+import {
+  isApprovalInboxApprover,
+  resolveApprovalInboxConfig,
+  type ApprovalDecision,
+} from "../../../infra/approval-inbox.js";
 import { enqueueSystemEvent } from "../../../infra/system-events.js";
 import { parseSlackModalPrivateMetadata } from "../../modal-metadata.js";
 import { authorizeSlackSystemEventSender } from "../auth.js";
@@ -536,6 +545,54 @@ function registerModalLifecycleHandler(params: {
   });
 }
 
+// Approval inbox buttons decide through the gateway instead of notifying the agent.
+async function handleSlackApprovalAction(params: {
+  ctx: SlackMonitorContext;
+  approvalId: string;
+  decision: ApprovalDecision;
+  userId: string;
+  respond?: SlackActionMiddlewareArgs["respond"];
+}) {
+  const reply = async (text: string, replaceOriginal: boolean) => {
+    if (!params.respond) {
+      return;
+    }
+    try {
+      await params.respond(
+        replaceOriginal
+          ? { text, replace_original: true }
+          : { text, response_type: "ephemeral", replace_original: false },
+      );
+    } catch {
+      // Best-effort feedback only.
+    }
+  };
+  const config = resolveApprovalInboxConfig(params.ctx.cfg);
+  if (
+    !isApprovalInboxApprover(config, {
+      channel: "slack",
+      senderId: params.userId,
+      requireListed: true,
+    })
+  ) {
+    await reply("You are not authorized to decide approvals.", false);
+    return;
+  }
+  const result = await submitApprovalDecision({
+    approvalId: params.approvalId,
+    decision: params.decision,
+    decidedBy: `slack:${params.userId}`,
+  });
+  if (!result.ok) {
+    await reply(`Failed to submit decision: ${result.error}`, false);
+    return;
+  }
+  await reply(
+    `${params.decision === "approve" ? "✅ Approved" : "❌ Rejected"} ${params.approvalId} (<@${params.userId}>)`,
+    true,
+  );
+}
+
 export function registerSlackInteractionEvents(params: { ctx: SlackMonitorContext }) {
   const { ctx } = params;
   if (typeof ctx.app.action !== "function") {
@@ -608,6 +665,15 @@ export function registerSlackInteractionEvents(params: { ctx: SlackMonitorContex
         }
         return;
       }
+      const approvalAction = parseSlackApprovalAction(
+        actionId,
+        (typedAction as { value?: unknown }).value,
+      );
+      if (approvalAction) {
+        await handleSlackApprovalAction({ ctx, ...approvalAction, userId, respond });
+        return;
+      }
+
       const actionSummary = summarizeAction(typedAction);
       const eventPayload: InteractionSummary = {
         interactionType: "block_action",
@@ -14,6 +14,19 @@ import type { SlackMonitorContext } from "../context.js";
 import { createSlackMonitorContext } from "../context.js";
 import { prepareSlackMessage } from "./prepare.js";
 
+const collaborationMocks = vi.hoisted(() => ({
+  getCollaborationParticipants: vi.fn(async (): Promise<string[]> => []),
+  markMentionRespondedByIdentity: vi.fn(async () => 0),
+}));
+
+vi.mock("../../../channels/plugins/collaboration/participants.js", () => ({
+  getCollaborationParticipants: collaborationMocks.getCollaborationParticipants,
+}));
+
+vi.mock("../../../discord/a2a-retry/index.js", () => ({
+  markMentionRespondedByIdentity: collaborationMocks.markMentionRespondedByIdentity,
+}));
+
 describe("slack prepareSlackMessage inbound contract", () => {
   let fixtureRoot = "";
   let caseId = 0;
@@ -716,4 +729,67 @@ describe("prepareSlackMessage sender prefix", () => {
     expect(result).not.toBeNull();
     expect(result?.ctxPayload.CommandAuthorized).toBe(true);
   });
+
+  it("lets collaboration participants answer each other in the thread without a mention", async () => {
+    collaborationMocks.getCollaborationParticipants.mockResolvedValueOnce(["BOT", "B2"]);
+    const ctx = createSenderPrefixCtx({
+      channels: {},
+      slashCommand: { command: "/openclaw", enabled: true },
+    });
+
+    const result = await prepareSlackMessage({
+      ctx,
+      account: { accountId: "default", config: {} } as never,
+      message: {
+        type: "message",
+        channel: "C1",
+        channel_type: "channel",
+        text: "done, see the PR",
+        user: "B2",
+        bot_id: "BB2",
+        ts: "1700000000.0003",
+        thread_ts: "1700000000.0001",
+      } as never,
+      opts: { source: "message" },
+    });
+
+    expect(result).not.toBeNull();
+    expect(result?.ctxPayload.WasMentioned).toBe(true);
+    expect(collaborationMocks.getCollaborationParticipants).toHaveBeenCalledWith({
+      channel: "slack",
+      channelId: "C1",
+      threadId: "1700000000.0001",
+    });
+    expect(collaborationMocks.markMentionRespondedByIdentity).toHaveBeenCalledWith(
+      "1700000000.0001",
+      "B2",
+      { beforeTimestamp: 1700000000000 },
+    );
+  });
+
+  it("keeps dropping bot messages from outside the collaboration thread", async () => {
+    collaborationMocks.getCollaborationParticipants.mockResolvedValueOnce(["BOT", "B2"]);
+    const ctx = createSenderPrefixCtx({
+      channels: {},
+      slashCommand: { command: "/openclaw", enabled: true },
+    });
+
+    const result = await prepareSlackMessage({
+      ctx,
+      account: { accountId: "default", config: {} } as never,
+      message: {
+        type: "message",
+        channel: "C1",
+        channel_type: "channel",
+        text: "<@BOT> hello",
+        user: "B3",
+        bot_id: "BB3",
+        ts: "1700000000.0004",
+        thread_ts: "1700000000.0001",
+      } as never,
+      opts: { source: "message", wasMentioned: true },
+    });
+
+    expect(result).toBeNull();
+  });
 });
@@ -23,8 +23,11 @@ import { resolveControlCommandGate } from "../../../channels/command-gating.js";
 import { resolveConversationLabel } from "../../../channels/conversation-label.js";
 import { logInboundDrop } from "../../../channels/logging.js";
 import { resolveMentionGatingWithBypass } from "../../../channels/mention-gating.js";
+import { getCollaborationParticipants } from "../../../channels/plugins/collaboration/participants.js";
 import { recordInboundSession } from "../../../channels/session.js";
 import { readSessionUpdatedAt, resolveStorePath } from "../../../config/sessions.js";
+import { markMentionRespondedByIdentity } from "../../../discord/a2a-retry/index.js";
+import { checkA2ARateLimit } from "../../../discord/loop-guard.js";
 import { logVerbose, shouldLogVerbose } from "../../../globals.js";
 import { enqueueSystemEvent } from "../../../infra/system-events.js";
 import { resolveAgentRoute } from "../../../routing/resolve-route.js";
@@ -92,12 +95,54 @@ export async function prepareSlackMessage(params: {
     cfg.channels?.slack?.allowBots ??
     false;
 
+  // Bots registered in a collaboration thread answer each other there without
+  // allowBots and without a fresh mention (see collaborate-tool).
+  const collaborationParticipants =
+    isRoom && message.thread_ts
+      ? await getCollaborationParticipants({
+          channel: "slack",
+          channelId: message.channel,
+          threadId: message.thread_ts,
+        }).catch((err) => {
+          logVerbose(`slack: collaboration participant lookup failed: ${String(err)}`);
+          return [];
+        })
+      : [];
+  const isCollaborationParticipant = Boolean(
+    ctx.botUserId && collaborationParticipants.includes(ctx.botUserId),
+  );
+
   const isBotMessage = Boolean(message.bot_id);
   if (isBotMessage) {
     if (message.user && ctx.botUserId && message.user === ctx.botUserId) {
       return null;
     }
-    if (!allowBots) {
+    const collaborationPeer = Boolean(
+      isCollaborationParticipant &&
+      message.user &&
+      collaborationParticipants.includes(message.user),
+    );
+    if (collaborationPeer && message.user && message.thread_ts) {
+      // Rate-limit agent-to-agent messages to prevent infinite ping-pong loops
+      const blocked = checkA2ARateLimit(message.user, ctx.botUserId, {
+        maxMessagesPerWindow: 6,
+        windowMs: 60_000,
+      });
+      if (blocked) {
+        logVerbose(
+          `slack: drop collaboration bot message (A2A rate limit exceeded: ${message.user} <-> ${ctx.botUserId})`,
+        );
+        return null;
+      }
+      // Only mentions sent before this reply count as answered (FIFO).
+      const messageTs = message.ts ? Math.round(Number(message.ts) * 1000) : undefined;
+      markMentionRespondedByIdentity(message.thread_ts, message.user, {
+        beforeTimestamp: messageTs,
+      }).catch((err) => {
+        logVerbose(`slack: a2a-retry mark responded failed: ${String(err)}`);
+      });
+    }
+    if (!allowBots && !collaborationPeer) {
       logVerbose(`slack: drop bot message ${message.bot_id ?? "unknown"} (allowBots=false)`);
       return null;
     }
@@ -208,7 +253,7 @@ export async function prepareSlackMessage(params: {
     !isDirectMessage &&
     ctx.botUserId &&
     message.thread_ts &&
-    message.parent_user_id === ctx.botUserId,
+    (message.parent_user_id === ctx.botUserId || isCollaborationParticipant),
   );
 
   const sender = message.user ? await ctx.resolveUserName(message.user) : null;
@@ -0,0 +1,132 @@
+/**
+ * A2A conversation threads for the task monitor.
+ *
+ * Groups a2a.* coordination events by conversationId into one thread per
+ * conversation with the classified intent, how many ping-pong turns ran (and
+ * the configured maximum) and the outcome once the conversation closed.
+ */
+
+import {
+  coordinationEventTimestampMs,
+  type CollaborationCategory,
+  type EnrichedCoordinationEvent,
+} from "./event-classification.js";
+
+export type A2AConversationStatus = "open" | "closed";
+
+export type A2AConversationSummary = {
+  conversationId: string;
+  fromAgent: string;
+  toAgent: string;
+  intent?: string;
+  intentSource?: string;
+  taskId?: string;
+  workSessionId?: string;
+  /** Ping-pong turns that ran after the first reply. */
+  turns: number;
+  maxTurns?: number;
+  messageCount: number;
+  status: A2AConversationStatus;
+  /** "completed", "failed", "cancelled", ... once the conversation closed. */
+  outcome?: string;
+  error?: string;
+  collabCategory: CollaborationCategory;
+  startTime: number;
+  lastTime: number;
+  events: EnrichedCoordinationEvent[];
+};
+
+function readString(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function readCount(data: Record<string, unknown>, key: string): number | undefined {
+  const value = data[key];
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.floor(value)
+    : undefined;
+}
+
+function summarize(
+  conversationId: string,
+  events: EnrichedCoordinationEvent[],
+): A2AConversationSummary {
+  const send = events.find((event) => event.type === "a2a.send") ?? events[0];
+  let turns = 0;
+  let responses = 0;
+  let messageCount = 0;
+  let outcome: string | undefined;
+  let error: string | undefined;
+  for (const event of events) {
+    if (readString(event.data, "message")) {
+      messageCount++;
+    }
+    if (event.type === "a2a.response") {
+      responses++;
+    }
+    turns = Math.max(
+      turns,
+      readCount(event.data, "turn") ?? 0,
+      readCount(event.data, "currentTurn") ?? 0,
+    );
+    if (event.type === "a2a.complete") {
+      outcome = readString(event.data, "outcome") ?? "completed";
+      error = readString(event.data, "error");
+    } else if (event.type === "a2a.job_cancelled") {
+      outcome = "cancelled";
+      error = readString(event.data, "reason");
+    } else if (event.type === "a2a.job_retried" || event.type === "a2a.job_resumed") {
+      // A retried or resumed job reopens the conversation.
+      outcome = undefined;
+      error = undefined;
+    }
+  }
+  const pick = (key: string) =>
+    readString(send.data, key) ?? events.map((event) => readString(event.data, key)).find(Boolean);
+  return {
+    conversationId,
+    fromAgent: pick("fromAgent") ?? "",
+    toAgent: pick("toAgent") ?? "",
+    intent: readString(send.data, "intent"),
+    intentSource: readString(send.data, "intentSource"),
+    taskId: pick("taskId"),
+    workSessionId: pick("workSessionId"),
+    // Every response after the first reply is one ping-pong turn.
+    turns: Math.max(turns, responses - 1, 0),
+    maxTurns: readCount(send.data, "maxPingPongTurns"),
+    messageCount,
+    status: outcome ? "closed" : "open",
+    outcome,
+    error,
+    collabCategory: send.collabCategory,
+    startTime: coordinationEventTimestampMs(events[0]),
+    lastTime: coordinationEventTimestampMs(events[events.length - 1]),
+    events,
+  };
+}
+
+/** One summary per conversationId, most recently active first. */
+export function buildA2AConversations(
+  events: EnrichedCoordinationEvent[],
+): A2AConversationSummary[] {
+  const byConversation = new Map<string, EnrichedCoordinationEvent[]>();
+  for (const event of events) {
+    if (!event.type.startsWith("a2a.")) {
+      continue;
+    }
+    const conversationId = readString(event.data, "conversationId");
+    if (!conversationId) {
+      continue;
+    }
+    const list = byConversation.get(conversationId) ?? [];
+    list.push(event);
+    byConversation.set(conversationId, list);
+  }
+  return Array.from(byConversation, ([conversationId, list]) =>
+    summarize(
+      conversationId,
+      list.toSorted((a, b) => coordinationEventTimestampMs(a) - coordinationEventTimestampMs(b)),
+    ),
+  ).toSorted((a, b) => b.lastTime - a.lastTime);
+}
@@ -0,0 +1,918 @@
+/**
+ * Coordination event classification and work-session aggregation.
+ *
+ * Enriches raw coordination events with a role (main conversation, subagent
+ * delegation, task orchestration, observability) and a collaboration category,
+ * then groups them into work sessions and conversation threads. Used by the
+ * gateway task monitor routes.
+ */
+
+import fs from "node:fs/promises";
+
+export type EventRole =
+  | "conversation.main"
+  | "delegation.subagent"
+  | "orchestration.task"
+  | "system.observability";
+
+export type SessionType = "main" | "subagent" | "unknown";
+
+export type CollaborationCategory =
+  | "engineering_build"
+  | "infra_ops"
+  | "qa_validation"
+  | "planning_decision"
+  | "research_analysis"
+  | "docs_knowledge"
+  | "growth_marketing"
+  | "customer_community"
+  | "legal_compliance"
+  | "biz_strategy";
+
+export const COLLABORATION_CATEGORIES: CollaborationCategory[] = [
+  "engineering_build",
+  "infra_ops",
+  "qa_validation",
+  "planning_decision",
+  "research_analysis",
+  "docs_knowledge",
+  "growth_marketing",
+  "customer_community",
+  "legal_compliance",
+  "biz_strategy",
+];
+
+export type EnrichedCoordinationEvent = Record<string, unknown> & {
+  type: string;
+  data: Record<string, unknown>;
+  eventRole: EventRole;
+  fromSessionType: SessionType;
+  toSessionType: SessionType;
+  collabCategory: CollaborationCategory;
+  collabSubTags: string[];
+  categoryConfidence: number;
+  categorySource: "manual" | "rule" | "heuristic" | "fallback";
+};
+
+export type WorkSessionStatus = "ACTIVE" | "QUIET" | "ARCHIVED";
+
+export type WorkSessionCategoryOverride = {
+  collabCategory: CollaborationCategory;
+  updatedAt: string;
+  updatedBy?: string;
+};
+
+export type WorkSessionCategoryOverrideMap = Record<string, WorkSessionCategoryOverride>;
+
+export type WorkSessionThreadSummary = {
+  id: string;
+  conversationId?: string;
+  fromAgent: string;
+  toAgent: string;
+  startTime: number;
+  lastTime: number;
+  eventCount: number;
+  collabCategory: CollaborationCategory;
+  collabSubTags: string[];
+  events: EnrichedCoordinationEvent[];
+};
+
+export type WorkSessionSummary = {
+  id: string;
+  workSessionId: string;
+  status: WorkSessionStatus;
+  startTime: number;
+  lastTime: number;
+  durationMs: number;
+  threadCount: number;
+  eventCount: number;
+  collabCategory: CollaborationCategory;
+  collabSubTags: string[];
+  categorySource: "manual_override" | "event";
+  roleCounts: Record<EventRole, number>;
+  threads: WorkSessionThreadSummary[];
+};
+
+const WORK_SESSION_ARCHIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const WORK_SESSION_CATEGORY_OVERRIDES_FILENAME = "work-session-category-overrides.json";
+
+/** Used when the config cannot be read; matches resolveMainAgentIdsFromConfig's built-ins. */
+export const DEFAULT_MAIN_AGENT_IDS: ReadonlySet<string> = new Set(["main", "ruda"]);
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed || undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function asCollaborationCategory(value: unknown): CollaborationCategory | undefined {
+  const candidate = asString(value);
+  if (!candidate) {
+    return undefined;
+  }
+  return COLLABORATION_CATEGORIES.includes(candidate as CollaborationCategory)
+    ? (candidate as CollaborationCategory)
+    : undefined;
+}
+
+function normalizeAgentId(value: string | undefined): string | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return normalized || undefined;
+}
+
+export function resolveMainAgentIdsFromConfig(parsed: unknown): Set<string> {
+  const record = asRecord(parsed);
+  const agents = asRecord(record.agents);
+  const ids = new Set<string>();
+
+  // Preferred schema: agents.list: [{ id: "..." }]
+  const list = Array.isArray(agents.list) ? agents.list : [];
+  for (const entry of list) {
+    const id = normalizeAgentId(asString(asRecord(entry).id));
+    if (id) {
+      ids.add(id);
+    }
+  }
+
+  // Backward compatibility for map-like agents objects.
+  for (const [key, value] of Object.entries(agents)) {
+    if (key === "list" || key === "defaults") {
+      continue;
+    }
+    const valueRecord = asRecord(value);
+    const explicitId = normalizeAgentId(asString(valueRecord.id));
+    if (explicitId) {
+      ids.add(explicitId);
+      continue;
+    }
+    if (Object.keys(valueRecord).length > 0) {
+      const keyAsId = normalizeAgentId(key);
+      if (keyAsId) {
+        ids.add(keyAsId);
+      }
+    }
+  }
+
+  ids.add("main");
+  ids.add("ruda");
+  return ids;
+}
+
+function isMainAgentId(agentId: string | undefined, mainAgents: ReadonlySet<string>): boolean {
+  const normalized = normalizeAgentId(agentId);
+  return !!(normalized && mainAgents.has(normalized));
+}
+
+function sessionTypeFromSessionKey(sessionKey: string | undefined): SessionType {
+  if (!sessionKey) {
+    return "unknown";
+  }
+  if (sessionKey.includes(":subagent:")) {
+    return "subagent";
+  }
+  if (/^agent:[^:]+:main$/i.test(sessionKey)) {
+    return "main";
+  }
+  return "unknown";
+}
+
+function orchestrationType(type: string): boolean {
+  return (
+    type.startsWith("task.") ||
+    type.startsWith("continuation.") ||
+    type.startsWith("plan.") ||
+    type.startsWith("unblock.") ||
+    type.startsWith("zombie.") ||
+    type.startsWith("resume_reminder.") ||
+    type.startsWith("backlog.")
+  );
+}
+
+function deriveSessionTypes(params: {
+  eventType: string;
+  data: Record<string, unknown>;
+  fromAgent?: string;
+  toAgent?: string;
+  mainAgents: ReadonlySet<string>;
+}): { fromSessionType: SessionType; toSessionType: SessionType } {
+  const explicitFrom = asString(params.data.fromSessionType);
+  const explicitTo = asString(params.data.toSessionType);
+
+  if (
+    (explicitFrom === "main" || explicitFrom === "subagent" || explicitFrom === "unknown") &&
+    (explicitTo === "main" || explicitTo === "subagent" || explicitTo === "unknown")
+  ) {
+    return {
+      fromSessionType: explicitFrom as SessionType,
+      toSessionType: explicitTo as SessionType,
+    };
+  }
+
+  const targetSessionKey = asString(params.data.targetSessionKey);
+  const sourceSessionKey =
+    asString(params.data.sourceSessionKey) ||
+    asString(params.data.requesterSessionKey) ||
+    asString(params.data.sessionKey);
+
+  let fromSessionType = sessionTypeFromSessionKey(sourceSessionKey);
+  let toSessionType = sessionTypeFromSessionKey(targetSessionKey);
+
+  if (params.eventType === "a2a.spawn" || params.eventType === "a2a.spawn_result") {
+    fromSessionType = "main";
+    toSessionType = "subagent";
+  }
+
+  const hasDelegationHint =
+    asString(params.data.parentConversationId) !== undefined ||
+    asNumber(params.data.depth) !== undefined ||
+    asNumber(params.data.hop) !== undefined;
+
+  if (fromSessionType === "unknown") {
+    if (isMainAgentId(params.fromAgent, params.mainAgents)) {
+      fromSessionType = "main";
+    } else if (hasDelegationHint && isMainAgentId(params.toAgent, params.mainAgents)) {
+      fromSessionType = "subagent";
+    }
+  }
+
+  if (toSessionType === "unknown") {
+    if (isMainAgentId(params.toAgent, params.mainAgents)) {
+      toSessionType = "main";
+    } else if (hasDelegationHint && isMainAgentId(params.fromAgent, params.mainAgents)) {
+      toSessionType = "subagent";
+    }
+  }
+
+  return { fromSessionType, toSessionType };
+}
+
+function deriveEventRole(params: {
+  eventType: string;
+  data: Record<string, unknown>;
+  fromAgent?: string;
+  toAgent?: string;
+  fromSessionType: SessionType;
+  toSessionType: SessionType;
+  mainAgents: ReadonlySet<string>;
+}): EventRole {
+  const explicit = asString(params.data.eventRole);
+  if (
+    explicit === "conversation.main" ||
+    explicit === "delegation.subagent" ||
+    explicit === "orchestration.task" ||
+    explicit === "system.observability"
+  ) {
+    return explicit;
+  }
+
+  if (orchestrationType(params.eventType)) {
+    return "orchestration.task";
+  }
+
+  if (params.eventType === "milestone.sync_failed") {
+    return "system.observability";
+  }
+
+  if (params.eventType.startsWith("a2a.")) {
+    const delegationHint =
+      params.eventType === "a2a.spawn" ||
+      params.eventType === "a2a.spawn_result" ||
+      asString(params.data.parentConversationId) !== undefined ||
+      asNumber(params.data.depth) !== undefined ||
+      asNumber(params.data.hop) !== undefined ||
+      params.fromSessionType === "subagent" ||
+      params.toSessionType === "subagent";
+
+    if (delegationHint) {
+      return "delegation.subagent";
+    }
+
+    const bothMain = params.fromSessionType === "main" && params.toSessionType === "main";
+
+    return bothMain ? "conversation.main" : "delegation.subagent";
+  }
+
+  return "system.observability";
+}
+
+const CATEGORY_KEYWORDS: Record<CollaborationCategory, string[]> = {
+  engineering_build: [
+    "implement",
+    "implementation",
+    "build",
+    "feature",
+    "refactor",
+    "bugfix",
+    "fix",
+    "코드",
+    "구현",
+    "개발",
+    "리팩토링",
+    "버그",
+  ],
+  infra_ops: [
+    "deploy",
+    "deployment",
+    "infra",
+    "infrastructure",
+    "docker",
+    "k8s",
+    "ops",
+    "incident",
+    "운영",
+    "인프라",
+    "배포",
+    "장애",
+    "서버",
+  ],
+  qa_validation: [
+    "test",
+    "testing",
+    "qa",
+    "validation",
+    "verify",
+    "e2e",
+    "회귀",
+    "검증",
+    "테스트",
+    "품질",
+  ],
+  planning_decision: [
+    "plan",
+    "planning",
+    "decision",
+    "design",
+    "architecture",
+    "scope",
+    "우선순위",
+    "설계",
+    "기획",
+    "의사결정",
+    "정책",
+  ],
+  research_analysis: [
+    "research",
+    "analysis",
+    "investigate",
+    "compare",
+    "benchmark",
+    "root cause",
+    "분석",
+    "조사",
+    "리서치",
+    "원인",
+    "비교",
+  ],
+  docs_knowledge: [
+    "doc",
+    "docs",
+    "documentation",
+    "guide",
+    "readme",
+    "wiki",
+    "문서",
+    "가이드",
+    "정리",
+    "기록",
+  ],
+  growth_marketing: [
+    "campaign",
+    "marketing",
+    "growth",
+    "experiment",
+    "copy",
+    "funnel",
+    "마케팅",
+    "성장",
+    "캠페인",
+    "전환",
+  ],
+  customer_community: [
+    "customer",
+    "community",
+    "support",
+    "ticket",
+    "feedback",
+    "cs",
+    "고객",
+    "커뮤니티",
+    "문의",
+    "피드백",
+  ],
+  legal_compliance: [
+    "legal",
+    "compliance",
+    "policy",
+    "terms",
+    "regulation",
+    "contract",
+    "법무",
+    "컴플라이언스",
+    "약관",
+    "규정",
+    "계약",
+  ],
+  biz_strategy: [
+    "kpi",
+    "revenue",
+    "strategy",
+    "business",
+    "roadmap",
+    "roi",
+    "비즈니스",
+    "전략",
+    "지표",
+    "매출",
+  ],
+};
+
+function eventTextCandidates(eventType: string, data: Record<string, unknown>): string[] {
+  const candidates: string[] = [eventType];
+  const keys = [
+    "label",
+    "message",
+    "replyPreview",
+    "description",
+    "summary",
+    "reason",
+    "title",
+    "taskId",
+    "workSessionId",
+    "collabIntent",
+  ];
+  for (const key of keys) {
+    const value = asString(data[key]);
+    if (value) {
+      candidates.push(value);
+    }
+  }
+  return candidates;
+}
+
+function fallbackCategoryByRole(role: EventRole): CollaborationCategory {
+  if (role === "orchestration.task") {
+    return "planning_decision";
+  }
+  if (role === "system.observability") {
+    return "infra_ops";
+  }
+  return "engineering_build";
+}
+
+function classifyCollaborationCategory(params: {
+  role: EventRole;
+  eventType: string;
+  data: Record<string, unknown>;
+}): {
+  collabCategory: CollaborationCategory;
+  collabSubTags: string[];
+  categoryConfidence: number;
+  categorySource: "manual" | "rule" | "heuristic" | "fallback";
+  collabIntent?: string;
+} {
+  const explicit = asString(params.data.collabCategory);
+  if (explicit && COLLABORATION_CATEGORIES.includes(explicit as CollaborationCategory)) {
+    const explicitSubTags = Array.isArray(params.data.collabSubTags)
+      ? (params.data.collabSubTags as unknown[])
+          .map((value) => asString(value))
+          .filter((value): value is string => !!value)
+          .slice(0, 5)
+      : [];
+    return {
+      collabCategory: explicit as CollaborationCategory,
+      collabSubTags: explicitSubTags,
+      categoryConfidence: 1,
+      categorySource: "manual",
+      collabIntent: asString(params.data.collabIntent),
+    };
+  }
+
+  const haystack = eventTextCandidates(params.eventType, params.data).join("\n").toLowerCase();
+  const scores = new Map<CollaborationCategory, { score: number; hits: string[] }>();
+
+  for (const category of COLLABORATION_CATEGORIES) {
+    const hits: string[] = [];
+    let score = 0;
+    for (const keyword of CATEGORY_KEYWORDS[category]) {
+      if (haystack.includes(keyword.toLowerCase())) {
+        hits.push(keyword);
+        score += keyword.length > 4 ? 2 : 1;
+      }
+    }
+    scores.set(category, { score, hits });
+  }
+
+  const ranked = [...scores.entries()].toSorted((a, b) => b[1].score - a[1].score);
+  const [topCategory, topScoreEntry] = ranked[0];
+  const secondScore = ranked[1]?.[1]?.score ?? 0;
+
+  if (topScoreEntry.score > 0) {
+    const gap = Math.max(0, topScoreEntry.score - secondScore);
+    const confidence = Math.min(0.95, 0.5 + topScoreEntry.score * 0.08 + gap * 0.05);
+    return {
+      collabCategory: topCategory,
+      collabSubTags: topScoreEntry.hits.slice(0, 3),
+      categoryConfidence: Number(confidence.toFixed(2)),
+      categorySource: "rule",
+      collabIntent: asString(params.data.collabIntent),
+    };
+  }
+
+  return {
+    collabCategory: fallbackCategoryByRole(params.role),
+    collabSubTags: [],
+    categoryConfidence: 0.2,
+    categorySource: "fallback",
+    collabIntent: asString(params.data.collabIntent),
+  };
+}
+
+export function enrichCoordinationEvent(
+  rawEvent: unknown,
+  mainAgents: ReadonlySet<string> = DEFAULT_MAIN_AGENT_IDS,
+): EnrichedCoordinationEvent | null {
+  const record = asRecord(rawEvent);
+  const type = asString(record.type);
+  if (!type) {
+    return null;
+  }
+
+  const data = asRecord(record.data);
+  const fromAgent =
+    asString(data.fromAgent) || asString(data.senderAgentId) || asString(record.agentId);
+  const toAgent = asString(data.toAgent) || asString(data.targetAgentId);
+
+  const { fromSessionType, toSessionType } = deriveSessionTypes({
+    eventType: type,
+    data,
+    fromAgent,
+    toAgent,
+    mainAgents,
+  });
+
+  const eventRole = deriveEventRole({
+    eventType: type,
+    data,
+    fromAgent,
+    toAgent,
+    fromSessionType,
+    toSessionType,
+    mainAgents,
+  });
+
+  const category = classifyCollaborationCategory({ role: eventRole, eventType: type, data });
+
+  const enrichedData: Record<string, unknown> = {
+    ...data,
+    eventRole,
+    fromSessionType,
+    toSessionType,
+    collabCategory: category.collabCategory,
+    collabSubTags: category.collabSubTags,
+    collabIntent: category.collabIntent,
+    categoryConfidence: category.categoryConfidence,
+    categorySource: category.categorySource,
+    categoryVersion: asString(data.categoryVersion) || "v1",
+  };
+
+  return {
+    ...record,
+    type,
+    data: enrichedData,
+    eventRole,
+    fromSessionType,
+    toSessionType,
+    collabCategory: category.collabCategory,
+    collabSubTags: category.collabSubTags,
+    categoryConfidence: category.categoryConfidence,
+    categorySource: category.categorySource,
+  };
+}
+
+export function coordinationEventTimestampMs(event: Record<string, unknown>): number {
+  const numericTs = asNumber(event.timestampMs) || asNumber(event.ts);
+  if (numericTs) {
+    return numericTs;
+  }
+  const isoTs = asString(event.timestamp);
+  return isoTs ? new Date(isoTs).getTime() || 0 : 0;
+}
+
+export function eventRoleFromValue(value: unknown): EventRole | null {
+  return value === "conversation.main" ||
+    value === "delegation.subagent" ||
+    value === "orchestration.task" ||
+    value === "system.observability"
+    ? value
+    : null;
+}
+
+function normalizeRoleFilters(value: Iterable<EventRole> | undefined): Set<EventRole> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const allowed = new Set<EventRole>();
+  for (const role of value) {
+    const normalized = eventRoleFromValue(role);
+    if (normalized) {
+      allowed.add(normalized);
+    }
+  }
+  return allowed.size > 0 ? allowed : undefined;
+}
+
+export function normalizeEventTypeFilters(
+  value: Iterable<string> | undefined,
+): Set<string> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const allowed = new Set<string>();
+  for (const item of value) {
+    const normalized = asString(item);
+    if (normalized) {
+      allowed.add(normalized);
+    }
+  }
+  return allowed.size > 0 ? allowed : undefined;
+}
+
+function workSessionThreadKey(event: EnrichedCoordinationEvent, eventTs: number): string {
+  const data = asRecord(event.data);
+  const conversationId = asString(data.conversationId);
+  if (conversationId) {
+    return `conv:${conversationId}`;
+  }
+
+  const fromAgent =
+    asString(data.fromAgent) ||
+    asString(data.senderAgentId) ||
+    asString(event.agentId) ||
+    "unknown";
+  const toAgent = asString(data.toAgent) || asString(data.targetAgentId) || "unknown";
+  const pair = [fromAgent, toAgent].toSorted().join("_");
+  if (pair !== "unknown_unknown") {
+    return `pair:${pair}`;
+  }
+
+  // Fallback bucket for malformed legacy events that have neither pair nor conversationId.
+  return `event:${event.type}:${Math.floor(eventTs / (5 * 60 * 1000))}`;
+}
+
+function isTerminalWorkSessionEvent(event: EnrichedCoordinationEvent): boolean {
+  if (event.type === "a2a.complete") {
+    return true;
+  }
+
+  if (event.type === "a2a.spawn_result") {
+    const status = asString(asRecord(event.data).status);
+    if (status === "error") {
+      return true;
+    }
+  }
+
+  if (event.type === "continuation.complete" || event.type === "continuation.completed") {
+    return true;
+  }
+
+  if (event.type.startsWith("task.")) {
+    const status =
+      asString(asRecord(event.data).status) ||
+      asString(event.status) ||
+      asString(asRecord(event).status);
+    if (
+      status === "completed" ||
+      status === "cancelled" ||
+      status === "abandoned" ||
+      status === "failed"
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export type BuildWorkSessionsOptions = {
+  nowMs?: number;
+  categoryOverrides?: WorkSessionCategoryOverrideMap;
+  roleFilters?: Iterable<EventRole>;
+  eventTypeFilters?: Iterable<string>;
+};
+
+export function buildWorkSessionsFromEvents(
+  events: EnrichedCoordinationEvent[],
+  options: BuildWorkSessionsOptions = {},
+): WorkSessionSummary[] {
+  const nowMs = options.nowMs ?? Date.now();
+  const allowedRoles = normalizeRoleFilters(options.roleFilters);
+  const allowedEventTypes = normalizeEventTypeFilters(options.eventTypeFilters);
+
+  const workSessions = new Map<
+    string,
+    {
+      workSessionId: string;
+      startTime: number;
+      lastTime: number;
+      eventCount: number;
+      collabCategory: CollaborationCategory;
+      collabSubTags: string[];
+      latestEvent: EnrichedCoordinationEvent | null;
+      roleCounts: Record<EventRole, number>;
+      threads: Map<string, WorkSessionThreadSummary>;
+    }
+  >();
+
+  const sortedEvents = [...events].toSorted(
+    (a, b) => coordinationEventTimestampMs(a) - coordinationEventTimestampMs(b),
+  );
+
+  for (const event of sortedEvents) {
+    if (allowedEventTypes && !allowedEventTypes.has(event.type)) {
+      continue;
+    }
+    const data = asRecord(event.data);
+    const role = eventRoleFromValue(event.eventRole) || eventRoleFromValue(data.eventRole);
+    if (allowedRoles && (!role || !allowedRoles.has(role))) {
+      continue;
+    }
+    const workSessionId = asString(data.workSessionId);
+    if (!workSessionId) {
+      continue;
+    }
+
+    const eventTs = coordinationEventTimestampMs(event);
+    const eventCategory =
+      asCollaborationCategory(event.collabCategory) ||
+      asCollaborationCategory(data.collabCategory) ||
+      "engineering_build";
+    const eventSubTagsRaw =
+      (Array.isArray(event.collabSubTags) ? event.collabSubTags : undefined) ||
+      (Array.isArray(data.collabSubTags) ? data.collabSubTags : undefined) ||
+      [];
+    const eventSubTags = eventSubTagsRaw
+      .map((value) => asString(value))
+      .filter((value): value is string => !!value)
+      .slice(0, 5);
+
+    if (!workSessions.has(workSessionId)) {
+      workSessions.set(workSessionId, {
+        workSessionId,
+        startTime: eventTs,
+        lastTime: eventTs,
+        eventCount: 0,
+        collabCategory: eventCategory,
+        collabSubTags: [...eventSubTags],
+        latestEvent: event,
+        roleCounts: {
+          "conversation.main": 0,
+          "delegation.subagent": 0,
+          "orchestration.task": 0,
+          "system.observability": 0,
+        },
+        threads: new Map<string, WorkSessionThreadSummary>(),
+      });
+    }
+
+    const aggregate = workSessions.get(workSessionId)!;
+    aggregate.startTime = Math.min(aggregate.startTime, eventTs);
+    aggregate.lastTime = Math.max(aggregate.lastTime, eventTs);
+    aggregate.eventCount += 1;
+
+    if (
+      !aggregate.latestEvent ||
+      coordinationEventTimestampMs(aggregate.latestEvent) <= coordinationEventTimestampMs(event)
+    ) {
+      aggregate.latestEvent = event;
+    }
+
+    if (aggregate.collabCategory === "engineering_build" && eventCategory !== "engineering_build") {
+      aggregate.collabCategory = eventCategory;
+    }
+    if (aggregate.collabSubTags.length === 0 && eventSubTags.length > 0) {
+      aggregate.collabSubTags = [...eventSubTags];
+    }
+
+    if (role) {
+      aggregate.roleCounts[role] += 1;
+    }
+
+    const threadId = workSessionThreadKey(event, eventTs);
+    if (!aggregate.threads.has(threadId)) {
+      const fromAgent =
+        asString(data.fromAgent) ||
+        asString(data.senderAgentId) ||
+        asString(event.agentId) ||
+        "unknown";
+      const toAgent = asString(data.toAgent) || asString(data.targetAgentId) || "unknown";
+      aggregate.threads.set(threadId, {
+        id: threadId,
+        conversationId: asString(data.conversationId),
+        fromAgent,
+        toAgent,
+        startTime: eventTs,
+        lastTime: eventTs,
+        eventCount: 0,
+        collabCategory: eventCategory,
+        collabSubTags: [...eventSubTags],
+        events: [],
+      });
+    }
+
+    const thread = aggregate.threads.get(threadId)!;
+    thread.startTime = Math.min(thread.startTime, eventTs);
+    thread.lastTime = Math.max(thread.lastTime, eventTs);
+    thread.eventCount += 1;
+    if (!thread.conversationId) {
+      thread.conversationId = asString(data.conversationId);
+    }
+    if (thread.collabCategory === "engineering_build" && eventCategory !== "engineering_build") {
+      thread.collabCategory = eventCategory;
+    }
+    if (thread.collabSubTags.length === 0 && eventSubTags.length > 0) {
+      thread.collabSubTags = [...eventSubTags];
+    }
+    thread.events.push(event);
+  }
+
+  const summaries: WorkSessionSummary[] = [];
+
+  for (const aggregate of workSessions.values()) {
+    const override = options.categoryOverrides?.[aggregate.workSessionId];
+    const inactiveMs = nowMs - aggregate.lastTime;
+
+    let status: WorkSessionStatus;
+    if (inactiveMs > WORK_SESSION_ARCHIVE_WINDOW_MS) {
+      status = "ARCHIVED";
+    } else if (aggregate.latestEvent && isTerminalWorkSessionEvent(aggregate.latestEvent)) {
+      status = "QUIET";
+    } else {
+      status = "ACTIVE";
+    }
+
+    const threads = [...aggregate.threads.values()]
+      .map((thread) => ({
+        ...thread,
+        events: [...thread.events].toSorted(
+          (a, b) => coordinationEventTimestampMs(a) - coordinationEventTimestampMs(b),
+        ),
+      }))
+      .toSorted((a, b) => b.lastTime - a.lastTime);
+
+    summaries.push({
+      id: `ws:${aggregate.workSessionId}`,
+      workSessionId: aggregate.workSessionId,
+      status,
+      startTime: aggregate.startTime,
+      lastTime: aggregate.lastTime,
+      durationMs: Math.max(0, aggregate.lastTime - aggregate.startTime),
+      threadCount: threads.length,
+      eventCount: aggregate.eventCount,
+      collabCategory: override?.collabCategory || aggregate.collabCategory,
+      collabSubTags: aggregate.collabSubTags,
+      categorySource: override ? "manual_override" : "event",
+      roleCounts: aggregate.roleCounts,
+      threads,
+    });
+  }
+
+  return summaries.toSorted((a, b) => b.lastTime - a.lastTime);
+}
+
+export async function readWorkSessionCategoryOverrides(
+  filePath: string,
+): Promise<WorkSessionCategoryOverrideMap> {
+  try {
+    const record = asRecord(JSON.parse(await fs.readFile(filePath, "utf-8")));
+    const result: WorkSessionCategoryOverrideMap = {};
+
+    for (const [workSessionId, value] of Object.entries(record)) {
+      const entry = asRecord(value);
+      const collabCategory = asCollaborationCategory(entry.collabCategory);
+      if (!collabCategory) {
+        continue;
+      }
+      result[workSessionId] = {
+        collabCategory,
+        updatedAt: asString(entry.updatedAt) || new Date().toISOString(),
+        updatedBy: asString(entry.updatedBy),
+      };
+    }
+
+    return result;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { buildA2AConversations } from "./a2a-conversations.js";
+import { enrichCoordinationEvent } from "./event-classification.js";
+
+function enrich(events: Array<{ type: string; ts: number; data: Record<string, unknown> }>) {
+  return events
+    .map((event) => enrichCoordinationEvent(event))
+    .filter((event): event is NonNullable<typeof event> => !!event);
+}
+
+describe("task-monitor A2A conversations", () => {
+  it("summarizes intent, turns and outcome per conversation", () => {
+    const events = enrich([
+      {
+        type: "a2a.send",
+        ts: 1000,
+        data: {
+          conversationId: "conv-a",
+          fromAgent: "eden",
+          toAgent: "seum",
+          message: "Can you review the deploy plan?",
+          intent: "review",
+          intentSource: "model",
+          workSessionId: "ws_1",
+          maxPingPongTurns: 3,
+        },
+      },
+      {
+        type: "a2a.response",
+        ts: 2000,
+        data: { conversationId: "conv-a", fromAgent: "seum", toAgent: "eden", message: "Looks ok" },
+      },
+      {
+        type: "a2a.response",
+        ts: 3000,
+        data: { conversationId: "conv-a", fromAgent: "eden", toAgent: "seum", message: "Thanks" },
+      },
+      {
+        type: "a2a.complete",
+        ts: 4000,
+        data: { conversationId: "conv-a", fromAgent: "eden", toAgent: "seum", outcome: "failed" },
+      },
+      {
+        type: "a2a.send",
+        ts: 5000,
+        data: { conversationId: "conv-b", fromAgent: "seum", toAgent: "eden", message: "ping" },
+      },
+      {
+        type: "task.started",
+        ts: 6000,
+        data: { taskId: "task_1", conversationId: "conv-a" },
+      },
+    ]);
+
+    const conversations = buildA2AConversations(events);
+
+    expect(conversations.map((entry) => entry.conversationId)).toEqual(["conv-b", "conv-a"]);
+    expect(conversations[0]).toMatchObject({ status: "open", turns: 0, messageCount: 1 });
+    expect(conversations[1]).toMatchObject({
+      fromAgent: "eden",
+      toAgent: "seum",
+      intent: "review",
+      intentSource: "model",
+      workSessionId: "ws_1",
+      turns: 1,
+      maxTurns: 3,
+      messageCount: 3,
+      status: "closed",
+      outcome: "failed",
+      startTime: 1000,
+      lastTime: 4000,
+    });
+    expect(conversations[1].events).toHaveLength(4);
+  });
+
+  it("reopens cancelled conversations when the job is resumed", () => {
+    const events = enrich([
+      {
+        type: "a2a.send",
+        ts: 1000,
+        data: { conversationId: "conv-a", fromAgent: "eden", toAgent: "seum", message: "hi" },
+      },
+      {
+        type: "a2a.job_cancelled",
+        ts: 2000,
+        data: { conversationId: "conv-a", currentTurn: 2, reason: "superseded" },
+      },
+    ]);
+    expect(buildA2AConversations(events)[0]).toMatchObject({
+      status: "closed",
+      outcome: "cancelled",
+      error: "superseded",
+      turns: 2,
+    });
+
+    const resumed = [
+      ...events,
+      ...enrich([{ type: "a2a.job_resumed", ts: 3000, data: { conversationId: "conv-a" } }]),
+    ];
+    expect(buildA2AConversations(resumed)[0]).toMatchObject({ status: "open", turns: 2 });
+  });
+});
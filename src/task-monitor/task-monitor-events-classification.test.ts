@@ -1,8 +1,5 @@
 import { describe, expect, it } from "vitest";
-import {
-  enrichCoordinationEvent,
-  resolveMainAgentIdsFromConfig,
-} from "../../scripts/task-monitor-server.ts";
+import { enrichCoordinationEvent, resolveMainAgentIdsFromConfig } from "./event-classification.js";
 
 describe("task-monitor event enrichment", () => {
   it("resolves main agent ids from agents.list schema", () => {
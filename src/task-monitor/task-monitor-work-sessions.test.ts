@@ -1,8 +1,5 @@
 import { describe, expect, it } from "vitest";
-import {
-  buildWorkSessionsFromEvents,
-  enrichCoordinationEvent,
-} from "../../scripts/task-monitor-server.ts";
+import { buildWorkSessionsFromEvents, enrichCoordinationEvent } from "./event-classification.js";
 
 describe("task-monitor work session aggregation", () => {
   it("separates conversation threads within same work session by conversationId", () => {
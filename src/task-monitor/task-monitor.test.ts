@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-describe("task-monitor-server", () => {
+describe("server-task-monitor", () => {
   describe("parseTaskFileMd", () => {
     it("parses valid task file content", () => {
       const content = `# Task: task_abc123
@@ -24,6 +24,8 @@ export const createTestRegistry = (channels: TestChannelRegistration[] = []): Pl
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  conversationSinks: [],
+  ttsProviders: [],
   commands: [],
   diagnostics: [],
 });
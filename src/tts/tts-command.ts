@@ -0,0 +1,97 @@
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import type { TtsCommandOutputFormat } from "../config/types.tts.js";
+import { logVerbose, shouldLogVerbose } from "../globals.js";
+import { runCommandWithTimeout } from "../process/exec.js";
+
+export type ResolvedTtsCommandConfig = {
+  command?: string;
+  args: string[];
+  outputFormat: TtsCommandOutputFormat;
+  voice?: string;
+  env?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+const TEXT_PLACEHOLDER = /{{\s*Text\s*}}/;
+const OUTPUT_PLACEHOLDER = /{{\s*OutputPath\s*}}/;
+const STDERR_TAIL_CHARS = 400;
+
+export function inferCommandExtension(format: TtsCommandOutputFormat): string {
+  return format === "opus" ? ".opus" : `.${format}`;
+}
+
+/** `{{Key}}` substitution for command args; unknown keys are left untouched. */
+export function applyCommandTemplate(arg: string, values: Record<string, string>): string {
+  return arg.replace(/{{\s*(\w+)\s*}}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Run a local TTS binary and return the file it wrote. Args are passed as an
+ * argv array (no shell), so spoken text never needs shell escaping; text that
+ * starts with `-` gets a leading space unless it follows a `--` arg. Without a
+ * `{{Text}}` arg the text goes to stdin (piper style).
+ */
+export async function commandTTS(params: {
+  text: string;
+  config: ResolvedTtsCommandConfig;
+  outputDir: string;
+  timeoutMs: number;
+}): Promise<{ audioPath: string; outputFormat: TtsCommandOutputFormat }> {
+  const { config } = params;
+  const command = config.command?.trim();
+  if (!command) {
+    throw new Error("messages.tts.command.command is not set");
+  }
+  if (!config.args.some((arg) => OUTPUT_PLACEHOLDER.test(arg))) {
+    throw new Error("messages.tts.command.args must include {{OutputPath}}");
+  }
+  const audioPath = path.join(
+    params.outputDir,
+    `voice-${Date.now()}${inferCommandExtension(config.outputFormat)}`,
+  );
+  const values: Record<string, string> = {
+    Text: params.text,
+    OutputPath: audioPath,
+    OutputDir: params.outputDir,
+    Voice: config.voice ?? "",
+  };
+  const endOfOptions = config.args.indexOf("--");
+  const args = config.args.map((arg, index) => {
+    const value = applyCommandTemplate(arg, values);
+    // Spoken text must not be parsed as an option; a leading space keeps getopt from seeing one.
+    const needsGuard =
+      TEXT_PLACEHOLDER.test(arg) &&
+      value.startsWith("-") &&
+      (endOfOptions < 0 || index < endOfOptions);
+    return needsGuard ? ` ${value}` : value;
+  });
+  const textViaArgs = config.args.some((arg) => TEXT_PLACEHOLDER.test(arg));
+  if (shouldLogVerbose()) {
+    logVerbose(
+      `TTS: running ${command} (${args.length} args, text via ${textViaArgs ? "args" : "stdin"})`,
+    );
+  }
+
+  const result = await runCommandWithTimeout([command, ...args], {
+    timeoutMs: config.timeoutMs ?? params.timeoutMs,
+    cwd: params.outputDir,
+    input: textViaArgs ? "" : params.text,
+    env: config.env,
+  });
+  if (result.termination === "timeout" || result.termination === "no-output-timeout") {
+    throw new Error(`${command} timed out`);
+  }
+  if (result.code !== 0) {
+    const stderr = result.stderr.trim().slice(-STDERR_TAIL_CHARS);
+    throw new Error(
+      `${command} exited with ${result.code ?? result.signal}${stderr ? `: ${stderr}` : ""}`,
+    );
+  }
+
+  const written = await stat(audioPath).catch(() => null);
+  if (!written?.isFile() || written.size === 0) {
+    throw new Error(`${command} did not write ${path.basename(audioPath)}`);
+  }
+  return { audioPath, outputFormat: config.outputFormat };
+}
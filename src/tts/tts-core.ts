@@ -96,9 +96,13 @@ function parseNumberValue(value: string): number | undefined {
   return Number.isFinite(parsed) ? parsed : undefined;
 }
 
+/** Built-in providers in fallback order; plugin providers follow them. */
+export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge", "command"] as const;
+
 export function parseTtsDirectives(
   text: string,
   policy: ResolvedTtsModelOverrides,
+  providerIds: readonly string[] = TTS_PROVIDERS,
 ): TtsDirectiveParseResult {
   if (!policy.enabled) {
     return { cleanedText: text, overrides: {}, warnings: [], hasDirective: false };
@@ -139,8 +143,8 @@ export function parseTtsDirectives(
             if (!policy.allowProvider) {
               break;
             }
-            if (rawValue === "openai" || rawValue === "elevenlabs" || rawValue === "edge") {
-              overrides.provider = rawValue;
+            if (providerIds.includes(rawValue.toLowerCase())) {
+              overrides.provider = rawValue.toLowerCase();
             } else {
               warnings.push(`unsupported provider "${rawValue}"`);
             }
@@ -1,8 +1,11 @@
+import { readFileSync } from "node:fs";
 import { completeSimple, type AssistantMessage } from "@mariozechner/pi-ai";
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import { getApiKeyForModel } from "../agents/model-auth.js";
 import { resolveModel } from "../agents/pi-embedded-runner/model.js";
 import type { OpenClawConfig } from "../config/config.js";
+import { createEmptyPluginRegistry } from "../plugins/registry.js";
+import { setActivePluginRegistry } from "../plugins/runtime.js";
 import { withEnv } from "../test-utils/env.js";
 import * as tts from "./tts.js";
 
@@ -528,4 +531,102 @@ describe("tts", () => {
       });
     });
   });
+
+  describe("local providers", () => {
+    const prefsPath = `/tmp/tts-prefs-local-${process.pid}.json`;
+    // Copies stdin (or the first arg) into the output path.
+    const writerScript =
+      "const fs=require('fs');const [out,text]=process.argv.slice(1);fs.writeFileSync(out,text??fs.readFileSync(0,'utf8'))";
+    const commandCfg = (args: string[]): OpenClawConfig => ({
+      messages: {
+        tts: {
+          provider: "command",
+          edge: { enabled: false },
+          command: { command: process.execPath, args: ["-e", writerScript, ...args] },
+        },
+      },
+    });
+
+    beforeEach(() => {
+      setActivePluginRegistry(createEmptyPluginRegistry());
+    });
+
+    it("runs the command provider with text on stdin or in args", async () => {
+      const viaStdin = await tts.textToSpeech({
+        text: "Hello offline",
+        cfg: commandCfg(["{{OutputPath}}"]),
+        prefsPath,
+      });
+      expect(viaStdin).toMatchObject({ success: true, provider: "command", outputFormat: "wav" });
+      expect(readFileSync(viaStdin.audioPath!, "utf8")).toBe("Hello offline");
+
+      const viaArgs = await tts.textToSpeech({
+        text: "Hello args",
+        cfg: commandCfg(["{{OutputPath}}", "{{Text}}"]),
+        prefsPath,
+      });
+      expect(readFileSync(viaArgs.audioPath!, "utf8")).toBe("Hello args");
+    });
+
+    it("keeps text that starts with a dash from reading as an option", async () => {
+      const result = await tts.textToSpeech({
+        text: "-v loud",
+        cfg: commandCfg(["{{OutputPath}}", "{{Text}}"]),
+        prefsPath,
+      });
+      expect(readFileSync(result.audioPath!, "utf8")).toBe(" -v loud");
+    });
+
+    it("reports command errors and falls back", async () => {
+      const result = await withEnv(
+        { OPENAI_API_KEY: undefined, ELEVENLABS_API_KEY: undefined, XI_API_KEY: undefined },
+        () => tts.textToSpeech({ text: "Hello", cfg: commandCfg([]), prefsPath }),
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(
+        "command: messages.tts.command.args must include {{OutputPath}}",
+      );
+      expect(result.error).toContain("edge: disabled");
+    });
+
+    it("uses plugin providers and accepts them in directives", async () => {
+      const registry = createEmptyPluginRegistry();
+      registry.ttsProviders.push({
+        pluginId: "piper",
+        source: "test",
+        provider: {
+          id: "piper",
+          synthesize: async ({ text }) => ({
+            audioBuffer: Buffer.from(text),
+            extension: ".ogg",
+            outputFormat: "ogg",
+          }),
+        },
+      });
+      setActivePluginRegistry(registry);
+
+      expect(tts.listTtsProviderIds()).toEqual([
+        "openai",
+        "elevenlabs",
+        "edge",
+        "command",
+        "piper",
+      ]);
+      const result = await tts.textToSpeech({
+        text: "Hello plugin",
+        cfg: { messages: { tts: { provider: "piper" } } },
+        prefsPath,
+      });
+      expect(result).toMatchObject({ success: true, provider: "piper", outputFormat: "ogg" });
+      expect(readFileSync(result.audioPath!, "utf8")).toBe("Hello plugin");
+
+      const policy = resolveModelOverridePolicy({ allowProvider: true });
+      const directive = parseTtsDirectives(
+        "[[tts:provider=piper]] hi",
+        policy,
+        tts.listTtsProviderIds(),
+      );
+      expect(directive.overrides.provider).toBe("piper");
+    });
+  });
 });
@@ -25,7 +25,10 @@ import { logVerbose } from "../globals.js";
 import { resolvePreferredOpenClawTmpDir } from "../infra/tmp-openclaw-dir.js";
 import { stripMarkdown } from "../line/markdown-to-line.js";
 import { isVoiceCompatibleAudio } from "../media/audio.js";
+import { getActivePluginRegistry } from "../plugins/runtime.js";
+import type { TtsProviderPlugin } from "../plugins/types.js";
 import { CONFIG_DIR, resolveUserPath } from "../utils.js";
+import { commandTTS, type ResolvedTtsCommandConfig } from "./tts-command.js";
 import {
   edgeTTS,
   elevenLabsTTS,
@@ -39,8 +42,9 @@ import {
   parseTtsDirectives,
   scheduleCleanup,
   summarizeText,
+  TTS_PROVIDERS,
 } from "./tts-core.js";
-export { OPENAI_TTS_MODELS, OPENAI_TTS_VOICES } from "./tts-core.js";
+export { OPENAI_TTS_MODELS, OPENAI_TTS_VOICES, TTS_PROVIDERS } from "./tts-core.js";
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 const DEFAULT_TTS_MAX_LENGTH = 1500;
@@ -128,6 +132,7 @@ export type ResolvedTtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  command: ResolvedTtsCommandConfig;
   prefsPath?: string;
   maxTextLength: number;
   timeoutMs: number;
@@ -303,6 +308,14 @@ export function resolveTtsConfig(cfg: OpenClawConfig): ResolvedTtsConfig {
       proxy: raw.edge?.proxy?.trim() || undefined,
       timeoutMs: raw.edge?.timeoutMs,
     },
+    command: {
+      command: raw.command?.command?.trim() || undefined,
+      args: raw.command?.args ?? [],
+      outputFormat: raw.command?.outputFormat ?? "wav",
+      voice: raw.command?.voice?.trim() || undefined,
+      env: raw.command?.env,
+      timeoutMs: raw.command?.timeoutMs,
+    },
     prefsPath: raw.prefsPath,
     maxTextLength: raw.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH,
     timeoutMs: raw.timeoutMs ?? DEFAULT_TIMEOUT_MS,
@@ -441,6 +454,9 @@ export function getTtsProvider(config: ResolvedTtsConfig, prefsPath: string): Tt
   if (resolveTtsApiKey(config, "elevenlabs")) {
     return "elevenlabs";
   }
+  if (config.command.command) {
+    return "command";
+  }
   return "edge";
 }
 
@@ -508,17 +524,104 @@ export function resolveTtsApiKey(
   return undefined;
 }
 
-export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge"] as const;
+/** Plugin-registered providers; ids that shadow a built-in provider are ignored. */
+export function listPluginTtsProviders(): TtsProviderPlugin[] {
+  const registrations = getActivePluginRegistry()?.ttsProviders ?? [];
+  return registrations
+    .map((entry) => entry.provider)
+    .filter((provider) => !(TTS_PROVIDERS as readonly string[]).includes(provider.id));
+}
+
+function getPluginTtsProvider(id: string): TtsProviderPlugin | undefined {
+  return listPluginTtsProviders().find((provider) => provider.id === id);
+}
+
+/** Built-in provider ids followed by plugin provider ids. */
+export function listTtsProviderIds(): TtsProvider[] {
+  return [...TTS_PROVIDERS, ...listPluginTtsProviders().map((provider) => provider.id)];
+}
 
 export function resolveTtsProviderOrder(primary: TtsProvider): TtsProvider[] {
-  return [primary, ...TTS_PROVIDERS.filter((provider) => provider !== primary)];
+  return [primary, ...listTtsProviderIds().filter((provider) => provider !== primary)];
 }
 
 export function isTtsProviderConfigured(config: ResolvedTtsConfig, provider: TtsProvider): boolean {
   if (provider === "edge") {
     return config.edge.enabled;
   }
-  return Boolean(resolveTtsApiKey(config, provider));
+  if (provider === "command") {
+    return Boolean(config.command.command);
+  }
+  if (provider === "openai" || provider === "elevenlabs") {
+    return Boolean(resolveTtsApiKey(config, provider));
+  }
+  const plugin = getPluginTtsProvider(provider);
+  return plugin ? (plugin.isConfigured?.() ?? true) : false;
+}
+
+function createTtsTempDir(): string {
+  const tempRoot = resolvePreferredOpenClawTmpDir();
+  mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+  return mkdtempSync(path.join(tempRoot, "tts-"));
+}
+
+/** Runs a command or plugin provider; the temp dir is cleaned up later or on failure. */
+async function synthesizeLocal(params: {
+  provider: TtsProvider;
+  text: string;
+  cfg: OpenClawConfig;
+  config: ResolvedTtsConfig;
+  channel?: string;
+}): Promise<{ audioPath: string; outputFormat?: string; voiceCompatible: boolean }> {
+  const tempDir = createTtsTempDir();
+  try {
+    let audioPath: string;
+    let outputFormat: string | undefined;
+    let voiceCompatible: boolean | undefined;
+    if (params.provider === "command") {
+      ({ audioPath, outputFormat } = await commandTTS({
+        text: params.text,
+        config: params.config.command,
+        outputDir: tempDir,
+        timeoutMs: params.config.timeoutMs,
+      }));
+    } else {
+      const plugin = getPluginTtsProvider(params.provider);
+      if (!plugin) {
+        throw new Error("unknown provider");
+      }
+      const result = await plugin.synthesize({
+        text: params.text,
+        config: params.cfg,
+        channel: params.channel,
+        outputDir: tempDir,
+        timeoutMs: params.config.timeoutMs,
+      });
+      if (result.audioPath) {
+        audioPath = result.audioPath;
+      } else if (result.audioBuffer) {
+        audioPath = path.join(tempDir, `voice-${Date.now()}${result.extension ?? ".mp3"}`);
+        writeFileSync(audioPath, result.audioBuffer);
+      } else {
+        throw new Error("provider returned no audio");
+      }
+      outputFormat = result.outputFormat;
+      voiceCompatible = result.voiceCompatible;
+    }
+    scheduleCleanup(tempDir);
+    return {
+      audioPath,
+      outputFormat,
+      voiceCompatible: voiceCompatible ?? isVoiceCompatibleAudio({ fileName: audioPath }),
+    };
+  } catch (err) {
+    try {
+      rmSync(tempDir, { recursive: true, force: true });
+    } catch {
+      // ignore cleanup errors
+    }
+    throw err;
+  }
 }
 
 function formatTtsProviderError(provider: TtsProvider, err: unknown): string {
@@ -564,9 +667,7 @@ export async function textToSpeech(params: {
           continue;
         }
 
-        const tempRoot = resolvePreferredOpenClawTmpDir();
-        mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
-        const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+        const tempDir = createTtsTempDir();
         let edgeOutputFormat = resolveEdgeOutputFormat(config);
         const fallbackEdgeOutputFormat =
           edgeOutputFormat !== DEFAULT_EDGE_OUTPUT_FORMAT ? DEFAULT_EDGE_OUTPUT_FORMAT : undefined;
@@ -628,6 +729,28 @@ export async function textToSpeech(params: {
         };
       }
 
+      if (provider !== "openai" && provider !== "elevenlabs") {
+        if (!isTtsProviderConfigured(config, provider)) {
+          errors.push(`${provider}: not configured`);
+          continue;
+        }
+        const local = await synthesizeLocal({
+          provider,
+          text: params.text,
+          cfg: params.cfg,
+          config,
+          channel: params.channel,
+        });
+        return {
+          success: true,
+          audioPath: local.audioPath,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat: local.outputFormat,
+          voiceCompatible: local.voiceCompatible,
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
@@ -673,9 +796,7 @@ export async function textToSpeech(params: {
 
       const latencyMs = Date.now() - providerStart;
 
-      const tempRoot = resolvePreferredOpenClawTmpDir();
-      mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
-      const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+      const tempDir = createTtsTempDir();
       const audioPath = path.join(tempDir, `voice-${Date.now()}${output.extension}`);
       writeFileSync(audioPath, audioBuffer);
       scheduleCleanup(tempDir);
@@ -722,8 +843,8 @@ export async function textToSpeechTelephony(params: {
   for (const provider of providers) {
     const providerStart = Date.now();
     try {
-      if (provider === "edge") {
-        errors.push("edge: unsupported for telephony");
+      if (provider !== "openai" && provider !== "elevenlabs") {
+        errors.push(`${provider}: unsupported for telephony`);
         continue;
       }
 
@@ -808,7 +929,7 @@ export async function maybeApplyTtsToPayload(params: {
   }
 
   const text = params.payload.text ?? "";
-  const directives = parseTtsDirectives(text, config.modelOverrides);
+  const directives = parseTtsDirectives(text, config.modelOverrides, listTtsProviderIds());
   if (directives.warnings.length > 0) {
     logVerbose(`TTS: ignored directive overrides (${directives.warnings.join("; ")})`);
   }
@@ -18,6 +18,7 @@ export const en: TranslationMap = {
     control: "Control",
     agent: "Agent",
     settings: "Settings",
+    coordination: "Coordination",
     expand: "Expand sidebar",
     collapse: "Collapse sidebar",
   },
@@ -31,6 +32,10 @@ export const en: TranslationMap = {
     cron: "Cron Jobs",
     skills: "Skills",
     nodes: "Nodes",
+    tasks: "Tasks",
+    workSessions: "Work Sessions",
+    conversations: "A2A Conversations",
+    approvals: "Approvals",
     chat: "Chat",
     config: "Config",
     debug: "Debug",
@@ -46,6 +51,10 @@ export const en: TranslationMap = {
     cron: "Schedule wakeups and recurring agent runs.",
     skills: "Manage skill availability and API key injection.",
     nodes: "Paired devices, capabilities, and command exposure.",
+    tasks: "Per-agent task boards with status, steps, and blockers.",
+    workSessions: "Coordination activity grouped by work session.",
+    conversations: "Agent-to-agent threads with intent, turns, and outcome.",
+    approvals: "Task, plan, and exec approvals waiting on a human, with audit trail.",
     chat: "Direct gateway chat session for quick interventions.",
     config: "Edit ~/.openclaw/openclaw.json safely.",
     debug: "Gateway snapshots, events, and manual RPC calls.",
@@ -18,6 +18,7 @@ export const pt_BR: TranslationMap = {
     control: "Controle",
     agent: "Agente",
     settings: "Configurações",
+    coordination: "Coordenação",
     expand: "Expandir barra lateral",
     collapse: "Recolher barra lateral",
   },
@@ -31,6 +32,10 @@ export const pt_BR: TranslationMap = {
     cron: "Tarefas Cron",
     skills: "Habilidades",
     nodes: "Nós",
+    tasks: "Tarefas",
+    workSessions: "Sessões de trabalho",
+    conversations: "Conversas A2A",
+    approvals: "Aprovações",
     chat: "Chat",
     config: "Config",
     debug: "Debug",
@@ -46,6 +51,11 @@ export const pt_BR: TranslationMap = {
     cron: "Agendar despertares e execuções recorrentes de agentes.",
     skills: "Gerenciar disponibilidade de habilidades e injeção de chaves de API.",
     nodes: "Dispositivos pareados, capacidades e exposição de comandos.",
+    tasks: "Quadros de tarefas por agente com status, etapas e bloqueios.",
+    workSessions: "Atividade de coordenação agrupada por sessão de trabalho.",
+    conversations: "Conversas entre agentes com intenção, turnos e resultado.",
+    approvals:
+      "Aprovações de tarefas, planos e exec aguardando decisão humana, com trilha de auditoria.",
     chat: "Sessão de chat direta com o gateway para intervenções rápidas.",
     config: "Editar ~/.openclaw/openclaw.json com segurança.",
     debug: "Snapshots do gateway, eventos e chamadas RPC manuais.",
@@ -18,6 +18,7 @@ export const zh_CN: TranslationMap = {
     control: "控制",
     agent: "代理",
     settings: "设置",
+    coordination: "协作",
     expand: "展开侧边栏",
     collapse: "折叠侧边栏",
   },
@@ -31,6 +32,10 @@ export const zh_CN: TranslationMap = {
     cron: "定时任务",
     skills: "技能",
     nodes: "节点",
+    tasks: "任务",
+    workSessions: "工作会话",
+    conversations: "A2A 对话",
+    approvals: "审批",
     chat: "聊天",
     config: "配置",
     debug: "调试",
@@ -46,6 +51,10 @@ export const zh_CN: TranslationMap = {
     cron: "安排唤醒和重复的代理运行。",
     skills: "管理技能可用性和 API 密钥注入。",
     nodes: "配对设备、功能和命令公开。",
+    tasks: "按智能体划分的任务看板，包含状态、步骤和阻塞信息。",
+    workSessions: "按工作会话分组的协作活动。",
+    conversations: "智能体之间的对话线程，包含意图、轮次和结果。",
+    approvals: "等待人工决定的任务、计划和执行审批，附审计记录。",
     chat: "用于快速干预的直接网关聊天会话。",
     config: "安全地编辑 ~/.openclaw/openclaw.json。",
     debug: "网关快照、事件和手动 RPC 调用。",
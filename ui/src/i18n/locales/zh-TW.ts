@@ -18,6 +18,7 @@ export const zh_TW: TranslationMap = {
     control: "控制",
     agent: "代理",
     settings: "設置",
+    coordination: "協作",
     expand: "展開側邊欄",
     collapse: "折疊側邊欄",
   },
@@ -31,6 +32,10 @@ export const zh_TW: TranslationMap = {
     cron: "定時任務",
     skills: "技能",
     nodes: "節點",
+    tasks: "任務",
+    workSessions: "工作會話",
+    conversations: "A2A 對話",
+    approvals: "審批",
     chat: "聊天",
     config: "配置",
     debug: "調試",
@@ -46,6 +51,10 @@ export const zh_TW: TranslationMap = {
     cron: "安排喚醒和重複的代理運行。",
     skills: "管理技能可用性和 API 密鑰注入。",
     nodes: "配對設備、功能和命令公開。",
+    tasks: "按智能體劃分的任務看板，包含狀態、步驟和阻塞資訊。",
+    workSessions: "按工作會話分組的協作活動。",
+    conversations: "智能體之間的對話串，包含意圖、輪次和結果。",
+    approvals: "等待人工決定的任務、計劃和執行審批，附審計記錄。",
     chat: "用於快速干預的直接網關聊天會話。",
     config: "安全地編輯 ~/.openclaw/openclaw.json。",
     debug: "網關快照、事件和手動 RPC 調用。",
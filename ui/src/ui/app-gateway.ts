@@ -16,6 +16,11 @@ import { loadAgents } from "./controllers/agents.ts";
 import { loadAssistantIdentity } from "./controllers/assistant-identity.ts";
 import { loadChatHistory } from "./controllers/chat.ts";
 import { handleChatEvent, type ChatEventPayload } from "./controllers/chat.ts";
+import {
+  COORDINATION_REFRESH_DEBOUNCE_MS,
+  coordinationEventAffectsTab,
+  loadCoordinationTab,
+} from "./controllers/coordination.ts";
 import { loadDevices } from "./controllers/devices.ts";
 import type { ExecApprovalRequest } from "./controllers/exec-approval.ts";
 import {
@@ -32,6 +37,7 @@ import type { Tab } from "./navigation.ts";
 import type { UiSettings } from "./storage.ts";
 import type {
   AgentsListResult,
+  CoordinationEvent,
   PresenceEntry,
   HealthSnapshot,
   StatusSummary,
@@ -65,6 +71,7 @@ type GatewayHost = {
   execApprovalQueue: ExecApprovalRequest[];
   execApprovalError: string | null;
   updateAvailable: UpdateAvailable | null;
+  coordinationRefreshTimer: number | null;
 };
 
 type SessionDefaultsSnapshot = {
@@ -196,6 +203,17 @@ export function handleGatewayEvent(host: GatewayHost, evt: GatewayEventFrame) {
   }
 }
 
+/** Coalesces bursts of coordination events into one quiet reload of the open tab. */
+function scheduleCoordinationRefresh(host: GatewayHost) {
+  if (host.coordinationRefreshTimer != null) {
+    return;
+  }
+  host.coordinationRefreshTimer = window.setTimeout(() => {
+    host.coordinationRefreshTimer = null;
+    void loadCoordinationTab(host as unknown as OpenClawApp, host.tab, { quiet: true });
+  }, COORDINATION_REFRESH_DEBOUNCE_MS);
+}
+
 function handleGatewayEventUnsafe(host: GatewayHost, evt: GatewayEventFrame) {
   host.eventLogBuffer = [
     { ts: Date.now(), event: evt.event, payload: evt.payload },
@@ -258,6 +276,13 @@ function handleGatewayEventUnsafe(host: GatewayHost, evt: GatewayEventFrame) {
     void loadCron(host as unknown as Parameters<typeof loadCron>[0]);
   }
 
+  if (
+    evt.event === "task-monitor.event" &&
+    coordinationEventAffectsTab(host.tab, evt.payload as CoordinationEvent | undefined)
+  ) {
+    scheduleCoordinationRefresh(host);
+  }
+
   if (evt.event === "device.pair.requested" || evt.event === "device.pair.resolved") {
     void loadDevices(host as unknown as OpenClawApp, { quiet: true });
   }
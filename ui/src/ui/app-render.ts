@@ -1,10 +1,10 @@
 import { html, nothing } from "lit";
-import type { AppViewState } from "./app-view-state.ts";
 import { parseAgentSessionKey } from "../../../src/routing/session-key.js";
 import { t } from "../i18n/index.ts";
 import { refreshChatAvatar } from "./app-chat.ts";
 import { renderUsageTab } from "./app-render-usage-tab.ts";
 import { renderChatControls, renderTab, renderThemeToggle } from "./app-render.helpers.ts";
+import type { AppViewState } from "./app-view-state.ts";
 import { loadAgentFileContent, loadAgentFiles, saveAgentFile } from "./controllers/agent-files.ts";
 import { loadAgentIdentities, loadAgentIdentity } from "./controllers/agent-identity.ts";
 import { loadAgentSkills } from "./controllers/agent-skills.ts";
@@ -19,6 +19,14 @@ import {
   updateConfigFormValue,
   removeConfigFormValue,
 } from "./controllers/config.ts";
+import {
+  loadApprovals,
+  loadConversation,
+  loadConversations,
+  loadTaskBoard,
+  loadWorkSessions,
+  resolveApproval,
+} from "./controllers/coordination.ts";
 import {
   loadCronRuns,
   toggleCronJob,
@@ -56,9 +64,11 @@ import { buildExternalLinkRel, EXTERNAL_LINK_TARGET } from "./external-link.ts";
 import { icons } from "./icons.ts";
 import { normalizeBasePath, TAB_GROUPS, subtitleForTab, titleForTab } from "./navigation.ts";
 import { renderAgents } from "./views/agents.ts";
+import { renderApprovals } from "./views/approvals.ts";
 import { renderChannels } from "./views/channels.ts";
 import { renderChat } from "./views/chat.ts";
 import { renderConfig } from "./views/config.ts";
+import { renderConversations } from "./views/conversations.ts";
 import { renderCron } from "./views/cron.ts";
 import { renderDebug } from "./views/debug.ts";
 import { renderExecApprovalPrompt } from "./views/exec-approval.ts";
@@ -69,6 +79,8 @@ import { renderNodes } from "./views/nodes.ts";
 import { renderOverview } from "./views/overview.ts";
 import { renderSessions } from "./views/sessions.ts";
 import { renderSkills } from "./views/skills.ts";
+import { renderTasks } from "./views/tasks.ts";
+import { renderWorkSessions } from "./views/work-sessions.ts";
 
 const AVATAR_DATA_RE = /^data:/i;
 const AVATAR_HTTP_RE = /^https?:\/\//i;
@@ -351,6 +363,81 @@ export function renderApp(state: AppViewState) {
             : nothing
         }
 
+        ${
+          state.tab === "tasks"
+            ? renderTasks({
+                loading: state.tasksLoading,
+                board: state.tasksBoard,
+                error: state.tasksError,
+                agentFilter: state.tasksAgentFilter,
+                onAgentFilterChange: (agentId) => {
+                  state.tasksAgentFilter = agentId;
+                  void loadTaskBoard(state);
+                },
+                onRefresh: () => loadTaskBoard(state),
+              })
+            : nothing
+        }
+
+        ${
+          state.tab === "workSessions"
+            ? renderWorkSessions({
+                loading: state.workSessionsLoading,
+                result: state.workSessionsResult,
+                error: state.workSessionsError,
+                statusFilter: state.workSessionsStatusFilter,
+                expanded: state.workSessionsExpanded,
+                onStatusFilterChange: (status) => {
+                  state.workSessionsStatusFilter = status;
+                  void loadWorkSessions(state);
+                },
+                onToggle: (workSessionId) =>
+                  (state.workSessionsExpanded =
+                    state.workSessionsExpanded === workSessionId ? null : workSessionId),
+                onRefresh: () => loadWorkSessions(state),
+              })
+            : nothing
+        }
+
+        ${
+          state.tab === "conversations"
+            ? renderConversations({
+                loading: state.conversationsLoading,
+                result: state.conversationsResult,
+                error: state.conversationsError,
+                statusFilter: state.conversationsStatusFilter,
+                selectedId: state.conversationSelectedId,
+                thread: state.conversationThread,
+                threadLoading: state.conversationThreadLoading,
+                onStatusFilterChange: (status) => {
+                  state.conversationsStatusFilter = status;
+                  void loadConversations(state);
+                },
+                onSelect: (conversationId) => loadConversation(state, conversationId),
+                onRefresh: () => loadConversations(state),
+              })
+            : nothing
+        }
+
+        ${
+          state.tab === "approvals"
+            ? renderApprovals({
+                loading: state.approvalsLoading,
+                result: state.approvalsResult,
+                error: state.approvalsError,
+                showAll: state.approvalsShowAll,
+                audit: state.approvalsAudit,
+                busyId: state.approvalsBusyId,
+                onShowAllChange: (showAll) => {
+                  state.approvalsShowAll = showAll;
+                  void loadApprovals(state);
+                },
+                onDecide: (id, decision) => resolveApproval(state, id, decision),
+                onRefresh: () => loadApprovals(state),
+              })
+            : nothing
+        }
+
         ${
           state.tab === "agents"
             ? renderAgents({
@@ -10,8 +10,12 @@ import type { UiSettings } from "./storage.ts";
 import type { ThemeTransitionContext } from "./theme-transition.ts";
 import type { ThemeMode } from "./theme.ts";
 import type {
+  A2AConversationThread,
+  A2AConversationsResult,
   AgentsListResult,
   AgentsFilesListResult,
+  ApprovalAuditEntry,
+  ApprovalsListResult,
   AgentIdentityResult,
   ChannelsStatusSnapshot,
   ConfigSnapshot,
@@ -30,6 +34,8 @@ import type {
   SessionsListResult,
   SkillStatusReport,
   StatusSummary,
+  TaskBoardResult,
+  WorkSessionsResult,
 } from "./types.ts";
 import type { ChatAttachment, ChatQueueItem, CronFormState } from "./ui-types.ts";
 import type { NostrProfileFormState } from "./views/channels.nostr-profile-form.ts";
@@ -192,6 +198,28 @@ export type AppViewState = {
   cronRunsJobId: string | null;
   cronRuns: CronRunLogEntry[];
   cronBusy: boolean;
+  tasksLoading: boolean;
+  tasksBoard: TaskBoardResult | null;
+  tasksError: string | null;
+  tasksAgentFilter: string;
+  workSessionsLoading: boolean;
+  workSessionsResult: WorkSessionsResult | null;
+  workSessionsError: string | null;
+  workSessionsStatusFilter: "" | "ACTIVE" | "QUIET" | "ARCHIVED";
+  workSessionsExpanded: string | null;
+  conversationsLoading: boolean;
+  conversationsResult: A2AConversationsResult | null;
+  conversationsError: string | null;
+  conversationsStatusFilter: "" | "open" | "closed";
+  conversationSelectedId: string | null;
+  conversationThread: A2AConversationThread | null;
+  conversationThreadLoading: boolean;
+  approvalsLoading: boolean;
+  approvalsResult: ApprovalsListResult | null;
+  approvalsError: string | null;
+  approvalsShowAll: boolean;
+  approvalsAudit: ApprovalAuditEntry[];
+  approvalsBusyId: string | null;
   skillsLoading: boolean;
   skillsReport: SkillStatusReport | null;
   skillsError: string | null;
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  coordinationEventAffectsTab,
+  loadConversations,
+  loadTaskBoard,
+  resolveApproval,
+  type CoordinationState,
+} from "./coordination.ts";
+
+function createState(overrides: Partial<CoordinationState> = {}): CoordinationState {
+  return {
+    client: null,
+    connected: true,
+    tasksLoading: false,
+    tasksBoard: null,
+    tasksError: null,
+    tasksAgentFilter: "",
+    workSessionsLoading: false,
+    workSessionsResult: null,
+    workSessionsError: null,
+    workSessionsStatusFilter: "",
+    workSessionsExpanded: null,
+    conversationsLoading: false,
+    conversationsResult: null,
+    conversationsError: null,
+    conversationsStatusFilter: "",
+    conversationSelectedId: null,
+    conversationThread: null,
+    conversationThreadLoading: false,
+    approvalsLoading: false,
+    approvalsResult: null,
+    approvalsError: null,
+    approvalsShowAll: false,
+    approvalsAudit: [],
+    approvalsBusyId: null,
+    ...overrides,
+  };
+}
+
+describe("coordination controller", () => {
+  it("requests the task board for the filtered agent", async () => {
+    const request = vi.fn(async () => ({ agents: [], count: 0 }));
+    const state = createState({
+      client: { request } as unknown as CoordinationState["client"],
+      tasksAgentFilter: "dev",
+    });
+
+    await loadTaskBoard(state);
+
+    expect(request).toHaveBeenCalledWith("tasks.board", { agentId: "dev" });
+    expect(state.tasksBoard).toEqual({ agents: [], count: 0 });
+    expect(state.tasksLoading).toBe(false);
+  });
+
+  it("reloads the open thread together with the conversation list", async () => {
+    const thread = { conversationId: "conv-1", events: [] };
+    const request = vi.fn(async (method: string) =>
+      method === "a2a.conversations.get"
+        ? { conversation: thread }
+        : { conversations: [], count: 0, totalMatched: 0 },
+    );
+    const state = createState({
+      client: { request } as unknown as CoordinationState["client"],
+      conversationsStatusFilter: "open",
+      conversationSelectedId: "conv-1",
+    });
+
+    await loadConversations(state, { quiet: true });
+
+    expect(request.mock.calls).toEqual([
+      ["a2a.conversations.list", { status: "open" }],
+      ["a2a.conversations.get", { conversationId: "conv-1" }],
+    ]);
+    expect(state.conversationThread).toBe(thread);
+  });
+
+  it("resolves an approval and reloads the inbox with its audit trail", async () => {
+    const request = vi.fn(async (method: string) => {
+      if (method === "approvals.list") {
+        return { enabled: true, approvals: [], count: 0 };
+      }
+      if (method === "approvals.audit") {
+        return { entries: [{ ts: 1, approvalId: "apr_1", kind: "task", sourceId: "t1" }] };
+      }
+      return { approval: { id: "apr_1" } };
+    });
+    const state = createState({
+      client: { request } as unknown as CoordinationState["client"],
+    });
+
+    await resolveApproval(state, "apr_1", "reject");
+
+    expect(request.mock.calls).toEqual([
+      ["approvals.resolve", { id: "apr_1", decision: "reject" }],
+      ["approvals.list", { status: "pending" }],
+      ["approvals.audit", { limit: 50 }],
+    ]);
+    expect(state.approvalsAudit).toHaveLength(1);
+    expect(state.approvalsBusyId).toBeNull();
+  });
+
+  it("only refreshes tabs whose data the event touches", () => {
+    const taskEvent = { type: "task.updated", agentId: "dev", ts: 1, data: {} };
+    const a2aEvent = { type: "a2a.send", agentId: "dev", ts: 1, data: {} };
+    expect(coordinationEventAffectsTab("tasks", taskEvent)).toBe(true);
+    expect(coordinationEventAffectsTab("tasks", a2aEvent)).toBe(false);
+    expect(coordinationEventAffectsTab("workSessions", a2aEvent)).toBe(true);
+    expect(coordinationEventAffectsTab("conversations", a2aEvent)).toBe(true);
+    expect(coordinationEventAffectsTab("chat", a2aEvent)).toBe(false);
+    expect(
+      coordinationEventAffectsTab("approvals", {
+        type: "approval.requested",
+        agentId: "dev",
+        ts: 1,
+        data: {},
+      }),
+    ).toBe(true);
+    expect(coordinationEventAffectsTab("approvals", taskEvent)).toBe(false);
+  });
+});
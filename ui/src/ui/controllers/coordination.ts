@@ -0,0 +1,195 @@
+import type { GatewayBrowserClient } from "../gateway.ts";
+import type { Tab } from "../navigation.ts";
+import type {
+  A2AConversationThread,
+  A2AConversationsResult,
+  ApprovalAuditEntry,
+  ApprovalsListResult,
+  CoordinationEvent,
+  TaskBoardResult,
+  WorkSessionsResult,
+} from "../types.ts";
+
+export type CoordinationState = {
+  client: GatewayBrowserClient | null;
+  connected: boolean;
+  tasksLoading: boolean;
+  tasksBoard: TaskBoardResult | null;
+  tasksError: string | null;
+  tasksAgentFilter: string;
+  workSessionsLoading: boolean;
+  workSessionsResult: WorkSessionsResult | null;
+  workSessionsError: string | null;
+  workSessionsStatusFilter: "" | "ACTIVE" | "QUIET" | "ARCHIVED";
+  workSessionsExpanded: string | null;
+  conversationsLoading: boolean;
+  conversationsResult: A2AConversationsResult | null;
+  conversationsError: string | null;
+  conversationsStatusFilter: "" | "open" | "closed";
+  conversationSelectedId: string | null;
+  conversationThread: A2AConversationThread | null;
+  conversationThreadLoading: boolean;
+  approvalsLoading: boolean;
+  approvalsResult: ApprovalsListResult | null;
+  approvalsError: string | null;
+  approvalsShowAll: boolean;
+  approvalsAudit: ApprovalAuditEntry[];
+  approvalsBusyId: string | null;
+};
+
+/** Delay before a burst of `task-monitor.event` frames turns into one reload. */
+export const COORDINATION_REFRESH_DEBOUNCE_MS = 750;
+
+export async function loadTaskBoard(state: CoordinationState, opts?: { quiet?: boolean }) {
+  if (!state.client || !state.connected || state.tasksLoading) {
+    return;
+  }
+  state.tasksLoading = !opts?.quiet;
+  state.tasksError = null;
+  try {
+    state.tasksBoard = await state.client.request<TaskBoardResult>(
+      "tasks.board",
+      state.tasksAgentFilter ? { agentId: state.tasksAgentFilter } : {},
+    );
+  } catch (err) {
+    state.tasksError = String(err);
+  } finally {
+    state.tasksLoading = false;
+  }
+}
+
+export async function loadWorkSessions(state: CoordinationState, opts?: { quiet?: boolean }) {
+  if (!state.client || !state.connected || state.workSessionsLoading) {
+    return;
+  }
+  state.workSessionsLoading = !opts?.quiet;
+  state.workSessionsError = null;
+  try {
+    state.workSessionsResult = await state.client.request<WorkSessionsResult>(
+      "workSessions.list",
+      state.workSessionsStatusFilter ? { status: [state.workSessionsStatusFilter] } : {},
+    );
+  } catch (err) {
+    state.workSessionsError = String(err);
+  } finally {
+    state.workSessionsLoading = false;
+  }
+}
+
+export async function loadConversation(state: CoordinationState, conversationId: string) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  state.conversationSelectedId = conversationId;
+  state.conversationThreadLoading = true;
+  try {
+    const res = await state.client.request<{ conversation: A2AConversationThread }>(
+      "a2a.conversations.get",
+      { conversationId },
+    );
+    if (state.conversationSelectedId === conversationId) {
+      state.conversationThread = res.conversation;
+    }
+  } catch (err) {
+    state.conversationsError = String(err);
+  } finally {
+    state.conversationThreadLoading = false;
+  }
+}
+
+export async function loadConversations(state: CoordinationState, opts?: { quiet?: boolean }) {
+  if (!state.client || !state.connected || state.conversationsLoading) {
+    return;
+  }
+  state.conversationsLoading = !opts?.quiet;
+  state.conversationsError = null;
+  try {
+    state.conversationsResult = await state.client.request<A2AConversationsResult>(
+      "a2a.conversations.list",
+      state.conversationsStatusFilter ? { status: state.conversationsStatusFilter } : {},
+    );
+  } catch (err) {
+    state.conversationsError = String(err);
+  } finally {
+    state.conversationsLoading = false;
+  }
+  if (state.conversationSelectedId) {
+    await loadConversation(state, state.conversationSelectedId);
+  }
+}
+
+export async function loadApprovals(state: CoordinationState, opts?: { quiet?: boolean }) {
+  if (!state.client || !state.connected || state.approvalsLoading) {
+    return;
+  }
+  state.approvalsLoading = !opts?.quiet;
+  state.approvalsError = null;
+  try {
+    const [list, audit] = await Promise.all([
+      state.client.request<ApprovalsListResult>("approvals.list", {
+        status: state.approvalsShowAll ? "all" : "pending",
+      }),
+      state.client.request<{ entries: ApprovalAuditEntry[] }>("approvals.audit", { limit: 50 }),
+    ]);
+    state.approvalsResult = list;
+    state.approvalsAudit = audit.entries;
+  } catch (err) {
+    state.approvalsError = String(err);
+  } finally {
+    state.approvalsLoading = false;
+  }
+}
+
+export async function resolveApproval(
+  state: CoordinationState,
+  id: string,
+  decision: "approve" | "reject",
+) {
+  if (!state.client || !state.connected || state.approvalsBusyId) {
+    return;
+  }
+  state.approvalsBusyId = id;
+  state.approvalsError = null;
+  try {
+    await state.client.request("approvals.resolve", { id, decision });
+  } catch (err) {
+    state.approvalsError = String(err);
+  } finally {
+    state.approvalsBusyId = null;
+  }
+  await loadApprovals(state, { quiet: true });
+}
+
+/** Whether a live coordination event changes what the given tab shows. */
+export function coordinationEventAffectsTab(tab: Tab, event: CoordinationEvent | undefined) {
+  const type = typeof event?.type === "string" ? event.type : "";
+  if (tab === "tasks") {
+    return type.startsWith("task.");
+  }
+  if (tab === "workSessions") {
+    return type.startsWith("task.") || type.startsWith("a2a.");
+  }
+  if (tab === "conversations") {
+    return type.startsWith("a2a.");
+  }
+  if (tab === "approvals") {
+    return type.startsWith("approval.");
+  }
+  return false;
+}
+
+export async function loadCoordinationTab(
+  state: CoordinationState,
+  tab: Tab,
+  opts?: { quiet?: boolean },
+) {
+  if (tab === "tasks") {
+    await loadTaskBoard(state, opts);
+  } else if (tab === "workSessions") {
+    await loadWorkSessions(state, opts);
+  } else if (tab === "conversations") {
+    await loadConversations(state, opts);
+  } else if (tab === "approvals") {
+    await loadApprovals(state, opts);
+  }
+}
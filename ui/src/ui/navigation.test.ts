@@ -34,6 +34,10 @@ describe("iconForTab", () => {
     expect(iconForTab("cron")).toBe("loader");
     expect(iconForTab("skills")).toBe("zap");
     expect(iconForTab("nodes")).toBe("monitor");
+    expect(iconForTab("tasks")).toBe("listChecks");
+    expect(iconForTab("workSessions")).toBe("layers");
+    expect(iconForTab("conversations")).toBe("messagesSquare");
+    expect(iconForTab("approvals")).toBe("shieldCheck");
     expect(iconForTab("config")).toBe("settings");
     expect(iconForTab("debug")).toBe("bug");
     expect(iconForTab("logs")).toBe("scrollText");
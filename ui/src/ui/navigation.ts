@@ -1,5 +1,5 @@
-import type { IconName } from "./icons.js";
 import { t } from "../i18n/index.ts";
+import type { IconName } from "./icons.js";
 
 export const TAB_GROUPS = [
   { label: "chat", tabs: ["chat"] },
@@ -8,6 +8,7 @@ export const TAB_GROUPS = [
     tabs: ["overview", "channels", "instances", "sessions", "usage", "cron"],
   },
   { label: "agent", tabs: ["agents", "skills", "nodes"] },
+  { label: "coordination", tabs: ["tasks", "workSessions", "conversations", "approvals"] },
   { label: "settings", tabs: ["config", "debug", "logs"] },
 ] as const;
 
@@ -21,6 +22,10 @@ export type Tab =
   | "cron"
   | "skills"
   | "nodes"
+  | "tasks"
+  | "workSessions"
+  | "conversations"
+  | "approvals"
   | "chat"
   | "config"
   | "debug"
@@ -36,6 +41,10 @@ const TAB_PATHS: Record<Tab, string> = {
   cron: "/cron",
   skills: "/skills",
   nodes: "/nodes",
+  tasks: "/tasks",
+  workSessions: "/work-sessions",
+  conversations: "/conversations",
+  approvals: "/approvals",
   chat: "/chat",
   config: "/config",
   debug: "/debug",
@@ -145,6 +154,14 @@ export function iconForTab(tab: Tab): IconName {
       return "zap";
     case "nodes":
       return "monitor";
+    case "tasks":
+      return "listChecks";
+    case "workSessions":
+      return "layers";
+    case "conversations":
+      return "messagesSquare";
+    case "approvals":
+      return "shieldCheck";
     case "config":
       return "settings";
     case "debug":
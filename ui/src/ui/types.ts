@@ -566,3 +566,144 @@ export type LogEntry = {
   message?: string | null;
   meta?: Record<string, unknown> | null;
 };
+
+export type TaskStep = {
+  id: string;
+  content: string;
+  status: "pending" | "in_progress" | "done" | "skipped";
+  order: number;
+};
+
+export type TaskBoardTask = {
+  id: string;
+  status: string;
+  priority: "low" | "medium" | "high" | "urgent";
+  description: string;
+  created: string;
+  lastActivity: string;
+  workSessionId?: string;
+  assignee?: string;
+  createdBy?: string;
+  dependsOn?: string[];
+  dueDate?: string;
+  progress: string[];
+  steps?: TaskStep[];
+  blockedReason?: string;
+  unblockedBy?: string[];
+  escalationState?: string;
+};
+
+export type TaskBoardAgent = {
+  agentId: string;
+  role?: string;
+  status?: string;
+  currentTaskId: string | null;
+  tasks: TaskBoardTask[];
+};
+
+export type TaskBoardResult = {
+  agents: TaskBoardAgent[];
+  count: number;
+};
+
+export type CoordinationEvent = {
+  type: string;
+  agentId: string;
+  ts: number;
+  data: Record<string, unknown>;
+  eventRole?: string;
+  collabCategory?: string;
+};
+
+export type WorkSessionThread = {
+  id: string;
+  conversationId?: string;
+  fromAgent: string;
+  toAgent: string;
+  startTime: number;
+  lastTime: number;
+  eventCount: number;
+  collabCategory: string;
+  events: CoordinationEvent[];
+};
+
+export type WorkSession = {
+  id: string;
+  workSessionId: string;
+  status: "ACTIVE" | "QUIET" | "ARCHIVED";
+  startTime: number;
+  lastTime: number;
+  durationMs: number;
+  threadCount: number;
+  eventCount: number;
+  collabCategory: string;
+  threads: WorkSessionThread[];
+};
+
+export type WorkSessionsResult = {
+  sessions: WorkSession[];
+  count: number;
+  totalMatched: number;
+};
+
+export type A2AConversation = {
+  conversationId: string;
+  fromAgent: string;
+  toAgent: string;
+  intent?: string;
+  intentSource?: string;
+  taskId?: string;
+  workSessionId?: string;
+  turns: number;
+  maxTurns?: number;
+  messageCount: number;
+  status: "open" | "closed";
+  outcome?: string;
+  error?: string;
+  collabCategory: string;
+  startTime: number;
+  lastTime: number;
+};
+
+export type A2AConversationsResult = {
+  conversations: A2AConversation[];
+  count: number;
+  totalMatched: number;
+};
+
+export type A2AConversationThread = A2AConversation & { events: CoordinationEvent[] };
+
+export type ApprovalRecord = {
+  id: string;
+  kind: "task" | "plan" | "exec";
+  sourceId: string;
+  requesterAgentId: string;
+  summary: string;
+  risk: "low" | "medium" | "high";
+  details?: string[];
+  status: "pending" | "escalated" | "approved" | "rejected" | "expired";
+  createdAtMs: number;
+  expiresAtMs: number;
+  escalatedAtMs?: number;
+  decision?: "approve" | "reject";
+  decidedBy?: string;
+  decidedAtMs?: number;
+  reason?: string;
+};
+
+export type ApprovalsListResult = {
+  enabled: boolean;
+  approvals: ApprovalRecord[];
+  count: number;
+};
+
+export type ApprovalAuditEntry = {
+  ts: number;
+  approvalId: string;
+  kind: ApprovalRecord["kind"];
+  sourceId: string;
+  action: "requested" | "escalated" | "decided" | "expired";
+  actor?: string;
+  decision?: "approve" | "reject";
+  reason?: string;
+};
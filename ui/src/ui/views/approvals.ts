@@ -0,0 +1,159 @@
+import { html, nothing } from "lit";
+import { formatMs, formatRelativeTimestamp } from "../format.ts";
+import type { ApprovalAuditEntry, ApprovalRecord, ApprovalsListResult } from "../types.ts";
+
+export type ApprovalsProps = {
+  loading: boolean;
+  result: ApprovalsListResult | null;
+  error: string | null;
+  showAll: boolean;
+  audit: ApprovalAuditEntry[];
+  busyId: string | null;
+  onShowAllChange: (showAll: boolean) => void;
+  onDecide: (id: string, decision: "approve" | "reject") => void;
+  onRefresh: () => void;
+};
+
+function riskChipClass(risk: ApprovalRecord["risk"]) {
+  if (risk === "high") {
+    return "chip chip-danger";
+  }
+  return risk === "medium" ? "chip chip-warn" : "chip";
+}
+
+function statusChipClass(status: ApprovalRecord["status"]) {
+  if (status === "approved") {
+    return "chip chip-ok";
+  }
+  if (status === "rejected" || status === "expired") {
+    return "chip chip-danger";
+  }
+  return status === "escalated" ? "chip chip-warn" : "chip";
+}
+
+function isWaiting(record: ApprovalRecord) {
+  return record.status === "pending" || record.status === "escalated";
+}
+
+export function renderApprovals(props: ApprovalsProps) {
+  const approvals = props.result?.approvals ?? [];
+  return html`
+    <section class="card">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">Approval Inbox</div>
+          <div class="card-sub">
+            ${
+              props.result && !props.result.enabled
+                ? "Inbox is disabled; set approvals.inbox.enabled to collect approvals."
+                : "Task, plan and exec requests waiting on a human."
+            }
+          </div>
+        </div>
+        <button class="btn" ?disabled=${props.loading} @click=${props.onRefresh}>
+          ${props.loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+      <div class="filters" style="margin-top: 14px;">
+        <label class="field checkbox">
+          <span>Include decided</span>
+          <input
+            type="checkbox"
+            .checked=${props.showAll}
+            @change=${(e: Event) => props.onShowAllChange((e.target as HTMLInputElement).checked)}
+          />
+        </label>
+      </div>
+      ${
+        props.error
+          ? html`<div class="callout danger" style="margin-top: 12px;">${props.error}</div>`
+          : nothing
+      }
+      <div class="list" style="margin-top: 16px;">
+        ${
+          approvals.length === 0
+            ? html`
+                <div class="muted">Nothing is waiting for approval.</div>
+              `
+            : approvals.map((record) => renderApproval(record, props))
+        }
+      </div>
+    </section>
+    <section class="card">
+      <div class="card-title">Audit Trail</div>
+      <div class="card-sub">Most recent approval requests, escalations and decisions.</div>
+      <div class="list" style="margin-top: 16px;">
+        ${
+          props.audit.length === 0
+            ? html`
+                <div class="muted">No audit entries yet.</div>
+              `
+            : props.audit.map(
+                (entry) => html`
+                  <div class="list-sub">
+                    <span class="mono">${formatMs(entry.ts)}</span>
+                    <span class="chip">${entry.action}</span>
+                    <span class="mono">${entry.approvalId}</span>
+                    ${entry.kind} ${entry.sourceId}
+                    ${entry.actor ? html`· ${entry.actor}` : nothing}
+                    ${entry.decision ? html`· ${entry.decision}` : nothing}
+                    ${entry.reason ? html`· ${entry.reason}` : nothing}
+                  </div>
+                `,
+              )
+        }
+      </div>
+    </section>
+  `;
+}
+
+function renderApproval(record: ApprovalRecord, props: ApprovalsProps) {
+  const busy = props.busyId === record.id;
+  return html`
+    <div class="list-item">
+      <div class="list-main">
+        <div class="list-title">${record.summary}</div>
+        <div class="list-sub mono">${record.id} · ${record.kind} ${record.sourceId}</div>
+        <div class="chip-row">
+          <span class=${statusChipClass(record.status)}>${record.status}</span>
+          <span class=${riskChipClass(record.risk)}>${record.risk} risk</span>
+          <span class="chip">${record.requesterAgentId}</span>
+        </div>
+        ${(record.details ?? []).map((line) => html`<div class="list-sub">${line}</div>`)}
+        ${
+          record.decidedBy
+            ? html`<div class="list-sub">
+                Decided by ${record.decidedBy}${record.reason ? `: ${record.reason}` : ""}
+              </div>`
+            : nothing
+        }
+      </div>
+      <div class="list-meta">
+        <div>${formatRelativeTimestamp(record.createdAtMs)}</div>
+        ${
+          isWaiting(record)
+            ? html`
+                <div class="muted">expires ${formatRelativeTimestamp(record.expiresAtMs)}</div>
+                <div class="row" style="gap: 6px;">
+                  <button
+                    class="btn btn--sm primary"
+                    ?disabled=${busy}
+                    @click=${() => props.onDecide(record.id, "approve")}
+                  >
+                    Approve
+                  </button>
+                  <button
+                    class="btn btn--sm danger"
+                    ?disabled=${busy}
+                    @click=${() => props.onDecide(record.id, "reject")}
+                  >
+                    Reject
+                  </button>
+                </div>
+              `
+            : nothing
+        }
+      </div>
+    </div>
+  `;
+}
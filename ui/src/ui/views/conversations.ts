@@ -0,0 +1,172 @@
+import { html, nothing } from "lit";
+import { formatMs, formatRelativeTimestamp } from "../format.ts";
+import type { A2AConversation, A2AConversationThread, A2AConversationsResult } from "../types.ts";
+
+export type ConversationsProps = {
+  loading: boolean;
+  result: A2AConversationsResult | null;
+  error: string | null;
+  statusFilter: "" | "open" | "closed";
+  selectedId: string | null;
+  thread: A2AConversationThread | null;
+  threadLoading: boolean;
+  onStatusFilterChange: (status: "" | "open" | "closed") => void;
+  onSelect: (conversationId: string) => void;
+  onRefresh: () => void;
+};
+
+function outcomeChipClass(conversation: A2AConversation) {
+  if (conversation.status === "open") {
+    return "chip chip-ok";
+  }
+  return conversation.outcome === "completed" ? "chip" : "chip chip-danger";
+}
+
+function formatTurns(conversation: A2AConversation) {
+  return conversation.maxTurns != null
+    ? `${conversation.turns}/${conversation.maxTurns} turns`
+    : `${conversation.turns} turns`;
+}
+
+export function renderConversations(props: ConversationsProps) {
+  const conversations = props.result?.conversations ?? [];
+  return html`
+    <section class="card">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">A2A Conversations</div>
+          <div class="card-sub">
+            ${
+              props.result
+                ? `${props.result.count} of ${props.result.totalMatched} conversations from the last 7 days.`
+                : "Agent-to-agent threads from the coordination log."
+            }
+          </div>
+        </div>
+        <button class="btn" ?disabled=${props.loading} @click=${props.onRefresh}>
+          ${props.loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+      <div class="filters" style="margin-top: 14px;">
+        <label class="field">
+          <span>Status</span>
+          <select
+            .value=${props.statusFilter}
+            @change=${(e: Event) =>
+              props.onStatusFilterChange(
+                (e.target as HTMLSelectElement).value as ConversationsProps["statusFilter"],
+              )}
+          >
+            <option value="">All</option>
+            <option value="open">Open</option>
+            <option value="closed">Closed</option>
+          </select>
+        </label>
+      </div>
+      ${
+        props.error
+          ? html`<div class="callout danger" style="margin-top: 12px;">${props.error}</div>`
+          : nothing
+      }
+      <div class="list" style="margin-top: 16px;">
+        ${
+          conversations.length === 0
+            ? html`
+                <div class="muted">No A2A conversations yet.</div>
+              `
+            : conversations.map((conversation) =>
+                renderConversation(conversation, props.selectedId, props.onSelect),
+              )
+        }
+      </div>
+    </section>
+    ${props.selectedId ? renderThread(props) : nothing}
+  `;
+}
+
+function renderConversation(
+  conversation: A2AConversation,
+  selectedId: string | null,
+  onSelect: (conversationId: string) => void,
+) {
+  const selected = conversation.conversationId === selectedId;
+  return html`
+    <div class="list-item">
+      <div class="list-main">
+        <div class="list-title">${conversation.fromAgent} → ${conversation.toAgent}</div>
+        <div class="list-sub mono">${conversation.conversationId}</div>
+        <div class="chip-row">
+          <span class=${outcomeChipClass(conversation)}>
+            ${conversation.status === "open" ? "open" : (conversation.outcome ?? "closed")}
+          </span>
+          ${
+            conversation.intent
+              ? html`<span class="chip">intent ${conversation.intent}${conversation.intentSource ? ` (${conversation.intentSource})` : ""}</span>`
+              : nothing
+          }
+          <span class="chip">${formatTurns(conversation)}</span>
+          <span class="chip">${conversation.messageCount} messages</span>
+          ${conversation.taskId ? html`<span class="chip">task ${conversation.taskId}</span>` : nothing}
+        </div>
+      </div>
+      <div class="list-meta">
+        <div>${formatRelativeTimestamp(conversation.lastTime)}</div>
+        <button
+          class="btn btn--sm"
+          ?disabled=${selected}
+          @click=${() => onSelect(conversation.conversationId)}
+        >
+          ${selected ? "Showing" : "Open thread"}
+        </button>
+      </div>
+    </div>
+  `;
+}
+
+function renderThread(props: ConversationsProps) {
+  const thread = props.thread;
+  return html`
+    <section class="card" style="margin-top: 16px;">
+      <div class="card-title">Thread</div>
+      <div class="card-sub mono">${props.selectedId}</div>
+      ${
+        !thread || thread.conversationId !== props.selectedId
+          ? html`<div class="muted" style="margin-top: 12px;">
+              ${props.threadLoading ? "Loading…" : "Conversation not found."}
+            </div>`
+          : html`
+            ${
+              thread.error
+                ? html`<div class="callout danger" style="margin-top: 12px;">${thread.error}</div>`
+                : nothing
+            }
+            <div class="list" style="margin-top: 12px;">
+              ${thread.events.map((event) => {
+                const data = event.data ?? {};
+                const text = (key: string) =>
+                  typeof data[key] === "string" ? data[key] : undefined;
+                const from = text("fromAgent") ?? event.agentId;
+                const to = text("toAgent");
+                return html`
+                  <div class="list-item">
+                    <div class="list-main">
+                      <div class="list-title">
+                        ${from}${to ? ` → ${to}` : ""}
+                        <span class="chip">${event.type}</span>
+                      </div>
+                      <div class="list-sub" style="white-space: pre-wrap;">
+                        ${text("message") ?? text("outcome") ?? text("reason") ?? ""}
+                      </div>
+                    </div>
+                    <div class="list-meta">
+                      <div class="muted">${formatMs(event.ts)}</div>
+                    </div>
+                  </div>
+                `;
+              })}
+            </div>
+          `
+      }
+    </section>
+  `;
+}
@@ -0,0 +1,175 @@
+import { html, nothing } from "lit";
+import { formatRelativeTimestamp } from "../format.ts";
+import type { TaskBoardAgent, TaskBoardResult, TaskBoardTask } from "../types.ts";
+
+export type TasksProps = {
+  loading: boolean;
+  board: TaskBoardResult | null;
+  error: string | null;
+  agentFilter: string;
+  onAgentFilterChange: (agentId: string) => void;
+  onRefresh: () => void;
+};
+
+const STATUS_ORDER = [
+  "in_progress",
+  "blocked",
+  "pending_approval",
+  "pending",
+  "backlog",
+  "interrupted",
+  "completed",
+  "cancelled",
+  "abandoned",
+];
+
+function statusChipClass(status: string) {
+  if (status === "blocked" || status === "interrupted") {
+    return "chip chip-danger";
+  }
+  if (status === "in_progress" || status === "completed") {
+    return "chip chip-ok";
+  }
+  if (status === "pending_approval" || status === "abandoned") {
+    return "chip chip-warn";
+  }
+  return "chip";
+}
+
+function sortTasks(tasks: TaskBoardTask[]) {
+  const rank = (status: string) => {
+    const index = STATUS_ORDER.indexOf(status);
+    return index === -1 ? STATUS_ORDER.length : index;
+  };
+  return tasks.toSorted(
+    (a, b) => rank(a.status) - rank(b.status) || b.lastActivity.localeCompare(a.lastActivity),
+  );
+}
+
+export function renderTasks(props: TasksProps) {
+  const agents = props.board?.agents ?? [];
+  return html`
+    <section class="card">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">Task Boards</div>
+          <div class="card-sub">Tasks per agent, updated live from coordination events.</div>
+        </div>
+        <button class="btn" ?disabled=${props.loading} @click=${props.onRefresh}>
+          ${props.loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+      <div class="filters" style="margin-top: 14px;">
+        <label class="field">
+          <span>Agent</span>
+          <input
+            .value=${props.agentFilter}
+            placeholder="all agents"
+            @change=${(e: Event) =>
+              props.onAgentFilterChange((e.target as HTMLInputElement).value.trim())}
+          />
+        </label>
+      </div>
+      ${
+        props.error
+          ? html`<div class="callout danger" style="margin-top: 12px;">${props.error}</div>`
+          : nothing
+      }
+    </section>
+    ${
+      agents.length === 0
+        ? html`
+            <section class="card" style="margin-top: 16px">
+              <div class="muted">${props.loading ? "Loading…" : "No agents with tasks."}</div>
+            </section>
+          `
+        : agents.map((agent) => renderAgentBoard(agent))
+    }
+  `;
+}
+
+function renderAgentBoard(agent: TaskBoardAgent) {
+  const tasks = sortTasks(agent.tasks);
+  return html`
+    <section class="card" style="margin-top: 16px;">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">${agent.agentId}</div>
+          <div class="card-sub">
+            ${agent.role ?? "agent"}${agent.status ? ` · ${agent.status}` : ""}
+            ${agent.currentTaskId ? html` · current <span class="mono">${agent.currentTaskId}</span>` : nothing}
+          </div>
+        </div>
+        <span class="chip">${tasks.length} tasks</span>
+      </div>
+      <div class="list" style="margin-top: 12px;">
+        ${
+          tasks.length === 0
+            ? html`
+                <div class="muted">No tasks.</div>
+              `
+            : tasks.map((task) => renderTask(task, task.id === agent.currentTaskId))
+        }
+      </div>
+    </section>
+  `;
+}
+
+function renderTask(task: TaskBoardTask, current: boolean) {
+  const steps = (task.steps ?? []).toSorted((a, b) => a.order - b.order);
+  const doneSteps = steps.filter((step) => step.status === "done" || step.status === "skipped");
+  const lastActivity = Date.parse(task.lastActivity);
+  return html`
+    <div class="list-item">
+      <div class="list-main">
+        <div class="list-title">${current ? "▶ " : ""}${task.description}</div>
+        <div class="list-sub mono">${task.id}</div>
+        <div class="chip-row">
+          <span class=${statusChipClass(task.status)}>${task.status}</span>
+          <span class=${task.priority === "urgent" || task.priority === "high" ? "chip chip-warn" : "chip"}>
+            ${task.priority}
+          </span>
+          ${steps.length > 0 ? html`<span class="chip">steps ${doneSteps.length}/${steps.length}</span>` : nothing}
+          ${task.assignee ? html`<span class="chip">assignee ${task.assignee}</span>` : nothing}
+          ${task.dueDate ? html`<span class="chip">due ${task.dueDate}</span>` : nothing}
+          ${
+            task.dependsOn?.length
+              ? html`<span class="chip">depends on ${task.dependsOn.join(", ")}</span>`
+              : nothing
+          }
+        </div>
+        ${
+          task.blockedReason
+            ? html`<div class="callout danger" style="margin-top: 8px;">
+                Blocked: ${task.blockedReason}
+                ${
+                  task.unblockedBy?.length
+                    ? html`<div class="muted">Waiting on ${task.unblockedBy.join(", ")}</div>`
+                    : nothing
+                }
+                ${
+                  task.escalationState && task.escalationState !== "none"
+                    ? html`<div class="muted">Escalation: ${task.escalationState}</div>`
+                    : nothing
+                }
+              </div>`
+            : nothing
+        }
+        ${
+          steps.length > 0
+            ? html`<ul class="muted" style="margin: 8px 0 0; padding-left: 18px;">
+                ${steps.map(
+                  (step) =>
+                    html`<li>${step.status === "done" ? "✓" : step.status === "in_progress" ? "…" : "○"} ${step.content}</li>`,
+                )}
+              </ul>`
+            : nothing
+        }
+      </div>
+      <div class="list-meta">
+        <div>${Number.isFinite(lastActivity) ? formatRelativeTimestamp(lastActivity) : "n/a"}</div>
+        ${task.workSessionId ? html`<div class="muted mono">${task.workSessionId}</div>` : nothing}
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,136 @@
+import { html, nothing } from "lit";
+import { clampText, formatDurationHuman, formatMs, formatRelativeTimestamp } from "../format.ts";
+import type { CoordinationEvent, WorkSession, WorkSessionsResult } from "../types.ts";
+
+export type WorkSessionsProps = {
+  loading: boolean;
+  result: WorkSessionsResult | null;
+  error: string | null;
+  statusFilter: "" | "ACTIVE" | "QUIET" | "ARCHIVED";
+  expanded: string | null;
+  onStatusFilterChange: (status: "" | "ACTIVE" | "QUIET" | "ARCHIVED") => void;
+  onToggle: (workSessionId: string) => void;
+  onRefresh: () => void;
+};
+
+function statusChipClass(status: WorkSession["status"]) {
+  if (status === "ACTIVE") {
+    return "chip chip-ok";
+  }
+  return status === "QUIET" ? "chip chip-warn" : "chip";
+}
+
+/** One-line description of a task.* or a2a.* event for the timeline. */
+export function describeCoordinationEvent(event: CoordinationEvent): string {
+  const data = event.data ?? {};
+  const text = (key: string) => (typeof data[key] === "string" ? data[key] : "");
+  if (event.type.startsWith("a2a.")) {
+    const route = [text("fromAgent"), text("toAgent")].filter(Boolean).join(" → ");
+    const detail = text("message") || text("outcome") || text("reason") || text("error");
+    return clampText([route, detail].filter(Boolean).join(": "), 160);
+  }
+  const task = text("taskId");
+  const detail = text("description") || text("reason") || text("status");
+  return clampText([task, detail].filter(Boolean).join(": "), 160);
+}
+
+export function renderWorkSessions(props: WorkSessionsProps) {
+  const sessions = props.result?.sessions ?? [];
+  return html`
+    <section class="card">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">Work Sessions</div>
+          <div class="card-sub">
+            ${
+              props.result
+                ? `${props.result.count} of ${props.result.totalMatched} sessions from the last 7 days.`
+                : "Task and A2A activity grouped by work session."
+            }
+          </div>
+        </div>
+        <button class="btn" ?disabled=${props.loading} @click=${props.onRefresh}>
+          ${props.loading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+      <div class="filters" style="margin-top: 14px;">
+        <label class="field">
+          <span>Status</span>
+          <select
+            .value=${props.statusFilter}
+            @change=${(e: Event) =>
+              props.onStatusFilterChange(
+                (e.target as HTMLSelectElement).value as WorkSessionsProps["statusFilter"],
+              )}
+          >
+            <option value="">All</option>
+            <option value="ACTIVE">Active</option>
+            <option value="QUIET">Quiet</option>
+            <option value="ARCHIVED">Archived</option>
+          </select>
+        </label>
+      </div>
+      ${
+        props.error
+          ? html`<div class="callout danger" style="margin-top: 12px;">${props.error}</div>`
+          : nothing
+      }
+      <div class="list" style="margin-top: 16px;">
+        ${
+          sessions.length === 0
+            ? html`
+                <div class="muted">No work sessions yet.</div>
+              `
+            : sessions.map((session) =>
+                renderSession(session, props.expanded === session.workSessionId, props.onToggle),
+              )
+        }
+      </div>
+    </section>
+  `;
+}
+
+function renderSession(
+  session: WorkSession,
+  expanded: boolean,
+  onToggle: (workSessionId: string) => void,
+) {
+  const events = expanded
+    ? session.threads.flatMap((thread) => thread.events).toSorted((a, b) => a.ts - b.ts)
+    : [];
+  return html`
+    <div class="list-item">
+      <div class="list-main">
+        <div class="list-title mono">${session.workSessionId}</div>
+        <div class="chip-row">
+          <span class=${statusChipClass(session.status)}>${session.status}</span>
+          <span class="chip">${session.collabCategory}</span>
+          <span class="chip">${session.threadCount} threads</span>
+          <span class="chip">${session.eventCount} events</span>
+        </div>
+        ${
+          expanded
+            ? html`<div class="list" style="margin-top: 10px;">
+                ${events.map(
+                  (event) => html`
+                    <div class="list-sub">
+                      <span class="mono">${formatMs(event.ts)}</span>
+                      <span class="chip">${event.type}</span>
+                      ${describeCoordinationEvent(event)}
+                    </div>
+                  `,
+                )}
+              </div>`
+            : nothing
+        }
+      </div>
+      <div class="list-meta">
+        <div>${formatRelativeTimestamp(session.lastTime)}</div>
+        <div class="muted">${formatDurationHuman(session.durationMs)}</div>
+        <button class="btn btn--sm" @click=${() => onToggle(session.workSessionId)}>
+          ${expanded ? "Hide timeline" : "Timeline"}
+        </button>
+      </div>
+    </div>
+  `;
+}